@@ -0,0 +1,339 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Trophy, Plus, Pencil, Play } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { showToast } from '@/app/components/ui/toast';
+
+const CATEGORIES = ['writing', 'creativity', 'consistency', 'improvement', 'social', 'milestone'];
+const RARITIES = ['common', 'rare', 'epic', 'legendary'];
+
+interface AchievementItem {
+  _id: string;
+  name: string;
+  description: string;
+  icon: string;
+  category: string;
+  rarity: string;
+  criteria: Record<string, number | string | undefined>;
+  rewards: { experiencePoints: number; badge: string; title?: string };
+  isActive: boolean;
+  totalUnlocked: number;
+}
+
+interface ConditionLanguage {
+  stats: string[];
+  storyFields: string[];
+  genres: string[];
+}
+
+interface DryRun {
+  evaluated: number;
+  qualifying: number;
+  users: Array<{ id: string; name: string; stage: number }>;
+  truncated: boolean;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  icon: '🏆',
+  category: 'writing',
+  rarity: 'common',
+  experiencePoints: '50',
+  badge: '',
+  customCondition: '',
+};
+
+export default function AchievementsClient() {
+  const [achievements, setAchievements] = useState<AchievementItem[]>([]);
+  const [language, setLanguage] = useState<ConditionLanguage | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [dryRun, setDryRun] = useState<DryRun | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAchievements();
+  }, []);
+
+  const fetchAchievements = async () => {
+    try {
+      const response = await fetch('/api/admin/achievements');
+      if (response.ok) {
+        const data = await response.json();
+        setAchievements(data.data.achievements);
+        setLanguage(data.data.conditionLanguage);
+      }
+    } catch (error) {
+      console.error('Error fetching achievements:', error);
+    }
+  };
+
+  const updateForm = (field: keyof typeof EMPTY_FORM, value: string) => {
+    setForm(current => ({ ...current, [field]: value }));
+    if (field === 'customCondition') setDryRun(null);
+  };
+
+  const startEdit = (achievement: AchievementItem) => {
+    setEditingId(achievement._id);
+    setErrors({});
+    setDryRun(null);
+    setForm({
+      name: achievement.name,
+      description: achievement.description,
+      icon: achievement.icon,
+      category: achievement.category,
+      rarity: achievement.rarity,
+      experiencePoints: String(achievement.rewards.experiencePoints),
+      badge: achievement.rewards.badge,
+      customCondition: String(achievement.criteria.customCondition || ''),
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setErrors({});
+    setDryRun(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleDryRun = async () => {
+    setIsChecking(true);
+    setErrors(current => ({ ...current, 'criteria.customCondition': '' }));
+    try {
+      const response = await fetch('/api/admin/achievements/dry-run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ condition: form.customCondition }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setDryRun(data.data);
+      } else {
+        setDryRun(null);
+        setErrors(current => ({
+          ...current,
+          'criteria.customCondition': data.errors?.condition || data.message,
+        }));
+      }
+    } catch (error) {
+      console.error('Error checking condition:', error);
+      showToast.error('Could not check condition', 'Please try again');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setErrors({});
+    try {
+      const editing = achievements.find(achievement => achievement._id === editingId);
+      const response = await fetch(
+        editingId ? `/api/admin/achievements/${editingId}` : '/api/admin/achievements',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: form.name,
+            description: form.description,
+            icon: form.icon,
+            category: form.category,
+            rarity: form.rarity,
+            // Keep any fixed criteria the achievement already has
+            criteria: {
+              ...(editing?.criteria || {}),
+              customCondition: form.customCondition.trim() || undefined,
+            },
+            rewards: {
+              ...(editing?.rewards || {}),
+              experiencePoints: parseInt(form.experiencePoints) || 0,
+              badge: form.badge || form.name,
+            },
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast.success(editingId ? 'Achievement updated' : 'Achievement created', form.name);
+        resetForm();
+        fetchAchievements();
+      } else {
+        setErrors(data.errors || { general: data.message });
+      }
+    } catch (error) {
+      console.error('Error saving achievement:', error);
+      showToast.error('Could not save achievement', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = async (achievement: AchievementItem) => {
+    const response = await fetch(`/api/admin/achievements/${achievement._id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive: !achievement.isActive }),
+    });
+    if (response.ok) {
+      fetchAchievements();
+    } else {
+      showToast.error('Could not update achievement', 'Please try again');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Achievements</h1>
+        <p className="text-gray-600 mt-1">Create achievements and check who their conditions would award</p>
+      </div>
+
+      <div className="bg-white rounded-lg border p-6 space-y-4">
+        <h2 className="text-lg font-semibold">{editingId ? 'Edit achievement' : 'New achievement'}</h2>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <Input label="Name" value={form.name} onChange={(e) => updateForm('name', e.target.value)} error={errors.name} />
+          <Input label="Icon" value={form.icon} onChange={(e) => updateForm('icon', e.target.value)} error={errors.icon} />
+        </div>
+        <Input
+          label="Description"
+          value={form.description}
+          onChange={(e) => updateForm('description', e.target.value)}
+          error={errors.description}
+        />
+        <div className="grid md:grid-cols-4 gap-4">
+          <label className="text-sm font-medium text-gray-700">
+            Category
+            <select
+              value={form.category}
+              onChange={(e) => updateForm('category', e.target.value)}
+              className="mt-1 w-full border border-gray-300 rounded-md px-2 py-2 text-sm"
+            >
+              {CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+            </select>
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Rarity
+            <select
+              value={form.rarity}
+              onChange={(e) => updateForm('rarity', e.target.value)}
+              className="mt-1 w-full border border-gray-300 rounded-md px-2 py-2 text-sm"
+            >
+              {RARITIES.map(rarity => <option key={rarity} value={rarity}>{rarity}</option>)}
+            </select>
+          </label>
+          <Input
+            label="XP"
+            type="number"
+            value={form.experiencePoints}
+            onChange={(e) => updateForm('experiencePoints', e.target.value)}
+            error={errors['rewards.experiencePoints']}
+          />
+          <Input
+            label="Badge"
+            value={form.badge}
+            placeholder={form.name}
+            onChange={(e) => updateForm('badge', e.target.value)}
+            error={errors['rewards.badge']}
+          />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium text-gray-700">Condition</label>
+          <textarea
+            value={form.customCondition}
+            onChange={(e) => updateForm('customCondition', e.target.value)}
+            placeholder="3 mystery stories with creativityScore >= 80 within 14 days"
+            rows={2}
+            maxLength={500}
+            className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono"
+          />
+          {(errors['criteria.customCondition'] || errors.criteria) && (
+            <p className="text-sm text-red-600 mt-1">{errors['criteria.customCondition'] || errors.criteria}</p>
+          )}
+          {language && (
+            <p className="text-xs text-gray-500 mt-1">
+              Stats: {language.stats.join(', ')}. Story fields: {language.storyFields.join(', ')}.
+              Genres: {language.genres.join(', ')} (quote names with spaces).
+            </p>
+          )}
+        </div>
+
+        {dryRun && (
+          <div className="bg-purple-50 rounded-md p-3 text-sm">
+            <p className="font-medium text-purple-900">
+              {dryRun.qualifying} of {dryRun.evaluated} writers would qualify now
+              {dryRun.truncated && ' (only the first writers were checked)'}
+            </p>
+            {dryRun.users.length > 0 && (
+              <p className="text-purple-800 mt-1">
+                {dryRun.users.map(user => `${user.name} (Stage ${user.stage})`).join(', ')}
+                {dryRun.qualifying > dryRun.users.length && ` and ${dryRun.qualifying - dryRun.users.length} more`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {errors.general && <p className="text-sm text-red-600">{errors.general}</p>}
+
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDryRun}
+            loading={isChecking}
+            disabled={!form.customCondition.trim()}
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Dry run
+          </Button>
+          <Button size="sm" onClick={handleSave} loading={isSaving}>
+            {editingId ? 'Save changes' : <><Plus className="w-4 h-4 mr-2" />Create</>}
+          </Button>
+          {editingId && (
+            <Button variant="outline" size="sm" onClick={resetForm}>Cancel</Button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg border divide-y">
+        {achievements.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            <Trophy className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+            No achievements yet
+          </div>
+        ) : achievements.map(achievement => (
+          <div key={achievement._id} className="p-4 flex items-start justify-between">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900">
+                {achievement.icon} {achievement.name}
+                <span className="ml-2 text-xs text-gray-500">
+                  {achievement.category} · {achievement.rarity} · {achievement.rewards.experiencePoints} XP · unlocked {achievement.totalUnlocked}×
+                </span>
+              </p>
+              <p className="text-sm text-gray-600">{achievement.description}</p>
+              {achievement.criteria.customCondition && (
+                <code className="text-xs text-purple-700">{achievement.criteria.customCondition}</code>
+              )}
+            </div>
+            <div className="flex items-center space-x-2 ml-4">
+              <Button variant="outline" size="sm" onClick={() => startEdit(achievement)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => toggleActive(achievement)}>
+                {achievement.isActive ? 'Deactivate' : 'Activate'}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
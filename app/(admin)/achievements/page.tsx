@@ -0,0 +1,11 @@
+import { Metadata } from 'next';
+import AchievementsClient from './AchievementsClient';
+
+export const metadata: Metadata = {
+  title: 'Achievements | Mintoons Admin',
+  description: 'Create achievements and check who their conditions would award.',
+};
+
+export default function AchievementsPage() {
+  return <AchievementsClient />;
+}
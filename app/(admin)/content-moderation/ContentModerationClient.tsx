@@ -16,146 +16,165 @@ import {
   Calendar,
   ThumbsUp,
   ThumbsDown,
-  MoreVertical,
   Shield,
-  Ban,
+  UserCheck,
 } from 'lucide-react';
 
-interface FlaggedContent {
+interface ModerationCaseItem {
   _id: string;
-  type: 'story' | 'comment';
-  content: {
+  targetType: 'story' | 'comment';
+  targetId: string;
+  storyId?: {
     _id: string;
-    title?: string; // For stories
-    content: string;
-    author: {
-      _id: string;
-      name: string;
-      avatar?: string;
-      role: string;
-    };
-    createdAt: string;
+    title: string;
   };
-  flags: Array<{
+  targetAuthorId: {
     _id: string;
-    reporter: {
+    name: string;
+    avatar?: string;
+    role: string;
+  };
+  excerpt: string;
+  source: 'content_filter' | 'user_report' | 'manual';
+  flaggedCategories: string[];
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  status: 'open' | 'in_review' | 'resolved' | 'appealed' | 'closed';
+  assignee?: {
+    _id: string;
+    name: string;
+  };
+  escalated: boolean;
+  dueAt: string;
+  resolvedAt?: string;
+  isOverdue: boolean;
+  decisions: Array<{
+    decision: ModerationAction;
+    reason?: string;
+    decidedBy?: {
       _id: string;
       name: string;
     };
-    reason: 'inappropriate' | 'spam' | 'harassment' | 'violence' | 'other';
-    description: string;
-    reportedAt: string;
+    previousStatus: string;
+    newStatus: string;
+    onAppeal: boolean;
+    decidedAt: string;
   }>;
-  status: 'pending' | 'approved' | 'rejected' | 'escalated';
-  reviewedBy?: {
-    _id: string;
-    name: string;
+  appeal?: {
+    requesterRole: 'child' | 'parent';
+    reason: string;
+    requestedAt: string;
+    outcome?: 'upheld' | 'overturned';
   };
-  reviewedAt?: string;
-  moderationNotes?: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  autoFlagged: boolean;
-  aiConfidence?: number;
+  createdAt: string;
 }
 
 interface ModerationStats {
-  total: number;
-  pending: number;
-  approved: number;
-  rejected: number;
-  escalated: number;
-  autoFlagged: number;
-  todayReviewed: number;
-  averageReviewTime: number;
+  open: number;
+  in_review: number;
+  resolved: number;
+  appealed: number;
+  closed: number;
+  overdue: number;
 }
 
+type ModerationAction = 'approve' | 'reject' | 'escalate';
+
+const ACTIVE_STATUSES = ['open', 'in_review', 'appealed'];
+
+const SEVERITY_RANK: Record<string, number> = {
+  critical: 3,
+  high: 2,
+  medium: 1,
+  low: 0,
+};
+
 export default function ContentModerationClient() {
-  const [flaggedContent, setFlaggedContent] = useState<FlaggedContent[]>([]);
+  const [cases, setCases] = useState<ModerationCaseItem[]>([]);
   const [stats, setStats] = useState<ModerationStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState<string>('');
-  const [statusFilter, setStatusFilter] = useState<string>('pending');
+  const [statusFilter, setStatusFilter] = useState<string>('open');
   const [severityFilter, setSeverityFilter] = useState<string>('');
-  const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'severity'>(
-    'newest'
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const [sortBy, setSortBy] = useState<'due' | 'newest' | 'oldest' | 'severity'>(
+    'due'
   );
-  const [selectedContent, setSelectedContent] = useState<FlaggedContent | null>(
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectedCase, setSelectedCase] = useState<ModerationCaseItem | null>(
     null
   );
   const [showDetailModal, setShowDetailModal] = useState(false);
-  const [reviewAction, setReviewAction] = useState<
-    'approve' | 'reject' | 'escalate' | null
-  >(null);
+  const [reviewAction, setReviewAction] = useState<ModerationAction | null>(
+    null
+  );
   const [moderationNotes, setModerationNotes] = useState('');
 
   useEffect(() => {
-    fetchFlaggedContent();
-    fetchModerationStats();
-  }, [statusFilter, typeFilter, severityFilter, sortBy]);
+    fetchCases();
+  }, [statusFilter, typeFilter, severityFilter, assignedToMe]);
 
-  const fetchFlaggedContent = async () => {
+  const fetchCases = async () => {
     setIsLoading(true);
     try {
       const params = new URLSearchParams({
         status: statusFilter,
         type: typeFilter,
         severity: severityFilter,
-        sort: sortBy,
-        search: searchTerm,
+        limit: '100',
       });
+      if (assignedToMe) {
+        params.set('assignee', 'me');
+      }
 
-      const response = await fetch(`/api/admin/moderation/content?${params}`);
+      const response = await fetch(`/api/admin/content-moderation?${params}`);
       if (response.ok) {
         const data = await response.json();
-        setFlaggedContent(data.content);
+        setCases(data.data.cases);
+        setStats(data.data.stats);
+        setSelectedIds([]);
       }
     } catch (error) {
-      console.error('Error fetching flagged content:', error);
+      console.error('Error fetching moderation queue:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const fetchModerationStats = async () => {
-    try {
-      const response = await fetch('/api/admin/moderation/stats');
-      if (response.ok) {
-        const data = await response.json();
-        setStats(data.stats);
-      }
-    } catch (error) {
-      console.error('Error fetching moderation stats:', error);
-    }
+  const closeDetailModal = () => {
+    setShowDetailModal(false);
+    setSelectedCase(null);
+    setModerationNotes('');
+    setReviewAction(null);
   };
 
   const handleReview = async (
-    contentId: string,
-    action: 'approve' | 'reject' | 'escalate',
-    notes?: string
+    caseIds: string[],
+    decision: ModerationAction,
+    reason?: string
   ) => {
     try {
-      const response = await fetch('/api/admin/moderation/review', {
+      const response = await fetch('/api/admin/content-moderation', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          contentId,
-          action,
-          notes,
+          caseIds,
+          decision,
+          reason,
         }),
       });
 
-      if (response.ok) {
+      const data = await response.json();
+      if (response.ok && data.success) {
+        const failed = data.data.results.filter((result: any) => !result.success);
+        if (failed.length > 0) {
+          alert(`${data.message}. ${failed[0].message}`);
+        }
         // Refresh the list
-        fetchFlaggedContent();
-        fetchModerationStats();
-        setShowDetailModal(false);
-        setSelectedContent(null);
-        setModerationNotes('');
-        setReviewAction(null);
+        fetchCases();
+        closeDetailModal();
       } else {
-        const error = await response.json();
-        alert(error.error || 'Failed to review content');
+        alert(data.message || 'Failed to review content');
       }
     } catch (error) {
       console.error('Error reviewing content:', error);
@@ -163,36 +182,47 @@ export default function ContentModerationClient() {
     }
   };
 
-  const handleBulkAction = async (
-    contentIds: string[],
-    action: 'approve' | 'reject'
-  ) => {
+  const handleBulkAction = async (action: ModerationAction) => {
     if (
-      !confirm(`Are you sure you want to ${action} ${contentIds.length} items?`)
+      !confirm(`Are you sure you want to ${action} ${selectedIds.length} cases?`)
     ) {
       return;
     }
 
+    await handleReview(selectedIds, action);
+  };
+
+  const handleAssign = async (caseIds: string[], assignee: 'me' | null) => {
     try {
-      const response = await fetch('/api/admin/moderation/bulk', {
-        method: 'POST',
+      const response = await fetch('/api/admin/content-moderation', {
+        method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          contentIds,
-          action,
+          caseIds,
+          assignee,
         }),
       });
 
       if (response.ok) {
-        fetchFlaggedContent();
-        fetchModerationStats();
+        fetchCases();
+      } else {
+        const error = await response.json();
+        alert(error.message || 'Failed to assign cases');
       }
     } catch (error) {
-      console.error('Error performing bulk action:', error);
-      alert('Failed to perform bulk action');
+      console.error('Error assigning cases:', error);
+      alert('Failed to assign cases');
     }
   };
 
+  const toggleSelected = (caseId: string) => {
+    setSelectedIds((current) =>
+      current.includes(caseId)
+        ? current.filter((id) => id !== caseId)
+        : [...current, caseId]
+    );
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -210,47 +240,77 @@ export default function ContentModerationClient() {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'pending':
+      case 'open':
         return <Clock className="w-4 h-4 text-yellow-600" />;
-      case 'approved':
+      case 'in_review':
+        return <Eye className="w-4 h-4 text-blue-600" />;
+      case 'resolved':
         return <CheckCircle className="w-4 h-4 text-green-600" />;
-      case 'rejected':
-        return <XCircle className="w-4 h-4 text-red-600" />;
-      case 'escalated':
+      case 'appealed':
         return <AlertTriangle className="w-4 h-4 text-purple-600" />;
+      case 'closed':
+        return <XCircle className="w-4 h-4 text-gray-600" />;
       default:
         return <Clock className="w-4 h-4 text-gray-600" />;
     }
   };
 
-  const getReasonIcon = (reason: string) => {
-    switch (reason) {
-      case 'inappropriate':
+  const getCategoryIcon = (category: string) => {
+    switch (category) {
+      case 'inappropriate_language':
         return '🚫';
-      case 'spam':
-        return '📧';
-      case 'harassment':
+      case 'personal_information':
+        return '🔒';
+      case 'bullying':
         return '😡';
       case 'violence':
         return '⚠️';
+      case 'self_harm':
+        return '🆘';
       default:
         return '❓';
     }
   };
 
-  const filteredContent = flaggedContent.filter((item) => {
-    if (searchTerm) {
-      return (
-        item.content.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        item.content.author.name
-          .toLowerCase()
-          .includes(searchTerm.toLowerCase()) ||
-        (item.content.title &&
-          item.content.title.toLowerCase().includes(searchTerm.toLowerCase()))
-      );
-    }
-    return true;
-  });
+  const formatCategory = (category: string) => category.replace(/[_/-]/g, ' ');
+
+  const formatDue = (item: ModerationCaseItem) => {
+    const minutes = Math.round((new Date(item.dueAt).getTime() - Date.now()) / 60000);
+    const span = Math.abs(minutes) >= 60
+      ? `${Math.round(Math.abs(minutes) / 60)}h`
+      : `${Math.abs(minutes)}m`;
+    return minutes < 0 ? `${span} overdue` : `due in ${span}`;
+  };
+
+  const filteredCases = cases
+    .filter((item) => {
+      if (searchTerm) {
+        const term = searchTerm.toLowerCase();
+        return (
+          item.excerpt.toLowerCase().includes(term) ||
+          item.targetAuthorId?.name.toLowerCase().includes(term) ||
+          (item.storyId?.title &&
+            item.storyId.title.toLowerCase().includes(term))
+        );
+      }
+      return true;
+    })
+    .sort((a, b) => {
+      switch (sortBy) {
+        case 'newest':
+          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+        case 'oldest':
+          return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+        case 'severity':
+          return SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity];
+        default:
+          return new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime();
+      }
+    });
+
+  const allSelected =
+    filteredCases.length > 0 &&
+    filteredCases.every((item) => selectedIds.includes(item._id));
 
   return (
     <div className="space-y-6">
@@ -275,61 +335,47 @@ export default function ContentModerationClient() {
 
       {/* Stats */}
       {stats && (
-        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
-          <div className="bg-white p-4 rounded-lg border text-center">
-            <div className="text-2xl font-bold text-gray-900">
-              {stats.total}
-            </div>
-            <div className="text-sm text-gray-600">Total Reports</div>
-          </div>
-
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
           <div className="bg-white p-4 rounded-lg border text-center">
             <div className="text-2xl font-bold text-yellow-600">
-              {stats.pending}
+              {stats.open}
             </div>
-            <div className="text-sm text-gray-600">Pending</div>
+            <div className="text-sm text-gray-600">Open</div>
           </div>
 
           <div className="bg-white p-4 rounded-lg border text-center">
-            <div className="text-2xl font-bold text-green-600">
-              {stats.approved}
-            </div>
-            <div className="text-sm text-gray-600">Approved</div>
-          </div>
-
-          <div className="bg-white p-4 rounded-lg border text-center">
-            <div className="text-2xl font-bold text-red-600">
-              {stats.rejected}
+            <div className="text-2xl font-bold text-blue-600">
+              {stats.in_review}
             </div>
-            <div className="text-sm text-gray-600">Rejected</div>
+            <div className="text-sm text-gray-600">In Review</div>
           </div>
 
           <div className="bg-white p-4 rounded-lg border text-center">
             <div className="text-2xl font-bold text-purple-600">
-              {stats.escalated}
+              {stats.appealed}
             </div>
-            <div className="text-sm text-gray-600">Escalated</div>
+            <div className="text-sm text-gray-600">Appealed</div>
           </div>
 
           <div className="bg-white p-4 rounded-lg border text-center">
-            <div className="text-2xl font-bold text-blue-600">
-              {stats.autoFlagged}
+            <div className="text-2xl font-bold text-red-600">
+              {stats.overdue}
             </div>
-            <div className="text-sm text-gray-600">AI Flagged</div>
+            <div className="text-sm text-gray-600">Past SLA</div>
           </div>
 
           <div className="bg-white p-4 rounded-lg border text-center">
-            <div className="text-2xl font-bold text-emerald-600">
-              {stats.todayReviewed}
+            <div className="text-2xl font-bold text-green-600">
+              {stats.resolved}
             </div>
-            <div className="text-sm text-gray-600">Today</div>
+            <div className="text-sm text-gray-600">Resolved</div>
           </div>
 
           <div className="bg-white p-4 rounded-lg border text-center">
-            <div className="text-2xl font-bold text-orange-600">
-              {stats.averageReviewTime}
+            <div className="text-2xl font-bold text-gray-900">
+              {stats.closed}
             </div>
-            <div className="text-sm text-gray-600">Avg Time (min)</div>
+            <div className="text-sm text-gray-600">Closed</div>
           </div>
         </div>
       )}
@@ -342,7 +388,7 @@ export default function ContentModerationClient() {
               <Search className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search content or authors..."
+                placeholder="Search content, authors or stories..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
@@ -356,10 +402,11 @@ export default function ContentModerationClient() {
             className="border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           >
             <option value="">All Status</option>
-            <option value="pending">Pending</option>
-            <option value="approved">Approved</option>
-            <option value="rejected">Rejected</option>
-            <option value="escalated">Escalated</option>
+            <option value="open">Open</option>
+            <option value="in_review">In Review</option>
+            <option value="appealed">Appealed</option>
+            <option value="resolved">Resolved</option>
+            <option value="closed">Closed</option>
           </select>
 
           <select
@@ -389,18 +436,87 @@ export default function ContentModerationClient() {
             onChange={(e) => setSortBy(e.target.value as any)}
             className="border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           >
+            <option value="due">SLA Due First</option>
             <option value="newest">Newest First</option>
             <option value="oldest">Oldest First</option>
             <option value="severity">By Severity</option>
           </select>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={assignedToMe}
+              onChange={(e) => setAssignedToMe(e.target.checked)}
+              className="rounded"
+            />
+            <span>Assigned to me</span>
+          </label>
         </div>
       </div>
 
-      {/* Content List */}
+      {/* Bulk Actions */}
+      {selectedIds.length > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <span className="text-sm font-medium text-blue-900">
+            {selectedIds.length} case{selectedIds.length !== 1 ? 's' : ''}{' '}
+            selected
+          </span>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => handleAssign(selectedIds, 'me')}
+              className="px-3 py-1.5 text-sm border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-100"
+            >
+              <UserCheck className="w-4 h-4 inline mr-1" />
+              Assign to me
+            </button>
+            <button
+              onClick={() => handleBulkAction('approve')}
+              className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700"
+            >
+              <ThumbsUp className="w-4 h-4 inline mr-1" />
+              Approve
+            </button>
+            <button
+              onClick={() => handleBulkAction('reject')}
+              className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700"
+            >
+              <ThumbsDown className="w-4 h-4 inline mr-1" />
+              Reject
+            </button>
+            <button
+              onClick={() => handleBulkAction('escalate')}
+              className="px-3 py-1.5 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+            >
+              <AlertTriangle className="w-4 h-4 inline mr-1" />
+              Escalate
+            </button>
+            <button
+              onClick={() => setSelectedIds([])}
+              className="px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Case List */}
       <div className="bg-white rounded-lg border">
-        <div className="p-6 border-b">
+        <div className="p-6 border-b flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() =>
+              setSelectedIds(
+                allSelected ? [] : filteredCases.map((item) => item._id)
+              )
+            }
+            className="rounded"
+            aria-label="Select all cases"
+          />
           <h2 className="text-lg font-semibold">
-            Flagged Content ({filteredContent.length})
+            Moderation Queue ({filteredCases.length})
           </h2>
         </div>
 
@@ -409,19 +525,27 @@ export default function ContentModerationClient() {
             <div className="p-12 text-center">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
             </div>
-          ) : filteredContent.length === 0 ? (
+          ) : filteredCases.length === 0 ? (
             <div className="p-12 text-center text-gray-500">
               <Flag className="w-16 h-16 mx-auto mb-4 opacity-50" />
-              <h3 className="text-lg font-medium mb-2">No flagged content</h3>
-              <p>No content matches your current filters.</p>
+              <h3 className="text-lg font-medium mb-2">No moderation cases</h3>
+              <p>No cases match your current filters.</p>
             </div>
           ) : (
-            filteredContent.map((item) => (
+            filteredCases.map((item) => (
               <div key={item._id} className="p-6 hover:bg-gray-50">
                 <div className="flex items-start justify-between">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(item._id)}
+                    onChange={() => toggleSelected(item._id)}
+                    className="rounded mt-1 mr-4"
+                    aria-label="Select case"
+                  />
+
                   <div className="flex-1">
                     {/* Header */}
-                    <div className="flex items-center space-x-3 mb-3">
+                    <div className="flex flex-wrap items-center gap-3 mb-3">
                       <span
                         className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getSeverityColor(item.severity)}`}
                       >
@@ -430,56 +554,63 @@ export default function ContentModerationClient() {
 
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
                         {getStatusIcon(item.status)}
-                        <span className="ml-1 capitalize">{item.status}</span>
+                        <span className="ml-1 capitalize">
+                          {item.status.replace('_', ' ')}
+                        </span>
                       </span>
 
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
-                        {item.type === 'story' ? (
+                        {item.targetType === 'story' ? (
                           <BookOpen className="w-3 h-3 mr-1" />
                         ) : (
                           <MessageCircle className="w-3 h-3 mr-1" />
                         )}
-                        {item.type}
+                        {item.targetType}
                       </span>
 
-                      {item.autoFlagged && (
+                      {item.source === 'content_filter' && (
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
-                          🤖 AI Flagged
-                          {item.aiConfidence && (
-                            <span className="ml-1">
-                              ({Math.round(item.aiConfidence * 100)}%)
-                            </span>
-                          )}
+                          🤖 Auto Flagged
                         </span>
                       )}
 
-                      <span className="text-xs text-gray-500">
-                        {item.flags.length} report
-                        {item.flags.length !== 1 ? 's' : ''}
-                      </span>
+                      {item.escalated && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          Escalated
+                        </span>
+                      )}
+
+                      {ACTIVE_STATUSES.includes(item.status) && (
+                        <span
+                          className={`text-xs ${item.isOverdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}
+                        >
+                          <Calendar className="w-3 h-3 inline mr-1" />
+                          {formatDue(item)}
+                        </span>
+                      )}
                     </div>
 
                     {/* Content Preview */}
                     <div className="mb-3">
-                      {item.content.title && (
+                      {item.storyId?.title && (
                         <h3 className="font-medium text-gray-900 mb-1">
-                          {item.content.title}
+                          {item.storyId.title}
                         </h3>
                       )}
                       <p className="text-gray-700 line-clamp-3">
-                        {item.content.content.length > 200
-                          ? `${item.content.content.substring(0, 200)}...`
-                          : item.content.content}
+                        {item.excerpt.length > 200
+                          ? `${item.excerpt.substring(0, 200)}...`
+                          : item.excerpt}
                       </p>
                     </div>
 
                     {/* Author Info */}
                     <div className="flex items-center space-x-2 mb-3">
                       <div className="w-6 h-6 rounded-full overflow-hidden bg-gray-200">
-                        {item.content.author.avatar ? (
+                        {item.targetAuthorId?.avatar ? (
                           <img
-                            src={item.content.author.avatar}
-                            alt={item.content.author.name}
+                            src={item.targetAuthorId.avatar}
+                            alt={item.targetAuthorId.name}
                             className="w-full h-full object-cover"
                           />
                         ) : (
@@ -489,57 +620,69 @@ export default function ContentModerationClient() {
                         )}
                       </div>
                       <span className="text-sm font-medium text-gray-900">
-                        {item.content.author.name}
-                      </span>
-                      <span className="text-sm text-gray-500 capitalize">
-                        ({item.content.author.role})
+                        {item.targetAuthorId?.name || 'Unknown author'}
                       </span>
+                      {item.targetAuthorId?.role && (
+                        <span className="text-sm text-gray-500 capitalize">
+                          ({item.targetAuthorId.role})
+                        </span>
+                      )}
                       <span className="text-xs text-gray-400">
-                        {new Date(item.content.createdAt).toLocaleDateString()}
+                        {new Date(item.createdAt).toLocaleDateString()}
                       </span>
                     </div>
 
-                    {/* Flags Summary */}
+                    {/* Flagged Categories */}
                     <div className="flex items-center space-x-4 text-sm">
                       <div className="flex items-center space-x-2">
                         <Flag className="w-4 h-4 text-red-500" />
-                        <span>Reported for:</span>
+                        <span>Flagged for:</span>
                       </div>
 
-                      <div className="flex items-center space-x-2">
-                        {[...new Set(item.flags.map((f) => f.reason))].map(
-                          (reason) => (
-                            <span
-                              key={reason}
-                              className="inline-flex items-center space-x-1"
-                            >
-                              <span>{getReasonIcon(reason)}</span>
-                              <span className="capitalize">{reason}</span>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {item.flaggedCategories.map((category) => (
+                          <span
+                            key={category}
+                            className="inline-flex items-center space-x-1"
+                          >
+                            <span>{getCategoryIcon(category)}</span>
+                            <span className="capitalize">
+                              {formatCategory(category)}
                             </span>
-                          )
-                        )}
+                          </span>
+                        ))}
                       </div>
                     </div>
 
-                    {/* Review Info */}
-                    {item.reviewedBy && (
-                      <div className="mt-2 text-xs text-gray-500">
-                        Reviewed by {item.reviewedBy.name} on{' '}
-                        {new Date(item.reviewedAt!).toLocaleDateString()}
-                        {item.moderationNotes && (
-                          <div className="mt-1 text-gray-700">
-                            Note: {item.moderationNotes}
-                          </div>
-                        )}
-                      </div>
-                    )}
+                    {/* Assignment and Review Info */}
+                    <div className="mt-2 text-xs text-gray-500 space-y-1">
+                      {item.assignee && (
+                        <div>Assigned to {item.assignee.name}</div>
+                      )}
+                      {item.decisions.length > 0 && (
+                        <div>
+                          Last decision:{' '}
+                          <span className="capitalize">
+                            {item.decisions[item.decisions.length - 1].decision}
+                          </span>
+                          {item.decisions[item.decisions.length - 1].decidedBy &&
+                            ` by ${item.decisions[item.decisions.length - 1].decidedBy!.name}`}
+                        </div>
+                      )}
+                      {item.appeal && !item.appeal.outcome && (
+                        <div className="text-purple-700">
+                          Appeal from the {item.appeal.requesterRole}:{' '}
+                          {item.appeal.reason}
+                        </div>
+                      )}
+                    </div>
                   </div>
 
                   {/* Actions */}
                   <div className="flex items-center space-x-2">
                     <button
                       onClick={() => {
-                        setSelectedContent(item);
+                        setSelectedCase(item);
                         setShowDetailModal(true);
                       }}
                       className="p-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg"
@@ -548,10 +691,20 @@ export default function ContentModerationClient() {
                       <Eye className="w-4 h-4" />
                     </button>
 
-                    {item.status === 'pending' && (
+                    {ACTIVE_STATUSES.includes(item.status) && (
                       <>
+                        {!item.assignee && (
+                          <button
+                            onClick={() => handleAssign([item._id], 'me')}
+                            className="p-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg"
+                            title="Assign to me"
+                          >
+                            <UserCheck className="w-4 h-4" />
+                          </button>
+                        )}
+
                         <button
-                          onClick={() => handleReview(item._id, 'approve')}
+                          onClick={() => handleReview([item._id], 'approve')}
                           className="p-2 text-green-600 hover:text-green-800 hover:bg-green-50 rounded-lg"
                           title="Approve"
                         >
@@ -559,7 +712,7 @@ export default function ContentModerationClient() {
                         </button>
 
                         <button
-                          onClick={() => handleReview(item._id, 'reject')}
+                          onClick={() => handleReview([item._id], 'reject')}
                           className="p-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-lg"
                           title="Reject"
                         >
@@ -567,7 +720,7 @@ export default function ContentModerationClient() {
                         </button>
 
                         <button
-                          onClick={() => handleReview(item._id, 'escalate')}
+                          onClick={() => handleReview([item._id], 'escalate')}
                           className="p-2 text-purple-600 hover:text-purple-800 hover:bg-purple-50 rounded-lg"
                           title="Escalate"
                         >
@@ -575,10 +728,6 @@ export default function ContentModerationClient() {
                         </button>
                       </>
                     )}
-
-                    <button className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-50 rounded-lg">
-                      <MoreVertical className="w-4 h-4" />
-                    </button>
                   </div>
                 </div>
               </div>
@@ -588,20 +737,15 @@ export default function ContentModerationClient() {
       </div>
 
       {/* Detail Modal */}
-      {showDetailModal && selectedContent && (
+      {showDetailModal && selectedCase && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden">
             {/* Modal Header */}
             <div className="p-6 border-b">
               <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold">Content Review</h3>
+                <h3 className="text-lg font-semibold">Case Review</h3>
                 <button
-                  onClick={() => {
-                    setShowDetailModal(false);
-                    setSelectedContent(null);
-                    setModerationNotes('');
-                    setReviewAction(null);
-                  }}
+                  onClick={closeDetailModal}
                   className="text-gray-400 hover:text-gray-600"
                 >
                   ✕
@@ -619,22 +763,22 @@ export default function ContentModerationClient() {
                   <div className="space-y-3">
                     <div className="flex items-center space-x-2">
                       <span
-                        className={`px-2 py-1 rounded text-xs font-medium ${getSeverityColor(selectedContent.severity)}`}
+                        className={`px-2 py-1 rounded text-xs font-medium ${getSeverityColor(selectedCase.severity)}`}
                       >
-                        {selectedContent.severity.toUpperCase()}
+                        {selectedCase.severity.toUpperCase()}
                       </span>
                       <span className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800 capitalize">
-                        {selectedContent.type}
+                        {selectedCase.targetType}
                       </span>
                     </div>
 
-                    {selectedContent.content.title && (
+                    {selectedCase.storyId?.title && (
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Title
+                          Story
                         </label>
                         <p className="text-gray-900">
-                          {selectedContent.content.title}
+                          {selectedCase.storyId.title}
                         </p>
                       </div>
                     )}
@@ -645,21 +789,37 @@ export default function ContentModerationClient() {
                       </label>
                       <div className="p-3 bg-gray-50 rounded-lg max-h-40 overflow-y-auto">
                         <p className="text-gray-900 whitespace-pre-wrap">
-                          {selectedContent.content.content}
+                          {selectedCase.excerpt}
                         </p>
                       </div>
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Flagged Categories
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        {selectedCase.flaggedCategories.map((category) => (
+                          <span
+                            key={category}
+                            className="px-2 py-1 rounded text-xs bg-red-50 text-red-700 capitalize"
+                          >
+                            {getCategoryIcon(category)} {formatCategory(category)}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
                         Author
                       </label>
                       <div className="flex items-center space-x-2">
                         <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-200">
-                          {selectedContent.content.author.avatar ? (
+                          {selectedCase.targetAuthorId?.avatar ? (
                             <img
-                              src={selectedContent.content.author.avatar}
-                              alt={selectedContent.content.author.name}
+                              src={selectedCase.targetAuthorId.avatar}
+                              alt={selectedCase.targetAuthorId.name}
                               className="w-full h-full object-cover"
                             />
                           ) : (
@@ -670,10 +830,10 @@ export default function ContentModerationClient() {
                         </div>
                         <div>
                           <p className="font-medium">
-                            {selectedContent.content.author.name}
+                            {selectedCase.targetAuthorId?.name || 'Unknown author'}
                           </p>
                           <p className="text-xs text-gray-500 capitalize">
-                            {selectedContent.content.author.role}
+                            {selectedCase.targetAuthorId?.role}
                           </p>
                         </div>
                       </div>
@@ -681,44 +841,85 @@ export default function ContentModerationClient() {
                   </div>
                 </div>
 
-                {/* Reports */}
+                {/* Decision History */}
                 <div>
                   <h4 className="font-medium mb-3">
-                    Reports ({selectedContent.flags.length})
+                    Decision History ({selectedCase.decisions.length})
                   </h4>
 
+                  {selectedCase.appeal && (
+                    <div className="p-3 mb-3 border border-purple-200 bg-purple-50 rounded-lg">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-medium text-sm capitalize">
+                          Appeal from the {selectedCase.appeal.requesterRole}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {new Date(selectedCase.appeal.requestedAt).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-700">
+                        {selectedCase.appeal.reason}
+                      </p>
+                      {selectedCase.appeal.outcome && (
+                        <p className="text-xs text-purple-700 mt-2 capitalize">
+                          Outcome: {selectedCase.appeal.outcome}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <div className="space-y-3 max-h-60 overflow-y-auto">
-                    {selectedContent.flags.map((flag) => (
-                      <div key={flag._id} className="p-3 border rounded-lg">
-                        <div className="flex items-center justify-between mb-2">
-                          <span className="font-medium text-sm">
-                            {flag.reporter.name}
-                          </span>
-                          <span className="text-xs text-gray-500">
-                            {new Date(flag.reportedAt).toLocaleDateString()}
-                          </span>
-                        </div>
+                    {selectedCase.decisions.length === 0 ? (
+                      <p className="text-sm text-gray-500">
+                        No decisions yet.
+                      </p>
+                    ) : (
+                      selectedCase.decisions.map((entry, index) => (
+                        <div key={index} className="p-3 border rounded-lg">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="font-medium text-sm">
+                              {entry.decidedBy?.name || 'Moderator'}
+                            </span>
+                            <span className="text-xs text-gray-500">
+                              {new Date(entry.decidedAt).toLocaleString()}
+                            </span>
+                          </div>
 
-                        <div className="flex items-center space-x-2 mb-2">
-                          <span>{getReasonIcon(flag.reason)}</span>
-                          <span className="text-sm capitalize font-medium">
-                            {flag.reason}
-                          </span>
-                        </div>
+                          <div className="flex items-center space-x-2 mb-2 text-sm">
+                            <span className="capitalize font-medium">
+                              {entry.decision}
+                            </span>
+                            {entry.onAppeal && (
+                              <span className="text-xs text-purple-700">
+                                (on appeal)
+                              </span>
+                            )}
+                            <span className="text-xs text-gray-500">
+                              {entry.previousStatus.replace('_', ' ')} →{' '}
+                              {entry.newStatus.replace('_', ' ')}
+                            </span>
+                          </div>
 
-                        <p className="text-sm text-gray-700">
-                          {flag.description}
-                        </p>
-                      </div>
-                    ))}
+                          {entry.reason && (
+                            <p className="text-sm text-gray-700">
+                              {entry.reason}
+                            </p>
+                          )}
+                        </div>
+                      ))
+                    )}
                   </div>
                 </div>
               </div>
 
               {/* Review Actions */}
-              {selectedContent.status === 'pending' && (
+              {ACTIVE_STATUSES.includes(selectedCase.status) && (
                 <div className="mt-6 pt-6 border-t">
-                  <h4 className="font-medium mb-3">Moderation Action</h4>
+                  <h4 className="font-medium mb-3">
+                    {selectedCase.status === 'appealed'
+                      ? 'Appeal Decision'
+                      : 'Moderation Action'}
+                  </h4>
 
                   <div className="space-y-4">
                     <div className="flex space-x-3">
@@ -777,7 +978,7 @@ export default function ContentModerationClient() {
                         onClick={() => {
                           if (reviewAction) {
                             handleReview(
-                              selectedContent._id,
+                              [selectedCase._id],
                               reviewAction,
                               moderationNotes || undefined
                             );
@@ -790,12 +991,7 @@ export default function ContentModerationClient() {
                       </button>
 
                       <button
-                        onClick={() => {
-                          setShowDetailModal(false);
-                          setSelectedContent(null);
-                          setModerationNotes('');
-                          setReviewAction(null);
-                        }}
+                        onClick={closeDetailModal}
                         className="px-6 py-2 border rounded-lg hover:bg-gray-50"
                       >
                         Cancel
@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Mail, RefreshCw, RotateCcw, Server } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { showToast } from '@/app/components/ui/toast';
+
+type OutboxStatus = 'pending' | 'sending' | 'sent' | 'dead';
+
+interface OutboxEntry {
+  _id: string;
+  to: string[];
+  type: string;
+  status: OutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  sentAt?: string;
+  deadAt?: string;
+  createdAt: string;
+}
+
+interface QueueStatus {
+  queueLength: number;
+  isProcessing: boolean;
+  oldestItem?: string;
+  counts: Record<OutboxStatus, number>;
+  worker?: {
+    instanceId: string;
+    isThisInstance: boolean;
+    leaseExpiresAt: string;
+  };
+}
+
+const TABS: Array<{ status: OutboxStatus; label: string; color: string }> = [
+  { status: 'dead', label: 'Dead-lettered', color: 'text-red-600' },
+  { status: 'pending', label: 'Pending', color: 'text-yellow-600' },
+  { status: 'sending', label: 'Sending', color: 'text-blue-600' },
+  { status: 'sent', label: 'Sent', color: 'text-green-600' },
+];
+
+export default function EmailOutboxClient() {
+  const [status, setStatus] = useState<OutboxStatus>('dead');
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [queue, setQueue] = useState<QueueStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchOutbox();
+  }, [status]);
+
+  const fetchOutbox = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/email-outbox?status=${status}&limit=50`);
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(data.data.entries);
+        setQueue(data.data.queue);
+      }
+    } catch (error) {
+      console.error('Error fetching email outbox:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRetry = async (ids?: string[]) => {
+    setRetrying(ids ? ids[0] : 'all');
+    try {
+      const response = await fetch('/api/admin/email-outbox', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : { all: true }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast.success('Emails requeued', data.message);
+        fetchOutbox();
+      } else {
+        showToast.error('Could not requeue emails', data.message);
+      }
+    } catch (error) {
+      console.error('Error retrying emails:', error);
+      showToast.error('Could not requeue emails', 'Please try again');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Email Outbox</h1>
+          <p className="text-gray-600 mt-1">Queued platform email and mail that could not be delivered</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchOutbox} className="mt-4 md:mt-0">
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {queue && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {TABS.map(tab => (
+              <div key={tab.status} className="bg-white p-4 rounded-lg border text-center">
+                <div className={`text-2xl font-bold ${tab.color}`}>{queue.counts[tab.status]}</div>
+                <div className="text-sm text-gray-600">{tab.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg border p-4 flex items-center text-sm text-gray-600">
+            <Server className="w-4 h-4 mr-2 text-gray-400" />
+            {queue.worker
+              ? <>Sending from instance <code className="mx-1">{queue.worker.instanceId}</code>
+                  {queue.worker.isThisInstance && '(this instance)'}</>
+              : 'No instance holds the outbox lease; sending resumes at the next poll'}
+            {queue.oldestItem && (
+              <span className="ml-auto">Oldest queued: {new Date(queue.oldestItem).toLocaleString()}</span>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center justify-between border-b">
+        <div className="flex space-x-4">
+          {TABS.map(tab => (
+            <button
+              key={tab.status}
+              onClick={() => setStatus(tab.status)}
+              className={`pb-2 text-sm font-medium border-b-2 ${
+                status === tab.status
+                  ? 'border-purple-600 text-purple-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        {status === 'dead' && entries.length > 0 && (
+          <Button size="sm" onClick={() => handleRetry()} loading={retrying === 'all'}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Retry all
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : entries.length === 0 ? (
+        <div className="bg-white rounded-lg border p-6 text-center text-gray-500">
+          <Mail className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+          No emails here
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border divide-y">
+          {entries.map(entry => (
+            <div key={entry._id} className="p-4 flex items-start justify-between">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{entry.to.join(', ')}</p>
+                <p className="text-sm text-gray-600">
+                  {entry.type} · attempt {entry.attempts} of {entry.maxAttempts} · queued {new Date(entry.createdAt).toLocaleString()}
+                </p>
+                {entry.status === 'pending' && entry.attempts > 0 && (
+                  <p className="text-sm text-gray-500">Next try {new Date(entry.nextAttemptAt).toLocaleString()}</p>
+                )}
+                {entry.sentAt && (
+                  <p className="text-sm text-gray-500">Sent {new Date(entry.sentAt).toLocaleString()}</p>
+                )}
+                {entry.lastError && entry.status !== 'sent' && (
+                  <p className="text-sm text-red-600 mt-1 break-words">{entry.lastError}</p>
+                )}
+              </div>
+              {entry.status === 'dead' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRetry([entry._id])}
+                  loading={retrying === entry._id}
+                >
+                  Retry
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
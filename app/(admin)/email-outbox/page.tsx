@@ -0,0 +1,11 @@
+import { Metadata } from 'next';
+import EmailOutboxClient from './EmailOutboxClient';
+
+export const metadata: Metadata = {
+  title: 'Email Outbox | Mintoons Admin',
+  description: 'Monitor queued, failed and dead-lettered platform email.',
+};
+
+export default function EmailOutboxPage() {
+  return <EmailOutboxClient />;
+}
@@ -43,6 +43,18 @@ export default async function AdminLayout({
               >
                 🛡️ Content Moderation
               </a>
+              <a
+                href="/admin/email-outbox"
+                className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 rounded-lg hover:bg-gray-100"
+              >
+                ✉️ Email Outbox
+              </a>
+              <a
+                href="/admin/achievements"
+                className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 rounded-lg hover:bg-gray-100"
+              >
+                🏆 Achievements
+              </a>
             </div>
           </nav>
         </div>
@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import {
+  ShieldCheck,
+  ShieldOff,
+  CheckCircle,
+  AlertCircle,
+  ArrowRight,
+} from 'lucide-react';
+import { toast } from 'react-hot-toast';
+
+interface ParentalConsentClientProps {
+  token: string;
+}
+
+interface ConsentRequest {
+  childName: string;
+  childAge: number;
+  action: 'approve' | 'deny';
+  expiresAt: string;
+}
+
+export default function ParentalConsentClient({ token }: ParentalConsentClientProps) {
+  const [request, setRequest] = useState<ConsentRequest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!token) {
+      setErrorMessage('This consent link is missing its code. Please use the link from your email.');
+      setIsLoading(false);
+      return;
+    }
+
+    const loadRequest = async () => {
+      try {
+        const response = await fetch(`/api/user/parental-consent?token=${encodeURIComponent(token)}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setRequest(data.data);
+        } else {
+          setErrorMessage(data.message || 'This consent link is no longer valid');
+        }
+      } catch (error) {
+        console.error('Consent request error:', error);
+        setErrorMessage('Something went wrong. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRequest();
+  }, [token]);
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/user/parental-consent', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setResultMessage(data.message);
+        toast.success('Your decision has been recorded');
+      } else {
+        setErrorMessage(data.message || 'We could not record your decision');
+      }
+    } catch (error) {
+      console.error('Consent decision error:', error);
+      toast.error('Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  if (errorMessage || !request) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-2xl shadow-xl p-8 text-center"
+          >
+            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <AlertCircle className="w-8 h-8 text-red-600" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              Link Not Valid
+            </h1>
+            <p className="text-gray-600 mb-6">
+              {errorMessage}
+              {' '}Your child can send a new email from their account.
+            </p>
+            <button
+              onClick={() => router.push('/')}
+              className="w-full bg-purple-600 hover:bg-purple-700 text-white font-semibold py-3 px-4 rounded-xl transition-colors"
+            >
+              Go to Mintoons
+            </button>
+          </motion.div>
+        </div>
+      </div>
+    );
+  }
+
+  if (resultMessage) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-2xl shadow-xl p-8 text-center"
+          >
+            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              Thank You
+            </h1>
+            <p className="text-gray-600">{resultMessage}</p>
+          </motion.div>
+        </div>
+      </div>
+    );
+  }
+
+  const approving = request.action === 'approve';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-2xl shadow-xl p-8"
+        >
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className={`w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4 ${
+              approving ? 'bg-purple-100' : 'bg-red-100'
+            }`}>
+              {approving ? (
+                <ShieldCheck className="w-8 h-8 text-purple-600" />
+              ) : (
+                <ShieldOff className="w-8 h-8 text-red-600" />
+              )}
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              {approving ? 'Approve Account' : 'Decline Account'}
+            </h1>
+            <p className="text-gray-600">
+              {approving
+                ? `Allow ${request.childName} (age ${request.childAge}) to write stories on Mintoons with AI help and mentor feedback.`
+                : `Decline ${request.childName}'s account. It will be deactivated and they will not be able to use Mintoons.`}
+            </p>
+          </div>
+
+          <button
+            onClick={handleConfirm}
+            disabled={isSubmitting}
+            className={`w-full disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-xl transition-colors flex items-center justify-center ${
+              approving ? 'bg-purple-600 hover:bg-purple-700' : 'bg-red-600 hover:bg-red-700'
+            }`}
+          >
+            {isSubmitting ? (
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+            ) : (
+              <>
+                {approving ? 'Yes, I give consent' : 'Decline and deactivate'}
+                <ArrowRight className="w-5 h-5 ml-2" />
+              </>
+            )}
+          </button>
+
+          <p className="mt-6 text-xs text-gray-500 text-center">
+            We record the time and IP address of your decision to meet children&apos;s privacy law (COPPA).
+            This link expires on {new Date(request.expiresAt).toLocaleDateString()}.
+          </p>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Metadata } from 'next';
+import ParentalConsentClient from './ParentalConsentClient';
+
+export const metadata: Metadata = {
+  title: 'Parental Consent | Mintoons',
+  description: 'Confirm whether your child may use Mintoons.',
+  robots: 'noindex, nofollow',
+};
+
+interface ParentalConsentPageProps {
+  searchParams: { token?: string };
+}
+
+// Parents arrive from an email link and usually have no session of their own,
+// so this page never redirects based on who is signed in
+export default function ParentalConsentPage({ searchParams }: ParentalConsentPageProps) {
+  return <ParentalConsentClient token={searchParams.token || ''} />;
+}
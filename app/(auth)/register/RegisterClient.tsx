@@ -4,7 +4,7 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
-import { User, Mail, Lock, Calendar, AlertCircle, CheckCircle, ArrowRight } from 'lucide-react';
+import { User, Users, Mail, Lock, Calendar, AlertCircle, CheckCircle, ArrowRight, PenTool } from 'lucide-react';
 import { Button } from '@/app/components/ui/button';
 import { Input } from '@/app/components/ui/input';
 import { showToast } from '@/app/components/ui/toast';
@@ -20,6 +20,7 @@ export default function RegisterClient() {
     confirmPassword: '',
     age: '',
     parentEmail: '',
+    accountType: 'child' as 'child' | 'parent',
     agreedToTerms: false,
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -28,7 +29,8 @@ export default function RegisterClient() {
   const [step, setStep] = useState(1);
   const totalSteps = 3;
 
-  const needsParentalConsent = parseInt(formData.age) < 13;
+  const isParentAccount = formData.accountType === 'parent';
+  const needsParentalConsent = !isParentAccount && parseInt(formData.age) < 13;
 
   const handleInputChange = (field: string, value: string | boolean) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -89,10 +91,13 @@ export default function RegisterClient() {
     }
 
     if (stepNumber === 3) {
-      if (!formData.age) newErrors.age = 'Age is required';
-      else {
-        const age = parseInt(formData.age);
-        if (age < 2 || age > 18) newErrors.age = 'Age must be between 2 and 18';
+      // Parents and guardians don't give an age
+      if (!isParentAccount) {
+        if (!formData.age) newErrors.age = 'Age is required';
+        else {
+          const age = parseInt(formData.age);
+          if (age < 2 || age > 18) newErrors.age = 'Age must be between 2 and 18';
+        }
       }
       if (needsParentalConsent && !formData.parentEmail.trim()) {
         newErrors.parentEmail = 'Parent email is required for users under 13';
@@ -128,7 +133,8 @@ export default function RegisterClient() {
       // Validate with Zod schema
       const validation = registerSchema.safeParse({
         ...formData,
-        age: parseInt(formData.age),
+        age: isParentAccount ? undefined : parseInt(formData.age),
+        parentEmail: isParentAccount ? undefined : formData.parentEmail || undefined,
       });
 
       if (!validation.success) {
@@ -164,7 +170,9 @@ export default function RegisterClient() {
           'Account Created! 🎉',
           needsParentalConsent 
             ? 'Please check your parent\'s email for verification'
-            : 'Welcome to Mintoons! You can now sign in.'
+            : isParentAccount
+              ? 'Sign in to link your child\'s account.'
+              : 'Welcome to Mintoons! You can now sign in.'
         );
         router.push('/login?message=registered');
       }
@@ -275,6 +283,28 @@ export default function RegisterClient() {
                   </p>
                 </div>
 
+                <div className="grid grid-cols-2 gap-3">
+                  {([
+                    { value: 'child', label: 'I\'m a young writer', icon: PenTool },
+                    { value: 'parent', label: 'I\'m a parent or guardian', icon: Users },
+                  ] as const).map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => handleInputChange('accountType', option.value)}
+                      className={`flex flex-col items-center p-3 rounded-lg border text-sm font-medium transition-colors ${
+                        formData.accountType === option.value
+                          ? 'border-purple-500 bg-purple-50 text-purple-700'
+                          : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                      disabled={isLoading}
+                    >
+                      <option.icon className="h-5 w-5 mb-1" />
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
                 <Input
                   type="text"
                   label="Full Name"
@@ -393,19 +423,21 @@ export default function RegisterClient() {
                   </p>
                 </div>
 
-                <Input
-                  type="number"
-                  label="Age"
-                  placeholder="Enter your age"
-                  value={formData.age}
-                  onChange={(e) => handleInputChange('age', e.target.value)}
-                  error={errors.age}
-                  leftIcon={<Calendar className="h-4 w-4" />}
-                  disabled={isLoading}
-                  min="2"
-                  max="18"
-                  required
-                />
+                {!isParentAccount && (
+                  <Input
+                    type="number"
+                    label="Age"
+                    placeholder="Enter your age"
+                    value={formData.age}
+                    onChange={(e) => handleInputChange('age', e.target.value)}
+                    error={errors.age}
+                    leftIcon={<Calendar className="h-4 w-4" />}
+                    disabled={isLoading}
+                    min="2"
+                    max="18"
+                    required
+                  />
+                )}
 
                 {needsParentalConsent && (
                   <motion.div
@@ -1,8 +1,8 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Book, Wand2, Users, Globe, Lock, ArrowRight, ArrowLeft, Save } from 'lucide-react';
+import { Book, Wand2, Users, Globe, Lock, ArrowRight, ArrowLeft, Save, ClipboardList } from 'lucide-react';
 import StoryEditor from '../../components/stories/StoryEditor';
 import AICollaborationPanel from '../../components/stories/AICollaborationPanel';
 
@@ -16,10 +16,22 @@ interface StorySettings {
   tags: string[];
 }
 
-export default function CreateStoriesClient() {
+interface AssignmentBrief {
+  id: string;
+  title: string;
+  instructions: string;
+  elementConstraints?: Record<string, string[]>;
+  targetWordCount?: number;
+  rubric: Array<{ name: string; description?: string; weight: number }>;
+  dueDate?: string;
+  storyId?: string;
+}
+
+export default function CreateStoriesClient({ assignmentId }: { assignmentId?: string }) {
   const router = useRouter();
   const [step, setStep] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
+  const [assignment, setAssignment] = useState<AssignmentBrief | null>(null);
   
   const [settings, setSettings] = useState<StorySettings>({
     title: '',
@@ -71,6 +83,34 @@ export default function CreateStoriesClient() {
     ]
   };
 
+  useEffect(() => {
+    if (assignmentId) {
+      fetchAssignment(assignmentId);
+    }
+  }, [assignmentId]);
+
+  const fetchAssignment = async (id: string) => {
+    try {
+      const response = await fetch('/api/user/classes');
+      if (!response.ok) return;
+
+      const data = await response.json();
+      const found = data.data.classrooms
+        .flatMap((classroom: { assignments: AssignmentBrief[] }) => classroom.assignments)
+        .find((entry: AssignmentBrief) => entry.id === id);
+
+      // One story per assignment: pick up where the student left off
+      if (found?.storyId) {
+        router.replace(`/story/${found.storyId}`);
+        return;
+      }
+
+      setAssignment(found || null);
+    } catch (error) {
+      console.error('Error fetching assignment:', error);
+    }
+  };
+
   const generateAIStarter = async () => {
     setIsLoading(true);
     try {
@@ -117,11 +157,15 @@ export default function CreateStoriesClient() {
           allowComments: settings.allowComments,
           allowAIAssistance: settings.allowAIAssistance,
           tags: settings.tags,
-          status: 'draft'
+          status: 'draft',
+          ...(assignment ? { assignmentId: assignment.id } : {})
         })
       });
       
-      if (response.ok) {
+      if (response.status === 409) {
+        const data = await response.json();
+        router.push(`/story/${data.data.storyId}`);
+      } else if (response.ok) {
         const data = await response.json();
         router.push(`/dashboard/story/${data.story._id}`);
       } else {
@@ -167,6 +211,41 @@ export default function CreateStoriesClient() {
               <p className="text-gray-600">Let's start with some basic details about your story.</p>
             </div>
 
+            {assignment && (
+              <div className="bg-purple-50 border border-purple-200 rounded-lg p-6 mb-6">
+                <h2 className="font-semibold text-lg flex items-center mb-2">
+                  <ClipboardList className="w-5 h-5 mr-2 text-purple-600" />
+                  {assignment.title}
+                </h2>
+                <p className="text-gray-700 whitespace-pre-line">{assignment.instructions}</p>
+                <ul className="text-sm text-gray-600 mt-3 space-y-1">
+                  {assignment.dueDate && (
+                    <li>Due {new Date(assignment.dueDate).toLocaleDateString()}</li>
+                  )}
+                  {assignment.targetWordCount && (
+                    <li>Aim for about {assignment.targetWordCount} words</li>
+                  )}
+                  {Object.entries(assignment.elementConstraints || {})
+                    .filter(([, options]) => options.length > 0)
+                    .map(([element, options]) => (
+                      <li key={element}>
+                        <span className="capitalize">{element}</span>: {options.join(' or ')}
+                      </li>
+                    ))}
+                </ul>
+                {assignment.rubric.length > 0 && (
+                  <div className="mt-3">
+                    <p className="text-sm font-medium">Your teacher will look for:</p>
+                    <ul className="list-disc list-inside text-sm text-gray-600">
+                      {assignment.rubric.map(criterion => (
+                        <li key={criterion.name}>{criterion.name}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="bg-white rounded-lg p-6 shadow-sm border space-y-6">
               <div>
                 <label className="block text-sm font-medium mb-2">Story Title</label>
@@ -50,12 +50,19 @@ export async function generateMetadata(): Promise<Metadata> {
   };
 }
 
-export default async function CreateStoriesPage() {
+export default async function CreateStoriesPage({
+  searchParams,
+}: {
+  searchParams: { assignment?: string };
+}) {
   const session = await getServerSession(authOptions);
   
   if (!session) {
-    redirect('/login?callbackUrl=/create-stories');
+    const callbackUrl = searchParams.assignment
+      ? `/create-stories?assignment=${searchParams.assignment}`
+      : '/create-stories';
+    redirect(`/login?callbackUrl=${encodeURIComponent(callbackUrl)}`);
   }
 
-  return <CreateStoriesClient />;
+  return <CreateStoriesClient assignmentId={searchParams.assignment} />;
 }
\ No newline at end of file
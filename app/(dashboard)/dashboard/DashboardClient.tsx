@@ -21,6 +21,7 @@ import {
 import { Button } from '@/app/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, StoryCard, MetricCard } from '@/app/components/ui/card';
 import { showToast } from '@/app/components/ui/toast';
+import JoinClassCard from '@/app/components/classroom/JoinClassCard';
 
 interface DashboardStats {
   totalStories: number;
@@ -244,6 +245,8 @@ export default function DashboardClient() {
 
             {/* Right Sidebar */}
             <motion.div variants={itemVariants} className="space-y-6">
+              {session?.user?.role === 'child' && <JoinClassCard />}
+
               {/* Quick Actions */}
               <Card>
                 <CardHeader>
@@ -56,5 +56,9 @@ export default async function DashboardPage() {
     redirect('/login');
   }
 
+  if (session.user.role === 'parent') {
+    redirect('/parent-dashboard');
+  }
+
   return <DashboardClient />;
 }
\ No newline at end of file
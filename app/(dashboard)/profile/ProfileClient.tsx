@@ -3,6 +3,8 @@
 import React, { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { User, Mail, Calendar, Award, BookOpen, MessageCircle, Heart, Edit3, Save, X, Camera, Shield } from 'lucide-react';
+import DataRightsPanel from '@/app/components/account/DataRightsPanel';
+import NotificationSettingsPanel from '@/app/components/account/NotificationSettingsPanel';
 
 interface UserProfile {
   _id: string;
@@ -454,6 +456,10 @@ export default function ProfileClient() {
                   {isSaving ? 'Saving...' : 'Save Settings'}
                 </button>
               </div>
+
+              <NotificationSettingsPanel />
+
+              <DataRightsPanel />
             </div>
           )}
         </div>
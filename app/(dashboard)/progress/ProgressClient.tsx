@@ -30,6 +30,7 @@ import { Button } from '@/app/components/ui/button';
 import { Badge } from '@/app/components/ui/badge';
 import { ProgressBar } from '@/app/components/ui/progress-bar';
 import { useToast } from '@/app/components/ui/toast';
+import StageCard from '@/app/components/gamification/StageCard';
 
 interface ProgressData {
   overallStats: {
@@ -73,7 +74,14 @@ interface ProgressData {
   };
 }
 
-export default function ProgressClient() {
+interface ProgressClientProps {
+  // Set when a parent views a linked child's progress; hides every action
+  childId?: string;
+  childName?: string;
+}
+
+export default function ProgressClient({ childId, childName }: ProgressClientProps = {}) {
+  const isReadOnly = !!childId;
   const [progressData, setProgressData] = useState<ProgressData | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedView, setSelectedView] = useState<'overview' | 'achievements' | 'goals' | 'analytics'>('overview');
@@ -86,7 +94,9 @@ export default function ProgressClient() {
   const fetchProgressData = async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/user/progress');
+      const response = await fetch(
+        childId ? `/api/user/progress?childId=${encodeURIComponent(childId)}` : '/api/user/progress'
+      );
       
       if (!response.ok) {
         throw new Error('Failed to fetch progress data');
@@ -157,14 +167,18 @@ export default function ProgressClient() {
             <BookOpen className="w-16 h-16 mx-auto text-purple-500 mb-4" />
             <h2 className="text-2xl font-bold text-gray-900 mb-2">No Progress Yet</h2>
             <p className="text-gray-600 mb-6">
-              Start writing your first story to see your progress!
+              {isReadOnly
+                ? `${childName || 'Your child'} hasn't finished a story yet.`
+                : 'Start writing your first story to see your progress!'}
             </p>
-            <Button asChild>
-              <a href="/create-stories">
-                <PlusCircle className="w-4 h-4 mr-2" />
-                Create First Story
-              </a>
-            </Button>
+            {!isReadOnly && (
+              <Button asChild>
+                <a href="/create-stories">
+                  <PlusCircle className="w-4 h-4 mr-2" />
+                  Create First Story
+                </a>
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -202,8 +216,14 @@ export default function ProgressClient() {
         >
           <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
             <div>
-              <h1 className="text-4xl font-bold text-gray-900 mb-2">Your Progress</h1>
-              <p className="text-gray-600">Track your writing journey and celebrate achievements!</p>
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">
+                {isReadOnly ? `${childName || 'Your Child'}'s Progress` : 'Your Progress'}
+              </h1>
+              <p className="text-gray-600">
+                {isReadOnly
+                  ? 'See how their writing is growing and what they have achieved.'
+                  : 'Track your writing journey and celebrate achievements!'}
+              </p>
             </div>
             
             {/* Level Badge */}
@@ -262,6 +282,11 @@ export default function ProgressClient() {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.6 }}
           >
+            {/* Writing Stage */}
+            <div className="mb-8">
+              <StageCard childId={childId} />
+            </div>
+
             {/* Stats Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
               <StatCard
@@ -296,15 +321,17 @@ export default function ProgressClient() {
                 changeType="positive"
                 description="Current streak"
                 action={
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={resetStreak}
-                    className="text-orange-600 hover:text-orange-700"
-                  >
-                    <RotateCcw className="w-3 h-3 mr-1" />
-                    Reset
-                  </Button>
+                  isReadOnly ? undefined : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={resetStreak}
+                      className="text-orange-600 hover:text-orange-700"
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Reset
+                    </Button>
+                  )
                 }
               />
             </div>
@@ -6,9 +6,12 @@ import { useSession } from 'next-auth/react';
 import { 
   Heart, MessageCircle, Share2, BookmarkPlus, Edit, Trash2, 
   Download, Eye, Clock, User, Calendar, Tag, Globe, Lock, 
-  Users, Play, Pause, Volume2, VolumeX 
+  Users, Play, Pause, Volume2, VolumeX, History, PenLine, Send 
 } from 'lucide-react';
 import CommentSystem from '../../../components/stories/CommentSystem';
+import AnchoredStoryText, { SelectedQuote, StoryHighlight } from '../../../components/stories/AnchoredStoryText';
+import RevisionTimeline from '../../../components/stories/RevisionTimeline';
+import RubricScorer from '../../../components/stories/RubricScorer';
 
 interface Story {
   _id: string;
@@ -35,12 +38,20 @@ interface Story {
   wordCount: number;
   allowComments: boolean;
   coverImage?: string;
+  assignmentId?: string;
+  submittedAt?: string;
 }
 
 interface StoryViewClientProps {
   storyId: string;
 }
 
+interface InlineComment {
+  _id: string;
+  textPosition?: { start: number; end: number };
+  anchorStatus?: 'anchored' | 'orphaned';
+}
+
 export default function StoryViewClient({ storyId }: StoryViewClientProps) {
   const router = useRouter();
   const { data: session } = useSession();
@@ -49,11 +60,15 @@ export default function StoryViewClient({ storyId }: StoryViewClientProps) {
   const [isLiked, setIsLiked] = useState(false);
   const [likesCount, setLikesCount] = useState(0);
   const [showComments, setShowComments] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [isReading, setIsReading] = useState(false);
   const [readingProgress, setReadingProgress] = useState(0);
   const [fontSize, setFontSize] = useState(16);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [speechSynthesis, setSpeechSynthesis] = useState<SpeechSynthesis | null>(null);
+  const [inlineComments, setInlineComments] = useState<InlineComment[]>([]);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [quote, setQuote] = useState<SelectedQuote | null>(null);
 
   useEffect(() => {
     fetchStory();
@@ -166,6 +181,27 @@ export default function StoryViewClient({ storyId }: StoryViewClientProps) {
     }
   };
 
+  const handleSubmitAssignment = async () => {
+    if (!confirm('Hand in this story? You won\'t be able to hand it in again.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/stories/${storyId}/submit`, { method: 'POST' });
+      const data = await response.json();
+
+      if (response.ok) {
+        setStory(current => current ? { ...current, submittedAt: data.data.story.submittedAt } : current);
+        alert(data.message);
+      } else {
+        alert(data.message || 'Failed to hand in story. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error submitting story:', error);
+      alert('Failed to hand in story. Please try again.');
+    }
+  };
+
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this story? This action cannot be undone.')) {
       return;
@@ -225,6 +261,21 @@ export default function StoryViewClient({ storyId }: StoryViewClientProps) {
 
   const isAuthor = session?.user?.id === story?.author._id;
   const canEdit = isAuthor || session?.user?.role === 'admin';
+  const canViewHistory = canEdit || session?.user?.role === 'mentor';
+  const canCoWrite = canViewHistory && story?.status !== 'published';
+  const canAssess = !isAuthor && ['mentor', 'admin'].includes(session?.user?.role || '');
+
+  // Comments come newest first; listed oldest first, the newest wins where
+  // highlights overlap. Orphaned comments have nothing to highlight.
+  const highlights: StoryHighlight[] = inlineComments
+    .filter(comment => comment.textPosition && comment.anchorStatus !== 'orphaned')
+    .map(comment => ({ id: comment._id, start: comment.textPosition!.start, end: comment.textPosition!.end }))
+    .reverse();
+
+  const openComment = (commentId: string) => {
+    setActiveCommentId(commentId);
+    document.getElementById(`comment-${commentId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
 
   if (isLoading) {
     return (
@@ -339,6 +390,33 @@ export default function StoryViewClient({ storyId }: StoryViewClientProps) {
 
           {/* Action Buttons */}
           <div className="flex items-center space-x-2">
+            {canCoWrite && (
+              <button
+                onClick={() => router.push(`/story/${storyId}/write`)}
+                className="flex items-center space-x-1 px-3 py-2 border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50"
+              >
+                <PenLine className="w-4 h-4" />
+                <span>Write together</span>
+              </button>
+            )}
+
+            {isAuthor && story.assignmentId && (
+              story.submittedAt ? (
+                <span className="flex items-center space-x-1 px-3 py-2 text-green-700 bg-green-50 rounded-lg">
+                  <Send className="w-4 h-4" />
+                  <span>Handed in {new Date(story.submittedAt).toLocaleDateString()}</span>
+                </span>
+              ) : (
+                <button
+                  onClick={handleSubmitAssignment}
+                  className="flex items-center space-x-1 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                >
+                  <Send className="w-4 h-4" />
+                  <span>Hand in</span>
+                </button>
+              )
+            )}
+
             {canEdit && (
               <>
                 <button
@@ -408,6 +486,20 @@ export default function StoryViewClient({ storyId }: StoryViewClientProps) {
               <BookmarkPlus className="w-4 h-4" />
               <span>Save</span>
             </button>
+
+            {canViewHistory && (
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${
+                  showHistory
+                    ? 'bg-blue-100 text-blue-600'
+                    : 'border border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                <History className="w-4 h-4" />
+                <span>History</span>
+              </button>
+            )}
           </div>
 
           {/* Reading Controls */}
@@ -462,11 +554,13 @@ export default function StoryViewClient({ storyId }: StoryViewClientProps) {
             fontFamily: 'Georgia, serif'
           }}
         >
-          {story.content.split('\n\n').map((paragraph, index) => (
-            <p key={index} className="mb-6 text-gray-700">
-              {paragraph}
-            </p>
-          ))}
+          <AnchoredStoryText
+            content={story.content}
+            highlights={highlights}
+            activeId={activeCommentId}
+            onHighlightClick={openComment}
+            onQuoteSelected={canAssess && story.allowComments ? setQuote : undefined}
+          />
         </div>
 
         {/* Story Footer */}
@@ -480,6 +574,24 @@ export default function StoryViewClient({ storyId }: StoryViewClientProps) {
         </div>
       </div>
 
+      {/* Revision History */}
+      {canViewHistory && showHistory && (
+        <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
+          <RevisionTimeline
+            storyId={storyId}
+            canRestore={canEdit}
+            onRestored={fetchStory}
+          />
+        </div>
+      )}
+
+      {/* Rubric Assessment */}
+      {story.status === 'published' && (isAuthor || canAssess) && (
+        <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
+          <RubricScorer storyId={storyId} canAssess={canAssess} />
+        </div>
+      )}
+
       {/* Comments Section */}
       {story.allowComments && (
         <div className="bg-white rounded-lg shadow-sm border">
@@ -489,6 +601,10 @@ export default function StoryViewClient({ storyId }: StoryViewClientProps) {
               isAuthor={isAuthor}
               allowComments={story.allowComments}
               mentorMode={session?.user?.role === 'mentor'}
+              activeCommentId={activeCommentId}
+              quote={quote}
+              onClearQuote={() => setQuote(null)}
+              onCommentsChange={setInlineComments}
             />
           </div>
         </div>
@@ -0,0 +1,26 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import CoWritingEditor from '@/app/components/stories/CoWritingEditor';
+
+interface WriteTogetherPageProps {
+  params: {
+    id: string;
+  };
+}
+
+export const metadata: Metadata = {
+  title: 'Write Together | Mintoons',
+  description: 'Write a story together with your classmates in real time.',
+};
+
+export default function WriteTogetherPage({ params }: WriteTogetherPageProps) {
+  if (!params.id || params.id.length < 3) {
+    notFound();
+  }
+
+  return (
+    <div className="h-[calc(100vh-4rem)]">
+      <CoWritingEditor storyId={params.id} />
+    </div>
+  );
+}
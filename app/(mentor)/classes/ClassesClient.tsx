@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { School, Plus, Users, ClipboardList, Archive } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { showToast } from '@/app/components/ui/toast';
+
+interface ClassSummary {
+  id: string;
+  name: string;
+  description?: string;
+  gradeLevel?: string;
+  joinCode: string;
+  joinCodeEnabled: boolean;
+  studentCount: number;
+  maxStudents: number;
+  activeAssignments: number;
+  isArchived: boolean;
+  createdAt: string;
+}
+
+export default function ClassesClient() {
+  const [classes, setClasses] = useState<ClassSummary[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [gradeLevel, setGradeLevel] = useState('');
+  const [description, setDescription] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    fetchClasses();
+  }, [showArchived]);
+
+  const fetchClasses = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/mentor/classes?archived=${showArchived}`);
+      if (response.ok) {
+        const data = await response.json();
+        setClasses(data.data.classrooms);
+      }
+    } catch (error) {
+      console.error('Error fetching classes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/mentor/classes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          ...(gradeLevel.trim() ? { gradeLevel: gradeLevel.trim() } : {}),
+          ...(description.trim() ? { description: description.trim() } : {}),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast.success('Class created', `Share the code ${data.data.classroom.joinCode} with your students`);
+        setName('');
+        setGradeLevel('');
+        setDescription('');
+        setShowCreate(false);
+        setShowArchived(false);
+        setClasses(current => [data.data.classroom, ...current]);
+      } else {
+        showToast.error('Could not create class', data.message);
+      }
+    } catch (error) {
+      console.error('Error creating class:', error);
+      showToast.error('Could not create class', 'Please try again');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="flex items-center text-2xl font-bold text-gray-900">
+            <School className="w-6 h-6 mr-2" />
+            My Classes
+          </h1>
+          <p className="text-gray-600 mt-1">Group your students, share a join code and set class assignments.</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowArchived(!showArchived)}
+          >
+            <Archive className="w-4 h-4 mr-1" />
+            {showArchived ? 'Active classes' : 'Archived'}
+          </Button>
+          <Button size="sm" onClick={() => setShowCreate(!showCreate)}>
+            <Plus className="w-4 h-4 mr-1" />
+            New class
+          </Button>
+        </div>
+      </div>
+
+      {showCreate && (
+        <form onSubmit={handleCreate} className="bg-white rounded-lg border p-6 space-y-4">
+          <Input
+            label="Class name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Year 4 Story Club"
+            maxLength={80}
+            required
+          />
+          <Input
+            label="Grade or year (optional)"
+            value={gradeLevel}
+            onChange={(e) => setGradeLevel(e.target.value)}
+            maxLength={40}
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              maxLength={500}
+              className="w-full border border-gray-300 rounded-md p-2 text-sm"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowCreate(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" loading={isCreating}>
+              Create class
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading classes...</p>
+      ) : classes.length === 0 ? (
+        <div className="bg-white rounded-lg border p-10 text-center text-gray-500">
+          {showArchived ? 'No archived classes.' : 'No classes yet. Create one to get a join code for your students.'}
+        </div>
+      ) : (
+        <ul className="grid gap-4 sm:grid-cols-2">
+          {classes.map(classroom => (
+            <li key={classroom.id}>
+              <Link
+                href={`/classes/${classroom.id}`}
+                className="block bg-white rounded-lg border p-5 hover:shadow-md transition-shadow"
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{classroom.name}</h2>
+                    {classroom.gradeLevel && (
+                      <p className="text-sm text-gray-500">{classroom.gradeLevel}</p>
+                    )}
+                  </div>
+                  {classroom.joinCodeEnabled && !classroom.isArchived && (
+                    <span className="font-mono text-sm bg-purple-50 text-purple-700 px-2 py-1 rounded">
+                      {classroom.joinCode}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-4 mt-4 text-sm text-gray-600">
+                  <span className="flex items-center">
+                    <Users className="w-4 h-4 mr-1" />
+                    {classroom.studentCount}/{classroom.maxStudents} students
+                  </span>
+                  <span className="flex items-center">
+                    <ClipboardList className="w-4 h-4 mr-1" />
+                    {classroom.activeAssignments} open assignment{classroom.activeAssignments === 1 ? '' : 's'}
+                  </span>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
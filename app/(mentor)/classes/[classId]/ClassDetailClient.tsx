@@ -0,0 +1,950 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  ArrowLeft, Users, ClipboardList, BookOpen, RefreshCw, Upload,
+  UserPlus, X, Flame, Archive, Trash2, Plus, TrendingUp
+} from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { showToast } from '@/app/components/ui/toast';
+import { storyElementsSchema } from '@/lib/validations';
+
+interface ClassInfo {
+  id: string;
+  name: string;
+  description?: string;
+  gradeLevel?: string;
+  joinCode: string;
+  joinCodeEnabled: boolean;
+  maxStudents: number;
+  isArchived: boolean;
+}
+
+interface RosterStudent {
+  id: string;
+  name: string;
+  email?: string;
+  enrolledAt: string;
+  method: 'join_code' | 'bulk' | 'csv';
+  lastActiveAt?: string;
+  progress: {
+    storiesWritten: number;
+    storiesCompleted: number;
+    storiesPublished: number;
+    lastWrittenAt: string | null;
+    totalWordCount: number;
+    currentWritingStreak: number;
+    currentLevel: number;
+  };
+}
+
+type ElementKey = keyof typeof storyElementsSchema.shape;
+type SubmissionStatus = 'submitted' | 'late' | 'missing' | 'in_progress' | 'not_started';
+
+interface ClassAssignment {
+  id: string;
+  title: string;
+  instructions: string;
+  elementConstraints?: Partial<Record<ElementKey, string[]>>;
+  targetWordCount?: number;
+  stage?: number;
+  rubric: Array<{ name: string; description?: string; weight: number }>;
+  rubricId?: string;
+  dueDate?: string;
+  status: 'active' | 'closed';
+  submissions: Record<SubmissionStatus, number>;
+  createdAt: string;
+}
+
+interface AssignmentSubmission {
+  userId: string;
+  name: string;
+  status: SubmissionStatus;
+  storyId?: string;
+  wordCount?: number;
+  submittedAt?: string;
+}
+
+interface ClassStory {
+  id: string;
+  title: string;
+  authorId: string;
+  authorName: string;
+  status: string;
+  wordCount: number;
+  updatedAt: string;
+}
+
+interface EnrollmentSummary {
+  enrolled: Array<{ userId: string; name: string; email: string }>;
+  alreadyEnrolled: string[];
+  notFound: string[];
+  errors?: Array<{ line: number; message: string }>;
+}
+
+interface CriterionTrend {
+  criterion: string;
+  points: Array<{ period: string; averageScore: number; count: number }>;
+}
+
+type Tab = 'roster' | 'assignments' | 'stories' | 'trends';
+
+const ELEMENT_KEYS = Object.keys(storyElementsSchema.shape) as ElementKey[];
+
+const SUBMISSION_LABELS: Record<SubmissionStatus, { label: string; className: string }> = {
+  submitted: { label: 'Handed in', className: 'bg-green-100 text-green-800' },
+  late: { label: 'Late', className: 'bg-yellow-100 text-yellow-800' },
+  missing: { label: 'Missing', className: 'bg-red-100 text-red-800' },
+  in_progress: { label: 'Writing', className: 'bg-blue-100 text-blue-800' },
+  not_started: { label: 'Not started', className: 'bg-gray-100 text-gray-600' },
+};
+
+export default function ClassDetailClient({ classId }: { classId: string }) {
+  const router = useRouter();
+  const [classInfo, setClassInfo] = useState<ClassInfo | null>(null);
+  const [students, setStudents] = useState<RosterStudent[]>([]);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [stories, setStories] = useState<ClassStory[]>([]);
+  const [tab, setTab] = useState<Tab>('roster');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [emailList, setEmailList] = useState('');
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [lastEnrollment, setLastEnrollment] = useState<EnrollmentSummary | null>(null);
+
+  const [assignmentTitle, setAssignmentTitle] = useState('');
+  const [assignmentInstructions, setAssignmentInstructions] = useState('');
+  const [assignmentDue, setAssignmentDue] = useState('');
+  const [assignmentTarget, setAssignmentTarget] = useState('');
+  const [assignmentStage, setAssignmentStage] = useState('');
+  const [constraints, setConstraints] = useState<Partial<Record<ElementKey, string[]>>>({});
+  const [rubric, setRubric] = useState<Array<{ name: string; weight: number }>>([]);
+  const [rubricId, setRubricId] = useState('');
+  const [savedRubrics, setSavedRubrics] = useState<Array<{ id: string; name: string }>>([]);
+  const [isPosting, setIsPosting] = useState(false);
+  const [openAssignment, setOpenAssignment] = useState<string | null>(null);
+  const [submissions, setSubmissions] = useState<AssignmentSubmission[]>([]);
+
+  const [storyStudent, setStoryStudent] = useState('');
+  const [storyStatus, setStoryStatus] = useState('');
+
+  const [trends, setTrends] = useState<CriterionTrend[]>([]);
+  const [trendStudent, setTrendStudent] = useState('');
+  const [trendSource, setTrendSource] = useState('');
+
+  useEffect(() => {
+    fetchClass();
+  }, [classId]);
+
+  useEffect(() => {
+    if (tab === 'stories') {
+      fetchStories();
+    }
+  }, [tab, storyStudent, storyStatus]);
+
+  useEffect(() => {
+    if (tab === 'assignments' && savedRubrics.length === 0) {
+      fetchRubrics();
+    }
+  }, [tab]);
+
+  useEffect(() => {
+    if (tab === 'trends') {
+      fetchTrends();
+    }
+  }, [tab, trendStudent, trendSource]);
+
+  const fetchClass = async () => {
+    try {
+      const response = await fetch(`/api/mentor/classes/${classId}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setClassInfo(data.data.classroom);
+        setStudents(data.data.students);
+        setAssignments(data.data.assignments);
+      } else {
+        showToast.error('Could not load class', data.message);
+      }
+    } catch (error) {
+      console.error('Error fetching class:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchStories = async () => {
+    const params = new URLSearchParams();
+    if (storyStudent) params.set('studentId', storyStudent);
+    if (storyStatus) params.set('status', storyStatus);
+
+    try {
+      const response = await fetch(`/api/mentor/classes/${classId}/stories?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setStories(data.data.stories);
+      }
+    } catch (error) {
+      console.error('Error fetching class stories:', error);
+    }
+  };
+
+  const fetchRubrics = async () => {
+    try {
+      const response = await fetch('/api/mentor/rubrics');
+      if (response.ok) {
+        const data = await response.json();
+        setSavedRubrics(data.data.rubrics);
+      }
+    } catch (error) {
+      console.error('Error fetching rubrics:', error);
+    }
+  };
+
+  const fetchTrends = async () => {
+    const params = new URLSearchParams();
+    if (trendStudent) params.set('studentId', trendStudent);
+    if (trendSource) params.set('source', trendSource);
+
+    try {
+      const response = await fetch(`/api/mentor/classes/${classId}/trends?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setTrends(data.data.trends);
+      }
+    } catch (error) {
+      console.error('Error fetching trends:', error);
+    }
+  };
+
+  const updateClass = async (changes: Record<string, unknown>, successMessage: string) => {
+    try {
+      const response = await fetch(`/api/mentor/classes/${classId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setClassInfo(data.data.classroom);
+        showToast.success('Class updated', successMessage);
+      } else {
+        showToast.error('Could not update class', data.message);
+      }
+    } catch (error) {
+      console.error('Error updating class:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!classInfo || !confirm(`Delete ${classInfo.name}? Students keep their stories.`)) return;
+
+    try {
+      const response = await fetch(`/api/mentor/classes/${classId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast.success('Class deleted', data.message);
+        router.push('/classes');
+      } else {
+        showToast.error('Could not delete class', data.message);
+      }
+    } catch (error) {
+      console.error('Error deleting class:', error);
+    }
+  };
+
+  const reportEnrollment = (data: { message: string; data: EnrollmentSummary }) => {
+    setLastEnrollment(data.data);
+    showToast.success('Roster updated', data.message);
+    fetchClass();
+  };
+
+  const handleEnroll = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const emails = emailList.split(/[\s,;]+/).map(email => email.trim()).filter(Boolean);
+    if (emails.length === 0) return;
+
+    setIsEnrolling(true);
+    try {
+      const response = await fetch(`/api/mentor/classes/${classId}/students`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emails }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEmailList('');
+        reportEnrollment(data);
+      } else {
+        showToast.error('Could not enroll students', data.message);
+      }
+    } catch (error) {
+      console.error('Error enrolling students:', error);
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  const handleRosterFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsEnrolling(true);
+    try {
+      const csv = await file.text();
+      const response = await fetch(`/api/mentor/classes/${classId}/roster`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        reportEnrollment(data);
+      } else {
+        setLastEnrollment(data.data?.errors ? { enrolled: [], alreadyEnrolled: [], notFound: [], errors: data.data.errors } : null);
+        showToast.error('Could not import roster', data.message);
+      }
+    } catch (error) {
+      console.error('Error importing roster:', error);
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  const handleRemoveStudent = async (student: RosterStudent) => {
+    if (!confirm(`Remove ${student.name} from this class?`)) return;
+
+    try {
+      const response = await fetch(`/api/mentor/classes/${classId}/students?userId=${student.id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setStudents(current => current.filter(entry => entry.id !== student.id));
+        showToast.success('Student removed', `${student.name} is no longer in this class`);
+      } else {
+        showToast.error('Could not remove student', data.message);
+      }
+    } catch (error) {
+      console.error('Error removing student:', error);
+    }
+  };
+
+  const handlePostAssignment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assignmentTitle.trim() || !assignmentInstructions.trim()) return;
+
+    setIsPosting(true);
+    try {
+      const response = await fetch(`/api/mentor/classes/${classId}/assignments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: assignmentTitle.trim(),
+          instructions: assignmentInstructions.trim(),
+          elementConstraints: constraints,
+          ...(rubricId ? { rubricId } : { rubric: rubric.filter(criterion => criterion.name.trim()) }),
+          ...(assignmentTarget ? { targetWordCount: parseInt(assignmentTarget) } : {}),
+          ...(assignmentStage ? { stage: parseInt(assignmentStage) } : {}),
+          // Due at the end of the chosen day in the mentor's time zone
+          ...(assignmentDue ? { dueDate: new Date(`${assignmentDue}T23:59:59`).toISOString() } : {}),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setAssignments(current => [data.data.assignment, ...current]);
+        setAssignmentTitle('');
+        setAssignmentInstructions('');
+        setAssignmentDue('');
+        setAssignmentTarget('');
+        setAssignmentStage('');
+        setConstraints({});
+        setRubric([]);
+        setRubricId('');
+        showToast.success('Assignment posted', 'Your students have been notified');
+      } else {
+        showToast.error('Could not post assignment', data.message);
+      }
+    } catch (error) {
+      console.error('Error posting assignment:', error);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const toggleAssignment = async (assignmentId: string) => {
+    if (openAssignment === assignmentId) {
+      setOpenAssignment(null);
+      return;
+    }
+
+    setOpenAssignment(assignmentId);
+    setSubmissions([]);
+    try {
+      const response = await fetch(`/api/mentor/classes/${classId}/assignments/${assignmentId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSubmissions(data.data.students);
+      }
+    } catch (error) {
+      console.error('Error fetching submissions:', error);
+    }
+  };
+
+  const handleCloseAssignment = async (assignment: ClassAssignment) => {
+    const status = assignment.status === 'active' ? 'closed' : 'active';
+
+    try {
+      const response = await fetch(`/api/mentor/classes/${classId}/assignments/${assignment.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setAssignments(current => current.map(entry => entry.id === assignment.id ? data.data.assignment : entry));
+      } else {
+        showToast.error('Could not update assignment', data.message);
+      }
+    } catch (error) {
+      console.error('Error updating assignment:', error);
+    }
+  };
+
+  const toggleConstraint = (key: ElementKey, option: string) => {
+    setConstraints(current => {
+      const selected = current[key] || [];
+      return {
+        ...current,
+        [key]: selected.includes(option) ? selected.filter(value => value !== option) : [...selected, option],
+      };
+    });
+  };
+
+  if (isLoading) {
+    return <div className="max-w-5xl mx-auto px-4 py-8 text-gray-500">Loading class...</div>;
+  }
+
+  if (!classInfo) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <p className="text-gray-600">This class could not be found.</p>
+        <Link href="/classes" className="text-purple-600 hover:underline">Back to classes</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <Link href="/classes" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        All classes
+      </Link>
+
+      <div className="bg-white rounded-lg border p-6 flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{classInfo.name}</h1>
+          {classInfo.gradeLevel && <p className="text-gray-500">{classInfo.gradeLevel}</p>}
+          {classInfo.description && <p className="text-gray-600 mt-2">{classInfo.description}</p>}
+          <div className="flex space-x-2 mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateClass(
+                { isArchived: !classInfo.isArchived },
+                classInfo.isArchived ? 'Class restored' : 'Class archived'
+              )}
+            >
+              <Archive className="w-4 h-4 mr-1" />
+              {classInfo.isArchived ? 'Restore' : 'Archive'}
+            </Button>
+            <Button variant="destructive" size="sm" onClick={handleDelete}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-purple-50 rounded-lg p-4 text-center min-w-[220px]">
+          <p className="text-xs uppercase tracking-wide text-purple-700">Join code</p>
+          <p className={`font-mono text-3xl font-bold tracking-widest ${classInfo.joinCodeEnabled ? 'text-purple-900' : 'text-gray-400 line-through'}`}>
+            {classInfo.joinCode}
+          </p>
+          <div className="flex justify-center space-x-2 mt-3">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateClass(
+                { joinCodeEnabled: !classInfo.joinCodeEnabled },
+                classInfo.joinCodeEnabled ? 'Join code turned off' : 'Join code turned on'
+              )}
+            >
+              {classInfo.joinCodeEnabled ? 'Turn off' : 'Turn on'}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateClass({ regenerateJoinCode: true }, 'The old code no longer works')}
+            >
+              <RefreshCw className="w-4 h-4 mr-1" />
+              New code
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex space-x-2 border-b">
+        {([
+          { id: 'roster', label: `Students (${students.length}/${classInfo.maxStudents})`, icon: Users },
+          { id: 'assignments', label: `Assignments (${assignments.length})`, icon: ClipboardList },
+          { id: 'stories', label: 'Stories', icon: BookOpen },
+          { id: 'trends', label: 'Trends', icon: TrendingUp },
+        ] as const).map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => setTab(entry.id)}
+            className={`flex items-center px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              tab === entry.id ? 'border-purple-600 text-purple-700' : 'border-transparent text-gray-500 hover:text-gray-800'
+            }`}
+          >
+            <entry.icon className="w-4 h-4 mr-2" />
+            {entry.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'roster' && (
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 bg-white rounded-lg border overflow-x-auto">
+            {students.length === 0 ? (
+              <p className="p-6 text-gray-500">No students yet. Share the join code or add them by email.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-2">Student</th>
+                    <th className="px-4 py-2">Stories</th>
+                    <th className="px-4 py-2">Words</th>
+                    <th className="px-4 py-2">Streak</th>
+                    <th className="px-4 py-2">Last wrote</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {students.map(student => (
+                    <tr key={student.id} className="border-t">
+                      <td className="px-4 py-2">
+                        <p className="font-medium text-gray-900">{student.name}</p>
+                        <p className="text-xs text-gray-500">Level {student.progress.currentLevel}</p>
+                      </td>
+                      <td className="px-4 py-2">
+                        {student.progress.storiesWritten}
+                        <span className="text-gray-400"> ({student.progress.storiesPublished} published)</span>
+                      </td>
+                      <td className="px-4 py-2">{student.progress.totalWordCount.toLocaleString()}</td>
+                      <td className="px-4 py-2">
+                        <span className="flex items-center">
+                          <Flame className="w-4 h-4 mr-1 text-orange-500" />
+                          {student.progress.currentWritingStreak}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-gray-500">
+                        {student.progress.lastWrittenAt
+                          ? new Date(student.progress.lastWrittenAt).toLocaleDateString()
+                          : 'Not yet'}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <button
+                          onClick={() => handleRemoveStudent(student)}
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label={`Remove ${student.name}`}
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <form onSubmit={handleEnroll} className="bg-white rounded-lg border p-4 space-y-3">
+              <h3 className="flex items-center text-sm font-semibold text-gray-900">
+                <UserPlus className="w-4 h-4 mr-2" />
+                Add students by email
+              </h3>
+              <textarea
+                value={emailList}
+                onChange={(e) => setEmailList(e.target.value)}
+                rows={4}
+                placeholder="One email per line, or separated by commas"
+                className="w-full border border-gray-300 rounded-md p-2 text-sm"
+              />
+              <Button type="submit" size="sm" loading={isEnrolling} className="w-full">
+                Add students
+              </Button>
+            </form>
+
+            <div className="bg-white rounded-lg border p-4 space-y-3">
+              <h3 className="flex items-center text-sm font-semibold text-gray-900">
+                <Upload className="w-4 h-4 mr-2" />
+                Import a roster
+              </h3>
+              <p className="text-xs text-gray-500">
+                A CSV file with an email column, and optionally a name column.
+              </p>
+              <input
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                onChange={handleRosterFile}
+                disabled={isEnrolling}
+                className="text-sm"
+              />
+            </div>
+
+            {lastEnrollment && (
+              <div className="bg-gray-50 rounded-lg border p-4 text-sm space-y-2">
+                <p className="text-gray-800">{lastEnrollment.enrolled.length} added</p>
+                {lastEnrollment.alreadyEnrolled.length > 0 && (
+                  <p className="text-gray-600">Already in class: {lastEnrollment.alreadyEnrolled.join(', ')}</p>
+                )}
+                {lastEnrollment.notFound.length > 0 && (
+                  <p className="text-orange-700">No student account found for: {lastEnrollment.notFound.join(', ')}</p>
+                )}
+                {lastEnrollment.errors && lastEnrollment.errors.length > 0 && (
+                  <ul className="text-red-700 list-disc list-inside">
+                    {lastEnrollment.errors.map(error => (
+                      <li key={`${error.line}-${error.message}`}>Line {error.line}: {error.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {tab === 'assignments' && (
+        <div className="grid gap-6 lg:grid-cols-3">
+          <ul className="lg:col-span-2 space-y-3">
+            {assignments.length === 0 && (
+              <li className="bg-white rounded-lg border p-6 text-gray-500">No assignments yet.</li>
+            )}
+            {assignments.map(assignment => (
+              <li key={assignment.id} className="bg-white rounded-lg border p-4">
+                <div className="flex items-start justify-between">
+                  <button
+                    onClick={() => toggleAssignment(assignment.id)}
+                    className="text-left font-semibold text-gray-900 hover:text-purple-700"
+                  >
+                    {assignment.title}
+                  </button>
+                  <button
+                    onClick={() => handleCloseAssignment(assignment)}
+                    className={`text-xs px-2 py-1 rounded ${
+                      assignment.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}
+                    title={assignment.status === 'active' ? 'Close this assignment' : 'Reopen this assignment'}
+                  >
+                    {assignment.status === 'active' ? 'Open' : 'Closed'}
+                  </button>
+                </div>
+                <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">{assignment.instructions}</p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 mt-2">
+                  {assignment.dueDate && <span>Due {new Date(assignment.dueDate).toLocaleDateString()}</span>}
+                  {assignment.targetWordCount && <span>{assignment.targetWordCount} words</span>}
+                  {assignment.stage && <span>Stage {assignment.stage}</span>}
+                  {ELEMENT_KEYS.filter(key => assignment.elementConstraints?.[key]?.length).map(key => (
+                    <span key={key}>{key}: {assignment.elementConstraints![key]!.join(' / ')}</span>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {(Object.keys(SUBMISSION_LABELS) as SubmissionStatus[])
+                    .filter(status => assignment.submissions[status] > 0)
+                    .map(status => (
+                      <span key={status} className={`text-xs px-2 py-1 rounded ${SUBMISSION_LABELS[status].className}`}>
+                        {assignment.submissions[status]} {SUBMISSION_LABELS[status].label.toLowerCase()}
+                      </span>
+                    ))}
+                </div>
+
+                {openAssignment === assignment.id && (
+                  <ul className="mt-4 border-t divide-y text-sm">
+                    {submissions.map(submission => (
+                      <li key={submission.userId} className="flex items-center justify-between py-2">
+                        {submission.storyId ? (
+                          <Link href={`/story/${submission.storyId}`} className="text-gray-900 hover:text-purple-700">
+                            {submission.name}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-900">{submission.name}</span>
+                        )}
+                        <span className="flex items-center space-x-3">
+                          {submission.wordCount !== undefined && (
+                            <span className="text-xs text-gray-500">{submission.wordCount} words</span>
+                          )}
+                          <span className={`text-xs px-2 py-1 rounded ${SUBMISSION_LABELS[submission.status].className}`}>
+                            {SUBMISSION_LABELS[submission.status].label}
+                          </span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handlePostAssignment} className="bg-white rounded-lg border p-4 space-y-3 h-fit">
+            <h3 className="text-sm font-semibold text-gray-900">New assignment</h3>
+            <Input
+              label="Title"
+              value={assignmentTitle}
+              onChange={(e) => setAssignmentTitle(e.target.value)}
+              maxLength={120}
+              required
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Instructions</label>
+              <textarea
+                value={assignmentInstructions}
+                onChange={(e) => setAssignmentInstructions(e.target.value)}
+                rows={5}
+                maxLength={2000}
+                className="w-full border border-gray-300 rounded-md p-2 text-sm"
+                required
+              />
+            </div>
+            <Input
+              label="Due date (optional)"
+              type="date"
+              value={assignmentDue}
+              onChange={(e) => setAssignmentDue(e.target.value)}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                label="Target words"
+                type="number"
+                min={300}
+                max={2000}
+                step={50}
+                value={assignmentTarget}
+                onChange={(e) => setAssignmentTarget(e.target.value)}
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Stage</label>
+                <select
+                  value={assignmentStage}
+                  onChange={(e) => setAssignmentStage(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-2 py-2 text-sm"
+                >
+                  <option value="">Any</option>
+                  {[1, 2, 3, 4, 5].map(stage => (
+                    <option key={stage} value={stage}>Stage {stage}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <details className="text-sm">
+              <summary className="cursor-pointer font-medium text-gray-700">Story elements</summary>
+              <p className="text-xs text-gray-500 mt-1">
+                Tick the options students may use. One tick fixes the element; none leaves it open.
+              </p>
+              {ELEMENT_KEYS.map(key => (
+                <fieldset key={key} className="mt-2">
+                  <legend className="text-xs font-semibold uppercase text-gray-500">{key}</legend>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {storyElementsSchema.shape[key].options.map(option => {
+                      const selected = constraints[key]?.includes(option);
+                      return (
+                        <button
+                          key={option}
+                          type="button"
+                          onClick={() => toggleConstraint(key, option)}
+                          className={`text-xs px-2 py-1 rounded border ${
+                            selected ? 'bg-purple-600 text-white border-purple-600' : 'border-gray-300 text-gray-700'
+                          }`}
+                        >
+                          {option}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </fieldset>
+              ))}
+            </details>
+
+            <div className="text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-700">Rubric</span>
+                {!rubricId && (
+                  <button
+                    type="button"
+                    onClick={() => setRubric(current => [...current, { name: '', weight: 1 }])}
+                    disabled={rubric.length >= 10}
+                    className="flex items-center text-xs text-purple-700 hover:underline"
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add criterion
+                  </button>
+                )}
+              </div>
+              <select
+                value={rubricId}
+                onChange={(e) => setRubricId(e.target.value)}
+                className="w-full mt-2 border border-gray-300 rounded-md px-2 py-1 text-sm"
+              >
+                <option value="">{rubric.length > 0 ? 'These criteria' : 'Default rubric'}</option>
+                {savedRubrics.map(saved => (
+                  <option key={saved.id} value={saved.id}>{saved.name}</option>
+                ))}
+              </select>
+              {!rubricId && rubric.map((criterion, index) => (
+                <div key={index} className="flex items-center space-x-2 mt-2">
+                  <input
+                    value={criterion.name}
+                    onChange={(e) => setRubric(current => current.map((entry, i) => i === index ? { ...entry, name: e.target.value } : entry))}
+                    placeholder="e.g. Uses dialogue"
+                    maxLength={80}
+                    className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={criterion.weight}
+                    onChange={(e) => setRubric(current => current.map((entry, i) => i === index ? { ...entry, weight: parseInt(e.target.value) || 1 } : entry))}
+                    className="w-14 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    aria-label="Weight"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setRubric(current => current.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label="Remove criterion"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <Button type="submit" size="sm" loading={isPosting} disabled={classInfo.isArchived} className="w-full">
+              Post to class
+            </Button>
+          </form>
+        </div>
+      )}
+
+      {tab === 'stories' && (
+        <div className="space-y-4">
+          <div className="flex space-x-2">
+            <select
+              value={storyStudent}
+              onChange={(e) => setStoryStudent(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All students</option>
+              {students.map(student => (
+                <option key={student.id} value={student.id}>{student.name}</option>
+              ))}
+            </select>
+            <select
+              value={storyStatus}
+              onChange={(e) => setStoryStatus(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">Any status</option>
+              <option value="draft">Draft</option>
+              <option value="in-progress">In progress</option>
+              <option value="completed">Completed</option>
+              <option value="published">Published</option>
+            </select>
+          </div>
+
+          <ul className="bg-white rounded-lg border divide-y">
+            {stories.length === 0 && <li className="p-6 text-gray-500">No stories match.</li>}
+            {stories.map(story => (
+              <li key={story.id} className="p-4 flex items-center justify-between">
+                <div>
+                  <Link href={`/story/${story.id}`} className="font-medium text-gray-900 hover:text-purple-700">
+                    {story.title}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {story.authorName} · {story.wordCount} words · updated {new Date(story.updatedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">{story.status}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {tab === 'trends' && (
+        <div className="space-y-4">
+          <div className="flex space-x-2">
+            <select
+              value={trendStudent}
+              onChange={(e) => setTrendStudent(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">Whole class</option>
+              {students.map(student => (
+                <option key={student.id} value={student.id}>{student.name}</option>
+              ))}
+            </select>
+            <select
+              value={trendSource}
+              onChange={(e) => setTrendSource(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">AI and mentor scores</option>
+              <option value="mentor">Mentor scores</option>
+              <option value="ai">AI scores</option>
+            </select>
+          </div>
+
+          {trends.length === 0 ? (
+            <div className="bg-white rounded-lg border p-6 text-gray-500">
+              No rubric scores yet. They appear here as published stories are assessed.
+            </div>
+          ) : (
+            <ul className="bg-white rounded-lg border divide-y">
+              {trends.map(trend => (
+                <li key={trend.criterion} className="p-4">
+                  <p className="font-medium text-gray-900 mb-2">{trend.criterion}</p>
+                  <div className="flex items-end space-x-3">
+                    {trend.points.map(point => (
+                      <div key={point.period} className="flex flex-col items-center w-12" title={`${point.count} scores`}>
+                        <span className="text-xs text-gray-700">{point.averageScore}</span>
+                        <div className="w-6 bg-gray-100 rounded h-16 flex items-end">
+                          <div className="w-6 bg-purple-500 rounded" style={{ height: `${point.averageScore}%` }} />
+                        </div>
+                        <span className="text-xs text-gray-500 mt-1">{point.period.slice(5)}/{point.period.slice(2, 4)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
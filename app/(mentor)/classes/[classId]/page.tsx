@@ -0,0 +1,11 @@
+import { Metadata } from 'next';
+import ClassDetailClient from './ClassDetailClient';
+
+export const metadata: Metadata = {
+  title: 'Class | Mintoons',
+  description: 'Manage a class roster, its assignments and the stories students write.',
+};
+
+export default function ClassDetailPage({ params }: { params: { classId: string } }) {
+  return <ClassDetailClient classId={params.classId} />;
+}
@@ -0,0 +1,12 @@
+import { Metadata } from 'next';
+import ClassesClient from './ClassesClient';
+
+export const metadata: Metadata = {
+  title: 'My Classes | Mintoons',
+  description: 'Create classes, enroll students and set writing assignments.',
+  keywords: ['classroom', 'mentor', 'students', 'writing assignments'],
+};
+
+export default function ClassesPage() {
+  return <ClassesClient />;
+}
@@ -7,6 +7,7 @@ import {
   Award, Eye, Heart, Calendar, Filter, Search, MoreVertical,
   ChevronRight, Bell, CheckCircle, AlertCircle
 } from 'lucide-react';
+import AssignmentTracker from '@/app/components/classroom/AssignmentTracker';
 
 interface MentorStats {
   totalStudents: number;
@@ -379,6 +380,8 @@ export default function MentorDashboardClient() {
         </div>
       </div>
 
+      <AssignmentTracker />
+
       {/* Quick Actions */}
       <div className="bg-white rounded-lg border p-6">
         <h2 className="text-lg font-semibold mb-4">Quick Actions</h2>
@@ -0,0 +1,404 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ListChecks, Plus, Archive, Trash2, Pencil, X } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { showToast } from '@/app/components/ui/toast';
+
+interface RubricLevel {
+  score: number;
+  label: string;
+  descriptor?: string;
+}
+
+interface RubricCriterion {
+  name: string;
+  description?: string;
+  weight: number;
+  levels?: RubricLevel[];
+}
+
+interface RubricSummary {
+  id: string;
+  name: string;
+  description?: string;
+  criteria: RubricCriterion[];
+  isArchived: boolean;
+  updatedAt: string;
+}
+
+interface CriterionDraft {
+  name: string;
+  description: string;
+  weight: number;
+  levels: RubricLevel[];
+}
+
+const MAX_CRITERIA = 10;
+const MAX_LEVELS = 6;
+
+export default function RubricsClient() {
+  const [rubrics, setRubrics] = useState<RubricSummary[]>([]);
+  const [defaultLevels, setDefaultLevels] = useState<RubricLevel[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [criteria, setCriteria] = useState<CriterionDraft[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRubrics();
+  }, [showArchived]);
+
+  const fetchRubrics = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/mentor/rubrics?archived=${showArchived}`);
+      if (response.ok) {
+        const data = await response.json();
+        setRubrics(data.data.rubrics);
+        setDefaultLevels(data.data.defaultLevels);
+      }
+    } catch (error) {
+      console.error('Error fetching rubrics:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const blankCriterion = (): CriterionDraft => ({
+    name: '',
+    description: '',
+    weight: 1,
+    levels: defaultLevels.map(level => ({ ...level })),
+  });
+
+  const openNew = () => {
+    setEditingId(null);
+    setName('');
+    setDescription('');
+    setCriteria([blankCriterion()]);
+    setShowForm(true);
+  };
+
+  const openEdit = (rubric: RubricSummary) => {
+    setEditingId(rubric.id);
+    setName(rubric.name);
+    setDescription(rubric.description || '');
+    setCriteria(rubric.criteria.map(criterion => ({
+      name: criterion.name,
+      description: criterion.description || '',
+      weight: criterion.weight,
+      levels: (criterion.levels && criterion.levels.length > 0 ? criterion.levels : defaultLevels)
+        .map(level => ({ ...level })),
+    })));
+    setShowForm(true);
+  };
+
+  const updateCriterion = (index: number, changes: Partial<CriterionDraft>) => {
+    setCriteria(current => current.map((criterion, i) => i === index ? { ...criterion, ...changes } : criterion));
+  };
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, changes: Partial<RubricLevel>) => {
+    setCriteria(current => current.map((criterion, i) => i !== criterionIndex ? criterion : {
+      ...criterion,
+      levels: criterion.levels.map((level, j) => j === levelIndex ? { ...level, ...changes } : level),
+    }));
+  };
+
+  // Levels stay numbered 1..n from lowest to highest
+  const addLevel = (criterionIndex: number) => {
+    setCriteria(current => current.map((criterion, i) => i !== criterionIndex ? criterion : {
+      ...criterion,
+      levels: [...criterion.levels, { score: criterion.levels.length + 1, label: '', descriptor: '' }],
+    }));
+  };
+
+  const removeLevel = (criterionIndex: number) => {
+    setCriteria(current => current.map((criterion, i) => i !== criterionIndex ? criterion : {
+      ...criterion,
+      levels: criterion.levels.slice(0, -1),
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/mentor/rubrics/${editingId}` : '/api/mentor/rubrics', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          ...(description.trim() ? { description: description.trim() } : {}),
+          criteria: criteria.map(criterion => ({
+            name: criterion.name.trim(),
+            ...(criterion.description.trim() ? { description: criterion.description.trim() } : {}),
+            weight: criterion.weight,
+            levels: criterion.levels.map(level => ({
+              score: level.score,
+              label: level.label.trim(),
+              ...(level.descriptor?.trim() ? { descriptor: level.descriptor.trim() } : {}),
+            })),
+          })),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast.success(editingId ? 'Rubric updated' : 'Rubric created', data.data.rubric.name);
+        setShowForm(false);
+        setRubrics(current => editingId
+          ? current.map(rubric => rubric.id === editingId ? data.data.rubric : rubric)
+          : [data.data.rubric, ...current]);
+      } else {
+        const firstError = data.errors ? Object.values(data.errors)[0] as string : undefined;
+        showToast.error('Could not save rubric', firstError || data.message);
+      }
+    } catch (error) {
+      console.error('Error saving rubric:', error);
+      showToast.error('Could not save rubric', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rubric: RubricSummary) => {
+    if (!confirm(`Delete "${rubric.name}"? Rubrics already used for marking are archived instead.`)) return;
+
+    try {
+      const response = await fetch(`/api/mentor/rubrics/${rubric.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast.success(data.data.archived ? 'Rubric archived' : 'Rubric deleted', data.message);
+        setRubrics(current => current.filter(entry => entry.id !== rubric.id));
+      } else {
+        showToast.error('Could not delete rubric', data.message);
+      }
+    } catch (error) {
+      console.error('Error deleting rubric:', error);
+      showToast.error('Could not delete rubric', 'Please try again');
+    }
+  };
+
+  const handleRestore = async (rubric: RubricSummary) => {
+    try {
+      const response = await fetch(`/api/mentor/rubrics/${rubric.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isArchived: false }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast.success('Rubric restored', rubric.name);
+        setRubrics(current => current.filter(entry => entry.id !== rubric.id));
+      } else {
+        showToast.error('Could not restore rubric', data.message);
+      }
+    } catch (error) {
+      console.error('Error restoring rubric:', error);
+      showToast.error('Could not restore rubric', 'Please try again');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="flex items-center text-2xl font-bold text-gray-900">
+            <ListChecks className="w-6 h-6 mr-2" />
+            Rubrics
+          </h1>
+          <p className="text-gray-600 mt-1">Name what you look for, describe each level and choose what counts most.</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setShowArchived(!showArchived)}>
+            <Archive className="w-4 h-4 mr-1" />
+            {showArchived ? 'Active rubrics' : 'Archived'}
+          </Button>
+          <Button size="sm" onClick={openNew}>
+            <Plus className="w-4 h-4 mr-1" />
+            New rubric
+          </Button>
+        </div>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white rounded-lg border p-6 space-y-4">
+          <Input
+            label="Rubric name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Narrative writing, Year 4"
+            maxLength={100}
+            required
+          />
+          <Input
+            label="Description (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={500}
+          />
+
+          {criteria.map((criterion, index) => (
+            <fieldset key={index} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-start space-x-2">
+                <div className="flex-1">
+                  <Input
+                    label={`Criterion ${index + 1}`}
+                    value={criterion.name}
+                    onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                    placeholder="e.g. Uses dialogue"
+                    maxLength={80}
+                    required
+                  />
+                </div>
+                <div className="w-20">
+                  <Input
+                    label="Weight"
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={criterion.weight}
+                    onChange={(e) => updateCriterion(index, { weight: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setCriteria(current => current.filter((_, i) => i !== index))}
+                  disabled={criteria.length === 1}
+                  className="mt-7 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  aria-label="Remove criterion"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <Input
+                label="What it means (optional)"
+                value={criterion.description}
+                onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                maxLength={300}
+              />
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">Levels, lowest first</p>
+                {criterion.levels.map((level, levelIndex) => (
+                  <div key={levelIndex} className="flex items-center space-x-2">
+                    <span className="w-6 text-sm text-gray-500 text-right">{level.score}</span>
+                    <input
+                      value={level.label}
+                      onChange={(e) => updateLevel(index, levelIndex, { label: e.target.value })}
+                      placeholder="Label"
+                      maxLength={40}
+                      required
+                      className="w-32 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    />
+                    <input
+                      value={level.descriptor || ''}
+                      onChange={(e) => updateLevel(index, levelIndex, { descriptor: e.target.value })}
+                      placeholder="What work at this level looks like"
+                      maxLength={300}
+                      className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    />
+                  </div>
+                ))}
+                <div className="flex space-x-3 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => addLevel(index)}
+                    disabled={criterion.levels.length >= MAX_LEVELS}
+                    className="text-purple-700 hover:underline disabled:opacity-40"
+                  >
+                    Add level
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeLevel(index)}
+                    disabled={criterion.levels.length <= 2}
+                    className="text-gray-600 hover:underline disabled:opacity-40"
+                  >
+                    Remove top level
+                  </button>
+                </div>
+              </div>
+            </fieldset>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => setCriteria(current => [...current, blankCriterion()])}
+              disabled={criteria.length >= MAX_CRITERIA}
+              className="flex items-center text-sm text-purple-700 hover:underline disabled:opacity-40"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add criterion
+            </button>
+            <div className="flex space-x-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" loading={isSaving}>
+                {editingId ? 'Save changes' : 'Create rubric'}
+              </Button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading rubrics...</p>
+      ) : rubrics.length === 0 ? (
+        <div className="bg-white rounded-lg border p-10 text-center text-gray-500">
+          {showArchived ? 'No archived rubrics.' : 'No rubrics yet. Create one to mark assignments against it.'}
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {rubrics.map(rubric => (
+            <li key={rubric.id} className="bg-white rounded-lg border p-5">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">{rubric.name}</h2>
+                  {rubric.description && <p className="text-sm text-gray-600">{rubric.description}</p>}
+                </div>
+                <div className="flex items-center space-x-2">
+                  {rubric.isArchived ? (
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(rubric)}>
+                      Restore
+                    </Button>
+                  ) : (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => openEdit(rubric)}>
+                        <Pencil className="w-4 h-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => handleDelete(rubric)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <ul className="mt-3 flex flex-wrap gap-2">
+                {rubric.criteria.map(criterion => (
+                  <li key={criterion.name} className="text-xs bg-purple-50 text-purple-800 px-2 py-1 rounded">
+                    {criterion.name}
+                    {criterion.weight > 1 && <span className="ml-1 text-purple-500">×{criterion.weight}</span>}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { Metadata } from 'next';
+import RubricsClient from './RubricsClient';
+
+export const metadata: Metadata = {
+  title: 'Rubrics | Mintoons',
+  description: 'Define marking rubrics with criteria, level descriptors and weights.',
+  keywords: ['rubric', 'mentor', 'assessment', 'writing criteria'],
+};
+
+export default function RubricsPage() {
+  return <RubricsClient />;
+}
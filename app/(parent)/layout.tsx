@@ -0,0 +1,28 @@
+import { getServerSession } from 'next-auth';
+import { redirect } from 'next/navigation';
+import { authOptions } from '@/utils/authOptions';
+
+export default async function ParentLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session) {
+    redirect('/login');
+  }
+
+  // Only parents and guardians with linked children use this area
+  if (session.user.role !== 'parent') {
+    redirect('/dashboard');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,666 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import {
+  Users,
+  BookOpen,
+  Flame,
+  Star,
+  Shield,
+  Sparkles,
+  Mail,
+  Link2,
+  Eye,
+  CheckCircle,
+  XCircle,
+  MessageCircle,
+  TrendingUp,
+  Clock,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/app/components/ui/card';
+import { Button } from '@/app/components/ui/button';
+import { Badge } from '@/app/components/ui/badge';
+import { Input } from '@/app/components/ui/input';
+import { InfoModal } from '@/app/components/ui/modal';
+import { showToast } from '@/app/components/ui/toast';
+import DataRightsPanel from '@/app/components/account/DataRightsPanel';
+
+type AIAssistanceLevel = 'minimal' | 'normal' | 'maximum';
+
+interface PrivacySettings {
+  showProfile: boolean;
+  showProgress: boolean;
+  allowMentorContact: boolean;
+}
+
+interface LinkedChild {
+  id: string;
+  name: string;
+  age: number;
+  accountStatus: string;
+  parentConsentStatus: string;
+  lastActiveAt?: string;
+  stats: {
+    storiesCreated: number;
+    storiesPublished: number;
+    totalWordCount: number;
+    currentWritingStreak: number;
+    currentLevel: number;
+  };
+  privacySettings: PrivacySettings;
+  aiAssistanceLevel: AIAssistanceLevel;
+  pendingApprovals: number;
+}
+
+interface ChildStory {
+  id: string;
+  title: string;
+  status: string;
+  wordCount: number;
+  updatedAt: string;
+  isPublic: boolean;
+  publicApproval?: {
+    status: 'pending' | 'approved' | 'declined';
+    requestedAt: string;
+  };
+  aiAssessment?: {
+    overallScore: number;
+  };
+  commentCount: number;
+}
+
+interface StoryDetail {
+  story: {
+    id: string;
+    title: string;
+    content: string;
+    aiAssessment?: {
+      overallScore: number;
+      feedback: string;
+      strengths: string[];
+      improvements: string[];
+    };
+    mentorAssessment?: {
+      mentorName: string;
+      encouragement: string;
+      nextStepsRecommendation: string;
+    };
+  };
+  comments: {
+    _id: string;
+    commenterName: string;
+    content: string;
+    highlightedText?: string;
+    createdAt: string;
+  }[];
+}
+
+const PRIVACY_OPTIONS: { key: keyof PrivacySettings; label: string; description: string }[] = [
+  { key: 'showProfile', label: 'Show profile', description: 'Other writers can see their name and avatar' },
+  { key: 'showProgress', label: 'Show progress', description: 'Levels and achievements are visible to others' },
+  { key: 'allowMentorContact', label: 'Mentor feedback', description: 'Mentors can comment on their stories' },
+];
+
+const AI_LEVELS: { value: AIAssistanceLevel; label: string; description: string }[] = [
+  { value: 'minimal', label: 'Minimal', description: 'Short prompts, most writing is their own' },
+  { value: 'normal', label: 'Normal', description: 'Balanced help with ideas and next steps' },
+  { value: 'maximum', label: 'Maximum', description: 'Detailed suggestions for new writers' },
+];
+
+interface ParentDashboardClientProps {
+  linkToken?: string;
+}
+
+export default function ParentDashboardClient({ linkToken }: ParentDashboardClientProps) {
+  const [children, setChildren] = useState<LinkedChild[]>([]);
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
+  const [stories, setStories] = useState<ChildStory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [storiesLoading, setStoriesLoading] = useState(false);
+  const [childEmail, setChildEmail] = useState('');
+  const [linking, setLinking] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [decidingStoryId, setDecidingStoryId] = useState<string | null>(null);
+  const [openStory, setOpenStory] = useState<StoryDetail | null>(null);
+
+  const selectedChild = children.find(child => child.id === selectedChildId) || null;
+
+  const fetchChildren = useCallback(async () => {
+    try {
+      const response = await fetch('/api/parent/children');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load children');
+      }
+
+      setChildren(data.data.children);
+      setSelectedChildId(current => current || data.data.children[0]?.id || null);
+    } catch (error) {
+      console.error('Error fetching children:', error);
+      showToast.error('Error', 'Failed to load your children');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchStories = useCallback(async (childId: string) => {
+    try {
+      setStoriesLoading(true);
+      const response = await fetch(`/api/parent/children/${childId}/stories`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load stories');
+      }
+
+      setStories(data.data.stories);
+    } catch (error) {
+      console.error('Error fetching stories:', error);
+      showToast.error('Error', 'Failed to load stories');
+    } finally {
+      setStoriesLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchChildren();
+  }, [fetchChildren]);
+
+  useEffect(() => {
+    if (selectedChildId) {
+      fetchStories(selectedChildId);
+    }
+  }, [selectedChildId, fetchStories]);
+
+  const linkChild = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!childEmail.trim()) return;
+
+    try {
+      setLinking(true);
+      const response = await fetch('/api/parent/children', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ childEmail: childEmail.trim() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showToast.error('Could not link account', data.message);
+        return;
+      }
+
+      showToast.success('Check your email', data.message);
+      setChildEmail('');
+    } catch (error) {
+      console.error('Error linking child:', error);
+      showToast.error('Error', 'Something went wrong. Please try again.');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  // Arriving from the confirmation email finishes the link, once
+  useEffect(() => {
+    if (!linkToken) return;
+
+    const confirmLink = async () => {
+      try {
+        setLinking(true);
+        const response = await fetch('/api/parent/children/confirm', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: linkToken }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          showToast.error('Could not link account', data.message);
+          return;
+        }
+
+        showToast.success('Account linked', data.message);
+        setSelectedChildId(data.data.childId);
+        await fetchChildren();
+      } catch (error) {
+        console.error('Error confirming child link:', error);
+        showToast.error('Error', 'Something went wrong. Please try again.');
+      } finally {
+        setLinking(false);
+        window.history.replaceState(null, '', '/parent-dashboard');
+      }
+    };
+
+    confirmLink();
+  }, [linkToken, fetchChildren]);
+
+  const updateSettings = async (
+    childId: string,
+    update: { privacySettings?: Partial<PrivacySettings>; aiAssistanceLevel?: AIAssistanceLevel }
+  ) => {
+    try {
+      setSavingSettings(true);
+      const response = await fetch(`/api/parent/children/${childId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update settings');
+      }
+
+      setChildren(prev => prev.map(child =>
+        child.id === childId
+          ? { ...child, privacySettings: data.data.privacySettings, aiAssistanceLevel: data.data.aiAssistanceLevel }
+          : child
+      ));
+      showToast.success('Settings saved');
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      showToast.error('Error', 'Failed to update settings');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const decidePublish = async (storyId: string, approve: boolean) => {
+    if (!selectedChildId) return;
+
+    try {
+      setDecidingStoryId(storyId);
+      const response = await fetch(`/api/parent/children/${selectedChildId}/stories/${storyId}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approve }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showToast.error('Could not save decision', data.message);
+        return;
+      }
+
+      showToast.success(data.message);
+      setStories(prev => prev.map(story =>
+        story.id === storyId
+          ? { ...story, isPublic: data.data.isPublic, publicApproval: data.data.publicApproval }
+          : story
+      ));
+      setChildren(prev => prev.map(child =>
+        child.id === selectedChildId
+          ? { ...child, pendingApprovals: Math.max(0, child.pendingApprovals - 1) }
+          : child
+      ));
+    } catch (error) {
+      console.error('Error deciding publish request:', error);
+      showToast.error('Error', 'Something went wrong. Please try again.');
+    } finally {
+      setDecidingStoryId(null);
+    }
+  };
+
+  const viewStory = async (storyId: string) => {
+    if (!selectedChildId) return;
+
+    try {
+      const response = await fetch(`/api/parent/children/${selectedChildId}/stories/${storyId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load story');
+      }
+
+      setOpenStory(data.data);
+    } catch (error) {
+      console.error('Error loading story:', error);
+      showToast.error('Error', 'Failed to load story');
+    }
+  };
+
+  const getStatusBadge = (story: ChildStory) => {
+    if (story.publicApproval?.status === 'pending') {
+      return <Badge variant="warning">Waiting for you</Badge>;
+    }
+    if (story.status === 'published') {
+      return story.isPublic
+        ? <Badge variant="success">Public</Badge>
+        : <Badge variant="info">Published privately</Badge>;
+    }
+    return <Badge variant="gray">{story.status.replace('-', ' ')}</Badge>;
+  };
+
+  if (loading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <div key={index} className="animate-pulse">
+            <div className="bg-white rounded-xl h-32 shadow-sm"></div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Family Dashboard</h1>
+        <p className="text-gray-600">
+          Follow your child&apos;s stories and feedback, and choose how they use Mintoons.
+        </p>
+      </motion.div>
+
+      {/* Link a child */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Link2 className="w-5 h-5 mr-2 text-purple-500" />
+            Link a child account
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={linkChild} className="flex flex-col sm:flex-row gap-3">
+            <div className="flex-1">
+              <Input
+                type="email"
+                placeholder="Your child's login email"
+                value={childEmail}
+                onChange={(e) => setChildEmail(e.target.value)}
+                leftIcon={<Mail className="h-4 w-4" />}
+                disabled={linking}
+              />
+            </div>
+            <Button type="submit" variant="gradient" loading={linking} disabled={linking || !childEmail.trim()}>
+              Link Account
+            </Button>
+          </form>
+          <p className="text-xs text-gray-500 mt-2">
+            Your child&apos;s account must list your email address as their parent email. We&apos;ll
+            send a link there to confirm.
+          </p>
+        </CardContent>
+      </Card>
+
+      {children.length === 0 ? (
+        <Card className="text-center">
+          <CardContent className="p-8">
+            <Users className="w-16 h-16 mx-auto text-purple-500 mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">No linked children yet</h2>
+            <p className="text-gray-600">
+              Link your child&apos;s account above to see their stories and progress.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Child selector */}
+          <div className="flex flex-wrap gap-2">
+            {children.map(child => (
+              <button
+                key={child.id}
+                onClick={() => setSelectedChildId(child.id)}
+                className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  child.id === selectedChildId
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                {child.name}
+                {child.pendingApprovals > 0 && (
+                  <span className="ml-2 bg-yellow-400 text-yellow-900 text-xs rounded-full px-2 py-0.5">
+                    {child.pendingApprovals}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {selectedChild && (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 space-y-6">
+                {/* Stats */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {[
+                    { label: 'Stories', value: selectedChild.stats.storiesCreated, icon: BookOpen },
+                    { label: 'Published', value: selectedChild.stats.storiesPublished, icon: Star },
+                    { label: 'Words', value: selectedChild.stats.totalWordCount.toLocaleString(), icon: TrendingUp },
+                    { label: 'Day streak', value: selectedChild.stats.currentWritingStreak, icon: Flame },
+                  ].map(stat => (
+                    <Card key={stat.label}>
+                      <CardContent className="p-4">
+                        <stat.icon className="w-5 h-5 text-purple-500 mb-2" />
+                        <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
+                        <div className="text-sm text-gray-500">{stat.label}</div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+
+                {/* Stories */}
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between">
+                    <CardTitle className="flex items-center">
+                      <BookOpen className="w-5 h-5 mr-2 text-purple-500" />
+                      {selectedChild.name}&apos;s stories
+                    </CardTitle>
+                    <Link href={`/parent-dashboard/${selectedChild.id}/progress`}>
+                      <Button variant="outline" size="sm">
+                        <TrendingUp className="w-4 h-4 mr-1" />
+                        Progress
+                      </Button>
+                    </Link>
+                  </CardHeader>
+                  <CardContent>
+                    {storiesLoading ? (
+                      <div className="space-y-3">
+                        {Array.from({ length: 3 }).map((_, index) => (
+                          <div key={index} className="animate-pulse bg-gray-100 rounded-lg h-16"></div>
+                        ))}
+                      </div>
+                    ) : stories.length === 0 ? (
+                      <p className="text-gray-500 text-center py-6">No stories yet.</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {stories.map(story => (
+                          <div
+                            key={story.id}
+                            className="flex flex-col md:flex-row md:items-center justify-between p-4 border border-gray-100 rounded-lg"
+                          >
+                            <div className="mb-3 md:mb-0">
+                              <div className="flex items-center gap-2 mb-1">
+                                <h3 className="font-medium text-gray-900">{story.title}</h3>
+                                {getStatusBadge(story)}
+                              </div>
+                              <div className="flex items-center gap-4 text-sm text-gray-500">
+                                <span>{story.wordCount} words</span>
+                                {story.aiAssessment?.overallScore !== undefined && (
+                                  <span className="flex items-center">
+                                    <Star className="w-3 h-3 mr-1 text-yellow-500" />
+                                    {story.aiAssessment.overallScore}
+                                  </span>
+                                )}
+                                <span className="flex items-center">
+                                  <MessageCircle className="w-3 h-3 mr-1" />
+                                  {story.commentCount}
+                                </span>
+                                <span className="flex items-center">
+                                  <Clock className="w-3 h-3 mr-1" />
+                                  {new Date(story.updatedAt).toLocaleDateString()}
+                                </span>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => viewStory(story.id)}>
+                                <Eye className="w-4 h-4 mr-1" />
+                                Read
+                              </Button>
+                              {story.publicApproval?.status === 'pending' && (
+                                <>
+                                  <Button
+                                    variant="success"
+                                    size="sm"
+                                    disabled={decidingStoryId === story.id}
+                                    onClick={() => decidePublish(story.id, true)}
+                                  >
+                                    <CheckCircle className="w-4 h-4 mr-1" />
+                                    Make public
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={decidingStoryId === story.id}
+                                    onClick={() => decidePublish(story.id, false)}
+                                  >
+                                    <XCircle className="w-4 h-4 mr-1" />
+                                    Keep private
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Settings */}
+              <div className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <Shield className="w-5 h-5 mr-2 text-green-500" />
+                      Privacy
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {PRIVACY_OPTIONS.map(option => (
+                      <label key={option.key} className="flex items-start justify-between gap-4 cursor-pointer">
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{option.label}</div>
+                          <div className="text-xs text-gray-500">{option.description}</div>
+                        </div>
+                        <input
+                          type="checkbox"
+                          className="mt-1 h-4 w-4 text-purple-600 border-gray-300 rounded"
+                          checked={selectedChild.privacySettings?.[option.key] ?? false}
+                          disabled={savingSettings}
+                          onChange={(e) => updateSettings(selectedChild.id, {
+                            privacySettings: { [option.key]: e.target.checked },
+                          })}
+                        />
+                      </label>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <Sparkles className="w-5 h-5 mr-2 text-purple-500" />
+                      AI help
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {AI_LEVELS.map(level => (
+                      <button
+                        key={level.value}
+                        disabled={savingSettings}
+                        onClick={() => updateSettings(selectedChild.id, { aiAssistanceLevel: level.value })}
+                        className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                          selectedChild.aiAssistanceLevel === level.value
+                            ? 'border-purple-500 bg-purple-50'
+                            : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="text-sm font-medium text-gray-900">{level.label}</div>
+                        <div className="text-xs text-gray-500">{level.description}</div>
+                      </button>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                <DataRightsPanel
+                  key={selectedChild.id}
+                  childId={selectedChild.id}
+                  childName={selectedChild.name}
+                  onErased={() => {
+                    setSelectedChildId(null);
+                    fetchChildren();
+                  }}
+                />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Read-only story view with feedback */}
+      <InfoModal
+        open={!!openStory}
+        onOpenChange={(open) => !open && setOpenStory(null)}
+        title={openStory?.story.title || ''}
+        size="lg"
+      >
+        {openStory && (
+          <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+            <p className="text-gray-800 whitespace-pre-wrap">{openStory.story.content}</p>
+
+            {openStory.story.aiAssessment && (
+              <div className="bg-purple-50 rounded-lg p-4">
+                <h4 className="font-medium text-purple-900 mb-1">
+                  AI feedback · {openStory.story.aiAssessment.overallScore}/100
+                </h4>
+                <p className="text-sm text-purple-800">{openStory.story.aiAssessment.feedback}</p>
+              </div>
+            )}
+
+            {openStory.story.mentorAssessment && (
+              <div className="bg-blue-50 rounded-lg p-4">
+                <h4 className="font-medium text-blue-900 mb-1">
+                  From {openStory.story.mentorAssessment.mentorName}
+                </h4>
+                <p className="text-sm text-blue-800">{openStory.story.mentorAssessment.encouragement}</p>
+                {openStory.story.mentorAssessment.nextStepsRecommendation && (
+                  <p className="text-sm text-blue-700 mt-2">
+                    Next: {openStory.story.mentorAssessment.nextStepsRecommendation}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {openStory.comments.length > 0 && (
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2">Mentor comments</h4>
+                <div className="space-y-3">
+                  {openStory.comments.map(comment => (
+                    <div key={comment._id} className="border-l-4 border-blue-200 pl-3">
+                      {comment.highlightedText && (
+                        <p className="text-xs text-gray-500 italic mb-1">&ldquo;{comment.highlightedText}&rdquo;</p>
+                      )}
+                      <p className="text-sm text-gray-800">{comment.content}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {comment.commenterName} · {new Date(comment.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </InfoModal>
+    </div>
+  );
+}
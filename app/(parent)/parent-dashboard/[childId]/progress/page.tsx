@@ -0,0 +1,35 @@
+import { Metadata } from 'next';
+import { getServerSession } from 'next-auth';
+import { redirect } from 'next/navigation';
+import { authOptions } from '@/utils/authOptions';
+import { requireLinkedChildApi } from '@/lib/auth';
+import ProgressClient from '@/app/(dashboard)/progress/ProgressClient';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Child Progress | Mintoons',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+interface ChildProgressPageProps {
+  params: { childId: string };
+}
+
+export default async function ChildProgressPage({ params }: ChildProgressPageProps) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const linkResult = await requireLinkedChildApi(session.user.id, params.childId);
+  if ('error' in linkResult) {
+    redirect('/parent-dashboard');
+  }
+
+  return <ProgressClient childId={params.childId} childName={linkResult.child.name} />;
+}
@@ -0,0 +1,22 @@
+import { Metadata } from 'next';
+import ParentDashboardClient from './ParentDashboardClient';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Family Dashboard | Mintoons',
+  description: 'Follow your child\'s writing, read mentor feedback and manage their privacy settings.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+interface ParentDashboardPageProps {
+  searchParams: { linkToken?: string };
+}
+
+// The child-link confirmation email lands here with its token
+export default function ParentDashboardPage({ searchParams }: ParentDashboardPageProps) {
+  return <ParentDashboardClient linkToken={searchParams.linkToken} />;
+}
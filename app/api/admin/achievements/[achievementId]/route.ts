@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Achievement from '@/models/Achievement';
+import { requireAdminApi } from '@/lib/auth';
+import { updateAchievementSchema } from '@/lib/validations';
+import { SecurityLogger } from '@/lib/security';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: { achievementId: string } };
+
+// PATCH - Edit an achievement. Writers who already unlocked it keep it even
+// if the new criteria would not award it.
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAdminApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.achievementId)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid achievement ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = updateAchievementSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.') || 'general'] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const achievement = await Achievement.findByIdAndUpdate(
+      params.achievementId,
+      { $set: validation.data },
+      { new: true, runValidators: true }
+    ).lean();
+
+    if (!achievement) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Achievement not found' },
+        { status: 404 }
+      );
+    }
+
+    await SecurityLogger.logEvent(
+      'achievement_changed',
+      req,
+      {
+        action: 'updated',
+        achievementId: params.achievementId,
+        fields: Object.keys(validation.data),
+      },
+      authResult.user.id,
+      'low'
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Achievement updated',
+      data: { achievement },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to update achievement',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to update achievement' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/admin/achievements/[achievementId]',
+      'PATCH',
+      responseTime,
+      statusCode
+    );
+  }
+}
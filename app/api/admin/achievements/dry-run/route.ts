@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminApi } from '@/lib/auth';
+import { conditionDryRunSchema } from '@/lib/validations';
+import { dryRunCondition } from '@/lib/achievements';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Check a custom condition and list the writers it would award now
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAdminApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const body = await req.json();
+    const validation = conditionDryRunSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.') || 'general'] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await dryRunCondition(validation.data.condition);
+    if ('error' in result) {
+      statusCode = result.status;
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to dry-run achievement condition',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to check condition' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/admin/achievements/dry-run',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
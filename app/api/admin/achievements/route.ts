@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import Achievement from '@/models/Achievement';
+import { requireAdminApi } from '@/lib/auth';
+import { createAchievementSchema } from '@/lib/validations';
+import { CONDITION_GENRES, CONDITION_STATS, STORY_FIELDS } from '@/lib/achievement-conditions';
+import { SecurityLogger } from '@/lib/security';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Every achievement, plus the names a custom condition can use
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAdminApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    await connectToDatabase();
+
+    const achievements = await Achievement.find()
+      .sort({ sortOrder: 1, category: 1, name: 1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        achievements,
+        conditionLanguage: {
+          stats: CONDITION_STATS,
+          storyFields: STORY_FIELDS,
+          genres: CONDITION_GENRES,
+        },
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load achievements',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load achievements' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/admin/achievements',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Create an achievement. An invalid custom condition is rejected
+// with the position of the problem.
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 201;
+
+  try {
+    const authResult = await requireAdminApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const body = await req.json();
+    const validation = createAchievementSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.') || 'general'] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const existing = await Achievement.findOne({ name: validation.data.name }).select('_id').lean();
+    if (existing) {
+      statusCode = 409;
+      return NextResponse.json(
+        { success: false, message: 'An achievement with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const achievement = await Achievement.create(validation.data);
+
+    await SecurityLogger.logEvent(
+      'achievement_changed',
+      req,
+      {
+        action: 'created',
+        achievementId: achievement._id.toString(),
+        customCondition: achievement.criteria.customCondition,
+      },
+      authResult.user.id,
+      'low'
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Achievement created',
+        data: { achievement },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to create achievement',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to create achievement' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/admin/achievements',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
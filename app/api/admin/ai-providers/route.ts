@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminApi } from '@/lib/auth';
+import { getProviderUsage } from '@/lib/ai-providers';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Provider usage, circuit breaker state and recent failures
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAdminApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const providers = await getProviderUsage();
+
+    return NextResponse.json({
+      success: true,
+      data: { providers },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load AI provider stats',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load AI provider stats' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/admin/ai-providers',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
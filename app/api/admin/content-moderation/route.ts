@@ -1,92 +1,280 @@
 // File 109: app/api/admin/content-moderation/route.ts - Content Moderation API
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/utils/authOptions';
+import mongoose from 'mongoose';
+import { requireAdminApi } from '@/lib/auth';
 import { connectToDatabase } from '@/utils/db';
-import Story from '@/models/Story';
-import { ContentFilter } from '@/lib/content-filter';
+import ModerationCase from '@/models/ModerationCase';
+import { applyModerationDecision } from '@/lib/moderation-queue';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+import { ModerationDecisionType } from '@/types/story';
+
+export const dynamic = 'force-dynamic';
+
+const DECISIONS: ModerationDecisionType[] = ['approve', 'reject', 'escalate'];
+const MAX_BULK_CASES = 100;
+
+function validCaseIds(caseIds: unknown): string[] | null {
+  if (!Array.isArray(caseIds) || caseIds.length === 0 || caseIds.length > MAX_BULK_CASES) {
+    return null;
+  }
+  if (!caseIds.every(id => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id))) {
+    return null;
+  }
+  return Array.from(new Set(caseIds as string[]));
+}
+
+// GET - Moderation queue, ordered by SLA due date
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
 
-export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session || session.user.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authResult = await requireAdminApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
     }
 
     await connectToDatabase();
-    
-    const url = new URL(request.url);
-    const status = url.searchParams.get('status') || 'pending';
-    const page = parseInt(url.searchParams.get('page') || '1');
-    const limit = parseInt(url.searchParams.get('limit') || '20');
 
-    const stories = await Story.find({ moderationStatus: status })
-      .populate('author', 'username email')
-      .sort({ createdAt: -1 })
-      .skip((page - 1) * limit)
-      .limit(limit);
+    const url = new URL(req.url);
+    const status = url.searchParams.get('status') || undefined;
+    const targetType = url.searchParams.get('type') || undefined;
+    const severity = url.searchParams.get('severity') || undefined;
+    const assignedToMe = url.searchParams.get('assignee') === 'me';
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get('limit') || '20')));
+
+    const filters: any = { status, targetType, severity };
+    if (assignedToMe) {
+      filters.assignee = authResult.user.id;
+    }
 
-    const total = await Story.countDocuments({ moderationStatus: status });
+    const [cases, total, stats] = await Promise.all([
+      ModerationCase.findQueue(filters)
+        .populate('targetAuthorId', 'name role avatar')
+        .populate('assignee', 'name')
+        .populate('storyId', 'title')
+        .populate('decisions.decidedBy', 'name')
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ModerationCase.findQueue(filters).countDocuments(),
+      ModerationCase.getQueueStats(),
+    ]);
 
     return NextResponse.json({
-      stories,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
+      success: true,
+      data: {
+        cases,
+        stats,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
       },
     });
+
   } catch (error) {
-    console.error('Content moderation fetch error:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    statusCode = 500;
+
+    await logError(
+      'Failed to load moderation queue',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load moderation queue' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/admin/content-moderation',
+      'GET',
+      responseTime,
+      statusCode
+    );
   }
 }
 
-export async function POST(request: NextRequest) {
+// POST - Record a decision on one or more cases
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session || session.user.role !== 'admin') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authResult = await requireAdminApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
     }
 
-    const { storyId, action, notes } = await request.json();
-    
-    if (!storyId || !action) {
-      return NextResponse.json({ error: 'Story ID and action required' }, { status: 400 });
+    const { caseIds, decision, reason } = await req.json();
+    const ids = validCaseIds(caseIds);
+
+    if (!ids || !DECISIONS.includes(decision)) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Between 1 and ${MAX_BULK_CASES} case IDs and a valid decision are required`,
+        },
+        { status: 400 }
+      );
     }
 
     await connectToDatabase();
-    
-    const story = await Story.findById(storyId);
-    if (!story) {
-      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+
+    const cases = await ModerationCase.find({ _id: { $in: ids } });
+    const results: Array<{ caseId: string; success: boolean; status?: string; message?: string }> = [];
+
+    // One case at a time so each decision gets its own audit event and notification
+    for (const moderationCase of cases) {
+      const result = await applyModerationDecision(
+        req,
+        moderationCase,
+        decision,
+        authResult.user.id,
+        typeof reason === 'string' ? reason.trim().slice(0, 500) : undefined
+      );
+
+      results.push('error' in result
+        ? { caseId: moderationCase._id.toString(), success: false, message: result.error }
+        : { caseId: moderationCase._id.toString(), success: true, status: result.moderationCase.status });
     }
 
-    // Update moderation status
-    story.moderationStatus = action; // 'approved', 'rejected', 'flagged'
-    if (notes) {
-      story.moderationNotes.push({
-        moderator: session.user.id,
-        action,
-        notes,
-        timestamp: new Date(),
-      });
+    const found = new Set(cases.map(moderationCase => moderationCase._id.toString()));
+    ids.filter(id => !found.has(id)).forEach(id => {
+      results.push({ caseId: id, success: false, message: 'Case not found' });
+    });
+
+    const applied = results.filter(result => result.success).length;
+
+    return NextResponse.json({
+      success: applied > 0,
+      message: `${applied} of ${ids.length} cases updated`,
+      data: { results },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to apply moderation decision',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to apply moderation decision' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/admin/content-moderation',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// PATCH - Assign cases to a moderator, or release them back to the queue
+export async function PATCH(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAdminApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const { caseIds, assignee } = await req.json();
+    const ids = validCaseIds(caseIds);
+    const assigneeId = assignee === 'me' ? authResult.user.id : assignee;
+
+    if (!ids || (assigneeId !== null && !mongoose.Types.ObjectId.isValid(assigneeId))) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Valid case IDs and an assignee (or null) are required' },
+        { status: 400 }
+      );
     }
 
-    await story.save();
+    await connectToDatabase();
+
+    const update = assigneeId
+      ? { $set: { assignee: assigneeId, assignedAt: new Date() } }
+      : { $unset: { assignee: 1, assignedAt: 1 } };
+
+    const result = await ModerationCase.updateMany(
+      { _id: { $in: ids }, status: { $in: ['open', 'in_review', 'appealed'] } },
+      update
+    );
 
-    // If rejected, notify the author
-    if (action === 'rejected') {
-      // Send notification to author
-      // Implementation depends on notification system
+    // Picking up an open case moves it into review
+    if (assigneeId) {
+      await ModerationCase.updateMany(
+        { _id: { $in: ids }, status: 'open' },
+        { $set: { status: 'in_review' } }
+      );
     }
 
-    return NextResponse.json({ message: 'Moderation action completed' });
+    return NextResponse.json({
+      success: true,
+      message: `${result.modifiedCount} cases updated`,
+    });
+
   } catch (error) {
-    console.error('Content moderation action error:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    statusCode = 500;
+
+    await logError(
+      'Failed to assign moderation cases',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to assign moderation cases' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/admin/content-moderation',
+      'PATCH',
+      responseTime,
+      statusCode
+    );
   }
 }
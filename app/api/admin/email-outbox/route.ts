@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { requireAdminApi } from '@/lib/auth';
+import { connectToDatabase } from '@/utils/db';
+import EmailOutbox, { OutboxStatus } from '@/models/EmailOutbox';
+import { getEmailQueueStatus, retryDeadEmails } from '@/lib/email';
+import { SecurityLogger } from '@/lib/security';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: OutboxStatus[] = ['pending', 'sending', 'sent', 'dead'];
+const MAX_RETRY_IDS = 100;
+
+// GET - Outbox counts, the sending worker and a page of entries
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAdminApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    await connectToDatabase();
+
+    const url = new URL(req.url);
+    const requested = url.searchParams.get('status') as OutboxStatus | null;
+    const status = requested && STATUSES.includes(requested) ? requested : 'dead';
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get('limit') || '20')));
+
+    // Template data can hold reset links and consent tokens, so it isn't listed
+    const [entries, total, queue] = await Promise.all([
+      EmailOutbox.find({ status })
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .select('-data')
+        .lean(),
+      EmailOutbox.countDocuments({ status }),
+      getEmailQueueStatus(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        status,
+        entries,
+        queue,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load email outbox',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load email outbox' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/admin/email-outbox',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Requeue dead-lettered emails, by ID or all of them
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAdminApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const { ids, all } = await req.json();
+
+    const validIds = Array.isArray(ids)
+      && ids.length > 0
+      && ids.length <= MAX_RETRY_IDS
+      && ids.every(id => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id));
+
+    if (all !== true && !validIds) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Between 1 and ${MAX_RETRY_IDS} email IDs, or all: true, are required`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const requeued = await retryDeadEmails(all === true ? undefined : ids);
+
+    await SecurityLogger.logEvent(
+      'email_outbox_retried',
+      req,
+      {
+        requeued,
+        ...(all === true ? { all: true } : { ids }),
+      },
+      authResult.user.id,
+      'low'
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `${requeued} email${requeued === 1 ? '' : 's'} queued again`,
+      data: { requeued },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to retry dead-lettered emails',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to retry emails' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/admin/email-outbox',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
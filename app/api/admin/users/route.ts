@@ -5,7 +5,9 @@ import { connectDB } from '@/utils/db';
 import User from '@/models/User';
 import Story from '@/models/Story';
 import Comment from '@/models/Comment';
+import DataRequest from '@/models/DataRequest';
 import { sendEmail } from '@/lib/email';
+import { runErasure } from '@/lib/data-rights';
 
 export async function GET(request: NextRequest) {
   try {
@@ -40,31 +42,27 @@ export async function GET(request: NextRequest) {
     }
 
     if (permanent) {
-      // Permanent deletion - remove all user data
-      
-      // Delete user's stories
-      await Story.deleteMany({ author: userId });
-      
-      // Delete user's comments
-      await Comment.deleteMany({ author: userId });
-      
-      // Remove user from likes arrays
-      await Story.updateMany(
-        { likes: userId },
-        { $pull: { likes: userId } }
-      );
-      
-      // Delete the user
-      await User.findByIdAndDelete(userId);
-      
+      // Permanent deletion - cascade through every collection and keep a receipt
+      const erasureRequest = await DataRequest.create({
+        type: 'erasure',
+        userId,
+        requestedBy: session.user.id,
+        requesterRole: 'admin',
+      });
+
+      const result = await runErasure(erasureRequest);
+
+      if (result.status === 'failed') {
+        return NextResponse.json(
+          { error: 'Failed to delete all user data', requestId: result._id.toString() },
+          { status: 500 }
+        );
+      }
+
       return NextResponse.json({
         message: 'User permanently deleted',
-        deletedData: {
-          user: true,
-          stories: true,
-          comments: true,
-          likes: true
-        }
+        requestId: result._id.toString(),
+        receipt: result.receipt,
       });
       
     } else {
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuthApi } from '@/lib/auth';
+import { requireAuthApi, requireParentalConsentApi } from '@/lib/auth';
 import { aiAssessSchema } from '@/lib/validations';
 import { checkAIRateLimit } from '@/lib/rate-limit';
 import { SecurityLogger, ContentFilter } from '@/lib/security';
@@ -25,6 +25,16 @@ export async function POST(req: NextRequest) {
 
     const user = authResult.user;
 
+    // Under-13 accounts need a parent's approval before using AI features
+    const consentResult = await requireParentalConsentApi(user.id);
+    if ('error' in consentResult) {
+      statusCode = consentResult.status;
+      return NextResponse.json(
+        { success: false, message: consentResult.error, consentRequired: true },
+        { status: consentResult.status }
+      );
+    }
+
     // Check AI rate limits
     const aiLimitResult = await checkAIRateLimit(user.id);
     if (!aiLimitResult.allowed) {
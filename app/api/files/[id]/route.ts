@@ -1,11 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { downloadFile, getFileInfo, deleteFile } from '@/utils/gridfs';
+import { Readable } from 'stream';
+import { downloadFile, getFileInfo, deleteFile, parseRange, FileInfo } from '@/utils/gridfs';
+import { selectVariant } from '@/lib/image-processing';
 import { requireAuthApi } from '@/lib/auth';
 import { SecurityLogger } from '@/lib/security';
 import { logError, trackAPIPerformance } from '@/lib/monitoring';
 
 export const dynamic = 'force-dynamic';
 
+function baseHeaders(id: string, fileInfo: FileInfo): Record<string, string> {
+  return {
+    'Content-Type': fileInfo.contentType,
+    'Accept-Ranges': 'bytes',
+    'ETag': `"${fileInfo.hash}"`,
+    'Last-Modified': fileInfo.uploadDate.toUTCString(),
+    'Cache-Control': fileInfo.metadata.private ? 'private, no-store' : 'public, max-age=31536000', // 1 year
+    'X-File-Id': id,
+  };
+}
+
+// ?width= picks the closest resized variant of an uploaded image
+async function resolveVariant(
+  req: NextRequest,
+  id: string,
+  fileInfo: FileInfo
+): Promise<{ id: string; fileInfo: FileInfo }> {
+  const requestedWidth = parseInt(new URL(req.url).searchParams.get('width') || '', 10);
+  const variants: Array<{ width: number; fileId?: string }> = fileInfo.metadata.variants || [];
+
+  if (!(requestedWidth > 0) || variants.length === 0) {
+    return { id, fileInfo };
+  }
+
+  // The entry without a fileId is this file itself
+  const variant = selectVariant(variants, requestedWidth);
+  if (!variant?.fileId) {
+    return { id, fileInfo };
+  }
+
+  const variantInfo = await getFileInfo(variant.fileId);
+  return variantInfo ? { id: variant.fileId, fileInfo: variantInfo } : { id, fileInfo };
+}
+
+// Private files (such as data exports) are only served to their owner
+async function canReadFile(fileInfo: FileInfo): Promise<{ allowed: boolean; userId?: string }> {
+  const authResult = await requireAuthApi();
+  const user = 'error' in authResult ? null : authResult.user;
+
+  if (!fileInfo.metadata.private) {
+    return { allowed: true, userId: user?.id };
+  }
+
+  return {
+    allowed: !!user && (user.id === fileInfo.ownerId || user.role === 'admin'),
+    userId: user?.id,
+  };
+}
+
 // GET - Download file
 export async function GET(
   req: NextRequest,
@@ -27,48 +78,61 @@ export async function GET(
       );
     }
 
-    // Basic access control - files uploaded by users should be accessible
-    // In a more sophisticated system, you might check ownership or permissions here
-    
-    // Get file stream
-    const stream = await downloadFile(id);
-
-    // Log file access
-    try {
-      const authResult = await requireAuthApi();
-      if ('error' not in authResult) {
-        await SecurityLogger.logEvent(
-          'file_accessed',
-          req,
-          { 
-            fileId: id,
-            fileName: fileInfo.filename,
-            fileSize: fileInfo.size,
-            contentType: fileInfo.contentType,
-          },
-          authResult.user.id,
-          'info'
-        );
-      }
-    } catch (authError) {
-      // Continue with download even if auth logging fails
-      console.warn('Failed to log file access:', authError);
+    const access = await canReadFile(fileInfo);
+    if (!access.allowed) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'File not found' },
+        { status: 404 }
+      );
     }
 
-    // Create response with proper headers
-    const response = new Response(stream as any, {
+    const served = await resolveVariant(req, id, fileInfo);
+    const headers = baseHeaders(served.id, served.fileInfo);
+
+    if (req.headers.get('if-none-match') === headers['ETag']) {
+      statusCode = 304;
+      return new Response(null, { status: 304, headers });
+    }
+
+    const range = parseRange(req.headers.get('range'), served.fileInfo.size);
+    if (range === 'unsatisfiable') {
+      statusCode = 416;
+      return new Response(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${served.fileInfo.size}` },
+      });
+    }
+
+    const stream = await downloadFile(served.id, range || undefined);
+
+    if (access.userId) {
+      await SecurityLogger.logEvent(
+        'file_accessed',
+        req,
+        {
+          fileId: served.id,
+          fileName: served.fileInfo.filename,
+          fileSize: served.fileInfo.size,
+          contentType: served.fileInfo.contentType,
+          range: range ? `${range.start}-${range.end}` : undefined,
+        },
+        access.userId,
+        'low'
+      );
+    }
+
+    statusCode = range ? 206 : 200;
+    return new Response(Readable.toWeb(stream) as ReadableStream, {
+      status: statusCode,
       headers: {
-        'Content-Type': fileInfo.contentType,
-        'Content-Length': fileInfo.size.toString(),
-        'Cache-Control': 'public, max-age=31536000', // 1 year
-        'Content-Disposition': `inline; filename="${fileInfo.filename}"`,
-        'X-File-Id': id,
-        'Last-Modified': fileInfo.uploadDate.toUTCString(),
+        ...headers,
+        'Content-Length': (range ? range.end - range.start + 1 : served.fileInfo.size).toString(),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(served.fileInfo.filename)}"`,
+        ...(range && { 'Content-Range': `bytes ${range.start}-${range.end}/${served.fileInfo.size}` }),
       },
     });
 
-    return response;
-
   } catch (error) {
     statusCode = 500;
     
@@ -115,6 +179,7 @@ export async function DELETE(
     // Authenticate user
     const authResult = await requireAuthApi();
     if ('error' in authResult) {
+      statusCode = authResult.status;
       return NextResponse.json(
         { success: false, message: authResult.error },
         { status: authResult.status }
@@ -134,10 +199,8 @@ export async function DELETE(
       );
     }
 
-    // Check if user can delete this file
-    // Files have user ID prefix, so we can check ownership
-    const canDelete = user.role === 'admin' || 
-                     fileInfo.filename.startsWith(`${user.id}_`);
+    // Only the owner or an admin can delete a file
+    const canDelete = user.role === 'admin' || fileInfo.ownerId === user.id;
 
     if (!canDelete) {
       statusCode = 403;
@@ -173,7 +236,7 @@ export async function DELETE(
         fileSize: fileInfo.size,
       },
       user.id,
-      'info'
+      'low'
     );
 
     statusCode = 200;
@@ -237,16 +300,31 @@ export async function HEAD(
       return new Response(null, { status: 404 });
     }
 
-    // Return headers without body
-    statusCode = 200;
+    const access = await canReadFile(fileInfo);
+    if (!access.allowed) {
+      statusCode = 404;
+      return new Response(null, { status: 404 });
+    }
+
+    // Mirrors GET so clients can probe a variant or range before fetching it
+    const served = await resolveVariant(req, id, fileInfo);
+    const range = parseRange(req.headers.get('range'), served.fileInfo.size);
+    if (range === 'unsatisfiable') {
+      statusCode = 416;
+      return new Response(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${served.fileInfo.size}` },
+      });
+    }
+
+    statusCode = range ? 206 : 200;
     return new Response(null, {
-      status: 200,
+      status: statusCode,
       headers: {
-        'Content-Type': fileInfo.contentType,
-        'Content-Length': fileInfo.size.toString(),
-        'Last-Modified': fileInfo.uploadDate.toUTCString(),
-        'X-File-Id': id,
-        'X-File-Name': fileInfo.filename,
+        ...baseHeaders(served.id, served.fileInfo),
+        'Content-Length': (range ? range.end - range.start + 1 : served.fileInfo.size).toString(),
+        'X-File-Name': encodeURIComponent(served.fileInfo.filename),
+        ...(range && { 'Content-Range': `bytes ${range.start}-${range.end}/${served.fileInfo.size}` }),
       },
     });
 
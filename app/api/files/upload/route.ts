@@ -2,7 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuthApi } from '@/lib/auth';
 import { checkUserActionLimit } from '@/lib/rate-limit';
 import { SecurityLogger, FileSecurity, ContentFilter } from '@/lib/security';
-import { uploadFile } from '@/utils/gridfs';
+import { uploadFile, checkStorageQuota } from '@/utils/gridfs';
+import {
+  detectImageType,
+  isProcessableImage,
+  processImage,
+  storeImageVariants,
+  toWebPFilename,
+  ImagePurpose,
+  ImageVariant,
+  StoredImageVariant,
+} from '@/lib/image-processing';
 import { logError, trackAPIPerformance } from '@/lib/monitoring';
 
 export const dynamic = 'force-dynamic';
@@ -15,6 +25,7 @@ export async function POST(req: NextRequest) {
     // Authenticate user
     const authResult = await requireAuthApi();
     if ('error' in authResult) {
+      statusCode = authResult.status;
       return NextResponse.json(
         { success: false, message: authResult.error },
         { status: authResult.status }
@@ -45,6 +56,7 @@ export async function POST(req: NextRequest) {
     // Parse multipart form data
     const formData = await req.formData();
     const file = formData.get('file') as File;
+    const purpose: ImagePurpose = formData.get('purpose') === 'avatar' ? 'avatar' : 'illustration';
 
     if (!file) {
       statusCode = 400;
@@ -98,15 +110,69 @@ export async function POST(req: NextRequest) {
     const fileNameValidation = ContentFilter.validateFileName(file.name);
     const sanitizedFileName = fileNameValidation.sanitizedName;
 
-    // Add user prefix to prevent filename conflicts
-    const finalFileName = `${user.id}_${Date.now()}_${sanitizedFileName}`;
+    // Images are re-encoded to WebP at several widths. This also strips
+    // EXIF data such as GPS location, so the original is never kept. The
+    // content decides, not the declared type: a photo sent as text/plain
+    // would otherwise be stored with its location in it.
+    const detectedType = await detectImageType(buffer);
+    let imageVariants: ImageVariant[] | null = null;
+    if (detectedType || isProcessableImage(file.type)) {
+      try {
+        imageVariants = await processImage(buffer, purpose);
+      } catch {
+        statusCode = 400;
+        return NextResponse.json(
+          {
+            success: false,
+            message: 'File validation failed',
+            errors: { file: 'We could not read this image. Please try a different picture.' },
+          },
+          { status: 400 }
+        );
+      }
+    }
 
-    // Upload to GridFS
-    const fileId = await uploadFile(
-      buffer,
-      finalFileName,
-      file.type
-    );
+    const storedSize = imageVariants
+      ? imageVariants.reduce((total, variant) => total + variant.data.length, 0)
+      : buffer.length;
+
+    // Check the owner's storage allowance
+    const quota = await checkStorageQuota(user.id, storedSize);
+    if (!quota.allowed) {
+      statusCode = 413;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Storage limit reached',
+          errors: { file: 'You have used all of your storage space. Delete some files or upgrade your plan.' },
+          data: { used: quota.used, limit: quota.limit },
+        },
+        { status: 413 }
+      );
+    }
+
+    // Store the file (identical content is only stored once)
+    let fileId: string;
+    let variants: StoredImageVariant[] = [];
+
+    if (imageVariants) {
+      const stored = await storeImageVariants(imageVariants, sanitizedFileName, {
+        ownerId: user.id,
+        purpose,
+      });
+      fileId = stored.fileId;
+      variants = stored.variants;
+    } else {
+      fileId = await uploadFile(
+        buffer,
+        sanitizedFileName,
+        file.type,
+        { ownerId: user.id }
+      );
+    }
+
+    const storedFileName = imageVariants ? toWebPFilename(sanitizedFileName) : sanitizedFileName;
+    const storedType = imageVariants ? 'image/webp' : file.type;
 
     // Log successful upload
     await SecurityLogger.logEvent(
@@ -115,12 +181,15 @@ export async function POST(req: NextRequest) {
       { 
         fileId,
         originalName: file.name,
-        sanitizedName: finalFileName,
+        sanitizedName: storedFileName,
         fileSize: file.size,
         fileType: file.type,
+        detectedType,
+        storedSize,
+        variantWidths: variants.map(variant => variant.width),
       },
       user.id,
-      'info'
+      'low'
     );
 
     statusCode = 201;
@@ -131,11 +200,16 @@ export async function POST(req: NextRequest) {
         data: {
           fileId,
           originalName: file.name,
-          fileName: finalFileName,
-          size: file.size,
-          type: file.type,
+          fileName: storedFileName,
+          size: storedSize,
+          type: storedType,
           uploadedAt: new Date().toISOString(),
           downloadUrl: `/api/files/${fileId}`,
+          variants: variants.map(variant => ({
+            width: variant.width,
+            height: variant.height,
+            url: `/api/files/${fileId}?width=${variant.width}`,
+          })),
         },
       },
       { status: 201 }
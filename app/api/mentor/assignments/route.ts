@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import Assignment from '@/models/Assignment';
+import Classroom from '@/models/Classroom';
+import { requireMentorApi } from '@/lib/auth';
+import { countSubmissions, getSubmissionsByAssignment, sendDueReminders } from '@/lib/assignments';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Open assignments across the mentor's classes with submitted, late and
+// missing counts, soonest due first
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    await connectToDatabase();
+    await sendDueReminders();
+
+    const classrooms = await Classroom.find({ mentorId: user.id, isArchived: false })
+      .select('name')
+      .lean();
+    const classNames = new Map(classrooms.map(classroom => [classroom._id.toString(), classroom.name]));
+
+    const assignments = await Assignment.find({
+      classroomId: { $in: classrooms.map(classroom => classroom._id) },
+      status: 'active',
+    })
+      .sort({ dueDate: 1, createdAt: -1 })
+      .limit(50)
+      .lean();
+
+    const submissions = await getSubmissionsByAssignment(assignments);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        assignments: assignments.map(assignment => {
+          const students = submissions.get(assignment._id.toString()) || [];
+          return {
+            id: assignment._id.toString(),
+            classroomId: assignment.classroomId.toString(),
+            className: classNames.get(assignment.classroomId.toString()),
+            title: assignment.title,
+            dueDate: assignment.dueDate,
+            submissions: countSubmissions(students),
+            // Names the dashboard can chase up without opening the class
+            missing: students
+              .filter(student => student.status === 'missing')
+              .map(student => ({ userId: student.userId, name: student.name })),
+          };
+        }),
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load assignments',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load assignments' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/assignments',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import Assignment from '@/models/Assignment';
+import { requireMentorApi } from '@/lib/auth';
+import { updateClassAssignmentSchema } from '@/lib/validations';
+import { loadMentorClassroom } from '@/lib/classroom';
+import { countSubmissions, getSubmissionsByAssignment } from '@/lib/assignments';
+import { loadMentorRubric } from '@/lib/rubrics';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: { classId: string; assignmentId: string } };
+
+// GET - One assignment with every student's submission status
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(authResult.user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.assignmentId)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid assignment ID' },
+        { status: 400 }
+      );
+    }
+
+    const assignment = await Assignment.findOne({
+      _id: params.assignmentId,
+      classroomId: classResult.classroom._id,
+    }).lean();
+
+    if (!assignment) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Assignment not found' },
+        { status: 404 }
+      );
+    }
+
+    const submissions = (await getSubmissionsByAssignment([assignment])).get(assignment._id.toString()) || [];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        assignment: {
+          id: assignment._id.toString(),
+          title: assignment.title,
+          instructions: assignment.instructions,
+          elementConstraints: assignment.elementConstraints,
+          targetWordCount: assignment.targetWordCount,
+          stage: assignment.stage,
+          rubricId: assignment.rubricId?.toString(),
+          rubric: assignment.rubric,
+          dueDate: assignment.dueDate,
+          status: assignment.status,
+          submissions: countSubmissions(submissions),
+          createdAt: assignment.createdAt,
+        },
+        students: submissions,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load assignment',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load assignment' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/classes/[classId]/assignments/[assignmentId]',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// PATCH - Edit an assignment, move its due date, or close it
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(authResult.user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.assignmentId)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid assignment ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = updateClassAssignmentSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.') || 'general'] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { dueDate, ...changes } = validation.data;
+
+    if (changes.rubricId) {
+      const rubricResult = await loadMentorRubric(authResult.user, changes.rubricId);
+      if ('error' in rubricResult) {
+        statusCode = rubricResult.status;
+        return NextResponse.json(
+          { success: false, message: rubricResult.error },
+          { status: rubricResult.status }
+        );
+      }
+    }
+    const update: Record<string, unknown> = { $set: { ...changes } };
+
+    // A new due date gets its own reminder
+    if (dueDate) {
+      update.$set = { ...changes, dueDate: new Date(dueDate) };
+      update.$unset = { reminderSentAt: 1 };
+    }
+
+    const assignment = await Assignment.findOneAndUpdate(
+      { _id: params.assignmentId, classroomId: classResult.classroom._id },
+      update,
+      { new: true, runValidators: true }
+    ).lean();
+
+    if (!assignment) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Assignment not found' },
+        { status: 404 }
+      );
+    }
+
+    const submissions = (await getSubmissionsByAssignment([assignment])).get(assignment._id.toString()) || [];
+
+    statusCode = 200;
+    return NextResponse.json({
+      success: true,
+      message: 'Assignment updated',
+      data: {
+        assignment: {
+          id: assignment._id.toString(),
+          title: assignment.title,
+          instructions: assignment.instructions,
+          elementConstraints: assignment.elementConstraints,
+          targetWordCount: assignment.targetWordCount,
+          stage: assignment.stage,
+          rubricId: assignment.rubricId?.toString(),
+          rubric: assignment.rubric,
+          dueDate: assignment.dueDate,
+          status: assignment.status,
+          submissions: countSubmissions(submissions),
+          createdAt: assignment.createdAt,
+        },
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to update assignment',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to update assignment' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/classes/[classId]/assignments/[assignmentId]',
+      'PATCH',
+      responseTime,
+      statusCode
+    );
+  }
+}
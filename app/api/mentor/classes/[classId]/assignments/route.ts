@@ -0,0 +1,257 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Assignment from '@/models/Assignment';
+import Notification from '@/models/Notification';
+import { requireMentorApi } from '@/lib/auth';
+import { createClassAssignmentSchema } from '@/lib/validations';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { loadMentorClassroom } from '@/lib/classroom';
+import { countSubmissions, getSubmissionsByAssignment, sendDueReminders } from '@/lib/assignments';
+import { loadMentorRubric } from '@/lib/rubrics';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - The class's assignments, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { classId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(authResult.user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    await sendDueReminders();
+
+    const assignments = await Assignment.find({ classroomId: classResult.classroom._id })
+      .sort({ createdAt: -1 })
+      .lean();
+    const submissions = await getSubmissionsByAssignment(assignments);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        assignments: assignments.map(assignment => ({
+          id: assignment._id.toString(),
+          title: assignment.title,
+          instructions: assignment.instructions,
+          elementConstraints: assignment.elementConstraints,
+          targetWordCount: assignment.targetWordCount,
+          stage: assignment.stage,
+          rubricId: assignment.rubricId?.toString(),
+          rubric: assignment.rubric,
+          dueDate: assignment.dueDate,
+          status: assignment.status,
+          submissions: countSubmissions(submissions.get(assignment._id.toString()) || []),
+          createdAt: assignment.createdAt,
+        })),
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load assignments',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load assignments' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/classes/[classId]/assignments',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Set an assignment for the whole class and let every student know
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { classId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 201;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'assignment_create');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many assignments created. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    const { classroom } = classResult;
+
+    if (classroom.isArchived) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Archived classes cannot be given new assignments' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = createClassAssignmentSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { dueDate, ...fields } = validation.data;
+
+    if (fields.rubricId) {
+      const rubricResult = await loadMentorRubric(user, fields.rubricId);
+      if ('error' in rubricResult) {
+        statusCode = rubricResult.status;
+        return NextResponse.json(
+          { success: false, message: rubricResult.error },
+          { status: rubricResult.status }
+        );
+      }
+    }
+
+    const assignment = await Assignment.create({
+      ...fields,
+      ...(dueDate ? { dueDate: new Date(dueDate) } : {}),
+      classroomId: classroom._id,
+      mentorId: user.id,
+    });
+
+    if (classroom.students.length > 0) {
+      await Notification.insertMany(classroom.students.map(student => ({
+        userId: student.userId,
+        type: 'assignment_posted',
+        title: 'New writing assignment',
+        message: assignment.dueDate
+          ? `${classroom.mentorName} set "${assignment.title}" for ${classroom.name}, due ${assignment.dueDate.toLocaleDateString()}.`
+          : `${classroom.mentorName} set "${assignment.title}" for ${classroom.name}.`,
+        data: { classroomId: classroom._id.toString(), assignmentId: assignment._id.toString() },
+        actionUrl: `/create-stories?assignment=${assignment._id}`,
+        actionText: 'Start writing',
+        deliveryMethod: 'in_app',
+        priority: 'normal',
+        variant: 'info',
+      })));
+    }
+
+    statusCode = 201;
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Assignment posted',
+        data: {
+          assignment: {
+            id: assignment._id.toString(),
+            title: assignment.title,
+            instructions: assignment.instructions,
+            elementConstraints: assignment.elementConstraints,
+            targetWordCount: assignment.targetWordCount,
+            stage: assignment.stage,
+            rubricId: assignment.rubricId?.toString(),
+            rubric: assignment.rubric,
+            dueDate: assignment.dueDate,
+            status: assignment.status,
+            submissions: { ...countSubmissions([]), not_started: classroom.students.length },
+            createdAt: assignment.createdAt,
+          },
+        },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to create assignment',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to create assignment' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/classes/[classId]/assignments',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireMentorApi } from '@/lib/auth';
+import { rosterImportSchema } from '@/lib/validations';
+import { SecurityLogger } from '@/lib/security';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { enrollStudents, loadMentorClassroom, parseRosterCsv } from '@/lib/classroom';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Import a CSV roster. Rows that can't be read are reported back by
+// line number rather than failing the whole import.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { classId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'classroom_enroll');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many enrollment requests. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    const body = await req.json();
+    const validation = rosterImportSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseRosterCsv(validation.data.csv);
+    if (parsed.rows.length === 0) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'No student email addresses were found in the file',
+          data: { errors: parsed.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await enrollStudents(
+      classResult.classroom,
+      parsed.rows.map(row => row.email),
+      user.id,
+      'csv'
+    );
+    if ('error' in result) {
+      statusCode = result.status;
+      return NextResponse.json(
+        { success: false, message: result.error, data: { errors: parsed.errors } },
+        { status: result.status }
+      );
+    }
+
+    if (result.enrolled.length > 0) {
+      await SecurityLogger.logEvent(
+        'classroom_changed',
+        req,
+        { action: 'enrolled', classId: params.classId, method: 'csv', count: result.enrolled.length },
+        user.id,
+        'low'
+      );
+    }
+
+    statusCode = 200;
+    return NextResponse.json({
+      success: true,
+      message: `${result.enrolled.length} student${result.enrolled.length === 1 ? '' : 's'} enrolled`,
+      data: { ...result, errors: parsed.errors },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to import roster',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to import roster' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/mentor/classes/${params.classId}/roster`,
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,347 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import Classroom from '@/models/Classroom';
+import Assignment from '@/models/Assignment';
+import User from '@/models/User';
+import Story from '@/models/Story';
+import { requireMentorApi } from '@/lib/auth';
+import { updateClassroomSchema } from '@/lib/validations';
+import { SecurityLogger } from '@/lib/security';
+import { createUniqueJoinCode, loadMentorClassroom } from '@/lib/classroom';
+import { countSubmissions, getSubmissionsByAssignment } from '@/lib/assignments';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - A class with its roster and each student's progress
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { classId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(authResult.user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    const { classroom } = classResult;
+    const studentIds = classroom.students.map(student => student.userId);
+
+    await connectToDatabase();
+
+    const [accounts, storyCounts, assignments] = await Promise.all([
+      User.find({ _id: { $in: studentIds } })
+        .select('email age ageGroup avatar lastActiveAt stats')
+        .lean(),
+      Story.aggregate([
+        { $match: { authorId: { $in: studentIds } } },
+        {
+          $group: {
+            _id: '$authorId',
+            total: { $sum: 1 },
+            published: { $sum: { $cond: [{ $eq: ['$status', 'published'] }, 1, 0] } },
+            completed: { $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] } },
+            lastWrittenAt: { $max: '$updatedAt' },
+          },
+        },
+      ]),
+      Assignment.find({ classroomId: classroom._id }).sort({ createdAt: -1 }).lean(),
+    ]);
+
+    const submissions = await getSubmissionsByAssignment(assignments);
+    const accountById = new Map(accounts.map(account => [account._id.toString(), account]));
+    const storiesByStudent = new Map(
+      storyCounts.map((entry: { _id: unknown; total: number; published: number; completed: number; lastWrittenAt: Date }) =>
+        [String(entry._id), entry]
+      )
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        classroom: {
+          id: classroom._id.toString(),
+          name: classroom.name,
+          description: classroom.description,
+          gradeLevel: classroom.gradeLevel,
+          joinCode: classroom.joinCode,
+          joinCodeEnabled: classroom.joinCodeEnabled,
+          maxStudents: classroom.maxStudents,
+          isArchived: classroom.isArchived,
+          createdAt: classroom.createdAt,
+        },
+        students: classroom.students.map(student => {
+          const id = student.userId.toString();
+          const account = accountById.get(id);
+          const stories = storiesByStudent.get(id);
+
+          return {
+            id,
+            name: student.name,
+            email: account?.email,
+            ageGroup: account?.ageGroup,
+            avatar: account?.avatar,
+            enrolledAt: student.enrolledAt,
+            method: student.method,
+            lastActiveAt: account?.lastActiveAt,
+            progress: {
+              storiesWritten: stories?.total || 0,
+              storiesCompleted: stories?.completed || 0,
+              storiesPublished: stories?.published || 0,
+              lastWrittenAt: stories?.lastWrittenAt || null,
+              totalWordCount: account?.stats?.totalWordCount || 0,
+              currentWritingStreak: account?.stats?.currentWritingStreak || 0,
+              currentLevel: account?.stats?.currentLevel || 1,
+            },
+          };
+        }),
+        assignments: assignments.map(assignment => ({
+          id: assignment._id.toString(),
+          title: assignment.title,
+          instructions: assignment.instructions,
+          elementConstraints: assignment.elementConstraints,
+          targetWordCount: assignment.targetWordCount,
+          stage: assignment.stage,
+          rubricId: assignment.rubricId?.toString(),
+          rubric: assignment.rubric,
+          dueDate: assignment.dueDate,
+          status: assignment.status,
+          submissions: countSubmissions(submissions.get(assignment._id.toString()) || []),
+          createdAt: assignment.createdAt,
+        })),
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load class',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load class' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/mentor/classes/${params.classId}`,
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// PATCH - Rename, archive, or turn the join code off, on or over
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { classId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(authResult.user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    const body = await req.json();
+    const validation = updateClassroomSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.') || 'general'] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { regenerateJoinCode, ...changes } = validation.data;
+    const update: Record<string, unknown> = {};
+
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value !== undefined) {
+        update[key] = value;
+      }
+    });
+
+    // A leaked code stops working as soon as a new one is issued
+    if (regenerateJoinCode) {
+      update.joinCode = await createUniqueJoinCode();
+    }
+
+    const classroom = await Classroom.findByIdAndUpdate(
+      classResult.classroom._id,
+      { $set: update },
+      { new: true }
+    );
+
+    statusCode = 200;
+    return NextResponse.json({
+      success: true,
+      message: 'Class updated',
+      data: {
+        classroom: {
+          id: classroom!._id.toString(),
+          name: classroom!.name,
+          description: classroom!.description,
+          gradeLevel: classroom!.gradeLevel,
+          joinCode: classroom!.joinCode,
+          joinCodeEnabled: classroom!.joinCodeEnabled,
+          maxStudents: classroom!.maxStudents,
+          isArchived: classroom!.isArchived,
+          createdAt: classroom!.createdAt,
+        },
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to update class',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to update class' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/mentor/classes/${params.classId}`,
+      'PATCH',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// DELETE - Delete a class and its assignments. Students keep their stories.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { classId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const classResult = await loadMentorClassroom(user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    const { classroom } = classResult;
+
+    await Assignment.deleteMany({ classroomId: classroom._id });
+    await Classroom.deleteOne({ _id: classroom._id });
+
+    await SecurityLogger.logEvent(
+      'classroom_changed',
+      req,
+      { action: 'deleted', classId: params.classId, studentCount: classroom.students.length },
+      user.id,
+      'low'
+    );
+
+    statusCode = 200;
+    return NextResponse.json({ success: true, message: 'Class deleted' });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to delete class',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete class' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/mentor/classes/${params.classId}`,
+      'DELETE',
+      responseTime,
+      statusCode
+    );
+  }
+}
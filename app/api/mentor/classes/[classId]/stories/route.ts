@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Story from '@/models/Story';
+import { requireMentorApi } from '@/lib/auth';
+import { loadMentorClassroom } from '@/lib/classroom';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+const STORY_STATUSES = ['draft', 'in-progress', 'completed', 'published'];
+
+// GET - Stories written by the class (?status=, ?studentId=, ?page=, ?limit=)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { classId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(authResult.user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const status = searchParams.get('status');
+    const studentId = searchParams.get('studentId');
+
+    const rosterIds = classResult.classroom.students.map(student => student.userId.toString());
+
+    // Filtering by a student outside the roster would otherwise be a way
+    // around class-scoped access
+    if (studentId && !rosterIds.includes(studentId)) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Student is not in this class' },
+        { status: 404 }
+      );
+    }
+
+    const query: Record<string, unknown> = {
+      authorId: { $in: studentId ? [studentId] : rosterIds },
+      status: status && STORY_STATUSES.includes(status) ? status : { $ne: 'archived' },
+    };
+
+    const [stories, total] = await Promise.all([
+      Story.find(query)
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .select('title authorId authorName status stage wordCount targetWordCount createdAt updatedAt publishedAt aiAssessment.overallScore mentorAssessment.encouragement')
+        .lean(),
+      Story.countDocuments(query),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        stories: stories.map(story => ({
+          ...story,
+          id: story._id.toString(),
+          authorId: story.authorId.toString(),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load class stories',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load stories' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/classes/[classId]/stories',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
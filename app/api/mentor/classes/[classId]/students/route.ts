@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import Classroom from '@/models/Classroom';
+import { requireMentorApi } from '@/lib/auth';
+import { enrollStudentsSchema } from '@/lib/validations';
+import { SecurityLogger } from '@/lib/security';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { enrollStudents, loadMentorClassroom } from '@/lib/classroom';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Enroll a list of students by email
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { classId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'classroom_enroll');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many enrollment requests. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    const body = await req.json();
+    const validation = enrollStudentsSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await enrollStudents(classResult.classroom, validation.data.emails, user.id, 'bulk');
+    if ('error' in result) {
+      statusCode = result.status;
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: result.status }
+      );
+    }
+
+    if (result.enrolled.length > 0) {
+      await SecurityLogger.logEvent(
+        'classroom_changed',
+        req,
+        { action: 'enrolled', classId: params.classId, method: 'bulk', count: result.enrolled.length },
+        user.id,
+        'low'
+      );
+    }
+
+    statusCode = 200;
+    return NextResponse.json({
+      success: true,
+      message: `${result.enrolled.length} student${result.enrolled.length === 1 ? '' : 's'} enrolled`,
+      data: result,
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to enroll students',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to enroll students' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/mentor/classes/${params.classId}/students`,
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// DELETE - Remove a student from the roster (?userId=)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { classId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const studentId = new URL(req.url).searchParams.get('userId');
+
+    if (!studentId || !mongoose.Types.ObjectId.isValid(studentId)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid student ID' },
+        { status: 400 }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    const update = await Classroom.updateOne(
+      { _id: classResult.classroom._id },
+      { $pull: { students: { userId: studentId } } }
+    );
+
+    if (update.modifiedCount === 0) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Student is not in this class' },
+        { status: 404 }
+      );
+    }
+
+    await SecurityLogger.logEvent(
+      'classroom_changed',
+      req,
+      { action: 'removed', classId: params.classId, studentId },
+      user.id,
+      'low'
+    );
+
+    statusCode = 200;
+    return NextResponse.json({ success: true, message: 'Student removed from class' });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to remove student',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to remove student' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/mentor/classes/${params.classId}/students`,
+      'DELETE',
+      responseTime,
+      statusCode
+    );
+  }
+}
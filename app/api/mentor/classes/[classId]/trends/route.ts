@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireMentorApi } from '@/lib/auth';
+import { loadMentorClassroom } from '@/lib/classroom';
+import { getCriterionTrends } from '@/lib/rubrics';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Monthly average per rubric criterion for the class or one student
+// (?studentId=, ?source=ai|mentor, ?months= up to 24, default 6)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { classId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const classResult = await loadMentorClassroom(authResult.user, params.classId);
+    if ('error' in classResult) {
+      statusCode = classResult.status;
+      return NextResponse.json(
+        { success: false, message: classResult.error },
+        { status: classResult.status }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const studentId = searchParams.get('studentId');
+    const source = searchParams.get('source');
+    const months = Math.min(24, Math.max(1, parseInt(searchParams.get('months') || '6') || 6));
+
+    const rosterIds = classResult.classroom.students.map(student => student.userId.toString());
+
+    if (studentId && !rosterIds.includes(studentId)) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Student is not in this class' },
+        { status: 404 }
+      );
+    }
+
+    const since = new Date();
+    since.setMonth(since.getMonth() - months + 1, 1);
+    since.setHours(0, 0, 0, 0);
+
+    const trends = await getCriterionTrends(studentId ? [studentId] : rosterIds, {
+      ...(source === 'ai' || source === 'mentor' ? { source } : {}),
+      since,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { trends, since },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load rubric trends',
+      {
+        classId: params.classId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load trends' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/classes/[classId]/trends',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import Classroom from '@/models/Classroom';
+import Assignment from '@/models/Assignment';
+import { requireMentorApi } from '@/lib/auth';
+import { createClassroomSchema } from '@/lib/validations';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { createUniqueJoinCode } from '@/lib/classroom';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - The mentor's classes (?archived=true for archived ones)
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const archived = new URL(req.url).searchParams.get('archived') === 'true';
+
+    await connectToDatabase();
+
+    const classrooms = await Classroom.find({ mentorId: user.id, isArchived: archived })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    const classroomIds = classrooms.map(classroom => classroom._id);
+    const assignmentCounts = await Assignment.aggregate([
+      { $match: { classroomId: { $in: classroomIds }, status: 'active' } },
+      { $group: { _id: '$classroomId', count: { $sum: 1 } } },
+    ]);
+    const activeAssignments = new Map(
+      assignmentCounts.map((entry: { _id: unknown; count: number }) => [String(entry._id), entry.count])
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        classrooms: classrooms.map(classroom => ({
+          id: classroom._id.toString(),
+          name: classroom.name,
+          description: classroom.description,
+          gradeLevel: classroom.gradeLevel,
+          joinCode: classroom.joinCode,
+          joinCodeEnabled: classroom.joinCodeEnabled,
+          studentCount: classroom.students.length,
+          maxStudents: classroom.maxStudents,
+          activeAssignments: activeAssignments.get(classroom._id.toString()) || 0,
+          isArchived: classroom.isArchived,
+          createdAt: classroom.createdAt,
+        })),
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load classes',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load classes' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/classes',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Create a class with a fresh join code
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 201;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'classroom_create');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many classes created. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+
+    const validation = createClassroomSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const classroom = await Classroom.create({
+      ...validation.data,
+      mentorId: user.id,
+      mentorName: user.name || 'Your teacher',
+      joinCode: await createUniqueJoinCode(),
+    });
+
+    statusCode = 201;
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Class created',
+        data: {
+          classroom: {
+            id: classroom._id.toString(),
+            name: classroom.name,
+            description: classroom.description,
+            gradeLevel: classroom.gradeLevel,
+            joinCode: classroom.joinCode,
+            joinCodeEnabled: classroom.joinCodeEnabled,
+            studentCount: 0,
+            maxStudents: classroom.maxStudents,
+            activeAssignments: 0,
+            isArchived: false,
+            createdAt: classroom.createdAt,
+          },
+        },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to create class',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to create class' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/classes',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
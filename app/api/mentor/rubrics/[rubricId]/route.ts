@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Rubric from '@/models/Rubric';
+import RubricScore from '@/models/RubricScore';
+import Assignment from '@/models/Assignment';
+import { requireMentorApi } from '@/lib/auth';
+import { updateRubricSchema } from '@/lib/validations';
+import { loadMentorRubric } from '@/lib/rubrics';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: { rubricId: string } };
+
+// PATCH - Edit a rubric, or archive and restore it. Scores already recorded
+// keep the criterion names they were given.
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const rubricResult = await loadMentorRubric(authResult.user, params.rubricId);
+    if ('error' in rubricResult) {
+      statusCode = rubricResult.status;
+      return NextResponse.json(
+        { success: false, message: rubricResult.error },
+        { status: rubricResult.status }
+      );
+    }
+
+    const body = await req.json();
+    const validation = updateRubricSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.') || 'general'] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const rubric = await Rubric.findByIdAndUpdate(
+      rubricResult.rubric._id,
+      { $set: validation.data },
+      { new: true, runValidators: true }
+    ).lean();
+
+    if (!rubric) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Rubric not found' },
+        { status: 404 }
+      );
+    }
+
+    statusCode = 200;
+    return NextResponse.json({
+      success: true,
+      message: 'Rubric updated',
+      data: {
+        rubric: {
+          id: rubric._id.toString(),
+          name: rubric.name,
+          description: rubric.description,
+          criteria: rubric.criteria,
+          isArchived: rubric.isArchived,
+          updatedAt: rubric.updatedAt,
+        },
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to update rubric',
+      {
+        rubricId: params.rubricId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to update rubric' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/rubrics/[rubricId]',
+      'PATCH',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// DELETE - Remove an unused rubric. Rubrics that assignments or recorded
+// scores point at are archived instead so their history stays readable.
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const rubricResult = await loadMentorRubric(authResult.user, params.rubricId);
+    if ('error' in rubricResult) {
+      statusCode = rubricResult.status;
+      return NextResponse.json(
+        { success: false, message: rubricResult.error },
+        { status: rubricResult.status }
+      );
+    }
+
+    const { rubric } = rubricResult;
+
+    const [usedByAssignment, usedByScores] = await Promise.all([
+      Assignment.exists({ rubricId: rubric._id }),
+      RubricScore.exists({ rubricId: rubric._id }),
+    ]);
+
+    if (usedByAssignment || usedByScores) {
+      rubric.isArchived = true;
+      await rubric.save();
+
+      statusCode = 200;
+      return NextResponse.json({
+        success: true,
+        message: 'Rubric archived because it has been used for marking',
+        data: { archived: true },
+      });
+    }
+
+    await Rubric.deleteOne({ _id: rubric._id });
+
+    statusCode = 200;
+    return NextResponse.json({
+      success: true,
+      message: 'Rubric deleted',
+      data: { archived: false },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to delete rubric',
+      {
+        rubricId: params.rubricId,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete rubric' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/rubrics/[rubricId]',
+      'DELETE',
+      responseTime,
+      statusCode
+    );
+  }
+}
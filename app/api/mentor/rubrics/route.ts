@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import Rubric from '@/models/Rubric';
+import { requireMentorApi } from '@/lib/auth';
+import { createRubricSchema } from '@/lib/validations';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { DEFAULT_LEVELS } from '@/lib/rubrics';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - The mentor's rubrics (?archived=true for archived ones), plus the
+// default scale new criteria start from
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const archived = new URL(req.url).searchParams.get('archived') === 'true';
+
+    await connectToDatabase();
+
+    const rubrics = await Rubric.find({ mentorId: user.id, isArchived: archived })
+      .sort({ updatedAt: -1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rubrics: rubrics.map(rubric => ({
+          id: rubric._id.toString(),
+          name: rubric.name,
+          description: rubric.description,
+          criteria: rubric.criteria,
+          isArchived: rubric.isArchived,
+          updatedAt: rubric.updatedAt,
+        })),
+        defaultLevels: DEFAULT_LEVELS,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load rubrics',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load rubrics' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/rubrics',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Create a rubric
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 201;
+
+  try {
+    const authResult = await requireMentorApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'rubric_create');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many rubrics created. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+
+    const validation = createRubricSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const rubric = await Rubric.create({
+      ...validation.data,
+      mentorId: user.id,
+    });
+
+    statusCode = 201;
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Rubric created',
+        data: {
+          rubric: {
+            id: rubric._id.toString(),
+            name: rubric.name,
+            description: rubric.description,
+            criteria: rubric.criteria,
+            isArchived: false,
+            updatedAt: rubric.updatedAt,
+          },
+        },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to create rubric',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to create rubric' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/mentor/rubrics',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuthApi } from '@/lib/auth';
+import { connectToDatabase } from '@/utils/db';
+import PushSubscription from '@/models/PushSubscription';
+import { pushSubscriptionSchema } from '@/lib/validations';
+import { isWebPushConfigured } from '@/lib/web-push';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// Enough for every device a family might use
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+// POST - Subscribe this browser to Web Push
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 201;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    if (!isWebPushConfigured()) {
+      statusCode = 503;
+      return NextResponse.json(
+        { success: false, message: 'Browser notifications are not available' },
+        { status: 503 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = pushSubscriptionSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid push subscription',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.') || 'general'] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { user } = authResult;
+    const { endpoint, keys } = validation.data;
+
+    await connectToDatabase();
+
+    const existing = await PushSubscription.countDocuments({ userId: user.id, endpoint: { $ne: endpoint } });
+    if (existing >= MAX_SUBSCRIPTIONS_PER_USER) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Too many browsers subscribed. Turn notifications off on one first.' },
+        { status: 400 }
+      );
+    }
+
+    // A browser that changes hands belongs to whoever subscribed it last
+    await PushSubscription.findOneAndUpdate(
+      { endpoint },
+      {
+        $set: {
+          userId: user.id,
+          keys,
+          userAgent: req.headers.get('user-agent')?.slice(0, 300),
+          failureCount: 0,
+        },
+      },
+      { upsert: true }
+    );
+
+    return NextResponse.json(
+      { success: true, message: 'Browser notifications turned on' },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to save push subscription',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to turn on browser notifications' },
+      { status: 500 }
+    );
+  } finally {
+    trackAPIPerformance(req.url, req.method, performance.now() - startTime, statusCode);
+  }
+}
+
+// DELETE - Unsubscribe a browser, given its endpoint
+export async function DELETE(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const { endpoint } = await req.json();
+    if (typeof endpoint !== 'string') {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Endpoint is required' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+    await PushSubscription.deleteOne({ endpoint, userId: authResult.user.id });
+
+    return NextResponse.json({ success: true, message: 'Browser notifications turned off' });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to remove push subscription',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to turn off browser notifications' },
+      { status: 500 }
+    );
+  } finally {
+    trackAPIPerformance(req.url, req.method, performance.now() - startTime, statusCode);
+  }
+}
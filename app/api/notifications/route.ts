@@ -5,6 +5,7 @@ import { requireAuthApi } from '@/lib/auth';
 import { checkUserActionLimit } from '@/lib/rate-limit';
 import { SecurityLogger } from '@/lib/security';
 import { trackAPICall, logError } from '@/lib/monitoring';
+import { collapseByGroup } from '@/lib/notification-digests';
 
 export const dynamic = 'force-dynamic';
 
@@ -46,8 +47,8 @@ export async function GET(req: NextRequest) {
     const unreadOnly = url.searchParams.get('unreadOnly') === 'true';
     const type = url.searchParams.get('type');
 
-    // Build query
-    const query: any = { userId: user.id };
+    // Build query. Notifications already sent in a digest are shown by it.
+    const query: any = { userId: user.id, 'digest.status': { $ne: 'sent' } };
     
     if (unreadOnly) {
       query.read = false;
@@ -98,15 +99,18 @@ export async function GET(req: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      notifications: notifications.map(notification => ({
-        id: notification._id.toString(),
-        type: notification.type,
-        title: notification.title,
-        message: notification.message,
-        read: notification.read,
-        actionUrl: notification.actionUrl,
-        metadata: notification.metadata,
-        timestamp: notification.createdAt,
+      // Updates about the same thing on this page collapse into one entry
+      notifications: collapseByGroup(notifications).map(({ latest, grouped }) => ({
+        id: latest._id.toString(),
+        type: latest.type,
+        title: latest.title,
+        message: latest.message,
+        read: grouped.every(notification => notification.read),
+        actionUrl: latest.actionUrl,
+        metadata: latest.metadata,
+        timestamp: latest.createdAt,
+        count: grouped.length,
+        groupedIds: grouped.map(notification => notification._id.toString()),
       })),
       pagination: {
         currentPage: page,
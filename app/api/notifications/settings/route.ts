@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuthApi } from '@/lib/auth';
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import PushSubscription from '@/models/PushSubscription';
+import { notificationSettingsSchema } from '@/lib/validations';
+import { getVapidPublicKey } from '@/lib/web-push';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+async function loadSettings(userId: string) {
+  const [user, browsers] = await Promise.all([
+    User.findById(userId).select('preferences.emailNotifications preferences.quietHours preferences.digests').lean(),
+    PushSubscription.countDocuments({ userId }),
+  ]);
+
+  return {
+    emailNotifications: user?.preferences?.emailNotifications,
+    quietHours: user?.preferences?.quietHours,
+    digests: user?.preferences?.digests,
+    push: {
+      publicKey: getVapidPublicKey(), // null when Web Push isn't configured
+      browsers,
+    },
+  };
+}
+
+// GET - Which emails the user gets, their quiet hours, digests, and Web Push set-up
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    await connectToDatabase();
+
+    return NextResponse.json({
+      success: true,
+      data: await loadSettings(authResult.user.id),
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load notification settings',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load notification settings' },
+      { status: 500 }
+    );
+  } finally {
+    trackAPIPerformance(req.url, req.method, performance.now() - startTime, statusCode);
+  }
+}
+
+// PUT - Update email choices, quiet hours and digest frequencies
+export async function PUT(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const body = await req.json();
+    const validation = notificationSettingsSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid notification settings',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.') || 'general'] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { emailNotifications, quietHours, digests } = validation.data;
+    const update: Record<string, unknown> = {};
+    Object.entries(emailNotifications || {}).forEach(([key, value]) => {
+      update[`preferences.emailNotifications.${key}`] = value;
+    });
+    Object.entries(digests || {}).forEach(([category, frequency]) => {
+      update[`preferences.digests.${category}`] = frequency;
+    });
+    if (quietHours) {
+      update['preferences.quietHours'] = quietHours;
+    }
+
+    await connectToDatabase();
+    await User.updateOne({ _id: authResult.user.id }, { $set: update }, { runValidators: true });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Notification settings saved',
+      data: await loadSettings(authResult.user.id),
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to save notification settings',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to save notification settings' },
+      { status: 500 }
+    );
+  } finally {
+    trackAPIPerformance(req.url, req.method, performance.now() - startTime, statusCode);
+  }
+}
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import { requireParentApi, requireLinkedChildApi } from '@/lib/auth';
+import { updateChildSettingsSchema } from '@/lib/validations';
+import { SecurityLogger } from '@/lib/security';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// PATCH - Change a linked child's privacy settings and AI assistance level
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireParentApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const linkResult = await requireLinkedChildApi(user.id, params.childId);
+    if ('error' in linkResult) {
+      statusCode = linkResult.status;
+      if (linkResult.status === 403) {
+        await SecurityLogger.logEvent(
+          'permission_denied',
+          req,
+          { reason: 'Parent settings change for unlinked child', childId: params.childId },
+          user.id,
+          'medium'
+        );
+      }
+      return NextResponse.json(
+        { success: false, message: linkResult.error },
+        { status: linkResult.status }
+      );
+    }
+
+    const body = await req.json();
+    const validation = updateChildSettingsSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.') || 'general'] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { privacySettings, aiAssistanceLevel } = validation.data;
+    const update: Record<string, unknown> = {};
+
+    Object.entries(privacySettings || {}).forEach(([key, value]) => {
+      if (value !== undefined) {
+        update[`preferences.privacySettings.${key}`] = value;
+      }
+    });
+
+    if (aiAssistanceLevel) {
+      update['preferences.writingSettings.aiAssistanceLevel'] = aiAssistanceLevel;
+    }
+
+    await connectToDatabase();
+
+    const child = await User.findByIdAndUpdate(
+      linkResult.child._id,
+      { $set: update },
+      { new: true, runValidators: true }
+    ).select('preferences.privacySettings preferences.writingSettings.aiAssistanceLevel');
+
+    return NextResponse.json({
+      success: true,
+      message: 'Settings updated',
+      data: {
+        privacySettings: child?.preferences.privacySettings,
+        aiAssistanceLevel: child?.preferences.writingSettings.aiAssistanceLevel,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to update child settings',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to update settings' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/parent/children/[childId]',
+      'PATCH',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// DELETE - Unlink a child from this parent account
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireParentApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const linkResult = await requireLinkedChildApi(authResult.user.id, params.childId);
+    if ('error' in linkResult) {
+      statusCode = linkResult.status;
+      return NextResponse.json(
+        { success: false, message: linkResult.error },
+        { status: linkResult.status }
+      );
+    }
+
+    await User.updateOne(
+      { _id: authResult.user.id },
+      { $pull: { linkedChildren: linkResult.child._id } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `${linkResult.child.name} has been unlinked`,
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to unlink child account',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to unlink child account' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/parent/children/[childId]',
+      'DELETE',
+      responseTime,
+      statusCode
+    );
+  }
+}
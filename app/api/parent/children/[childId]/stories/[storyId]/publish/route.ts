@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import Story from '@/models/Story';
+import { requireParentApi, requireLinkedChildApi } from '@/lib/auth';
+import { publishDecisionSchema } from '@/lib/validations';
+import { SecurityLogger } from '@/lib/security';
+import { decidePublicApproval } from '@/lib/parent-oversight';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Approve or decline showing a published story publicly
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { childId: string; storyId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireParentApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const linkResult = await requireLinkedChildApi(user.id, params.childId);
+    if ('error' in linkResult) {
+      statusCode = linkResult.status;
+      if (linkResult.status === 403) {
+        await SecurityLogger.logEvent(
+          'permission_denied',
+          req,
+          { reason: 'Publish decision for unlinked child', childId: params.childId, storyId: params.storyId },
+          user.id,
+          'medium'
+        );
+      }
+      return NextResponse.json(
+        { success: false, message: linkResult.error },
+        { status: linkResult.status }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.storyId)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = publishDecisionSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const story = await Story.findOne({ _id: params.storyId, authorId: linkResult.child._id });
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    const { approve, note } = validation.data;
+    const result = await decidePublicApproval(story, user.id, approve, note);
+
+    if ('error' in result) {
+      statusCode = result.status;
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: approve ? 'Story is now public' : 'Story will stay private',
+      data: {
+        isPublic: result.story.isPublic,
+        publicApproval: result.story.publicApproval,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to record publish decision',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to record your decision' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/parent/children/[childId]/stories/[storyId]/publish',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
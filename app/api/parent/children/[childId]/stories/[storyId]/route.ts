@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import Story from '@/models/Story';
+import Comment from '@/models/Comment';
+import { requireParentApi, requireLinkedChildApi } from '@/lib/auth';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - One of a linked child's stories with AI and mentor feedback (read-only)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { childId: string; storyId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireParentApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const linkResult = await requireLinkedChildApi(authResult.user.id, params.childId);
+    if ('error' in linkResult) {
+      statusCode = linkResult.status;
+      return NextResponse.json(
+        { success: false, message: linkResult.error },
+        { status: linkResult.status }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.storyId)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    const story = await Story.findOne({ _id: params.storyId, authorId: linkResult.child._id })
+      .select('-aiSessions -exportHistory')
+      .lean();
+
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    const comments = await Comment.find({ storyId: story._id, isHidden: false })
+      .sort({ createdAt: 1 })
+      .select('commenterName commenterRole content highlightedText commentType category isResolved childResponse createdAt')
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        story: { ...story, id: story._id.toString() },
+        comments,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load child story',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load story' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/parent/children/[childId]/stories/[storyId]',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
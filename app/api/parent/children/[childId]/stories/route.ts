@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Story from '@/models/Story';
+import Comment from '@/models/Comment';
+import { requireParentApi, requireLinkedChildApi } from '@/lib/auth';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - A linked child's stories with scores and feedback counts (read-only)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { childId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireParentApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const linkResult = await requireLinkedChildApi(authResult.user.id, params.childId);
+    if ('error' in linkResult) {
+      statusCode = linkResult.status;
+      return NextResponse.json(
+        { success: false, message: linkResult.error },
+        { status: linkResult.status }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+
+    const query = { authorId: linkResult.child._id, status: { $ne: 'archived' } };
+
+    const [stories, total] = await Promise.all([
+      Story.find(query)
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .select('title status wordCount createdAt updatedAt publishedAt isPublic publicApproval aiAssessment.overallScore aiAssessment.grammarScore aiAssessment.creativityScore mentorAssessment.encouragement')
+        .lean(),
+      Story.countDocuments(query),
+    ]);
+
+    const commentCounts = await Comment.aggregate([
+      { $match: { storyId: { $in: stories.map(story => story._id) }, isHidden: false } },
+      { $group: { _id: '$storyId', count: { $sum: 1 } } },
+    ]);
+
+    const commentsByStory = new Map(
+      commentCounts.map((entry: { _id: unknown; count: number }) => [String(entry._id), entry.count])
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        stories: stories.map(story => ({
+          ...story,
+          id: story._id.toString(),
+          commentCount: commentsByStory.get(story._id.toString()) || 0,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load child stories',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load stories' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/parent/children/[childId]/stories',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
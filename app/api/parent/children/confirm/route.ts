@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireParentApi } from '@/lib/auth';
+import { confirmChildLinkSchema } from '@/lib/validations';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import { confirmChildLink } from '@/lib/parent-oversight';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Finish linking a child with the token emailed to their parent address
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireParentApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'link_child');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many attempts. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = confirmChildLinkSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await confirmChildLink(user.id, validation.data.token);
+    if ('error' in result) {
+      statusCode = result.status;
+      await SecurityLogger.logEvent(
+        'permission_denied',
+        req,
+        { reason: 'Child link confirmation refused', detail: result.error },
+        user.id,
+        'low'
+      );
+
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${result.childName} is now linked to your account`,
+      data: {
+        childId: result.childId,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to confirm child account link',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to link child account' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/parent/children/confirm',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import Story from '@/models/Story';
+import { requireParentApi } from '@/lib/auth';
+import { linkChildSchema } from '@/lib/validations';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import { canLinkChild, requestChildLink } from '@/lib/parent-oversight';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Linked children with a summary of their writing
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireParentApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    await connectToDatabase();
+
+    const parent = await User.findById(authResult.user.id).select('linkedChildren').lean();
+    const childIds = parent?.linkedChildren || [];
+
+    const [children, pendingApprovals] = await Promise.all([
+      User.find({ _id: { $in: childIds }, role: 'child' })
+        .select('name age ageGroup avatar accountStatus parentConsentStatus stats lastActiveAt preferences.privacySettings preferences.writingSettings.aiAssistanceLevel')
+        .lean(),
+      Story.aggregate([
+        { $match: { authorId: { $in: childIds }, 'publicApproval.status': 'pending' } },
+        { $group: { _id: '$authorId', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const pendingByChild = new Map(
+      pendingApprovals.map((entry: { _id: unknown; count: number }) => [String(entry._id), entry.count])
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        children: children.map(child => ({
+          id: child._id.toString(),
+          name: child.name,
+          age: child.age,
+          ageGroup: child.ageGroup,
+          avatar: child.avatar,
+          accountStatus: child.accountStatus,
+          parentConsentStatus: child.parentConsentStatus,
+          lastActiveAt: child.lastActiveAt,
+          stats: {
+            storiesCreated: child.stats?.storiesCreated || 0,
+            storiesPublished: child.stats?.storiesPublished || 0,
+            totalWordCount: child.stats?.totalWordCount || 0,
+            currentWritingStreak: child.stats?.currentWritingStreak || 0,
+            currentLevel: child.stats?.currentLevel || 1,
+          },
+          privacySettings: child.preferences?.privacySettings,
+          aiAssistanceLevel: child.preferences?.writingSettings?.aiAssistanceLevel,
+          pendingApprovals: pendingByChild.get(child._id.toString()) || 0,
+        })),
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load linked children',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load children' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/parent/children',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Email a confirmation link to the parent address a child account lists
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireParentApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'link_child');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many attempts. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = linkChildSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const child = await User.findOne({ email: validation.data.childEmail })
+      .select('name role parentEmail');
+
+    // Same answer whether the account is missing or belongs to another family
+    if (!child || !canLinkChild(user.email, child)) {
+      statusCode = 404;
+      await SecurityLogger.logEvent(
+        'permission_denied',
+        req,
+        { reason: 'Child link attempt without matching parent email', childEmail: validation.data.childEmail },
+        user.id,
+        'low'
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'We could not find a child account that lists your email as the parent email',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Linking waits for the parent to follow the link, which proves they
+    // read the mailbox their account only claims
+    const sent = await requestChildLink({ id: user.id, name: user.name || 'there' }, child);
+    if (!sent) {
+      statusCode = 502;
+      return NextResponse.json(
+        { success: false, message: 'We could not send the confirmation email. Please try again.' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `We emailed you a link to confirm. ${child.name} is linked once you open it.`,
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to link child account',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to link child account' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/parent/children',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuthApi } from '@/lib/auth';
+import { SecurityLogger } from '@/lib/security';
+import {
+  MAX_CHANNELS_PER_CONNECTION,
+  canSubscribe,
+  channelName,
+  parseLastEventId,
+  sseManager,
+} from '@/lib/sse';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET - Event stream for a set of channels (?channels=story-<id>,user-<id>).
+// Reconnecting clients send Last-Event-ID (or ?lastEventId=) to replay what
+// they missed.
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { searchParams } = new URL(req.url);
+
+    const requested = (searchParams.get('channels') || channelName('user', user.id))
+      .split(',')
+      .map(channel => channel.trim())
+      .filter(Boolean);
+    const channels = Array.from(new Set(requested));
+
+    if (channels.length === 0 || channels.length > MAX_CHANNELS_PER_CONNECTION) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: `Subscribe to between 1 and ${MAX_CHANNELS_PER_CONNECTION} channels` },
+        { status: 400 }
+      );
+    }
+
+    for (const channel of channels) {
+      if (!(await canSubscribe(user, channel))) {
+        statusCode = 403;
+        await SecurityLogger.logEvent(
+          'permission_denied',
+          req,
+          { reason: 'Real-time channel subscription denied', channel },
+          user.id,
+          'medium'
+        );
+
+        return NextResponse.json(
+          { success: false, message: `Access denied to ${channel}` },
+          { status: 403 }
+        );
+      }
+    }
+
+    const lastEventId = parseLastEventId(
+      req.headers.get('last-event-id') || searchParams.get('lastEventId')
+    );
+
+    const stream = sseManager.openStream(user.id, channels, lastEventId, req.signal);
+
+    statusCode = 200;
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to open real-time stream',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to open real-time stream' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance('/api/realtime/stream', 'GET', responseTime, statusCode);
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/utils/authOptions';
+import { notifyMentorTyping } from '@/lib/pusher';
 
 // In-memory store for typing indicators
 // In production, you'd use Redis or another shared store
@@ -179,6 +180,11 @@ export async function POST(request: NextRequest) {
       typingUsers.delete(storyId);
     }
 
+    // Mentors' typing also goes out on the story channel, over Pusher or SSE
+    if (session.user.role === 'mentor') {
+      await notifyMentorTyping(storyId, session.user.id, session.user.name || 'Your mentor', !!isTyping);
+    }
+
     // Get current typing users (excluding the current user)
     const currentTypers = Array.from(storyTypers.values())
       .filter(user => user.userId !== session.user.id);
@@ -0,0 +1,326 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Story from '@/models/Story';
+import Notification from '@/models/Notification';
+import { requireAuthApi, validateStoryAccess } from '@/lib/auth';
+import { rubricScoresSchema } from '@/lib/validations';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import {
+  loadMentorRubric,
+  parseRubricScores,
+  recordRubricAssessment,
+  resolveStoryRubric,
+  toResolvedRubric,
+} from '@/lib/rubrics';
+import { reviewStage } from '@/lib/progression';
+import { publishDomainEvent } from '@/lib/domain-events';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - The rubric a story is marked against and its latest AI and mentor
+// scores. Mentors can pass ?rubricId= to mark against another of their rubrics.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { id } = params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const story = await Story.findById(id).select('authorId assignmentId rubricAssessments').lean();
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!await validateStoryAccess(story.authorId.toString())) {
+      statusCode = 403;
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const rubricId = new URL(req.url).searchParams.get('rubricId');
+    let rubric = await resolveStoryRubric(story);
+
+    if (rubricId) {
+      const rubricResult = await loadMentorRubric(user, rubricId);
+      if ('error' in rubricResult) {
+        statusCode = rubricResult.status;
+        return NextResponse.json(
+          { success: false, message: rubricResult.error },
+          { status: rubricResult.status }
+        );
+      }
+      rubric = toResolvedRubric(rubricResult.rubric);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rubric,
+        assessments: story.rubricAssessments || [],
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load story assessment',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load assessment' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/stories/[id]/assessment',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - A mentor scores the story against the rubric, one level per
+// criterion, replacing their previous scoring
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { id } = params;
+
+    if (user.role !== 'mentor' && user.role !== 'admin') {
+      statusCode = 403;
+      return NextResponse.json(
+        { success: false, message: 'Only mentors can assess stories' },
+        { status: 403 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'story_assess');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many assessments. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = rubricScoresSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const story = await Story.findById(id);
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!await validateStoryAccess(story.authorId.toString())) {
+      statusCode = 403;
+      await SecurityLogger.logEvent(
+        'permission_denied',
+        req,
+        { reason: 'Assessment of a story outside the mentor\'s students', storyId: id },
+        user.id,
+        'medium'
+      );
+
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const { rubricId, scores: rawScores, encouragement, nextSteps } = validation.data;
+
+    let rubric = await resolveStoryRubric(story);
+    if (rubricId) {
+      const rubricResult = await loadMentorRubric(user, rubricId);
+      if ('error' in rubricResult) {
+        statusCode = rubricResult.status;
+        return NextResponse.json(
+          { success: false, message: rubricResult.error },
+          { status: rubricResult.status }
+        );
+      }
+      rubric = toResolvedRubric(rubricResult.rubric);
+    }
+
+    const scores = parseRubricScores(rawScores, rubric);
+
+    const scored = new Set(scores.map(score => score.criterion));
+    const missing = rubric.criteria.filter(criterion => !scored.has(criterion.name));
+    if (missing.length > 0) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Choose a level for: ${missing.map(criterion => criterion.name).join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const assessment = await recordRubricAssessment(story, rubric, scores, 'mentor', user);
+
+    // The written feedback still lives on mentorAssessment where parents see it
+    await Story.updateOne(
+      { _id: story._id },
+      {
+        $set: {
+          'mentorAssessment.mentorId': user.id,
+          'mentorAssessment.mentorName': user.name,
+          'mentorAssessment.assessmentDate': assessment.assessedAt,
+          ...(encouragement !== undefined ? { 'mentorAssessment.encouragement': encouragement } : {}),
+          ...(nextSteps !== undefined ? { 'mentorAssessment.nextStepsRecommendation': nextSteps } : {}),
+        },
+      }
+    );
+
+    await Notification.create({
+      userId: story.authorId,
+      type: 'story_assessed',
+      title: 'Your story has been marked',
+      message: `${user.name || 'Your mentor'} marked "${story.title}" against ${assessment.rubricName}.`,
+      data: { storyId: id },
+      actionUrl: `/story/${id}`,
+      actionText: 'See feedback',
+      deliveryMethod: 'in_app',
+      priority: 'normal',
+      variant: 'success',
+    });
+
+    // A mentor's marking can be what moves a published story's writer up
+    if (story.status === 'published') {
+      await reviewStage(story.authorId.toString(), { storyId: id });
+    }
+
+    await publishDomainEvent({
+      type: 'assessment_saved',
+      userId: story.authorId.toString(),
+      storyId: id,
+      source: 'mentor',
+    });
+
+    statusCode = 200;
+    return NextResponse.json({
+      success: true,
+      message: 'Assessment saved',
+      data: { assessment },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to save story assessment',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to save assessment' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/stories/[id]/assessment',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
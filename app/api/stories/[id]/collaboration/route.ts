@@ -0,0 +1,420 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Story, { IStory } from '@/models/Story';
+import { collaborationUpdateSchema } from '@/lib/validations';
+import { requireAuthApi } from '@/lib/auth';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import {
+  CollaborationPermissions,
+  applySessionEdits,
+  getSessionUpdates,
+  joinSession,
+  leaveSession,
+  resolveCollaborationAccess,
+  updateCursor,
+} from '@/lib/collaboration';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+type SessionUser = { id: string; name?: string | null; role: string };
+
+// Load the story and check the user may take part in writing it
+async function loadStoryForSession(
+  req: NextRequest,
+  id: string,
+  user: SessionUser
+): Promise<{ story: IStory; permissions: CollaborationPermissions } | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return { error: 'Invalid story ID', status: 400 };
+  }
+
+  await connectToDatabase();
+
+  const story = await Story.findById(id);
+  if (!story) {
+    return { error: 'Story not found', status: 404 };
+  }
+
+  const permissions = await resolveCollaborationAccess(user, story);
+  if (!permissions) {
+    await SecurityLogger.logEvent(
+      'permission_denied',
+      req,
+      {
+        reason: 'Unauthorized co-writing session access attempt',
+        storyId: id,
+        requestedBy: user.id,
+        storyOwner: story.authorId.toString(),
+      },
+      user.id,
+      'medium'
+    );
+    return { error: 'Access denied', status: 403 };
+  }
+
+  return { story, permissions };
+}
+
+// GET - Edits since a version (?since=&sessionKey=), or a full snapshot
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const access = await loadStoryForSession(req, params.id, user);
+    if ('error' in access) {
+      statusCode = access.status;
+      return NextResponse.json(
+        { success: false, message: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const sinceParam = searchParams.get('since');
+    const since = sinceParam !== null && /^\d+$/.test(sinceParam) ? parseInt(sinceParam, 10) : null;
+
+    const result = await getSessionUpdates(params.id, user, searchParams.get('sessionKey'), since);
+    if ('error' in result) {
+      statusCode = result.status;
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: result.status }
+      );
+    }
+
+    statusCode = 200;
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...result, permissions: access.permissions },
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to fetch co-writing updates',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch co-writing updates' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/collaboration`,
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Join the story's co-writing session
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'story_collaboration');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many attempts to join writing sessions',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const access = await loadStoryForSession(req, params.id, user);
+    if ('error' in access) {
+      statusCode = access.status;
+      return NextResponse.json(
+        { success: false, message: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { snapshot, site } = await joinSession(access.story, user, access.permissions);
+
+    statusCode = 200;
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Joined the writing session',
+        data: {
+          story: {
+            id: access.story._id.toString(),
+            title: access.story.title,
+            authorName: access.story.authorName,
+            status: access.story.status,
+          },
+          session: snapshot,
+          site,
+          permissions: access.permissions,
+        },
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to join co-writing session',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to join the writing session' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/collaboration`,
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// PATCH - Send edits and/or the user's cursor position
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+
+    const validation = collaborationUpdateSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { sessionKey, ops, cursor } = validation.data;
+
+    // Membership and edit rights are checked against the session itself,
+    // which keeps this hot path to a single read
+    let version: number | undefined;
+    if (ops && ops.length > 0) {
+      const result = await applySessionEdits(params.id, user, sessionKey, ops);
+      if ('error' in result) {
+        statusCode = result.status;
+        if ('violations' in result) {
+          await SecurityLogger.logEvent(
+            'content_violation',
+            req,
+            { violations: result.violations, field: 'content', storyId: params.id, source: 'collaboration' },
+            user.id,
+            'medium'
+          );
+        }
+        return NextResponse.json(
+          { success: false, message: result.error },
+          { status: result.status }
+        );
+      }
+      version = result.version;
+    }
+
+    if (cursor) {
+      const result = await updateCursor(params.id, user, sessionKey, cursor);
+      if ('error' in result) {
+        statusCode = result.status;
+        return NextResponse.json(
+          { success: false, message: result.error },
+          { status: result.status }
+        );
+      }
+    }
+
+    statusCode = 200;
+    return NextResponse.json(
+      {
+        success: true,
+        data: { version },
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to apply co-writing update',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to save your changes' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/collaboration`,
+      'PATCH',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// DELETE - Leave the session
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    await leaveSession(params.id, authResult.user);
+
+    statusCode = 200;
+    return NextResponse.json(
+      { success: true, message: 'Left the writing session' },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to leave co-writing session',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to leave the writing session' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/collaboration`,
+      'DELETE',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,392 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Story from '@/models/Story';
+import Notification from '@/models/Notification';
+import { addCollaboratorSchema } from '@/lib/validations';
+import { requireAuthApi } from '@/lib/auth';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import {
+  findInvitableCollaborator,
+  removeParticipant,
+  resolveCollaborationAccess,
+} from '@/lib/collaboration';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Co-writers of a story and what each has contributed
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { id } = params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const story = await Story.findById(id).select('authorId authorName status collaborators contributions').lean();
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    const permissions = await resolveCollaborationAccess(user, story);
+    if (!permissions) {
+      statusCode = 403;
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    statusCode = 200;
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          author: { userId: story.authorId.toString(), name: story.authorName },
+          collaborators: story.collaborators || [],
+          contributions: story.contributions || [],
+          canManage: user.role === 'admin' || user.id === story.authorId.toString(),
+        },
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to fetch story collaborators',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch co-writers' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/collaborators`,
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Invite a classmate to co-write (author or admin)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 201;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { id } = params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'collaborator_invite');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invitation limit reached',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+
+    const validation = addCollaboratorSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const story = await Story.findById(id).select('authorId title collaborators').lean();
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    if (user.role !== 'admin' && user.id !== story.authorId.toString()) {
+      statusCode = 403;
+      await SecurityLogger.logEvent(
+        'permission_denied',
+        req,
+        {
+          reason: 'Co-writer invitation by someone other than the author',
+          storyId: id,
+          requestedBy: user.id,
+          storyOwner: story.authorId.toString(),
+        },
+        user.id,
+        'medium'
+      );
+
+      return NextResponse.json(
+        { success: false, message: 'Only the author can invite co-writers' },
+        { status: 403 }
+      );
+    }
+
+    const inviteeResult = await findInvitableCollaborator(user, story, validation.data.email);
+    if ('error' in inviteeResult) {
+      statusCode = inviteeResult.status;
+      return NextResponse.json(
+        { success: false, message: inviteeResult.error },
+        { status: inviteeResult.status }
+      );
+    }
+
+    const invitee = inviteeResult.user;
+    const collaborator = {
+      userId: invitee.id,
+      name: invitee.name,
+      addedBy: user.id,
+      addedAt: new Date(),
+    };
+
+    await Story.updateOne(
+      { _id: id, 'collaborators.userId': { $ne: invitee.id } },
+      { $push: { collaborators: collaborator } }
+    );
+
+    await Notification.create({
+      userId: invitee.id,
+      type: 'collaboration_invite',
+      title: 'Let\'s write together!',
+      message: `${user.name || 'A classmate'} invited you to help write "${story.title}".`,
+      data: { storyId: id },
+      actionUrl: `/story/${id}/write`,
+      actionText: 'Start writing',
+      deliveryMethod: 'in_app',
+      priority: 'normal',
+      variant: 'info',
+    });
+
+    await SecurityLogger.logEvent(
+      'collaborator_changed',
+      req,
+      { action: 'added', storyId: id, collaboratorId: invitee.id },
+      user.id,
+      'low'
+    );
+
+    statusCode = 201;
+    return NextResponse.json(
+      {
+        success: true,
+        message: `${invitee.name} can now write this story with you`,
+        data: { collaborator },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to add story collaborator',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to invite co-writer' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/collaborators`,
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// DELETE - Remove a co-writer (?userId=). Co-writers can also remove themselves.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { id } = params;
+    const userId = new URL(req.url).searchParams.get('userId') || user.id;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(userId)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story or user ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const story = await Story.findById(id).select('authorId collaborators').lean();
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    const isManager = user.role === 'admin' || user.id === story.authorId.toString();
+    if (!isManager && userId !== user.id) {
+      statusCode = 403;
+      return NextResponse.json(
+        { success: false, message: 'Only the author can remove co-writers' },
+        { status: 403 }
+      );
+    }
+
+    const collaborator = (story.collaborators || []).find(entry => entry.userId.toString() === userId);
+    if (!collaborator) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Co-writer not found' },
+        { status: 404 }
+      );
+    }
+
+    // Their contributions stay on the story; only their access goes
+    await Story.updateOne({ _id: id }, { $pull: { collaborators: { userId } } });
+    await removeParticipant(id, userId, collaborator.name);
+
+    await SecurityLogger.logEvent(
+      'collaborator_changed',
+      req,
+      { action: 'removed', storyId: id, collaboratorId: userId },
+      user.id,
+      'low'
+    );
+
+    statusCode = 200;
+    return NextResponse.json(
+      { success: true, message: 'Co-writer removed' },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to remove story collaborator',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to remove co-writer' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/collaborators`,
+      'DELETE',
+      responseTime,
+      statusCode
+    );
+  }
+}
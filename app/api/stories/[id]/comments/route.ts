@@ -6,6 +6,11 @@ import Comment from '@/models/Comment';
 import Story from '@/models/Story';
 import { commentSchema } from '@/utils/validation';
 import { checkRateLimit } from '@/lib/rate-limit';
+import { requireParentalConsentApi } from '@/lib/auth';
+import { screenContent } from '@/lib/moderation-queue';
+import { ageGroupForAge } from '@/lib/moderation-engine';
+import { publishDomainEvent } from '@/lib/domain-events';
+import { anchorQuote } from '@/lib/text-anchors';
 
 export const dynamic = 'force-dynamic';
 
@@ -137,6 +142,27 @@ export async function POST(
       );
     }
 
+    // Mentors can't reach an under-13 writer until a parent has approved the account
+    const consentResult = await requireParentalConsentApi(story.authorId.toString());
+    if ('error' in consentResult) {
+      return NextResponse.json(
+        { success: false, message: consentResult.error, consentRequired: true },
+        { status: consentResult.status }
+      );
+    }
+
+    // An inline comment is anchored on its quote and the text around it, so
+    // it stays on the right words as the story is edited
+    const anchored = highlightedText || position
+      ? anchorQuote(story.content, highlightedText, position)
+      : null;
+    if ((highlightedText || position) && !anchored) {
+      return NextResponse.json(
+        { success: false, message: 'The highlighted text is no longer in the story. Please select it again.' },
+        { status: 400 }
+      );
+    }
+
     // Create new comment
     const comment = new Comment({
       storyId,
@@ -145,8 +171,10 @@ export async function POST(
       commenterRole: session.user.role,
       content,
       commentType,
-      highlightedText,
-      position,
+      highlightedText: anchored?.anchor.exact,
+      textPosition: anchored?.range,
+      anchor: anchored?.anchor,
+      anchorStatus: anchored ? 'anchored' : undefined,
       createdAt: new Date(),
       isResolved: false,
       emojiReactions: []
@@ -154,12 +182,32 @@ export async function POST(
 
     await comment.save();
 
+    // Judged against the age of the child who will read it
+    await screenContent({
+      targetType: 'comment',
+      targetId: comment._id.toString(),
+      storyId,
+      authorId: session.user.id,
+      content,
+      ageGroup: ageGroupForAge(story.authorAge),
+    });
+
     // Update story's comment count
     await Story.findByIdAndUpdate(storyId, {
       $inc: { commentCount: 1 },
       lastCommentAt: new Date()
     });
 
+    if (story.authorId.toString() !== session.user.id) {
+      await publishDomainEvent({
+        type: 'comment_received',
+        userId: story.authorId.toString(),
+        storyId,
+        commentId: comment._id.toString(),
+        commenterRole: session.user.role,
+      });
+    }
+
     // Populate commenter info for response
     await comment.populate('commenterId', 'name role');
 
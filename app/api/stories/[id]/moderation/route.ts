@@ -0,0 +1,240 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Story from '@/models/Story';
+import User from '@/models/User';
+import ModerationCase from '@/models/ModerationCase';
+import { requireAuthApi } from '@/lib/auth';
+import { SecurityLogger } from '@/lib/security';
+import { canAppeal, fileAppeal } from '@/lib/moderation-queue';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// The story's author appeals as the child; a guardian is matched by the
+// parent email on the child's account
+async function resolveAppellant(
+  storyId: string,
+  user: { id: string; email?: string | null }
+): Promise<{ role: 'child' | 'parent' } | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(storyId)) {
+    return { error: 'Invalid story ID', status: 400 };
+  }
+
+  await connectToDatabase();
+
+  const story = await Story.findById(storyId).select('authorId').lean();
+  if (!story) {
+    return { error: 'Story not found', status: 404 };
+  }
+
+  if (story.authorId.toString() === user.id) {
+    return { role: 'child' };
+  }
+
+  const author = await User.findById(story.authorId).select('parentEmail').lean();
+  if (user.email && author?.parentEmail && author.parentEmail.toLowerCase() === user.email.toLowerCase()) {
+    return { role: 'parent' };
+  }
+
+  return { error: 'Access denied', status: 403 };
+}
+
+// GET - Latest moderation outcome for a story, without moderator identities
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const appellant = await resolveAppellant(params.id, authResult.user);
+    if ('error' in appellant) {
+      statusCode = appellant.status;
+      return NextResponse.json(
+        { success: false, message: appellant.error },
+        { status: appellant.status }
+      );
+    }
+
+    const moderationCase = await ModerationCase.findOne({ targetType: 'story', targetId: params.id })
+      .sort({ createdAt: -1 });
+
+    if (!moderationCase) {
+      return NextResponse.json({ success: true, data: { moderation: null } });
+    }
+
+    const lastDecision = moderationCase.decisions[moderationCase.decisions.length - 1];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        moderation: {
+          caseId: moderationCase._id,
+          status: moderationCase.status,
+          flaggedCategories: moderationCase.flaggedCategories,
+          decision: lastDecision?.decision,
+          reason: lastDecision?.reason,
+          decidedAt: lastDecision?.decidedAt,
+          appeal: moderationCase.appeal
+            ? {
+              requesterRole: moderationCase.appeal.requesterRole,
+              requestedAt: moderationCase.appeal.requestedAt,
+              outcome: moderationCase.appeal.outcome,
+            }
+            : null,
+          canAppeal: canAppeal(moderationCase),
+        },
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load story moderation status',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load moderation status' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/stories/[id]/moderation',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Appeal a rejection, as the child author or their parent
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { reason } = await req.json();
+
+    if (typeof reason !== 'string' || reason.trim().length < 10) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Please tell us why we should look again (at least 10 characters)' },
+        { status: 400 }
+      );
+    }
+
+    const appellant = await resolveAppellant(params.id, user);
+    if ('error' in appellant) {
+      statusCode = appellant.status;
+      if (appellant.status === 403) {
+        await SecurityLogger.logEvent(
+          'permission_denied',
+          req,
+          { reason: 'Unauthorized moderation appeal attempt', storyId: params.id },
+          user.id,
+          'medium'
+        );
+      }
+      return NextResponse.json(
+        { success: false, message: appellant.error },
+        { status: appellant.status }
+      );
+    }
+
+    const moderationCase = await ModerationCase.findOne({ targetType: 'story', targetId: params.id })
+      .sort({ createdAt: -1 });
+
+    if (!moderationCase) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'No moderation decision to appeal' },
+        { status: 404 }
+      );
+    }
+
+    const result = await fileAppeal(
+      req,
+      moderationCase,
+      user,
+      appellant.role,
+      reason.trim().slice(0, 1000)
+    );
+
+    if ('error' in result) {
+      statusCode = result.status;
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Appeal submitted. A moderator will look again soon.',
+      data: {
+        status: result.moderationCase.status,
+        dueAt: result.moderationCase.dueAt,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to submit moderation appeal',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to submit appeal' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/stories/[id]/moderation',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
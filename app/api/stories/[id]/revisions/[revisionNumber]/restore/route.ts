@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Story from '@/models/Story';
+import StoryRevision from '@/models/StoryRevision';
+import { requireAuthApi } from '@/lib/auth';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+import { notifyStoryUpdate } from '@/lib/pusher';
+import { hasActiveSession } from '@/lib/collaboration';
+import { reanchorComments } from '@/lib/comment-anchors';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Restore a story to an earlier revision. The restore is itself saved
+// as a new revision, so nothing in the history is ever lost.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; revisionNumber: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    // Authenticate user
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { id } = params;
+    const revisionNumber = parseInt(params.revisionNumber, 10);
+
+    // Validate identifiers
+    if (!mongoose.Types.ObjectId.isValid(id) || !Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story or revision ID' },
+        { status: 400 }
+      );
+    }
+
+    // Restores count against the same budget as regular saves
+    const rateLimitResult = await checkUserActionLimit(
+      user.id,
+      user.role,
+      'story_update'
+    );
+
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Story update limit reached',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    // Connect to database
+    await connectToDatabase();
+
+    const story = await Story.findById(id);
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only the author or an admin can rewrite the story
+    if (story.authorId.toString() !== user.id && user.role !== 'admin') {
+      statusCode = 403;
+      await SecurityLogger.logEvent(
+        'permission_denied',
+        req,
+        {
+          reason: 'Unauthorized revision restore attempt',
+          storyId: id,
+          revisionNumber,
+          requestedBy: user.id,
+          storyOwner: story.authorId.toString(),
+        },
+        user.id,
+        'medium'
+      );
+
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (await hasActiveSession(id)) {
+      statusCode = 409;
+      return NextResponse.json(
+        { success: false, message: 'Wait until everyone has left the writing session to restore a version' },
+        { status: 409 }
+      );
+    }
+
+    const revision = await StoryRevision.findByNumber(id, revisionNumber);
+    if (!revision) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    story.title = revision.title;
+    story.content = revision.content;
+    story.revisionCount += 1;
+    await story.save();
+
+    const restored = await StoryRevision.recordRevision(story, user, 'restore', revisionNumber);
+
+    // Comments orphaned since this version was current find their text again
+    await reanchorComments(id, story.content);
+
+    // Notify real-time updates
+    await notifyStoryUpdate(id, user.id, 'content');
+
+    // Log successful restore
+    await SecurityLogger.logEvent(
+      'story_restored',
+      req,
+      {
+        storyId: id,
+        restoredFrom: revisionNumber,
+        newRevision: restored.revisionNumber,
+      },
+      user.id,
+      'info'
+    );
+
+    statusCode = 200;
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Story restored to revision ${revisionNumber}`,
+        data: {
+          story,
+          revision: restored,
+        },
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Story revision restore failed',
+      {
+        storyId: params.id,
+        revisionNumber: params.revisionNumber,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Failed to restore story revision',
+      },
+      { status: 500 }
+    );
+  } finally {
+    // Track API performance
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/revisions/${params.revisionNumber}/restore`,
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Story from '@/models/Story';
+import StoryRevision from '@/models/StoryRevision';
+import { requireAuthApi, validateStoryAccess } from '@/lib/auth';
+import { SecurityLogger } from '@/lib/security';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Fetch a single revision with its full content
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; revisionNumber: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    // Authenticate user
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { id } = params;
+    const revisionNumber = parseInt(params.revisionNumber, 10);
+
+    // Validate identifiers
+    if (!mongoose.Types.ObjectId.isValid(id) || !Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story or revision ID' },
+        { status: 400 }
+      );
+    }
+
+    // Connect to database
+    await connectToDatabase();
+
+    const story = await Story.findById(id).select('authorId').lean();
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check access permissions
+    const hasAccess = await validateStoryAccess(story.authorId.toString());
+    if (!hasAccess) {
+      statusCode = 403;
+      await SecurityLogger.logEvent(
+        'permission_denied',
+        req,
+        {
+          reason: 'Unauthorized revision access attempt',
+          storyId: id,
+          revisionNumber,
+          requestedBy: user.id,
+          storyOwner: story.authorId.toString(),
+        },
+        user.id,
+        'medium'
+      );
+
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const revision = await StoryRevision.findByNumber(id, revisionNumber).lean();
+    if (!revision) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    statusCode = 200;
+    return NextResponse.json(
+      {
+        success: true,
+        data: { revision },
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to fetch story revision',
+      {
+        storyId: params.id,
+        revisionNumber: params.revisionNumber,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Failed to fetch story revision',
+      },
+      { status: 500 }
+    );
+  } finally {
+    // Track API performance
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/revisions/${params.revisionNumber}`,
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Story from '@/models/Story';
+import StoryRevision from '@/models/StoryRevision';
+import { requireAuthApi, validateStoryAccess } from '@/lib/auth';
+import { SecurityLogger } from '@/lib/security';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { diffRevisions } from '@/lib/story-diff';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Diff two revisions (?from=1&to=4). `to` defaults to the latest revision.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    // Authenticate user
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    // Each diff compares two whole stories, so how often one user can ask is limited
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'revision_diff');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many comparisons. Please wait a moment and try again.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const { id } = params;
+    const { searchParams } = new URL(req.url);
+    const from = parseInt(searchParams.get('from') || '', 10);
+    const toParam = searchParams.get('to');
+
+    // Validate MongoDB ObjectId and revision numbers
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(from) || from < 1) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: { from: 'A valid starting revision number is required' },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Connect to database
+    await connectToDatabase();
+
+    const story = await Story.findById(id).select('authorId').lean();
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check access permissions
+    const hasAccess = await validateStoryAccess(story.authorId.toString());
+    if (!hasAccess) {
+      statusCode = 403;
+      await SecurityLogger.logEvent(
+        'permission_denied',
+        req,
+        {
+          reason: 'Unauthorized revision diff attempt',
+          storyId: id,
+          requestedBy: user.id,
+          storyOwner: story.authorId.toString(),
+        },
+        user.id,
+        'medium'
+      );
+
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const fromRevision = await StoryRevision.findByNumber(id, from).lean();
+    const toRevision = toParam
+      ? await StoryRevision.findByNumber(id, parseInt(toParam, 10)).lean()
+      : await StoryRevision.findOne({ storyId: id }).sort({ revisionNumber: -1 }).lean();
+
+    if (!fromRevision || !toRevision) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    statusCode = 200;
+    return NextResponse.json(
+      {
+        success: true,
+        data: { diff: diffRevisions(fromRevision, toRevision) },
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to diff story revisions',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Failed to diff story revisions',
+      },
+      { status: 500 }
+    );
+  } finally {
+    // Track API performance
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/revisions/diff`,
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
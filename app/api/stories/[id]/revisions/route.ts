@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Story from '@/models/Story';
+import StoryRevision from '@/models/StoryRevision';
+import Comment from '@/models/Comment';
+import { requireAuthApi, validateStoryAccess } from '@/lib/auth';
+import { SecurityLogger } from '@/lib/security';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - List revision timeline for a story
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    // Authenticate user
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { id } = params;
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    // Connect to database
+    await connectToDatabase();
+
+    const story = await Story.findById(id).select('authorId').lean();
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check access permissions
+    const hasAccess = await validateStoryAccess(story.authorId.toString());
+    if (!hasAccess) {
+      statusCode = 403;
+      await SecurityLogger.logEvent(
+        'permission_denied',
+        req,
+        {
+          reason: 'Unauthorized revision history access attempt',
+          storyId: id,
+          requestedBy: user.id,
+          storyOwner: story.authorId.toString(),
+        },
+        user.id,
+        'medium'
+      );
+
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const revisions = await StoryRevision.findByStory(id).lean();
+
+    // Mentors get the time of their latest comment so the timeline can show
+    // how the draft changed after their feedback
+    let lastFeedbackAt: Date | null = null;
+    if (user.role === 'mentor' || user.role === 'admin') {
+      const lastComment = await Comment.findOne({ storyId: id, commenterId: user.id })
+        .sort({ createdAt: -1 })
+        .select('createdAt')
+        .lean();
+      lastFeedbackAt = lastComment?.createdAt || null;
+    }
+
+    statusCode = 200;
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          revisions,
+          lastFeedbackAt,
+        },
+      },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to fetch story revisions',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Failed to fetch story revisions',
+      },
+      { status: 500 }
+    );
+  } finally {
+    // Track API performance
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      `/api/stories/${params.id}/revisions`,
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
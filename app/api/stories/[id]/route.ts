@@ -2,14 +2,25 @@ import { NextRequest, NextResponse } from 'next/server';
 import mongoose from 'mongoose';
 import { connectToDatabase } from '@/utils/db';
 import Story from '@/models/Story';
+import StoryRevision from '@/models/StoryRevision';
+import CollaborationSession from '@/models/CollaborationSession';
 import { updateStorySchema } from '@/lib/validations';
-import { requireAuthApi, validateStoryAccess } from '@/lib/auth';
+import { requireAuthApi, requireParentalConsentApi, validateStoryAccess } from '@/lib/auth';
 import { checkUserActionLimit } from '@/lib/rate-limit';
 import { ContentFilter, SecurityLogger } from '@/lib/security';
 import { assessStory } from '@/lib/ai-providers';
+import { recordRubricAssessment, resolveStoryRubric } from '@/lib/rubrics';
+import { reviewStage } from '@/lib/progression';
 import { trackStoryCompleted } from '@/lib/analytics';
 import { logError, trackAPIPerformance } from '@/lib/monitoring';
-import { notifyStoryUpdate, notifyAchievement } from '@/lib/pusher';
+import { notifyStoryUpdate } from '@/lib/pusher';
+import { screenContent } from '@/lib/moderation-queue';
+import { ageGroupForAge } from '@/lib/moderation-engine';
+import { requestPublicApproval } from '@/lib/parent-oversight';
+import { hasActiveSession } from '@/lib/collaboration';
+import { publishDomainEvent } from '@/lib/domain-events';
+import { recordWritingDay } from '@/lib/writing-streak';
+import { reanchorComments } from '@/lib/comment-anchors';
 
 export const dynamic = 'force-dynamic';
 
@@ -232,6 +243,19 @@ export async function PUT(
       );
     }
 
+    // While a co-writing session is open it owns the text; a plain save
+    // would be overwritten by the next merged edit
+    if (updateData.content !== undefined && await hasActiveSession(id)) {
+      statusCode = 409;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'This story is being written together right now. Join the writing session to edit it.',
+        },
+        { status: 409 }
+      );
+    }
+
     // Content filtering if updating content or title
     if (updateData.content) {
       const contentFilter = ContentFilter.filterContent(updateData.content);
@@ -278,21 +302,37 @@ export async function PUT(
       updateData.wordCount = updateData.content.split(/\s+/).length;
     }
 
+    // Publishing waits for parental consent on under-13 accounts
+    const isPublishing = updateData.status === 'published' && story.status !== 'published';
+    if (isPublishing) {
+      const consentResult = await requireParentalConsentApi(story.authorId.toString());
+      if ('error' in consentResult) {
+        statusCode = consentResult.status;
+        return NextResponse.json(
+          { success: false, message: consentResult.error, consentRequired: true },
+          { status: consentResult.status }
+        );
+      }
+    }
+
     // Handle status changes
     let assessment = null;
+    let aiAssessment = null; // only a real assessment is kept on the story
     let shouldNotifyCompletion = false;
+    const rubric = isPublishing ? await resolveStoryRubric(story) : null;
 
-    if (updateData.status === 'published' && story.status !== 'published') {
+    if (isPublishing) {
       // Story is being published - run AI assessment
       try {
         assessment = await assessStory(
           updateData.content || story.content,
           story.elements,
-          user.age || 10
+          user.age || 10,
+          rubric || undefined
         );
 
-        updateData.assessment = assessment;
         updateData.completedAt = new Date();
+        aiAssessment = { ...assessment, assessmentDate: updateData.completedAt };
         shouldNotifyCompletion = true;
 
         // Track story completion
@@ -325,7 +365,6 @@ export async function PUT(
           readingLevel: 'Age appropriate',
         };
 
-        updateData.assessment = assessment;
         updateData.completedAt = new Date();
       }
     }
@@ -335,6 +374,7 @@ export async function PUT(
       id,
       {
         ...updateData,
+        ...(aiAssessment ? { aiAssessment } : {}),
         updatedAt: new Date(),
       },
       { new: true, runValidators: true }
@@ -348,42 +388,73 @@ export async function PUT(
       );
     }
 
-    // Notify real-time updates
-    await notifyStoryUpdate(
-      id,
-      user.id,
-      updateData.status ? 'status' : 'content'
-    );
+    // Keep every content or title save as an immutable revision
+    const contentChanged = updateData.content !== undefined && updateData.content !== story.content;
+    const titleChanged = updateData.title !== undefined && updateData.title !== story.title;
+
+    if (contentChanged || titleChanged) {
+      const hasHistory = await StoryRevision.exists({ storyId: id });
+      if (!hasHistory) {
+        // Stories written before revision history existed keep their previous state as revision 1
+        await StoryRevision.recordRevision(
+          story,
+          { id: story.authorId.toString(), name: story.authorName, role: 'child' },
+          'create'
+        );
+      }
+
+      await StoryRevision.recordRevision(updatedStory, user, 'update');
+    }
+
+    // Inline comments follow their text to where it now is
+    if (contentChanged) {
+      await reanchorComments(id, updatedStory.content);
+    }
 
-    // Send completion notifications if story was just published
-    if (shouldNotifyCompletion && assessment) {
-      // Check for achievements (simplified example)
-      const userStoryCount = await Story.countDocuments({
-        authorId: user.id,
-        status: 'published'
+    // Published stories wait for a linked parent before going public, and go
+    // through the moderation queue if the filter flags them
+    if (isPublishing) {
+      await requestPublicApproval(updatedStory);
+
+      await screenContent({
+        targetType: 'story',
+        targetId: id,
+        storyId: id,
+        authorId: story.authorId.toString(),
+        content: `${updatedStory.title}\n\n${updatedStory.content}`,
+        ageGroup: ageGroupForAge(story.authorAge),
       });
 
-      // First story achievement
-      if (userStoryCount === 1) {
-        await notifyAchievement(user.id, {
-          _id: 'first-story',
-          name: 'First Story',
-          description: 'Completed your very first story!',
-          icon: '🎉',
-        });
+      if (rubric && assessment?.rubric?.length) {
+        await recordRubricAssessment(story, rubric, assessment.rubric, 'ai');
       }
 
-      // High score achievement
-      if (assessment.overallScore >= 90) {
-        await notifyAchievement(user.id, {
-          _id: 'excellent-writer',
-          name: 'Excellent Writer',
-          description: 'Achieved a score of 90 or higher!',
-          icon: '⭐',
+      // Publishing is when a writer's stage is reviewed
+      await reviewStage(story.authorId.toString(), { storyId: id });
+
+      await publishDomainEvent({ type: 'story_completed', userId: story.authorId.toString(), storyId: id });
+      if (aiAssessment) {
+        await publishDomainEvent({
+          type: 'assessment_saved',
+          userId: story.authorId.toString(),
+          storyId: id,
+          source: 'ai',
         });
       }
     }
 
+    // A writer's own saves count towards their writing streak
+    if (contentChanged && story.authorId.toString() === user.id) {
+      await recordWritingDay(user.id);
+    }
+
+    // Notify real-time updates
+    await notifyStoryUpdate(
+      id,
+      user.id,
+      updateData.status ? 'status' : 'content'
+    );
+
     // Log successful update
     await SecurityLogger.logEvent(
       'story_updated',
@@ -525,6 +596,7 @@ export async function DELETE(
 
     // Delete the story
     await Story.findByIdAndDelete(id);
+    await CollaborationSession.deleteOne({ storyId: id });
 
     // Also delete related comments (if implemented)
     // await Comment.deleteMany({ storyId: id });
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Story from '@/models/Story';
+import { requireAuthApi, requireParentalConsentApi } from '@/lib/auth';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import { submitAssignmentStory } from '@/lib/assignments';
+import { notifyStoryUpdate } from '@/lib/pusher';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Hand in an assignment story. Runs the AI assessment and tells the
+// mentor; late submissions are accepted and marked late.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const { id } = params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid story ID' },
+        { status: 400 }
+      );
+    }
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'story_submit');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many submissions. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const story = await Story.findById(id);
+    if (!story) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only the author hands in their own work, not co-writers or mentors
+    if (story.authorId.toString() !== user.id) {
+      statusCode = 403;
+      await SecurityLogger.logEvent(
+        'permission_denied',
+        req,
+        { reason: 'Submission by someone other than the author', storyId: id },
+        user.id,
+        'medium'
+      );
+
+      return NextResponse.json(
+        { success: false, message: 'Only the author can hand in this story' },
+        { status: 403 }
+      );
+    }
+
+    // Submitting runs the AI assessment, which under-13s need consent for
+    const consentResult = await requireParentalConsentApi(user.id);
+    if ('error' in consentResult) {
+      statusCode = consentResult.status;
+      return NextResponse.json(
+        { success: false, message: consentResult.error, consentRequired: true },
+        { status: consentResult.status }
+      );
+    }
+
+    const result = await submitAssignmentStory(story, user);
+    if ('error' in result) {
+      statusCode = result.status;
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: result.status }
+      );
+    }
+
+    await notifyStoryUpdate(id, user.id, 'status');
+
+    statusCode = 200;
+    return NextResponse.json({
+      success: true,
+      message: result.status === 'late'
+        ? 'Story handed in (after the due date)'
+        : 'Story handed in!',
+      data: {
+        story: {
+          id: result.story._id.toString(),
+          status: result.story.status,
+          submittedAt: result.story.submittedAt,
+          aiAssessment: result.story.aiAssessment,
+        },
+        submissionStatus: result.status,
+        assessed: result.assessed,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to submit story',
+      {
+        storyId: params.id,
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to submit story' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/stories/[id]/submit',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,255 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuthApi, requireParentalConsentApi } from '@/lib/auth';
+import { aiLimiter } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import { streamSuggestion } from '@/lib/ai-providers';
+import {
+  AICollaborationRequest,
+  COLLABORATION_TYPES,
+  StreamModerator,
+  findCollaborationStory,
+  loadScaffoldingPolicy,
+  recordAISession,
+} from '@/lib/ai-collaboration';
+import { ageGroupForAge } from '@/lib/moderation-engine';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+import { IStory } from '@/models/Story';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Stream a single suggestion as server-sent events.
+// Events: token { text }, moderated { flaggedCategories }, done { suggestion, sessionNumber, mode }, error { message }
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    // Authenticate user
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    // Under-13 accounts need a parent's approval before using AI features
+    const consentResult = await requireParentalConsentApi(user.id);
+    if ('error' in consentResult) {
+      statusCode = consentResult.status;
+      return NextResponse.json(
+        { success: false, message: consentResult.error, consentRequired: true },
+        { status: consentResult.status }
+      );
+    }
+
+    // Check AI request and cost budget
+    const aiLimitResult = await aiLimiter.checkAILimit(user.id);
+    if (!aiLimitResult.allowed) {
+      statusCode = 429;
+      await SecurityLogger.logEvent(
+        'rate_limit_exceeded',
+        req,
+        {
+          reason: aiLimitResult.reason,
+          limitType: 'ai_collaboration',
+        },
+        user.id,
+        'medium'
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'AI assistance limit reached',
+          error: aiLimitResult.reason,
+          resetTime: aiLimitResult.resetTime,
+        },
+        { status: 429 }
+      );
+    }
+
+    const body: AICollaborationRequest = await req.json();
+
+    // Feedback is a list of structured items, so it stays on the regular endpoint
+    if (!body.type || !COLLABORATION_TYPES.includes(body.type) || body.type === 'feedback') {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'A valid streaming request type is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.storyContent && body.type !== 'story_starter') {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Story content is required' },
+        { status: 400 }
+      );
+    }
+
+    let story: IStory | undefined;
+    if (body.storyId) {
+      const result = await findCollaborationStory(body.storyId, user);
+      if ('error' in result) {
+        statusCode = result.status;
+        return NextResponse.json(
+          { success: false, message: result.error },
+          { status: result.status }
+        );
+      }
+      story = result.story;
+    }
+
+    const scaffolding = await loadScaffoldingPolicy(user, story);
+
+    await SecurityLogger.logEvent(
+      'ai_request',
+      req,
+      {
+        type: 'collaboration_stream',
+        collaborationType: body.type,
+        storyId: body.storyId,
+      },
+      user.id,
+      'info'
+    );
+
+    const tokens = streamSuggestion(
+      {
+        type: body.type,
+        storyContent: body.storyContent || '',
+        selectedText: body.selectedText,
+        prompt: body.prompt,
+        genre: story?.elements?.genre || body.genre,
+        title: body.context?.title,
+        scaffolding,
+      },
+      user.age || 10
+    );
+
+    const encoder = new TextEncoder();
+    let cancelled = false;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+        const moderator = new StreamModerator(ageGroupForAge(user.age));
+
+        try {
+          for await (const token of tokens) {
+            if (cancelled) break;
+
+            // Stop before the chunk that made the text unsafe reaches the child
+            const moderation = moderator.push(token);
+            if (!moderation.isAppropriate) {
+              send('moderated', { flaggedCategories: moderation.flaggedCategories });
+              await SecurityLogger.logEvent(
+                'content_violation',
+                req,
+                {
+                  source: 'ai_stream',
+                  collaborationType: body.type,
+                  storyId: body.storyId,
+                  flaggedCategories: moderation.flaggedCategories,
+                },
+                user.id,
+                'medium'
+              );
+              return;
+            }
+
+            send('token', { text: token });
+          }
+
+          if (cancelled) return;
+
+          const content = moderator.text.trim();
+          let sessionNumber: number | undefined;
+
+          // Save the finished text the same way an accepted suggestion is
+          // saved. Guiding questions aren't story text, so they aren't saved.
+          if (story && content && scaffolding.mode === 'write') {
+            sessionNumber = recordAISession(story, body.type, content);
+            await story.save();
+          }
+
+          send('done', {
+            suggestion: {
+              id: `${body.type}_${Date.now()}_0`,
+              type: body.type,
+              content,
+              context: body.selectedText,
+              confidence: 0.8,
+            },
+            sessionNumber,
+            mode: scaffolding.mode,
+          });
+        } catch (error) {
+          await logError(
+            'AI collaboration stream failed',
+            {
+              url: req.url,
+              method: req.method,
+              userAgent: req.headers.get('user-agent'),
+            },
+            { error: error instanceof Error ? error.message : 'Unknown error' },
+            error instanceof Error ? error.stack : undefined
+          );
+
+          if (!cancelled) {
+            send('error', { message: 'Failed to generate AI suggestion' });
+          }
+        } finally {
+          if (!cancelled) {
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        // The writer closed the panel or navigated away
+        cancelled = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'AI collaboration stream failed',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to generate AI suggestions' },
+      { status: 500 }
+    );
+  } finally {
+    // Measures time until the stream opens, not until it finishes
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/stories/ai-collaborate/stream',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { connectToDatabase } from '@/utils/db';
 import Story from '@/models/Story';
+import StoryRevision from '@/models/StoryRevision';
+import User from '@/models/User';
 import { createStorySchema, searchStoriesSchema } from '@/lib/validations';
 import { requireAuthApi } from '@/lib/auth';
 import { checkUserActionLimit } from '@/lib/rate-limit';
@@ -9,6 +11,8 @@ import { generateStory } from '@/lib/ai-providers';
 import { trackStoryCreated } from '@/lib/analytics';
 import { logError, trackAPIPerformance } from '@/lib/monitoring';
 import { notifyStoryUpdate } from '@/lib/pusher';
+import { resolveAssignmentForStory } from '@/lib/assignments';
+import { STAGES, checkStageElements, toStage } from '@/lib/progression';
 
 export const dynamic = 'force-dynamic';
 
@@ -216,7 +220,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { title, elements } = validation.data;
+    const { title, elements, assignmentId } = validation.data;
 
     // Content filtering for title
     const titleFilter = ContentFilter.filterContent(title);
@@ -243,6 +247,45 @@ export async function POST(req: NextRequest) {
     // Connect to database
     await connectToDatabase();
 
+    // Stories start at the writer's stage. Class assignments set their own
+    // stage and elements, so stage unlocks only apply to free writing.
+    const author = await User.findById(user.id).select('progression.currentStage').lean();
+    const writerStage = toStage(author?.progression?.currentStage);
+
+    if (!assignmentId) {
+      const lockedElements = checkStageElements(elements, writerStage);
+      if (lockedElements.length > 0) {
+        statusCode = 400;
+        return NextResponse.json(
+          {
+            success: false,
+            message: lockedElements.join('. '),
+            errors: { elements: lockedElements[0] },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Stories written for a class assignment must keep to its elements and
+    // take its stage and target length
+    let assignmentFields: Record<string, unknown> = {};
+    if (assignmentId) {
+      const assignmentResult = await resolveAssignmentForStory(user, assignmentId, elements);
+      if ('error' in assignmentResult) {
+        statusCode = assignmentResult.status;
+        return NextResponse.json(
+          {
+            success: false,
+            message: assignmentResult.error,
+            ...(assignmentResult.storyId ? { data: { storyId: assignmentResult.storyId } } : {}),
+          },
+          { status: assignmentResult.status }
+        );
+      }
+      assignmentFields = assignmentResult.fields;
+    }
+
     // Generate AI opening for the story
     let aiResponse;
     try {
@@ -284,12 +327,18 @@ export async function POST(req: NextRequest) {
         estimatedWordCount: aiResponse.wordCount,
       },
       wordCount: aiResponse.opening.split(/\s+/).length,
+      stage: writerStage,
+      targetWordCount: STAGES[toStage(assignmentFields.stage || writerStage)].targetWordCount,
+      ...assignmentFields,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
 
     await story.save();
 
+    // Record the opening as the first revision
+    await StoryRevision.recordRevision(story, user, 'create');
+
     // Track story creation
     await trackStoryCreated(story._id.toString(), user.id, {
       elements,
@@ -331,6 +380,9 @@ export async function POST(req: NextRequest) {
             status: story.status,
             aiResponse: story.aiResponse,
             wordCount: story.wordCount,
+            stage: story.stage,
+            targetWordCount: story.targetWordCount,
+            assignmentId: story.assignmentId?.toString(),
             createdAt: story.createdAt,
           },
         },
@@ -0,0 +1,244 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import Classroom from '@/models/Classroom';
+import Assignment from '@/models/Assignment';
+import Story from '@/models/Story';
+import Rubric from '@/models/Rubric';
+import { requireRoleApi, requireParentalConsentApi } from '@/lib/auth';
+import { joinClassroomSchema } from '@/lib/validations';
+import { SecurityLogger } from '@/lib/security';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { joinClassroomByCode } from '@/lib/classroom';
+import { sendDueReminders, submissionStatus } from '@/lib/assignments';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - The classes a child is in, with their open assignments. Classmates
+// and join codes are never included.
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireRoleApi('child');
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    await connectToDatabase();
+    await sendDueReminders();
+
+    const classrooms = await Classroom.find({ 'students.userId': user.id, isArchived: false })
+      .select('name description gradeLevel mentorName createdAt')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    const assignments = await Assignment.find({
+      classroomId: { $in: classrooms.map(classroom => classroom._id) },
+      status: 'active',
+    })
+      .sort({ dueDate: 1, createdAt: -1 })
+      .lean();
+
+    const stories = await Story.find({
+      authorId: user.id,
+      assignmentId: { $in: assignments.map(assignment => assignment._id) },
+    })
+      .select('assignmentId submittedAt')
+      .lean();
+    const storyByAssignment = new Map(stories.map(story => [story.assignmentId!.toString(), story]));
+
+    // Students see the saved rubric's criteria in place of the inline ones
+    const rubrics = await Rubric.find({
+      _id: { $in: assignments.filter(assignment => assignment.rubricId).map(assignment => assignment.rubricId) },
+    })
+      .select('criteria')
+      .lean();
+    const rubricById = new Map(rubrics.map(rubric => [rubric._id.toString(), rubric.criteria]));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        classrooms: classrooms.map(classroom => ({
+          id: classroom._id.toString(),
+          name: classroom.name,
+          description: classroom.description,
+          gradeLevel: classroom.gradeLevel,
+          mentorName: classroom.mentorName,
+          assignments: assignments
+            .filter(assignment => assignment.classroomId.toString() === classroom._id.toString())
+            .map(assignment => {
+              const story = storyByAssignment.get(assignment._id.toString()) || null;
+              return {
+                id: assignment._id.toString(),
+                title: assignment.title,
+                instructions: assignment.instructions,
+                elementConstraints: assignment.elementConstraints,
+                targetWordCount: assignment.targetWordCount,
+                stage: assignment.stage,
+                rubric: (assignment.rubricId && rubricById.get(assignment.rubricId.toString())) || assignment.rubric,
+                dueDate: assignment.dueDate,
+                storyId: story?._id.toString(),
+                status: submissionStatus(assignment.dueDate, story),
+              };
+            }),
+        })),
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load classes',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load classes' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/user/classes',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Join a class with the code from the teacher
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireRoleApi('child');
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    // Joining shares the child's stories with a teacher, so it waits for
+    // a parent's approval like the other sharing features
+    const consentResult = await requireParentalConsentApi(user.id);
+    if ('error' in consentResult) {
+      statusCode = consentResult.status;
+      return NextResponse.json(
+        { success: false, message: consentResult.error, consentRequired: true },
+        { status: consentResult.status }
+      );
+    }
+
+    // Join codes are short, so guessing has to be slow
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'class_join');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      await SecurityLogger.logEvent(
+        'rate_limit_exceeded',
+        req,
+        { reason: 'Class join attempts exceeded' },
+        user.id,
+        'medium'
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many tries. Please ask your teacher to check the code.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = joinClassroomSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await joinClassroomByCode(user, validation.data.joinCode);
+    if ('error' in result) {
+      statusCode = result.status;
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { classroom, alreadyEnrolled } = result;
+
+    statusCode = 200;
+    return NextResponse.json({
+      success: true,
+      message: alreadyEnrolled ? `You are already in ${classroom.name}` : `You joined ${classroom.name}!`,
+      data: {
+        classroom: {
+          id: classroom._id.toString(),
+          name: classroom.name,
+          mentorName: classroom.mentorName,
+        },
+        alreadyEnrolled,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to join class',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to join class' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/user/classes',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import DataRequest from '@/models/DataRequest';
+import { requireAuthApi } from '@/lib/auth';
+import { dataErasureSchema } from '@/lib/validations';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import { resolveDataSubject, runErasure } from '@/lib/data-rights';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Permanently erase this account (or a linked child's) and return the receipt
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    if (user.role === 'admin') {
+      statusCode = 403;
+      return NextResponse.json(
+        { success: false, message: 'Admin accounts must be removed by another admin' },
+        { status: 403 }
+      );
+    }
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'data_erasure');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many attempts. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const validation = dataErasureSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    // Re-check the password so an unattended session cannot erase an account
+    const requester = await User.findById(user.id).select('+password');
+    if (!requester || !(await requester.comparePassword(validation.data.password))) {
+      statusCode = 401;
+      await SecurityLogger.logEvent(
+        'failed_login',
+        req,
+        { reason: 'Wrong password on data erasure request' },
+        user.id,
+        'medium'
+      );
+      return NextResponse.json(
+        { success: false, message: 'Incorrect password' },
+        { status: 401 }
+      );
+    }
+
+    const subjectResult = await resolveDataSubject(user, validation.data.childId);
+    if ('error' in subjectResult) {
+      statusCode = subjectResult.status;
+      if (subjectResult.status === 403) {
+        await SecurityLogger.logEvent(
+          'permission_denied',
+          req,
+          { reason: 'Data erasure for unlinked account', childId: validation.data.childId },
+          user.id,
+          'high'
+        );
+      }
+      return NextResponse.json(
+        { success: false, message: subjectResult.error },
+        { status: subjectResult.status }
+      );
+    }
+
+    const request = await DataRequest.create({
+      type: 'erasure',
+      userId: subjectResult.subjectId,
+      requestedBy: user.id,
+      requesterRole: user.role,
+    });
+
+    await SecurityLogger.logEvent(
+      'data_request',
+      req,
+      { type: 'erasure', subjectId: subjectResult.subjectId, requestId: request._id.toString() },
+      user.id,
+      'medium'
+    );
+
+    const result = await runErasure(request);
+
+    if (result.status === 'failed') {
+      statusCode = 500;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'We could not finish deleting this account. Please try again or contact privacy@mintoons.com.',
+          data: { requestId: result._id.toString() },
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'The account and its data have been deleted',
+      data: {
+        requestId: result._id.toString(),
+        receipt: result.receipt,
+        signOut: subjectResult.subjectId === user.id,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to erase account data',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete account' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/user/data-erasure',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import DataRequest from '@/models/DataRequest';
+import { requireAuthApi } from '@/lib/auth';
+import { SecurityLogger } from '@/lib/security';
+import { readExportArchive } from '@/lib/data-rights';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Download a completed export archive
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { requestId: string } }
+) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    if (!mongoose.Types.ObjectId.isValid(params.requestId)) {
+      statusCode = 400;
+      return NextResponse.json(
+        { success: false, message: 'Invalid export ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const request = await DataRequest.findOne({ _id: params.requestId, type: 'export' });
+    if (!request) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'Export not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only the person who asked for it, or the account it describes
+    const canDownload = request.requestedBy.toString() === user.id ||
+      request.userId.toString() === user.id;
+
+    if (!canDownload) {
+      statusCode = 404;
+      await SecurityLogger.logEvent(
+        'permission_denied',
+        req,
+        { reason: 'Data export download by another account', requestId: params.requestId },
+        user.id,
+        'high'
+      );
+      return NextResponse.json(
+        { success: false, message: 'Export not found' },
+        { status: 404 }
+      );
+    }
+
+    if (request.status !== 'completed' || !request.fileId) {
+      statusCode = 409;
+      return NextResponse.json(
+        { success: false, message: 'This export is not ready to download' },
+        { status: 409 }
+      );
+    }
+
+    if (request.expiresAt && request.expiresAt < new Date()) {
+      statusCode = 410;
+      return NextResponse.json(
+        { success: false, message: 'This export has expired. Please request a new one.' },
+        { status: 410 }
+      );
+    }
+
+    const archive = await readExportArchive(request.fileId);
+    const filename = `mintoons-data-${request.createdAt.toISOString().slice(0, 10)}.zip`;
+
+    return new NextResponse(archive, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': archive.length.toString(),
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to download data export',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to download export' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/user/data-export/[requestId]',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
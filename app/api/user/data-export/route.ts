@@ -0,0 +1,245 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import DataRequest from '@/models/DataRequest';
+import { requireAuthApi } from '@/lib/auth';
+import { dataExportRequestSchema } from '@/lib/validations';
+import { checkUserActionLimit } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import { resolveDataSubject, runExport, purgeExpiredExports } from '@/lib/data-rights';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+function serializeExport(request: any) {
+  return {
+    id: request._id.toString(),
+    userId: request.userId.toString(),
+    status: request.status,
+    fileSize: request.fileSize,
+    manifest: request.manifest,
+    expiresAt: request.expiresAt,
+    downloadUrl: request.status === 'completed' && request.fileId
+      ? `/api/user/data-export/${request._id}`
+      : null,
+    error: request.error,
+    createdAt: request.createdAt,
+    completedAt: request.completedAt,
+  };
+}
+
+// GET - Recent export requests made by or for this account
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    await connectToDatabase();
+
+    const requests = await DataRequest.find({
+      type: 'export',
+      $or: [{ userId: authResult.user.id }, { requestedBy: authResult.user.id }],
+    })
+      .sort({ createdAt: -1 })
+      .limit(10)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        exports: requests.map(serializeExport),
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load data exports',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load data exports' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/user/data-export',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Build a downloadable archive of everything held for this account
+// (or a linked child's account)
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+
+    const rateLimitResult = await checkUserActionLimit(user.id, user.role, 'data_export');
+    if (!rateLimitResult.allowed) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Too many export requests. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const validation = dataExportRequestSchema.safeParse(body);
+    if (!validation.success) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: validation.error.errors.reduce((acc, error) => {
+            acc[error.path.join('.')] = error.message;
+            return acc;
+          }, {} as Record<string, string>),
+        },
+        { status: 400 }
+      );
+    }
+
+    const subjectResult = await resolveDataSubject(user, validation.data.childId);
+    if ('error' in subjectResult) {
+      statusCode = subjectResult.status;
+      if (subjectResult.status === 403) {
+        await SecurityLogger.logEvent(
+          'permission_denied',
+          req,
+          { reason: 'Data export for unlinked account', childId: validation.data.childId },
+          user.id,
+          'medium'
+        );
+      }
+      return NextResponse.json(
+        { success: false, message: subjectResult.error },
+        { status: subjectResult.status }
+      );
+    }
+
+    await connectToDatabase();
+
+    const inFlight = await DataRequest.findOne({
+      type: 'export',
+      userId: subjectResult.subjectId,
+      status: { $in: ['pending', 'processing'] },
+    });
+
+    if (inFlight) {
+      statusCode = 409;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'An export for this account is already being prepared',
+          data: { export: serializeExport(inFlight) },
+        },
+        { status: 409 }
+      );
+    }
+
+    await purgeExpiredExports();
+
+    const request = await DataRequest.create({
+      type: 'export',
+      userId: subjectResult.subjectId,
+      requestedBy: user.id,
+      requesterRole: user.role,
+    });
+
+    await SecurityLogger.logEvent(
+      'data_request',
+      req,
+      { type: 'export', subjectId: subjectResult.subjectId, requestId: request._id.toString() },
+      user.id,
+      'low'
+    );
+
+    const result = await runExport(request);
+
+    if (result.status === 'failed') {
+      statusCode = 500;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'We could not prepare your export. Please try again.',
+          data: { export: serializeExport(result) },
+        },
+        { status: 500 }
+      );
+    }
+
+    statusCode = 201;
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Your data export is ready to download',
+        data: { export: serializeExport(result) },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to create data export',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to create data export' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/user/data-export',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import { requireAuthApi } from '@/lib/auth';
+import { CONSENT_RESEND_INTERVAL_MS, requestParentalConsent } from '@/lib/parental-consent';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Email the parent a fresh pair of consent links
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    await connectToDatabase();
+
+    const user = await User.findById(authResult.user.id);
+    if (!user) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (user.parentConsentStatus !== 'pending' || !user.parentEmail) {
+      statusCode = 409;
+      return NextResponse.json(
+        { success: false, message: 'There is no consent request waiting for a parent' },
+        { status: 409 }
+      );
+    }
+
+    const lastRequested = user.parentConsentRequestedAt?.getTime() || 0;
+    if (Date.now() - lastRequested < CONSENT_RESEND_INTERVAL_MS) {
+      statusCode = 429;
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'We just sent an email. Please wait a few minutes before sending another.',
+          resetTime: new Date(lastRequested + CONSENT_RESEND_INTERVAL_MS),
+        },
+        { status: 429 }
+      );
+    }
+
+    const sent = await requestParentalConsent(user);
+    if (!sent) {
+      statusCode = 502;
+      return NextResponse.json(
+        { success: false, message: 'We could not send the email. Please try again later.' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'We sent your parent a new email.',
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to resend parental consent email',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to resend consent email' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/user/parental-consent/resend',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
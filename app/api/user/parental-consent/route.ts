@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import { checkAuthRateLimit } from '@/lib/rate-limit';
+import { SecurityLogger } from '@/lib/security';
+import { getRequestIP, verifyConsentToken } from '@/lib/parental-consent';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// Resolve a consent link to the account it belongs to. Links from an older
+// request, or for a request that was already answered, are rejected.
+async function findConsentRequest(token: unknown) {
+  if (typeof token !== 'string' || !token) {
+    return { error: 'Consent link is missing', status: 400 as const };
+  }
+
+  const payload = verifyConsentToken(token);
+  if (!payload) {
+    return { error: 'This consent link is invalid or has expired', status: 400 as const };
+  }
+
+  await connectToDatabase();
+
+  const user = await User.findById(payload.userId).select('+parentConsentRequestId');
+  if (!user || user.parentConsentRequestId !== payload.requestId) {
+    return { error: 'This consent link is no longer valid', status: 410 as const };
+  }
+
+  return { user, payload };
+}
+
+// GET - Describe the pending request so the parent can confirm their choice.
+// Email scanners follow links, so nothing is recorded until the parent confirms.
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    const result = await findConsentRequest(token);
+
+    if ('error' in result) {
+      statusCode = result.status;
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        childName: result.user.name,
+        childAge: result.user.age,
+        action: result.payload.action,
+        expiresAt: new Date(result.payload.expiresAt),
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load parental consent request',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load consent request' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/user/parental-consent',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
+
+// POST - Record the parent's decision with IP address and timestamp
+export async function POST(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const rateLimitResult = await checkAuthRateLimit(req, 'login');
+    if (rateLimitResult) {
+      statusCode = 429;
+      return rateLimitResult;
+    }
+
+    const { token } = await req.json();
+    const result = await findConsentRequest(token);
+
+    if ('error' in result) {
+      statusCode = result.status;
+      await SecurityLogger.logEvent(
+        'invalid_token',
+        req,
+        { reason: result.error, tokenType: 'parental_consent' },
+        undefined,
+        'medium'
+      );
+
+      return NextResponse.json(
+        { success: false, message: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { user, payload } = result;
+    const approved = payload.action === 'approve';
+    const now = new Date();
+
+    user.parentConsentEvents.push({
+      action: approved ? 'approved' : 'denied',
+      parentEmail: user.parentEmail!,
+      ipAddress: getRequestIP(req),
+      userAgent: req.headers.get('user-agent') || 'unknown',
+      timestamp: now,
+    });
+
+    user.parentConsent = approved;
+    user.parentConsentStatus = approved ? 'granted' : 'denied';
+    user.parentConsentDate = now;
+    // Each link works once
+    user.parentConsentRequestId = undefined;
+
+    if (approved) {
+      user.accountStatus = 'active';
+    } else {
+      user.accountStatus = 'inactive';
+      user.isActive = false;
+    }
+
+    await user.save();
+
+    await SecurityLogger.logEvent(
+      'parental_consent',
+      req,
+      { decision: payload.action, childId: user._id.toString(), parentEmail: user.parentEmail },
+      user._id.toString(),
+      approved ? 'low' : 'medium'
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: approved
+        ? `Thank you! ${user.name} can now use all of Mintoons.`
+        : `${user.name}'s account has been deactivated.`,
+      data: {
+        parentConsentStatus: user.parentConsentStatus,
+      },
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to record parental consent',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to record your decision' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/user/parental-consent',
+      'POST',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -5,6 +5,7 @@ import { connectToDatabase } from '@/utils/db';
 import User from '@/models/User';
 import Story from '@/models/Story';
 import Achievement from '@/models/Achievement';
+import { requireLinkedChildApi } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
@@ -20,7 +21,20 @@ export async function GET(request: NextRequest) {
 
     await connectToDatabase();
 
-    const userId = session.user.id;
+    // Parents can open a linked child's progress read-only
+    const childId = new URL(request.url).searchParams.get('childId');
+    let userId = session.user.id;
+
+    if (childId) {
+      const linkResult = await requireLinkedChildApi(session.user.id, childId);
+      if ('error' in linkResult) {
+        return NextResponse.json(
+          { success: false, message: linkResult.error },
+          { status: linkResult.status }
+        );
+      }
+      userId = childId;
+    }
 
     // Get user data
     const user = await User.findById(userId)
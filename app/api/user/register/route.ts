@@ -5,7 +5,9 @@ import User from '@/models/User';
 import { registerSchema } from '@/lib/validations';
 import { checkAuthRateLimit } from '@/lib/rate-limit';
 import { SecurityLogger, ContentFilter } from '@/lib/security';
-import { sendWelcomeEmail } from '@/lib/email';
+import { queueEmail } from '@/lib/email';
+import { requireParentalConsent } from '@/lib/auth';
+import { requestParentalConsent } from '@/lib/parental-consent';
 import { trackUserRegistration } from '@/lib/analytics';
 import { logError, trackAPIPerformance } from '@/lib/monitoring';
 
@@ -42,7 +44,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { name, email, password, age, parentEmail, agreedToTerms } = validation.data;
+    const { name, email, password, age, parentEmail, accountType, agreedToTerms } = validation.data;
+    const isParentAccount = accountType === 'parent';
 
     // Content filtering for name
     const nameFilter = ContentFilter.filterContent(name);
@@ -98,7 +101,7 @@ export async function POST(req: NextRequest) {
     const hashedPassword = await bcrypt.hash(password, 12);
 
     // Check if parental consent is needed (COPPA compliance)
-    const needsParentalConsent = age < 13;
+    const needsParentalConsent = !isParentAccount && age !== undefined && requireParentalConsent(age);
     if (needsParentalConsent && !parentEmail) {
       statusCode = 400;
       return NextResponse.json(
@@ -118,11 +121,14 @@ export async function POST(req: NextRequest) {
       name: nameFilter.cleanedContent,
       email: email.toLowerCase(),
       password: hashedPassword,
-      age,
-      parentEmail: parentEmail?.toLowerCase(),
-      role: 'user',
+      age: isParentAccount ? undefined : age,
+      parentEmail: isParentAccount ? undefined : parentEmail?.toLowerCase(),
+      role: isParentAccount ? 'parent' : 'child',
       isActive: true,
       needsParentalConsent,
+      // Under-13 accounts stay pending until the parent follows the approve link
+      accountStatus: needsParentalConsent ? 'pending_verification' : 'active',
+      parentConsentStatus: needsParentalConsent ? 'pending' : 'not_required',
       agreedToTerms,
       agreedToTermsAt: new Date(),
       lastLoginAt: new Date(),
@@ -133,13 +139,14 @@ export async function POST(req: NextRequest) {
     // Track registration
     await trackUserRegistration(user._id.toString(), {
       age,
+      accountType,
       needsParentalConsent,
       source: req.headers.get('referer') || 'direct',
     });
 
-    // Send welcome email
+    // Queue the welcome email; the key stops a retried request sending it twice
     try {
-      await sendWelcomeEmail(email, name);
+      await queueEmail(email, 'welcome', { name }, { idempotencyKey: `welcome:${user._id}` });
     } catch (emailError) {
       // Log error but don't fail registration
       await logError(
@@ -149,11 +156,25 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Ask the parent for consent; the child can resend from their dashboard if this fails
+    let consentEmailSent = false;
+    if (needsParentalConsent) {
+      try {
+        consentEmailSent = await requestParentalConsent(user);
+      } catch (consentError) {
+        await logError(
+          'Failed to send parental consent email',
+          { userId: user._id.toString() },
+          { error: consentError }
+        );
+      }
+    }
+
     // Log successful registration
     await SecurityLogger.logEvent(
       'user_registered',
       req,
-      { userId: user._id.toString(), age, needsParentalConsent },
+      { userId: user._id.toString(), age, accountType, needsParentalConsent },
       user._id.toString(),
       'info'
     );
@@ -165,6 +186,8 @@ export async function POST(req: NextRequest) {
       email: user.email,
       age: user.age,
       role: user.role,
+      accountStatus: user.accountStatus,
+      parentConsentStatus: user.parentConsentStatus,
       createdAt: user.createdAt,
     };
 
@@ -172,8 +195,11 @@ export async function POST(req: NextRequest) {
     return NextResponse.json(
       {
         success: true,
-        message: 'User registered successfully',
+        message: needsParentalConsent
+          ? 'Account created. We have emailed your parent to approve it.'
+          : 'User registered successfully',
         user: userResponse,
+        consentEmailSent: needsParentalConsent ? consentEmailSent : undefined,
       },
       { status: 201 }
     );
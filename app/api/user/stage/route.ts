@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuthApi, requireLinkedChildApi } from '@/lib/auth';
+import { getStageOverview } from '@/lib/progression';
+import { logError, trackAPIPerformance } from '@/lib/monitoring';
+
+export const dynamic = 'force-dynamic';
+
+// GET - The writer's stage, what it unlocks and how close the next one is.
+// Parents can pass ?childId= for a linked child.
+export async function GET(req: NextRequest) {
+  const startTime = performance.now();
+  let statusCode = 200;
+
+  try {
+    const authResult = await requireAuthApi();
+    if ('error' in authResult) {
+      statusCode = authResult.status;
+      return NextResponse.json(
+        { success: false, message: authResult.error },
+        { status: authResult.status }
+      );
+    }
+
+    const user = authResult.user;
+    const childId = new URL(req.url).searchParams.get('childId');
+    let userId = user.id;
+
+    if (childId) {
+      const linkResult = await requireLinkedChildApi(user.id, childId);
+      if ('error' in linkResult) {
+        statusCode = linkResult.status;
+        return NextResponse.json(
+          { success: false, message: linkResult.error },
+          { status: linkResult.status }
+        );
+      }
+      userId = childId;
+    }
+
+    const overview = await getStageOverview(userId);
+    if (!overview) {
+      statusCode = 404;
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: overview,
+    });
+
+  } catch (error) {
+    statusCode = 500;
+
+    await logError(
+      'Failed to load writing stage',
+      {
+        url: req.url,
+        method: req.method,
+        userAgent: req.headers.get('user-agent'),
+      },
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      error instanceof Error ? error.stack : undefined
+    );
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to load writing stage' },
+      { status: 500 }
+    );
+  } finally {
+    const responseTime = performance.now() - startTime;
+    await trackAPIPerformance(
+      '/api/user/stage',
+      'GET',
+      responseTime,
+      statusCode
+    );
+  }
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { signOut } from 'next-auth/react';
+import { Download, Trash2, Lock, FileArchive } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/app/components/ui/card';
+import { Button } from '@/app/components/ui/button';
+import { Badge } from '@/app/components/ui/badge';
+import { Input } from '@/app/components/ui/input';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+  ModalFooter,
+} from '@/app/components/ui/modal';
+import { showToast } from '@/app/components/ui/toast';
+
+interface DataExport {
+  id: string;
+  userId: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  fileSize?: number;
+  expiresAt?: string;
+  downloadUrl: string | null;
+  createdAt: string;
+}
+
+interface DataRightsPanelProps {
+  // Set when a parent manages a linked child's data
+  childId?: string;
+  childName?: string;
+  onErased?: () => void;
+}
+
+function formatSize(bytes?: number) {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function DataRightsPanel({ childId, childName, onErased }: DataRightsPanelProps) {
+  const [exports, setExports] = useState<DataExport[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [password, setPassword] = useState('');
+  const [erasing, setErasing] = useState(false);
+
+  const subjectLabel = childName ? `${childName}'s` : 'your';
+
+  const fetchExports = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/data-export');
+      const data = await response.json();
+      if (data.success) {
+        setExports(
+          (data.data.exports as DataExport[]).filter(item => !childId || item.userId === childId)
+        );
+      }
+    } catch (error) {
+      console.error('Error fetching data exports:', error);
+    }
+  }, [childId]);
+
+  useEffect(() => {
+    fetchExports();
+  }, [fetchExports]);
+
+  const requestExport = async () => {
+    setExporting(true);
+    try {
+      const response = await fetch('/api/user/data-export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(childId ? { childId } : {}),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to prepare export');
+      }
+
+      showToast.success('Export ready', 'Your download link is below and in your notifications.');
+      await fetchExports();
+    } catch (error) {
+      showToast.error('Export failed', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const requestErasure = async () => {
+    setErasing(true);
+    try {
+      const response = await fetch('/api/user/data-erasure', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...(childId ? { childId } : {}), password, confirm: true }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.errors?.password || data.message || 'Failed to delete account');
+      }
+
+      setConfirmOpen(false);
+      setPassword('');
+      showToast.success('Account deleted', `Receipt ${data.data.receipt.receiptHash.slice(0, 12)} was emailed to you.`);
+
+      if (data.data.signOut) {
+        await signOut({ callbackUrl: '/' });
+        return;
+      }
+
+      onErased?.();
+    } catch (error) {
+      showToast.error('Deletion failed', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setErasing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileArchive className="w-5 h-5 mr-2 text-blue-500" />
+          {childName ? `${childName}'s data` : 'Your data'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <p className="text-sm text-gray-600 mb-3">
+            Download a copy of {subjectLabel} profile, stories and their history, comments,
+            achievements, notifications and activity, with a PDF of every story.
+          </p>
+          <Button variant="outline" onClick={requestExport} loading={exporting}>
+            <Download className="w-4 h-4 mr-2" />
+            {exporting ? 'Preparing export...' : 'Download data'}
+          </Button>
+
+          {exports.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {exports.map(item => (
+                <div key={item.id} className="flex items-center justify-between text-sm border rounded-lg p-3">
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {new Date(item.createdAt).toLocaleDateString()}
+                      {item.fileSize ? ` · ${formatSize(item.fileSize)}` : ''}
+                    </div>
+                    {item.expiresAt && item.status === 'completed' && (
+                      <div className="text-xs text-gray-500">
+                        Available until {new Date(item.expiresAt).toLocaleDateString()}
+                      </div>
+                    )}
+                  </div>
+                  {item.downloadUrl ? (
+                    <a href={item.downloadUrl} className="text-blue-600 hover:underline font-medium">
+                      Download
+                    </a>
+                  ) : (
+                    <Badge variant={item.status === 'failed' ? 'warning' : 'gray'}>
+                      {item.status === 'completed' ? 'expired' : item.status}
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="pt-6 border-t">
+          <h4 className="text-sm font-semibold text-red-700 mb-1">Delete account</h4>
+          <p className="text-sm text-gray-600 mb-3">
+            Permanently deletes {subjectLabel} account, stories, comments, achievements and files.
+            This cannot be undone. A deletion receipt is emailed when it is done.
+          </p>
+          <Button variant="danger" onClick={() => setConfirmOpen(true)}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete account
+          </Button>
+        </div>
+      </CardContent>
+
+      <Modal open={confirmOpen} onOpenChange={(open) => !erasing && setConfirmOpen(open)}>
+        <ModalContent variant="destructive" size="sm">
+          <ModalHeader>
+            <ModalTitle>Delete {childName ? `${childName}'s account` : 'your account'}?</ModalTitle>
+            <ModalDescription>
+              Everything will be removed for good. Download the data first if you want to keep a copy.
+            </ModalDescription>
+          </ModalHeader>
+          <div className="mt-4">
+            <Input
+              type="password"
+              label="Enter your password to confirm"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              leftIcon={<Lock className="w-4 h-4" />}
+              disabled={erasing}
+            />
+          </div>
+          <ModalFooter className="mt-6">
+            <Button variant="outline" onClick={() => setConfirmOpen(false)} disabled={erasing}>
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={requestErasure} loading={erasing} disabled={!password}>
+              Delete permanently
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </Card>
+  );
+}
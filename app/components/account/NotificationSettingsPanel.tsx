@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Bell, BellOff, Moon } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/app/components/ui/card';
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { showToast } from '@/app/components/ui/toast';
+
+interface NotificationSettings {
+  emailNotifications: Record<string, boolean>;
+  quietHours: { enabled: boolean; start: string; end: string; timezone: string };
+  digests: Record<string, string>;
+  push: { publicKey: string | null; browsers: number };
+}
+
+const EMAIL_LABELS: Record<string, string> = {
+  storyCompleted: 'My stories are finished or marked',
+  mentorComments: 'Mentor comments',
+  achievements: 'Achievements and new stages',
+  weeklyProgress: 'Weekly progress',
+  marketing: 'News from Mintoons',
+};
+
+const DIGEST_LABELS: Record<string, string> = {
+  writing: 'Stories',
+  feedback: 'Comments and marking',
+  classroom: 'Classes and assignments',
+  achievement: 'Achievements',
+  progress: 'Progress',
+  social: 'Collaboration',
+};
+
+const DIGEST_FREQUENCIES: Record<string, string> = {
+  instant: 'As they happen',
+  hourly: 'Hourly digest',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+const DEFAULT_QUIET_HOURS = { enabled: false, start: '20:00', end: '07:00', timezone: 'UTC' };
+
+// The browser wants the VAPID key as bytes
+function keyToBytes(base64url: string): Uint8Array {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(base64url.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+export default function NotificationSettingsPanel() {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [pushEndpoint, setPushEndpoint] = useState<string | null>(null);
+  const [isSwitchingPush, setIsSwitchingPush] = useState(false);
+
+  const pushSupported = typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window;
+
+  useEffect(() => {
+    fetchSettings();
+    if (pushSupported) {
+      navigator.serviceWorker.ready
+        .then(registration => registration.pushManager.getSubscription())
+        .then(subscription => setPushEndpoint(subscription?.endpoint || null))
+        .catch(() => setPushEndpoint(null));
+    }
+  }, [pushSupported]);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/notifications/settings');
+      const data = await response.json();
+      if (data.success) {
+        setSettings({
+          ...data.data,
+          emailNotifications: data.data.emailNotifications || {},
+          digests: data.data.digests || {},
+          quietHours: data.data.quietHours || {
+            ...DEFAULT_QUIET_HOURS,
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching notification settings:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setIsSaving(true);
+    setErrors({});
+    try {
+      const response = await fetch('/api/notifications/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          emailNotifications: settings.emailNotifications,
+          quietHours: settings.quietHours,
+          digests: settings.digests,
+        }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        showToast.success('Notification settings saved', '');
+      } else {
+        setErrors(data.errors || { general: data.message });
+      }
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      showToast.error('Could not save settings', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const togglePush = async () => {
+    if (!settings?.push.publicKey) return;
+    setIsSwitchingPush(true);
+    try {
+      const registration = await navigator.serviceWorker.ready;
+
+      if (pushEndpoint) {
+        const subscription = await registration.pushManager.getSubscription();
+        await subscription?.unsubscribe();
+        await fetch('/api/notifications/push', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ endpoint: pushEndpoint }),
+        });
+        setPushEndpoint(null);
+        return;
+      }
+
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: keyToBytes(settings.push.publicKey),
+      });
+      const response = await fetch('/api/notifications/push', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(subscription.toJSON()),
+      });
+      if (response.ok) {
+        setPushEndpoint(subscription.endpoint);
+      } else {
+        await subscription.unsubscribe();
+        const data = await response.json();
+        showToast.error('Could not turn on browser notifications', data.message);
+      }
+    } catch (error) {
+      console.error('Error switching browser notifications:', error);
+      showToast.error('Could not change browser notifications', 'Check that notifications are allowed for this site');
+    } finally {
+      setIsSwitchingPush(false);
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  const quietHours = settings.quietHours;
+  const setQuietHours = (changes: Partial<NotificationSettings['quietHours']>) =>
+    setSettings(current => current && { ...current, quietHours: { ...current.quietHours, ...changes } });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Bell className="w-5 h-5 mr-2 text-purple-500" />
+          Notifications
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Email me about</h4>
+          <div className="space-y-2">
+            {Object.entries(EMAIL_LABELS).map(([key, label]) => (
+              <label key={key} className="flex items-center justify-between text-sm">
+                <span>{label}</span>
+                <input
+                  type="checkbox"
+                  checked={settings.emailNotifications[key] !== false}
+                  onChange={(e) => setSettings(current => current && {
+                    ...current,
+                    emailNotifications: { ...current.emailNotifications, [key]: e.target.checked },
+                  })}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">How often</h4>
+          <p className="text-xs text-gray-500 mb-2">
+            A digest gathers everything of one kind into a single summary. Important notifications still arrive straight away.
+          </p>
+          <div className="space-y-2">
+            {Object.entries(DIGEST_LABELS).map(([category, label]) => (
+              <label key={category} className="flex items-center justify-between text-sm">
+                <span>{label}</span>
+                <select
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                  value={settings.digests[category] || 'instant'}
+                  onChange={(e) => setSettings(current => current && {
+                    ...current,
+                    digests: { ...current.digests, [category]: e.target.value },
+                  })}
+                >
+                  {Object.entries(DIGEST_FREQUENCIES).map(([value, text]) => (
+                    <option key={value} value={value}>{text}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="flex items-center justify-between text-sm font-semibold text-gray-900">
+            <span className="flex items-center">
+              <Moon className="w-4 h-4 mr-2 text-indigo-500" />
+              Quiet hours
+            </span>
+            <input
+              type="checkbox"
+              checked={quietHours.enabled}
+              onChange={(e) => setQuietHours({ enabled: e.target.checked })}
+            />
+          </label>
+          <p className="text-xs text-gray-500 mt-1">
+            Emails and browser notifications wait until quiet hours end. Notifications still appear in Mintoons.
+          </p>
+          {quietHours.enabled && (
+            <div className="grid grid-cols-3 gap-3 mt-3">
+              <Input
+                label="From"
+                type="time"
+                value={quietHours.start}
+                onChange={(e) => setQuietHours({ start: e.target.value })}
+                error={errors['quietHours.start']}
+              />
+              <Input
+                label="Until"
+                type="time"
+                value={quietHours.end}
+                onChange={(e) => setQuietHours({ end: e.target.value })}
+                error={errors['quietHours.end']}
+              />
+              <Input
+                label="Timezone"
+                value={quietHours.timezone}
+                onChange={(e) => setQuietHours({ timezone: e.target.value })}
+                error={errors['quietHours.timezone']}
+              />
+            </div>
+          )}
+        </div>
+
+        {errors.general && <p className="text-sm text-red-600">{errors.general}</p>}
+
+        <div className="flex items-center space-x-3">
+          <Button size="sm" onClick={handleSave} loading={isSaving}>
+            Save notification settings
+          </Button>
+          {pushSupported && settings.push.publicKey && (
+            <Button variant="outline" size="sm" onClick={togglePush} loading={isSwitchingPush}>
+              {pushEndpoint
+                ? <><BellOff className="w-4 h-4 mr-2" />Turn off browser notifications</>
+                : <><Bell className="w-4 h-4 mr-2" />Turn on browser notifications</>}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
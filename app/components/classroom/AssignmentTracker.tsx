@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ClipboardList, CheckCircle, Clock, AlertCircle } from 'lucide-react';
+
+interface TrackedAssignment {
+  id: string;
+  classroomId: string;
+  className: string;
+  title: string;
+  dueDate?: string;
+  submissions: {
+    submitted: number;
+    late: number;
+    missing: number;
+    in_progress: number;
+    not_started: number;
+  };
+  missing: Array<{ userId: string; name: string }>;
+}
+
+export default function AssignmentTracker() {
+  const [assignments, setAssignments] = useState<TrackedAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, []);
+
+  const fetchAssignments = async () => {
+    try {
+      const response = await fetch('/api/mentor/assignments');
+      if (response.ok) {
+        const data = await response.json();
+        setAssignments(data.data.assignments);
+      }
+    } catch (error) {
+      console.error('Error fetching assignments:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading || assignments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg border">
+      <div className="p-6 border-b flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center">
+          <ClipboardList className="w-5 h-5 mr-2 text-purple-500" />
+          Assignments
+        </h2>
+        <Link href="/classes" className="text-sm text-purple-600 hover:underline">All classes</Link>
+      </div>
+
+      <ul className="divide-y">
+        {assignments.map(assignment => {
+          const { submitted, late, missing, in_progress, not_started } = assignment.submissions;
+          const total = submitted + late + missing + in_progress + not_started;
+
+          return (
+            <li key={assignment.id} className="p-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <Link
+                    href={`/classes/${assignment.classroomId}`}
+                    className="font-medium text-gray-900 hover:text-purple-700"
+                  >
+                    {assignment.title}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {assignment.className}
+                    {assignment.dueDate && ` · due ${new Date(assignment.dueDate).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3 text-sm">
+                  <span className="flex items-center text-green-700" title="Handed in on time">
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    {submitted}/{total}
+                  </span>
+                  {late > 0 && (
+                    <span className="flex items-center text-yellow-700" title="Handed in late">
+                      <Clock className="w-4 h-4 mr-1" />
+                      {late}
+                    </span>
+                  )}
+                  {missing > 0 && (
+                    <span className="flex items-center text-red-700" title="Past due, not handed in">
+                      <AlertCircle className="w-4 h-4 mr-1" />
+                      {missing}
+                    </span>
+                  )}
+                </div>
+              </div>
+              {assignment.missing.length > 0 && (
+                <p className="text-xs text-red-700 mt-2">
+                  Missing: {assignment.missing.map(student => student.name).join(', ')}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { School, ClipboardList } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/app/components/ui/card';
+import { showToast } from '@/app/components/ui/toast';
+
+interface MyClass {
+  id: string;
+  name: string;
+  mentorName: string;
+  assignments: Array<{
+    id: string;
+    title: string;
+    instructions: string;
+    dueDate?: string;
+    storyId?: string;
+    status: 'submitted' | 'late' | 'missing' | 'in_progress' | 'not_started';
+  }>;
+}
+
+const STATUS_LABELS: Record<MyClass['assignments'][number]['status'], { label: string; className: string }> = {
+  submitted: { label: 'Handed in', className: 'text-green-700' },
+  late: { label: 'Handed in late', className: 'text-yellow-700' },
+  missing: { label: 'Overdue', className: 'text-red-700' },
+  in_progress: { label: 'Writing', className: 'text-blue-700' },
+  not_started: { label: 'Not started', className: 'text-gray-500' },
+};
+
+export default function JoinClassCard() {
+  const [classes, setClasses] = useState<MyClass[]>([]);
+  const [joinCode, setJoinCode] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    fetchClasses();
+  }, []);
+
+  const fetchClasses = async () => {
+    try {
+      const response = await fetch('/api/user/classes');
+      if (response.ok) {
+        const data = await response.json();
+        setClasses(data.data.classrooms);
+      }
+    } catch (error) {
+      console.error('Error fetching classes:', error);
+    }
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) return;
+
+    setIsJoining(true);
+    try {
+      const response = await fetch('/api/user/classes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ joinCode: joinCode.trim() }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast.success('Welcome to your class!', data.message);
+        setJoinCode('');
+        fetchClasses();
+      } else {
+        showToast.error('Could not join', data.message);
+      }
+    } catch (error) {
+      console.error('Error joining class:', error);
+      showToast.error('Could not join', 'Please try again');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <School className="h-5 w-5 mr-2" />
+          My Classes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {classes.map(classroom => (
+          <div key={classroom.id}>
+            <p className="font-medium text-gray-900">{classroom.name}</p>
+            <p className="text-xs text-gray-500">with {classroom.mentorName}</p>
+            {classroom.assignments.map(assignment => (
+              <div key={assignment.id} className="flex items-start mt-2 text-sm text-gray-700">
+                <ClipboardList className="h-4 w-4 mr-2 mt-0.5 text-purple-500 flex-shrink-0" />
+                <span className="flex-1">
+                  {assignment.title}
+                  {assignment.dueDate && (
+                    <span className="block text-xs text-gray-500">
+                      Due {new Date(assignment.dueDate).toLocaleDateString()}
+                    </span>
+                  )}
+                  <span className={`block text-xs ${STATUS_LABELS[assignment.status].className}`}>
+                    {STATUS_LABELS[assignment.status].label}
+                  </span>
+                </span>
+                <Link
+                  href={assignment.storyId ? `/story/${assignment.storyId}` : `/create-stories?assignment=${assignment.id}`}
+                  className="text-xs text-purple-600 hover:underline ml-2"
+                >
+                  {assignment.storyId ? 'Open' : 'Start'}
+                </Link>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        <form onSubmit={handleJoin} className="space-y-2">
+          <Input
+            label={classes.length > 0 ? 'Join another class' : 'Got a class code?'}
+            value={joinCode}
+            onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+            placeholder="e.g. K7MX2P"
+            maxLength={12}
+            className="font-mono tracking-widest"
+          />
+          <Button type="submit" variant="outline" size="sm" loading={isJoining} className="w-full">
+            Join class
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Sprout, Lock, CheckCircle } from 'lucide-react';
+
+interface StageInfo {
+  stage: number;
+  name: string;
+  targetWordCount: number;
+  unlocks: Record<string, string[]>;
+}
+
+interface StageOverview {
+  stage: StageInfo & { maxAIAssistance: string };
+  nextStage: StageInfo | null;
+  aiAssistanceLevel: 'minimal' | 'normal' | 'maximum';
+  outlook: {
+    decision: 'promoted' | 'held' | 'top_stage';
+    evidence: { storiesConsidered: number; averageScore: number; averageWords: number; aiShare: number };
+    reasons: string[];
+  };
+}
+
+interface StageCardProps {
+  childId?: string;
+}
+
+const ASSISTANCE_LABELS = {
+  maximum: 'Lots of AI help',
+  normal: 'Some AI help',
+  minimal: 'A little AI help',
+};
+
+export default function StageCard({ childId }: StageCardProps) {
+  const [overview, setOverview] = useState<StageOverview | null>(null);
+
+  useEffect(() => {
+    fetchStage();
+  }, [childId]);
+
+  const fetchStage = async () => {
+    try {
+      const response = await fetch(
+        childId ? `/api/user/stage?childId=${encodeURIComponent(childId)}` : '/api/user/stage'
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setOverview(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching stage:', error);
+    }
+  };
+
+  if (!overview) {
+    return null;
+  }
+
+  const { stage, nextStage, outlook } = overview;
+  const nextUnlocks = nextStage ? Object.values(nextStage.unlocks).flat() : [];
+
+  return (
+    <div className="bg-white rounded-lg border p-6">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="w-12 h-12 rounded-full bg-green-100 flex items-center justify-center">
+            <Sprout className="w-6 h-6 text-green-600" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Stage {stage.stage} of 5</p>
+            <h3 className="text-xl font-bold text-gray-900">{stage.name}</h3>
+          </div>
+        </div>
+        <div className="text-right text-sm text-gray-600">
+          <p>Stories aim for {stage.targetWordCount} words</p>
+          <p>{ASSISTANCE_LABELS[overview.aiAssistanceLevel]}</p>
+        </div>
+      </div>
+
+      {nextStage && (
+        <div className="mt-4 pt-4 border-t">
+          <p className="text-sm font-medium text-gray-800 mb-2">
+            {outlook.decision === 'promoted'
+              ? `Ready for Stage ${nextStage.stage}: ${nextStage.name}. Publish your next story to move up!`
+              : `To reach Stage ${nextStage.stage}: ${nextStage.name}`}
+          </p>
+          {outlook.decision === 'held' && (
+            <ul className="space-y-1">
+              {outlook.reasons.map(reason => (
+                <li key={reason} className="flex items-start text-sm text-gray-600">
+                  <CheckCircle className="w-4 h-4 mr-2 mt-0.5 text-gray-300 flex-shrink-0" />
+                  {reason}
+                </li>
+              ))}
+            </ul>
+          )}
+          {nextUnlocks.length > 0 && (
+            <p className="flex items-center text-xs text-gray-500 mt-3">
+              <Lock className="w-3 h-3 mr-1" />
+              Unlocks {nextUnlocks.join(', ')} and {nextStage.targetWordCount}-word stories
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -39,6 +39,8 @@ interface NotificationData {
   timestamp: string;
   read: boolean;
   actionUrl?: string;
+  count?: number; // more than one when updates about the same thing collapsed
+  groupedIds?: string[];
 }
 
 export default function Header() {
@@ -77,16 +79,19 @@ export default function Header() {
     }
   };
 
-  const markNotificationAsRead = async (notificationId: string) => {
+  // A collapsed entry marks every notification it stands for
+  const markNotificationAsRead = async (notification: NotificationData) => {
     try {
-      const response = await fetch(`/api/notifications/${notificationId}/read`, {
-        method: 'PATCH',
-      });
+      const responses = await Promise.all(
+        (notification.groupedIds || [notification.id]).map(id =>
+          fetch(`/api/notifications/${id}/read`, { method: 'PATCH' })
+        )
+      );
 
-      if (response.ok) {
+      if (responses.some(response => response.ok)) {
         setNotifications(prev =>
           prev.map(notif =>
-            notif.id === notificationId ? { ...notif, read: true } : notif
+            notif.id === notification.id ? { ...notif, read: true } : notif
           )
         );
       }
@@ -141,6 +146,7 @@ export default function Header() {
       icon: PlusCircle,
       current: pathname === '/create-stories',
       requireAuth: true,
+      writerOnly: true,
       highlight: true,
     },
     {
@@ -149,6 +155,7 @@ export default function Header() {
       icon: BookOpen,
       current: pathname === '/my-stories',
       requireAuth: true,
+      writerOnly: true,
     },
     {
       name: 'Progress',
@@ -156,6 +163,7 @@ export default function Header() {
       icon: Award,
       current: pathname === '/progress',
       requireAuth: true,
+      writerOnly: true,
     },
   ];
 
@@ -216,6 +224,7 @@ export default function Header() {
           <nav className="hidden md:flex items-center space-x-1">
             {navigation.map((item) => {
               if (item.requireAuth && !session) return null;
+              if (item.writerOnly && session?.user?.role === 'parent') return null;
               
               return (
                 <Link key={item.name} href={item.href}>
@@ -257,6 +266,23 @@ export default function Header() {
               </>
             )}
 
+            {session?.user?.role === 'parent' && (
+              <Link href="/parent-dashboard">
+                <motion.div
+                  className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    pathname.startsWith('/parent-dashboard')
+                      ? 'bg-green-100 text-green-700'
+                      : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                  whileHover={{ scale: 1.02 }}
+                  transition={{ duration: 0.2 }}
+                >
+                  <Users className="w-4 h-4" />
+                  <span>Family Dashboard</span>
+                </motion.div>
+              </Link>
+            )}
+
             {session?.user?.role === 'mentor' && (
               <Link href="/mentor-dashboard">
                 <motion.div
@@ -332,7 +358,7 @@ export default function Header() {
                                   !notification.read ? 'bg-blue-50' : ''
                                 }`}
                                 onClick={() => {
-                                  markNotificationAsRead(notification.id);
+                                  markNotificationAsRead(notification);
                                   if (notification.actionUrl) {
                                     router.push(notification.actionUrl);
                                   }
@@ -345,6 +371,9 @@ export default function Header() {
                                     <div className="flex items-center justify-between">
                                       <p className="text-sm font-medium text-gray-900 truncate">
                                         {notification.title}
+                                        {notification.count && notification.count > 1 && (
+                                          <span className="ml-2 text-xs text-gray-500">+{notification.count - 1} more</span>
+                                        )}
                                       </p>
                                       {!notification.read && (
                                         <div className="w-2 h-2 bg-blue-500 rounded-full ml-2"></div>
@@ -512,6 +541,7 @@ export default function Header() {
               <div className="py-4 space-y-2">
                 {navigation.map((item) => {
                   if (item.requireAuth && !session) return null;
+                  if (item.writerOnly && session?.user?.role === 'parent') return null;
                   
                   return (
                     <Link key={item.name} href={item.href}>
@@ -22,6 +22,8 @@ import {
   FileText,
   TrendingUp,
   Shield,
+  School,
+  ListChecks,
 } from 'lucide-react';
 
 export default function MentorSidebar() {
@@ -49,6 +51,18 @@ export default function MentorSidebar() {
       icon: Users,
       description: 'Manage student relationships',
     },
+    {
+      name: 'Classes',
+      href: '/classes',
+      icon: School,
+      description: 'Rosters, join codes and assignments',
+    },
+    {
+      name: 'Rubrics',
+      href: '/rubrics',
+      icon: ListChecks,
+      description: 'Criteria and level descriptors for marking',
+    },
     {
       name: 'Feedback History',
       href: '/mentor/feedback',
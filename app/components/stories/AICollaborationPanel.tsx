@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { Bot, Send, Lightbulb, RefreshCw, Star, ThumbsUp, ThumbsDown, Copy } from 'lucide-react';
 
 interface AICollaborationPanelProps {
+  storyId?: string;
   storyContent: string;
   onInsertText: (text: string) => void;
   onReplaceText: (oldText: string, newText: string) => void;
@@ -17,9 +18,14 @@ interface AISuggestion {
   content: string;
   context?: string;
   rating?: number;
+  recorded?: boolean; // already saved to the story's AI sessions
 }
 
+// Single-text suggestions are streamed so young writers see words appear right away
+const STREAMED_TYPES = ['continuation', 'character', 'plot', 'dialogue', 'story_starter', 'custom'];
+
 export default function AICollaborationPanel({
+  storyId,
   storyContent,
   onInsertText,
   onReplaceText,
@@ -32,6 +38,8 @@ export default function AICollaborationPanel({
   const [isLoading, setIsLoading] = useState(false);
   const [customPrompt, setCustomPrompt] = useState('');
   const [selectedText, setSelectedText] = useState('');
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [streamNotice, setStreamNotice] = useState<string | null>(null);
   
   const predefinedPrompts = [
     {
@@ -66,25 +74,87 @@ export default function AICollaborationPanel({
     }
   ];
   
+  const buildRequestBody = (type: string, prompt?: string) => JSON.stringify({
+    storyId,
+    storyContent,
+    selectedText,
+    type,
+    prompt,
+    genre: storyGenre,
+    targetAge,
+    context: {
+      wordCount: storyContent.split(' ').length,
+      lastParagraph: storyContent.split('\n\n').slice(-1)[0]
+    }
+  });
+
+  const streamSuggestion = async (type: string, prompt?: string) => {
+    setIsLoading(true);
+    setActiveTab('suggestions');
+    setStreamingText('');
+    setStreamNotice(null);
+
+    try {
+      const response = await fetch('/api/stories/ai-collaborate/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: buildRequestBody(type, prompt)
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error('Streaming request failed');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const raw of events) {
+          const event = raw.match(/^event: (.*)$/m)?.[1];
+          const data = JSON.parse(raw.match(/^data: (.*)$/m)?.[1] || '{}');
+
+          if (event === 'token') {
+            setStreamingText(prev => (prev || '') + data.text);
+          } else if (event === 'done') {
+            setSuggestions([{ ...data.suggestion, recorded: data.sessionNumber !== undefined }]);
+          } else if (event === 'moderated') {
+            setSuggestions([]);
+            setStreamNotice('That idea was stopped because it was not right for your story. Try asking again!');
+          } else if (event === 'error') {
+            setStreamNotice('The assistant could not finish that idea. Please try again.');
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error streaming AI suggestion:', error);
+      setStreamNotice('The assistant could not finish that idea. Please try again.');
+    } finally {
+      setStreamingText(null);
+      setIsLoading(false);
+    }
+  };
+
   const generateSuggestions = async (type: string, prompt?: string) => {
+    if (STREAMED_TYPES.includes(type)) {
+      return streamSuggestion(type, prompt);
+    }
+
     setIsLoading(true);
+    setStreamNotice(null);
     
     try {
-      const response = await fetch('/api/stories/ai-collaboration', {
+      const response = await fetch('/api/stories/ai-collaborate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          storyContent,
-          selectedText,
-          type,
-          prompt,
-          genre: storyGenre,
-          targetAge,
-          context: {
-            wordCount: storyContent.split(' ').length,
-            lastParagraph: storyContent.split('\n\n').slice(-1)[0]
-          }
-        })
+        body: buildRequestBody(type, prompt)
       });
       
       if (response.ok) {
@@ -111,10 +181,10 @@ export default function AICollaborationPanel({
     
     // Send rating to backend for learning
     try {
-      await fetch('/api/stories/ai-collaboration/rate', {
-        method: 'POST',
+      await fetch('/api/stories/ai-collaborate', {
+        method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ suggestionId, rating, storyContent })
+        body: JSON.stringify({ suggestionId, rating })
       });
     } catch (error) {
       console.error('Error rating suggestion:', error);
@@ -126,8 +196,26 @@ export default function AICollaborationPanel({
     // You could add a toast notification here
   };
   
-  const insertSuggestion = (suggestion: AISuggestion) => {
+  const insertSuggestion = async (suggestion: AISuggestion) => {
     onInsertText(suggestion.content);
+
+    // Record accepted suggestions on saved stories so mentors can see AI help
+    if (!storyId || suggestion.recorded) return;
+    try {
+      await fetch('/api/stories/ai-collaborate', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          suggestionId: suggestion.id,
+          accepted: true,
+          storyId,
+          suggestion: { type: suggestion.type, content: suggestion.content },
+          childInput: storyContent.split('\n\n').slice(-1)[0]
+        })
+      });
+    } catch (error) {
+      console.error('Error recording accepted suggestion:', error);
+    }
   };
   
   useEffect(() => {
@@ -220,8 +308,24 @@ export default function AICollaborationPanel({
                   </button>
                 </div>
                 
+                {/* Streaming */}
+                {streamingText !== null && (
+                  <div className="border border-purple-200 rounded-lg p-3 mb-3 bg-purple-50">
+                    <p className="text-sm text-gray-700">
+                      {streamingText}
+                      <span className="inline-block w-1.5 h-4 ml-0.5 bg-purple-500 animate-pulse align-middle" />
+                    </p>
+                  </div>
+                )}
+
+                {streamNotice && (
+                  <div className="border border-yellow-200 rounded-lg p-3 mb-3 bg-yellow-50 text-sm text-yellow-800">
+                    {streamNotice}
+                  </div>
+                )}
+
                 {/* Loading */}
-                {isLoading && (
+                {isLoading && streamingText === null && (
                   <div className="flex items-center justify-center py-8">
                     <RefreshCw className="w-6 h-6 animate-spin text-purple-600" />
                     <span className="ml-2 text-gray-600">Generating suggestions...</span>
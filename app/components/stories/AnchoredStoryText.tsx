@@ -0,0 +1,93 @@
+'use client';
+
+import React from 'react';
+import { highlightSegments, TextRange } from '@/lib/text-anchors';
+
+export interface StoryHighlight extends TextRange {
+  id: string;
+}
+
+export interface SelectedQuote extends TextRange {
+  text: string;
+}
+
+interface AnchoredStoryTextProps {
+  content: string;
+  highlights: StoryHighlight[];
+  activeId?: string | null;
+  onHighlightClick?: (id: string) => void;
+  onQuoteSelected?: (quote: SelectedQuote) => void; // set when the reader may comment
+}
+
+// Matches the longest highlight a comment can store
+const MAX_QUOTE_LENGTH = 500;
+
+// Every run of text carries its offset in the story, so a selection can be
+// mapped back to story offsets
+function storyOffset(node: Node, offset: number): number | null {
+  if (node.nodeType !== Node.TEXT_NODE) return null;
+  const run = node.parentElement?.closest<HTMLElement>('[data-offset]');
+  return run ? Number(run.dataset.offset) + offset : null;
+}
+
+export default function AnchoredStoryText({
+  content,
+  highlights,
+  activeId,
+  onHighlightClick,
+  onQuoteSelected,
+}: AnchoredStoryTextProps) {
+  const handleMouseUp = () => {
+    if (!onQuoteSelected) return;
+
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+    const range = selection.getRangeAt(0);
+    const start = storyOffset(range.startContainer, range.startOffset);
+    const end = storyOffset(range.endContainer, range.endOffset);
+    if (start === null || end === null || end <= start) return;
+
+    const text = content.slice(start, end);
+    if (text.trim() && text.length <= MAX_QUOTE_LENGTH) {
+      onQuoteSelected({ start, end, text });
+    }
+  };
+
+  let offset = 0;
+  const paragraphs = content.split('\n\n').map(text => {
+    const start = offset;
+    offset += text.length + 2;
+    return { text, start };
+  });
+
+  return (
+    <div onMouseUp={handleMouseUp}>
+      {paragraphs.map((paragraph, index) => (
+        <p key={index} className="mb-6 text-gray-700">
+          {highlightSegments(paragraph.text, highlights, paragraph.start).map(segment => {
+            if (segment.ids.length === 0) {
+              return <span key={segment.start} data-offset={segment.start}>{segment.text}</span>;
+            }
+
+            // Where comments overlap, the open one stays open, else the newest
+            const id = activeId && segment.ids.includes(activeId) ? activeId : segment.ids[segment.ids.length - 1];
+            return (
+              <mark
+                key={segment.start}
+                data-offset={segment.start}
+                onClick={() => onHighlightClick?.(id)}
+                className={`cursor-pointer rounded-sm ${
+                  activeId && segment.ids.includes(activeId) ? 'bg-yellow-300' : 'bg-yellow-100 hover:bg-yellow-200'
+                }`}
+                title={segment.ids.length > 1 ? `${segment.ids.length} comments` : 'Comment'}
+              >
+                {segment.text}
+              </mark>
+            );
+          })}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Users, UserPlus, X, PenLine, Eye } from 'lucide-react';
+import { PusherEventData } from '@/lib/pusher';
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { showToast } from '@/app/components/ui/toast';
+
+type RemoteCursor = PusherEventData['cursor-moved'];
+
+interface Participant {
+  userId: string;
+  userName: string;
+  userRole: string;
+  color?: string;
+  permissions: { canEdit: boolean };
+}
+
+interface Collaborator {
+  userId: string;
+  name: string;
+  addedAt: string;
+}
+
+interface Contribution {
+  userId: string;
+  name: string;
+  role: string;
+  charactersAdded: number;
+  charactersRemoved: number;
+  charactersInText: number;
+  editCount: number;
+}
+
+interface CoWritersPanelProps {
+  storyId: string;
+  participants: Participant[];
+  remoteCursors: RemoteCursor[];
+  currentUserId?: string;
+}
+
+export default function CoWritersPanel({
+  storyId,
+  participants,
+  remoteCursors,
+  currentUserId
+}: CoWritersPanelProps) {
+  const [author, setAuthor] = useState<{ userId: string; name: string } | null>(null);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [contributions, setContributions] = useState<Contribution[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+
+  useEffect(() => {
+    fetchCollaborators();
+  }, [storyId]);
+
+  const fetchCollaborators = async () => {
+    try {
+      const response = await fetch(`/api/stories/${storyId}/collaborators`);
+      if (response.ok) {
+        const data = await response.json();
+        setAuthor(data.data.author);
+        setCollaborators(data.data.collaborators);
+        setContributions(data.data.contributions);
+        setCanManage(data.data.canManage);
+      }
+    } catch (error) {
+      console.error('Error fetching co-writers:', error);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+
+    setIsInviting(true);
+    try {
+      const response = await fetch(`/api/stories/${storyId}/collaborators`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail.trim() }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast.success('Co-writer added', data.message);
+        setInviteEmail('');
+        fetchCollaborators();
+      } else {
+        showToast.error('Could not invite', data.message);
+      }
+    } catch (error) {
+      console.error('Error inviting co-writer:', error);
+      showToast.error('Could not invite', 'Please try again');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRemove = async (collaborator: Collaborator) => {
+    if (!confirm(`Remove ${collaborator.name} from this story?`)) return;
+
+    try {
+      const response = await fetch(
+        `/api/stories/${storyId}/collaborators?userId=${collaborator.userId}`,
+        { method: 'DELETE' }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast.success('Co-writer removed', `${collaborator.name} can no longer edit this story`);
+        fetchCollaborators();
+      } else {
+        showToast.error('Could not remove', data.message);
+      }
+    } catch (error) {
+      console.error('Error removing co-writer:', error);
+    }
+  };
+
+  const typingUserIds = new Set(
+    remoteCursors.filter(presence => presence.isActive && presence.cursor).map(presence => presence.userId)
+  );
+  const totalInText = contributions.reduce((sum, entry) => sum + entry.charactersInText, 0);
+
+  return (
+    <aside className="w-72 border-l bg-gray-50 p-4 space-y-6 overflow-y-auto">
+      <section>
+        <h3 className="flex items-center text-sm font-semibold text-gray-900 mb-3">
+          <Users className="w-4 h-4 mr-2" />
+          Here now ({participants.length})
+        </h3>
+        <ul className="space-y-2">
+          {participants.map(participant => (
+            <li key={participant.userId} className="flex items-center justify-between text-sm">
+              <span className="flex items-center">
+                <span
+                  className="w-3 h-3 rounded-full mr-2"
+                  style={{ backgroundColor: participant.color || '#9ca3af' }}
+                />
+                {participant.userName}
+                {participant.userId === currentUserId && (
+                  <span className="ml-1 text-gray-400">(you)</span>
+                )}
+              </span>
+              {participant.permissions.canEdit ? (
+                <span className="flex items-center text-xs text-gray-500">
+                  <PenLine className="w-3 h-3 mr-1" />
+                  {typingUserIds.has(participant.userId) ? 'Writing' : 'Editing'}
+                </span>
+              ) : (
+                <span className="flex items-center text-xs text-gray-500">
+                  <Eye className="w-3 h-3 mr-1" />
+                  Watching
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {contributions.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Who wrote what</h3>
+          <ul className="space-y-3">
+            {contributions.map(entry => {
+              const share = totalInText > 0 ? Math.round((entry.charactersInText / totalInText) * 100) : 0;
+              return (
+                <li key={entry.userId} className="text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-800">{entry.name}</span>
+                    <span className="text-gray-500">{share}%</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                    <div className="bg-purple-500 h-1.5 rounded-full" style={{ width: `${share}%` }} />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {entry.charactersAdded} letters typed in {entry.editCount} edits
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Co-writers</h3>
+        <ul className="space-y-2 mb-3">
+          {author && (
+            <li className="text-sm text-gray-800">
+              {author.name} <span className="text-gray-400">(author)</span>
+            </li>
+          )}
+          {collaborators.map(collaborator => (
+            <li key={collaborator.userId} className="flex items-center justify-between text-sm text-gray-800">
+              {collaborator.name}
+              {(canManage || collaborator.userId === currentUserId) && (
+                <button
+                  onClick={() => handleRemove(collaborator)}
+                  className="text-gray-400 hover:text-red-500"
+                  title={collaborator.userId === currentUserId ? 'Leave this story' : 'Remove co-writer'}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {canManage && (
+          <form onSubmit={handleInvite} className="space-y-2">
+            <Input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="Classmate's email"
+              leftIcon={<UserPlus className="w-4 h-4" />}
+            />
+            <Button type="submit" size="sm" className="w-full" loading={isInviting}>
+              Invite to write
+            </Button>
+          </form>
+        )}
+      </section>
+    </aside>
+  );
+}
@@ -0,0 +1,447 @@
+'use client';
+
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { Users, Wifi, WifiOff, Eye } from 'lucide-react';
+import { PresenceManager, PusherEventData, realtimeClient } from '@/lib/pusher';
+import {
+  CrdtDocument,
+  CrdtOperation,
+  applyOperations,
+  cursorAt,
+  diffToOperations,
+  documentText,
+  resolveCursor,
+} from '@/lib/crdt';
+import { showToast } from '@/app/components/ui/toast';
+import CoWritersPanel from './CoWritersPanel';
+
+type RemoteCursor = PusherEventData['cursor-moved'];
+
+interface Participant {
+  userId: string;
+  userName: string;
+  userRole: string;
+  color?: string;
+  cursor?: RemoteCursor['cursor'];
+  permissions: { canEdit: boolean };
+}
+
+interface CoWritingEditorProps {
+  storyId: string;
+}
+
+const FLUSH_DELAY = 250;
+const POLL_INTERVAL = 5000;
+
+// Mirror of the textarea drawn underneath it, with co-writers' selections
+// highlighted and their cursors marked
+function renderCursorOverlay(text: string, doc: CrdtDocument | null, cursors: RemoteCursor[]) {
+  if (!doc) return text;
+
+  const marks = cursors
+    .map(presence => ({ presence, range: presence.cursor ? resolveCursor(doc, presence.cursor) : null }))
+    .filter((mark): mark is { presence: RemoteCursor; range: { start: number; end: number } } => !!mark.range);
+
+  const boundaries = Array.from(new Set([
+    0,
+    text.length,
+    ...marks.flatMap(mark => [mark.range.start, mark.range.end]),
+  ])).sort((a, b) => a - b);
+
+  const caretsAt = (position: number) => marks
+    .filter(mark => mark.range.end === position)
+    .map(mark => (
+      <span
+        key={`caret-${mark.presence.userId}`}
+        className="relative inline-block w-0.5 -mr-0.5 align-text-bottom"
+        style={{ backgroundColor: mark.presence.color, height: '1.2em' }}
+      >
+        <span
+          className="absolute -top-4 left-0 px-1 rounded text-[10px] leading-4 text-white whitespace-nowrap"
+          style={{ backgroundColor: mark.presence.color }}
+        >
+          {mark.presence.userName}
+        </span>
+      </span>
+    ));
+
+  const pieces: React.ReactNode[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const from = boundaries[i];
+    const to = boundaries[i + 1];
+    const selection = marks.find(mark => mark.range.start <= from && to <= mark.range.end && mark.range.start < mark.range.end);
+
+    pieces.push(...caretsAt(from));
+    pieces.push(
+      <span
+        key={`text-${from}`}
+        style={selection ? { backgroundColor: `${selection.presence.color}40` } : undefined}
+      >
+        {text.slice(from, to)}
+      </span>
+    );
+  }
+  pieces.push(...caretsAt(text.length));
+
+  // A trailing newline needs something after it to take up its line
+  pieces.push(<span key="end">{'\u200b'}</span>);
+  return pieces;
+}
+
+export default function CoWritingEditor({ storyId }: CoWritingEditorProps) {
+  const { data: session } = useSession();
+  const [title, setTitle] = useState('');
+  const [text, setText] = useState('');
+  const [canEdit, setCanEdit] = useState(false);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [remoteCursors, setRemoteCursors] = useState<RemoteCursor[]>([]);
+  const [isJoining, setIsJoining] = useState(true);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const docRef = useRef<CrdtDocument | null>(null);
+  const siteRef = useRef('');
+  const sessionKeyRef = useRef('');
+  const versionRef = useRef(0);
+  const pendingRef = useRef<CrdtOperation[]>([]);
+  const inFlightRef = useRef<CrdtOperation[]>([]);
+  const flushTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const presenceRef = useRef<PresenceManager | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const mirrorRef = useRef<HTMLDivElement>(null);
+  const selectionRef = useRef<{ start: number; end: number } | null>(null);
+
+  const userId = session?.user?.id;
+
+  // Load a full snapshot. Edits not yet acknowledged are reapplied when the
+  // session is the same one, so a catch-up never loses typing.
+  const loadSnapshot = useCallback((snapshot: any) => {
+    const sameSession = snapshot.sessionKey === sessionKeyRef.current;
+    const doc: CrdtDocument = snapshot.document;
+
+    if (sameSession) {
+      applyOperations(doc, [...inFlightRef.current, ...pendingRef.current]);
+    } else {
+      inFlightRef.current = [];
+      pendingRef.current = [];
+    }
+
+    docRef.current = doc;
+    sessionKeyRef.current = snapshot.sessionKey;
+    versionRef.current = snapshot.version;
+    setParticipants(snapshot.participants);
+    setText(documentText(doc));
+  }, []);
+
+  const applyRemote = useCallback((ops: CrdtOperation[]) => {
+    const doc = docRef.current;
+    const textarea = textareaRef.current;
+    if (!doc) return;
+
+    // Keep the local cursor on the same characters while text moves around it
+    const anchor = textarea ? cursorAt(doc, textarea.selectionStart, textarea.selectionEnd) : null;
+    applyOperations(doc, ops);
+    selectionRef.current = anchor ? resolveCursor(doc, anchor) : null;
+    setText(documentText(doc));
+  }, []);
+
+  const join = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/stories/${storyId}/collaboration`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Could not join the writing session');
+      }
+
+      siteRef.current = data.data.site;
+      setTitle(data.data.story.title);
+      setCanEdit(data.data.permissions.canEdit);
+      loadSnapshot(data.data.session);
+      setJoinError(null);
+
+      presenceRef.current?.watchStory(
+        storyId,
+        setRemoteCursors,
+        data.data.session.participants.map((participant: Participant) => ({
+          storyId,
+          userId: participant.userId,
+          userName: participant.userName,
+          color: participant.color,
+          cursor: participant.cursor || null,
+          isActive: true,
+        }))
+      );
+    } catch (error) {
+      setJoinError(error instanceof Error ? error.message : 'Could not join the writing session');
+    } finally {
+      setIsJoining(false);
+    }
+  }, [storyId, loadSnapshot]);
+
+  const catchUp = useCallback(async () => {
+    if (!sessionKeyRef.current) return;
+
+    try {
+      const query = `sessionKey=${sessionKeyRef.current}&since=${versionRef.current}`;
+      const response = await fetch(`/api/stories/${storyId}/collaboration?${query}`);
+      const data = await response.json();
+
+      if (response.status === 404) {
+        // Everyone had left and the session closed; start a new one
+        await join();
+        return;
+      }
+      if (!response.ok || !data.success) return;
+
+      if (data.data.resync) {
+        if (data.data.snapshot.sessionKey !== sessionKeyRef.current) {
+          await join();
+        } else {
+          loadSnapshot(data.data.snapshot);
+        }
+        return;
+      }
+
+      for (const update of data.data.updates) {
+        applyRemote(update.ops);
+        versionRef.current = update.version;
+      }
+      setParticipants(data.data.participants);
+    } catch (error) {
+      console.error('Failed to catch up on co-writing edits:', error);
+    }
+  }, [storyId, join, loadSnapshot, applyRemote]);
+
+  const flush = useCallback(async () => {
+    flushTimerRef.current = null;
+    if (inFlightRef.current.length > 0 || pendingRef.current.length === 0) return;
+
+    inFlightRef.current = pendingRef.current;
+    pendingRef.current = [];
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/stories/${storyId}/collaboration`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionKey: sessionKeyRef.current, ops: inFlightRef.current }),
+      });
+      const data = await response.json();
+
+      if (response.status === 409) {
+        showToast.error('Story refreshed', data.message || 'Someone restarted the session.');
+        inFlightRef.current = [];
+        pendingRef.current = [];
+        await join();
+        return;
+      }
+
+      // Refused edits (such as words the filter blocks) never go through on a
+      // retry, so they are dropped and the shared text reloaded
+      if (response.status === 400) {
+        showToast.error('Change not saved', data.message || 'Please revise your writing.');
+        inFlightRef.current = [];
+        pendingRef.current = [];
+        await join();
+        return;
+      }
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to save your changes');
+      }
+
+      inFlightRef.current = [];
+      if (data.data.version > versionRef.current + 1) {
+        await catchUp();
+      }
+    } catch (error) {
+      // Put the batch back in front of anything typed since, and retry
+      pendingRef.current = [...inFlightRef.current, ...pendingRef.current];
+      inFlightRef.current = [];
+      console.error('Failed to send co-writing edits:', error);
+    } finally {
+      setIsSaving(false);
+      if (pendingRef.current.length > 0 && !flushTimerRef.current) {
+        flushTimerRef.current = setTimeout(flush, FLUSH_DELAY);
+      }
+    }
+  }, [storyId, join, catchUp]);
+
+  const shareCursor = useCallback(() => {
+    const doc = docRef.current;
+    const textarea = textareaRef.current;
+    if (!doc || !textarea || !sessionKeyRef.current) return;
+
+    presenceRef.current?.updateCursor(
+      storyId,
+      sessionKeyRef.current,
+      cursorAt(doc, textarea.selectionStart, textarea.selectionEnd)
+    );
+  }, [storyId]);
+
+  const handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const doc = docRef.current;
+    if (!doc || !canEdit) return;
+
+    const ops = diffToOperations(doc, siteRef.current, event.target.value);
+    if (ops.length === 0) return;
+
+    pendingRef.current.push(...ops);
+    setText(documentText(doc));
+
+    if (!flushTimerRef.current) {
+      flushTimerRef.current = setTimeout(flush, FLUSH_DELAY);
+    }
+    shareCursor();
+  };
+
+  // Join once the user is known, and leave when the page goes away
+  useEffect(() => {
+    if (!userId || !session?.user?.role) return;
+
+    presenceRef.current = new PresenceManager(userId, session.user.role);
+    join();
+
+    const leave = () => {
+      fetch(`/api/stories/${storyId}/collaboration`, { method: 'DELETE', keepalive: true });
+    };
+    window.addEventListener('beforeunload', leave);
+
+    return () => {
+      window.removeEventListener('beforeunload', leave);
+      if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+      presenceRef.current?.unwatchStory(storyId);
+      leave();
+    };
+  }, [userId, session?.user?.role, storyId, join]);
+
+  // Live edits from the story channel, with polling as a fallback
+  useEffect(() => {
+    const channel = realtimeClient.subscribe(`story-${storyId}`);
+
+    const handleUpdate = (update: PusherEventData['collaboration-updated']) => {
+      if (update.sessionKey !== sessionKeyRef.current) {
+        catchUp();
+        return;
+      }
+      if (update.version <= versionRef.current) return;
+
+      if (update.ops && update.version === versionRef.current + 1) {
+        applyRemote(update.ops);
+        versionRef.current = update.version;
+      } else {
+        catchUp();
+      }
+    };
+
+    channel.bind('collaboration-updated', handleUpdate);
+    const poll = setInterval(catchUp, POLL_INTERVAL);
+
+    return () => {
+      channel.unbind('collaboration-updated', handleUpdate);
+      clearInterval(poll);
+    };
+  }, [storyId, catchUp, applyRemote]);
+
+  // Restore the local selection after remote edits re-render the text
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && selectionRef.current) {
+      textarea.setSelectionRange(selectionRef.current.start, selectionRef.current.end);
+      selectionRef.current = null;
+    }
+  }, [text]);
+
+  const syncScroll = () => {
+    if (mirrorRef.current && textareaRef.current) {
+      mirrorRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  if (isJoining) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  if (joinError) {
+    return (
+      <div className="max-w-xl mx-auto mt-16 p-6 text-center bg-white rounded-lg border">
+        <WifiOff className="w-8 h-8 mx-auto text-gray-400 mb-3" />
+        <p className="text-gray-700">{joinError}</p>
+      </div>
+    );
+  }
+
+  const editorStyle: React.CSSProperties = {
+    fontFamily: 'Georgia, serif',
+    fontSize: '16px',
+    lineHeight: '1.6',
+  };
+
+  const wordCount = text.trim().split(/\s+/).filter(word => word.length > 0).length;
+
+  return (
+    <div className="h-full flex bg-white">
+      <div className="flex-1 flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b bg-gray-50">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">{title}</h1>
+            <div className="flex items-center space-x-2 text-sm text-gray-500">
+              <Users className="w-4 h-4" />
+              <span>Writing together</span>
+              {!canEdit && (
+                <span className="flex items-center text-amber-600">
+                  <Eye className="w-4 h-4 mr-1" />
+                  Watching only
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-4 text-sm text-gray-600">
+            <span>{wordCount} words</span>
+            <span className="flex items-center">
+              <Wifi className="w-4 h-4 mr-1 text-green-500" />
+              {isSaving ? 'Saving...' : 'All changes saved'}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex-1 relative">
+          <div
+            ref={mirrorRef}
+            aria-hidden="true"
+            className="absolute inset-0 p-4 overflow-hidden whitespace-pre-wrap break-words text-transparent pointer-events-none"
+            style={editorStyle}
+          >
+            {renderCursorOverlay(text, docRef.current, remoteCursors)}
+          </div>
+
+          <textarea
+            ref={textareaRef}
+            value={text}
+            onChange={handleChange}
+            onSelect={shareCursor}
+            onScroll={syncScroll}
+            readOnly={!canEdit}
+            placeholder="Once upon a time..."
+            className="absolute inset-0 w-full h-full p-4 resize-none bg-transparent focus:outline-none"
+            style={editorStyle}
+          />
+        </div>
+      </div>
+
+      <CoWritersPanel
+        storyId={storyId}
+        participants={participants}
+        remoteCursors={remoteCursors}
+        currentUserId={userId}
+      />
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { MessageCircle, Send, Heart, Reply, MoreVertical, Edit, Trash, Flag } from 'lucide-react';
 import { useSession } from 'next-auth/react';
+import { SelectedQuote } from './AnchoredStoryText';
 
 interface Comment {
   _id: string;
@@ -23,6 +24,10 @@ interface Comment {
     type: 'praise' | 'suggestion' | 'question';
     category: 'plot' | 'character' | 'writing_style' | 'grammar';
   };
+  // Inline comments: the quoted text and where it is in the story now
+  highlightedText?: string;
+  textPosition?: { start: number; end: number };
+  anchorStatus?: 'anchored' | 'orphaned';
 }
 
 interface CommentSystemProps {
@@ -30,13 +35,37 @@ interface CommentSystemProps {
   isAuthor?: boolean;
   allowComments?: boolean;
   mentorMode?: boolean;
+  activeCommentId?: string | null; // opened from its highlight in the story
+  quote?: SelectedQuote | null; // story text selected for a new inline comment
+  onClearQuote?: () => void;
+  onCommentsChange?: (comments: Comment[]) => void;
+}
+
+// The comments API returns stored comments, with the commenter populated
+function normalizeComment(raw: any): Comment {
+  const commenter = raw.commenterId && typeof raw.commenterId === 'object' ? raw.commenterId : null;
+  return {
+    ...raw,
+    author: raw.author || {
+      _id: commenter?._id || raw.commenterId,
+      name: raw.commenterName || commenter?.name || 'Mentor',
+      role: raw.commenterRole || commenter?.role || 'mentor',
+    },
+    likes: raw.likes || [],
+    replies: (raw.replies || []).filter((reply: any) => reply && typeof reply === 'object').map(normalizeComment),
+    isEdited: raw.isEdited || false,
+  };
 }
 
 export default function CommentSystem({
   storyId,
   isAuthor = false,
   allowComments = true,
-  mentorMode = false
+  mentorMode = false,
+  activeCommentId = null,
+  quote = null,
+  onClearQuote,
+  onCommentsChange
 }: CommentSystemProps) {
   const { data: session } = useSession();
   const [comments, setComments] = useState<Comment[]>([]);
@@ -52,13 +81,17 @@ export default function CommentSystem({
   useEffect(() => {
     fetchComments();
   }, [storyId]);
+
+  useEffect(() => {
+    onCommentsChange?.(comments);
+  }, [comments]);
   
   const fetchComments = async () => {
     try {
       const response = await fetch(`/api/stories/${storyId}/comments`);
       if (response.ok) {
         const data = await response.json();
-        setComments(data.comments || []);
+        setComments((data.data || data.comments || []).map(normalizeComment));
       }
     } catch (error) {
       console.error('Error fetching comments:', error);
@@ -75,6 +108,9 @@ export default function CommentSystem({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           content: newComment,
+          commentType: feedbackType,
+          highlightedText: quote?.text,
+          position: quote ? { start: quote.start, end: quote.end } : undefined,
           mentorFeedback: mentorMode ? {
             type: feedbackType,
             category: feedbackCategory
@@ -82,10 +118,13 @@ export default function CommentSystem({
         })
       });
       
+      const data = await response.json();
       if (response.ok) {
-        const data = await response.json();
-        setComments(prev => [data.comment, ...prev]);
+        setComments(prev => [normalizeComment(data.data || data.comment), ...prev]);
         setNewComment('');
+        onClearQuote?.();
+      } else {
+        alert(data.message || 'Failed to add comment. Please try again.');
       }
     } catch (error) {
       console.error('Error submitting comment:', error);
@@ -220,11 +259,12 @@ export default function CommentSystem({
   const CommentItem = ({ comment, isReply = false }: { comment: Comment; isReply?: boolean }) => {
     const isOwner = session?.user?.id === comment.author._id;
     const canEdit = isOwner || session?.user?.role === 'admin';
+    const isOrphaned = comment.anchorStatus === 'orphaned';
     
     return (
-      <div className={`${isReply ? 'ml-8 border-l-2 border-gray-200 pl-4' : ''} mb-4`}>
+      <div id={`comment-${comment._id}`} className={`${isReply ? 'ml-8 border-l-2 border-gray-200 pl-4' : ''} mb-4`}>
         <div className={`p-4 rounded-lg border ${
-          comment.isHighlighted ? 'bg-yellow-50 border-yellow-200' : 'bg-white'
+          comment.isHighlighted || activeCommentId === comment._id ? 'bg-yellow-50 border-yellow-200' : 'bg-white'
         } ${comment.mentorFeedback ? 'border-l-4 border-l-purple-500' : ''}`}>
           {/* Header */}
           <div className="flex items-center justify-between mb-2">
@@ -274,6 +314,22 @@ export default function CommentSystem({
             )}
           </div>
           
+          {/* The story text this comment is about */}
+          {comment.highlightedText && (
+            <div className="mb-2">
+              <blockquote className={`pl-3 border-l-4 text-sm italic ${
+                isOrphaned ? 'border-gray-300 text-gray-400 line-through' : 'border-yellow-400 text-gray-600'
+              }`}>
+                &ldquo;{comment.highlightedText}&rdquo;
+              </blockquote>
+              {isOrphaned && (
+                <p className="text-xs text-orange-600 mt-1">
+                  This part of the story has changed since the comment was written.
+                </p>
+              )}
+            </div>
+          )}
+          
           {/* Content */}
           {editingComment === comment._id ? (
             <div className="space-y-2">
@@ -474,6 +530,17 @@ export default function CommentSystem({
             </div>
           )}
           
+          {quote ? (
+            <div className="flex items-start justify-between mb-3 p-2 bg-yellow-50 border border-yellow-200 rounded">
+              <p className="text-sm italic text-gray-700">On &ldquo;{quote.text}&rdquo;</p>
+              <button onClick={onClearQuote} className="ml-2 text-xs text-gray-500 hover:text-gray-700">
+                Remove
+              </button>
+            </div>
+          ) : mentorMode && (
+            <p className="text-xs text-gray-500 mb-2">Select words in the story to comment on them.</p>
+          )}
+          
           <textarea
             value={newComment}
             onChange={(e) => setNewComment(e.target.value)}
@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { History, RotateCcw, GitCompare, User, MessageCircle } from 'lucide-react';
+
+interface Revision {
+  _id: string;
+  revisionNumber: number;
+  title: string;
+  wordCount: number;
+  wordDelta: number;
+  stage: number;
+  status: string;
+  savedBy: {
+    userId: string;
+    name: string;
+    role: string;
+  };
+  source: 'create' | 'update' | 'restore' | 'collaboration';
+  restoredFrom?: number;
+  createdAt: string;
+}
+
+interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+interface RevisionDiff {
+  fromRevision: number;
+  toRevision: number;
+  segments: DiffSegment[];
+  wordsAdded: number;
+  wordsRemoved: number;
+  titleChanged: boolean;
+}
+
+interface RevisionTimelineProps {
+  storyId: string;
+  canRestore?: boolean;
+  onRestored?: () => void;
+}
+
+export default function RevisionTimeline({
+  storyId,
+  canRestore = false,
+  onRestored
+}: RevisionTimelineProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [lastFeedbackAt, setLastFeedbackAt] = useState<string | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [storyId]);
+
+  const fetchRevisions = async () => {
+    try {
+      const response = await fetch(`/api/stories/${storyId}/revisions`);
+      if (response.ok) {
+        const data = await response.json();
+        setRevisions(data.data.revisions);
+        setLastFeedbackAt(data.data.lastFeedbackAt);
+      }
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchDiff = async (from: number, to?: number) => {
+    try {
+      const query = to ? `from=${from}&to=${to}` : `from=${from}`;
+      const response = await fetch(`/api/stories/${storyId}/revisions/diff?${query}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDiff(data.data.diff);
+      }
+    } catch (error) {
+      console.error('Error fetching revision diff:', error);
+    }
+  };
+
+  const toggleSelected = (revisionNumber: number) => {
+    const next = selected.includes(revisionNumber)
+      ? selected.filter(n => n !== revisionNumber)
+      : [...selected, revisionNumber].slice(-2);
+
+    setSelected(next);
+    if (next.length === 2) {
+      const [from, to] = [...next].sort((a, b) => a - b);
+      fetchDiff(from, to);
+    } else {
+      setDiff(null);
+    }
+  };
+
+  // Compare the revision a mentor last commented on with the latest one
+  const showChangesSinceFeedback = () => {
+    if (!lastFeedbackAt) return;
+
+    const feedbackTime = new Date(lastFeedbackAt).getTime();
+    const baseline = [...revisions]
+      .reverse()
+      .filter(r => new Date(r.createdAt).getTime() <= feedbackTime)
+      .pop();
+
+    if (baseline) {
+      setSelected([]);
+      fetchDiff(baseline.revisionNumber);
+    }
+  };
+
+  const handleRestore = async (revisionNumber: number) => {
+    if (!confirm(`Restore your story to version ${revisionNumber}? Your current text will stay in the history.`)) {
+      return;
+    }
+
+    setIsRestoring(revisionNumber);
+    try {
+      const response = await fetch(`/api/stories/${storyId}/revisions/${revisionNumber}/restore`, {
+        method: 'POST'
+      });
+
+      if (response.ok) {
+        setDiff(null);
+        setSelected([]);
+        await fetchRevisions();
+        onRestored?.();
+      } else {
+        alert('Failed to restore this version. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      alert('Failed to restore this version. Please try again.');
+    } finally {
+      setIsRestoring(null);
+    }
+  };
+
+  const getSourceLabel = (revision: Revision) => {
+    switch (revision.source) {
+      case 'create': return 'Story started';
+      case 'restore': return `Restored version ${revision.restoredFrom}`;
+      case 'collaboration': return 'Written together';
+      default: return 'Saved';
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900">
+          <History className="w-5 h-5" />
+          <span>Version History</span>
+        </h3>
+
+        {lastFeedbackAt && (
+          <button
+            onClick={showChangesSinceFeedback}
+            className="flex items-center space-x-1 px-3 py-1 text-sm border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50"
+          >
+            <MessageCircle className="w-4 h-4" />
+            <span>Changes since my feedback</span>
+          </button>
+        )}
+      </div>
+
+      {revisions.length === 0 ? (
+        <p className="text-gray-500 text-sm">No saved versions yet.</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 mb-3">Pick two versions to compare them.</p>
+          <ol className="relative border-l border-gray-200 ml-2">
+            {revisions.map((revision) => (
+              <li key={revision._id} className="mb-4 ml-4">
+                <div className="absolute w-3 h-3 bg-blue-200 rounded-full -left-1.5 border border-white" />
+                <div className="flex items-start justify-between">
+                  <label className="flex items-start space-x-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(revision.revisionNumber)}
+                      onChange={() => toggleSelected(revision.revisionNumber)}
+                      className="mt-1"
+                    />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        Version {revision.revisionNumber} · {getSourceLabel(revision)}
+                      </p>
+                      <p className="flex items-center space-x-1 text-xs text-gray-500">
+                        <User className="w-3 h-3" />
+                        <span>{revision.savedBy.name}</span>
+                        <span>•</span>
+                        <span>{new Date(revision.createdAt).toLocaleString()}</span>
+                        <span>•</span>
+                        <span>Stage {revision.stage}</span>
+                      </p>
+                      <p className="text-xs mt-1">
+                        <span className="text-gray-600">{revision.wordCount} words </span>
+                        <span className={revision.wordDelta >= 0 ? 'text-green-600' : 'text-red-600'}>
+                          ({revision.wordDelta >= 0 ? '+' : ''}{revision.wordDelta})
+                        </span>
+                      </p>
+                    </div>
+                  </label>
+
+                  {canRestore && revision.revisionNumber !== revisions[0].revisionNumber && (
+                    <button
+                      onClick={() => handleRestore(revision.revisionNumber)}
+                      disabled={isRestoring !== null}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      <span>{isRestoring === revision.revisionNumber ? 'Restoring...' : 'Restore'}</span>
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {diff && (
+        <div className="mt-4 border rounded-lg p-4 bg-gray-50">
+          <div className="flex items-center justify-between mb-3">
+            <p className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+              <GitCompare className="w-4 h-4" />
+              <span>Version {diff.fromRevision} → Version {diff.toRevision}</span>
+            </p>
+            <p className="text-xs">
+              <span className="text-green-600">+{diff.wordsAdded} words</span>
+              <span className="text-gray-400"> / </span>
+              <span className="text-red-600">-{diff.wordsRemoved} words</span>
+              {diff.titleChanged && <span className="text-gray-600"> • title changed</span>}
+            </p>
+          </div>
+          <div className="text-sm leading-relaxed whitespace-pre-wrap" style={{ fontFamily: 'Georgia, serif' }}>
+            {diff.segments.map((segment, index) => {
+              if (segment.type === 'added') {
+                return <ins key={index} className="bg-green-100 text-green-800 no-underline">{segment.text}</ins>;
+              }
+              if (segment.type === 'removed') {
+                return <del key={index} className="bg-red-100 text-red-700">{segment.text}</del>;
+              }
+              return <span key={index} className="text-gray-700">{segment.text}</span>;
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
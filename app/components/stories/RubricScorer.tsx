@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ListChecks, Sparkles, UserCheck } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { showToast } from '@/app/components/ui/toast';
+
+interface RubricLevel {
+  score: number;
+  label: string;
+  descriptor?: string;
+}
+
+interface ResolvedRubric {
+  rubricId?: string;
+  name: string;
+  criteria: Array<{
+    name: string;
+    description?: string;
+    weight: number;
+    levels: RubricLevel[];
+  }>;
+}
+
+interface CriterionScore {
+  criterion: string;
+  level: number;
+  maxLevel: number;
+  label?: string;
+  weight: number;
+  comment?: string;
+}
+
+interface RubricAssessment {
+  rubricName: string;
+  source: 'ai' | 'mentor';
+  assessorName?: string;
+  criteria: CriterionScore[];
+  weightedScore: number;
+  assessedAt: string;
+}
+
+interface RubricScorerProps {
+  storyId: string;
+  canAssess?: boolean;
+}
+
+export default function RubricScorer({ storyId, canAssess = false }: RubricScorerProps) {
+  const [rubric, setRubric] = useState<ResolvedRubric | null>(null);
+  const [assessments, setAssessments] = useState<RubricAssessment[]>([]);
+  const [levels, setLevels] = useState<Record<string, number>>({});
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [encouragement, setEncouragement] = useState('');
+  const [nextSteps, setNextSteps] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAssessment();
+  }, [storyId]);
+
+  const fetchAssessment = async () => {
+    try {
+      const response = await fetch(`/api/stories/${storyId}/assessment`);
+      if (response.ok) {
+        const data = await response.json();
+        setRubric(data.data.rubric);
+        setAssessments(data.data.assessments);
+
+        // Start from the mentor's last marking so re-marking is a tweak
+        const previous = data.data.assessments.find((entry: RubricAssessment) => entry.source === 'mentor');
+        if (previous) {
+          setLevels(Object.fromEntries(previous.criteria.map((score: CriterionScore) => [score.criterion, score.level])));
+          setComments(Object.fromEntries(previous.criteria
+            .filter((score: CriterionScore) => score.comment)
+            .map((score: CriterionScore) => [score.criterion, score.comment])));
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching assessment:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!rubric) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/stories/${storyId}/assessment`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(rubric.rubricId ? { rubricId: rubric.rubricId } : {}),
+          scores: rubric.criteria
+            .filter(criterion => levels[criterion.name])
+            .map(criterion => ({
+              criterion: criterion.name,
+              level: levels[criterion.name],
+              ...(comments[criterion.name]?.trim() ? { comment: comments[criterion.name].trim() } : {}),
+            })),
+          ...(encouragement.trim() ? { encouragement: encouragement.trim() } : {}),
+          ...(nextSteps.trim() ? { nextSteps: nextSteps.trim() } : {}),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setAssessments(current => [
+          ...current.filter(entry => entry.source !== 'mentor'),
+          data.data.assessment,
+        ]);
+        showToast.success('Assessment saved', 'The writer has been notified');
+      } else {
+        const firstError = data.errors ? Object.values(data.errors)[0] as string : undefined;
+        showToast.error('Could not save assessment', firstError || data.message);
+      }
+    } catch (error) {
+      console.error('Error saving assessment:', error);
+      showToast.error('Could not save assessment', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || !rubric) {
+    return null;
+  }
+
+  const aiAssessment = assessments.find(entry => entry.source === 'ai');
+  const mentorAssessment = assessments.find(entry => entry.source === 'mentor');
+
+  // Writers see the mentor's marking once there is one, otherwise the AI's
+  if (!canAssess) {
+    const shown = mentorAssessment || aiAssessment;
+    if (!shown) return null;
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold flex items-center">
+            <ListChecks className="w-5 h-5 mr-2 text-purple-500" />
+            {shown.rubricName}
+          </h3>
+          <span className="flex items-center text-sm text-gray-500">
+            {shown.source === 'mentor'
+              ? <><UserCheck className="w-4 h-4 mr-1" />Marked by {shown.assessorName || 'your mentor'}</>
+              : <><Sparkles className="w-4 h-4 mr-1" />AI feedback</>}
+          </span>
+        </div>
+        <ul className="space-y-3">
+          {shown.criteria.map(score => (
+            <li key={score.criterion}>
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-800">{score.criterion}</span>
+                <span className="text-purple-700">{score.label || `${score.level}/${score.maxLevel}`}</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded mt-1">
+                <div className="h-2 bg-purple-500 rounded" style={{ width: `${(score.level / score.maxLevel) * 100}%` }} />
+              </div>
+              {score.comment && <p className="text-sm text-gray-600 mt-1">{score.comment}</p>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center">
+          <ListChecks className="w-5 h-5 mr-2 text-purple-500" />
+          Assess against “{rubric.name}”
+        </h3>
+        {mentorAssessment && (
+          <span className="text-sm text-gray-500">
+            Last marked {new Date(mentorAssessment.assessedAt).toLocaleDateString()} · {mentorAssessment.weightedScore}%
+          </span>
+        )}
+      </div>
+
+      {rubric.criteria.map(criterion => {
+        const aiScore = aiAssessment?.criteria.find(score => score.criterion === criterion.name);
+
+        return (
+          <fieldset key={criterion.name} className="border rounded-lg p-4">
+            <legend className="px-1 text-sm font-medium text-gray-800">
+              {criterion.name}
+              {criterion.weight > 1 && <span className="ml-1 text-purple-500">×{criterion.weight}</span>}
+            </legend>
+            {criterion.description && <p className="text-xs text-gray-500 mb-2">{criterion.description}</p>}
+            <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${criterion.levels.length}, minmax(0, 1fr))` }}>
+              {criterion.levels.map(level => (
+                <button
+                  key={level.score}
+                  type="button"
+                  onClick={() => setLevels(current => ({ ...current, [criterion.name]: level.score }))}
+                  className={`text-left border rounded-md p-2 text-xs ${
+                    levels[criterion.name] === level.score
+                      ? 'border-purple-600 bg-purple-50'
+                      : 'border-gray-200 hover:border-purple-300'
+                  }`}
+                >
+                  <span className="block font-medium text-gray-900">
+                    {level.score}. {level.label}
+                    {aiScore?.level === level.score && (
+                      <Sparkles className="inline w-3 h-3 ml-1 text-yellow-500" aria-label="AI suggestion" />
+                    )}
+                  </span>
+                  {level.descriptor && <span className="block text-gray-600 mt-1">{level.descriptor}</span>}
+                </button>
+              ))}
+            </div>
+            <input
+              value={comments[criterion.name] || ''}
+              onChange={(e) => setComments(current => ({ ...current, [criterion.name]: e.target.value }))}
+              placeholder="Comment (optional)"
+              maxLength={500}
+              className="w-full mt-2 border border-gray-300 rounded-md px-2 py-1 text-sm"
+            />
+          </fieldset>
+        );
+      })}
+
+      <textarea
+        value={encouragement}
+        onChange={(e) => setEncouragement(e.target.value)}
+        placeholder="Something encouraging to start with (optional)"
+        maxLength={500}
+        rows={2}
+        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+      />
+      <textarea
+        value={nextSteps}
+        onChange={(e) => setNextSteps(e.target.value)}
+        placeholder="Next steps (optional)"
+        maxLength={500}
+        rows={2}
+        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+      />
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          <Sparkles className="inline w-3 h-3 mr-1 text-yellow-500" />
+          marks the level the AI suggested
+        </p>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          loading={isSaving}
+          disabled={rubric.criteria.some(criterion => !levels[criterion.name])}
+        >
+          Save assessment
+        </Button>
+      </div>
+    </div>
+  );
+}
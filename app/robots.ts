@@ -26,6 +26,7 @@ export default function robots(): MetadataRoute.Robots {
           '/profile/',
           '/create-stories/',
           '/mentor-dashboard/',
+          '/parent-dashboard/',
           '/admin/',
           '/unauthorized',
           '/reset-password/',
@@ -2,8 +2,12 @@ module.exports = {
   apps: [
     {
       name: 'Story Weaver Platform',
-      script: 'npm start',
+      script: 'node_modules/next/dist/bin/next',
+      args: 'start',
       port: 3000,
+      // Every instance polls the email outbox; a Mongo lease lets only one send
+      exec_mode: 'cluster',
+      instances: process.env.PM2_INSTANCES || 1,
     },
   ],
 };
@@ -0,0 +1,13 @@
+// instrumentation.ts - Runs once when each server instance starts
+export async function register() {
+  // Send mail left in the outbox by a previous run, and deliver pending and
+  // scheduled notifications. Only the Node.js runtime has a database
+  // connection.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startEmailOutboxWorker } = await import('@/lib/email');
+    startEmailOutboxWorker();
+
+    const { startNotificationWorker } = await import('@/lib/notification-delivery');
+    startNotificationWorker();
+  }
+}
@@ -0,0 +1,470 @@
+// lib/achievement-conditions.ts - The condition language for custom achievements
+//
+// Admins write an achievement's customCondition as a short sentence, parsed
+// here into a tree and evaluated against a writer's stats and finished
+// stories. Nothing is ever executed as code: only the names and forms below
+// are understood, and anything else is a parse error.
+//
+//   condition   := clause (("and" | "or") clause)*, "and" binding tighter
+//   clause      := "not" clause | "(" condition ")" | stat op number | stories
+//   stories     := number [genre] ("story" | "stories")
+//                  ["with" field op number ("and" field op number)*]
+//                  ["within" number ("day" | "days" | "week" | "weeks")]
+//   op          := ">=" | "<=" | ">" | "<" | "=" | "!="
+//
+// e.g. "3 mystery stories with creativityScore >= 80 within 14 days"
+//      "stage >= 3 and (currentWritingStreak >= 7 or totalWordCount >= 5000)"
+
+export type ConditionOperator = '>=' | '<=' | '>' | '<' | '=' | '!=';
+
+export type ConditionNode =
+  | { kind: 'and' | 'or'; clauses: ConditionNode[] }
+  | { kind: 'not'; clause: ConditionNode }
+  | { kind: 'stat'; stat: ConditionStat; op: ConditionOperator; value: number }
+  | {
+      kind: 'stories';
+      count: number;
+      genre?: string; // genre key, e.g. "animal-stories"
+      filters: Array<{ field: StoryField; op: ConditionOperator; value: number }>;
+      withinDays?: number;
+    };
+
+// A finished story as the language sees it
+export interface ConditionStory {
+  genre?: string;
+  wordCount: number;
+  grammarScore?: number;
+  creativityScore?: number;
+  overallScore?: number;
+  completedAt: Date;
+}
+
+export interface ConditionContext {
+  stats: Partial<Record<ConditionStat, number>>;
+  stories: ConditionStory[];
+  now: Date;
+}
+
+export type ParseResult = { condition: ConditionNode } | { error: string; position: number };
+
+export const CONDITION_STATS = [
+  'storiesCreated',
+  'storiesPublished',
+  'totalWordCount',
+  'averageGrammarScore',
+  'averageCreativityScore',
+  'currentWritingStreak',
+  'longestWritingStreak',
+  'currentLevel',
+  'experiencePoints',
+  'achievementsUnlocked',
+  'stage',
+] as const;
+
+export type ConditionStat = typeof CONDITION_STATS[number];
+
+export const STORY_FIELDS = ['wordCount', 'grammarScore', 'creativityScore', 'overallScore'] as const;
+
+export type StoryField = typeof STORY_FIELDS[number];
+
+export const CONDITION_GENRES = [
+  'Adventure',
+  'Fantasy',
+  'Mystery',
+  'Sci-Fi',
+  'Comedy',
+  'Drama',
+  'Historical',
+  'Animal Stories',
+  'Fairy Tale',
+];
+
+// Bounds that keep evaluation cheap whatever an admin types
+export const MAX_CONDITION_LENGTH = 500;
+const MAX_CLAUSES = 20;
+const MAX_DEPTH = 8;
+const MAX_WINDOW_DAYS = 366;
+
+const OPERATORS: ConditionOperator[] = ['>=', '<=', '!=', '>', '<', '='];
+
+type Token =
+  | { type: 'word'; value: string; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'number'; value: number; position: number }
+  | { type: 'op'; value: ConditionOperator; position: number }
+  | { type: 'paren'; value: '(' | ')'; position: number }
+  | { type: 'end'; position: number };
+
+class ConditionSyntaxError {
+  constructor(public message: string, public position: number) {}
+}
+
+// The same form as elementKey in lib/assignments, so "Animal Stories",
+// "animal-stories" and a stored slug all match
+export function genreKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+const GENRE_KEYS = new Set(CONDITION_GENRES.map(genreKey));
+
+function lookup<T extends string>(names: readonly T[], word: string): T | undefined {
+  return names.find(name => name.toLowerCase() === word.toLowerCase());
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'word', value: match[0], position: i });
+      i += match[0].length;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new ConditionSyntaxError('Unclosed quote', i);
+      }
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), position: i });
+      i = end + 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char, position: i });
+      i++;
+    } else if (source.startsWith('==', i)) {
+      tokens.push({ type: 'op', value: '=', position: i });
+      i += 2;
+    } else {
+      const op = OPERATORS.find(candidate => source.startsWith(candidate, i));
+      if (!op) {
+        throw new ConditionSyntaxError(`Unexpected "${char}"`, i);
+      }
+      tokens.push({ type: 'op', value: op, position: i });
+      i += op.length;
+    }
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+  private clauses = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    const condition = this.parseOr(0);
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new ConditionSyntaxError(`Expected "and", "or" or the end, found ${describe(next)}`, next.position);
+    }
+    return condition;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private isWord(token: Token, ...words: string[]): boolean {
+    return token.type === 'word' && words.includes(token.value.toLowerCase());
+  }
+
+  private isStoryField(token: Token): boolean {
+    return token.type === 'word' && lookup(STORY_FIELDS, token.value) !== undefined;
+  }
+
+  private parseOr(depth: number): ConditionNode {
+    const clauses = [this.parseAnd(depth)];
+    while (this.isWord(this.peek(), 'or')) {
+      this.next();
+      clauses.push(this.parseAnd(depth));
+    }
+    return clauses.length === 1 ? clauses[0] : { kind: 'or', clauses };
+  }
+
+  private parseAnd(depth: number): ConditionNode {
+    const clauses = [this.parseClause(depth)];
+    while (this.isWord(this.peek(), 'and')) {
+      this.next();
+      clauses.push(this.parseClause(depth));
+    }
+    return clauses.length === 1 ? clauses[0] : { kind: 'and', clauses };
+  }
+
+  private parseClause(depth: number): ConditionNode {
+    if (depth > MAX_DEPTH) {
+      throw new ConditionSyntaxError('The condition is nested too deeply', this.peek().position);
+    }
+
+    const token = this.peek();
+
+    if (this.isWord(token, 'not')) {
+      this.next();
+      return { kind: 'not', clause: this.parseClause(depth + 1) };
+    }
+
+    if (token.type === 'paren' && token.value === '(') {
+      this.next();
+      const inner = this.parseOr(depth + 1);
+      const close = this.next();
+      if (close.type !== 'paren' || close.value !== ')') {
+        throw new ConditionSyntaxError(`Expected ")", found ${describe(close)}`, close.position);
+      }
+      return inner;
+    }
+
+    if (++this.clauses > MAX_CLAUSES) {
+      throw new ConditionSyntaxError(`A condition can have at most ${MAX_CLAUSES} parts`, token.position);
+    }
+
+    if (token.type === 'number') {
+      return this.parseStories();
+    }
+
+    if (token.type === 'word') {
+      const stat = lookup(CONDITION_STATS, token.value);
+      if (!stat) {
+        throw new ConditionSyntaxError(
+          `Unknown stat "${token.value}". Use one of: ${CONDITION_STATS.join(', ')}`,
+          token.position
+        );
+      }
+      this.next();
+      const { op, value } = this.parseComparison(stat);
+      return { kind: 'stat', stat, op, value };
+    }
+
+    throw new ConditionSyntaxError(`Expected a stat or a story count, found ${describe(token)}`, token.position);
+  }
+
+  private parseComparison(subject: string): { op: ConditionOperator; value: number } {
+    const op = this.next();
+    if (op.type !== 'op') {
+      throw new ConditionSyntaxError(`Expected a comparison such as ">=" after "${subject}"`, op.position);
+    }
+    const value = this.next();
+    if (value.type !== 'number') {
+      throw new ConditionSyntaxError(`Expected a number after "${op.value}"`, value.position);
+    }
+    return { op: op.value, value: value.value };
+  }
+
+  private parseStories(): ConditionNode {
+    const count = this.next() as Extract<Token, { type: 'number' }>;
+    if (!Number.isInteger(count.value) || count.value < 1) {
+      throw new ConditionSyntaxError('A story count must be a whole number of at least 1', count.position);
+    }
+
+    let genre: string | undefined;
+    const qualifier = this.peek();
+    if (qualifier.type === 'string' || (qualifier.type === 'word' && !this.isWord(qualifier, 'story', 'stories'))) {
+      const key = genreKey(qualifier.value);
+      if (!GENRE_KEYS.has(key)) {
+        throw new ConditionSyntaxError(
+          `Unknown genre "${qualifier.value}". Use one of: ${CONDITION_GENRES.join(', ')}`,
+          qualifier.position
+        );
+      }
+      genre = key;
+      this.next();
+    }
+
+    const noun = this.next();
+    if (!this.isWord(noun, 'story', 'stories')) {
+      throw new ConditionSyntaxError(`Expected "stories", found ${describe(noun)}`, noun.position);
+    }
+
+    const filters: Array<{ field: StoryField; op: ConditionOperator; value: number }> = [];
+    if (this.isWord(this.peek(), 'with')) {
+      this.next();
+      filters.push(this.parseFilter());
+      // "and" followed by a story field continues the list; any other
+      // "and" joins the next clause of the condition
+      while (this.isWord(this.peek(), 'and') && this.isStoryField(this.peek(1))) {
+        this.next();
+        filters.push(this.parseFilter());
+      }
+    }
+
+    let withinDays: number | undefined;
+    if (this.isWord(this.peek(), 'within')) {
+      this.next();
+      const amount = this.next();
+      if (amount.type !== 'number' || !Number.isInteger(amount.value) || amount.value < 1) {
+        throw new ConditionSyntaxError('Expected a whole number after "within"', amount.position);
+      }
+      const unit = this.next();
+      if (!this.isWord(unit, 'day', 'days', 'week', 'weeks')) {
+        throw new ConditionSyntaxError(`Expected "days" or "weeks", found ${describe(unit)}`, unit.position);
+      }
+      withinDays = amount.value * (this.isWord(unit, 'week', 'weeks') ? 7 : 1);
+      if (withinDays > MAX_WINDOW_DAYS) {
+        throw new ConditionSyntaxError(`A time window can be at most ${MAX_WINDOW_DAYS} days`, amount.position);
+      }
+    }
+
+    return { kind: 'stories', count: count.value, ...(genre ? { genre } : {}), filters, ...(withinDays ? { withinDays } : {}) };
+  }
+
+  private parseFilter(): { field: StoryField; op: ConditionOperator; value: number } {
+    const token = this.next();
+    const field = token.type === 'word' ? lookup(STORY_FIELDS, token.value) : undefined;
+    if (!field) {
+      throw new ConditionSyntaxError(
+        `Expected a story field (${STORY_FIELDS.join(', ')}), found ${describe(token)}`,
+        token.position
+      );
+    }
+    return { field, ...this.parseComparison(field) };
+  }
+}
+
+function describe(token: Token): string {
+  return token.type === 'end' ? 'the end of the condition' : `"${token.value}"`;
+}
+
+export function parseCondition(source: string): ParseResult {
+  if (!source || !source.trim()) {
+    return { error: 'The condition is empty', position: 0 };
+  }
+  if (source.length > MAX_CONDITION_LENGTH) {
+    return { error: `A condition can be at most ${MAX_CONDITION_LENGTH} characters`, position: MAX_CONDITION_LENGTH };
+  }
+
+  try {
+    return { condition: new Parser(tokenize(source)).parse() };
+  } catch (error) {
+    if (error instanceof ConditionSyntaxError) {
+      return { error: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+function compare(actual: number, op: ConditionOperator, expected: number): boolean {
+  switch (op) {
+    case '>=': return actual >= expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '<': return actual < expected;
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+}
+
+export function evaluateCondition(node: ConditionNode, context: ConditionContext): boolean {
+  switch (node.kind) {
+    case 'and':
+      return node.clauses.every(clause => evaluateCondition(clause, context));
+    case 'or':
+      return node.clauses.some(clause => evaluateCondition(clause, context));
+    case 'not':
+      return !evaluateCondition(node.clause, context);
+    case 'stat':
+      return compare(context.stats[node.stat] || 0, node.op, node.value);
+    case 'stories':
+      return countMatchingStories(node, context) >= node.count;
+  }
+}
+
+function countMatchingStories(
+  node: Extract<ConditionNode, { kind: 'stories' }>,
+  context: ConditionContext
+): number {
+  const since = node.withinDays
+    ? context.now.getTime() - node.withinDays * 24 * 60 * 60 * 1000
+    : -Infinity;
+
+  // A story without the score a filter asks about doesn't count
+  return context.stories.filter(story =>
+    new Date(story.completedAt).getTime() >= since
+    && (!node.genre || (story.genre !== undefined && genreKey(story.genre) === node.genre))
+    && node.filters.every(filter => story[filter.field] !== undefined
+      && compare(story[filter.field]!, filter.op, filter.value))
+  ).length;
+}
+
+// How close a writer is, from 0 to 1. Counts and "at least" comparisons
+// give partial credit; anything else is met or not.
+export function conditionProgress(node: ConditionNode, context: ConditionContext): number {
+  if (evaluateCondition(node, context)) {
+    return 1;
+  }
+
+  switch (node.kind) {
+    case 'and':
+      return node.clauses.reduce((sum, clause) => sum + conditionProgress(clause, context), 0) / node.clauses.length;
+    case 'or':
+      return Math.max(...node.clauses.map(clause => conditionProgress(clause, context)));
+    case 'not':
+      return 0;
+    case 'stat': {
+      const actual = context.stats[node.stat] || 0;
+      return (node.op === '>=' || node.op === '>') && node.value > 0
+        ? Math.max(0, Math.min(1, actual / node.value))
+        : 0;
+    }
+    case 'stories':
+      return countMatchingStories(node, context) / node.count;
+  }
+}
+
+// The numbers a condition compares, from User.stats plus the writer's stage
+export function toConditionStats(stats: Record<string, any>): Partial<Record<ConditionStat, number>> {
+  const result: Partial<Record<ConditionStat, number>> = {};
+  CONDITION_STATS.forEach(stat => {
+    const value = stats[stat];
+    if (Array.isArray(value)) {
+      result[stat] = value.length;
+    } else if (typeof value === 'number') {
+      result[stat] = value;
+    }
+  });
+  return result;
+}
+
+// The stats a condition reads, plus "stories" when it counts story history,
+// so a change to anything else can skip it
+export function conditionDependencies(node: ConditionNode): string[] {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return Array.from(new Set(node.clauses.flatMap(conditionDependencies)));
+    case 'not':
+      return conditionDependencies(node.clause);
+    case 'stat':
+      return [node.stat];
+    case 'stories':
+      return ['stories'];
+  }
+}
+
+// Whether evaluating needs the writer's story history, or stats alone will do
+export function conditionUsesStories(node: ConditionNode): boolean {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return node.clauses.some(conditionUsesStories);
+    case 'not':
+      return conditionUsesStories(node.clause);
+    case 'stat':
+      return false;
+    case 'stories':
+      return true;
+  }
+}
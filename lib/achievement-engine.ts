@@ -0,0 +1,211 @@
+// lib/achievement-engine.ts - Awards achievements as domain events arrive
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import Achievement, { IAchievement, UserAchievement } from '@/models/Achievement';
+import { notifyAchievement } from '@/lib/pusher';
+import { refreshWriterStats } from '@/lib/achievements';
+import {
+  conditionDependencies,
+  conditionProgress,
+  parseCondition,
+  toConditionStats,
+} from '@/lib/achievement-conditions';
+import { AchievementTrigger, DomainEvent, DomainEventType } from '@/types/events';
+
+type Criteria = IAchievement['criteria'];
+
+// The userStats each fixed criterion is compared with, as in
+// Achievement.checkCriteria
+const CRITERIA_STATS: Record<Exclude<keyof Criteria, 'customCondition'>, string> = {
+  storiesCompleted: 'storiesCreated',
+  grammarScore: 'averageGrammarScore',
+  creativityScore: 'averageCreativityScore',
+  consecutiveDays: 'currentWritingStreak',
+  improvementRate: 'improvementRate',
+  mentorPraise: 'mentorInteractions',
+  wordsWritten: 'totalWordCount',
+  genresExplored: 'genresExplored',
+  commentsReceived: 'commentsReceived',
+  sharesReceived: 'sharesReceived',
+};
+
+// What each event can change. Stages are reviewed straight after a story
+// is published or marked, so those events can move "stage" too.
+const EVENT_STATS: Record<DomainEventType, string[]> = {
+  story_completed: [
+    'storiesCreated', 'storiesPublished', 'totalWordCount', 'averageGrammarScore',
+    'averageCreativityScore', 'genresExplored', 'improvementRate', 'stage', 'stories',
+  ],
+  assessment_saved: [
+    'averageGrammarScore', 'averageCreativityScore', 'improvementRate', 'mentorInteractions', 'stage', 'stories',
+  ],
+  comment_received: ['commentsReceived', 'mentorInteractions'],
+  streak_extended: ['currentWritingStreak', 'longestWritingStreak'],
+};
+
+// Awards change these, which other achievements may count
+const AWARD_STATS = ['experiencePoints', 'achievementsUnlocked'];
+
+// The stats an achievement's criteria read
+export function achievementDependencies(criteria: Criteria): string[] {
+  const dependencies = new Set<string>();
+
+  (Object.keys(CRITERIA_STATS) as Array<keyof typeof CRITERIA_STATS>).forEach(key => {
+    if (criteria[key]) dependencies.add(CRITERIA_STATS[key]);
+  });
+
+  if (criteria.customCondition) {
+    const parsed = parseCondition(criteria.customCondition);
+    if (!('error' in parsed)) {
+      conditionDependencies(parsed.condition).forEach(dependency => dependencies.add(dependency));
+    }
+  }
+
+  return Array.from(dependencies);
+}
+
+// 0-100, averaged over the fixed criteria and the custom condition
+export function achievementProgress(criteria: Criteria, userStats: Record<string, any>, now: Date): number {
+  const parts: number[] = [];
+
+  (Object.keys(CRITERIA_STATS) as Array<keyof typeof CRITERIA_STATS>).forEach(key => {
+    const required = criteria[key];
+    if (required) {
+      parts.push(Math.min(1, (userStats[CRITERIA_STATS[key]] || 0) / required));
+    }
+  });
+
+  if (criteria.customCondition) {
+    const parsed = parseCondition(criteria.customCondition);
+    parts.push('error' in parsed ? 0 : conditionProgress(parsed.condition, {
+      stats: toConditionStats(userStats),
+      stories: userStats.stories || [],
+      now,
+    }));
+  }
+
+  return parts.length > 0 ? Math.round((parts.reduce((sum, part) => sum + part, 0) / parts.length) * 100) : 0;
+}
+
+// Complete the writer's UserAchievement and pay out its rewards. The update
+// only matches a record that isn't complete yet, so a replayed event, or two
+// racing, award once: the other finds nothing to update, or collides on the
+// unique userId/achievementId index when inserting.
+export async function awardAchievement(
+  userId: string,
+  achievement: IAchievement,
+  trigger: AchievementTrigger,
+  userStats?: Record<string, any>
+): Promise<boolean> {
+  const { stories, ...statsWhenUnlocked } = userStats || {};
+
+  try {
+    const result = await UserAchievement.updateOne(
+      { userId, achievementId: achievement._id, isCompleted: { $ne: true } },
+      {
+        $set: {
+          isCompleted: true,
+          progress: 100,
+          unlockedAt: new Date(),
+          triggerEvent: trigger.event,
+          ...(trigger.storyId ? { triggerStoryId: trigger.storyId } : {}),
+          ...(userStats ? { statsWhenUnlocked } : {}),
+        },
+      },
+      { upsert: true }
+    );
+    if (result.modifiedCount + result.upsertedCount === 0) {
+      return false;
+    }
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) return false;
+    throw error;
+  }
+
+  await Achievement.updateOne({ _id: achievement._id }, { $inc: { totalUnlocked: 1 } });
+  await User.updateOne(
+    { _id: userId },
+    {
+      $inc: { 'stats.experiencePoints': achievement.rewards.experiencePoints },
+      $addToSet: { 'stats.achievementsUnlocked': achievement._id.toString() },
+    }
+  );
+  await notifyAchievement(userId, achievement);
+  return true;
+}
+
+// Progress on an achievement not yet earned. Completed records are left alone.
+async function recordProgress(userId: string, achievementId: string, progress: number): Promise<void> {
+  if (progress <= 0) {
+    return;
+  }
+
+  try {
+    await UserAchievement.updateOne(
+      { userId, achievementId, isCompleted: { $ne: true } },
+      { $set: { progress: Math.min(progress, 99) } },
+      { upsert: true }
+    );
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) throw error;
+  }
+}
+
+// Check the writer's unearned active achievements that read any of the
+// changed stats. Returns how many were awarded.
+async function evaluateAchievements(
+  userId: string,
+  changed: string[],
+  userStats: Record<string, any>,
+  trigger: AchievementTrigger
+): Promise<number> {
+  const completed = await UserAchievement.find({ userId, isCompleted: true }).distinct('achievementId');
+  const achievements = await Achievement.find({ isActive: true, _id: { $nin: completed } });
+
+  const now = new Date();
+  let awarded = 0;
+
+  for (const achievement of achievements) {
+    const dependencies = achievementDependencies(achievement.criteria);
+    if (!dependencies.some(dependency => changed.includes(dependency))) {
+      continue;
+    }
+
+    if (achievement.checkCriteria(userStats)) {
+      if (await awardAchievement(userId, achievement, trigger, userStats)) awarded++;
+    } else {
+      await recordProgress(userId, achievement._id.toString(), achievementProgress(achievement.criteria, userStats, now));
+    }
+  }
+
+  return awarded;
+}
+
+// Subscribed to every domain event in lib/domain-events. Achievements are
+// for child writers; events about anyone else are ignored.
+export async function handleAchievementEvent(event: DomainEvent): Promise<void> {
+  await connectToDatabase();
+
+  const user = await User.findById(event.userId).select('role').lean();
+  if (!user || user.role !== 'child') {
+    return;
+  }
+
+  const trigger: AchievementTrigger = {
+    event: event.type,
+    ...('storyId' in event ? { storyId: event.storyId } : {}),
+  };
+
+  // One more pass after any award, for achievements that count XP or other
+  // achievements
+  let changed = EVENT_STATS[event.type];
+  for (let pass = 0; pass < 2 && changed.length > 0; pass++) {
+    const userStats = await refreshWriterStats(event.userId);
+    if (!userStats) {
+      return;
+    }
+
+    const awarded = await evaluateAchievements(event.userId, changed, userStats, trigger);
+    changed = awarded > 0 ? AWARD_STATS : [];
+  }
+}
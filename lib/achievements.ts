@@ -0,0 +1,180 @@
+// lib/achievements.ts - The stats achievements are evaluated against, and dry runs of custom conditions
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import Story from '@/models/Story';
+import Comment from '@/models/Comment';
+import {
+  ConditionStory,
+  conditionUsesStories,
+  evaluateCondition,
+  genreKey,
+  parseCondition,
+  toConditionStats,
+} from '@/lib/achievement-conditions';
+
+type Result<T> = T | { error: string; status: number };
+
+// A dry run checks at most this many writers, in batches
+const DRY_RUN_MAX_USERS = 2000;
+const DRY_RUN_BATCH_SIZE = 200;
+const DRY_RUN_LISTED_USERS = 50;
+
+export interface ConditionDryRun {
+  evaluated: number;
+  qualifying: number;
+  users: Array<{ id: string; name: string; stage: number }>; // the first few who qualify
+  truncated: boolean; // more writers exist than were checked
+}
+
+const FINISHED_STATUSES = ['completed', 'published'];
+
+const CONDITION_STORY_FIELDS = 'elements.genre wordCount aiAssessment.grammarScore aiAssessment.creativityScore aiAssessment.overallScore completedAt publishedAt updatedAt';
+
+function toConditionStory(story: any): ConditionStory {
+  return {
+    genre: story.elements?.genre,
+    wordCount: story.wordCount || 0,
+    grammarScore: story.aiAssessment?.grammarScore,
+    creativityScore: story.aiAssessment?.creativityScore,
+    overallScore: story.aiAssessment?.overallScore,
+    completedAt: story.completedAt || story.publishedAt || story.updatedAt,
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+}
+
+// Finished stories for each author, in the form conditions read them
+export async function loadConditionStories(
+  authorIds: Array<string | mongoose.Types.ObjectId>
+): Promise<Map<string, ConditionStory[]>> {
+  await connectToDatabase();
+
+  const stories = await Story.find({
+    authorId: { $in: authorIds },
+    status: { $in: FINISHED_STATUSES },
+  })
+    .select(`authorId ${CONDITION_STORY_FIELDS}`)
+    .lean();
+
+  const byAuthor = new Map<string, ConditionStory[]>();
+  stories.forEach(story => {
+    const authorId = story.authorId.toString();
+    const list = byAuthor.get(authorId) || [];
+    list.push(toConditionStory(story));
+    byAuthor.set(authorId, list);
+  });
+
+  return byAuthor;
+}
+
+// Recount a writer's story stats from the stories and comments themselves,
+// save them to User.stats, and return the userStats Achievement.checkCriteria
+// expects along with the stage and story history custom conditions read.
+// Counting rather than incrementing means replaying an event changes nothing.
+export async function refreshWriterStats(userId: string): Promise<Record<string, any> | null> {
+  await connectToDatabase();
+
+  const user = await User.findById(userId).select('stats progression.currentStage').lean();
+  if (!user) {
+    return null;
+  }
+
+  const stories = await Story.find({ authorId: userId })
+    .select(`status mentorAssessment.assessmentDate ${CONDITION_STORY_FIELDS}`)
+    .lean();
+
+  const finished = stories.filter(story => FINISHED_STATUSES.includes(story.status));
+  const conditionStories = finished.map(toConditionStory);
+  const assessed = conditionStories
+    .filter(story => story.overallScore !== undefined)
+    .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime());
+
+  const [commentsReceived, mentorComments] = await Promise.all([
+    Comment.countDocuments({ storyId: { $in: stories.map(story => story._id) }, commenterId: { $ne: userId } }),
+    Comment.countDocuments({ storyId: { $in: stories.map(story => story._id) }, commenterRole: 'mentor' }),
+  ]);
+
+  const counted = {
+    storiesCreated: stories.length,
+    storiesPublished: stories.filter(story => story.status === 'published').length,
+    totalWordCount: finished.reduce((sum, story) => sum + (story.wordCount || 0), 0),
+    averageGrammarScore: average(assessed.map(story => story.grammarScore || 0)),
+    averageCreativityScore: average(assessed.map(story => story.creativityScore || 0)),
+  };
+
+  await User.updateOne(
+    { _id: userId },
+    { $set: Object.fromEntries(Object.entries(counted).map(([key, value]) => [`stats.${key}`, value])) }
+  );
+
+  return {
+    ...user.stats,
+    ...counted,
+    genresExplored: new Set(conditionStories.filter(story => story.genre).map(story => genreKey(story.genre!))).size,
+    // Points gained from the first assessed story to the latest
+    improvementRate: assessed.length > 1
+      ? Math.max(0, assessed[assessed.length - 1].overallScore! - assessed[0].overallScore!)
+      : 0,
+    mentorInteractions: mentorComments + stories.filter(story => story.mentorAssessment?.assessmentDate).length,
+    commentsReceived,
+    sharesReceived: 0, // sharing isn't tracked yet
+    stage: user.progression?.currentStage || 1,
+    stories: conditionStories,
+  };
+}
+
+// Which writers a condition would award, without awarding anything
+export async function dryRunCondition(
+  condition: string,
+  now: Date = new Date()
+): Promise<Result<ConditionDryRun>> {
+  const parsed = parseCondition(condition);
+  if ('error' in parsed) {
+    return { error: `${parsed.error} (at character ${parsed.position + 1})`, status: 400 };
+  }
+
+  await connectToDatabase();
+
+  const filter = { role: 'child', isActive: true };
+  const [users, total] = await Promise.all([
+    User.find(filter)
+      .select('name stats progression.currentStage')
+      .sort({ _id: 1 })
+      .limit(DRY_RUN_MAX_USERS)
+      .lean(),
+    User.countDocuments(filter),
+  ]);
+
+  const usesStories = conditionUsesStories(parsed.condition);
+  const result: ConditionDryRun = { evaluated: 0, qualifying: 0, users: [], truncated: total > users.length };
+
+  for (let i = 0; i < users.length; i += DRY_RUN_BATCH_SIZE) {
+    const batch = users.slice(i, i + DRY_RUN_BATCH_SIZE);
+    const stories = usesStories
+      ? await loadConditionStories(batch.map(user => user._id))
+      : new Map<string, ConditionStory[]>();
+
+    batch.forEach(user => {
+      const id = user._id.toString();
+      const stage = user.progression?.currentStage || 1;
+      const qualifies = evaluateCondition(parsed.condition, {
+        stats: toConditionStats({ ...user.stats, stage }),
+        stories: stories.get(id) || [],
+        now,
+      });
+
+      result.evaluated++;
+      if (qualifies) {
+        result.qualifying++;
+        if (result.users.length < DRY_RUN_LISTED_USERS) {
+          result.users.push({ id, name: user.name, stage });
+        }
+      }
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,127 @@
+// lib/ai-collaboration.ts - Shared helpers for the AI writing assistant routes
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Story, { IStory } from '@/models/Story';
+import User from '@/models/User';
+import { ContentFilter, ContentModerationResult } from '@/lib/content-filter';
+import { decideScaffolding } from '@/lib/ai-scaffolding';
+import { storyWordShare, toStage } from '@/lib/progression';
+import { CollaborationType, ScaffoldingPolicy } from '@/types/ai';
+import { AIResponseType } from '@/types/story';
+import { AgeGroup } from '@/types/auth';
+
+export const COLLABORATION_TYPES: CollaborationType[] = [
+  'continuation',
+  'improvement',
+  'character',
+  'plot',
+  'dialogue',
+  'feedback',
+  'story_starter',
+  'custom',
+];
+
+export interface AICollaborationRequest {
+  storyId?: string;
+  storyContent: string;
+  selectedText?: string;
+  type: CollaborationType;
+  prompt?: string;
+  genre?: string;
+  context?: {
+    wordCount?: number;
+    lastParagraph?: string;
+    title?: string;
+    tags?: string[];
+  };
+}
+
+// aiSessions only know the four story-builder response types
+const SESSION_RESPONSE_TYPES: Record<string, AIResponseType> = {
+  continuation: 'continue',
+  story_starter: 'continue',
+  plot: 'twist',
+  character: 'character',
+  dialogue: 'character',
+};
+
+// Load a story the current user is allowed to collaborate on
+export async function findCollaborationStory(
+  storyId: string,
+  user: { id: string; role: string }
+): Promise<{ story: IStory } | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(storyId)) {
+    return { error: 'Invalid story ID', status: 400 };
+  }
+
+  await connectToDatabase();
+  const story = await Story.findById(storyId);
+
+  if (!story) {
+    return { error: 'Story not found', status: 404 };
+  }
+
+  if (story.authorId.toString() !== user.id && user.role !== 'admin') {
+    return { error: 'Access denied', status: 403 };
+  }
+
+  return { story };
+}
+
+// How much the AI may write for this writer: their parent's setting, age
+// and stage, and how much of the current story is their own
+export async function loadScaffoldingPolicy(
+  user: { id: string; age?: number },
+  story?: IStory
+): Promise<ScaffoldingPolicy> {
+  await connectToDatabase();
+
+  const profile = await User.findById(user.id)
+    .select('age preferences.writingSettings.aiAssistanceLevel progression.currentStage')
+    .lean();
+
+  const share = story ? storyWordShare(story) : undefined;
+  const total = share ? share.aiWords + share.childWords : 0;
+
+  return decideScaffolding({
+    assistanceLevel: profile?.preferences?.writingSettings?.aiAssistanceLevel,
+    age: profile?.age || user.age || 10,
+    stage: toStage(profile?.progression?.currentStage),
+    ...(share && total > 0 ? { childShare: share.childWords / total } : {}),
+  });
+}
+
+// Record AI text the child used as an aiSessions entry. Does not save the story.
+export function recordAISession(
+  story: IStory,
+  type: string,
+  aiText: string,
+  childInput?: string
+): number {
+  const input = (childInput || story.content.split(/\n\s*\n/).pop() || type).trim();
+
+  story.addAISession(
+    input.slice(-1000),
+    aiText.trim().slice(0, 500),
+    SESSION_RESPONSE_TYPES[type] || 'challenge'
+  );
+
+  return story.sessionsCount;
+}
+
+// Accumulates a streaming AI response and re-checks the whole buffer on
+// every chunk, so text that only becomes unsafe across chunks is still caught
+export class StreamModerator {
+  private buffer = '';
+
+  constructor(private ageGroup?: AgeGroup) {}
+
+  push(chunk: string): ContentModerationResult {
+    this.buffer += chunk;
+    return ContentFilter.checkLocally(this.buffer, this.ageGroup);
+  }
+
+  get text(): string {
+    return this.buffer;
+  }
+}
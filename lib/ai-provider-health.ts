@@ -0,0 +1,230 @@
+// lib/ai-provider-health.ts - Circuit breakers and per-provider metrics for AI failover
+import { AIProvider, AIProviderMetrics } from '@/types/ai';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures before the breaker opens
+  cooldownMs: number; // how long an open breaker rejects requests
+}
+
+export interface ProviderFailure {
+  operation: string;
+  error: string;
+  latency: number;
+  occurredAt: Date;
+}
+
+export interface ProviderHealthSnapshot {
+  provider: string;
+  circuit: {
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt?: Date;
+    nextAttemptAt?: Date;
+  };
+  metrics: AIProviderMetrics;
+  recentFailures: ProviderFailure[];
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: parseInt(process.env.AI_BREAKER_FAILURE_THRESHOLD || '3'),
+  cooldownMs: parseInt(process.env.AI_BREAKER_COOLDOWN_MS || '60000'),
+};
+
+const MAX_RECENT_FAILURES = 10;
+const MAX_COMMON_ERRORS = 5;
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: Date;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions = DEFAULT_OPTIONS) {}
+
+  // Whether a request may be sent now. After the cooldown a single trial
+  // request is let through; its outcome closes or re-opens the breaker.
+  canRequest(now: Date = new Date()): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'open' && this.openedAt &&
+        now.getTime() - this.openedAt.getTime() >= this.options.cooldownMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now: Date = new Date()): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getState(now: Date = new Date()): ProviderHealthSnapshot['circuit'] {
+    const nextAttemptAt = this.state === 'open' && this.openedAt
+      ? new Date(this.openedAt.getTime() + this.options.cooldownMs)
+      : undefined;
+
+    return {
+      // Report an expired open breaker as half open without consuming the trial
+      state: nextAttemptAt && nextAttemptAt <= now ? 'half_open' : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      nextAttemptAt,
+    };
+  }
+}
+
+interface ProviderCounters {
+  requestsCount: number;
+  successfulRequests: number;
+  failedRequests: number;
+  totalResponseTime: number;
+  totalTokensUsed: number;
+  totalCost: number;
+  errorCounts: Map<string, number>;
+  recentFailures: ProviderFailure[];
+}
+
+// Tracks breaker state and request metrics for every provider in this
+// process. Counters reset on restart; lifetime usage stays in AIKeys.
+export class ProviderHealthTracker {
+  private breakers = new Map<string, CircuitBreaker>();
+  private counters = new Map<string, ProviderCounters>();
+  private since = new Date();
+
+  constructor(private options: CircuitBreakerOptions = DEFAULT_OPTIONS) {}
+
+  canRequest(provider: string, now: Date = new Date()): boolean {
+    return this.getBreaker(provider).canRequest(now);
+  }
+
+  recordSuccess(provider: string, latency: number): void {
+    const counters = this.getCounters(provider);
+    counters.requestsCount++;
+    counters.successfulRequests++;
+    counters.totalResponseTime += latency;
+
+    this.getBreaker(provider).recordSuccess();
+  }
+
+  recordFailure(provider: string, operation: string, error: unknown, latency: number, now: Date = new Date()): void {
+    const message = error instanceof Error ? error.message : String(error);
+    const counters = this.getCounters(provider);
+    counters.requestsCount++;
+    counters.failedRequests++;
+    counters.totalResponseTime += latency;
+    counters.errorCounts.set(message, (counters.errorCounts.get(message) || 0) + 1);
+    counters.recentFailures.unshift({ operation, error: message, latency, occurredAt: now });
+    counters.recentFailures.length = Math.min(counters.recentFailures.length, MAX_RECENT_FAILURES);
+
+    this.getBreaker(provider).recordFailure(now);
+  }
+
+  recordUsage(provider: string, tokens: number, cost: number): void {
+    const counters = this.getCounters(provider);
+    counters.totalTokensUsed += tokens;
+    counters.totalCost += cost;
+  }
+
+  getSnapshot(providers: string[], now: Date = new Date()): ProviderHealthSnapshot[] {
+    const metrics = providers.map(provider => this.buildMetrics(provider));
+
+    // Rank providers against each other: faster, cheaper and more reliable first
+    const rank = (key: (m: AIProviderMetrics) => number) => {
+      const sorted = [...metrics].sort((a, b) => key(a) - key(b));
+      return (m: AIProviderMetrics) => sorted.indexOf(m) + 1;
+    };
+    const performanceRank = rank(m => m.averageResponseTime);
+    const costEfficiencyRank = rank(m => m.costPerRequest);
+    const qualityRank = rank(m => m.errorRate);
+
+    return providers.map((provider, index) => {
+      const providerMetrics = metrics[index];
+      providerMetrics.performanceRank = performanceRank(providerMetrics);
+      providerMetrics.costEfficiencyRank = costEfficiencyRank(providerMetrics);
+      providerMetrics.qualityRank = qualityRank(providerMetrics);
+
+      return {
+        provider,
+        circuit: this.getBreaker(provider).getState(now),
+        metrics: providerMetrics,
+        recentFailures: [...this.getCounters(provider).recentFailures],
+      };
+    });
+  }
+
+  private buildMetrics(provider: string): AIProviderMetrics {
+    const counters = this.getCounters(provider);
+    const requests = counters.requestsCount;
+
+    return {
+      provider: provider as AIProvider,
+      date: this.since,
+      requestsCount: requests,
+      successfulRequests: counters.successfulRequests,
+      failedRequests: counters.failedRequests,
+      averageResponseTime: requests > 0 ? Math.round(counters.totalResponseTime / requests) : 0,
+      totalTokensUsed: counters.totalTokensUsed,
+      totalCost: counters.totalCost,
+      costPerRequest: counters.successfulRequests > 0 ? counters.totalCost / counters.successfulRequests : 0,
+      // Quality scores come from user ratings, which are not collected per provider yet
+      averageUserRating: 0,
+      appropriatenessScore: 0,
+      creativityScore: 0,
+      errorRate: requests > 0 ? counters.failedRequests / requests : 0,
+      commonErrors: Array.from(counters.errorCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_COMMON_ERRORS)
+        .map(([message]) => message),
+      performanceRank: 0,
+      costEfficiencyRank: 0,
+      qualityRank: 0,
+    };
+  }
+
+  private getBreaker(provider: string): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.options);
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  private getCounters(provider: string): ProviderCounters {
+    let counters = this.counters.get(provider);
+    if (!counters) {
+      counters = {
+        requestsCount: 0,
+        successfulRequests: 0,
+        failedRequests: 0,
+        totalResponseTime: 0,
+        totalTokensUsed: 0,
+        totalCost: 0,
+        errorCounts: new Map(),
+        recentFailures: [],
+      };
+      this.counters.set(provider, counters);
+    }
+    return counters;
+  }
+}
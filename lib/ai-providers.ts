@@ -1,5 +1,17 @@
 import { connectToDatabase } from '@/utils/db';
-import { StoryElements, AIResponse, AIAssessment } from '@/types/ai';
+import {
+  StoryElements,
+  AIResponse,
+  AIAssessment,
+  CollaborationType,
+  CollaborationRequest,
+  CollaborationSuggestion,
+} from '@/types/ai';
+import { LocalProvider } from '@/lib/local-ai-provider';
+import { ProviderHealthTracker, ProviderHealthSnapshot } from '@/lib/ai-provider-health';
+import { buildRubricPrompt, parseRubricScores } from '@/lib/rubrics';
+import { scaffoldedTask, scaffoldingGuidance, scaffoldingTokenLimit } from '@/lib/ai-scaffolding';
+import { ResolvedRubric } from '@/types/rubric';
 import mongoose from 'mongoose';
 
 // AI Keys Model - Secure storage in MongoDB
@@ -27,6 +39,10 @@ const AIKeysSchema = new mongoose.Schema({
     totalTokens: { type: Number, default: 0 },
     totalCost: { type: Number, default: 0 },
   },
+  metadata: {
+    // Higher priority providers are tried first during failover
+    priority: { type: Number, default: 1 },
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -39,11 +55,19 @@ const AIKeysSchema = new mongoose.Schema({
 
 const AIKeys = mongoose.models.AIKeys || mongoose.model('AIKeys', AIKeysSchema);
 
+// Breaker state and latency/error metrics shared by every request in this process
+const providerHealth = new ProviderHealthTracker();
+
+// Slow providers count as failures so the next one can be tried
+const AI_REQUEST_TIMEOUT_MS = parseInt(process.env.AI_REQUEST_TIMEOUT_MS || '20000');
+
 // AI Provider Interface
-interface AIProvider {
+export interface AIProvider {
   name: string;
   generateStory: (elements: StoryElements, userAge: number) => Promise<AIResponse>;
-  assessStory: (content: string, elements: StoryElements, userAge: number) => Promise<AIAssessment>;
+  assessStory: (content: string, elements: StoryElements, userAge: number, rubric?: ResolvedRubric) => Promise<AIAssessment>;
+  generateSuggestions: (request: CollaborationRequest, userAge: number) => Promise<CollaborationSuggestion[]>;
+  streamSuggestion: (request: CollaborationRequest, userAge: number) => AsyncGenerator<string>;
   getCost: (tokens: number) => number;
 }
 
@@ -74,6 +98,8 @@ async function getAPIKey(provider: string): Promise<string> {
 
 // Usage tracking
 async function trackUsage(provider: string, tokens: number, cost: number) {
+  providerHealth.recordUsage(provider, tokens, cost);
+
   await connectToDatabase();
   
   await AIKeys.updateOne(
@@ -88,6 +114,108 @@ async function trackUsage(provider: string, tokens: number, cost: number) {
   );
 }
 
+// Writing collaboration prompts shared by the remote providers
+const COLLABORATION_INSTRUCTIONS: Record<CollaborationType, string> = {
+  continuation: 'Write the next 2-3 sentences of the story in the same voice, leaving room for the writer to continue.',
+  improvement: 'Give one specific, encouraging tip to improve the selected passage. Do not rewrite it for them.',
+  character: 'Suggest one new character who would fit this story, in 1-2 sentences.',
+  plot: 'Suggest one plot twist or turning point for what could happen next, in 1-2 sentences.',
+  dialogue: 'Write 1-2 lines of dialogue that a character in this story might say next.',
+  feedback: 'Give three short pieces of feedback: one thing done well (type "praise") and two ideas to improve (type "suggestion").',
+  story_starter: 'Write a 2-3 sentence story opening that makes the reader want to know more.',
+  custom: "Answer the writer's request about their story with one helpful idea.",
+};
+
+function buildCollaborationPrompt(
+  request: CollaborationRequest,
+  userAge: number,
+  format: 'json' | 'text' = 'json'
+): string {
+  const story = request.storyContent.slice(-2000);
+  const scaffolding = request.scaffolding;
+  const task = (scaffolding && scaffoldedTask(request.type, scaffolding)) || COLLABORATION_INSTRUCTIONS[request.type];
+  const responseFormat = format === 'text'
+    ? 'Respond with the suggestion text only, with no introduction or formatting.'
+    : `Respond ONLY with valid JSON in this exact format:
+{
+  "suggestions": [{ "type": "${request.type}", "content": "suggestion text" }]
+}`;
+
+  return `You are helping a ${userAge}-year-old write their own story. Keep vocabulary and themes age-appropriate and never take over the writing.
+
+Task: ${task}
+${scaffolding ? `${scaffoldingGuidance(scaffolding)}\n` : ''}${request.genre ? `Genre: ${request.genre}\n` : ''}${request.title ? `Title: ${request.title}\n` : ''}${request.prompt ? `Writer's request: ${request.prompt}\n` : ''}${request.selectedText ? `Selected passage: "${request.selectedText}"\n` : ''}
+Story so far: "${story}"
+
+${responseFormat}`;
+}
+
+// The scaffolding policy's budget when there is one, else the usual limit
+function collaborationTokenLimit(
+  request: CollaborationRequest,
+  format: 'json' | 'text',
+  fallback: number
+): number {
+  return request.scaffolding
+    ? scaffoldingTokenLimit(request.scaffolding, request.type, format)
+    : fallback;
+}
+
+function parseSuggestions(content: string, request: CollaborationRequest): CollaborationSuggestion[] {
+  const now = Date.now();
+
+  try {
+    const parsed = JSON.parse(content);
+    return (parsed.suggestions || [])
+      .filter((suggestion: any) => typeof suggestion?.content === 'string' && suggestion.content.trim())
+      .map((suggestion: any, index: number) => ({
+        id: `${request.type}_${now}_${index}`,
+        type: suggestion.type || request.type,
+        content: suggestion.content.trim(),
+        context: request.selectedText,
+        confidence: 0.8,
+      }));
+  } catch {
+    // Fallback if JSON parsing fails - use the raw text as a single suggestion
+    return [{
+      id: `${request.type}_${now}_0`,
+      type: request.type,
+      content: content.trim().substring(0, 500),
+      context: request.selectedText,
+      confidence: 0.6,
+    }];
+  }
+}
+
+// Yields the data payloads of a server-sent events response, cancelling the
+// upstream request if the consumer stops reading early
+async function* readEventStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
 // OpenAI Provider
 class OpenAIProvider implements AIProvider {
   name = 'openai';
@@ -100,6 +228,7 @@ class OpenAIProvider implements AIProvider {
     try {
       const response = await fetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
+        signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
         headers: {
           'Authorization': `Bearer ${apiKey}`,
           'Content-Type': 'application/json',
@@ -140,18 +269,19 @@ class OpenAIProvider implements AIProvider {
       return this.parseResponse(content);
     } catch (error) {
       console.error('OpenAI generation error:', error);
-      throw new Error('Failed to generate story with OpenAI');
+      throw new Error(`Failed to generate story with OpenAI: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async assessStory(content: string, elements: StoryElements, userAge: number): Promise<AIAssessment> {
+  async assessStory(content: string, elements: StoryElements, userAge: number, rubric?: ResolvedRubric): Promise<AIAssessment> {
     const apiKey = await getAPIKey('openai');
     
-    const prompt = this.buildAssessmentPrompt(content, elements, userAge);
+    const prompt = this.buildAssessmentPrompt(content, elements, userAge, rubric);
     
     try {
       const response = await fetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
+        signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
         headers: {
           'Authorization': `Bearer ${apiKey}`,
           'Content-Type': 'application/json',
@@ -168,7 +298,8 @@ class OpenAIProvider implements AIProvider {
               content: prompt,
             },
           ],
-          max_tokens: 600,
+          // Per-criterion scores need room on top of the fixed fields
+          max_tokens: rubric ? 1000 : 600,
           temperature: 0.3,
         }),
       });
@@ -192,7 +323,104 @@ class OpenAIProvider implements AIProvider {
       return this.parseAssessment(assessmentContent);
     } catch (error) {
       console.error('OpenAI assessment error:', error);
-      throw new Error('Failed to assess story with OpenAI');
+      throw new Error(`Failed to assess story with OpenAI: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async generateSuggestions(request: CollaborationRequest, userAge: number): Promise<CollaborationSuggestion[]> {
+    const apiKey = await getAPIKey('openai');
+    
+    try {
+      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: 'gpt-4-1106-preview',
+          messages: [
+            {
+              role: 'system',
+              content: this.getSystemPrompt(userAge),
+            },
+            {
+              role: 'user',
+              content: buildCollaborationPrompt(request, userAge),
+            },
+          ],
+          max_tokens: collaborationTokenLimit(request, 'json', 400),
+          temperature: 0.8,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI API error: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices[0]?.message?.content;
+      
+      if (!content) {
+        throw new Error('No suggestions received from OpenAI');
+      }
+
+      // Track usage
+      const tokens = data.usage?.total_tokens || 0;
+      const cost = this.getCost(tokens);
+      await trackUsage('openai', tokens, cost);
+
+      return parseSuggestions(content, request);
+    } catch (error) {
+      console.error('OpenAI suggestion error:', error);
+      throw new Error(`Failed to generate suggestions with OpenAI: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async *streamSuggestion(request: CollaborationRequest, userAge: number): AsyncGenerator<string> {
+    const apiKey = await getAPIKey('openai');
+
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'gpt-4-1106-preview',
+        messages: [
+          {
+            role: 'user',
+            content: buildCollaborationPrompt(request, userAge, 'text'),
+          },
+        ],
+        max_tokens: collaborationTokenLimit(request, 'text', 300),
+        temperature: 0.8,
+        stream: true,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.statusText}`);
+    }
+
+    let text = '';
+    try {
+      for await (const data of readEventStream(response)) {
+        if (data === '[DONE]') break;
+
+        const token = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (token) {
+          text += token;
+          yield token;
+        }
+      }
+    } finally {
+      // Streamed responses carry no usage block, so estimate from the text
+      const estimatedTokens = Math.ceil(text.length / 4);
+      await trackUsage('openai', estimatedTokens, this.getCost(estimatedTokens));
     }
   }
 
@@ -244,7 +472,7 @@ class OpenAIProvider implements AIProvider {
     }`;
   }
 
-  private buildAssessmentPrompt(content: string, elements: StoryElements, userAge: number): string {
+  private buildAssessmentPrompt(content: string, elements: StoryElements, userAge: number, rubric?: ResolvedRubric): string {
     return `Assess this story written by a ${userAge}-year-old:
 
     Story: "${content}"
@@ -262,7 +490,7 @@ class OpenAIProvider implements AIProvider {
       "strengths": ["2-3 things they did really well"],
       "improvements": ["2-3 areas to work on"],
       "readingLevel": "age-appropriate reading level assessment"
-    }`;
+    }${rubric ? `\n\n${buildRubricPrompt(rubric)}` : ''}`;
   }
 
   private parseResponse(content: string): AIResponse {
@@ -320,6 +548,7 @@ class AnthropicProvider implements AIProvider {
     try {
       const response = await fetch('https://api.anthropic.com/v1/messages', {
         method: 'POST',
+        signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
         headers: {
           'x-api-key': apiKey,
           'Content-Type': 'application/json',
@@ -356,16 +585,17 @@ class AnthropicProvider implements AIProvider {
       return this.parseResponse(content);
     } catch (error) {
       console.error('Anthropic generation error:', error);
-      throw new Error('Failed to generate story with Anthropic');
+      throw new Error(`Failed to generate story with Anthropic: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async assessStory(content: string, elements: StoryElements, userAge: number): Promise<AIAssessment> {
+  async assessStory(content: string, elements: StoryElements, userAge: number, rubric?: ResolvedRubric): Promise<AIAssessment> {
     const apiKey = await getAPIKey('anthropic');
     
     try {
       const response = await fetch('https://api.anthropic.com/v1/messages', {
         method: 'POST',
+        signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
         headers: {
           'x-api-key': apiKey,
           'Content-Type': 'application/json',
@@ -373,11 +603,12 @@ class AnthropicProvider implements AIProvider {
         },
         body: JSON.stringify({
           model: 'claude-3-sonnet-20240229',
-          max_tokens: 600,
+          // Per-criterion scores need room on top of the fixed fields
+          max_tokens: rubric ? 1000 : 600,
           messages: [
             {
               role: 'user',
-              content: this.buildAssessmentPrompt(content, elements, userAge),
+              content: this.buildAssessmentPrompt(content, elements, userAge, rubric),
             },
           ],
         }),
@@ -402,7 +633,100 @@ class AnthropicProvider implements AIProvider {
       return this.parseAssessment(assessmentContent);
     } catch (error) {
       console.error('Anthropic assessment error:', error);
-      throw new Error('Failed to assess story with Anthropic');
+      throw new Error(`Failed to assess story with Anthropic: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async generateSuggestions(request: CollaborationRequest, userAge: number): Promise<CollaborationSuggestion[]> {
+    const apiKey = await getAPIKey('anthropic');
+    
+    try {
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
+        headers: {
+          'x-api-key': apiKey,
+          'Content-Type': 'application/json',
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model: 'claude-3-sonnet-20240229',
+          max_tokens: collaborationTokenLimit(request, 'json', 400),
+          messages: [
+            {
+              role: 'user',
+              content: buildCollaborationPrompt(request, userAge),
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Anthropic API error: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const content = data.content[0]?.text;
+      
+      if (!content) {
+        throw new Error('No suggestions received from Anthropic');
+      }
+
+      // Track usage
+      const tokens = data.usage?.input_tokens + data.usage?.output_tokens || 0;
+      const cost = this.getCost(tokens);
+      await trackUsage('anthropic', tokens, cost);
+
+      return parseSuggestions(content, request);
+    } catch (error) {
+      console.error('Anthropic suggestion error:', error);
+      throw new Error(`Failed to generate suggestions with Anthropic: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async *streamSuggestion(request: CollaborationRequest, userAge: number): AsyncGenerator<string> {
+    const apiKey = await getAPIKey('anthropic');
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
+      headers: {
+        'x-api-key': apiKey,
+        'Content-Type': 'application/json',
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: 'claude-3-sonnet-20240229',
+        max_tokens: collaborationTokenLimit(request, 'text', 300),
+        stream: true,
+        messages: [
+          {
+            role: 'user',
+            content: buildCollaborationPrompt(request, userAge, 'text'),
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.statusText}`);
+    }
+
+    let text = '';
+    try {
+      for await (const data of readEventStream(response)) {
+        const event = JSON.parse(data);
+        if (event.type === 'message_stop') break;
+
+        const token = event.type === 'content_block_delta' ? event.delta?.text : undefined;
+        if (token) {
+          text += token;
+          yield token;
+        }
+      }
+    } finally {
+      const estimatedTokens = Math.ceil(text.length / 4);
+      await trackUsage('anthropic', estimatedTokens, this.getCost(estimatedTokens));
     }
   }
 
@@ -435,7 +759,7 @@ Respond ONLY with valid JSON in this exact format:
 }`;
   }
 
-  private buildAssessmentPrompt(content: string, elements: StoryElements, userAge: number): string {
+  private buildAssessmentPrompt(content: string, elements: StoryElements, userAge: number, rubric?: ResolvedRubric): string {
     return `Assess this story written by a ${userAge}-year-old child. Be encouraging and constructive.
 
 Story: "${content}"
@@ -450,7 +774,7 @@ Respond ONLY with valid JSON in this exact format:
   "strengths": ["strength 1", "strength 2"],
   "improvements": ["area 1", "area 2"],
   "readingLevel": "reading level description"
-}`;
+}${rubric ? `\n\n${buildRubricPrompt(rubric)}` : ''}`;
   }
 
   private parseResponse(content: string): AIResponse {
@@ -498,6 +822,7 @@ class GoogleProvider implements AIProvider {
     try {
       const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${apiKey}`, {
         method: 'POST',
+        signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
         headers: {
           'Content-Type': 'application/json',
         },
@@ -557,16 +882,17 @@ class GoogleProvider implements AIProvider {
       return this.parseResponse(content);
     } catch (error) {
       console.error('Google generation error:', error);
-      throw new Error('Failed to generate story with Google');
+      throw new Error(`Failed to generate story with Google: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async assessStory(content: string, elements: StoryElements, userAge: number): Promise<AIAssessment> {
+  async assessStory(content: string, elements: StoryElements, userAge: number, rubric?: ResolvedRubric): Promise<AIAssessment> {
     const apiKey = await getAPIKey('google');
     
     try {
       const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${apiKey}`, {
         method: 'POST',
+        signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
         headers: {
           'Content-Type': 'application/json',
         },
@@ -575,7 +901,7 @@ class GoogleProvider implements AIProvider {
             {
               parts: [
                 {
-                  text: this.buildAssessmentPrompt(content, elements, userAge),
+                  text: this.buildAssessmentPrompt(content, elements, userAge, rubric),
                 },
               ],
             },
@@ -584,7 +910,7 @@ class GoogleProvider implements AIProvider {
             temperature: 0.3,
             topK: 20,
             topP: 0.8,
-            maxOutputTokens: 600,
+            maxOutputTokens: rubric ? 1000 : 600,
           },
           safetySettings: [
             {
@@ -626,7 +952,142 @@ class GoogleProvider implements AIProvider {
       return this.parseAssessment(assessmentContent);
     } catch (error) {
       console.error('Google assessment error:', error);
-      throw new Error('Failed to assess story with Google');
+      throw new Error(`Failed to assess story with Google: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async generateSuggestions(request: CollaborationRequest, userAge: number): Promise<CollaborationSuggestion[]> {
+    const apiKey = await getAPIKey('google');
+    
+    try {
+      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${apiKey}`, {
+        method: 'POST',
+        signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [
+            {
+              parts: [
+                {
+                  text: buildCollaborationPrompt(request, userAge),
+                },
+              ],
+            },
+          ],
+          generationConfig: {
+            temperature: 0.8,
+            topK: 40,
+            topP: 0.95,
+            maxOutputTokens: collaborationTokenLimit(request, 'json', 400),
+          },
+          safetySettings: [
+            {
+              category: 'HARM_CATEGORY_HARASSMENT',
+              threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+            },
+            {
+              category: 'HARM_CATEGORY_HATE_SPEECH',
+              threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+            },
+            {
+              category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+              threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+            },
+            {
+              category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+              threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Google API error: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      
+      if (!content) {
+        throw new Error('No suggestions received from Google');
+      }
+
+      // Track usage
+      const estimatedTokens = Math.ceil(content.length / 4);
+      const cost = this.getCost(estimatedTokens);
+      await trackUsage('google', estimatedTokens, cost);
+
+      return parseSuggestions(content, request);
+    } catch (error) {
+      console.error('Google suggestion error:', error);
+      throw new Error(`Failed to generate suggestions with Google: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async *streamSuggestion(request: CollaborationRequest, userAge: number): AsyncGenerator<string> {
+    const apiKey = await getAPIKey('google');
+
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:streamGenerateContent?alt=sse&key=${apiKey}`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            parts: [
+              {
+                text: buildCollaborationPrompt(request, userAge, 'text'),
+              },
+            ],
+          },
+        ],
+        generationConfig: {
+          temperature: 0.8,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: collaborationTokenLimit(request, 'text', 300),
+        },
+        safetySettings: [
+          {
+            category: 'HARM_CATEGORY_HARASSMENT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+          },
+          {
+            category: 'HARM_CATEGORY_HATE_SPEECH',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+          },
+          {
+            category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+          },
+          {
+            category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Google API error: ${response.statusText}`);
+    }
+
+    let text = '';
+    try {
+      for await (const data of readEventStream(response)) {
+        const token = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text;
+        if (token) {
+          text += token;
+          yield token;
+        }
+      }
+    } finally {
+      const estimatedTokens = Math.ceil(text.length / 4);
+      await trackUsage('google', estimatedTokens, this.getCost(estimatedTokens));
     }
   }
 
@@ -658,7 +1119,7 @@ Respond ONLY with valid JSON in this exact format:
 }`;
   }
 
-  private buildAssessmentPrompt(content: string, elements: StoryElements, userAge: number): string {
+  private buildAssessmentPrompt(content: string, elements: StoryElements, userAge: number, rubric?: ResolvedRubric): string {
     return `Assess this story written by a ${userAge}-year-old child. Be encouraging and constructive.
 
 Story: "${content}"
@@ -673,7 +1134,7 @@ Respond ONLY with valid JSON in this exact format:
   "strengths": ["strength 1", "strength 2"],
   "improvements": ["area 1", "area 2"],
   "readingLevel": "reading level description"
-}`;
+}${rubric ? `\n\n${buildRubricPrompt(rubric)}` : ''}`;
   }
 
   private parseResponse(content: string): AIResponse {
@@ -714,12 +1175,16 @@ Respond ONLY with valid JSON in this exact format:
 // Provider Manager
 class AIProviderManager {
   private providers: Map<string, AIProvider> = new Map();
-  private defaultProvider = 'openai';
+  // Only set when an admin chose one (DEFAULT_AI_PROVIDER or
+  // switchProvider); until then key priority alone decides
+  private defaultProvider: string | undefined = process.env.DEFAULT_AI_PROVIDER || undefined;
 
   constructor() {
     this.providers.set('openai', new OpenAIProvider());
     this.providers.set('anthropic', new AnthropicProvider());
     this.providers.set('google', new GoogleProvider());
+    // Rule-based provider that needs no API key or network access
+    this.providers.set('local', new LocalProvider());
   }
 
   async getProvider(providerName?: string): Promise<AIProvider> {
@@ -734,17 +1199,122 @@ class AIProviderManager {
   }
 
   async getDefaultProvider(): Promise<string> {
-    // Check which providers have active API keys and return the best available
+    const [first] = await this.getProviderOrder();
+    return first;
+  }
+
+  // Providers to try, in order: the requested one, the admin's default if
+  // there is one, then active keys by AIKeys.metadata.priority (cheapest
+  // first on ties), then the local provider
+  async getProviderOrder(preferred?: string): Promise<string[]> {
+    const order: string[] = [];
+    const add = (name?: string) => {
+      if (name && this.providers.has(name) && !order.includes(name)) {
+        order.push(name);
+      }
+    };
+
+    // The local provider is chosen explicitly and never needs a key lookup
+    if (preferred === 'local' || (!preferred && this.defaultProvider === 'local')) {
+      return ['local'];
+    }
+
     await connectToDatabase();
-    
-    const activeProviders = await AIKeys.find({ isActive: true }).sort({ 'usage.totalCost': 1 });
-    
-    if (activeProviders.length === 0) {
-      throw new Error('No active AI providers configured');
+    const activeProviders = await AIKeys.find({ isActive: true })
+      .sort({ 'metadata.priority': -1, 'usage.totalCost': 1 });
+    const active: string[] = activeProviders.map((record: any) => record.provider);
+
+    [preferred, this.defaultProvider]
+      .filter(name => name && active.includes(name))
+      .forEach(add);
+    active.forEach(add);
+
+    // Without any configured keys, or once they all fail, keep working offline
+    add('local');
+
+    return order;
+  }
+
+  // Run an operation against each provider in order until one succeeds,
+  // skipping providers whose circuit breaker is open
+  async execute<T>(
+    operation: string,
+    run: (provider: AIProvider) => Promise<T>,
+    preferred?: string
+  ): Promise<T> {
+    const candidates = await this.getCandidates(preferred);
+    let lastError: unknown;
+
+    for (const name of candidates) {
+      if (!providerHealth.canRequest(name)) {
+        continue;
+      }
+
+      const startTime = performance.now();
+      try {
+        const result = await run(this.providers.get(name)!);
+        providerHealth.recordSuccess(name, performance.now() - startTime);
+        return result;
+      } catch (error) {
+        providerHealth.recordFailure(name, operation, error, performance.now() - startTime);
+        console.error(`AI provider ${name} failed during ${operation}:`, error);
+        lastError = error;
+      }
     }
-    
-    // Return the provider with lowest cost usage
-    return activeProviders[0].provider;
+
+    throw new Error(
+      `All AI providers failed during ${operation}` +
+      (lastError instanceof Error ? `: ${lastError.message}` : '')
+    );
+  }
+
+  // Stream a suggestion token by token. Failover is only possible until the
+  // first token has been sent; after that a failure ends the stream.
+  async *stream(
+    request: CollaborationRequest,
+    userAge: number,
+    preferred?: string
+  ): AsyncGenerator<string> {
+    const candidates = await this.getCandidates(preferred);
+    let lastError: unknown;
+
+    for (const name of candidates) {
+      if (!providerHealth.canRequest(name)) {
+        continue;
+      }
+
+      const startTime = performance.now();
+      let started = false;
+      let failed = false;
+      try {
+        for await (const token of this.providers.get(name)!.streamSuggestion(request, userAge)) {
+          started = true;
+          yield token;
+        }
+        return;
+      } catch (error) {
+        failed = true;
+        providerHealth.recordFailure(name, 'streamSuggestion', error, performance.now() - startTime);
+        console.error(`AI provider ${name} failed during streamSuggestion:`, error);
+        if (started) throw error;
+        lastError = error;
+      } finally {
+        // Also runs when the consumer stops early, e.g. after moderation
+        if (!failed) {
+          providerHealth.recordSuccess(name, performance.now() - startTime);
+        }
+      }
+    }
+
+    throw new Error(
+      'All AI providers failed during streamSuggestion' +
+      (lastError instanceof Error ? `: ${lastError.message}` : '')
+    );
+  }
+
+  private async getCandidates(preferred?: string): Promise<string[]> {
+    const order = await this.getProviderOrder(preferred);
+    return process.env.AI_FALLBACK_ENABLED === 'false' ? order.slice(0, 1) : order;
   }
 
   async switchProvider(newProvider: string): Promise<void> {
@@ -753,13 +1323,28 @@ class AIProviderManager {
     }
     
     // Verify the provider has an active API key
-    await getAPIKey(newProvider);
+    if (newProvider !== 'local') {
+      await getAPIKey(newProvider);
+    }
     this.defaultProvider = newProvider;
   }
 
-  async getProviderStats(): Promise<any[]> {
+  async getProviderStats(): Promise<Array<Record<string, any> & ProviderHealthSnapshot>> {
     await connectToDatabase();
-    return await AIKeys.find({}).select('-apiKey');
+    const records = await AIKeys.find({}).select('-apiKey').lean();
+    const health = providerHealth.getSnapshot(this.getAvailableProviders());
+    const defaultProvider = await this.getDefaultProvider();
+
+    return health.map(snapshot => {
+      const record: any = records.find((r: any) => r.provider === snapshot.provider);
+      return {
+        ...(record || {}),
+        isActive: snapshot.provider === 'local' ? true : !!record?.isActive,
+        isDefault: snapshot.provider === defaultProvider,
+        priority: record?.metadata?.priority ?? 0,
+        ...snapshot,
+      };
+    });
   }
 
   getAvailableProviders(): string[] {
@@ -775,54 +1360,55 @@ export async function generateStory(
   userAge: number, 
   providerName?: string
 ): Promise<AIResponse> {
-  try {
-    const provider = await aiManager.getProvider(providerName);
-    return await provider.generateStory(elements, userAge);
-  } catch (error) {
-    console.error('Story generation failed:', error);
-    
-    // Try fallback provider
-    if (providerName) {
-      try {
-        const fallbackProvider = await aiManager.getProvider();
-        return await fallbackProvider.generateStory(elements, userAge);
-      } catch (fallbackError) {
-        console.error('Fallback provider also failed:', fallbackError);
-      }
-    }
-    
-    throw new Error('All AI providers failed to generate story');
-  }
+  return aiManager.execute(
+    'generateStory',
+    provider => provider.generateStory(elements, userAge),
+    providerName
+  );
 }
 
+// With a rubric, per-criterion scores are matched back to it so criteria the
+// model invented or renamed are dropped
 export async function assessStory(
   content: string,
   elements: StoryElements,
   userAge: number,
+  rubric?: ResolvedRubric,
   providerName?: string
 ): Promise<AIAssessment> {
-  try {
-    const provider = await aiManager.getProvider(providerName);
-    return await provider.assessStory(content, elements, userAge);
-  } catch (error) {
-    console.error('Story assessment failed:', error);
-    
-    // Try fallback provider
-    if (providerName) {
-      try {
-        const fallbackProvider = await aiManager.getProvider();
-        return await fallbackProvider.assessStory(content, elements, userAge);
-      } catch (fallbackError) {
-        console.error('Fallback provider also failed:', fallbackError);
-      }
-    }
-    
-    throw new Error('All AI providers failed to assess story');
-  }
+  const assessment = await aiManager.execute(
+    'assessStory',
+    provider => provider.assessStory(content, elements, userAge, rubric),
+    providerName
+  );
+
+  return rubric
+    ? { ...assessment, rubric: parseRubricScores(assessment.rubric, rubric) }
+    : assessment;
+}
+
+export async function generateSuggestions(
+  request: CollaborationRequest,
+  userAge: number,
+  providerName?: string
+): Promise<CollaborationSuggestion[]> {
+  return aiManager.execute(
+    'generateSuggestions',
+    provider => provider.generateSuggestions(request, userAge),
+    providerName
+  );
+}
+
+export function streamSuggestion(
+  request: CollaborationRequest,
+  userAge: number,
+  providerName?: string
+): AsyncGenerator<string> {
+  return aiManager.stream(request, userAge, providerName);
 }
 
 // Admin functions for managing AI keys
-export async function setAPIKey(provider: string, apiKey: string): Promise<void> {
+export async function setAPIKey(provider: string, apiKey: string, priority?: number): Promise<void> {
   await connectToDatabase();
   
   await AIKeys.findOneAndUpdate(
@@ -831,6 +1417,7 @@ export async function setAPIKey(provider: string, apiKey: string): Promise<void>
       provider,
       apiKey,
       isActive: true,
+      ...(priority !== undefined && { 'metadata.priority': priority }),
       updatedAt: new Date(),
     },
     { upsert: true }
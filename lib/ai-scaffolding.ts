@@ -0,0 +1,128 @@
+// lib/ai-scaffolding.ts - Decides how much the AI writes for a child, and turns that into prompt text
+import { stageAssistanceLevel } from '@/lib/progression';
+import {
+  CollaborationType,
+  ScaffoldingPolicy,
+  VocabularyLevel,
+} from '@/types/ai';
+import { AIAssistanceLevel } from '@/types/progression';
+import { StoryStage } from '@/types/story';
+
+export interface ScaffoldingInput {
+  assistanceLevel?: AIAssistanceLevel; // the parent's setting
+  age: number;
+  stage: StoryStage;
+  childShare?: number; // 0-1, the child's own share of the current story's words
+}
+
+const SENTENCES: Record<AIAssistanceLevel, number> = { maximum: 3, normal: 2, minimal: 1 };
+
+// Below this share of their own words, a writer gets questions instead of
+// more AI text. Minimal assistance always asks questions.
+const GUIDE_BELOW_CHILD_SHARE: Record<AIAssistanceLevel, number> = { maximum: 0.3, normal: 0.5, minimal: 1 };
+
+const VOCABULARY_LEVELS: VocabularyLevel[] = ['simple', 'everyday', 'rich', 'advanced'];
+
+const VOCABULARY_GUIDANCE: Record<VocabularyLevel, string> = {
+  simple: 'Use short, everyday words that a beginning reader knows.',
+  everyday: 'Use familiar words, with at most one new word the writer can guess from the sentence.',
+  rich: 'Use vivid, precise words, including a few new ones that stretch the writer.',
+  advanced: 'Use rich, varied vocabulary and some figurative language.',
+};
+
+// Request types whose answer would otherwise be text for the story itself
+const WRITING_TASKS: Partial<Record<CollaborationType, { write: (sentences: string) => string; decide: string }>> = {
+  continuation: {
+    write: sentences => `Write the next ${sentences} of the story in the same voice, leaving room for the writer to continue.`,
+    decide: 'what happens next',
+  },
+  dialogue: {
+    write: sentences => `Write ${sentences} of dialogue that a character in this story might say next.`,
+    decide: 'what their characters say next',
+  },
+  story_starter: {
+    write: sentences => `Write a ${sentences} story opening that makes the reader want to know more.`,
+    decide: 'how their story begins',
+  },
+};
+
+const TOKENS_PER_WORD = 1.5;
+const JSON_OVERHEAD_TOKENS = 60;
+
+function ageBand(age: number): { vocabulary: number; maxSentenceWords: number } {
+  if (age <= 7) return { vocabulary: 0, maxSentenceWords: 10 };
+  if (age <= 10) return { vocabulary: 1, maxSentenceWords: 15 };
+  if (age <= 13) return { vocabulary: 2, maxSentenceWords: 20 };
+  return { vocabulary: 3, maxSentenceWords: 25 };
+}
+
+function sentences(count: number): string {
+  return count === 1 ? '1 sentence' : `${count} sentences`;
+}
+
+export function decideScaffolding(input: ScaffoldingInput): ScaffoldingPolicy {
+  const reasons: string[] = [];
+  const assistanceLevel = stageAssistanceLevel(input.assistanceLevel, input.stage);
+  if (assistanceLevel !== (input.assistanceLevel || 'normal')) {
+    reasons.push(`Stage ${input.stage} allows ${assistanceLevel} assistance at most`);
+  }
+
+  let mode: ScaffoldingPolicy['mode'] = 'write';
+  if (assistanceLevel === 'minimal') {
+    mode = 'guide';
+    reasons.push('Minimal assistance asks questions instead of writing');
+  } else if (input.childShare !== undefined && input.childShare < GUIDE_BELOW_CHILD_SHARE[assistanceLevel]) {
+    mode = 'guide';
+    reasons.push(`Only ${Math.round(input.childShare * 100)}% of this story is in the writer's own words`);
+  }
+
+  // Writers from stage 4 up get a step richer vocabulary than their age alone suggests
+  const band = ageBand(input.age);
+  const vocabulary = VOCABULARY_LEVELS[Math.min(VOCABULARY_LEVELS.length - 1, band.vocabulary + (input.stage >= 4 ? 1 : 0))];
+
+  return {
+    assistanceLevel,
+    mode,
+    maxSentences: SENTENCES[assistanceLevel],
+    maxSentenceWords: band.maxSentenceWords,
+    vocabulary,
+    reasons,
+  };
+}
+
+// The task line for a request, replacing the fixed instruction when the
+// policy changes what the AI may write
+export function scaffoldedTask(type: CollaborationType, policy: ScaffoldingPolicy): string | undefined {
+  const task = WRITING_TASKS[type];
+  if (!task) {
+    return undefined;
+  }
+
+  if (policy.mode === 'guide') {
+    return `Do not write any of the story. Ask ${policy.maxSentences === 1 ? 'one short question' : `up to ${policy.maxSentences} short questions`} that help the writer decide ${task.decide} themselves.`;
+  }
+
+  return task.write(type === 'dialogue'
+    ? (policy.maxSentences === 1 ? '1 line' : `up to ${policy.maxSentences} lines`)
+    : sentences(policy.maxSentences));
+}
+
+// Length and vocabulary rules added to every collaboration prompt
+export function scaffoldingGuidance(policy: ScaffoldingPolicy): string {
+  return [
+    `Keep each suggestion to ${sentences(policy.maxSentences)} of no more than ${policy.maxSentenceWords} words each.`,
+    VOCABULARY_GUIDANCE[policy.vocabulary],
+  ].join(' ');
+}
+
+// Room for the reply: the sentence budget for each item asked for, plus
+// the JSON wrapper when there is one
+export function scaffoldingTokenLimit(
+  policy: ScaffoldingPolicy,
+  type: CollaborationType,
+  format: 'json' | 'text'
+): number {
+  const items = type === 'feedback' ? 3 : 1;
+  const text = Math.ceil(policy.maxSentences * policy.maxSentenceWords * items * TOKENS_PER_WORD);
+  return text + (format === 'json' ? JSON_OVERHEAD_TOKENS : 0);
+}
@@ -0,0 +1,339 @@
+// lib/assignments.ts - Class writing assignments: element constraints, submissions and due reminders
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Assignment, { IAssignment } from '@/models/Assignment';
+import Classroom, { IClassroom } from '@/models/Classroom';
+import Story, { IStory } from '@/models/Story';
+import Notification from '@/models/Notification';
+import { assessStory } from '@/lib/ai-providers';
+import { recordRubricAssessment, resolveStoryRubric } from '@/lib/rubrics';
+import { publishDomainEvent } from '@/lib/domain-events';
+import { StoryElements } from '@/types/story';
+import {
+  AssignmentSubmission,
+  ElementConstraints,
+  SubmissionCounts,
+  SubmissionStatus,
+} from '@/types/classroom';
+
+type SessionUser = { id: string; name?: string | null; role: string };
+type Result<T> = T | { error: string; status: number };
+
+export const STORY_ELEMENT_KEYS: Array<keyof StoryElements> = ['genre', 'setting', 'character', 'mood', 'conflict', 'theme'];
+
+export const REMINDER_WINDOW_HOURS = 24;
+const MAX_REMINDERS_PER_SWEEP = 20;
+
+// Elements arrive both as picker labels ("Animal Stories") and stored slugs
+// ("animal-stories"); compare them in one form
+export function elementKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+// Explain every element that falls outside what the assignment allows
+export function checkElementConstraints(
+  elements: Partial<StoryElements>,
+  constraints: ElementConstraints = {}
+): string[] {
+  const problems: string[] = [];
+
+  for (const key of STORY_ELEMENT_KEYS) {
+    const allowed = constraints[key];
+    if (!allowed || allowed.length === 0) continue;
+
+    const chosen = elements[key];
+    if (chosen && allowed.some(option => elementKey(option) === elementKey(chosen))) continue;
+
+    problems.push(allowed.length === 1
+      ? `This assignment uses the ${key} "${allowed[0]}"`
+      : `Pick a ${key} from: ${allowed.join(', ')}`);
+  }
+
+  return problems;
+}
+
+export function submissionStatus(
+  dueDate: Date | undefined,
+  story: { submittedAt?: Date } | null,
+  now: Date = new Date()
+): SubmissionStatus {
+  if (story?.submittedAt) {
+    return dueDate && story.submittedAt > dueDate ? 'late' : 'submitted';
+  }
+  if (dueDate && now > dueDate) {
+    return 'missing';
+  }
+  return story ? 'in_progress' : 'not_started';
+}
+
+export function countSubmissions(submissions: AssignmentSubmission[]): SubmissionCounts {
+  const counts: SubmissionCounts = { submitted: 0, late: 0, missing: 0, in_progress: 0, not_started: 0 };
+  submissions.forEach(submission => {
+    counts[submission.status]++;
+  });
+  return counts;
+}
+
+// Every rostered student's standing on each assignment. Students who left the
+// class are not counted; students who joined after the due date are.
+export async function getSubmissionsByAssignment(
+  assignments: IAssignment[],
+  now: Date = new Date()
+): Promise<Map<string, AssignmentSubmission[]>> {
+  await connectToDatabase();
+
+  const result = new Map<string, AssignmentSubmission[]>();
+  if (assignments.length === 0) {
+    return result;
+  }
+
+  const classroomIds = Array.from(new Set(assignments.map(assignment => assignment.classroomId.toString())));
+  const [classrooms, stories] = await Promise.all([
+    Classroom.find({ _id: { $in: classroomIds } }).select('students').lean(),
+    Story.find({ assignmentId: { $in: assignments.map(assignment => assignment._id) } })
+      .select('assignmentId authorId wordCount submittedAt')
+      .lean(),
+  ]);
+
+  const rosters = new Map(classrooms.map(classroom => [classroom._id.toString(), classroom.students]));
+  const storyByKey = new Map(
+    stories.map(story => [`${story.assignmentId}:${story.authorId}`, story])
+  );
+
+  for (const assignment of assignments) {
+    const roster = rosters.get(assignment.classroomId.toString()) || [];
+
+    result.set(assignment._id.toString(), roster.map(student => {
+      const story = storyByKey.get(`${assignment._id}:${student.userId}`) || null;
+      return {
+        userId: student.userId.toString(),
+        name: student.name,
+        status: submissionStatus(assignment.dueDate, story, now),
+        ...(story ? {
+          storyId: story._id.toString(),
+          wordCount: story.wordCount,
+          submittedAt: story.submittedAt,
+        } : {}),
+      };
+    }));
+  }
+
+  return result;
+}
+
+// An assignment the child can write for: active and set for one of their classes
+export async function loadStudentAssignment(
+  user: SessionUser,
+  assignmentId: string
+): Promise<Result<{ assignment: IAssignment; classroom: IClassroom }>> {
+  if (!mongoose.Types.ObjectId.isValid(assignmentId)) {
+    return { error: 'Invalid assignment ID', status: 400 };
+  }
+
+  await connectToDatabase();
+
+  const assignment = await Assignment.findById(assignmentId);
+  if (!assignment) {
+    return { error: 'Assignment not found', status: 404 };
+  }
+
+  const classroom = await Classroom.findOne({
+    _id: assignment.classroomId,
+    isArchived: false,
+    'students.userId': user.id,
+  });
+  if (!classroom) {
+    return { error: 'This assignment is for a class you are not in', status: 403 };
+  }
+
+  if (assignment.status !== 'active') {
+    return { error: 'This assignment is closed', status: 400 };
+  }
+
+  return { assignment, classroom };
+}
+
+// Fields a new story takes from its assignment. Each student writes one story
+// per assignment, so a second start points back at the first.
+export async function resolveAssignmentForStory(
+  user: SessionUser,
+  assignmentId: string,
+  elements: StoryElements
+): Promise<
+  | { assignment: IAssignment; fields: Record<string, unknown> }
+  | { error: string; status: number; storyId?: string }
+> {
+  const loaded = await loadStudentAssignment(user, assignmentId);
+  if ('error' in loaded) {
+    return loaded;
+  }
+
+  const { assignment } = loaded;
+
+  const existing = await Story.findOne({ assignmentId: assignment._id, authorId: user.id }).select('_id').lean();
+  if (existing) {
+    return {
+      error: 'You already started a story for this assignment',
+      status: 409,
+      storyId: existing._id.toString(),
+    };
+  }
+
+  const problems = checkElementConstraints(elements, assignment.elementConstraints);
+  if (problems.length > 0) {
+    return { error: problems.join('. '), status: 400 };
+  }
+
+  return {
+    assignment,
+    fields: {
+      assignmentId: assignment._id,
+      ...(assignment.stage ? { stage: assignment.stage } : {}),
+      ...(assignment.targetWordCount ? { targetWordCount: assignment.targetWordCount } : {}),
+    },
+  };
+}
+
+// Hand a story in. The submission is claimed before the assessment runs so a
+// double click cannot submit twice; an assessment failure leaves the
+// submission in place for the mentor to review by hand.
+export async function submitAssignmentStory(
+  story: IStory,
+  user: SessionUser
+): Promise<Result<{ story: IStory; status: SubmissionStatus; assessed: boolean }>> {
+  if (!story.assignmentId) {
+    return { error: 'This story is not part of an assignment', status: 400 };
+  }
+
+  const loaded = await loadStudentAssignment(user, story.assignmentId.toString());
+  if ('error' in loaded) {
+    return loaded;
+  }
+
+  const { assignment, classroom } = loaded;
+
+  const problems = checkElementConstraints(story.elements, assignment.elementConstraints);
+  if (problems.length > 0) {
+    return { error: problems.join('. '), status: 400 };
+  }
+
+  const now = new Date();
+  const claimed = await Story.findOneAndUpdate(
+    { _id: story._id, submittedAt: { $exists: false } },
+    { $set: { submittedAt: now, status: 'completed', completedAt: now } },
+    { new: true }
+  );
+
+  if (!claimed) {
+    return { error: 'This story has already been handed in', status: 409 };
+  }
+
+  let assessed = false;
+  try {
+    const rubric = await resolveStoryRubric(claimed);
+    const assessment = await assessStory(claimed.content, claimed.elements, claimed.authorAge, rubric);
+    claimed.aiAssessment = { ...assessment, assessmentDate: now };
+    await claimed.save();
+    if (assessment.rubric && assessment.rubric.length > 0) {
+      await recordRubricAssessment(claimed, rubric, assessment.rubric, 'ai');
+    }
+    assessed = true;
+  } catch (error) {
+    console.error(`Assessment failed for submitted story ${claimed._id}:`, error);
+  }
+
+  const status = submissionStatus(assignment.dueDate, claimed, now);
+
+  await Notification.create({
+    userId: assignment.mentorId,
+    type: 'assignment_submitted',
+    title: status === 'late' ? 'Late submission' : 'New submission',
+    message: `${claimed.authorName} handed in "${claimed.title}" for ${assignment.title}.`,
+    data: {
+      classroomId: classroom._id.toString(),
+      assignmentId: assignment._id.toString(),
+      storyId: claimed._id.toString(),
+    },
+    actionUrl: `/classes/${classroom._id}`,
+    actionText: 'Review',
+    deliveryMethod: 'in_app',
+    priority: 'normal',
+    variant: status === 'late' ? 'warning' : 'info',
+  });
+
+  const authorId = claimed.authorId.toString();
+  const storyId = claimed._id.toString();
+  await publishDomainEvent({ type: 'story_completed', userId: authorId, storyId });
+  if (assessed) {
+    await publishDomainEvent({ type: 'assessment_saved', userId: authorId, storyId, source: 'ai' });
+  }
+
+  return { story: claimed, status, assessed };
+}
+
+// Remind students who haven't handed in once an assignment is nearly due.
+// Runs opportunistically from the class pages rather than on a schedule;
+// each assignment is claimed atomically so overlapping sweeps remind once.
+export async function sendDueReminders(now: Date = new Date()): Promise<number> {
+  await connectToDatabase();
+
+  const windowEnd = new Date(now.getTime() + REMINDER_WINDOW_HOURS * 60 * 60 * 1000);
+  let sent = 0;
+
+  for (let i = 0; i < MAX_REMINDERS_PER_SWEEP; i++) {
+    const assignment = await Assignment.findOneAndUpdate(
+      {
+        status: 'active',
+        dueDate: { $gt: now, $lte: windowEnd },
+        reminderSentAt: { $exists: false },
+      },
+      { $set: { reminderSentAt: now } },
+      { new: true }
+    );
+
+    if (!assignment) {
+      break;
+    }
+
+    const classroom = await Classroom.findOne({ _id: assignment.classroomId, isArchived: false })
+      .select('name students')
+      .lean();
+    if (!classroom) {
+      continue;
+    }
+
+    const stories = await Story.find({ assignmentId: assignment._id })
+      .select('authorId submittedAt')
+      .lean();
+    const storyByAuthor = new Map(stories.map(story => [story.authorId.toString(), story]));
+
+    const recipients = classroom.students.filter(student => {
+      const story = storyByAuthor.get(student.userId.toString());
+      return !story?.submittedAt;
+    });
+
+    if (recipients.length === 0) {
+      continue;
+    }
+
+    await Notification.insertMany(recipients.map(student => {
+      const story = storyByAuthor.get(student.userId.toString());
+      return {
+        userId: student.userId,
+        type: 'assignment_due',
+        title: 'Assignment due soon',
+        message: `"${assignment.title}" for ${classroom.name} is due ${assignment.dueDate!.toLocaleDateString()}.`,
+        data: { classroomId: classroom._id.toString(), assignmentId: assignment._id.toString() },
+        actionUrl: story ? `/story/${story._id}` : `/create-stories?assignment=${assignment._id}`,
+        actionText: story ? 'Keep writing' : 'Start writing',
+        deliveryMethod: 'in_app',
+        priority: 'high',
+        variant: 'warning',
+      };
+    }));
+
+    sent += recipients.length;
+  }
+
+  return sent;
+}
@@ -1,9 +1,11 @@
 import { getServerSession } from 'next-auth';
 import { NextRequest } from 'next/server';
+import mongoose from 'mongoose';
 import { authOptions } from '@/utils/authOptions';
 import { UserRole } from '@/types/auth';
 import User from '@/models/User';
 import { connectToDatabase } from '@/utils/db';
+import { isClassTeacherOf } from '@/lib/classroom';
 
 // Server-side authentication utilities
 export async function getSession() {
@@ -104,6 +106,84 @@ export async function requireMentorApi() {
   return authResult;
 }
 
+export async function requireParentApi() {
+  const authResult = await requireAuthApi();
+  
+  if ('error' in authResult) {
+    return authResult;
+  }
+
+  if (authResult.user.role !== 'parent') {
+    return {
+      error: 'Parent role required',
+      status: 403 as const
+    };
+  }
+
+  return authResult;
+}
+
+// Parents only see children they have linked. Returns the child account
+// without its password.
+export async function requireLinkedChildApi(parentId: string, childId: string) {
+  if (!mongoose.Types.ObjectId.isValid(childId)) {
+    return {
+      error: 'Invalid child ID',
+      status: 400 as const
+    };
+  }
+
+  await connectToDatabase();
+  const parent = await User.findById(parentId).select('role linkedChildren');
+
+  const isLinked = parent?.role === 'parent' &&
+    parent.linkedChildren.some(id => id.toString() === childId);
+
+  if (!isLinked) {
+    return {
+      error: 'This child is not linked to your account',
+      status: 403 as const
+    };
+  }
+
+  const child = await User.findById(childId);
+  if (!child || child.role !== 'child') {
+    return {
+      error: 'Child not found',
+      status: 404 as const
+    };
+  }
+
+  return { child };
+}
+
+// Blocks publishing, comments and AI features for under-13 accounts until a
+// parent has approved them. Reads the database because consent can be
+// granted after the session was issued.
+export async function requireParentalConsentApi(userId: string) {
+  await connectToDatabase();
+  const user = await User.findById(userId).select('age parentConsent parentConsentStatus');
+
+  if (!user) {
+    return {
+      error: 'User not found',
+      status: 404 as const
+    };
+  }
+
+  if (!user.hasParentalConsent()) {
+    return {
+      error: user.parentConsentStatus === 'denied'
+        ? 'A parent has not allowed this feature'
+        : 'Waiting for a parent to approve this account',
+      status: 403 as const,
+      consentRequired: true as const
+    };
+  }
+
+  return { consented: true as const };
+}
+
 // User validation and verification
 export async function validateUserAccess(userId: string) {
   const currentUser = await requireAuth();
@@ -118,11 +198,14 @@ export async function validateUserAccess(userId: string) {
     return true;
   }
   
-  // Mentors can access their assigned students
+  // Mentors can access their assigned students and the students in their classes
   if (currentUser.role === 'mentor') {
     await connectToDatabase();
     const user = await User.findById(userId);
-    return user && user.mentorId?.toString() === currentUser.id;
+    if (user && user.mentorId?.toString() === currentUser.id) {
+      return true;
+    }
+    return await isClassTeacherOf(currentUser.id, userId);
   }
   
   return false;
@@ -141,11 +224,14 @@ export async function validateStoryAccess(storyOwnerId: string) {
     return true;
   }
   
-  // Mentors can access their students' stories
+  // Mentors can access their students' stories, including students in their classes
   if (currentUser.role === 'mentor') {
     await connectToDatabase();
     const storyOwner = await User.findById(storyOwnerId);
-    return storyOwner && storyOwner.mentorId?.toString() === currentUser.id;
+    if (storyOwner && storyOwner.mentorId?.toString() === currentUser.id) {
+      return true;
+    }
+    return await isClassTeacherOf(currentUser.id, storyOwnerId);
   }
   
   return false;
@@ -172,7 +258,16 @@ export function hasPermission(userRole: UserRole, action: string): boolean {
       'write_comments',
       'view_student_progress'
     ],
-    user: [
+    parent: [
+      'read_linked_children',
+      'read_child_stories',
+      'read_child_feedback',
+      'view_child_progress',
+      'manage_child_privacy',
+      'manage_child_ai_assistance',
+      'approve_public_publishing'
+    ],
+    child: [
       'read_own_profile',
       'write_own_profile',
       'create_stories',
@@ -184,21 +279,47 @@ export function hasPermission(userRole: UserRole, action: string): boolean {
   return permissions[userRole]?.includes(action) || false;
 }
 
-export function canAccessUserData(currentUserRole: UserRole, targetUserId: string, currentUserId: string): boolean {
+export function canAccessUserData(
+  currentUserRole: UserRole,
+  targetUserId: string,
+  currentUserId: string,
+  linkedChildIds: string[] = []
+): boolean {
   // Admin can access all user data
   if (currentUserRole === 'admin') {
     return true;
   }
+
+  // Parents can read their linked children's data
+  if (currentUserRole === 'parent' && linkedChildIds.includes(targetUserId)) {
+    return true;
+  }
   
   // Users can only access their own data
   return currentUserId === targetUserId;
 }
 
-export function canAccessStoryData(currentUserRole: UserRole, currentUserId: string, storyOwnerId: string): boolean {
+export function canAccessStoryData(
+  currentUserRole: UserRole,
+  currentUserId: string,
+  storyOwnerId: string,
+  linkedChildIds: string[] = [],
+  classStudentIds: string[] = []
+): boolean {
   // Admin can access all stories
   if (currentUserRole === 'admin') {
     return true;
   }
+
+  // Parents can read their linked children's stories
+  if (currentUserRole === 'parent' && linkedChildIds.includes(storyOwnerId)) {
+    return true;
+  }
+
+  // Mentors can read stories by students on their class rosters
+  if (currentUserRole === 'mentor' && classStudentIds.includes(storyOwnerId)) {
+    return true;
+  }
   
   // Users can access their own stories
   return currentUserId === storyOwnerId;
@@ -0,0 +1,305 @@
+// lib/classroom.ts - Classrooms: join codes, roster enrollment and class-scoped access
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Classroom, { IClassroom } from '@/models/Classroom';
+import User from '@/models/User';
+import Notification from '@/models/Notification';
+import { EnrollmentMethod, EnrollmentResult, RosterParseResult } from '@/types/classroom';
+
+type SessionUser = { id: string; name?: string | null; role: string };
+type Result<T> = T | { error: string; status: number };
+
+// No 0/O or 1/I, so codes read back from a whiteboard survive
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+const MAX_ROSTER_ROWS = 200;
+
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+
+export function generateJoinCode(): string {
+  let code = '';
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[crypto.randomInt(JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Codes are typed by children: ignore case, spaces and dashes
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+export async function createUniqueJoinCode(): Promise<string> {
+  await connectToDatabase();
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generateJoinCode();
+    if (!(await Classroom.exists({ joinCode: code }))) {
+      return code;
+    }
+  }
+
+  throw new Error('Could not generate a unique join code');
+}
+
+// Split one CSV line, honouring quoted fields with "" escapes
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+// Read a roster exported from a school system or typed in a spreadsheet.
+// A header row naming an "email" column is used when present; otherwise the
+// first field that looks like an email address is taken from each line.
+export function parseRosterCsv(csv: string): RosterParseResult {
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r\n|\n|\r/);
+  const result: RosterParseResult = { rows: [], errors: [] };
+  const seen = new Set<string>();
+
+  let emailColumn = -1;
+  let nameColumn = -1;
+  let start = 0;
+
+  const header = splitCsvLine(lines[0] || '').map(field => field.toLowerCase());
+  const headerEmail = header.findIndex(field => field === 'email' || field === 'email address' || field === 'e-mail');
+  if (headerEmail !== -1) {
+    emailColumn = headerEmail;
+    nameColumn = header.findIndex(field => field === 'name' || field === 'student name' || field === 'full name');
+    start = 1;
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    if (!lines[i].trim()) continue;
+
+    if (result.rows.length >= MAX_ROSTER_ROWS) {
+      result.errors.push({ line: lineNumber, message: `Only the first ${MAX_ROSTER_ROWS} students are imported` });
+      break;
+    }
+
+    const fields = splitCsvLine(lines[i]);
+    const emailIndex = emailColumn !== -1
+      ? emailColumn
+      : fields.findIndex(field => EMAIL_PATTERN.test(field));
+    const email = (fields[emailIndex] || '').toLowerCase();
+
+    if (!EMAIL_PATTERN.test(email)) {
+      result.errors.push({ line: lineNumber, message: 'No valid email address' });
+      continue;
+    }
+
+    if (seen.has(email)) {
+      result.errors.push({ line: lineNumber, message: `${email} is listed more than once` });
+      continue;
+    }
+    seen.add(email);
+
+    const name = nameColumn !== -1 ? fields[nameColumn] : undefined;
+    result.rows.push({ line: lineNumber, email, ...(name ? { name } : {}) });
+  }
+
+  return result;
+}
+
+// Put child accounts on the roster. The capacity and duplicate checks are
+// part of the update filter, so concurrent enrollments cannot overfill the
+// class or add anyone twice. Students without a mentor get the class's
+// mentor, which the existing mentor features rely on.
+export async function enrollStudents(
+  classroom: IClassroom,
+  emails: string[],
+  enrolledBy: string,
+  method: EnrollmentMethod
+): Promise<Result<EnrollmentResult>> {
+  await connectToDatabase();
+
+  const wanted = Array.from(new Set(emails.map(email => email.toLowerCase())));
+  const accounts = await User.find({ email: { $in: wanted }, role: 'child', isActive: true })
+    .select('name email')
+    .lean();
+
+  const rosterIds = new Set(classroom.students.map(student => student.userId.toString()));
+  const found = new Set(accounts.map(account => account.email));
+
+  const result: EnrollmentResult = {
+    enrolled: [],
+    alreadyEnrolled: [],
+    notFound: wanted.filter(email => !found.has(email)),
+  };
+
+  for (const account of accounts) {
+    if (rosterIds.has(account._id.toString())) {
+      result.alreadyEnrolled.push(account.email);
+    } else {
+      result.enrolled.push({ userId: account._id.toString(), name: account.name, email: account.email });
+    }
+  }
+
+  if (result.enrolled.length === 0) {
+    return result;
+  }
+
+  const capacity = classroom.maxStudents - classroom.students.length;
+  if (result.enrolled.length > capacity) {
+    return {
+      error: `This class has room for ${Math.max(capacity, 0)} more student${capacity === 1 ? '' : 's'}`,
+      status: 400,
+    };
+  }
+
+  const newIds = result.enrolled.map(student => new mongoose.Types.ObjectId(student.userId));
+  const now = new Date();
+
+  const update = await Classroom.updateOne(
+    {
+      _id: classroom._id,
+      isArchived: false,
+      'students.userId': { $nin: newIds },
+      [`students.${classroom.maxStudents - result.enrolled.length}`]: { $exists: false },
+    },
+    {
+      $push: {
+        students: {
+          $each: result.enrolled.map(student => ({
+            userId: student.userId,
+            name: student.name,
+            enrolledAt: now,
+            enrolledBy,
+            method,
+          })),
+        },
+      },
+    }
+  );
+
+  if (update.modifiedCount === 0) {
+    return { error: 'The class roster changed while enrolling. Please try again.', status: 409 };
+  }
+
+  await User.updateMany(
+    { _id: { $in: newIds }, $or: [{ mentorId: null }, { mentorId: { $exists: false } }] },
+    { $set: { mentorId: classroom.mentorId } }
+  );
+
+  await Notification.insertMany(result.enrolled.map(student => ({
+    userId: student.userId,
+    type: 'classroom_enrolled',
+    title: 'You joined a class!',
+    message: `You are now in ${classroom.name} with ${classroom.mentorName}.`,
+    data: { classroomId: classroom._id.toString() },
+    actionUrl: '/dashboard',
+    deliveryMethod: 'in_app',
+    priority: 'normal',
+    variant: 'success',
+  })));
+
+  return result;
+}
+
+// A child joining with the code their teacher shared
+export async function joinClassroomByCode(
+  user: SessionUser,
+  code: string
+): Promise<Result<{ classroom: IClassroom; alreadyEnrolled: boolean }>> {
+  await connectToDatabase();
+
+  const classroom = await Classroom.findOne({
+    joinCode: normalizeJoinCode(code),
+    joinCodeEnabled: true,
+    isArchived: false,
+  });
+
+  if (!classroom) {
+    return { error: 'No class was found with that code', status: 404 };
+  }
+
+  if (classroom.students.some(student => student.userId.toString() === user.id)) {
+    return { classroom, alreadyEnrolled: true };
+  }
+
+  const account = await User.findById(user.id).select('email').lean();
+  if (!account) {
+    return { error: 'Account not found', status: 404 };
+  }
+
+  const enrollment = await enrollStudents(classroom, [account.email], user.id, 'join_code');
+  if ('error' in enrollment) {
+    return enrollment;
+  }
+
+  return { classroom, alreadyEnrolled: false };
+}
+
+// A mentor's own class, or any class for admins
+export async function loadMentorClassroom(
+  user: SessionUser,
+  classId: string
+): Promise<Result<{ classroom: IClassroom }>> {
+  if (!mongoose.Types.ObjectId.isValid(classId)) {
+    return { error: 'Invalid class ID', status: 400 };
+  }
+
+  await connectToDatabase();
+
+  const classroom = await Classroom.findById(classId);
+  if (!classroom) {
+    return { error: 'Class not found', status: 404 };
+  }
+
+  if (user.role !== 'admin' && classroom.mentorId.toString() !== user.id) {
+    return { error: 'Access denied', status: 403 };
+  }
+
+  return { classroom };
+}
+
+// Students on the rosters of a mentor's active classes
+export async function getClassStudentIds(mentorId: string): Promise<string[]> {
+  await connectToDatabase();
+
+  const classrooms = await Classroom.find({ mentorId, isArchived: false }).select('students.userId').lean();
+  const ids = new Set<string>();
+  classrooms.forEach(classroom => {
+    classroom.students.forEach(student => ids.add(student.userId.toString()));
+  });
+  return Array.from(ids);
+}
+
+export async function isClassTeacherOf(mentorId: string, studentId: string): Promise<boolean> {
+  await connectToDatabase();
+  return !!(await Classroom.exists({ mentorId, isArchived: false, 'students.userId': studentId }));
+}
+
+export async function sharesClassroom(userId: string, otherUserId: string): Promise<boolean> {
+  await connectToDatabase();
+  return !!(await Classroom.exists({
+    isArchived: false,
+    'students.userId': { $all: [userId, otherUserId] },
+  }));
+}
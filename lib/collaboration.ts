@@ -0,0 +1,687 @@
+// lib/collaboration.ts - Co-writing sessions: access, merged edits, cursors and contributions
+import crypto from 'crypto';
+import { connectToDatabase } from '@/utils/db';
+import Story, { IStory } from '@/models/Story';
+import StoryRevision from '@/models/StoryRevision';
+import User from '@/models/User';
+import CollaborationSession, { ICollaborationSession } from '@/models/CollaborationSession';
+import {
+  CrdtOperation,
+  ORIGIN_SITE,
+  applyOperations,
+  compactTombstones,
+  countBySite,
+  createDocument,
+  documentText,
+  siteOf,
+  stampDeletions,
+} from '@/lib/crdt';
+import { notifyCollaborationUpdate, notifyCursorMoved } from '@/lib/pusher';
+import { screenContent } from '@/lib/moderation-queue';
+import { ContentFilter } from '@/lib/security';
+import { ageGroupForAge } from '@/lib/moderation-engine';
+import { isClassTeacherOf, sharesClassroom } from '@/lib/classroom';
+import { reanchorComments } from '@/lib/comment-anchors';
+import { CollaborationCursor, SessionParticipant } from '@/types/realtime';
+
+// A participant who has sent nothing for this long no longer holds the session open
+export const PARTICIPANT_IDLE_MS = 2 * 60 * 1000;
+
+const RECENT_OPS_LIMIT = 200;
+const MAX_SAVE_ATTEMPTS = 5;
+const MAX_CONTENT_LENGTH = 10000;
+
+// Moderation screening of the text while a session runs, at most this often;
+// closing the session screens whatever is left
+const SCREEN_INTERVAL_MS = 60 * 1000;
+
+// A batch typed before its writer saw a delete may still be on its way for
+// this long, so the delete's tombstone is kept at least that long
+const TOMBSTONE_GRACE_MS = PARTICIPANT_IDLE_MS;
+const CURSOR_COLORS = ['#3B82F6', '#EC4899', '#10B981', '#F59E0B', '#8B5CF6', '#EF4444'];
+
+type SessionUser = { id: string; name?: string | null; role: string };
+
+export type CollaborationPermissions = SessionParticipant['permissions'];
+
+export interface SessionSnapshot {
+  storyId: string;
+  sessionKey: string;
+  version: number;
+  document: ICollaborationSession['document'];
+  participants: SessionParticipant[];
+}
+
+type Result<T> = T | { error: string; status: number };
+
+// A batch refused by the content filter, with what it found for the security log
+export type FilteredEdit = { error: string; status: 400; violations: string[] };
+
+function isActiveParticipant(participant: SessionParticipant, now: number): boolean {
+  return participant.isActive && now - new Date(participant.lastActivity).getTime() < PARTICIPANT_IDLE_MS;
+}
+
+function userIdForSite(site: string): string | null {
+  return site === ORIGIN_SITE ? null : site.split('.')[0];
+}
+
+// Newest version whose tombstones can go: every active participant has
+// caught up past it and it is older than TOMBSTONE_GRACE_MS. 0 for none.
+function compactableVersion(
+  session: Pick<ICollaborationSession, 'participants' | 'recentOps'>,
+  now: number
+): number {
+  const active = session.participants.filter(participant => isActiveParticipant(participant, now));
+  if (active.length === 0) return 0;
+
+  let settled = 0;
+  for (const entry of session.recentOps) {
+    if (now - new Date(entry.createdAt).getTime() >= TOMBSTONE_GRACE_MS) {
+      settled = entry.version;
+    }
+  }
+
+  return Math.min(settled, ...active.map(participant => participant.seenVersion || 0));
+}
+
+function toSnapshot(session: ICollaborationSession): SessionSnapshot {
+  const now = Date.now();
+  return {
+    storyId: session.storyId.toString(),
+    sessionKey: session.sessionKey,
+    version: session.version,
+    document: session.document,
+    participants: session.participants.filter(participant => isActiveParticipant(participant, now)),
+  };
+}
+
+// The author, invited classmates, the author's mentor or class teacher and
+// admins can co-write. Published and archived stories can be watched but no
+// longer edited.
+export async function resolveCollaborationAccess(
+  user: SessionUser,
+  story: Pick<IStory, 'authorId' | 'collaborators' | 'status'>
+): Promise<CollaborationPermissions | null> {
+  const authorId = story.authorId.toString();
+  const canEdit = story.status !== 'published' && story.status !== 'archived';
+  const permissions = { canEdit, canComment: true, canView: true };
+
+  if (user.role === 'admin' || user.id === authorId) {
+    return permissions;
+  }
+
+  if ((story.collaborators || []).some(collaborator => collaborator.userId.toString() === user.id)) {
+    return permissions;
+  }
+
+  if (user.role === 'mentor') {
+    await connectToDatabase();
+    const author = await User.findById(authorId).select('mentorId').lean();
+    if (author?.mentorId?.toString() === user.id || await isClassTeacherOf(user.id, authorId)) {
+      return permissions;
+    }
+  }
+
+  return null;
+}
+
+// Children can invite classmates (children with the same mentor or on the
+// same class roster) or siblings (children of the same linked parent).
+// Admins can invite any child.
+export async function findInvitableCollaborator(
+  inviter: SessionUser,
+  story: Pick<IStory, 'authorId' | 'collaborators'>,
+  email: string
+): Promise<Result<{ user: { id: string; name: string } }>> {
+  await connectToDatabase();
+
+  const invitee = await User.findOne({ email: email.toLowerCase(), isActive: true })
+    .select('name role mentorId')
+    .lean();
+
+  if (!invitee || invitee.role !== 'child') {
+    return { error: 'No child account was found with that email', status: 404 };
+  }
+
+  const inviteeId = invitee._id.toString();
+  const authorId = story.authorId.toString();
+
+  if (inviteeId === authorId) {
+    return { error: 'The author is already writing this story', status: 400 };
+  }
+
+  if ((story.collaborators || []).some(collaborator => collaborator.userId.toString() === inviteeId)) {
+    return { error: 'This classmate is already a co-writer', status: 409 };
+  }
+
+  if (inviter.role !== 'admin') {
+    const author = await User.findById(authorId).select('mentorId').lean();
+    const sameMentor = !!author?.mentorId && author.mentorId.toString() === invitee.mentorId?.toString();
+    const sharedParent = await User.exists({
+      role: 'parent',
+      linkedChildren: { $all: [authorId, inviteeId] },
+    });
+
+    if (!sameMentor && !sharedParent && !(await sharesClassroom(authorId, inviteeId))) {
+      return { error: 'You can only invite classmates who share your mentor or class', status: 403 };
+    }
+  }
+
+  return { user: { id: inviteeId, name: invitee.name } };
+}
+
+// Snapshot the story before anyone co-writes it, as the update route does
+// for stories written before revision history existed
+async function ensureRevisionHistory(story: IStory): Promise<void> {
+  const hasHistory = await StoryRevision.exists({ storyId: story._id });
+  if (!hasHistory) {
+    await StoryRevision.recordRevision(
+      story,
+      { id: story.authorId.toString(), name: story.authorName, role: 'child' },
+      'create'
+    );
+  }
+}
+
+// Credit each co-writer with the characters of theirs that survive
+async function updateTextShares(storyId: string, session: ICollaborationSession): Promise<void> {
+  const byUser: Record<string, number> = {};
+  for (const [site, count] of Object.entries(countBySite(session.document))) {
+    const userId = userIdForSite(site);
+    if (userId) byUser[userId] = (byUser[userId] || 0) + count;
+  }
+
+  const story = await Story.findById(storyId).select('contributions').lean();
+  for (const contribution of story?.contributions || []) {
+    const userId = contribution.userId.toString();
+    await Story.updateOne(
+      { _id: storyId, 'contributions.userId': contribution.userId },
+      { $set: { 'contributions.$.charactersInText': byUser[userId] || 0 } }
+    );
+  }
+}
+
+// Wrap up a session's work: credit co-writers, keep a revision if the text
+// changed, and send the result through moderation screening
+async function closeSession(session: ICollaborationSession, closedBy: SessionUser): Promise<void> {
+  const storyId = session.storyId.toString();
+  if (session.recentOps.length === 0) return;
+
+  await updateTextShares(storyId, session);
+
+  const story = await Story.findById(storyId);
+  if (!story) return;
+
+  const latest = await StoryRevision.findOne({ storyId }).sort({ revisionNumber: -1 }).select('content').lean();
+  if (latest && latest.content === story.content) return;
+
+  // Credit the revision to whoever made the last edit
+  const lastEdit = session.recentOps[session.recentOps.length - 1];
+  const lastEditor = session.participants.find(participant => participant.userId.toString() === lastEdit.userId.toString());
+  const savedBy = lastEditor
+    ? { id: lastEditor.userId.toString(), name: lastEditor.userName, role: lastEditor.userRole }
+    : { id: closedBy.id, name: closedBy.name || 'Co-writer', role: closedBy.role };
+
+  await StoryRevision.recordRevision(story, savedBy, 'collaboration');
+
+  await screenContent({
+    targetType: 'story',
+    targetId: storyId,
+    storyId,
+    authorId: story.authorId.toString(),
+    content: `${story.title}\n\n${story.content}`,
+    ageGroup: ageGroupForAge(story.authorAge),
+  });
+}
+
+// Send the session's text through moderation screening if it changed since
+// the last screening and SCREEN_INTERVAL_MS has passed. One caller claims
+// each screening. Never throws: the next batch or poll tries again.
+async function screenSessionText(
+  storyId: string,
+  session: Pick<ICollaborationSession, '_id' | 'version' | 'screenedVersion' | 'lastScreenedAt'>
+): Promise<void> {
+  const now = Date.now();
+  if ((session.screenedVersion || 0) >= session.version) return;
+  if (session.lastScreenedAt && now - new Date(session.lastScreenedAt).getTime() < SCREEN_INTERVAL_MS) return;
+
+  try {
+    const claimed = await CollaborationSession.updateOne(
+      {
+        _id: session._id,
+        $or: [
+          { lastScreenedAt: { $exists: false } },
+          { lastScreenedAt: { $lte: new Date(now - SCREEN_INTERVAL_MS) } },
+        ],
+      },
+      { $set: { lastScreenedAt: new Date(now), screenedVersion: session.version } }
+    );
+    if (claimed.modifiedCount === 0) return;
+
+    const story = await Story.findById(storyId).select('title content authorId authorAge');
+    if (!story) return;
+
+    await screenContent({
+      targetType: 'story',
+      targetId: storyId,
+      storyId,
+      authorId: story.authorId.toString(),
+      content: `${story.title}\n\n${story.content}`,
+      ageGroup: ageGroupForAge(story.authorAge),
+    });
+  } catch (error) {
+    console.error('Error screening co-written text:', error);
+  }
+}
+
+// Open (or reopen) the story's session and add the user to it. A session
+// nobody is active in is closed and restarted from the saved story text.
+export async function joinSession(
+  story: IStory,
+  user: SessionUser,
+  permissions: CollaborationPermissions
+): Promise<{ snapshot: SessionSnapshot; site: string }> {
+  await connectToDatabase();
+
+  const storyId = story._id.toString();
+  const now = new Date();
+
+  let session = await CollaborationSession.findOne({ storyId });
+
+  if (!session) {
+    await ensureRevisionHistory(story);
+    try {
+      session = await CollaborationSession.create({
+        storyId,
+        sessionKey: crypto.randomBytes(12).toString('hex'),
+        document: createDocument(story.content),
+        version: story.collaborationVersion || 0,
+        participants: [],
+        recentOps: [],
+      });
+    } catch (error: any) {
+      // Someone else opened it at the same moment
+      if (error?.code !== 11000) throw error;
+      session = await CollaborationSession.findOne({ storyId });
+    }
+  } else if (!session.participants.some(participant => isActiveParticipant(participant, now.getTime()))) {
+    await closeSession(session, user);
+    await ensureRevisionHistory(story);
+
+    const fresh = await Story.findById(storyId).select('content');
+    session = await CollaborationSession.findOneAndUpdate(
+      { _id: session._id, sessionKey: session.sessionKey },
+      {
+        $set: {
+          sessionKey: crypto.randomBytes(12).toString('hex'),
+          document: createDocument(fresh?.content || story.content),
+          participants: [],
+          recentOps: [],
+          lastActivity: now,
+        },
+        $inc: { version: 1 },
+      },
+      { new: true }
+    ) || await CollaborationSession.findOne({ storyId });
+  }
+
+  if (!session) {
+    throw new Error('Could not open collaboration session');
+  }
+
+  // Each join gets its own site so two tabs never reuse character ids
+  const site = `${user.id}.${crypto.randomBytes(4).toString('hex')}`;
+  const existing = session.participants.find(participant => participant.userId.toString() === user.id);
+  const usedColors = session.participants
+    .filter(participant => participant.userId.toString() !== user.id && isActiveParticipant(participant, now.getTime()))
+    .map(participant => participant.color);
+  const color = existing?.color || CURSOR_COLORS.find(candidate => !usedColors.includes(candidate)) || CURSOR_COLORS[0];
+
+  const participant = {
+    userId: user.id,
+    userName: user.name || 'Co-writer',
+    userRole: user.role,
+    joinedAt: existing?.joinedAt || now,
+    lastActivity: now,
+    permissions,
+    cursor: { start: null, end: null },
+    site,
+    seenVersion: session.version,
+    color,
+    isActive: true,
+  };
+
+  const updated = existing
+    ? await CollaborationSession.findOneAndUpdate(
+        { _id: session._id, 'participants.userId': user.id },
+        { $set: { 'participants.$': participant, lastActivity: now } },
+        { new: true }
+      )
+    : await CollaborationSession.findOneAndUpdate(
+        { _id: session._id, 'participants.userId': { $ne: user.id } },
+        { $push: { participants: participant }, $set: { lastActivity: now } },
+        { new: true }
+      );
+
+  const joined = updated || await CollaborationSession.findById(session._id);
+  if (!joined) {
+    throw new Error('Collaboration session disappeared');
+  }
+
+  await notifyCursorMoved({
+    storyId,
+    userId: user.id,
+    userName: participant.userName,
+    color,
+    cursor: participant.cursor,
+    isActive: true,
+  });
+
+  return { snapshot: toSnapshot(joined), site };
+}
+
+// Merge a batch of edits into the session. CRDT operations commute, so a
+// save that loses the race to another writer is simply reapplied.
+export async function applySessionEdits(
+  storyId: string,
+  user: SessionUser,
+  sessionKey: string,
+  ops: CrdtOperation[]
+): Promise<Result<{ version: number; applied: number }> | FilteredEdit> {
+  await connectToDatabase();
+
+  // Co-writers can only create characters under their own sites
+  const ownSite = `${user.id}.`;
+  if (ops.some(op => op.type === 'insert' && !siteOf(op.id).startsWith(ownSite))) {
+    return { error: 'Changes must come from your own session', status: 400 };
+  }
+
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+    const session = await CollaborationSession.findOne({ storyId }).lean();
+
+    if (!session || session.sessionKey !== sessionKey) {
+      return { error: 'The writing session has restarted. Please rejoin.', status: 409 };
+    }
+
+    const participant = session.participants.find(entry => entry.userId.toString() === user.id);
+    if (!participant || !participant.isActive) {
+      return { error: 'Join the writing session first', status: 403 };
+    }
+    if (!participant.permissions.canEdit) {
+      return { error: 'You can watch this story but not edit it', status: 403 };
+    }
+
+    const document = session.document;
+    const { applied, missing } = applyOperations(document, ops);
+
+    if (missing.length > 0) {
+      return { error: 'Your copy of the story is out of date. Please rejoin.', status: 409 };
+    }
+
+    if (applied.length === 0) {
+      return { version: session.version, applied: 0 };
+    }
+
+    const text = documentText(document);
+    if (text.length > MAX_CONTENT_LENGTH) {
+      return { error: 'Story content cannot exceed 10,000 characters', status: 400 };
+    }
+
+    // The same filter a plain save goes through, before anyone sees the text
+    const contentFilter = ContentFilter.filterContent(text);
+    if (!contentFilter.isClean) {
+      return {
+        error: 'Content contains inappropriate material',
+        status: 400,
+        violations: contentFilter.violations,
+      };
+    }
+
+    const now = new Date();
+    const version = session.version + 1;
+    const firstInsert = applied.find(op => op.type === 'insert');
+    const site = firstInsert ? siteOf(firstInsert.id) : participant.site || ownSite;
+
+    // Tombstones would otherwise pile up for as long as the session runs
+    stampDeletions(document, applied, version);
+    compactTombstones(document, compactableVersion(session, now.getTime()));
+
+    const saved = await CollaborationSession.updateOne(
+      { _id: session._id, sessionKey, version: session.version },
+      {
+        $set: {
+          document,
+          lastActivity: now,
+          'participants.$[self].lastActivity': now,
+        },
+        $inc: { version: 1 },
+        $push: {
+          recentOps: {
+            $each: [{ version, userId: user.id, site, ops: applied, createdAt: now }],
+            $slice: -RECENT_OPS_LIMIT,
+          },
+        },
+      },
+      { arrayFilters: [{ 'self.userId': participant.userId }] }
+    );
+
+    if (saved.modifiedCount === 0) {
+      continue;
+    }
+
+    await saveStoryText(storyId, text, version);
+    await recordContribution(storyId, user, {
+      added: applied.filter(op => op.type === 'insert').length,
+      removed: applied.filter(op => op.type === 'delete').length,
+    });
+    await screenSessionText(storyId, { ...session, version });
+
+    await notifyCollaborationUpdate({
+      storyId,
+      sessionKey,
+      version,
+      userId: user.id,
+      site,
+      ops: applied,
+    });
+
+    return { version, applied: applied.length };
+  }
+
+  return { error: 'The story is busy. Please try again.', status: 409 };
+}
+
+// Saves run in version order, so a slow write never replaces newer text
+async function saveStoryText(storyId: string, text: string, version: number): Promise<void> {
+  const wordCount = text.trim().split(/\s+/).filter(word => word.length > 0).length;
+
+  const saved = await Story.updateOne(
+    { _id: storyId, collaborationVersion: { $lt: version } },
+    {
+      $set: {
+        content: text,
+        wordCount,
+        readingTime: Math.ceil(wordCount / 200),
+        collaborationVersion: version,
+      },
+    }
+  );
+
+  if (saved.modifiedCount > 0) {
+    await reanchorComments(storyId, text);
+  }
+}
+
+async function recordContribution(
+  storyId: string,
+  user: SessionUser,
+  counts: { added: number; removed: number }
+): Promise<void> {
+  const now = new Date();
+
+  const updated = await Story.updateOne(
+    { _id: storyId, 'contributions.userId': user.id },
+    {
+      $inc: {
+        'contributions.$.charactersAdded': counts.added,
+        'contributions.$.charactersRemoved': counts.removed,
+        'contributions.$.editCount': 1,
+      },
+      $set: { 'contributions.$.lastContributedAt': now },
+    }
+  );
+
+  if (updated.matchedCount === 0) {
+    await Story.updateOne(
+      { _id: storyId, 'contributions.userId': { $ne: user.id } },
+      {
+        $push: {
+          contributions: {
+            userId: user.id,
+            name: user.name || 'Co-writer',
+            role: user.role,
+            charactersAdded: counts.added,
+            charactersRemoved: counts.removed,
+            charactersInText: 0,
+            editCount: 1,
+            lastContributedAt: now,
+          },
+        },
+      }
+    );
+  }
+}
+
+// Edits since a version, or a full snapshot when the caller is too far
+// behind (or on an older session) to catch up from the recent log. Polling
+// counts as activity, so a co-writer who is only reading stays in the session.
+export async function getSessionUpdates(
+  storyId: string,
+  user: SessionUser,
+  sessionKey: string | null,
+  since: number | null
+): Promise<Result<
+  | { resync: true; snapshot: SessionSnapshot }
+  | { resync: false; version: number; updates: ICollaborationSession['recentOps']; participants: SessionParticipant[] }
+>> {
+  await connectToDatabase();
+
+  const session = await CollaborationSession.findOne({ storyId }).lean();
+  if (!session) {
+    return { error: 'No one is writing this story right now', status: 404 };
+  }
+
+  const oldest = session.recentOps[0]?.version ?? session.version + 1;
+  const canCatchUp = sessionKey === session.sessionKey && since !== null && since >= oldest - 1;
+
+  if (!canCatchUp) {
+    return { resync: true, snapshot: toSnapshot(session) };
+  }
+
+  await CollaborationSession.updateOne(
+    { _id: session._id, participants: { $elemMatch: { userId: user.id, isActive: true } } },
+    { $set: { 'participants.$.lastActivity': new Date(), 'participants.$.seenVersion': since } }
+  );
+
+  // Writers who pause still poll, so text from the last burst of typing is
+  // screened within the interval rather than when the session closes
+  await screenSessionText(storyId, session);
+
+  const now = Date.now();
+  return {
+    resync: false,
+    version: session.version,
+    updates: session.recentOps.filter(entry => entry.version > since),
+    participants: session.participants.filter(participant => isActiveParticipant(participant, now)),
+  };
+}
+
+export async function updateCursor(
+  storyId: string,
+  user: SessionUser,
+  sessionKey: string,
+  cursor: CollaborationCursor
+): Promise<Result<{ cursor: CollaborationCursor }>> {
+  await connectToDatabase();
+
+  const now = new Date();
+  const session = await CollaborationSession.findOneAndUpdate(
+    { storyId, sessionKey, 'participants.userId': user.id },
+    {
+      $set: {
+        'participants.$.cursor': cursor,
+        'participants.$.lastActivity': now,
+        'participants.$.isActive': true,
+        lastActivity: now,
+      },
+    },
+    { new: true, projection: { participants: 1 } }
+  ).lean();
+
+  if (!session) {
+    return { error: 'The writing session has restarted. Please rejoin.', status: 409 };
+  }
+
+  const participant = session.participants.find(entry => entry.userId.toString() === user.id);
+
+  await notifyCursorMoved({
+    storyId,
+    userId: user.id,
+    userName: participant?.userName || user.name || 'Co-writer',
+    color: participant?.color,
+    cursor,
+    isActive: true,
+  });
+
+  return { cursor };
+}
+
+// Mark the user as gone. The last one out closes the session.
+export async function leaveSession(storyId: string, user: SessionUser): Promise<void> {
+  await connectToDatabase();
+
+  const session = await CollaborationSession.findOneAndUpdate(
+    { storyId, 'participants.userId': user.id },
+    { $set: { 'participants.$.isActive': false, 'participants.$.cursor': { start: null, end: null } } },
+    { new: true }
+  );
+
+  if (!session) return;
+
+  await notifyCursorMoved({
+    storyId,
+    userId: user.id,
+    userName: user.name || 'Co-writer',
+    cursor: null,
+    isActive: false,
+  });
+
+  const now = Date.now();
+  if (!session.participants.some(participant => isActiveParticipant(participant, now))) {
+    await closeSession(session, user);
+  }
+}
+
+// Take a removed co-writer out of a session they are still in
+export async function removeParticipant(storyId: string, userId: string, userName: string): Promise<void> {
+  await connectToDatabase();
+
+  const updated = await CollaborationSession.updateOne(
+    { storyId },
+    { $pull: { participants: { userId } } }
+  );
+
+  if (updated.modifiedCount > 0) {
+    await notifyCursorMoved({ storyId, userId, userName, cursor: null, isActive: false });
+  }
+}
+
+// Whether anyone is co-writing the story right now, in which case the
+// session owns its text
+export async function hasActiveSession(storyId: string): Promise<boolean> {
+  await connectToDatabase();
+
+  const session = await CollaborationSession.findOne({ storyId }).select('participants').lean();
+  const now = Date.now();
+  return !!session && session.participants.some(participant => isActiveParticipant(participant, now));
+}
@@ -0,0 +1,53 @@
+// lib/comment-anchors.ts - Keeps inline comments attached to their text as a story changes
+import { connectToDatabase } from '@/utils/db';
+import Comment from '@/models/Comment';
+import { createAnchor, resolveAnchor } from '@/lib/text-anchors';
+
+// Find every inline comment's text again in the story's new content. A
+// comment that's found takes fresh context from where it now sits, so the
+// next edit starts from there; one that isn't is flagged orphaned but keeps
+// its anchor, so restoring the old text brings it back. Never throws: a
+// failed pass must not fail the save, and the next change tries again.
+export async function reanchorComments(storyId: string, content: string): Promise<void> {
+  try {
+    await connectToDatabase();
+
+    const comments = await Comment.find({ storyId, 'anchor.exact': { $exists: true } })
+      .select('anchor anchorStatus textPosition')
+      .lean();
+
+    const now = new Date();
+    for (const comment of comments) {
+      if (!comment.anchor) continue;
+
+      const range = resolveAnchor(content, comment.anchor, comment.textPosition);
+      if (!range) {
+        if (comment.anchorStatus !== 'orphaned') {
+          await Comment.updateOne(
+            { _id: comment._id },
+            { $set: { anchorStatus: 'orphaned', orphanedAt: now } }
+          );
+        }
+        continue;
+      }
+
+      const anchor = createAnchor(content, range);
+      const unchanged = comment.anchorStatus === 'anchored'
+        && comment.textPosition?.start === range.start
+        && comment.textPosition?.end === range.end
+        && anchor?.prefix === comment.anchor.prefix
+        && anchor?.suffix === comment.anchor.suffix;
+      if (unchanged) continue;
+
+      await Comment.updateOne(
+        { _id: comment._id },
+        {
+          $set: { anchor, textPosition: range, anchorStatus: 'anchored' },
+          $unset: { orphanedAt: 1 },
+        }
+      );
+    }
+  } catch (error) {
+    console.error('Error re-anchoring comments:', error);
+  }
+}
@@ -1,23 +1,47 @@
 // File 101: lib/content-filter.ts - Advanced Content Filtering
 import OpenAI from 'openai';
+import { ModerationEngine, moderationEngine } from '@/lib/moderation-engine';
+import { AgeGroup } from '@/types/auth';
 
-interface ContentModerationResult {
+export interface ContentModerationResult {
   isAppropriate: boolean;
   flaggedCategories: string[];
   severity: 'low' | 'medium' | 'high';
   suggestions?: string[];
 }
 
+interface ContentFilterOptions {
+  engine?: ModerationEngine;
+  // Ask the OpenAI moderation API as a second opinion when a key is configured
+  remoteSecondOpinion?: boolean;
+}
+
+const SEVERITY_ORDER = { low: 0, medium: 1, high: 2 };
+
 export class ContentFilter {
-  private openai: OpenAI;
-  
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+  private openai?: OpenAI;
+  private engine: ModerationEngine;
+
+  constructor(options: ContentFilterOptions = {}) {
+    this.engine = options.engine || moderationEngine;
+
+    const remoteEnabled = options.remoteSecondOpinion ?? process.env.CONTENT_MODERATION_REMOTE !== 'false';
+    if (remoteEnabled && process.env.OPENAI_API_KEY) {
+      this.openai = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    }
   }
 
-  async moderateContent(content: string): Promise<ContentModerationResult> {
+  // Local moderation always runs; the remote API can only add flags, and an
+  // outage falls back to the local verdict instead of rejecting everything
+  async moderateContent(content: string, ageGroup?: AgeGroup): Promise<ContentModerationResult> {
+    const local = this.engine.moderate(content, ageGroup);
+
+    if (!this.openai) {
+      return local;
+    }
+
     try {
       // OpenAI Moderation API
       const moderation = await this.openai.moderations.create({
@@ -26,72 +50,35 @@ export class ContentFilter {
 
       const result = moderation.results[0];
       const flaggedCategories: string[] = [];
-      
+
       Object.entries(result.categories).forEach(([category, flagged]) => {
         if (flagged) flaggedCategories.push(category);
       });
 
-      // Custom child-safety checks
-      const customChecks = await this.performCustomChecks(content);
-      
+      const remoteSeverity = result.flagged ? this.determineSeverity(result.category_scores) : 'low';
+
       return {
-        isAppropriate: !result.flagged && customChecks.isAppropriate,
-        flaggedCategories: [...flaggedCategories, ...customChecks.flaggedCategories],
-        severity: this.determineSeverity(result.category_scores),
-        suggestions: customChecks.suggestions,
+        isAppropriate: !result.flagged && local.isAppropriate,
+        flaggedCategories: Array.from(new Set([...local.flaggedCategories, ...flaggedCategories])),
+        severity: SEVERITY_ORDER[remoteSeverity] > SEVERITY_ORDER[local.severity] ? remoteSeverity : local.severity,
+        suggestions: local.suggestions,
       };
     } catch (error) {
-      console.error('Content moderation error:', error);
-      return {
-        isAppropriate: false,
-        flaggedCategories: ['system_error'],
-        severity: 'high',
-      };
+      console.error('Remote content moderation unavailable, using local result:', error);
+      return local;
     }
   }
 
-  private async performCustomChecks(content: string) {
-    // Age-appropriate language checks
-    const inappropriateWords = [
-      // Add age-inappropriate words for children
-    ];
-    
-    const flaggedCategories: string[] = [];
-    const suggestions: string[] = [];
-    
-    // Check for inappropriate words
-    inappropriateWords.forEach(word => {
-      if (content.toLowerCase().includes(word.toLowerCase())) {
-        flaggedCategories.push('inappropriate_language');
-        suggestions.push(`Consider replacing "${word}" with more age-appropriate language`);
-      }
-    });
-
-    // Check for personal information
-    const personalInfoPatterns = [
-      /\b\d{3}-\d{3}-\d{4}\b/, // Phone numbers
-      /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/, // Emails
-      /\b\d{1,5}\s[A-Za-z\s]+(?:Street|St|Avenue|Ave|Road|Rd)\b/i, // Addresses
-    ];
-
-    personalInfoPatterns.forEach(pattern => {
-      if (pattern.test(content)) {
-        flaggedCategories.push('personal_information');
-        suggestions.push('Remove personal information to protect privacy');
-      }
-    });
-
-    return {
-      isAppropriate: flaggedCategories.length === 0,
-      flaggedCategories,
-      suggestions,
-    };
+  // Local checks only, with no network call - fast enough to run on every
+  // chunk of a streaming AI response
+  static checkLocally(content: string, ageGroup?: AgeGroup): ContentModerationResult {
+    return moderationEngine.moderate(content, ageGroup);
   }
 
   private determineSeverity(scores: any): 'low' | 'medium' | 'high' {
-    const maxScore = Math.max(...Object.values(scores));
+    const maxScore = Math.max(...(Object.values(scores) as number[]));
     if (maxScore > 0.8) return 'high';
     if (maxScore > 0.5) return 'medium';
     return 'low';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,292 @@
+// lib/crdt.ts - Sequence CRDT (replicated growable array) for co-writing
+//
+// Every character carries a unique id "<clock>@<site>" taken from a Lamport
+// clock. An insert names the character it follows and a delete leaves a
+// tombstone, so replicas that apply the same operations reach the same text
+// whatever order they arrive in, as long as an insert arrives after the
+// character it follows. Characters are UTF-16 code units, matching the
+// offsets a textarea reports.
+import { CollaborationCursor } from '@/types/realtime';
+
+export interface CrdtNode {
+  id: string;
+  value: string;
+  deleted: boolean;
+  deletedIn?: number; // session version that deleted it, stamped by the server
+}
+
+export interface CrdtDocument {
+  nodes: CrdtNode[];
+  clock: number;
+}
+
+export type CrdtOperation =
+  | { type: 'insert'; id: string; after: string | null; value: string }
+  | { type: 'delete'; id: string };
+
+export type ApplyResult = 'applied' | 'duplicate' | 'missing';
+
+// Site of the text a session starts from
+export const ORIGIN_SITE = 'origin';
+
+const ID_PATTERN = /^(\d+)@([A-Za-z0-9.-]{1,64})$/;
+
+export function makeId(clock: number, site: string): string {
+  return `${clock}@${site}`;
+}
+
+export function isValidId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+export function siteOf(id: string): string {
+  return id.slice(id.indexOf('@') + 1);
+}
+
+function clockOf(id: string): number {
+  return parseInt(id.slice(0, id.indexOf('@')), 10);
+}
+
+// Total order on ids: by clock, ties broken by site
+export function compareIds(a: string, b: string): number {
+  const clockA = clockOf(a);
+  const clockB = clockOf(b);
+  if (clockA !== clockB) return clockA - clockB;
+
+  const siteA = siteOf(a);
+  const siteB = siteOf(b);
+  return siteA < siteB ? -1 : siteA > siteB ? 1 : 0;
+}
+
+export function createDocument(text: string): CrdtDocument {
+  const nodes: CrdtNode[] = [];
+  for (let i = 0; i < text.length; i++) {
+    nodes.push({ id: makeId(i + 1, ORIGIN_SITE), value: text[i], deleted: false });
+  }
+  return { nodes, clock: text.length };
+}
+
+export function documentText(doc: CrdtDocument): string {
+  const chars: string[] = [];
+  for (const node of doc.nodes) {
+    if (!node.deleted) chars.push(node.value);
+  }
+  return chars.join('');
+}
+
+function indexOfId(doc: CrdtDocument, id: string): number {
+  return doc.nodes.findIndex(node => node.id === id);
+}
+
+// Node index of the visible character at a text position, or -1 for position 0
+function nodeIndexBefore(doc: CrdtDocument, position: number): number {
+  if (position <= 0) return -1;
+
+  let seen = 0;
+  let last = -1;
+  for (let i = 0; i < doc.nodes.length; i++) {
+    if (doc.nodes[i].deleted) continue;
+    last = i;
+    seen++;
+    if (seen === position) return i;
+  }
+  return last;
+}
+
+export function applyOperation(doc: CrdtDocument, op: CrdtOperation): ApplyResult {
+  if (op.type === 'delete') {
+    const index = indexOfId(doc, op.id);
+    if (index === -1) return 'missing';
+    if (doc.nodes[index].deleted) return 'duplicate';
+
+    doc.nodes[index].deleted = true;
+    return 'applied';
+  }
+
+  if (indexOfId(doc, op.id) !== -1) return 'duplicate';
+
+  let position = 0;
+  if (op.after !== null) {
+    const reference = indexOfId(doc, op.after);
+    if (reference === -1) return 'missing';
+    position = reference + 1;
+  }
+
+  // Concurrent inserts after the same character are ordered by id, newest
+  // first; anything inserted after those has a higher clock still
+  while (position < doc.nodes.length && compareIds(doc.nodes[position].id, op.id) > 0) {
+    position++;
+  }
+
+  doc.nodes.splice(position, 0, { id: op.id, value: op.value, deleted: false });
+  doc.clock = Math.max(doc.clock, clockOf(op.id));
+  return 'applied';
+}
+
+export function applyOperations(
+  doc: CrdtDocument,
+  ops: CrdtOperation[]
+): { applied: CrdtOperation[]; missing: CrdtOperation[] } {
+  const applied: CrdtOperation[] = [];
+  const missing: CrdtOperation[] = [];
+
+  for (const op of ops) {
+    const result = applyOperation(doc, op);
+    if (result === 'applied') applied.push(op);
+    if (result === 'missing') missing.push(op);
+  }
+
+  return { applied, missing };
+}
+
+// Note the version that deleted each character, so the server knows when
+// every replica has seen the delete
+export function stampDeletions(doc: CrdtDocument, ops: CrdtOperation[], version: number): void {
+  const deletedIds = new Set(ops.filter(op => op.type === 'delete').map(op => op.id));
+  if (deletedIds.size === 0) return;
+
+  for (const node of doc.nodes) {
+    if (deletedIds.has(node.id)) node.deletedIn = version;
+  }
+}
+
+// Drop tombstones deleted at or before a version every replica has applied.
+// New inserts only ever follow visible characters and replicas that have
+// seen a delete also outnumber its clock, so nothing placed later depends
+// on the tombstone. Unstamped tombstones are kept. Returns how many went.
+export function compactTombstones(doc: CrdtDocument, upToVersion: number): number {
+  const before = doc.nodes.length;
+  doc.nodes = doc.nodes.filter(node =>
+    !node.deleted || node.deletedIn === undefined || node.deletedIn > upToVersion
+  );
+  return before - doc.nodes.length;
+}
+
+// A new local id is newer than everything this replica has seen, so a local
+// insert always lands directly after its reference character
+export function localInsert(doc: CrdtDocument, site: string, position: number, text: string): CrdtOperation[] {
+  if (!text) return [];
+
+  const reference = nodeIndexBefore(doc, position);
+  let after = reference === -1 ? null : doc.nodes[reference].id;
+
+  const ops: CrdtOperation[] = [];
+  const inserted: CrdtNode[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    doc.clock += 1;
+    const id = makeId(doc.clock, site);
+    ops.push({ type: 'insert', id, after, value: text[i] });
+    inserted.push({ id, value: text[i], deleted: false });
+    after = id;
+  }
+
+  doc.nodes.splice(reference + 1, 0, ...inserted);
+  return ops;
+}
+
+export function localDelete(doc: CrdtDocument, position: number, length: number): CrdtOperation[] {
+  const ops: CrdtOperation[] = [];
+  if (length <= 0) return ops;
+
+  let seen = 0;
+  for (const node of doc.nodes) {
+    if (node.deleted) continue;
+    if (seen >= position + length) break;
+
+    if (seen >= position) {
+      node.deleted = true;
+      ops.push({ type: 'delete', id: node.id });
+    }
+    seen++;
+  }
+
+  return ops;
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff;
+}
+
+// Turns a whole-text change, as a textarea reports it, into operations.
+// Only the span between the common prefix and suffix is replaced.
+export function diffToOperations(doc: CrdtDocument, site: string, nextText: string): CrdtOperation[] {
+  const current = documentText(doc);
+  if (current === nextText) return [];
+
+  let start = 0;
+  const shorter = Math.min(current.length, nextText.length);
+  while (start < shorter && current[start] === nextText[start]) {
+    start++;
+  }
+
+  let endCurrent = current.length;
+  let endNext = nextText.length;
+  while (endCurrent > start && endNext > start && current[endCurrent - 1] === nextText[endNext - 1]) {
+    endCurrent--;
+    endNext--;
+  }
+
+  // Keep surrogate pairs (emoji) together on one side of the edit
+  if (start > 0 && isHighSurrogate(current.charCodeAt(start - 1))) {
+    start--;
+  }
+  if (endCurrent < current.length && isLowSurrogate(current.charCodeAt(endCurrent))) {
+    endCurrent++;
+    endNext++;
+  }
+
+  return [
+    ...localDelete(doc, start, endCurrent - start),
+    ...localInsert(doc, site, start, nextText.slice(start, endNext)),
+  ];
+}
+
+// Id of the character just before a text position; null means the start
+export function anchorAt(doc: CrdtDocument, position: number): string | null {
+  const index = nodeIndexBefore(doc, position);
+  return index === -1 ? null : doc.nodes[index].id;
+}
+
+// Text position just after an anchor. A deleted anchor resolves to where it
+// stood; an anchor this replica has not seen yet resolves to -1.
+export function resolveAnchor(doc: CrdtDocument, anchor: string | null): number {
+  if (anchor === null) return 0;
+
+  let position = 0;
+  for (const node of doc.nodes) {
+    if (!node.deleted) position++;
+    if (node.id === anchor) return position;
+  }
+  return -1;
+}
+
+export function cursorAt(doc: CrdtDocument, start: number, end: number = start): CollaborationCursor {
+  return { start: anchorAt(doc, start), end: anchorAt(doc, end) };
+}
+
+export function resolveCursor(
+  doc: CrdtDocument,
+  cursor: CollaborationCursor
+): { start: number; end: number } | null {
+  const start = resolveAnchor(doc, cursor.start);
+  const end = resolveAnchor(doc, cursor.end);
+  if (start === -1 || end === -1) return null;
+
+  return { start: Math.min(start, end), end: Math.max(start, end) };
+}
+
+// Visible characters per site, to credit who wrote the text that survives
+export function countBySite(doc: CrdtDocument): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const node of doc.nodes) {
+    if (node.deleted) continue;
+    const site = siteOf(node.id);
+    counts[site] = (counts[site] || 0) + 1;
+  }
+  return counts;
+}
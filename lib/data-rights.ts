@@ -0,0 +1,440 @@
+// lib/data-rights.ts - Account data export and right-to-erasure pipeline
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import { uploadFile, readFileBuffer, deleteFile, deleteFilesForOwner } from '@/utils/gridfs';
+import User from '@/models/User';
+import Story from '@/models/Story';
+import StoryRevision from '@/models/StoryRevision';
+import Comment from '@/models/Comment';
+import Notification from '@/models/Notification';
+import ModerationCase from '@/models/ModerationCase';
+import CollaborationSession from '@/models/CollaborationSession';
+import Classroom from '@/models/Classroom';
+import Assignment from '@/models/Assignment';
+import Rubric from '@/models/Rubric';
+import RubricScore from '@/models/RubricScore';
+import PasswordReset from '@/models/PasswordReset';
+import PushSubscription from '@/models/PushSubscription';
+import EmailOutbox from '@/models/EmailOutbox';
+import { UserAchievement } from '@/models/Achievement';
+import { AnalyticsEvent } from '@/models/Analytics';
+import DataRequest, { IDataRequest } from '@/models/DataRequest';
+import { requireLinkedChildApi } from '@/lib/auth';
+import { createZip, ZipEntry } from '@/lib/zip';
+import { renderStoryPDF } from '@/lib/pdf-generator';
+import { sendDataExportReadyEmail, sendDataErasureReceiptEmail } from '@/lib/email';
+
+export const EXPORT_RETENTION_DAYS = 7;
+
+// Stand-in for erased people on records that belong to someone else
+// (a mentor's comment on another child's story, a revision they saved)
+const ANONYMIZED_NAME = 'Former member';
+const ANONYMIZED_ID = new mongoose.Types.ObjectId('000000000000000000000000');
+
+interface CollectedUserData {
+  profile: Record<string, any> | null;
+  stories: any[];
+  revisions: any[];
+  comments: any[];
+  achievements: any[];
+  notifications: any[];
+  analyticsEvents: any[];
+}
+
+// A request covers the signed-in account, or a linked child when a parent
+// passes childId
+export async function resolveDataSubject(
+  user: { id: string; role: string },
+  childId?: string
+): Promise<{ subjectId: string } | { error: string; status: number }> {
+  if (!childId || childId === user.id) {
+    return { subjectId: user.id };
+  }
+
+  if (user.role !== 'parent') {
+    return { error: 'Only a linked parent can request data for another account', status: 403 };
+  }
+
+  const linkResult = await requireLinkedChildApi(user.id, childId);
+  if ('error' in linkResult) {
+    return linkResult;
+  }
+
+  return { subjectId: linkResult.child._id.toString() };
+}
+
+// Lets support answer "was this account erased?" without keeping the address
+export function hashSubject(userId: string, email: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${userId}:${email.trim().toLowerCase()}`)
+    .digest('hex');
+}
+
+export function buildReceiptHash(
+  requestId: string,
+  subjectHash: string,
+  counts: Record<string, number>,
+  completedAt: Date
+): string {
+  const orderedCounts = Object.keys(counts)
+    .sort()
+    .map(key => [key, counts[key]]);
+
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+      requestId,
+      subjectHash,
+      counts: orderedCounts,
+      completedAt: completedAt.toISOString(),
+    }))
+    .digest('hex');
+}
+
+export async function collectUserData(userId: string): Promise<CollectedUserData> {
+  await connectToDatabase();
+
+  // Password and token fields are select: false, so lean() leaves them out
+  const profile = await User.findById(userId).select('-__v').lean();
+  const stories = await Story.find({ authorId: userId }).sort({ createdAt: 1 }).lean();
+  const storyIds = stories.map(story => story._id);
+
+  const [revisions, comments, achievements, notifications, analyticsEvents] = await Promise.all([
+    StoryRevision.find({ storyId: { $in: storyIds } }).sort({ storyId: 1, revisionNumber: 1 }).lean(),
+    Comment.find({ $or: [{ storyId: { $in: storyIds } }, { commenterId: userId }] }).sort({ createdAt: 1 }).lean(),
+    UserAchievement.find({ userId }).populate('achievementId', 'name description icon category').lean(),
+    Notification.find({ userId }).sort({ createdAt: 1 }).lean(),
+    AnalyticsEvent.find({ userId }).sort({ timestamp: 1 }).lean(),
+  ]);
+
+  return { profile, stories, revisions, comments, achievements, notifications, analyticsEvents };
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'story';
+}
+
+// One JSON file per record type plus a PDF per story. A PDF that fails to
+// render is listed in the manifest instead of failing the whole export.
+export async function buildExportArchive(
+  data: CollectedUserData
+): Promise<{ archive: Buffer; manifest: Record<string, number> }> {
+  const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+  const entries: ZipEntry[] = [
+    { name: 'profile.json', data: json(data.profile) },
+    { name: 'stories.json', data: json(data.stories) },
+    { name: 'revisions.json', data: json(data.revisions) },
+    { name: 'comments.json', data: json(data.comments) },
+    { name: 'achievements.json', data: json(data.achievements) },
+    { name: 'notifications.json', data: json(data.notifications) },
+    { name: 'analytics-events.json', data: json(data.analyticsEvents) },
+  ];
+
+  const pdfFailures: Array<{ storyId: string; title: string }> = [];
+  let pdfCount = 0;
+
+  for (const story of data.stories) {
+    if (!story.content) continue;
+
+    try {
+      const storyComments = data.comments.filter(
+        comment => comment.storyId.toString() === story._id.toString() && !comment.isHidden
+      );
+      const pdf = await renderStoryPDF(
+        { story: story as any, comments: storyComments as any, authorName: story.authorName },
+        { includeComments: true, includeAssessments: true }
+      );
+      entries.push({ name: `stories/${slugify(story.title)}-${story._id}.pdf`, data: pdf });
+      pdfCount++;
+    } catch (error) {
+      console.error(`Failed to render PDF for story ${story._id}:`, error);
+      pdfFailures.push({ storyId: story._id.toString(), title: story.title });
+    }
+  }
+
+  const manifest = {
+    stories: data.stories.length,
+    revisions: data.revisions.length,
+    comments: data.comments.length,
+    achievements: data.achievements.length,
+    notifications: data.notifications.length,
+    analyticsEvents: data.analyticsEvents.length,
+    pdfs: pdfCount,
+  };
+
+  entries.push({
+    name: 'manifest.json',
+    data: json({
+      generatedAt: new Date().toISOString(),
+      userId: data.profile?._id,
+      counts: manifest,
+      pdfFailures,
+    }),
+  });
+
+  return { archive: createZip(entries), manifest };
+}
+
+async function uploadArchive(request: IDataRequest, archive: Buffer): Promise<string> {
+  return await uploadFile(
+    archive,
+    `${request.userId}_data-export_${Date.now()}.zip`,
+    'application/zip',
+    {
+      ownerId: request.userId.toString(),
+      metadata: { kind: 'data-export', requestId: request._id.toString(), private: true },
+      countsTowardsQuota: false,
+    }
+  );
+}
+
+export async function readExportArchive(fileId: string): Promise<Buffer> {
+  return await readFileBuffer(fileId);
+}
+
+export async function runExport(request: IDataRequest): Promise<IDataRequest> {
+  await connectToDatabase();
+
+  request.status = 'processing';
+  request.startedAt = new Date();
+  await request.save();
+
+  try {
+    const data = await collectUserData(request.userId.toString());
+    if (!data.profile) {
+      throw new Error('Account not found');
+    }
+
+    const { archive, manifest } = await buildExportArchive(data);
+    const fileId = await uploadArchive(request, archive);
+
+    request.fileId = fileId;
+    request.fileSize = archive.length;
+    request.manifest = manifest;
+    request.expiresAt = new Date(Date.now() + EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    request.status = 'completed';
+    request.completedAt = new Date();
+    await request.save();
+  } catch (error) {
+    request.status = 'failed';
+    request.error = error instanceof Error ? error.message : 'Unknown error';
+    await request.save();
+    return request;
+  }
+
+  const downloadUrl = `/api/user/data-export/${request._id}`;
+
+  try {
+    await Notification.create({
+      userId: request.requestedBy,
+      type: 'export_ready',
+      title: 'Your data export is ready',
+      message: `Download it before ${request.expiresAt!.toLocaleDateString()}, after which it is deleted.`,
+      data: { requestId: request._id.toString() },
+      actionUrl: downloadUrl,
+      actionText: 'Download',
+      deliveryMethod: 'in_app',
+      variant: 'success',
+    });
+
+    const requester = await User.findById(request.requestedBy).select('name email').lean();
+    if (requester) {
+      await sendDataExportReadyEmail(requester.email, {
+        name: requester.name,
+        downloadUrl: `${process.env.NEXT_PUBLIC_APP_URL}${downloadUrl}`,
+        expiresAt: request.expiresAt!,
+      });
+    }
+  } catch (error) {
+    console.error('Failed to notify about data export:', error);
+  }
+
+  return request;
+}
+
+// Deletes everything the account owns and anonymizes what it left on other
+// people's records. Every step is idempotent, so a failed request can simply
+// be run again. The receipt only keeps counts and a hash of the subject.
+export async function runErasure(request: IDataRequest): Promise<IDataRequest> {
+  await connectToDatabase();
+
+  request.status = 'processing';
+  request.startedAt = new Date();
+  await request.save();
+
+  const userId = request.userId.toString();
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+
+  try {
+    const user = await User.findById(userId).select('name email role parentEmail').lean();
+    if (!user && !request.subjectHash) {
+      throw new Error('Account not found');
+    }
+
+    if (user) {
+      request.subjectHash = hashSubject(userId, user.email);
+    }
+
+    const storyIds = (await Story.find({ authorId: userObjectId }).select('_id').lean())
+      .map(story => story._id);
+
+    const counts: Record<string, number> = {};
+
+    counts.storyRevisions = (await StoryRevision.deleteMany({ storyId: { $in: storyIds } })).deletedCount || 0;
+    // Revisions refuse every update through the model, so erasure goes to
+    // the collection directly: the one change they are allowed
+    counts.storyRevisionsAnonymized = (await StoryRevision.collection.updateMany(
+      { 'savedBy.userId': userObjectId },
+      { $set: { 'savedBy.userId': ANONYMIZED_ID, 'savedBy.name': ANONYMIZED_NAME } }
+    )).modifiedCount;
+
+    counts.comments = (await Comment.deleteMany({ storyId: { $in: storyIds } })).deletedCount || 0;
+    counts.commentsAnonymized = (await Comment.updateMany(
+      { commenterId: userObjectId },
+      { $set: { commenterId: ANONYMIZED_ID, commenterName: ANONYMIZED_NAME } }
+    )).modifiedCount;
+    counts.reactionsRemoved = (await Comment.updateMany(
+      { 'emojiReactions.userId': userObjectId },
+      { $pull: { emojiReactions: { userId: userObjectId } } }
+    )).modifiedCount;
+
+    counts.moderationCases = (await ModerationCase.deleteMany({
+      $or: [{ targetAuthorId: userObjectId }, { storyId: { $in: storyIds } }],
+    })).deletedCount || 0;
+
+    counts.stories = (await Story.deleteMany({ _id: { $in: storyIds } })).deletedCount || 0;
+    counts.storiesAnonymized = (await Story.updateMany(
+      { 'mentorAssessment.mentorId': userObjectId },
+      { $set: { 'mentorAssessment.mentorId': ANONYMIZED_ID, 'mentorAssessment.mentorName': ANONYMIZED_NAME } }
+    )).modifiedCount;
+    counts.rubricScores = (await RubricScore.deleteMany({ authorId: userObjectId })).deletedCount || 0;
+    await RubricScore.updateMany({ assessorId: userObjectId }, { $set: { assessorId: ANONYMIZED_ID } });
+    await Story.updateMany(
+      { 'rubricAssessments.assessorId': userObjectId },
+      {
+        $set: {
+          'rubricAssessments.$[entry].assessorId': ANONYMIZED_ID,
+          'rubricAssessments.$[entry].assessorName': ANONYMIZED_NAME,
+        },
+      },
+      { arrayFilters: [{ 'entry.assessorId': userObjectId }] }
+    );
+    await Story.updateMany(
+      { 'publicApproval.decidedBy': userObjectId },
+      { $unset: { 'publicApproval.decidedBy': '' } }
+    );
+
+    // Co-writing: sessions carry the user's id in every character they typed,
+    // so any they took part in are dropped and reopen from the saved text
+    await CollaborationSession.deleteMany({
+      $or: [
+        { storyId: { $in: storyIds } },
+        { 'participants.userId': userObjectId },
+        { 'recentOps.userId': userObjectId },
+      ],
+    });
+    await Story.updateMany(
+      { 'collaborators.userId': userObjectId },
+      { $pull: { collaborators: { userId: userObjectId } } }
+    );
+    counts.contributionsAnonymized = (await Story.updateMany(
+      { 'contributions.userId': userObjectId },
+      { $set: { 'contributions.$[entry].userId': ANONYMIZED_ID, 'contributions.$[entry].name': ANONYMIZED_NAME } },
+      { arrayFilters: [{ 'entry.userId': userObjectId }] }
+    )).modifiedCount;
+
+    // Classrooms: students leave their rosters; a mentor's own classes go
+    // with them, since the roster names belong to the students
+    counts.classroomEnrollments = (await Classroom.updateMany(
+      { 'students.userId': userObjectId },
+      { $pull: { students: { userId: userObjectId } } }
+    )).modifiedCount;
+    const ownClassroomIds = (await Classroom.find({ mentorId: userObjectId }).select('_id').lean())
+      .map(classroom => classroom._id);
+    await Assignment.deleteMany({ classroomId: { $in: ownClassroomIds } });
+    counts.rubrics = (await Rubric.deleteMany({ mentorId: userObjectId })).deletedCount || 0;
+    counts.classrooms = (await Classroom.deleteMany({ _id: { $in: ownClassroomIds } })).deletedCount || 0;
+
+    counts.notifications = (await Notification.deleteMany({ userId: userObjectId })).deletedCount || 0;
+    counts.pushSubscriptions = (await PushSubscription.deleteMany({ userId: userObjectId })).deletedCount || 0;
+    // Queued and recently sent mail keeps its template data (names, story
+    // titles), so anything addressed to the user goes too. The user record is
+    // erased last, so a retried erasure still has the address here.
+    if (user) {
+      counts.emails = (await EmailOutbox.deleteMany({ to: user.email })).deletedCount || 0;
+    }
+    counts.achievements = (await UserAchievement.deleteMany({ userId: userObjectId })).deletedCount || 0;
+
+    // Aggregate reporting keeps the event, but nothing that points back to the person
+    counts.analyticsEventsAnonymized = (await AnalyticsEvent.updateMany(
+      { userId: userObjectId },
+      {
+        $set: { metadata: {} },
+        $unset: { userId: '', sessionId: '', ipAddress: '', userAgent: '', userAge: '', referrer: '' },
+      }
+    )).modifiedCount;
+
+    await PasswordReset.deleteMany({ userId: userObjectId });
+    counts.files = await deleteFilesForOwner(userId);
+
+    await User.updateMany({ linkedChildren: userObjectId }, { $pull: { linkedChildren: userObjectId } });
+    await User.updateMany({ mentorId: userObjectId }, { $unset: { mentorId: '', mentorAssignedAt: '' } });
+    counts.user = (await User.deleteOne({ _id: userObjectId })).deletedCount || 0;
+
+    const completedAt = new Date();
+    const receiptHash = buildReceiptHash(
+      request._id.toString(),
+      request.subjectHash!,
+      counts,
+      completedAt
+    );
+
+    request.receipt = { counts, completedAt, receiptHash };
+    request.status = 'completed';
+    request.completedAt = completedAt;
+    request.error = undefined;
+    await request.save();
+
+    if (user) {
+      const recipients = [user.email, user.role === 'child' ? user.parentEmail : undefined]
+        .filter((email): email is string => !!email);
+
+      for (const email of Array.from(new Set(recipients))) {
+        await sendDataErasureReceiptEmail(email, { name: user.name, counts, completedAt, receiptHash });
+      }
+    }
+  } catch (error) {
+    request.status = 'failed';
+    request.error = error instanceof Error ? error.message : 'Unknown error';
+    await request.save();
+  }
+
+  return request;
+}
+
+// Export archives are only kept for EXPORT_RETENTION_DAYS
+export async function purgeExpiredExports(): Promise<number> {
+  await connectToDatabase();
+
+  const expired = await DataRequest.find({
+    type: 'export',
+    status: 'completed',
+    fileId: { $exists: true },
+    expiresAt: { $lt: new Date() },
+  });
+
+  for (const request of expired) {
+    try {
+      await deleteFile(request.fileId!);
+    } catch (error) {
+      console.error(`Failed to delete expired export ${request.fileId}:`, error);
+    }
+    request.fileId = undefined;
+    await request.save();
+  }
+
+  return expired.length;
+}
@@ -0,0 +1,27 @@
+// lib/domain-events.ts - Publishes what happened to a writer to everything that reacts to it
+import { handleAchievementEvent } from '@/lib/achievement-engine';
+import { DomainEvent, DomainEventType } from '@/types/events';
+
+type DomainEventHandler = (event: DomainEvent) => Promise<void>;
+
+// Listed here rather than registered on import, so a publisher never
+// depends on which modules happen to have been loaded
+const SUBSCRIBERS: Record<DomainEventType, DomainEventHandler[]> = {
+  story_completed: [handleAchievementEvent],
+  assessment_saved: [handleAchievementEvent],
+  comment_received: [handleAchievementEvent],
+  streak_extended: [handleAchievementEvent],
+};
+
+// Subscribers run in order. A failing one is logged and never fails the
+// action that published the event. Subscribers must be safe to run twice
+// for the same event.
+export async function publishDomainEvent(event: DomainEvent): Promise<void> {
+  for (const handler of SUBSCRIBERS[event.type]) {
+    try {
+      await handler(event);
+    } catch (error) {
+      console.error(`Error handling ${event.type} event:`, error);
+    }
+  }
+}
@@ -1,5 +1,8 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
 import nodemailer from 'nodemailer';
 import { connectToDatabase } from '@/utils/db';
+import EmailOutbox, { IEmailOutbox, OutboxStatus } from '@/models/EmailOutbox';
 import { EmailTemplate, EmailType } from '@/types/email';
 
 // Email configuration
@@ -13,16 +16,48 @@ const emailConfig = {
   },
 };
 
+// EMAIL_TRANSPORT=local keeps sent mail in memory instead of using SMTP, for
+// tests and development. A local SMTP catcher (e.g. SMTP_HOST=localhost,
+// SMTP_PORT=1025) also works without credentials.
+export interface LocalMail {
+  messageId: string;
+  to: string[];
+  subject: string;
+  html: string;
+  sentAt: Date;
+}
+
+const localMailbox: LocalMail[] = [];
+
+export function getLocalMailbox(): LocalMail[] {
+  return [...localMailbox];
+}
+
+export function clearLocalMailbox(): void {
+  localMailbox.length = 0;
+}
+
+function isLocalSmtpHost(host: string): boolean {
+  return host === 'localhost' || host === '127.0.0.1';
+}
+
 // Create reusable transporter
 let transporter: nodemailer.Transporter | null = null;
 
 async function getTransporter(): Promise<nodemailer.Transporter> {
+  if (process.env.EMAIL_TRANSPORT === 'local') {
+    return nodemailer.createTransport({ jsonTransport: true });
+  }
+
   if (!transporter) {
-    if (!process.env.SMTP_USER || !process.env.SMTP_PASSWORD) {
+    const localSmtp = isLocalSmtpHost(emailConfig.host);
+    if (!localSmtp && (!process.env.SMTP_USER || !process.env.SMTP_PASSWORD)) {
       throw new Error('SMTP credentials not configured');
     }
     
-    transporter = nodemailer.createTransporter(emailConfig);
+    transporter = nodemailer.createTransport(localSmtp && !process.env.SMTP_USER
+      ? { host: emailConfig.host, port: emailConfig.port, secure: false }
+      : emailConfig);
     
     // Verify connection
     try {
@@ -37,6 +72,15 @@ async function getTransporter(): Promise<nodemailer.Transporter> {
   return transporter;
 }
 
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // Email templates
 const emailTemplates: Record<EmailType, EmailTemplate> = {
   welcome: {
@@ -151,6 +195,201 @@ const emailTemplates: Record<EmailType, EmailTemplate> = {
     `,
   },
 
+  parentalConsent: {
+    subject: 'Your child wants to join Mintoons - your approval is needed 👨‍👩‍👧',
+    html: (data: any) => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Parental Consent Request</title>
+          <style>
+            body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8fafc; }
+            .container { max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 12px rgba(0,0,0,0.1); }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 40px 20px; text-align: center; }
+            .content { padding: 40px 30px; }
+            .button { display: inline-block; background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 10px 20px 0; }
+            .button-secondary { display: inline-block; background: #f3f4f6; color: #374151; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+            .footer { background-color: #f8fafc; padding: 20px; text-align: center; color: #666; font-size: 14px; }
+            .highlight { background-color: #e0e7ff; padding: 15px; border-radius: 8px; margin: 20px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>👨‍👩‍👧 Parental Consent Request</h1>
+            </div>
+            <div class="content">
+              <h2>Hello!</h2>
+              <p><strong>${data.childName}</strong> (age ${data.childAge}) has signed up for Mintoons, a storytelling platform where children write stories with AI help and mentor feedback. Because ${data.childName} is under 13, we need your permission first.</p>
+
+              <div class="highlight">
+                <h3>If you approve, ${data.childName} will be able to:</h3>
+                <ul>
+                  <li>✍️ Use AI writing suggestions while creating stories</li>
+                  <li>💬 Receive comments from approved writing mentors</li>
+                  <li>📚 Publish finished stories</li>
+                </ul>
+                <p>Until you decide, ${data.childName} can only write private drafts.</p>
+              </div>
+
+              <a href="${data.approveUrl}" class="button">Approve Account ✅</a>
+              <a href="${data.denyUrl}" class="button-secondary">Deny</a>
+
+              <p>These links expire on ${new Date(data.expiresAt).toLocaleDateString()}. We record the time and network address when you respond, as a record of your decision.</p>
+
+              <p>If you don't recognise this request, you can ignore this email or choose Deny.</p>
+
+              <p>Questions? Contact us at <a href="mailto:privacy@mintoons.com">privacy@mintoons.com</a></p>
+
+              <p>Best regards,<br>The Mintoons Team</p>
+            </div>
+            <div class="footer">
+              <p>© ${new Date().getFullYear()} Mintoons. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  },
+
+  childLinkConfirmation: {
+    subject: 'Confirm linking your child\'s Mintoons account 🔗',
+    html: (data: any) => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Confirm Account Link</title>
+          <style>
+            body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8fafc; }
+            .container { max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 12px rgba(0,0,0,0.1); }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 40px 20px; text-align: center; }
+            .content { padding: 40px 30px; }
+            .button { display: inline-block; background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+            .footer { background-color: #f8fafc; padding: 20px; text-align: center; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>🔗 Confirm Account Link</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${data.parentName}!</h2>
+              <p>You asked to link <strong>${data.childName}</strong>'s Mintoons account to your family dashboard. Once linked, you can read their stories and feedback, approve what they publish and choose their privacy settings.</p>
+
+              <a href="${data.confirmUrl}" class="button">Confirm Link ✅</a>
+
+              <p>Open the link while signed in to the account that asked. It expires on ${new Date(data.expiresAt).toLocaleDateString()}.</p>
+
+              <p>If you didn't ask for this, you can ignore this email and nothing will be linked.</p>
+
+              <p>Best regards,<br>The Mintoons Team</p>
+            </div>
+            <div class="footer">
+              <p>© ${new Date().getFullYear()} Mintoons. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  },
+
+  dataExportReady: {
+    subject: 'Your Mintoons data export is ready 📦',
+    html: (data: any) => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Your Data Export</title>
+          <style>
+            body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8fafc; }
+            .container { max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 12px rgba(0,0,0,0.1); }
+            .header { background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); color: white; padding: 40px 20px; text-align: center; }
+            .content { padding: 40px 30px; }
+            .button { display: inline-block; background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+            .footer { background-color: #f8fafc; padding: 20px; text-align: center; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>📦 Your Data Export Is Ready</h1>
+            </div>
+            <div class="content">
+              <h2>Hi ${data.name}!</h2>
+              <p>The copy of the Mintoons account data you asked for is ready. It contains the profile, stories, story history, comments, achievements, notifications and activity we hold, plus a PDF of each story.</p>
+
+              <a href="${data.downloadUrl}" class="button">Download My Data 📦</a>
+
+              <p>You'll need to be signed in to download it. The file is available until ${new Date(data.expiresAt).toLocaleDateString()}, after which it is deleted.</p>
+
+              <p>Questions? Contact us at <a href="mailto:privacy@mintoons.com">privacy@mintoons.com</a></p>
+
+              <p>Best regards,<br>The Mintoons Team</p>
+            </div>
+            <div class="footer">
+              <p>© ${new Date().getFullYear()} Mintoons. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  },
+
+  dataErasureReceipt: {
+    subject: 'Your Mintoons account has been deleted',
+    html: (data: any) => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Account Deleted</title>
+          <style>
+            body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8fafc; }
+            .container { max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 12px rgba(0,0,0,0.1); }
+            .header { background: linear-gradient(135deg, #64748b 0%, #334155 100%); color: white; padding: 40px 20px; text-align: center; }
+            .content { padding: 40px 30px; }
+            .receipt { background-color: #f1f5f9; border-radius: 8px; padding: 15px 20px; margin: 20px 0; font-size: 14px; }
+            .footer { background-color: #f8fafc; padding: 20px; text-align: center; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Account Deleted</h1>
+            </div>
+            <div class="content">
+              <p>The Mintoons account for ${data.name} was deleted on ${new Date(data.completedAt).toLocaleString()}. Here is what we removed or anonymized:</p>
+
+              <div class="receipt">
+                <ul>
+                  ${Object.entries(data.counts || {}).map(([key, count]) => `<li>${key}: ${count}</li>`).join('')}
+                </ul>
+                <p><strong>Receipt reference:</strong> ${data.receiptHash}</p>
+              </div>
+
+              <p>Keep this email as your record. Quote the receipt reference if you contact us about this deletion.</p>
+
+              <p>Questions? Contact us at <a href="mailto:privacy@mintoons.com">privacy@mintoons.com</a></p>
+
+              <p>Best regards,<br>The Mintoons Team</p>
+            </div>
+            <div class="footer">
+              <p>© ${new Date().getFullYear()} Mintoons. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  },
+
   storyCompleted: {
     subject: '🎉 Amazing! You completed a new story!',
     html: (data: any) => `
@@ -392,6 +631,109 @@ const emailTemplates: Record<EmailType, EmailTemplate> = {
       </html>
     `,
   },
+
+  // Any stored notification sent by email; lib/notification-delivery sets
+  // data.subject to the notification's title
+  notification: {
+    subject: 'You have a new notification from Mintoons 🔔',
+    html: (data: any) => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${escapeHtml(data.title)}</title>
+          <style>
+            body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8fafc; }
+            .container { max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 12px rgba(0,0,0,0.1); }
+            .header { background: linear-gradient(135deg, #8b5cf6 0%, #6d28d9 100%); color: white; padding: 40px 20px; text-align: center; }
+            .content { padding: 40px 30px; }
+            .button { display: inline-block; background: linear-gradient(135deg, #8b5cf6 0%, #6d28d9 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+            .footer { background-color: #f8fafc; padding: 20px; text-align: center; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${escapeHtml(data.icon || '🔔')} ${escapeHtml(data.title)}</h1>
+            </div>
+            <div class="content">
+              <h2>Hi ${escapeHtml(data.name)}!</h2>
+              <p>${escapeHtml(data.message)}</p>
+
+              ${data.actionUrl ? `
+                <a href="${process.env.NEXT_PUBLIC_APP_URL}${escapeHtml(data.actionUrl)}" class="button">${escapeHtml(data.actionText || 'Take a look')}</a>
+              ` : ''}
+
+              <p>You can choose which emails you get, and set quiet hours, in your profile settings.</p>
+
+              <p>Best regards,<br>The Mintoons Team</p>
+            </div>
+            <div class="footer">
+              <p>© ${new Date().getFullYear()} Mintoons. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  },
+
+  // A digest of held notifications, laid out like the weekly progress
+  // report; data.groups comes from buildDigest in lib/notification-digests
+  notificationDigest: {
+    subject: '🗞️ Your Mintoons digest',
+    html: (data: any) => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${escapeHtml(data.title)}</title>
+          <style>
+            body { font-family: 'Arial', sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f8fafc; }
+            .container { max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 12px rgba(0,0,0,0.1); }
+            .header { background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); color: white; padding: 40px 20px; text-align: center; }
+            .content { padding: 40px 30px; }
+            .button { display: inline-block; background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+            .footer { background-color: #f8fafc; padding: 20px; text-align: center; color: #666; font-size: 14px; }
+            .progress-card { background-color: #dbeafe; padding: 20px; border-radius: 8px; margin: 15px 0; }
+            .count { background-color: #fef3c7; padding: 2px 8px; border-radius: 6px; font-size: 13px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>🗞️ ${escapeHtml(data.title)}</h1>
+              <p>Everything since your last digest, in one place</p>
+            </div>
+            <div class="content">
+              <h2>Hi ${escapeHtml(data.name)}!</h2>
+
+              ${data.groups.map((group: any) => `
+                <div class="progress-card">
+                  <h3>${escapeHtml(group.icon || '🔔')} ${escapeHtml(group.title)}
+                    ${group.count > 1 ? `<span class="count">${group.count} updates</span>` : ''}</h3>
+                  <ul>
+                    ${group.messages.map((message: string) => `<li>${escapeHtml(message)}</li>`).join('')}
+                  </ul>
+                  ${group.actionUrl ? `<a href="${process.env.NEXT_PUBLIC_APP_URL}${escapeHtml(group.actionUrl)}">Take a look</a>` : ''}
+                </div>
+              `).join('')}
+
+              <a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard" class="button">Open Mintoons</a>
+
+              <p>You can choose how often digests come, for each kind of notification, in your profile settings.</p>
+
+              <p>Best regards,<br>The Mintoons Team</p>
+            </div>
+            <div class="footer">
+              <p>© ${new Date().getFullYear()} Mintoons. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+  },
 };
 
 // Core email sending function
@@ -406,38 +748,7 @@ export async function sendEmail(
   } = {}
 ): Promise<boolean> {
   try {
-    const transporter = await getTransporter();
-    const template = emailTemplates[type];
-    
-    if (!template) {
-      throw new Error(`Email template '${type}' not found`);
-    }
-
-    const recipients = Array.isArray(to) ? to : [to];
-    
-    // Validate email addresses
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    for (const email of recipients) {
-      if (!emailRegex.test(email)) {
-        throw new Error(`Invalid email address: ${email}`);
-      }
-    }
-
-    const mailOptions = {
-      from: `"Mintoons" <${process.env.SMTP_FROM || process.env.SMTP_USER}>`,
-      to: recipients.join(', '),
-      cc: options.cc ? (Array.isArray(options.cc) ? options.cc.join(', ') : options.cc) : undefined,
-      bcc: options.bcc ? (Array.isArray(options.bcc) ? options.bcc.join(', ') : options.bcc) : undefined,
-      subject: template.subject,
-      html: template.html(data),
-      attachments: options.attachments || [],
-    };
-
-    const result = await transporter.sendMail(mailOptions);
-    
-    // Log email sending (in production, you might want to store this in database)
-    console.log(`Email sent successfully to ${recipients.join(', ')}: ${result.messageId}`);
-    
+    await deliverEmail(to, type, data, options);
     return true;
   } catch (error) {
     console.error('Failed to send email:', error);
@@ -445,6 +756,63 @@ export async function sendEmail(
   }
 }
 
+// Send one email and return its message ID, throwing on failure so the
+// outbox can tell a rejected message from a server that's down
+async function deliverEmail(
+  to: string | string[],
+  type: EmailType,
+  data: any,
+  options: {
+    cc?: string | string[];
+    bcc?: string | string[];
+    attachments?: any[];
+  } = {}
+): Promise<string> {
+  const template = emailTemplates[type];
+  if (!template) {
+    throw new Error(`Email template '${type}' not found`);
+  }
+
+  const recipients = Array.isArray(to) ? to : [to];
+
+  // Validate email addresses
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  for (const email of recipients) {
+    if (!emailRegex.test(email)) {
+      throw new Error(`Invalid email address: ${email}`);
+    }
+  }
+
+  const transporter = await getTransporter();
+
+  const mailOptions = {
+    from: `"Mintoons" <${process.env.SMTP_FROM || process.env.SMTP_USER || 'noreply@mintoons.com'}>`,
+    to: recipients.join(', '),
+    cc: options.cc ? (Array.isArray(options.cc) ? options.cc.join(', ') : options.cc) : undefined,
+    bcc: options.bcc ? (Array.isArray(options.bcc) ? options.bcc.join(', ') : options.bcc) : undefined,
+    subject: data?.subject || template.subject,
+    html: template.html(data),
+    attachments: options.attachments || [],
+  };
+
+  const result = await transporter.sendMail(mailOptions);
+
+  if (process.env.EMAIL_TRANSPORT === 'local') {
+    localMailbox.push({
+      messageId: result.messageId,
+      to: recipients,
+      subject: mailOptions.subject,
+      html: mailOptions.html,
+      sentAt: new Date(),
+    });
+  }
+
+  // Log email sending (in production, you might want to store this in database)
+  console.log(`Email sent successfully to ${recipients.join(', ')}: ${result.messageId}`);
+
+  return result.messageId;
+}
+
 // Specific email functions
 export async function sendWelcomeEmail(userEmail: string, userName: string): Promise<boolean> {
   return await sendEmail(userEmail, 'welcome', {
@@ -465,6 +833,54 @@ export async function sendPasswordResetEmail(
   });
 }
 
+export async function sendParentalConsentEmail(
+  parentEmail: string,
+  consentData: {
+    childName: string;
+    childAge: number;
+    approveUrl: string;
+    denyUrl: string;
+    expiresAt: Date;
+  }
+): Promise<boolean> {
+  return await sendEmail(parentEmail, 'parentalConsent', consentData);
+}
+
+export async function sendChildLinkEmail(
+  parentEmail: string,
+  linkData: {
+    parentName: string;
+    childName: string;
+    confirmUrl: string;
+    expiresAt: Date;
+  }
+): Promise<boolean> {
+  return await sendEmail(parentEmail, 'childLinkConfirmation', linkData);
+}
+
+export async function sendDataExportReadyEmail(
+  userEmail: string,
+  exportData: {
+    name: string;
+    downloadUrl: string;
+    expiresAt: Date;
+  }
+): Promise<boolean> {
+  return await sendEmail(userEmail, 'dataExportReady', exportData);
+}
+
+export async function sendDataErasureReceiptEmail(
+  email: string,
+  receiptData: {
+    name: string;
+    counts: Record<string, number>;
+    completedAt: Date;
+    receiptHash: string;
+  }
+): Promise<boolean> {
+  return await sendEmail(email, 'dataErasureReceipt', receiptData);
+}
+
 export async function sendStoryCompletedEmail(
   userEmail: string,
   userName: string,
@@ -590,116 +1006,249 @@ export async function sendBulkEmail(
   return results;
 }
 
-// Email queue for better performance (basic implementation)
-interface EmailQueueItem {
-  id: string;
-  to: string | string[];
-  type: EmailType;
-  data: any;
-  options?: any;
-  attempts: number;
-  createdAt: Date;
-  scheduledFor?: Date;
-}
+// Email outbox. Queued mail is written to Mongo and sent by a single worker:
+// each server instance runs the loop, but only the one holding the outbox
+// lease sends, so a PM2 cluster sends every email once and mail queued
+// before a restart is still sent after it.
+const INSTANCE_ID = crypto.randomBytes(8).toString('hex');
+
+const OUTBOX_LEASE = 'email-outbox';
+const LEASE_TTL = 30 * 1000;
+const OUTBOX_POLL_INTERVAL = 5 * 1000;
+const OUTBOX_BATCH_SIZE = 20;
+const SEND_LOCK_TTL = 2 * 60 * 1000;
+const RETRY_BASE_DELAY = 60 * 1000;
+const RETRY_MAX_DELAY = 6 * 60 * 60 * 1000;
 
-const emailQueue: EmailQueueItem[] = [];
+// Lease held by the instance that drains the outbox
+const WorkerLeaseSchema = new mongoose.Schema({
+  _id: { type: String, required: true },
+  holder: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+});
+
+const WorkerLease = mongoose.models.WorkerLease || mongoose.model('WorkerLease', WorkerLeaseSchema);
+
+let outboxTimer: NodeJS.Timeout | null = null;
 let isProcessing = false;
 
 export async function queueEmail(
   to: string | string[],
   type: EmailType,
   data: any,
-  options: { delay?: number; [key: string]: any } = {}
+  options: {
+    delay?: number;
+    idempotencyKey?: string;
+    maxAttempts?: number;
+    cc?: string | string[];
+    bcc?: string | string[];
+  } = {}
 ): Promise<string> {
-  const queueItem: EmailQueueItem = {
-    id: generateEmailId(),
-    to,
+  if (!emailTemplates[type]) {
+    throw new Error(`Email template '${type}' not found`);
+  }
+
+  await connectToDatabase();
+
+  const entry = {
+    to: Array.isArray(to) ? to : [to],
     type,
     data,
-    options,
+    options: { cc: options.cc, bcc: options.bcc },
+    status: 'pending',
     attempts: 0,
-    createdAt: new Date(),
-    scheduledFor: options.delay ? new Date(Date.now() + options.delay) : new Date(),
+    ...(options.maxAttempts ? { maxAttempts: options.maxAttempts } : {}),
+    nextAttemptAt: new Date(Date.now() + (options.delay || 0)),
   };
 
-  emailQueue.push(queueItem);
-  
-  if (!isProcessing) {
-    processEmailQueue();
+  let id: string;
+  try {
+    if (options.idempotencyKey) {
+      // A repeat enqueue with the same key gets the first entry back untouched
+      const queued = await EmailOutbox.findOneAndUpdate(
+        { idempotencyKey: options.idempotencyKey },
+        { $setOnInsert: { ...entry, idempotencyKey: options.idempotencyKey } },
+        { upsert: true, new: true }
+      ).select('_id').lean();
+      id = String(queued!._id);
+    } else {
+      const queued = await EmailOutbox.create(entry);
+      id = String(queued._id);
+    }
+  } catch (error: any) {
+    // Two enqueues with the same key raced and the other insert won
+    if (error?.code !== 11000 || !options.idempotencyKey) {
+      throw error;
+    }
+    const existing = await EmailOutbox.findOne({ idempotencyKey: options.idempotencyKey }).select('_id').lean();
+    if (!existing) {
+      throw error;
+    }
+    id = String(existing._id);
   }
 
-  return queueItem.id;
+  startEmailOutboxWorker();
+  return id;
 }
 
-async function processEmailQueue(): Promise<void> {
-  if (isProcessing) return;
-  isProcessing = true;
+// Poll the outbox from this instance. Safe to call more than once.
+export function startEmailOutboxWorker(): void {
+  if (outboxTimer) return;
+  outboxTimer = setInterval(() => {
+    processEmailOutbox().catch(error => console.error('Email outbox run failed:', error));
+  }, OUTBOX_POLL_INTERVAL);
+  outboxTimer.unref();
+}
 
-  while (emailQueue.length > 0) {
-    const now = new Date();
-    const readyItems = emailQueue.filter(item => 
-      item.scheduledFor && item.scheduledFor <= now
-    );
+export function stopEmailOutboxWorker(): void {
+  if (outboxTimer) {
+    clearInterval(outboxTimer);
+    outboxTimer = null;
+  }
+}
 
-    if (readyItems.length === 0) {
-      // Wait a bit before checking again
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      continue;
+// Take the lease, or renew it when this instance already holds it. A
+// crashed holder's lease runs out and the next instance to poll takes over.
+async function acquireOutboxLease(): Promise<boolean> {
+  const now = new Date();
+  try {
+    const lease = await WorkerLease.findOneAndUpdate(
+      { _id: OUTBOX_LEASE, $or: [{ holder: INSTANCE_ID }, { expiresAt: { $lte: now } }] },
+      { $set: { holder: INSTANCE_ID, expiresAt: new Date(now.getTime() + LEASE_TTL) } },
+      { upsert: true, new: true }
+    ).lean();
+    return lease?.holder === INSTANCE_ID;
+  } catch (error: any) {
+    // The upsert collided with a live lease held by another instance
+    if (error?.code === 11000) {
+      return false;
     }
+    throw error;
+  }
+}
 
-    for (const item of readyItems) {
-      try {
-        const success = await sendEmail(item.to, item.type, item.data, item.options);
-        
-        if (success) {
-          // Remove from queue
-          const index = emailQueue.indexOf(item);
-          if (index > -1) {
-            emailQueue.splice(index, 1);
-          }
-        } else {
-          // Retry logic
-          item.attempts++;
-          if (item.attempts >= 3) {
-            // Remove after 3 failed attempts
-            const index = emailQueue.indexOf(item);
-            if (index > -1) {
-              emailQueue.splice(index, 1);
-            }
-            console.error(`Failed to send email after 3 attempts: ${item.id}`);
-          } else {
-            // Schedule retry in 5 minutes
-            item.scheduledFor = new Date(Date.now() + 5 * 60 * 1000);
-          }
-        }
-      } catch (error) {
-        console.error(`Error processing email queue item ${item.id}:`, error);
-        
-        item.attempts++;
-        if (item.attempts >= 3) {
-          const index = emailQueue.indexOf(item);
-          if (index > -1) {
-            emailQueue.splice(index, 1);
-          }
-        } else {
-          item.scheduledFor = new Date(Date.now() + 5 * 60 * 1000);
-        }
-      }
+// Delay before retry number `attempts`: 1, 2, 4, 8... minutes, capped at 6 hours
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** Math.max(0, attempts - 1));
+}
+
+// Failures that will fail the same way on every retry. SMTP 5xx replies
+// reject this message; a 5xx on login is a server setting, so it's retried.
+export function isPermanentFailure(error: any): boolean {
+  if (error?.code === 'EAUTH') {
+    return false;
+  }
+  if (typeof error?.responseCode === 'number') {
+    return error.responseCode >= 500;
+  }
+  const message = error instanceof Error ? error.message : '';
+  return message.startsWith('Invalid email address') || message.startsWith('Email template');
+}
+
+// Send due mail while this instance holds the lease. Returns how many sent.
+export async function processEmailOutbox(): Promise<number> {
+  if (isProcessing) return 0;
+  isProcessing = true;
+
+  try {
+    await connectToDatabase();
+
+    if (!(await acquireOutboxLease())) {
+      return 0;
     }
 
-    // Small delay between processing batches
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    let sent = 0;
+    for (let i = 0; i < OUTBOX_BATCH_SIZE; i++) {
+      const entry = await claimNextEmail();
+      if (!entry) break;
+      if (await sendOutboxEntry(entry)) sent++;
+    }
+    return sent;
+  } finally {
+    isProcessing = false;
   }
+}
+
+// Lock the next due entry. An entry left 'sending' past its lock belongs to
+// an instance that died mid-send and is tried again, so delivery is at
+// least once.
+async function claimNextEmail(): Promise<IEmailOutbox | null> {
+  const now = new Date();
+  return EmailOutbox.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', nextAttemptAt: { $lte: now } },
+        { status: 'sending', lockedUntil: { $lte: now } },
+      ],
+    },
+    {
+      $set: {
+        status: 'sending',
+        lockedBy: INSTANCE_ID,
+        lockedUntil: new Date(now.getTime() + SEND_LOCK_TTL),
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { nextAttemptAt: 1 }, new: true }
+  );
+}
+
+async function sendOutboxEntry(entry: IEmailOutbox): Promise<boolean> {
+  try {
+    const messageId = await deliverEmail(entry.to, entry.type as EmailType, entry.data, entry.options);
+    await EmailOutbox.updateOne(
+      { _id: entry._id, lockedBy: INSTANCE_ID },
+      {
+        $set: { status: 'sent', sentAt: new Date(), messageId },
+        $unset: { lockedBy: '', lockedUntil: '' },
+      }
+    );
+    return true;
+  } catch (error) {
+    const lastError = (error instanceof Error ? error.message : String(error)).substring(0, 1000);
+    const dead = isPermanentFailure(error) || entry.attempts >= entry.maxAttempts;
+
+    await EmailOutbox.updateOne(
+      { _id: entry._id, lockedBy: INSTANCE_ID },
+      {
+        $set: dead
+          ? { status: 'dead', deadAt: new Date(), lastError }
+          : { status: 'pending', nextAttemptAt: new Date(Date.now() + retryDelay(entry.attempts)), lastError },
+        $unset: { lockedBy: '', lockedUntil: '' },
+      }
+    );
 
-  isProcessing = false;
+    if (dead) {
+      console.error(`Email ${entry._id} dead-lettered after ${entry.attempts} attempt(s): ${lastError}`);
+    }
+    return false;
+  }
 }
 
-function generateEmailId(): string {
-  return `email_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+// Put dead-lettered mail back in the queue with a fresh set of attempts
+export async function retryDeadEmails(ids?: string[]): Promise<number> {
+  await connectToDatabase();
+
+  const result = await EmailOutbox.updateMany(
+    { status: 'dead', ...(ids ? { _id: { $in: ids } } : {}) },
+    {
+      $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date() },
+      $unset: { deadAt: '' },
+    }
+  );
+
+  if (result.modifiedCount > 0) {
+    startEmailOutboxWorker();
+  }
+  return result.modifiedCount;
 }
 
 // Email verification helpers
 export async function verifyEmailConnection(): Promise<boolean> {
+  if (process.env.EMAIL_TRANSPORT === 'local') {
+    return true;
+  }
+
   try {
     const transporter = await getTransporter();
     await transporter.verify();
@@ -710,19 +1259,46 @@ export async function verifyEmailConnection(): Promise<boolean> {
   }
 }
 
-export function getEmailQueueStatus(): {
+export async function getEmailQueueStatus(): Promise<{
   queueLength: number;
   isProcessing: boolean;
   oldestItem?: Date;
-} {
+  counts: Record<OutboxStatus, number>;
+  worker?: { instanceId: string; isThisInstance: boolean; leaseExpiresAt: Date };
+}> {
+  await connectToDatabase();
+
+  const [grouped, oldest, lease] = await Promise.all([
+    EmailOutbox.aggregate<{ _id: OutboxStatus; count: number }>([
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]),
+    EmailOutbox.findOne({ status: { $in: ['pending', 'sending'] } })
+      .sort({ createdAt: 1 })
+      .select('createdAt')
+      .lean(),
+    WorkerLease.findById(OUTBOX_LEASE).lean(),
+  ]);
+
+  const counts: Record<OutboxStatus, number> = { pending: 0, sending: 0, sent: 0, dead: 0 };
+  grouped.forEach(row => {
+    counts[row._id] = row.count;
+  });
+
+  const leaseIsLive = lease && new Date(lease.expiresAt) > new Date();
+
   return {
-    queueLength: emailQueue.length,
-    isProcessing,
-    oldestItem: emailQueue.length > 0 
-      ? emailQueue.reduce((oldest, item) => 
-          item.createdAt < oldest ? item.createdAt : oldest, 
-          emailQueue[0].createdAt
-        )
-      : undefined,
+    queueLength: counts.pending + counts.sending,
+    isProcessing: Boolean(leaseIsLive),
+    oldestItem: oldest?.createdAt,
+    counts,
+    ...(leaseIsLive
+      ? {
+          worker: {
+            instanceId: lease.holder,
+            isThisInstance: lease.holder === INSTANCE_ID,
+            leaseExpiresAt: lease.expiresAt,
+          },
+        }
+      : {}),
   };
-}
\ No newline at end of file
+}
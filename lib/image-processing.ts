@@ -0,0 +1,152 @@
+// lib/image-processing.ts - Re-encodes uploaded images to metadata-free WebP variants
+import sharp from 'sharp';
+import { uploadFile } from '@/utils/gridfs';
+
+export type ImagePurpose = 'illustration' | 'avatar';
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface StoredImageVariant {
+  width: number;
+  height: number;
+  fileId: string;
+}
+
+export const IMAGE_VARIANT_WIDTHS: Record<ImagePurpose, number[]> = {
+  illustration: [320, 640, 1280],
+  avatar: [64, 128, 256],
+};
+
+const PROCESSABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+// Refuse decompression bombs: a small file that expands to a huge bitmap
+const MAX_INPUT_PIXELS = 40 * 1000 * 1000;
+
+const WEBP_QUALITY = 80;
+
+// Signatures of the formats photos arrive in, checked before asking sharp
+const IMAGE_SIGNATURES: Array<{ type: string; matches: (data: Buffer) => boolean }> = [
+  { type: 'image/jpeg', matches: data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  { type: 'image/png', matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { type: 'image/gif', matches: data => ['GIF87a', 'GIF89a'].includes(data.toString('latin1', 0, 6)) },
+  { type: 'image/webp', matches: data => data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP' },
+  { type: 'image/tiff', matches: data => ['II*\0', 'MM\0*'].includes(data.toString('latin1', 0, 4)) },
+  { type: 'image/heif', matches: data => data.toString('latin1', 4, 8) === 'ftyp' && /^(?:hei[cx]|mif1|msf1|avi[fs])$/.test(data.toString('latin1', 8, 12)) },
+];
+
+// Formats sharp can render that are documents rather than photos
+const NON_PHOTO_FORMATS = ['pdf', 'svg'];
+
+export function isProcessableImage(contentType: string): boolean {
+  return PROCESSABLE_TYPES.includes(contentType);
+}
+
+// The image an upload really holds, whatever type it was declared as: a
+// known signature, else any photo format sharp can decode. Null when the
+// content isn't an image.
+export async function detectImageType(data: Buffer): Promise<string | null> {
+  const signature = IMAGE_SIGNATURES.find(({ matches }) => matches(data));
+  if (signature) {
+    return signature.type;
+  }
+
+  try {
+    const { format } = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+    return format && !NON_PHOTO_FORMATS.includes(format) ? `image/${format}` : null;
+  } catch {
+    return null;
+  }
+}
+
+// The widths to generate for a source image. Images are never enlarged, so a
+// source narrower than every target gets a single variant at its own width.
+export function planVariantWidths(sourceWidth: number, purpose: ImagePurpose): number[] {
+  const widths = IMAGE_VARIANT_WIDTHS[purpose].filter(width => width <= sourceWidth);
+  return widths.length > 0 ? widths : [sourceWidth];
+}
+
+// Smallest variant at least as wide as requested, else the largest available
+export function selectVariant<T extends { width: number }>(variants: T[], requestedWidth: number): T | null {
+  if (variants.length === 0) return null;
+
+  const sorted = [...variants].sort((a, b) => a.width - b.width);
+  return sorted.find(variant => variant.width >= requestedWidth) || sorted[sorted.length - 1];
+}
+
+// Decodes the upload once, applies the EXIF orientation, and writes each
+// variant as WebP. sharp drops EXIF, GPS, XMP and ICC metadata unless
+// withMetadata() is called, which it deliberately never is here.
+export async function processImage(
+  data: Buffer,
+  purpose: ImagePurpose = 'illustration'
+): Promise<ImageVariant[]> {
+  const source = sharp(data, { limitInputPixels: MAX_INPUT_PIXELS, failOn: 'error' }).rotate();
+  const metadata = await source.metadata();
+
+  if (!metadata.width || !metadata.height) {
+    throw new Error('Could not read image dimensions');
+  }
+
+  // EXIF orientations 5-8 are quarter turns, so width and height swap
+  const sourceWidth = (metadata.orientation || 1) >= 5 ? metadata.height : metadata.width;
+
+  const variants: ImageVariant[] = [];
+
+  for (const width of planVariantWidths(sourceWidth, purpose)) {
+    const { data: output, info } = await source
+      .clone()
+      .resize({ width, withoutEnlargement: true })
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+
+    variants.push({ width: info.width, height: info.height, data: output });
+  }
+
+  return variants;
+}
+
+export function toWebPFilename(filename: string): string {
+  const base = filename.includes('.') ? filename.slice(0, filename.lastIndexOf('.')) : filename;
+  return `${base || 'image'}.webp`;
+}
+
+// Stores every variant and returns the largest as the file clients link to.
+// Its metadata lists the others so GET /api/files/[id]?width= can pick one.
+// The original upload, with whatever metadata it carried, is never stored.
+export async function storeImageVariants(
+  variants: ImageVariant[],
+  filename: string,
+  options: { ownerId: string; purpose: ImagePurpose }
+): Promise<{ fileId: string; variants: StoredImageVariant[]; size: number }> {
+  const sorted = [...variants].sort((a, b) => a.width - b.width);
+  const largest = sorted[sorted.length - 1];
+  const webpName = toWebPFilename(filename);
+
+  const stored: StoredImageVariant[] = [];
+  for (const variant of sorted.slice(0, -1)) {
+    const fileId = await uploadFile(variant.data, webpName, 'image/webp', {
+      ownerId: options.ownerId,
+      metadata: { purpose: options.purpose, variantWidth: variant.width },
+    });
+    stored.push({ width: variant.width, height: variant.height, fileId });
+  }
+
+  const fileId = await uploadFile(largest.data, webpName, 'image/webp', {
+    ownerId: options.ownerId,
+    metadata: {
+      purpose: options.purpose,
+      variantWidth: largest.width,
+      variants: [...stored, { width: largest.width, height: largest.height }],
+    },
+  });
+
+  return {
+    fileId,
+    variants: [...stored, { width: largest.width, height: largest.height, fileId }],
+    size: sorted.reduce((total, variant) => total + variant.data.length, 0),
+  };
+}
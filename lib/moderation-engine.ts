@@ -0,0 +1,306 @@
+// lib/moderation-engine.ts - Local, rule-based content moderation that works offline
+import type { ContentModerationResult } from '@/lib/content-filter';
+import { AgeGroup } from '@/types/auth';
+
+export type ModerationSeverity = 'low' | 'medium' | 'high';
+
+export interface ModerationFinding {
+  category: string;
+  severity: ModerationSeverity;
+  match: string;
+  suggestion?: string;
+}
+
+export interface ModerationContext {
+  ageGroup: AgeGroup;
+  raw: string; // original text, for patterns that need digits and punctuation
+  normalized: string; // lowercased, leetspeak undone, repeated letters collapsed
+  stems: string[]; // stemmed words of the normalized text
+}
+
+// A rule inspects the prepared text and reports what it finds. Register
+// extra rules with ModerationEngine.addRule to extend the pipeline.
+export interface ModerationRule {
+  name: string;
+  check: (context: ModerationContext) => ModerationFinding[];
+}
+
+export interface WordListEntry {
+  words: string[];
+  category: string;
+  severity: ModerationSeverity;
+}
+
+export type WordLists = Record<AgeGroup, WordListEntry[]>;
+
+export const AGE_GROUPS: AgeGroup[] = ['2-5', '6-8', '9-12', '13-15', '16-18'];
+
+// Used when the writer's age is unknown
+const DEFAULT_AGE_GROUP: AgeGroup = '6-8';
+
+const SEVERITY_ORDER: Record<ModerationSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+// Default word lists; younger age groups get the stricter combinations below
+const STRONG_LANGUAGE: WordListEntry = {
+  words: ['fuck', 'shit', 'bitch', 'bastard', 'asshole', 'cunt', 'piss', 'slut', 'whore'],
+  category: 'inappropriate_language',
+  severity: 'high',
+};
+
+const MILD_LANGUAGE: WordListEntry = {
+  words: ['damn', 'crap', 'hell', 'fart', 'idiot', 'stupid', 'dumb', 'shut up'],
+  category: 'inappropriate_language',
+  severity: 'medium',
+};
+
+const MATURE_THEMES: WordListEntry = {
+  words: ['drunk', 'beer', 'vodka', 'cigarette', 'vape', 'drug', 'cocaine', 'marijuana', 'sexy', 'naked'],
+  category: 'mature_themes',
+  severity: 'medium',
+};
+
+const GRAPHIC_VIOLENCE: WordListEntry = {
+  words: ['gore', 'murder', 'stab', 'behead', 'torture', 'massacre', 'bloody corpse'],
+  category: 'violence',
+  severity: 'medium',
+};
+
+// Scary but common in adventure stories - only worth a gentle note for the youngest writers
+const SCARY_WORDS: WordListEntry = {
+  words: ['kill', 'blood', 'gun', 'dead', 'knife', 'weapon'],
+  category: 'violence',
+  severity: 'low',
+};
+
+export const DEFAULT_WORD_LISTS: WordLists = {
+  '2-5': [STRONG_LANGUAGE, MILD_LANGUAGE, MATURE_THEMES, GRAPHIC_VIOLENCE, SCARY_WORDS],
+  '6-8': [STRONG_LANGUAGE, MILD_LANGUAGE, MATURE_THEMES, GRAPHIC_VIOLENCE, SCARY_WORDS],
+  '9-12': [STRONG_LANGUAGE, MILD_LANGUAGE, MATURE_THEMES, GRAPHIC_VIOLENCE],
+  '13-15': [STRONG_LANGUAGE, MATURE_THEMES],
+  '16-18': [STRONG_LANGUAGE],
+};
+
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'i', '+': 't', '€': 'e',
+};
+
+// Undo common tricks used to sneak words past a filter: leetspeak, letters
+// split by dots or dashes, and stretched letters ("stuuupid"). Double letters
+// are collapsed too, so word lists are compared in the same collapsed form.
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[0-9@$!|+€]/g, (char, offset, whole) => {
+      const prev = whole[offset - 1] || ' ';
+      const next = whole[offset + 1] || ' ';
+      // Keep real numbers ("3 dragons") and sentence punctuation ("Wow!")
+      const insideWord = /[0-9]/.test(char)
+        ? /[a-z]/.test(prev) || /[a-z]/.test(next)
+        : /[a-z]/.test(next);
+      return insideWord ? LEET_MAP[char] : char;
+    })
+    .replace(/\b([a-z])(?:[.\-_*]([a-z]))+\b/g, match => match.replace(/[.\-_*]/g, ''))
+    .replace(/([a-z])\1{2,}/g, '$1$1')
+    .replace(/([a-z])\1/g, '$1');
+}
+
+// Light suffix stripping so "teasing", "teased" and "teases" share a stem
+export function stemWord(word: string): string {
+  const rules: Array<[RegExp, string]> = [
+    [/ies$/, 'y'],
+    [/ied$/, 'y'],
+    [/(.{3,})ing$/, '$1'],
+    [/(.{3,})ed$/, '$1'],
+    [/(.{3,})er$/, '$1'],
+    [/(.{3,})est$/, '$1'],
+    [/(.{3,})ly$/, '$1'],
+    [/(.{3,})es$/, '$1'],
+    [/(.{3,}[^s])s$/, '$1'],
+  ];
+
+  for (const [pattern, replacement] of rules) {
+    if (pattern.test(word)) {
+      return word.replace(pattern, replacement);
+    }
+  }
+  return word;
+}
+
+function stemPhrase(phrase: string): string {
+  return normalizeText(phrase).split(/\s+/).map(stemWord).join(' ');
+}
+
+function containsStemSequence(stems: string[], phrase: string[]): boolean {
+  for (let i = 0; i <= stems.length - phrase.length; i++) {
+    if (phrase.every((stem, j) => stems[i + j] === stem)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Personal information children should never publish
+const PII_PATTERNS: Array<{ name: string; pattern: RegExp; validate?: (match: string) => boolean }> = [
+  { name: 'phone', pattern: /(?:\+?\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/ },
+  { name: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/ },
+  // A house number, one to three capitalised words and a street suffix, on
+  // one line: "12 Oak Tree Lane", not "2 dragons flew all the way home"
+  {
+    name: 'address',
+    pattern: /\b\d{1,5}[ \t]+[A-Z][a-z]+(?:[ \t]+[A-Z][a-z]+){0,2}[ \t]+(?:[Ss]treet|[Aa]venue|[Rr]oad|[Ll]ane|[Dd]rive|[Cc]ourt|[Bb]oulevard|[Ww]ay|St|Ave|Rd|Ln|Dr|Ct|Blvd)\b/,
+  },
+  { name: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/ },
+  {
+    name: 'card_number',
+    pattern: /\b(?:\d[ -]?){13,19}\b/,
+    validate: match => luhnValid(match.replace(/\D/g, '')),
+  },
+  { name: 'ip_address', pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/ },
+  { name: 'postcode', pattern: /\b(?:zip|postcode|post code|postal code)\s*(?:is|:)?\s*[A-Z0-9]{3,}(?:[\s-][A-Z0-9]{3,4})?\b/i },
+  { name: 'social_handle', pattern: /\b(?:snapchat|snap|instagram|insta|tiktok|discord|whatsapp|kik|roblox)\b[^.\n]{0,15}?(?:is|:|@)\s*@?[A-Za-z0-9_.]{3,}/i },
+  { name: 'website', pattern: /\b(?:https?:\/\/|www\.)\S+/i },
+  { name: 'home_location', pattern: /\bi\s+live\s+(?:at|on)\s+\d/i },
+  { name: 'school', pattern: /\bi\s+(?:go\s+to|attend)\s+[A-Z][A-Za-z]*(?:\s+[A-Z][A-Za-z]*)*\s+(?:Elementary|Primary|Middle|High|Junior)?\s*School\b/ },
+];
+
+// Phrases that suggest a child may be at risk. Always high severity so a
+// trusted adult reviews them, even inside a piece of fiction.
+const SELF_HARM_PHRASES = [
+  'kill myself', 'killing myself', 'want to die', 'wanna die', 'wish i was dead', 'wish i were dead',
+  'hurt myself', 'hurting myself', 'cut myself', 'cutting myself', 'end my life', 'suicide',
+  'no reason to live', 'better off dead', 'better off without me', 'hate my life',
+];
+
+const BULLYING_PATTERNS: Array<{ pattern: RegExp; severity: ModerationSeverity }> = [
+  { pattern: /\b(?:go\s+)?kil+\s+yourself\b|\bkys\b/, severity: 'high' },
+  { pattern: /\b(?:go\s+)?die\s+in\s+a\s+(?:hole|fire)\b/, severity: 'high' },
+  { pattern: /\b(?:you(?:'re|\s+are)?|ur|u\s+r)\s+(?:so\s+|such\s+an?\s+|an?\s+)?(?:stupid|ugly|fat|dumb|worthles|loser|idiot|fre?ak|pathetic|useles)\b/, severity: 'medium' },
+  { pattern: /\b(?:nobody|no\s+one|no-one)\s+(?:likes|loves|wants|cares\s+about)\s+(?:you|u)\b/, severity: 'medium' },
+  { pattern: /\b(?:everyone|everybody)\s+hates\s+(?:you|u)\b/, severity: 'medium' },
+  { pattern: /\byou\s+(?:should|shuld)\s+(?:just\s+)?(?:disapear|leave|go\s+away)\b/, severity: 'medium' },
+];
+
+const wordListRule = (lists: WordLists): ModerationRule => ({
+  name: 'word_lists',
+  check: ({ ageGroup, stems }) => {
+    const findings: ModerationFinding[] = [];
+
+    for (const entry of lists[ageGroup] || []) {
+      for (const word of entry.words) {
+        if (containsStemSequence(stems, stemPhrase(word).split(' '))) {
+          findings.push({
+            category: entry.category,
+            severity: entry.severity,
+            match: word,
+            suggestion: `Consider replacing "${word}" with more age-appropriate language`,
+          });
+        }
+      }
+    }
+    return findings;
+  },
+});
+
+const personalInformationRule: ModerationRule = {
+  name: 'personal_information',
+  check: ({ raw }) => PII_PATTERNS
+    .filter(({ pattern, validate }) => {
+      const match = raw.match(pattern);
+      return match && (!validate || validate(match[0]));
+    })
+    .map(({ name }) => ({
+      category: 'personal_information',
+      severity: 'medium' as const,
+      match: name,
+      suggestion: 'Remove personal information to protect privacy',
+    })),
+};
+
+const selfHarmRule: ModerationRule = {
+  name: 'self_harm',
+  check: ({ normalized }) => SELF_HARM_PHRASES
+    .filter(phrase => new RegExp(`\\b${normalizeText(phrase)}\\b`).test(normalized))
+    .map(phrase => ({
+      category: 'self_harm',
+      severity: 'high' as const,
+      match: phrase,
+      suggestion: 'If you are feeling this way, please talk to a parent, teacher or another adult you trust',
+    })),
+};
+
+const bullyingRule: ModerationRule = {
+  name: 'bullying',
+  check: ({ normalized }) => BULLYING_PATTERNS
+    .filter(({ pattern }) => pattern.test(normalized))
+    .map(({ pattern, severity }) => ({
+      category: 'bullying',
+      severity,
+      match: pattern.source,
+      suggestion: 'Use kind words - stories here should make everyone feel welcome',
+    })),
+};
+
+export function ageGroupForAge(age?: number): AgeGroup {
+  if (age === undefined) return DEFAULT_AGE_GROUP;
+  if (age <= 5) return '2-5';
+  if (age <= 8) return '6-8';
+  if (age <= 12) return '9-12';
+  if (age <= 15) return '13-15';
+  return '16-18';
+}
+
+export class ModerationEngine {
+  private rules: ModerationRule[];
+
+  constructor(wordLists: WordLists = DEFAULT_WORD_LISTS) {
+    this.rules = [wordListRule(wordLists), personalInformationRule, selfHarmRule, bullyingRule];
+  }
+
+  addRule(rule: ModerationRule): void {
+    this.rules = [...this.rules.filter(existing => existing.name !== rule.name), rule];
+  }
+
+  inspect(content: string, ageGroup: AgeGroup = DEFAULT_AGE_GROUP): ModerationFinding[] {
+    const normalized = normalizeText(content);
+    const context: ModerationContext = {
+      ageGroup,
+      raw: content,
+      normalized,
+      stems: (normalized.match(/[a-z']+/g) || []).map(stemWord),
+    };
+
+    return this.rules.flatMap(rule => rule.check(context));
+  }
+
+  // Low severity findings are reported but do not make content inappropriate
+  moderate(content: string, ageGroup: AgeGroup = DEFAULT_AGE_GROUP): ContentModerationResult {
+    const findings = this.inspect(content, ageGroup);
+    const severity = findings.reduce<ModerationSeverity>(
+      (max, finding) => SEVERITY_ORDER[finding.severity] > SEVERITY_ORDER[max] ? finding.severity : max,
+      'low'
+    );
+
+    return {
+      isAppropriate: !findings.some(finding => SEVERITY_ORDER[finding.severity] >= SEVERITY_ORDER.medium),
+      flaggedCategories: Array.from(new Set(findings.map(finding => finding.category))),
+      severity,
+      suggestions: Array.from(new Set(findings.map(finding => finding.suggestion).filter((s): s is string => !!s))),
+    };
+  }
+}
+
+export const moderationEngine = new ModerationEngine();
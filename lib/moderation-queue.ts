@@ -0,0 +1,381 @@
+// lib/moderation-queue.ts - Moderation case workflow shared by the admin queue and appeal routes
+import { NextRequest } from 'next/server';
+import { connectToDatabase } from '@/utils/db';
+import ModerationCase, { IModerationCase } from '@/models/ModerationCase';
+import Story from '@/models/Story';
+import Comment from '@/models/Comment';
+import Notification from '@/models/Notification';
+import { SecurityLogger } from '@/lib/security';
+import { ContentFilter, ContentModerationResult } from '@/lib/content-filter';
+import { AgeGroup } from '@/types/auth';
+import {
+  ModerationTargetType,
+  ModerationCaseStatus,
+  ModerationCaseSource,
+  ModerationCaseSeverity,
+  ModerationDecisionType,
+} from '@/types/story';
+
+// Hours a case may wait for a moderator decision
+export const MODERATION_SLA_HOURS: Record<ModerationCaseSeverity, number> = {
+  critical: 1,
+  high: 4,
+  medium: 24,
+  low: 72,
+};
+
+export const APPEAL_SLA_HOURS = 48;
+
+const SEVERITY_RANK: Record<ModerationCaseSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+type WorkflowResult = { moderationCase: IModerationCase } | { error: string; status: number };
+
+export function calculateDueAt(severity: ModerationCaseSeverity, from: Date = new Date()): Date {
+  return new Date(from.getTime() + MODERATION_SLA_HOURS[severity] * 60 * 60 * 1000);
+}
+
+// ContentFilter tops out at 'high'; self-harm goes straight to the front of the queue
+export function caseSeverityFor(moderation: ContentModerationResult): ModerationCaseSeverity {
+  if (moderation.flaggedCategories.includes('self_harm')) {
+    return 'critical';
+  }
+  return moderation.severity;
+}
+
+// Where a decision moves a case, or null when the case no longer takes decisions
+export function nextCaseStatus(
+  status: ModerationCaseStatus,
+  decision: ModerationDecisionType
+): ModerationCaseStatus | null {
+  if (status === 'resolved' || status === 'closed') {
+    return null;
+  }
+
+  if (decision === 'escalate') {
+    return status === 'appealed' ? 'appealed' : 'in_review';
+  }
+
+  // An appeal decision is final
+  return status === 'appealed' ? 'closed' : 'resolved';
+}
+
+// Only a rejection can be appealed, and only once
+export function canAppeal(moderationCase: Pick<IModerationCase, 'status' | 'decisions' | 'appeal'>): boolean {
+  if (moderationCase.status !== 'resolved' || moderationCase.appeal) {
+    return false;
+  }
+
+  const lastDecision = moderationCase.decisions[moderationCase.decisions.length - 1];
+  return lastDecision?.decision === 'reject';
+}
+
+// Open a case for flagged content, or fold the new flags into the case already open for it
+export async function openModerationCase(options: {
+  targetType: ModerationTargetType;
+  targetId: string;
+  storyId: string;
+  authorId: string;
+  content: string;
+  moderation: ContentModerationResult;
+  source?: ModerationCaseSource;
+}): Promise<IModerationCase> {
+  await connectToDatabase();
+
+  const severity = caseSeverityFor(options.moderation);
+  const existing = await ModerationCase.findActiveForTarget(options.targetType, options.targetId);
+
+  if (existing) {
+    existing.flaggedCategories = Array.from(
+      new Set([...existing.flaggedCategories, ...options.moderation.flaggedCategories])
+    );
+    existing.excerpt = options.content.slice(0, 500);
+
+    if (SEVERITY_RANK[severity] > SEVERITY_RANK[existing.severity]) {
+      existing.severity = severity;
+      const dueAt = calculateDueAt(severity, existing.createdAt);
+      if (dueAt < existing.dueAt) {
+        existing.dueAt = dueAt;
+      }
+    }
+
+    await existing.save();
+    return existing;
+  }
+
+  return ModerationCase.create({
+    targetType: options.targetType,
+    targetId: options.targetId,
+    storyId: options.storyId,
+    targetAuthorId: options.authorId,
+    excerpt: options.content.slice(0, 500),
+    source: options.source || 'content_filter',
+    flaggedCategories: options.moderation.flaggedCategories,
+    severity,
+    dueAt: calculateDueAt(severity),
+  });
+}
+
+// Run content through ContentFilter and queue anything it flags. Stories the
+// filter considers inappropriate are hidden until a moderator decides.
+export async function screenContent(options: {
+  targetType: ModerationTargetType;
+  targetId: string;
+  storyId: string;
+  authorId: string;
+  content: string;
+  ageGroup?: AgeGroup;
+}): Promise<IModerationCase | null> {
+  const moderation = await new ContentFilter().moderateContent(options.content, options.ageGroup);
+
+  if (moderation.flaggedCategories.length === 0) {
+    return null;
+  }
+
+  const moderationCase = await openModerationCase({ ...options, moderation });
+
+  if (!moderation.isAppropriate && options.targetType === 'story') {
+    await holdPendingReview(moderationCase);
+  }
+
+  return moderationCase;
+}
+
+// Take the flagged content out of view until a moderator approves it
+async function holdTarget(moderationCase: IModerationCase, moderatorId?: string, reason?: string) {
+  if (moderationCase.hold?.active) return;
+
+  if (moderationCase.targetType === 'story') {
+    const story = await Story.findById(moderationCase.targetId);
+    if (!story) return;
+
+    moderationCase.hold = { active: true, isPublic: story.isPublic, status: story.status };
+    story.isPublic = false;
+    if (story.status === 'published') {
+      story.status = 'completed';
+    }
+    await story.save();
+  } else {
+    // Comments come from mentors, so they are only hidden by a moderator's decision
+    const comment = await Comment.findById(moderationCase.targetId);
+    if (!comment || !moderatorId) return;
+
+    moderationCase.hold = { active: true };
+    if (!comment.isHidden) {
+      await comment.hide(reason || 'Removed by moderation', moderatorId);
+    }
+  }
+}
+
+// Put held content back as it was. False when nothing was held.
+async function releaseTarget(moderationCase: IModerationCase): Promise<boolean> {
+  if (!moderationCase.hold?.active) return false;
+
+  if (moderationCase.targetType === 'story') {
+    const story = await Story.findById(moderationCase.targetId);
+    if (story) {
+      story.isPublic = moderationCase.hold.isPublic ?? story.isPublic;
+      if (moderationCase.hold.status) {
+        story.status = moderationCase.hold.status as typeof story.status;
+      }
+      await story.save();
+    }
+  } else {
+    const comment = await Comment.findById(moderationCase.targetId);
+    if (comment?.isHidden) {
+      await comment.unhide();
+    }
+  }
+
+  moderationCase.hold = { active: false };
+  return true;
+}
+
+// Hide a story as soon as its case is opened, before anyone has reviewed it
+export async function holdPendingReview(moderationCase: IModerationCase) {
+  await holdTarget(moderationCase);
+  await moderationCase.save();
+}
+
+export async function applyModerationDecision(
+  req: NextRequest,
+  moderationCase: IModerationCase,
+  decision: ModerationDecisionType,
+  moderatorId: string,
+  reason?: string
+): Promise<WorkflowResult> {
+  const previousStatus = moderationCase.status;
+  const newStatus = nextCaseStatus(previousStatus, decision);
+
+  if (!newStatus) {
+    return { error: `Case is already ${previousStatus}`, status: 409 };
+  }
+
+  const onAppeal = previousStatus === 'appealed';
+  const now = new Date();
+  let released = false;
+
+  if (decision === 'reject') {
+    await holdTarget(moderationCase, moderatorId, reason);
+  } else if (decision === 'approve') {
+    released = await releaseTarget(moderationCase);
+  } else {
+    // Escalations jump the queue and go back to the senior pool
+    moderationCase.escalated = true;
+    moderationCase.severity = 'critical';
+    moderationCase.assignee = undefined;
+    moderationCase.assignedAt = undefined;
+    const dueAt = calculateDueAt('critical', now);
+    if (dueAt < moderationCase.dueAt) {
+      moderationCase.dueAt = dueAt;
+    }
+  }
+
+  moderationCase.decisions.push({
+    decision,
+    reason,
+    decidedBy: moderatorId,
+    previousStatus,
+    newStatus,
+    onAppeal,
+    decidedAt: now,
+  });
+  moderationCase.status = newStatus;
+  moderationCase.firstResponseAt = moderationCase.firstResponseAt || now;
+
+  if (newStatus === 'resolved' || newStatus === 'closed') {
+    moderationCase.resolvedAt = now;
+  }
+
+  if (onAppeal && decision !== 'escalate' && moderationCase.appeal) {
+    moderationCase.appeal.outcome = decision === 'approve' ? 'overturned' : 'upheld';
+    moderationCase.appeal.resolvedAt = now;
+  }
+
+  await moderationCase.save();
+
+  await SecurityLogger.logEvent(
+    'moderation_decision',
+    req,
+    {
+      caseId: moderationCase._id.toString(),
+      targetType: moderationCase.targetType,
+      targetId: moderationCase.targetId.toString(),
+      decision,
+      reason,
+      previousStatus,
+      newStatus,
+      onAppeal,
+      flaggedCategories: moderationCase.flaggedCategories,
+    },
+    moderatorId,
+    decision === 'escalate' ? 'high' : decision === 'reject' ? 'medium' : 'low'
+  );
+
+  if (decision !== 'escalate') {
+    await notifyAuthor(moderationCase, decision, onAppeal, released);
+  }
+
+  return { moderationCase };
+}
+
+export async function fileAppeal(
+  req: NextRequest,
+  moderationCase: IModerationCase,
+  requester: { id: string },
+  requesterRole: 'child' | 'parent',
+  reason: string
+): Promise<WorkflowResult> {
+  if (!canAppeal(moderationCase)) {
+    return { error: 'This decision cannot be appealed', status: 409 };
+  }
+
+  const now = new Date();
+
+  moderationCase.appeal = {
+    requestedBy: requester.id,
+    requesterRole,
+    reason,
+    requestedAt: now,
+  };
+  moderationCase.status = 'appealed';
+  moderationCase.dueAt = new Date(now.getTime() + APPEAL_SLA_HOURS * 60 * 60 * 1000);
+  moderationCase.resolvedAt = undefined;
+  moderationCase.assignee = undefined;
+  moderationCase.assignedAt = undefined;
+
+  await moderationCase.save();
+
+  await SecurityLogger.logEvent(
+    'moderation_decision',
+    req,
+    {
+      caseId: moderationCase._id.toString(),
+      targetType: moderationCase.targetType,
+      targetId: moderationCase.targetId.toString(),
+      decision: 'appeal',
+      requesterRole,
+    },
+    requester.id,
+    'low'
+  );
+
+  return { moderationCase };
+}
+
+// What to tell the author about a decision, or null when there is nothing
+// to tell: approving content that was never hidden
+export function authorNoticeFor(
+  targetType: 'story' | 'comment',
+  decision: 'approve' | 'reject',
+  onAppeal: boolean,
+  released: boolean
+): { title: string; message: string } | null {
+  if (decision === 'approve') {
+    if (!onAppeal && !released) return null;
+    return {
+      title: `Your ${targetType} is back`,
+      message: onAppeal
+        ? `We looked at your appeal and your ${targetType} can be shared again.`
+        : `We checked your ${targetType} and it can be shared again.`,
+    };
+  }
+
+  let message = onAppeal
+    ? `We looked at your appeal again, but your ${targetType} still can't be shared.`
+    : `Your ${targetType} was hidden because it may not be right for everyone.`;
+  if (!onAppeal && targetType === 'story') {
+    message += ' You or your parent can ask us to look again.';
+  }
+  return { title: `Your ${targetType} needs some changes`, message };
+}
+
+async function notifyAuthor(
+  moderationCase: IModerationCase,
+  decision: 'approve' | 'reject',
+  onAppeal: boolean,
+  released: boolean
+) {
+  const target = moderationCase.targetType === 'story' ? 'story' : 'comment';
+  const notice = authorNoticeFor(target, decision, onAppeal, released);
+  if (!notice) return;
+
+  try {
+    await Notification.create({
+      userId: moderationCase.targetAuthorId,
+      type: 'content_moderation',
+      title: notice.title,
+      message: notice.message,
+      data: { caseId: moderationCase._id.toString(), decision },
+      actionUrl: `/my-stories/${moderationCase.storyId}`,
+      deliveryMethod: 'in_app',
+      variant: decision === 'reject' ? 'warning' : 'success',
+    });
+  } catch (error) {
+    console.error('Failed to notify author of moderation decision:', error);
+  }
+}
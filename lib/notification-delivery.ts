@@ -0,0 +1,434 @@
+// lib/notification-delivery.ts - Sends stored notifications live, by email and by Web Push
+import { connectToDatabase } from '@/utils/db';
+import Notification, { ChannelDelivery, DeliveryChannel, INotification } from '@/models/Notification';
+import User from '@/models/User';
+import PushSubscription from '@/models/PushSubscription';
+import { REALTIME_TRANSPORT, publishNotification } from '@/lib/pusher';
+import { queueEmail } from '@/lib/email';
+import { PushUrgency, isWebPushConfigured, sendWebPush } from '@/lib/web-push';
+import { isAllowedPushEndpoint } from '@/lib/push-endpoints';
+import { DigestGroup, digestFrequencyFor, heldExpiry, sendDueDigests } from '@/lib/notification-digests';
+import { NotificationType } from '@/types/user';
+import { QuietHours, UserPreferences } from '@/types/auth';
+
+type RecipientUser = {
+  name: string;
+  email?: string;
+  preferences?: Partial<UserPreferences>;
+};
+
+type ChannelOutcome = { status: 'sent' | 'skipped'; detail: string };
+
+const WORKER_POLL_INTERVAL = 5 * 1000;
+const WORKER_BATCH_SIZE = 50;
+const DELIVERY_LOCK = 60 * 1000;
+const DIGEST_CHECK_INTERVAL = 60 * 1000;
+
+// A failed channel is tried this many times, a minute apart and then longer
+export const MAX_CHANNEL_ATTEMPTS = 3;
+const RETRY_DELAY = 60 * 1000;
+
+// A live pop-up for something this old is noise; it's in the list anyway
+const REALTIME_MAX_AGE = 60 * 60 * 1000;
+
+const METHOD_CHANNELS: Record<INotification['deliveryMethod'], DeliveryChannel[]> = {
+  in_app: ['realtime'],
+  email: ['email'],
+  push: ['push'],
+  all: ['realtime', 'email', 'push'],
+};
+
+// The emailNotifications switch that covers each type. Types without one
+// are about the account itself and are always sent.
+const EMAIL_PREFERENCES: Partial<Record<NotificationType, keyof UserPreferences['emailNotifications']>> = {
+  story_completed: 'storyCompleted',
+  story_published: 'storyCompleted',
+  story_assessed: 'storyCompleted',
+  mentor_comment: 'mentorComments',
+  achievement_unlocked: 'achievements',
+  stage_promoted: 'achievements',
+  progress_milestone: 'achievements',
+};
+
+const PUSH_URGENCY: Record<INotification['priority'], PushUrgency> = {
+  low: 'low',
+  normal: 'normal',
+  high: 'high',
+  urgent: 'high',
+};
+
+export function channelsFor(method: INotification['deliveryMethod']): DeliveryChannel[] {
+  return METHOD_CHANNELS[method] || METHOD_CHANNELS.in_app;
+}
+
+export function emailAllowed(type: NotificationType, preferences?: Partial<UserPreferences>): boolean {
+  const key = EMAIL_PREFERENCES[type];
+  return !key || preferences?.emailNotifications?.[key] !== false;
+}
+
+function minutesOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// When the writer's quiet hours end, or null if they aren't in them now.
+// Windows may cross midnight (20:00-07:00). An unknown timezone counts as
+// no quiet hours, so a bad setting can't hold notifications forever.
+export function quietHoursEnd(quietHours: QuietHours | undefined, now: Date): Date | null {
+  if (!quietHours?.enabled || !quietHours.start || !quietHours.end) {
+    return null;
+  }
+
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  if (start === end) {
+    return null;
+  }
+
+  let local: number;
+  try {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: quietHours.timezone || 'UTC',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+    local = Number(parts.find(part => part.type === 'hour')!.value) * 60
+      + Number(parts.find(part => part.type === 'minute')!.value);
+  } catch {
+    return null;
+  }
+
+  const inside = start < end ? local >= start && local < end : local >= start || local < end;
+  if (!inside) {
+    return null;
+  }
+
+  const minutesLeft = (end - local + 24 * 60) % (24 * 60);
+  const endsAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  endsAt.setUTCSeconds(0, 0);
+  return endsAt;
+}
+
+// The notification's overall state from its channels: still pending while
+// any channel waits out quiet hours or has retries left, failed when
+// nothing got through, delivered otherwise
+export function summarizeDeliveries(
+  deliveries: ChannelDelivery[],
+  now: Date,
+  quietUntil: Date | null
+): Pick<INotification, 'deliveryStatus'> & Partial<Pick<INotification, 'scheduledFor' | 'deliveredAt' | 'deliveryError'>> {
+  const errors = deliveries
+    .filter(delivery => delivery.status === 'failed')
+    .map(delivery => `${delivery.channel}: ${delivery.error}`);
+  const deliveryError = errors.length > 0 ? errors.join('; ') : undefined;
+
+  const waits: number[] = [];
+  if (quietUntil && deliveries.some(delivery => delivery.status === 'deferred')) {
+    waits.push(quietUntil.getTime());
+  }
+  deliveries
+    .filter(delivery => delivery.status === 'failed' && delivery.attempts < MAX_CHANNEL_ATTEMPTS)
+    .forEach(delivery => waits.push(now.getTime() + RETRY_DELAY * delivery.attempts));
+
+  if (waits.length > 0) {
+    return { deliveryStatus: 'pending', scheduledFor: new Date(Math.min(...waits)), deliveryError };
+  }
+
+  const nothingSent = deliveries.every(delivery => delivery.status !== 'sent');
+  if (nothingSent && errors.length > 0) {
+    return { deliveryStatus: 'failed', deliveryError };
+  }
+
+  return { deliveryStatus: 'delivered', deliveredAt: now, deliveryError };
+}
+
+async function sendRealtime(notification: INotification, _user: RecipientUser, now: Date): Promise<ChannelOutcome> {
+  const createdAt = (notification.scheduledFor || notification.createdAt || now).getTime();
+  if (now.getTime() - createdAt > REALTIME_MAX_AGE) {
+    return { status: 'skipped', detail: 'Too old to show live' };
+  }
+
+  await publishNotification(notification.userId.toString(), {
+    id: notification._id.toString(),
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    actionUrl: notification.actionUrl,
+  });
+  return { status: 'sent', detail: REALTIME_TRANSPORT };
+}
+
+// A digest's email lists only the groups the user still wants email about
+async function sendDigestEmail(notification: INotification, user: RecipientUser & { email: string }): Promise<ChannelOutcome> {
+  const groups = ((notification.data?.groups || []) as DigestGroup[])
+    .filter(group => emailAllowed(group.type, user.preferences));
+  if (groups.length === 0) {
+    return { status: 'skipped', detail: 'Turned off in email preferences' };
+  }
+
+  const outboxId = await queueEmail(
+    user.email,
+    'notificationDigest',
+    { subject: notification.title, name: user.name, title: notification.title, groups },
+    { idempotencyKey: `notification:${notification._id}` }
+  );
+  return { status: 'sent', detail: `Queued as ${outboxId}` };
+}
+
+// Email goes through the outbox, keyed on the notification so a retry never
+// queues it twice
+async function sendEmailNotification(notification: INotification, user: RecipientUser): Promise<ChannelOutcome> {
+  if (notification.type === 'digest' && user.email) {
+    return sendDigestEmail(notification, { ...user, email: user.email });
+  }
+  if (!emailAllowed(notification.type, user.preferences)) {
+    return { status: 'skipped', detail: 'Turned off in email preferences' };
+  }
+  if (!user.email) {
+    return { status: 'skipped', detail: 'No email address' };
+  }
+
+  const outboxId = await queueEmail(
+    user.email,
+    'notification',
+    {
+      subject: notification.title,
+      name: user.name,
+      title: notification.title,
+      message: notification.message,
+      icon: notification.icon,
+      actionUrl: notification.actionUrl,
+      actionText: notification.actionText,
+    },
+    { idempotencyKey: `notification:${notification._id}` }
+  );
+  return { status: 'sent', detail: `Queued as ${outboxId}` };
+}
+
+// Every browser the user subscribed. Subscriptions the push service says
+// are gone, or that don't point at one, are removed.
+async function sendPush(notification: INotification, user: RecipientUser & { _id: unknown }): Promise<ChannelOutcome> {
+  if (!isWebPushConfigured()) {
+    return { status: 'skipped', detail: 'Web Push is not configured' };
+  }
+
+  const subscriptions = await PushSubscription.find({ userId: user._id });
+  if (subscriptions.length === 0) {
+    return { status: 'skipped', detail: 'No browser subscribed' };
+  }
+
+  const payload = {
+    id: notification._id.toString(),
+    title: notification.title,
+    body: notification.message.slice(0, 500),
+    icon: notification.icon,
+    url: notification.actionUrl || '/dashboard',
+  };
+
+  let sent = 0;
+  let gone = 0;
+  const failures: string[] = [];
+
+  for (const subscription of subscriptions) {
+    // Saved before endpoints were restricted to push services
+    if (!isAllowedPushEndpoint(subscription.endpoint)) {
+      gone++;
+      await PushSubscription.deleteOne({ _id: subscription._id });
+      continue;
+    }
+
+    try {
+      const status = await sendWebPush(subscription, payload, { urgency: PUSH_URGENCY[notification.priority] });
+      if (status >= 200 && status < 300) {
+        sent++;
+        await PushSubscription.updateOne(
+          { _id: subscription._id },
+          { $set: { lastSuccessAt: new Date(), failureCount: 0 } }
+        );
+      } else if (status === 404 || status === 410) {
+        gone++;
+        await PushSubscription.deleteOne({ _id: subscription._id });
+      } else {
+        failures.push(`push service answered ${status}`);
+        await PushSubscription.updateOne({ _id: subscription._id }, { $inc: { failureCount: 1 } });
+      }
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  if (sent > 0) {
+    return { status: 'sent', detail: `${sent} of ${subscriptions.length} browsers` };
+  }
+  if (failures.length === 0) {
+    return { status: 'skipped', detail: `${gone} expired subscriptions removed` };
+  }
+  throw new Error(failures[0]);
+}
+
+const CHANNEL_SENDERS: Record<
+  DeliveryChannel,
+  (notification: INotification, user: RecipientUser & { _id: unknown }, now: Date) => Promise<ChannelOutcome>
+> = {
+  realtime: sendRealtime,
+  email: sendEmailNotification,
+  push: sendPush,
+};
+
+// Send a notification through each channel its delivery method names and
+// record every channel's outcome. Channels already sent, skipped or out of
+// attempts are left alone, so running it again only retries what's left.
+export async function deliverNotification(notification: INotification, now: Date = new Date()): Promise<void> {
+  await connectToDatabase();
+
+  const user = await User.findById(notification.userId).select('name email preferences').lean();
+
+  // Held for a digest: it shows in the list now and goes out with the rest later
+  const frequency = user && !notification.digest ? digestFrequencyFor(notification, user.preferences) : 'instant';
+  if (frequency !== 'instant') {
+    await Notification.updateOne(
+      { _id: notification._id },
+      {
+        $set: {
+          deliveryStatus: 'delivered',
+          deliveredAt: now,
+          deliveries: channelsFor(notification.deliveryMethod).map(channel => ({
+            channel,
+            status: 'skipped',
+            attempts: 0,
+            lastAttemptAt: now,
+            detail: `In the ${frequency} digest`,
+          })),
+          digest: { frequency, status: 'waiting' },
+          expiresAt: heldExpiry(notification.expiresAt, frequency, now),
+        },
+        $unset: { lockedUntil: 1 },
+      }
+    );
+    return;
+  }
+
+  const quietUntil = notification.priority === 'urgent' || !user
+    ? null
+    : quietHoursEnd(user.preferences?.quietHours, now);
+  const previous = new Map((notification.deliveries || []).map(delivery => [delivery.channel, delivery]));
+
+  const deliveries: ChannelDelivery[] = [];
+  for (const channel of channelsFor(notification.deliveryMethod)) {
+    const before = previous.get(channel);
+    if (before && (before.status === 'sent' || before.status === 'skipped'
+      || (before.status === 'failed' && before.attempts >= MAX_CHANNEL_ATTEMPTS))) {
+      deliveries.push(before);
+      continue;
+    }
+
+    const attempts = before?.attempts || 0;
+    if (!user) {
+      deliveries.push({ channel, status: 'skipped', attempts, lastAttemptAt: now, detail: 'User not found' });
+    } else if (quietUntil && channel !== 'realtime') {
+      deliveries.push({ channel, status: 'deferred', attempts, lastAttemptAt: now, detail: 'Quiet hours' });
+    } else {
+      try {
+        const outcome = await CHANNEL_SENDERS[channel](notification, user, now);
+        deliveries.push({ channel, attempts: attempts + 1, lastAttemptAt: now, ...outcome });
+      } catch (error) {
+        deliveries.push({
+          channel,
+          status: 'failed',
+          attempts: attempts + 1,
+          lastAttemptAt: now,
+          error: (error instanceof Error ? error.message : 'Unknown error').slice(0, 500),
+        });
+      }
+    }
+  }
+
+  const { deliveryError, ...summary } = summarizeDeliveries(deliveries, now, quietUntil);
+  await Notification.updateOne(
+    { _id: notification._id },
+    {
+      $set: { ...summary, deliveries, ...(deliveryError ? { deliveryError } : {}) },
+      $unset: { lockedUntil: 1, ...(deliveryError ? {} : { deliveryError: 1 }) },
+    }
+  );
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+let lastDigestCheck = 0;
+
+// Deliver what's due: digests whose window has passed, new notifications,
+// scheduled ones whose time has come, and retries. Each is claimed with a
+// short lock so instances polling together deliver it once.
+export async function processPendingNotifications(): Promise<number> {
+  if (isProcessing) {
+    return 0;
+  }
+
+  isProcessing = true;
+  let delivered = 0;
+  try {
+    await connectToDatabase();
+
+    if (Date.now() - lastDigestCheck >= DIGEST_CHECK_INTERVAL) {
+      lastDigestCheck = Date.now();
+      await sendDueDigests().catch(error => console.error('Notification digest run failed:', error));
+    }
+
+    const due = await Notification.findPendingDelivery().select('_id').limit(WORKER_BATCH_SIZE).lean();
+    for (const { _id } of due) {
+      const now = new Date();
+      const claimed = await Notification.findOneAndUpdate(
+        {
+          _id,
+          deliveryStatus: 'pending',
+          $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }],
+        },
+        { $set: { lockedUntil: new Date(now.getTime() + DELIVERY_LOCK) } },
+        { new: true }
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      // Expired or rescheduled since it was found: release the lock, and
+      // close out an expired one so it isn't picked up again
+      if (!claimed.canBeDelivered()) {
+        await Notification.updateOne(
+          { _id },
+          {
+            ...(claimed.isExpired()
+              ? { $set: { deliveryStatus: 'failed', deliveryError: 'Expired before it could be delivered' } }
+              : {}),
+            $unset: { lockedUntil: 1 },
+          }
+        );
+        continue;
+      }
+
+      await deliverNotification(claimed, now);
+      delivered++;
+    }
+  } finally {
+    isProcessing = false;
+  }
+
+  return delivered;
+}
+
+// Poll for due notifications from this instance. Safe to call more than once.
+export function startNotificationWorker(): void {
+  if (workerTimer) return;
+  workerTimer = setInterval(() => {
+    processPendingNotifications().catch(error => console.error('Notification delivery run failed:', error));
+  }, WORKER_POLL_INTERVAL);
+  workerTimer.unref();
+}
+
+export function stopNotificationWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+}
@@ -0,0 +1,202 @@
+// lib/notification-digests.ts - Gathers routine notifications into hourly, daily and weekly digests
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Notification, { INotification, NotificationDigestState } from '@/models/Notification';
+import { NotificationType } from '@/types/user';
+import { DigestCategory, DigestFrequency, UserPreferences } from '@/types/auth';
+
+type HeldFrequency = NotificationDigestState['frequency'];
+
+export type DigestItem = Pick<INotification, 'type' | 'title' | 'message' | 'createdAt'>
+  & Partial<Pick<INotification, 'category' | 'groupId' | 'icon' | 'actionUrl'>>;
+
+// Notifications about the same thing, newest first
+export interface DigestGroup {
+  key: string;
+  type: NotificationType;
+  category?: string;
+  title: string;
+  icon?: string;
+  actionUrl?: string;
+  count: number;
+  messages: string[];
+  latestAt: Date;
+}
+
+export interface Digest {
+  title: string;
+  message: string;
+  groups: DigestGroup[];
+}
+
+export const DIGEST_CATEGORIES: DigestCategory[] = ['writing', 'feedback', 'classroom', 'achievement', 'progress', 'social'];
+
+// A digest goes out this long after the oldest notification it holds
+export const DIGEST_WINDOWS: Record<HeldFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+const FREQUENCY_LABELS: Record<HeldFrequency, string> = {
+  hourly: 'Hourly',
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+// Enough to see what happened without the digest becoming the flood it replaces
+const MESSAGES_PER_GROUP = 3;
+const MAX_MESSAGE_LENGTH = 1000;
+
+// How the user wants notifications like this one. High and urgent ones,
+// and categories without a preference (account, safety, system), always
+// go out at once.
+export function digestFrequencyFor(
+  notification: Pick<INotification, 'priority' | 'category'>,
+  preferences?: Partial<UserPreferences>
+): DigestFrequency {
+  if (notification.priority === 'high' || notification.priority === 'urgent') {
+    return 'instant';
+  }
+  if (!DIGEST_CATEGORIES.includes(notification.category as DigestCategory)) {
+    return 'instant';
+  }
+  return preferences?.digests?.[notification.category as DigestCategory] || 'instant';
+}
+
+// Collapse held notifications by groupId (or category and type when they
+// have none), busiest group first
+export function buildDigest(items: DigestItem[], frequency: HeldFrequency): Digest {
+  const groups = new Map<string, DigestGroup>();
+  const newestFirst = [...items].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  for (const item of newestFirst) {
+    const key = item.groupId || `${item.category || 'general'}:${item.type}`;
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+      if (group.messages.length < MESSAGES_PER_GROUP) {
+        group.messages.push(item.message);
+      }
+      continue;
+    }
+    groups.set(key, {
+      key,
+      type: item.type,
+      category: item.category,
+      title: item.title,
+      icon: item.icon,
+      actionUrl: item.actionUrl,
+      count: 1,
+      messages: [item.message],
+      latestAt: item.createdAt,
+    });
+  }
+
+  const sorted = Array.from(groups.values())
+    .sort((a, b) => b.count - a.count || b.latestAt.getTime() - a.latestAt.getTime());
+
+  const updates = items.length === 1 ? '1 update' : `${items.length} updates`;
+  const message = sorted
+    .map(group => (group.count > 1 ? `${group.title} (${group.count})` : group.title))
+    .join(' · ');
+
+  return {
+    title: `${FREQUENCY_LABELS[frequency]} digest: ${updates}`,
+    message: message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH - 1)}…` : message,
+    groups: sorted,
+  };
+}
+
+// For the in-app list: notifications sharing a groupId fold into the
+// newest of them, which keeps its place in the (newest first) list
+export function collapseByGroup<T extends { groupId?: string }>(notifications: T[]): Array<{ latest: T; grouped: T[] }> {
+  const collapsed: Array<{ latest: T; grouped: T[] }> = [];
+  const byGroup = new Map<string, { latest: T; grouped: T[] }>();
+
+  for (const notification of notifications) {
+    const existing = notification.groupId ? byGroup.get(notification.groupId) : undefined;
+    if (existing) {
+      existing.grouped.push(notification);
+      continue;
+    }
+    const entry = { latest: notification, grouped: [notification] };
+    collapsed.push(entry);
+    if (notification.groupId) {
+      byGroup.set(notification.groupId, entry);
+    }
+  }
+
+  return collapsed;
+}
+
+// Held notifications must outlive the wait for their digest
+export function heldExpiry(expiresAt: Date | undefined, frequency: HeldFrequency, now: Date): Date {
+  const needed = new Date(now.getTime() + DIGEST_WINDOWS[frequency] * 2);
+  return expiresAt && expiresAt > needed ? expiresAt : needed;
+}
+
+// Send every digest whose window has passed. Each is claimed by marking
+// its notifications with a fresh digest id, so instances running together
+// send it once; if the digest can't be stored they go back to waiting.
+export async function sendDueDigests(now: Date = new Date()): Promise<number> {
+  await connectToDatabase();
+
+  const waiting: Array<{ _id: { userId: mongoose.Types.ObjectId; frequency: HeldFrequency }; oldest: Date }> =
+    await Notification.aggregate([
+      { $match: { 'digest.status': 'waiting' } },
+      {
+        $group: {
+          _id: { userId: '$userId', frequency: '$digest.frequency' },
+          oldest: { $min: '$createdAt' },
+        },
+      },
+    ]);
+
+  let sent = 0;
+  for (const { _id: { userId, frequency }, oldest } of waiting) {
+    if (oldest.getTime() + DIGEST_WINDOWS[frequency] > now.getTime()) {
+      continue;
+    }
+
+    const digestId = new mongoose.Types.ObjectId();
+    const claimed = await Notification.updateMany(
+      { userId, 'digest.status': 'waiting', 'digest.frequency': frequency, createdAt: { $lte: now } },
+      { $set: { 'digest.status': 'sent', 'digest.digestId': digestId } }
+    );
+    if (claimed.modifiedCount === 0) {
+      continue;
+    }
+
+    try {
+      const items = await Notification.find({ 'digest.digestId': digestId })
+        .select('type title message category groupId icon actionUrl createdAt')
+        .lean();
+      const digest = buildDigest(items as DigestItem[], frequency);
+
+      // Left pending for the delivery worker, which sends it on every channel
+      await Notification.create({
+        _id: digestId,
+        userId,
+        type: 'digest',
+        title: digest.title,
+        message: digest.message,
+        data: { frequency, count: items.length, groups: digest.groups },
+        actionUrl: '/dashboard',
+        actionText: 'See what happened',
+        deliveryMethod: 'all',
+        category: 'digest',
+        groupId: `digest:${digestId}`,
+      });
+      sent++;
+    } catch (error) {
+      console.error('Error sending notification digest:', error);
+      await Notification.updateMany(
+        { 'digest.digestId': digestId },
+        { $set: { 'digest.status': 'waiting' }, $unset: { 'digest.digestId': 1 } }
+      );
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,173 @@
+// lib/parent-oversight.ts - Linked-parent controls shared by the parent dashboard and story routes
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import Story, { IStory } from '@/models/Story';
+import Notification from '@/models/Notification';
+import { CHILD_LINK_TTL_MS, createChildLinkToken, verifyChildLinkToken } from '@/lib/parental-consent';
+import { sendChildLinkEmail } from '@/lib/email';
+
+type ApprovalResult = { story: IStory } | { error: string; status: number };
+type LinkResult = { childId: string; childName: string } | { error: string; status: number };
+
+// Only a child's own parent address can link to the account. A parent
+// account's email is never verified, so a match alone only decides who may
+// ask; the link itself waits for proof from that mailbox (confirmChildLink).
+export function canLinkChild(
+  parentEmail: string,
+  child: { role: string; parentEmail?: string | null }
+): boolean {
+  return child.role === 'child' &&
+    !!child.parentEmail &&
+    child.parentEmail.toLowerCase() === parentEmail.toLowerCase();
+}
+
+// Send the child's parent address the link that finishes linking. It only
+// works for the parent account that asked, and only while the child still
+// lists that address.
+export async function requestChildLink(
+  parent: { id: string; name: string },
+  child: { _id: any; name: string; parentEmail?: string | null }
+): Promise<boolean> {
+  if (!child.parentEmail) {
+    throw new Error('Cannot link a child without a parent email');
+  }
+
+  const expiresAt = Date.now() + CHILD_LINK_TTL_MS;
+  const token = createChildLinkToken({
+    parentId: parent.id,
+    childId: child._id.toString(),
+    parentEmail: child.parentEmail,
+    expiresAt,
+  });
+
+  return sendChildLinkEmail(child.parentEmail, {
+    parentName: parent.name,
+    childName: child.name,
+    confirmUrl: `${process.env.NEXT_PUBLIC_APP_URL}/parent-dashboard?linkToken=${token}`,
+    expiresAt: new Date(expiresAt),
+  });
+}
+
+export async function confirmChildLink(parentId: string, token: string): Promise<LinkResult> {
+  const payload = verifyChildLinkToken(token);
+  if (!payload || payload.parentId !== parentId) {
+    return { error: 'This link is invalid or has expired', status: 400 };
+  }
+
+  await connectToDatabase();
+
+  const [parent, child] = await Promise.all([
+    User.findOne({ _id: parentId, role: 'parent' }).select('email').lean(),
+    User.findById(payload.childId).select('name role parentEmail').lean(),
+  ]);
+
+  // The child may have changed their parent email since the link was sent
+  if (
+    !parent ||
+    !child ||
+    !canLinkChild(parent.email, child) ||
+    !canLinkChild(payload.parentEmail, child)
+  ) {
+    return { error: 'This child account no longer lists your email as the parent email', status: 409 };
+  }
+
+  await User.updateOne(
+    { _id: parentId, role: 'parent' },
+    { $addToSet: { linkedChildren: child._id } }
+  );
+
+  return { childId: child._id.toString(), childName: child.name };
+}
+
+export async function getLinkedChildIds(parentId: string): Promise<string[]> {
+  await connectToDatabase();
+  const parent = await User.findById(parentId).select('linkedChildren').lean();
+  return (parent?.linkedChildren || []).map(id => id.toString());
+}
+
+// Hold a newly published story back from the public until a linked parent
+// decides. Children without a linked parent publish as before. Writes with
+// updateOne so a concurrent moderation hold on the same story is not undone.
+export async function requestPublicApproval(story: IStory): Promise<boolean> {
+  const parents = await User.find({ role: 'parent', linkedChildren: story.authorId, isActive: true })
+    .select('_id')
+    .lean();
+
+  if (parents.length === 0) {
+    return false;
+  }
+
+  await Story.updateOne(
+    { _id: story._id },
+    {
+      $set: {
+        isPublic: false,
+        publicApproval: { status: 'pending', requestedAt: new Date() },
+      },
+    }
+  );
+
+  try {
+    await Notification.insertMany(parents.map(parent => ({
+      userId: parent._id,
+      type: 'publish_approval',
+      title: 'A story is waiting for you',
+      message: `${story.authorName} published "${story.title}". Choose whether everyone can read it.`,
+      data: { storyId: story._id.toString(), childId: story.authorId.toString() },
+      actionUrl: '/parent-dashboard',
+      actionText: 'Review story',
+      deliveryMethod: 'in_app',
+      priority: 'high',
+      variant: 'info',
+    })));
+  } catch (error) {
+    console.error('Failed to notify parents of publish request:', error);
+  }
+
+  return true;
+}
+
+export async function decidePublicApproval(
+  story: IStory,
+  parentId: string,
+  approve: boolean,
+  note?: string
+): Promise<ApprovalResult> {
+  if (story.publicApproval?.status !== 'pending') {
+    return { error: 'This story is not waiting for approval', status: 409 };
+  }
+
+  // A story under moderation review is unpublished until a moderator clears it
+  if (story.status !== 'published') {
+    return { error: 'This story is being reviewed by our safety team', status: 409 };
+  }
+
+  story.isPublic = approve;
+  story.publicApproval = {
+    status: approve ? 'approved' : 'declined',
+    requestedAt: story.publicApproval.requestedAt,
+    decidedAt: new Date(),
+    decidedBy: parentId,
+    note,
+  };
+  await story.save();
+
+  try {
+    await Notification.create({
+      userId: story.authorId,
+      type: 'publish_approval',
+      title: approve ? 'Your story is public!' : 'Your story stays private',
+      message: approve
+        ? `Your parent said everyone can read "${story.title}".`
+        : `Your parent would like to keep "${story.title}" private for now.`,
+      data: { storyId: story._id.toString(), approved: approve },
+      actionUrl: `/my-stories/${story._id}`,
+      deliveryMethod: 'in_app',
+      variant: approve ? 'success' : 'info',
+    });
+  } catch (error) {
+    console.error('Failed to notify child of publish decision:', error);
+  }
+
+  return { story };
+}
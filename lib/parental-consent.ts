@@ -0,0 +1,176 @@
+// lib/parental-consent.ts - Signed links for parents: consent for under-13 accounts (COPPA) and linking a child
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { IUser } from '@/models/User';
+import { sendParentalConsentEmail } from '@/lib/email';
+
+export type ConsentAction = 'approve' | 'deny';
+
+export interface ConsentTokenPayload {
+  userId: string;
+  requestId: string;
+  action: ConsentAction;
+  expiresAt: number;
+}
+
+export interface ChildLinkTokenPayload {
+  parentId: string;
+  childId: string;
+  parentEmail: string;
+  expiresAt: number;
+}
+
+// Parents often read school-age mail late, so links stay valid for a week
+export const CONSENT_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A fresh request replaces the previous links, so limit how often a child can trigger one
+export const CONSENT_RESEND_INTERVAL_MS = 10 * 60 * 1000;
+
+// The parent asked for the link moments ago, so it need not last long
+export const CHILD_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+
+function getSigningSecret(): string {
+  const secret = process.env.PARENTAL_CONSENT_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('PARENTAL_CONSENT_SECRET or NEXTAUTH_SECRET must be set to sign consent links');
+  }
+  return secret;
+}
+
+function sign(encodedPayload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+}
+
+// Signed, URL-safe tokens: a base64url JSON payload and its HMAC
+function encodeToken(data: Record<string, unknown>, secret: string): string {
+  const encodedPayload = Buffer.from(JSON.stringify(data)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload, secret)}`;
+}
+
+function decodeToken(token: string, secret: string): Record<string, any> | null {
+  const [encodedPayload, signature, extra] = token.split('.');
+  if (!encodedPayload || !signature || extra !== undefined) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    return data && typeof data === 'object' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createConsentToken(payload: ConsentTokenPayload, secret = getSigningSecret()): string {
+  return encodeToken({
+    uid: payload.userId,
+    rid: payload.requestId,
+    act: payload.action,
+    exp: payload.expiresAt,
+  }, secret);
+}
+
+// Returns null for anything tampered with, malformed or expired
+export function verifyConsentToken(
+  token: string,
+  secret = getSigningSecret(),
+  now: number = Date.now()
+): ConsentTokenPayload | null {
+  const data = decodeToken(token, secret);
+
+  if (
+    !data ||
+    typeof data.uid !== 'string' ||
+    typeof data.rid !== 'string' ||
+    (data.act !== 'approve' && data.act !== 'deny') ||
+    typeof data.exp !== 'number' ||
+    data.exp < now
+  ) {
+    return null;
+  }
+
+  return { userId: data.uid, requestId: data.rid, action: data.act, expiresAt: data.exp };
+}
+
+// A parent links a child by following a link sent to the child's parent
+// email, which proves they read that mailbox and not just that their own
+// account claims the same address
+export function createChildLinkToken(payload: ChildLinkTokenPayload, secret = getSigningSecret()): string {
+  return encodeToken({
+    typ: 'link',
+    pid: payload.parentId,
+    cid: payload.childId,
+    em: payload.parentEmail.toLowerCase(),
+    exp: payload.expiresAt,
+  }, secret);
+}
+
+export function verifyChildLinkToken(
+  token: string,
+  secret = getSigningSecret(),
+  now: number = Date.now()
+): ChildLinkTokenPayload | null {
+  const data = decodeToken(token, secret);
+
+  if (
+    !data ||
+    data.typ !== 'link' ||
+    typeof data.pid !== 'string' ||
+    typeof data.cid !== 'string' ||
+    typeof data.em !== 'string' ||
+    typeof data.exp !== 'number' ||
+    data.exp < now
+  ) {
+    return null;
+  }
+
+  return { parentId: data.pid, childId: data.cid, parentEmail: data.em, expiresAt: data.exp };
+}
+
+export function getRequestIP(req: NextRequest): string {
+  return req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+         req.headers.get('x-real-ip') ||
+         req.headers.get('cf-connecting-ip') ||
+         'unknown';
+}
+
+// Start a new consent request and email the parent. Earlier links stop working
+// because they carry the previous request ID. Saves the user.
+export async function requestParentalConsent(user: IUser): Promise<boolean> {
+  if (!user.parentEmail) {
+    throw new Error('Cannot request parental consent without a parent email');
+  }
+
+  const requestId = crypto.randomBytes(16).toString('hex');
+  const expiresAt = Date.now() + CONSENT_LINK_TTL_MS;
+  const userId = user._id.toString();
+
+  user.parentConsent = false;
+  user.parentConsentStatus = 'pending';
+  user.parentConsentRequestId = requestId;
+  user.parentConsentRequestedAt = new Date();
+  user.accountStatus = 'pending_verification';
+  user.parentConsentEvents.push({
+    action: 'requested',
+    parentEmail: user.parentEmail,
+    timestamp: new Date(),
+  });
+  await user.save();
+
+  const linkFor = (action: ConsentAction) =>
+    `${process.env.NEXT_PUBLIC_APP_URL}/parental-consent?token=${createConsentToken({ userId, requestId, action, expiresAt })}`;
+
+  return sendParentalConsentEmail(user.parentEmail, {
+    childName: user.name,
+    childAge: user.age,
+    approveUrl: linkFor('approve'),
+    denyUrl: linkFor('deny'),
+    expiresAt: new Date(expiresAt),
+  });
+}
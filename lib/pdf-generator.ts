@@ -58,6 +58,24 @@ export class PDFGenerator {
     storyData: StoryExportData,
     options: PDFExportOptions = {}
   ): Promise<string> {
+    const pdfBuffer = await this.renderStoryPDF(storyData, options);
+
+    // Upload to GridFS
+    const filename = `${storyData.story.title.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.pdf`;
+    const fileId = await uploadFile(
+      pdfBuffer,
+      filename,
+      'application/pdf'
+    );
+
+    return fileId;
+  }
+
+  // Render a story to a PDF buffer without storing it
+  async renderStoryPDF(
+    storyData: StoryExportData,
+    options: PDFExportOptions = {}
+  ): Promise<Buffer> {
     await this.initBrowser();
     
     if (!this.browser) {
@@ -89,15 +107,7 @@ export class PDFGenerator {
         footerTemplate: this.getFooterTemplate(),
       });
 
-      // Upload to GridFS
-      const filename = `${storyData.story.title.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.pdf`;
-      const fileId = await uploadFile(
-        Buffer.from(pdfBuffer),
-        filename,
-        'application/pdf'
-      );
-
-      return fileId;
+      return Buffer.from(pdfBuffer);
     } finally {
       await page.close();
     }
@@ -801,6 +811,14 @@ export async function generateStoryPDF(
   return await generator.generateStoryPDF(storyData, options);
 }
 
+export async function renderStoryPDF(
+  storyData: StoryExportData,
+  options: PDFExportOptions = {}
+): Promise<Buffer> {
+  const generator = PDFGenerator.getInstance();
+  return await generator.renderStoryPDF(storyData, options);
+}
+
 export async function generateStoriesPDF(
   storiesData: StoryExportData[],
   options: PDFExportOptions = {}
@@ -0,0 +1,409 @@
+// lib/progression.ts - StoryStage 1-5: what each stage unlocks, and the reviews that promote or hold a writer
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import Story from '@/models/Story';
+import Notification from '@/models/Notification';
+import Achievement from '@/models/Achievement';
+import { awardAchievement } from '@/lib/achievement-engine';
+import { STORY_ELEMENT_KEYS, elementKey } from '@/lib/assignments';
+import { StoryElements, StoryStage } from '@/types/story';
+import {
+  AIAssistanceLevel,
+  ElementOptions,
+  StageDefinition,
+  StageEvidence,
+  StageOverview,
+  StageReview,
+  StageStorySample,
+} from '@/types/progression';
+
+// Reviews look at this many of the writer's latest published stories
+export const REVIEW_WINDOW = 6;
+
+export const STAGES: Record<StoryStage, StageDefinition> = {
+  1: {
+    stage: 1,
+    name: 'Seedling',
+    targetWordCount: 300,
+    maxAIAssistance: 'maximum',
+    unlocks: {
+      genre: ['Adventure', 'Animal Stories', 'Fairy Tale', 'Comedy'],
+      setting: ['Forest', 'Village', 'Castle', 'Ocean'],
+      character: ['Animal', 'Kid', 'Explorer', 'Princess/Prince'],
+      mood: ['Exciting', 'Funny', 'Peaceful'],
+      conflict: ['Lost Treasure', 'Rescue Mission', 'Competition'],
+      theme: ['Friendship', 'Kindness', 'Family'],
+    },
+    promotion: { storiesNeeded: 3, minAverageScore: 60, minAverageWords: 250, maxAIShare: 0.5 },
+  },
+  2: {
+    stage: 2,
+    name: 'Sprout',
+    targetWordCount: 500,
+    maxAIAssistance: 'maximum',
+    unlocks: {
+      genre: ['Fantasy'],
+      setting: ['Mountains', 'Cave'],
+      character: ['Wizard', 'Dragon'],
+      mood: ['Adventurous'],
+      conflict: ['Discovery'],
+      theme: ['Courage'],
+    },
+    promotion: { storiesNeeded: 3, minAverageScore: 65, minAverageWords: 400, maxAIShare: 0.4 },
+  },
+  3: {
+    stage: 3,
+    name: 'Storyteller',
+    targetWordCount: 800,
+    maxAIAssistance: 'normal',
+    unlocks: {
+      genre: ['Mystery', 'Sci-Fi'],
+      setting: ['City', 'Space'],
+      character: ['Detective', 'Robot'],
+      mood: ['Mysterious'],
+      conflict: ['Mystery to Solve'],
+      theme: ['Adventure', 'Discovery'],
+    },
+    promotion: { storiesNeeded: 4, minAverageScore: 70, minAverageWords: 650, maxAIShare: 0.3 },
+  },
+  4: {
+    stage: 4,
+    name: 'Author',
+    targetWordCount: 1200,
+    maxAIAssistance: 'normal',
+    unlocks: {
+      genre: ['Historical', 'Drama'],
+      setting: ['Desert'],
+      character: ['Superhero'],
+      mood: ['Scary'],
+      conflict: ['Evil to Defeat'],
+    },
+    promotion: { storiesNeeded: 4, minAverageScore: 75, minAverageWords: 1000, maxAIShare: 0.2 },
+  },
+  5: {
+    stage: 5,
+    name: 'Master Author',
+    targetWordCount: 1600,
+    maxAIAssistance: 'minimal',
+    unlocks: {},
+  },
+};
+
+const STAGE_ICONS: Record<StoryStage, string> = { 1: '🌱', 2: '🌿', 3: '📖', 4: '✍️', 5: '🏆' };
+const STAGE_RARITY: Record<StoryStage, 'common' | 'rare' | 'epic' | 'legendary'> = {
+  1: 'common',
+  2: 'common',
+  3: 'rare',
+  4: 'epic',
+  5: 'legendary',
+};
+
+const ASSISTANCE_ORDER: AIAssistanceLevel[] = ['minimal', 'normal', 'maximum'];
+
+export function toStage(value: unknown): StoryStage {
+  const stage = Math.round(Number(value));
+  return (stage >= 1 && stage <= 5 ? stage : 1) as StoryStage;
+}
+
+// Every element option open at a stage, including earlier stages' unlocks
+export function unlockedElementOptions(stage: StoryStage): ElementOptions {
+  const options: ElementOptions = {};
+  for (let current = 1; current <= stage; current++) {
+    const unlocks = STAGES[current as StoryStage].unlocks;
+    for (const key of STORY_ELEMENT_KEYS) {
+      if (unlocks[key]) {
+        options[key] = [...(options[key] || []), ...unlocks[key]!];
+      }
+    }
+  }
+  return options;
+}
+
+// Explain every element the writer hasn't unlocked yet
+export function checkStageElements(elements: Partial<StoryElements>, stage: StoryStage): string[] {
+  const open = unlockedElementOptions(stage);
+  const problems: string[] = [];
+
+  for (const key of STORY_ELEMENT_KEYS) {
+    const chosen = elements[key];
+    if (!chosen || (open[key] || []).some(option => elementKey(option) === elementKey(chosen))) continue;
+
+    const unlocksAt = Object.values(STAGES).find(definition =>
+      (definition.unlocks[key] || []).some(option => elementKey(option) === elementKey(chosen))
+    );
+    problems.push(unlocksAt
+      ? `The ${key} "${chosen}" unlocks at Stage ${unlocksAt.stage} (${unlocksAt.name})`
+      : `Unknown ${key} "${chosen}"`);
+  }
+
+  return problems;
+}
+
+// The parent's assistance setting, capped by what the stage allows
+export function stageAssistanceLevel(
+  preferred: AIAssistanceLevel | undefined,
+  stage: StoryStage
+): AIAssistanceLevel {
+  const cap = ASSISTANCE_ORDER.indexOf(STAGES[stage].maxAIAssistance);
+  const wanted = ASSISTANCE_ORDER.indexOf(preferred || 'normal');
+  return ASSISTANCE_ORDER[Math.min(cap, wanted)];
+}
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+// How much of a story came from accepted AI text. childWordCount only covers
+// what was sent with each request, so the story's own length less the AI's
+// words is the floor for the child's share.
+export function storyWordShare(story: {
+  wordCount: number;
+  aiSessions?: Array<{ childWordCount: number; aiResponse: string }>;
+}): { aiWords: number; childWords: number } {
+  const sessions = story.aiSessions || [];
+  const aiWords = sessions.reduce((sum, session) => sum + countWords(session.aiResponse || ''), 0);
+  const sentByChild = sessions.reduce((sum, session) => sum + (session.childWordCount || 0), 0);
+
+  return {
+    aiWords,
+    childWords: Math.max(sentByChild, (story.wordCount || 0) - aiWords, 0),
+  };
+}
+
+// A mentor's marking counts over the AI's
+export function storyScore(story: {
+  rubricAssessments?: Array<{ source: string; weightedScore: number }>;
+  aiAssessment?: { overallScore?: number };
+}): number | undefined {
+  const mentor = story.rubricAssessments?.find(entry => entry.source === 'mentor');
+  if (mentor) return mentor.weightedScore;
+
+  const ai = story.rubricAssessments?.find(entry => entry.source === 'ai');
+  if (ai) return ai.weightedScore;
+
+  return story.aiAssessment?.overallScore;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function stories(count: number): string {
+  return count === 1 ? 'story' : 'stories';
+}
+
+// Decide whether the writer moves up. Only stories written at the current
+// stage or above count, so earlier, shorter stories can't hold anyone back.
+export function evaluateStage(
+  currentStage: StoryStage,
+  samples: StageStorySample[],
+  now: Date = new Date()
+): StageReview {
+  const definition = STAGES[currentStage];
+  const recent = samples
+    .filter(sample => sample.stage >= currentStage)
+    .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+    .slice(0, REVIEW_WINDOW);
+
+  const scores = recent.map(sample => sample.score).filter((score): score is number => score !== undefined);
+  const aiWords = recent.reduce((sum, sample) => sum + sample.aiWords, 0);
+  const childWords = recent.reduce((sum, sample) => sum + sample.childWords, 0);
+
+  const evidence: StageEvidence = {
+    storiesConsidered: recent.length,
+    averageScore: Math.round(average(scores)),
+    averageWords: Math.round(average(recent.map(sample => sample.wordCount))),
+    aiShare: aiWords + childWords > 0 ? Math.round((aiWords / (aiWords + childWords)) * 100) / 100 : 0,
+  };
+
+  const base = { fromStage: currentStage, evidence, reviewedAt: now };
+
+  if (!definition.promotion) {
+    return {
+      ...base,
+      decision: 'top_stage',
+      toStage: currentStage,
+      reasons: [`${definition.name} is the top stage. Keep writing the stories you love!`],
+    };
+  }
+
+  const criteria = definition.promotion;
+  const reasons: string[] = [];
+
+  if (recent.length < criteria.storiesNeeded) {
+    const missing = criteria.storiesNeeded - recent.length;
+    reasons.push(`Publish ${missing} more ${stories(missing)} at this stage`);
+  }
+  if (recent.length > 0 && scores.length === 0) {
+    reasons.push('Your stories need marking before they count');
+  } else if (scores.length > 0 && evidence.averageScore < criteria.minAverageScore) {
+    reasons.push(`Your stories score ${evidence.averageScore} on average; ${criteria.minAverageScore} moves you up`);
+  }
+  if (recent.length > 0 && evidence.averageWords < criteria.minAverageWords) {
+    reasons.push(`Your stories average ${evidence.averageWords} words; aim for ${criteria.minAverageWords}`);
+  }
+  if (evidence.aiShare > criteria.maxAIShare) {
+    reasons.push(
+      `About ${Math.round(evidence.aiShare * 100)}% of your words came from the AI; ` +
+      `write at least ${Math.round((1 - criteria.maxAIShare) * 100)}% yourself`
+    );
+  }
+
+  if (reasons.length > 0) {
+    return { ...base, decision: 'held', toStage: currentStage, reasons };
+  }
+
+  const next = STAGES[(currentStage + 1) as StoryStage];
+  return {
+    ...base,
+    decision: 'promoted',
+    toStage: next.stage,
+    reasons: [
+      `${recent.length} ${stories(recent.length)} scoring ${evidence.averageScore} on average, ` +
+      `${Math.round((1 - evidence.aiShare) * 100)}% in your own words`,
+      `Welcome to Stage ${next.stage}: ${next.name}`,
+    ],
+  };
+}
+
+async function loadStageSamples(userId: string, currentStage: StoryStage): Promise<StageStorySample[]> {
+  const stories = await Story.find({ authorId: userId, status: 'published', stage: { $gte: currentStage } })
+    .sort({ publishedAt: -1, updatedAt: -1 })
+    .limit(REVIEW_WINDOW)
+    .select('stage wordCount aiSessions.childWordCount aiSessions.aiResponse aiAssessment.overallScore rubricAssessments.source rubricAssessments.weightedScore publishedAt updatedAt')
+    .lean();
+
+  return stories.map(story => ({
+    storyId: story._id.toString(),
+    stage: toStage(story.stage),
+    wordCount: story.wordCount,
+    score: storyScore(story),
+    ...storyWordShare(story),
+    publishedAt: story.publishedAt || story.updatedAt,
+  }));
+}
+
+// One achievement per stage, created on first use. awardAchievement only
+// completes it once, however often the promotion is repeated.
+async function awardStageAchievement(userId: string, stage: StoryStage, storyId?: string): Promise<void> {
+  const definition = STAGES[stage];
+
+  const achievement = await Achievement.findOneAndUpdate(
+    { name: `Stage ${stage}: ${definition.name}` },
+    {
+      $setOnInsert: {
+        description: `Reached writing stage ${stage}, ${definition.name}`,
+        icon: STAGE_ICONS[stage],
+        category: 'milestone',
+        rarity: STAGE_RARITY[stage],
+        criteria: { customCondition: `stage >= ${stage}` },
+        rewards: { experiencePoints: stage * 50, badge: `stage-${stage}` },
+        sortOrder: 100 + stage,
+      },
+    },
+    { upsert: true, new: true }
+  );
+
+  await awardAchievement(userId, achievement, { event: 'stage_promoted', storyId });
+}
+
+// Review a child's stage after a story is published or marked. Returns null
+// for other roles, and on failure so a review never blocks the action that
+// triggered it.
+export async function reviewStage(
+  userId: string,
+  trigger: { storyId?: string } = {}
+): Promise<StageReview | null> {
+  try {
+    await connectToDatabase();
+
+    const user = await User.findById(userId).select('role progression').lean();
+    if (!user || user.role !== 'child') {
+      return null;
+    }
+
+    const currentStage = toStage(user.progression?.currentStage);
+    const review = evaluateStage(currentStage, await loadStageSamples(userId, currentStage));
+
+    if (review.decision !== 'promoted') {
+      await User.updateOne({ _id: userId }, { $set: { 'progression.lastReview': review } });
+      return review;
+    }
+
+    // Conditional on the stage so two reviews racing can't both promote.
+    // Accounts from before stages existed have no progression yet.
+    const promoted = await User.updateOne(
+      { _id: userId, 'progression.currentStage': currentStage === 1 ? { $in: [1, null] } : currentStage },
+      {
+        $set: {
+          'progression.currentStage': review.toStage,
+          'progression.stageReachedAt': review.reviewedAt,
+          'progression.lastReview': review,
+        },
+        $push: {
+          'progression.promotions': {
+            fromStage: review.fromStage,
+            toStage: review.toStage,
+            promotedAt: review.reviewedAt,
+            ...(trigger.storyId ? { storyId: trigger.storyId } : {}),
+          },
+        },
+      }
+    );
+    if (promoted.modifiedCount === 0) {
+      return review;
+    }
+
+    const next = STAGES[review.toStage];
+    const newElements = Object.values(next.unlocks).flat();
+
+    await Notification.create({
+      userId,
+      type: 'stage_promoted',
+      title: `You reached Stage ${next.stage}: ${next.name}!`,
+      message: `${review.reasons[0]}. Stories now aim for ${next.targetWordCount} words` +
+        (newElements.length > 0 ? ` and you can choose ${newElements.join(', ')}.` : '.'),
+      data: { stage: next.stage, ...(trigger.storyId ? { storyId: trigger.storyId } : {}) },
+      actionUrl: '/progress',
+      actionText: 'See what is new',
+      deliveryMethod: 'in_app',
+      priority: 'normal',
+      variant: 'success',
+    });
+
+    await awardStageAchievement(userId, next.stage, trigger.storyId);
+
+    return review;
+  } catch (error) {
+    console.error('Error reviewing stage:', error);
+    return null;
+  }
+}
+
+// Where a writer stands, with a fresh look at their next promotion
+export async function getStageOverview(userId: string): Promise<StageOverview | null> {
+  await connectToDatabase();
+
+  const user = await User.findById(userId)
+    .select('progression preferences.writingSettings.aiAssistanceLevel')
+    .lean();
+  if (!user) {
+    return null;
+  }
+
+  const currentStage = toStage(user.progression?.currentStage);
+  const next = currentStage < 5 ? STAGES[(currentStage + 1) as StoryStage] : null;
+
+  return {
+    stage: STAGES[currentStage],
+    nextStage: next
+      ? { stage: next.stage, name: next.name, targetWordCount: next.targetWordCount, unlocks: next.unlocks }
+      : null,
+    unlockedElements: unlockedElementOptions(currentStage),
+    aiAssistanceLevel: stageAssistanceLevel(user.preferences?.writingSettings?.aiAssistanceLevel, currentStage),
+    stageReachedAt: user.progression?.stageReachedAt,
+    lastReview: user.progression?.lastReview,
+    outlook: evaluateStage(currentStage, await loadStageSamples(userId, currentStage)),
+    promotions: user.progression?.promotions || [],
+  };
+}
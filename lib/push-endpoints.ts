@@ -0,0 +1,37 @@
+// lib/push-endpoints.ts - The push services a browser subscription may point at
+//
+// The server POSTs to whatever endpoint a subscription names, so only the
+// browsers' own push services are accepted: anything else would let a user
+// aim the server at internal hosts or third parties. No server imports, so
+// the shared validation schemas can use it.
+
+// Hosts, and domains whose subdomains, browsers hand out endpoints on
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com', // Chrome, Edge on Android, Opera
+  'android.googleapis.com', // older Chrome subscriptions
+  'updates.push.services.mozilla.com', // Firefox
+  'push.services.mozilla.com',
+  'web.push.apple.com', // Safari
+];
+
+const PUSH_SERVICE_DOMAINS = [
+  '.push.apple.com',
+  '.notify.windows.com', // Edge on Windows (WNS)
+];
+
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'https:' || url.username || url.password || (url.port && url.port !== '443')) {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.includes(host) ||
+    PUSH_SERVICE_DOMAINS.some(domain => host.endsWith(domain));
+}
@@ -1,20 +1,43 @@
 import Pusher from 'pusher';
 import PusherClient from 'pusher-js';
+import { CollaborationCursor } from '@/types/realtime';
+import type { CrdtOperation } from '@/lib/crdt';
+import { RealtimeClient, SSEClient } from '@/lib/sse-client';
+
+// Which transport carries real-time events. Pusher is used when its key is
+// configured, Server-Sent Events otherwise; NEXT_PUBLIC_REALTIME_TRANSPORT
+// overrides the choice. It is read on both the server and the client.
+export type RealtimeTransport = 'pusher' | 'sse';
+
+export const REALTIME_TRANSPORT: RealtimeTransport =
+  process.env.NEXT_PUBLIC_REALTIME_TRANSPORT === 'sse' || process.env.NEXT_PUBLIC_REALTIME_TRANSPORT === 'pusher'
+    ? process.env.NEXT_PUBLIC_REALTIME_TRANSPORT
+    : process.env.NEXT_PUBLIC_PUSHER_KEY ? 'pusher' : 'sse';
+
+// Server-side Pusher configuration, created on first use so the app runs
+// without Pusher credentials when SSE is configured
+let pusherServer: Pusher | null = null;
+
+function getPusherServer(): Pusher {
+  if (!pusherServer) {
+    pusherServer = new Pusher({
+      appId: process.env.PUSHER_APP_ID!,
+      key: process.env.PUSHER_KEY!,
+      secret: process.env.PUSHER_SECRET!,
+      cluster: process.env.PUSHER_CLUSTER || 'us2',
+      useTLS: true,
+    });
+  }
+  return pusherServer;
+}
 
-// Server-side Pusher configuration
-const pusherServer = new Pusher({
-  appId: process.env.PUSHER_APP_ID!,
-  key: process.env.PUSHER_KEY!,
-  secret: process.env.PUSHER_SECRET!,
-  cluster: process.env.PUSHER_CLUSTER || 'us2',
-  useTLS: true,
-});
-
-// Client-side Pusher configuration (for frontend)
-export const pusherClient = new PusherClient(process.env.NEXT_PUBLIC_PUSHER_KEY!, {
-  cluster: process.env.NEXT_PUBLIC_PUSHER_CLUSTER || 'us2',
-  enabledTransports: ['ws', 'wss'],
-});
+// Client-side connection (for frontend), over whichever transport is configured
+export const realtimeClient: RealtimeClient = REALTIME_TRANSPORT === 'pusher'
+  ? new PusherClient(process.env.NEXT_PUBLIC_PUSHER_KEY!, {
+      cluster: process.env.NEXT_PUBLIC_PUSHER_CLUSTER || 'us2',
+      enabledTransports: ['ws', 'wss'],
+    })
+  : new SSEClient();
 
 // Event types for type safety
 export interface PusherEventData {
@@ -64,8 +87,27 @@ export interface PusherEventData {
       actionUrl?: string;
     };
   };
+  'collaboration-updated': {
+    storyId: string;
+    sessionKey: string;
+    version: number;
+    userId: string;
+    site: string;
+    ops?: CrdtOperation[]; // left out when too large to broadcast; fetch them instead
+  };
+  'cursor-moved': {
+    storyId: string;
+    userId: string;
+    userName: string;
+    color?: string;
+    cursor: CollaborationCursor | null;
+    isActive: boolean;
+  };
 }
 
+// Pusher rejects messages over 10KB
+const MAX_BROADCAST_BYTES = 9000;
+
 // Real-time service for server-side operations
 export class RealTimeService {
   private static instance: RealTimeService;
@@ -77,6 +119,26 @@ export class RealTimeService {
     return RealTimeService.instance;
   }
 
+  // Publish an event on the configured transport
+  private async trigger(channel: string, event: string, data: any): Promise<void> {
+    if (REALTIME_TRANSPORT === 'sse') {
+      const { sseManager } = await import('@/lib/sse');
+      await sseManager.publish(channel, event, data);
+      return;
+    }
+
+    await getPusherServer().trigger(channel, event, data);
+  }
+
+  private async triggerBatch(batch: Array<{ channel: string; name: string; data: any }>): Promise<void> {
+    if (REALTIME_TRANSPORT === 'sse') {
+      await Promise.all(batch.map(item => this.trigger(item.channel, item.name, item.data)));
+      return;
+    }
+
+    await getPusherServer().triggerBatch(batch);
+  }
+
   // Send typing indicators for mentors
   async sendMentorTyping(
     storyId: string,
@@ -85,7 +147,7 @@ export class RealTimeService {
     isTyping: boolean
   ): Promise<void> {
     try {
-      await pusherServer.trigger(
+      await this.trigger(
         `story-${storyId}`,
         'mentor-typing',
         {
@@ -108,7 +170,7 @@ export class RealTimeService {
   ): Promise<void> {
     try {
       // Notify on story channel
-      await pusherServer.trigger(
+      await this.trigger(
         `story-${storyId}`,
         'comment-added',
         {
@@ -124,7 +186,7 @@ export class RealTimeService {
       );
 
       // Also notify the user directly
-      await pusherServer.trigger(
+      await this.trigger(
         `user-${userId}`,
         'notification',
         {
@@ -150,7 +212,7 @@ export class RealTimeService {
     updateType: 'content' | 'status' | 'assessment'
   ): Promise<void> {
     try {
-      await pusherServer.trigger(
+      await this.trigger(
         `story-${storyId}`,
         'story-updated',
         {
@@ -165,13 +227,39 @@ export class RealTimeService {
     }
   }
 
+  // Broadcast a batch of co-writing edits to everyone in the session
+  async sendCollaborationUpdate(
+    update: PusherEventData['collaboration-updated']
+  ): Promise<void> {
+    try {
+      const payload = JSON.stringify(update).length > MAX_BROADCAST_BYTES
+        ? { ...update, ops: undefined }
+        : update;
+
+      await this.trigger(`story-${update.storyId}`, 'collaboration-updated', payload);
+    } catch (error) {
+      console.error('Failed to send collaboration update:', error);
+    }
+  }
+
+  // Broadcast where a co-writer's cursor or selection is
+  async sendCursorUpdate(
+    presence: PusherEventData['cursor-moved']
+  ): Promise<void> {
+    try {
+      await this.trigger(`story-${presence.storyId}`, 'cursor-moved', presence);
+    } catch (error) {
+      console.error('Failed to send cursor update:', error);
+    }
+  }
+
   // Notify when an achievement is unlocked
   async notifyAchievementUnlocked(
     userId: string,
     achievement: any
   ): Promise<void> {
     try {
-      await pusherServer.trigger(
+      await this.trigger(
         `user-${userId}`,
         'achievement-unlocked',
         {
@@ -186,7 +274,7 @@ export class RealTimeService {
       );
 
       // Also send a general notification
-      await pusherServer.trigger(
+      await this.trigger(
         `user-${userId}`,
         'notification',
         {
@@ -215,7 +303,7 @@ export class RealTimeService {
     try {
       // Notify all assigned students
       const triggerPromises = assignedStudents.map(studentId =>
-        pusherServer.trigger(
+        this.trigger(
           `user-${studentId}`,
           'mentor-online',
           {
@@ -243,7 +331,7 @@ export class RealTimeService {
     }
   ): Promise<void> {
     try {
-      await pusherServer.trigger(
+      await this.trigger(
         `user-${userId}`,
         'notification',
         {
@@ -259,6 +347,15 @@ export class RealTimeService {
     }
   }
 
+  // Deliver a stored notification live. Unlike sendNotification this
+  // throws, so the caller can record the failure and retry.
+  async deliverNotification(
+    userId: string,
+    notification: PusherEventData['notification']['notification']
+  ): Promise<void> {
+    await this.trigger(`user-${userId}`, 'notification', { userId, notification });
+  }
+
   // Bulk notify multiple users
   async bulkNotify(
     userIds: string[],
@@ -272,7 +369,7 @@ export class RealTimeService {
     try {
       const channels = userIds.map(userId => `user-${userId}`);
       
-      await pusherServer.triggerBatch(
+      await this.triggerBatch(
         channels.map(channel => ({
           channel,
           name: 'notification',
@@ -303,7 +400,7 @@ export class RealTimeService {
         // Check if user owns the story or is assigned mentor
       }
 
-      const authData = pusherServer.authorizeChannel(socketId, channel);
+      const authData = getPusherServer().authorizeChannel(socketId, channel);
       return authData;
     } catch (error) {
       console.error('Failed to authenticate user for channel:', error);
@@ -314,11 +411,11 @@ export class RealTimeService {
 
 // Client-side hooks and utilities
 export class ClientRealTimeService {
-  private pusher: PusherClient;
+  private client: RealtimeClient;
   private channels: Map<string, any> = new Map();
 
   constructor() {
-    this.pusher = pusherClient;
+    this.client = realtimeClient;
   }
 
   // Subscribe to user-specific channel
@@ -333,7 +430,7 @@ export class ClientRealTimeService {
       return; // Already subscribed
     }
 
-    const channel = this.pusher.subscribe(channelName);
+    const channel = this.client.subscribe(channelName);
     
     if (callbacks.onNotification) {
       channel.bind('notification', callbacks.onNotification);
@@ -362,7 +459,7 @@ export class ClientRealTimeService {
       return; // Already subscribed
     }
 
-    const channel = this.pusher.subscribe(channelName);
+    const channel = this.client.subscribe(channelName);
     
     if (callbacks.onCommentAdded) {
       channel.bind('comment-added', callbacks.onCommentAdded);
@@ -382,7 +479,7 @@ export class ClientRealTimeService {
   // Unsubscribe from channel
   unsubscribe(channelName: string): void {
     if (this.channels.has(channelName)) {
-      this.pusher.unsubscribe(channelName);
+      this.client.unsubscribe(channelName);
       this.channels.delete(channelName);
     }
   }
@@ -390,14 +487,14 @@ export class ClientRealTimeService {
   // Unsubscribe from all channels
   unsubscribeAll(): void {
     this.channels.forEach((_, channelName) => {
-      this.pusher.unsubscribe(channelName);
+      this.client.unsubscribe(channelName);
     });
     this.channels.clear();
   }
 
   // Get connection state
   getConnectionState(): string {
-    return this.pusher.connection.state;
+    return this.client.connection.state;
   }
 
   // Trigger client event (for presence channels)
@@ -451,6 +548,20 @@ export async function notifyStoryUpdate(
   await realTimeService.notifyStoryUpdated(storyId, userId, updateType);
 }
 
+export async function notifyCollaborationUpdate(
+  update: PusherEventData['collaboration-updated']
+): Promise<void> {
+  const realTimeService = RealTimeService.getInstance();
+  await realTimeService.sendCollaborationUpdate(update);
+}
+
+export async function notifyCursorMoved(
+  presence: PusherEventData['cursor-moved']
+): Promise<void> {
+  const realTimeService = RealTimeService.getInstance();
+  await realTimeService.sendCursorUpdate(presence);
+}
+
 export async function notifyAchievement(
   userId: string,
   achievement: any
@@ -459,6 +570,14 @@ export async function notifyAchievement(
   await realTimeService.notifyAchievementUnlocked(userId, achievement);
 }
 
+export async function publishNotification(
+  userId: string,
+  notification: PusherEventData['notification']['notification']
+): Promise<void> {
+  const realTimeService = RealTimeService.getInstance();
+  await realTimeService.deliverNotification(userId, notification);
+}
+
 export async function updateMentorOnlineStatus(
   mentorId: string,
   mentorName: string,
@@ -512,23 +631,104 @@ export class TypingIndicatorManager {
   }
 }
 
-// Presence management for online/offline status
+// Presence management for online/offline status, and for the cursors of
+// everyone co-writing a story
 export class PresenceManager {
   private presenceChannel: any = null;
   private userId: string;
   private userRole: string;
+  private storyPresence: Map<string, {
+    channel: any;
+    handler: (data: PusherEventData['cursor-moved']) => void;
+    cursors: Map<string, PusherEventData['cursor-moved']>;
+  }> = new Map();
+  private cursorTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private readonly CURSOR_THROTTLE = 150;
 
   constructor(userId: string, userRole: string) {
     this.userId = userId;
     this.userRole = userRole;
   }
 
+  // Follow other co-writers' cursors in a story. The callback receives
+  // everyone currently active, excluding this user.
+  watchStory(
+    storyId: string,
+    onChange: (cursors: PusherEventData['cursor-moved'][]) => void,
+    initial: PusherEventData['cursor-moved'][] = []
+  ): void {
+    this.unwatchStory(storyId);
+
+    const cursors = new Map<string, PusherEventData['cursor-moved']>();
+    initial
+      .filter(presence => presence.userId !== this.userId && presence.isActive)
+      .forEach(presence => cursors.set(presence.userId, presence));
+
+    const handler = (data: PusherEventData['cursor-moved']) => {
+      if (data.userId === this.userId) return;
+
+      if (data.isActive) {
+        cursors.set(data.userId, data);
+      } else {
+        cursors.delete(data.userId);
+      }
+      onChange(Array.from(cursors.values()));
+    };
+
+    const channel = realtimeClient.subscribe(`story-${storyId}`);
+    channel.bind('cursor-moved', handler);
+
+    this.storyPresence.set(storyId, { channel, handler, cursors });
+    onChange(Array.from(cursors.values()));
+  }
+
+  // Share this user's cursor, throttled so typing doesn't flood the server
+  updateCursor(storyId: string, sessionKey: string, cursor: CollaborationCursor): void {
+    if (this.cursorTimeouts.has(storyId)) {
+      clearTimeout(this.cursorTimeouts.get(storyId)!);
+    }
+
+    const timeout = setTimeout(async () => {
+      this.cursorTimeouts.delete(storyId);
+      try {
+        await fetch(`/api/stories/${storyId}/collaboration`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sessionKey, cursor }),
+        });
+      } catch (error) {
+        console.error('Failed to share cursor:', error);
+      }
+    }, this.CURSOR_THROTTLE);
+
+    this.cursorTimeouts.set(storyId, timeout);
+  }
+
+  unwatchStory(storyId: string): void {
+    const presence = this.storyPresence.get(storyId);
+    if (presence) {
+      // Only unbind: the story channel may have other subscribers
+      presence.channel.unbind('cursor-moved', presence.handler);
+      this.storyPresence.delete(storyId);
+    }
+
+    if (this.cursorTimeouts.has(storyId)) {
+      clearTimeout(this.cursorTimeouts.get(storyId)!);
+      this.cursorTimeouts.delete(storyId);
+    }
+  }
+
   connect(): void {
     if (this.presenceChannel) {
       return; // Already connected
     }
 
-    this.presenceChannel = pusherClient.subscribe(`presence-users`);
+    // Presence channels are a Pusher feature
+    if (REALTIME_TRANSPORT !== 'pusher') {
+      return;
+    }
+
+    this.presenceChannel = realtimeClient.subscribe(`presence-users`);
 
     this.presenceChannel.bind('pusher:subscription_succeeded', (members: any) => {
       console.log('Connected to presence channel');
@@ -548,9 +748,11 @@ export class PresenceManager {
 
   disconnect(): void {
     if (this.presenceChannel) {
-      pusherClient.unsubscribe('presence-users');
+      realtimeClient.unsubscribe('presence-users');
       this.presenceChannel = null;
     }
+
+    Array.from(this.storyPresence.keys()).forEach(storyId => this.unwatchStory(storyId));
   }
 
   private handlePresenceUpdate(members: any): void {
@@ -633,21 +835,21 @@ export class ConnectionManager {
   }
 
   private setupConnectionHandlers(): void {
-    pusherClient.connection.bind('connected', () => {
+    realtimeClient.connection.bind('connected', () => {
       console.log('Pusher connected');
       this.reconnectAttempts = 0;
     });
 
-    pusherClient.connection.bind('disconnected', () => {
+    realtimeClient.connection.bind('disconnected', () => {
       console.log('Pusher disconnected');
     });
 
-    pusherClient.connection.bind('failed', () => {
+    realtimeClient.connection.bind('failed', () => {
       console.log('Pusher connection failed');
       this.handleReconnect();
     });
 
-    pusherClient.connection.bind('unavailable', () => {
+    realtimeClient.connection.bind('unavailable', () => {
       console.log('Pusher unavailable');
       this.handleReconnect();
     });
@@ -661,7 +863,7 @@ export class ConnectionManager {
       console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
       
       setTimeout(() => {
-        pusherClient.connect();
+        realtimeClient.connect();
       }, delay);
     } else {
       console.error('Max reconnection attempts reached');
@@ -669,11 +871,11 @@ export class ConnectionManager {
   }
 
   getConnectionState(): string {
-    return pusherClient.connection.state;
+    return realtimeClient.connection.state;
   }
 
   isConnected(): boolean {
-    return pusherClient.connection.state === 'connected';
+    return realtimeClient.connection.state === 'connected';
   }
 }
 
@@ -683,13 +885,19 @@ export const typingManager = new TypingIndicatorManager();
 export const autoSaveManager = new AutoSaveManager();
 export const connectionManager = new ConnectionManager();
 
-// Utility function to initialize client-side real-time features
+// Utility function to initialize client-side real-time features over the
+// configured transport
 export function initializeRealTime(userId: string, userRole: string) {
   const clientService = new ClientRealTimeService();
   const presenceManager = new PresenceManager(userId, userRole);
 
-  // Connect to presence
-  presenceManager.connect();
+  if (REALTIME_TRANSPORT === 'pusher') {
+    // Connect to presence
+    presenceManager.connect();
+  } else {
+    // The tab's event stream opens with its first subscription
+    realtimeClient.connect();
+  }
 
   // Subscribe to user-specific events
   clientService.subscribeToUser(userId, {
@@ -0,0 +1,339 @@
+// lib/rubrics.ts - Rubric resolution, AI prompt and parse helpers, per-criterion scoring and trends
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import Rubric, { IRubric } from '@/models/Rubric';
+import RubricScore from '@/models/RubricScore';
+import Assignment from '@/models/Assignment';
+import Story from '@/models/Story';
+import {
+  AssessmentSource,
+  CriterionScore,
+  CriterionTrend,
+  ResolvedRubric,
+  RubricAssessment,
+  RubricCriterion,
+  RubricLevel,
+} from '@/types/rubric';
+
+type SessionUser = { id: string; name?: string | null; role: string };
+type Result<T> = T | { error: string; status: number };
+
+// The scale used when a criterion doesn't define its own levels
+export const DEFAULT_LEVELS: RubricLevel[] = [
+  { score: 1, label: 'Beginning', descriptor: 'Not shown yet, or only once' },
+  { score: 2, label: 'Developing', descriptor: 'Shown in places but not consistently' },
+  { score: 3, label: 'Secure', descriptor: 'Shown clearly through most of the story' },
+  { score: 4, label: 'Excellent', descriptor: 'Shown confidently and with flair throughout' },
+];
+
+// Stories outside an assignment are scored on the same ground the fixed AI
+// scores have always covered
+export const DEFAULT_RUBRIC: ResolvedRubric = {
+  name: 'Story writing',
+  criteria: [
+    {
+      name: 'Grammar and punctuation',
+      weight: 1,
+      levels: [
+        { score: 1, label: 'Beginning', descriptor: 'Frequent missing capitals and full stops make it hard to read' },
+        { score: 2, label: 'Developing', descriptor: 'Most sentences are correct but mistakes slow the reader down' },
+        { score: 3, label: 'Secure', descriptor: 'Sentences are correct with only the odd slip' },
+        { score: 4, label: 'Excellent', descriptor: 'Accurate throughout, including speech marks and varied punctuation' },
+      ],
+    },
+    {
+      name: 'Creativity',
+      weight: 1,
+      levels: [
+        { score: 1, label: 'Beginning', descriptor: 'Ideas are mostly borrowed or listed without detail' },
+        { score: 2, label: 'Developing', descriptor: 'Some original ideas and a few describing words' },
+        { score: 3, label: 'Secure', descriptor: 'Original ideas brought to life with description' },
+        { score: 4, label: 'Excellent', descriptor: 'Surprising ideas and vivid language the reader remembers' },
+      ],
+    },
+    {
+      name: 'Clear beginning, middle and end',
+      weight: 1,
+      levels: [
+        { score: 1, label: 'Beginning', descriptor: 'Events happen without a clear order or ending' },
+        { score: 2, label: 'Developing', descriptor: 'Has an opening and events, but the ending is sudden' },
+        { score: 3, label: 'Secure', descriptor: 'A clear opening, a problem and an ending that solves it' },
+        { score: 4, label: 'Excellent', descriptor: 'A well-paced story whose ending ties back to the start' },
+      ],
+    },
+    {
+      name: 'Uses the story elements',
+      weight: 1,
+      levels: [
+        { score: 1, label: 'Beginning', descriptor: 'The chosen setting, character and theme barely appear' },
+        { score: 2, label: 'Developing', descriptor: 'Some of the chosen elements appear' },
+        { score: 3, label: 'Secure', descriptor: 'All the chosen elements play a part' },
+        { score: 4, label: 'Excellent', descriptor: 'The elements shape the whole story, especially the theme' },
+      ],
+    },
+  ],
+};
+
+function criterionKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function toResolvedRubric(rubric: {
+  _id?: unknown;
+  name: string;
+  criteria: RubricCriterion[];
+}): ResolvedRubric {
+  return {
+    ...(rubric._id ? { rubricId: String(rubric._id) } : {}),
+    name: rubric.name,
+    criteria: rubric.criteria.map(criterion => ({
+      name: criterion.name,
+      ...(criterion.description ? { description: criterion.description } : {}),
+      weight: criterion.weight || 1,
+      levels: criterion.levels && criterion.levels.length > 0
+        ? [...criterion.levels].sort((a, b) => a.score - b.score)
+        : DEFAULT_LEVELS,
+    })),
+  };
+}
+
+// The rubric a story is marked against: its assignment's saved rubric, then
+// the assignment's inline criteria, then the built-in one
+export async function resolveStoryRubric(story: { assignmentId?: unknown }): Promise<ResolvedRubric> {
+  if (!story.assignmentId) {
+    return DEFAULT_RUBRIC;
+  }
+
+  await connectToDatabase();
+
+  const assignment = await Assignment.findById(story.assignmentId).select('title rubricId rubric').lean();
+  if (!assignment) {
+    return DEFAULT_RUBRIC;
+  }
+
+  if (assignment.rubricId) {
+    const rubric = await Rubric.findById(assignment.rubricId).lean();
+    if (rubric) {
+      return toResolvedRubric(rubric);
+    }
+  }
+
+  if (assignment.rubric && assignment.rubric.length > 0) {
+    return toResolvedRubric({ name: assignment.title, criteria: assignment.rubric });
+  }
+
+  return DEFAULT_RUBRIC;
+}
+
+// A mentor's own rubric, or any rubric for admins
+export async function loadMentorRubric(
+  user: SessionUser,
+  rubricId: string
+): Promise<Result<{ rubric: IRubric }>> {
+  if (!mongoose.Types.ObjectId.isValid(rubricId)) {
+    return { error: 'Invalid rubric ID', status: 400 };
+  }
+
+  await connectToDatabase();
+
+  const rubric = await Rubric.findById(rubricId);
+  if (!rubric) {
+    return { error: 'Rubric not found', status: 404 };
+  }
+
+  if (user.role !== 'admin' && rubric.mentorId.toString() !== user.id) {
+    return { error: 'Access denied', status: 403 };
+  }
+
+  return { rubric };
+}
+
+// The part of an assessment prompt that asks for per-criterion levels
+export function buildRubricPrompt(rubric: ResolvedRubric): string {
+  const criteria = rubric.criteria.map((criterion, index) => {
+    const levels = criterion.levels
+      .map(level => `   ${level.score} = ${level.label}${level.descriptor ? `: ${level.descriptor}` : ''}`)
+      .join('\n');
+    return `${index + 1}. ${criterion.name}${criterion.description ? ` - ${criterion.description}` : ''}\n${levels}`;
+  }).join('\n');
+
+  return `Also score the story against the "${rubric.name}" rubric. For each criterion choose the level whose description fits best:
+${criteria}
+
+Add a "rubric" array to the JSON with one entry per criterion:
+"rubric": [{ "criterion": "exact criterion name", "level": level_number, "comment": "one encouraging sentence about this criterion" }]`;
+}
+
+// Match raw per-criterion scores, from a model or a mentor, to the rubric.
+// Unknown criteria are dropped and levels are clamped to each scale.
+export function parseRubricScores(raw: unknown, rubric: ResolvedRubric): CriterionScore[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const byKey = new Map<string, { level?: unknown; comment?: unknown }>();
+  raw.forEach(entry => {
+    if (entry && typeof entry.criterion === 'string') {
+      byKey.set(criterionKey(entry.criterion), entry);
+    }
+  });
+
+  const scores: CriterionScore[] = [];
+  for (const criterion of rubric.criteria) {
+    const entry = byKey.get(criterionKey(criterion.name));
+    const level = Math.round(Number(entry?.level));
+    if (!entry || !Number.isFinite(level)) continue;
+
+    const minLevel = criterion.levels[0].score;
+    const maxLevel = criterion.levels[criterion.levels.length - 1].score;
+    const clamped = Math.min(maxLevel, Math.max(minLevel, level));
+
+    scores.push({
+      criterion: criterion.name,
+      level: clamped,
+      maxLevel,
+      label: criterion.levels.find(candidate => candidate.score === clamped)?.label,
+      weight: criterion.weight,
+      ...(typeof entry.comment === 'string' && entry.comment.trim()
+        ? { comment: entry.comment.trim().substring(0, 500) }
+        : {}),
+    });
+  }
+
+  return scores;
+}
+
+// Map a 0-100 measure onto a criterion's scale
+export function levelFromPercent(percent: number, maxLevel: number): number {
+  return Math.min(maxLevel, Math.max(1, Math.ceil((percent / 100) * maxLevel)));
+}
+
+// Weighted average of the levels reached, as 0-100
+export function weightedScore(scores: CriterionScore[]): number {
+  const totalWeight = scores.reduce((sum, score) => sum + score.weight, 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+
+  const total = scores.reduce((sum, score) => sum + (score.level / score.maxLevel) * score.weight, 0);
+  return Math.round((total / totalWeight) * 100);
+}
+
+// Keep the scoring on the story, replacing the previous one from the same
+// source, and as per-criterion records for trend reports
+export async function recordRubricAssessment(
+  story: { _id: unknown; authorId: unknown; assignmentId?: unknown },
+  rubric: ResolvedRubric,
+  scores: CriterionScore[],
+  source: AssessmentSource,
+  assessor?: SessionUser
+): Promise<RubricAssessment> {
+  await connectToDatabase();
+
+  const assessment: RubricAssessment = {
+    ...(rubric.rubricId ? { rubricId: rubric.rubricId } : {}),
+    rubricName: rubric.name,
+    source,
+    ...(assessor ? { assessorId: assessor.id, assessorName: assessor.name || undefined } : {}),
+    criteria: scores,
+    weightedScore: weightedScore(scores),
+    assessedAt: new Date(),
+  };
+
+  // One pipeline update swaps this source's entry without a read-modify-write
+  await Story.updateOne({ _id: story._id }, [{
+    $set: {
+      rubricAssessments: {
+        $concatArrays: [
+          {
+            $filter: {
+              input: { $ifNull: ['$rubricAssessments', []] },
+              cond: { $ne: ['$$this.source', source] },
+            },
+          },
+          // $literal so a comment starting with "$" isn't read as a field path
+          [{
+            $literal: {
+              ...assessment,
+              ...(assessment.rubricId ? { rubricId: new mongoose.Types.ObjectId(assessment.rubricId) } : {}),
+              ...(assessment.assessorId ? { assessorId: new mongoose.Types.ObjectId(assessment.assessorId) } : {}),
+            },
+          }],
+        ],
+      },
+    },
+  }]);
+
+  await RubricScore.deleteMany({ storyId: story._id, source });
+  if (scores.length > 0) {
+    await RubricScore.insertMany(scores.map(score => ({
+      storyId: story._id,
+      authorId: story.authorId,
+      ...(story.assignmentId ? { assignmentId: story.assignmentId } : {}),
+      ...(rubric.rubricId ? { rubricId: rubric.rubricId } : {}),
+      rubricName: rubric.name,
+      criterion: score.criterion,
+      level: score.level,
+      maxLevel: score.maxLevel,
+      score: Math.round((score.level / score.maxLevel) * 100),
+      weight: score.weight,
+      source,
+      ...(assessor ? { assessorId: assessor.id } : {}),
+      ...(score.comment ? { comment: score.comment } : {}),
+      assessedAt: assessment.assessedAt,
+    })));
+  }
+
+  return assessment;
+}
+
+// Monthly average per criterion across a set of writers. Criteria are matched
+// by name, so the same criterion in different rubrics forms one trend line.
+export async function getCriterionTrends(
+  authorIds: string[],
+  options: { source?: AssessmentSource; since?: Date } = {}
+): Promise<CriterionTrend[]> {
+  await connectToDatabase();
+
+  if (authorIds.length === 0) {
+    return [];
+  }
+
+  const match: Record<string, unknown> = {
+    authorId: { $in: authorIds.map(id => new mongoose.Types.ObjectId(id)) },
+  };
+  if (options.source) match.source = options.source;
+  if (options.since) match.assessedAt = { $gte: options.since };
+
+  const rows = await RubricScore.aggregate<{
+    _id: { criterion: string; period: string };
+    averageScore: number;
+    count: number;
+  }>([
+    { $match: match },
+    {
+      $group: {
+        _id: {
+          criterion: '$criterion',
+          period: { $dateToString: { format: '%Y-%m', date: '$assessedAt' } },
+        },
+        averageScore: { $avg: '$score' },
+        count: { $sum: 1 },
+      },
+    },
+    { $sort: { '_id.criterion': 1, '_id.period': 1 } },
+  ]);
+
+  const trends = new Map<string, CriterionTrend>();
+  rows.forEach(row => {
+    const trend = trends.get(row._id.criterion) || { criterion: row._id.criterion, points: [] };
+    trend.points.push({
+      period: row._id.period,
+      averageScore: Math.round(row.averageScore),
+      count: row.count,
+    });
+    trends.set(row._id.criterion, trend);
+  });
+
+  return Array.from(trends.values());
+}
@@ -7,7 +7,7 @@ import mongoose from 'mongoose';
 const SecurityEventSchema = new mongoose.Schema({
   type: {
     type: String,
-    enum: ['failed_login', 'suspicious_activity', 'content_violation', 'rate_limit_exceeded', 'invalid_token', 'permission_denied'],
+    enum: ['failed_login', 'suspicious_activity', 'content_violation', 'rate_limit_exceeded', 'invalid_token', 'permission_denied', 'moderation_decision', 'parental_consent', 'data_request', 'file_uploaded', 'file_accessed', 'file_deleted', 'collaborator_changed', 'classroom_changed'],
     required: true,
   },
   severity: {
@@ -815,19 +815,6 @@ export class SessionSecurity {
   }
 }
 
-// Export main security functions
-export {
-  ContentFilter,
-  InputSanitizer,
-  CSRFProtection,
-  SecurityHeaders,
-  SecurityLogger,
-  ThreatDetection,
-  PasswordSecurity,
-  FileSecurity,
-  SessionSecurity,
-};
-
 // Main security middleware wrapper
 export async function securityMiddleware(req: NextRequest, userId?: string): Promise<{
   passed: boolean;
@@ -0,0 +1,13 @@
+// lib/security.ts - Security helpers used by API routes
+export {
+  ContentFilter,
+  InputSanitizer,
+  CSRFProtection,
+  SecurityHeaders,
+  SecurityLogger,
+  ThreatDetection,
+  PasswordSecurity,
+  FileSecurity,
+  SessionSecurity,
+  securityMiddleware,
+} from '@/lib/security-logger';
@@ -0,0 +1,182 @@
+// lib/sse-client.ts - Browser side of the Server-Sent Events transport
+//
+// Mirrors the small part of the pusher-js API the app uses (subscribe, bind,
+// unbind, connection state) so the rest of the code doesn't care which
+// transport is configured. All of a tab's channels share one EventSource,
+// reopened when the subscriptions change.
+
+type EventHandler = (data: any) => void;
+
+export interface RealtimeChannel {
+  bind(eventName: string, callback: EventHandler): unknown;
+  unbind(eventName?: string, callback?: EventHandler): unknown;
+  trigger(eventName: string, data: any): boolean;
+}
+
+export interface RealtimeClient {
+  subscribe(channelName: string): RealtimeChannel;
+  unsubscribe(channelName: string): void;
+  connect(): void;
+  disconnect(): void;
+  connection: {
+    state: string;
+    bind(eventName: string, callback: (...args: any[]) => void): unknown;
+  };
+}
+
+export class SSEChannel implements RealtimeChannel {
+  private handlers = new Map<string, Set<EventHandler>>();
+
+  constructor(public readonly name: string) {}
+
+  bind(eventName: string, callback: EventHandler): this {
+    const handlers = this.handlers.get(eventName) || new Set<EventHandler>();
+    handlers.add(callback);
+    this.handlers.set(eventName, handlers);
+    return this;
+  }
+
+  unbind(eventName?: string, callback?: EventHandler): this {
+    if (!eventName) {
+      this.handlers.clear();
+    } else if (!callback) {
+      this.handlers.delete(eventName);
+    } else {
+      this.handlers.get(eventName)?.delete(callback);
+    }
+    return this;
+  }
+
+  // Client events are a Pusher feature; there is no peer-to-peer path here
+  trigger(): boolean {
+    return false;
+  }
+
+  emit(eventName: string, data: any): void {
+    this.handlers.get(eventName)?.forEach(handler => {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error(`Error handling ${eventName} on ${this.name}:`, error);
+      }
+    });
+  }
+}
+
+class SSEConnectionState {
+  state: 'initialized' | 'connecting' | 'connected' | 'unavailable' | 'disconnected' = 'initialized';
+  private listeners = new Map<string, Set<(...args: any[]) => void>>();
+
+  bind(eventName: string, callback: (...args: any[]) => void): this {
+    const listeners = this.listeners.get(eventName) || new Set();
+    listeners.add(callback);
+    this.listeners.set(eventName, listeners);
+    return this;
+  }
+
+  setState(state: SSEConnectionState['state']): void {
+    if (state === this.state) return;
+
+    const previous = this.state;
+    this.state = state;
+    this.listeners.get('state_change')?.forEach(listener => listener({ previous, current: state }));
+    this.listeners.get(state)?.forEach(listener => listener());
+  }
+}
+
+export class SSEClient implements RealtimeClient {
+  readonly connection = new SSEConnectionState();
+  private channels = new Map<string, SSEChannel>();
+  private source: EventSource | null = null;
+  private lastEventId: string | null = null;
+  private reopenTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly url: string = '/api/realtime/stream') {}
+
+  subscribe(channelName: string): SSEChannel {
+    let channel = this.channels.get(channelName);
+    if (!channel) {
+      channel = new SSEChannel(channelName);
+      this.channels.set(channelName, channel);
+      this.scheduleReopen();
+    }
+    return channel;
+  }
+
+  unsubscribe(channelName: string): void {
+    if (this.channels.delete(channelName)) {
+      this.scheduleReopen();
+    }
+  }
+
+  connect(): void {
+    this.scheduleReopen();
+  }
+
+  disconnect(): void {
+    if (this.reopenTimer) {
+      clearTimeout(this.reopenTimer);
+      this.reopenTimer = null;
+    }
+    this.source?.close();
+    this.source = null;
+    this.connection.setState('disconnected');
+  }
+
+  // Subscriptions tend to change in bursts (a page mounting several
+  // components), so batch them into a single reconnect
+  private scheduleReopen(): void {
+    if (typeof window === 'undefined' || this.reopenTimer) return;
+
+    this.reopenTimer = setTimeout(() => {
+      this.reopenTimer = null;
+      this.open();
+    }, 50);
+  }
+
+  private open(): void {
+    this.source?.close();
+    this.source = null;
+
+    if (this.channels.size === 0) {
+      this.connection.setState('disconnected');
+      return;
+    }
+
+    const params = new URLSearchParams({ channels: Array.from(this.channels.keys()).join(',') });
+    // A new EventSource doesn't carry the old one's Last-Event-ID
+    if (this.lastEventId) {
+      params.set('lastEventId', this.lastEventId);
+    }
+
+    const source = new EventSource(`${this.url}?${params.toString()}`);
+    this.source = source;
+    this.connection.setState('connecting');
+
+    source.onopen = () => this.connection.setState('connected');
+
+    source.onmessage = (message: MessageEvent) => {
+      if (message.lastEventId) {
+        this.lastEventId = message.lastEventId;
+      }
+
+      try {
+        const { channel, event, data } = JSON.parse(message.data);
+        this.channels.get(channel)?.emit(event, data);
+      } catch (error) {
+        console.error('Malformed real-time event:', error);
+      }
+    };
+
+    // Missed too much to replay: let subscribers reload their state
+    source.addEventListener('resync', () => {
+      this.channels.forEach(channel => channel.emit('resync', {}));
+    });
+
+    source.onerror = () => {
+      // EventSource retries by itself (sending Last-Event-ID) unless the
+      // server refused the stream outright
+      this.connection.setState(source.readyState === EventSource.CLOSED ? 'unavailable' : 'connecting');
+    };
+  }
+}
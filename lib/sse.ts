@@ -1,29 +1,380 @@
-// File 102: lib/sse.ts - Server-Sent Events for Real-time Updates
+// lib/sse.ts - Server-Sent Events transport for real-time updates
+//
+// Used instead of Pusher when the app runs without Pusher credentials. Each
+// browser tab holds one stream subscribed to a set of channels named the same
+// way as the Pusher ones ("story-<id>", "user-<id>", "global"). Every event is
+// written to the RealtimeEvent log under a global sequence number, which is
+// the SSE event id: a reconnecting tab sends Last-Event-ID and gets what it
+// missed, and each server instance polls the log for events published by the
+// others.
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import RealtimeEvent from '@/models/RealtimeEvent';
+import Story from '@/models/Story';
+import { ChannelType } from '@/types/realtime';
+import { canAccessStoryData } from '@/lib/auth';
+import { resolveCollaborationAccess } from '@/lib/collaboration';
+import { getLinkedChildIds } from '@/lib/parent-oversight';
+
+type SessionUser = { id: string; name?: string | null; role: string };
+
+// Sequence counter shared by all instances
+const RealtimeSequenceSchema = new mongoose.Schema({
+  _id: { type: String, required: true },
+  value: { type: Number, default: 0 },
+});
+
+const RealtimeSequence = mongoose.models.RealtimeSequence || mongoose.model('RealtimeSequence', RealtimeSequenceSchema);
+
+const INSTANCE_ID = crypto.randomBytes(8).toString('hex');
+
+const HEARTBEAT_INTERVAL = 25 * 1000;
+const POLL_INTERVAL = 1000;
+const REPLAY_LIMIT = 500;
+const MAX_CONNECTIONS_PER_USER = 10;
+export const MAX_CHANNELS_PER_CONNECTION = 20;
+
+// How long a gap in the sequence may be waited on: a number is taken before
+// its event is inserted, so for a moment a later event can be visible first
+const GAP_WAIT_MS = 3000;
+
+const encoder = new TextEncoder();
+
+interface LoggedEvent {
+  sequence: number;
+  channel: string;
+  event: string;
+  data: any;
+  origin?: string;
+}
+
+interface SSEConnection {
+  id: string;
+  userId: string;
+  channels: Set<string>;
+  controller: ReadableStreamDefaultController<Uint8Array>;
+  heartbeat: NodeJS.Timeout;
+  openedAt: number;
+  lastSequence: number;
+  // Live events held back while the connection is still replaying
+  backlog: LoggedEvent[] | null;
+}
+
+// Channel helpers
+const PER_ID_CHANNELS: ChannelType[] = ['story', 'user', 'mentor', 'notification', 'progress'];
+
+export function channelName(type: ChannelType, id?: string): string {
+  return type === 'global' ? 'global' : `${type}-${id}`;
+}
+
+export function parseChannel(channel: string): { type: ChannelType; id?: string } | null {
+  if (channel === 'global') {
+    return { type: 'global' };
+  }
+
+  const match = channel.match(/^([a-z]+)-([a-f0-9]{24})$/);
+  if (!match || !PER_ID_CHANNELS.includes(match[1] as ChannelType)) {
+    return null;
+  }
+
+  return { type: match[1] as ChannelType, id: match[2] };
+}
+
+// Whether a user may listen on a channel. Story channels follow who may work
+// on or read the story; personal channels belong to their user.
+export async function canSubscribe(user: SessionUser, channel: string): Promise<boolean> {
+  const parsed = parseChannel(channel);
+  if (!parsed) return false;
+
+  switch (parsed.type) {
+    case 'global':
+      return true;
+
+    case 'user':
+    case 'notification':
+    case 'progress':
+      return parsed.id === user.id;
+
+    case 'mentor':
+      return user.role === 'mentor' && parsed.id === user.id;
+
+    case 'story': {
+      await connectToDatabase();
+      const story = await Story.findById(parsed.id).select('authorId collaborators status').lean();
+      if (!story) return false;
+
+      if (await resolveCollaborationAccess(user, story)) {
+        return true;
+      }
+
+      if (user.role === 'parent') {
+        const linkedChildIds = await getLinkedChildIds(user.id);
+        return canAccessStoryData('parent', user.id, story.authorId.toString(), linkedChildIds);
+      }
+
+      return false;
+    }
+
+    default:
+      return false;
+  }
+}
+
+// The sequence a client last saw, from the Last-Event-ID header (sent by
+// EventSource on reconnect) or the lastEventId query parameter
+export function parseLastEventId(value: string | null): number | null {
+  if (!value || !/^\d{1,15}$/.test(value)) return null;
+  return parseInt(value, 10);
+}
+
+export function formatSSEEvent(event: LoggedEvent): string {
+  const payload = JSON.stringify({ channel: event.channel, event: event.event, data: event.data });
+  return event.sequence > 0
+    ? `id: ${event.sequence}\ndata: ${payload}\n\n`
+    : `data: ${payload}\n\n`;
+}
+
+async function nextSequence(): Promise<number> {
+  const counter = await RealtimeSequence.findOneAndUpdate(
+    { _id: 'events' },
+    { $inc: { value: 1 } },
+    { upsert: true, new: true }
+  ).lean();
+  return counter.value;
+}
+
 export class SSEManager {
-    private connections = new Map<string, Response>();
-  
-    addConnection(userId: string, response: Response) {
-      this.connections.set(userId, response);
-    }
-  
-    removeConnection(userId: string) {
-      this.connections.delete(userId);
-    }
-  
-    sendToUser(userId: string, data: any) {
-      const connection = this.connections.get(userId);
-      if (connection) {
-        const encoder = new TextEncoder();
-        const formattedData = `data: ${JSON.stringify(data)}\n\n`;
-        connection.body?.getWriter().write(encoder.encode(formattedData));
+  private connections = new Map<string, SSEConnection>();
+  private userConnections = new Map<string, Set<string>>();
+
+  private pollTimer: NodeJS.Timeout | null = null;
+  private pollCursor: number | null = null;
+  private gapSince: number | null = null;
+  private isPolling = false;
+
+  // Open a stream for one tab. Events after lastEventId on its channels are
+  // replayed first; live events that arrive meanwhile are held until then.
+  openStream(
+    userId: string,
+    channels: string[],
+    lastEventId: number | null,
+    signal?: AbortSignal
+  ): ReadableStream<Uint8Array> {
+    const id = crypto.randomBytes(8).toString('hex');
+
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const connection: SSEConnection = {
+          id,
+          userId,
+          channels: new Set(channels),
+          controller,
+          heartbeat: setInterval(() => this.write(connection, ': heartbeat\n\n'), HEARTBEAT_INTERVAL),
+          openedAt: Date.now(),
+          lastSequence: lastEventId ?? 0,
+          backlog: lastEventId !== null ? [] : null,
+        };
+
+        this.register(connection);
+        this.write(connection, `retry: 3000\n: connected ${channels.join(',')}\n\n`);
+
+        signal?.addEventListener('abort', () => this.close(id));
+
+        if (lastEventId !== null) {
+          this.replay(connection, lastEventId).catch(error => {
+            console.error('SSE replay failed:', error);
+            this.write(connection, 'event: resync\ndata: {}\n\n');
+            this.flushBacklog(connection);
+          });
+        }
+      },
+      cancel: () => this.close(id),
+    });
+  }
+
+  // Log an event and deliver it to this instance's subscribers. Other
+  // instances pick it up from the log.
+  async publish(channel: string, event: string, data: any): Promise<void> {
+    let sequence = 0;
+    try {
+      await connectToDatabase();
+      sequence = await nextSequence();
+      await RealtimeEvent.create({ sequence, channel, event, data, origin: INSTANCE_ID });
+    } catch (error) {
+      // Still deliver live; it just can't be replayed
+      console.error('Failed to log real-time event:', error);
+    }
+
+    this.deliver({ sequence, channel, event, data });
+  }
+
+  async sendToUser(userId: string, event: string, data: any): Promise<void> {
+    await this.publish(channelName('user', userId), event, data);
+  }
+
+  async broadcast(event: string, data: any): Promise<void> {
+    await this.publish('global', event, data);
+  }
+
+  getConnectionCount(userId?: string): number {
+    return userId ? this.userConnections.get(userId)?.size || 0 : this.connections.size;
+  }
+
+  private register(connection: SSEConnection): void {
+    this.connections.set(connection.id, connection);
+
+    const userSet = this.userConnections.get(connection.userId) || new Set<string>();
+    userSet.add(connection.id);
+    this.userConnections.set(connection.userId, userSet);
+
+    // A user may have several tabs open, but not an unbounded number
+    if (userSet.size > MAX_CONNECTIONS_PER_USER) {
+      const oldest = Array.from(userSet)
+        .map(connectionId => this.connections.get(connectionId)!)
+        .sort((a, b) => a.openedAt - b.openedAt)[0];
+      this.close(oldest.id);
+    }
+
+    this.startPolling();
+  }
+
+  private close(connectionId: string): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    clearInterval(connection.heartbeat);
+    this.connections.delete(connectionId);
+
+    const userSet = this.userConnections.get(connection.userId);
+    if (userSet) {
+      userSet.delete(connectionId);
+      if (userSet.size === 0) {
+        this.userConnections.delete(connection.userId);
+      }
+    }
+
+    try {
+      connection.controller.close();
+    } catch {
+      // Already closed by the client
+    }
+
+    if (this.connections.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  private write(connection: SSEConnection, chunk: string): void {
+    try {
+      connection.controller.enqueue(encoder.encode(chunk));
+    } catch {
+      this.close(connection.id);
+    }
+  }
+
+  private send(connection: SSEConnection, event: LoggedEvent): void {
+    if (event.sequence > 0) {
+      if (event.sequence <= connection.lastSequence) return;
+      connection.lastSequence = event.sequence;
+    }
+    this.write(connection, formatSSEEvent(event));
+  }
+
+  private deliver(event: LoggedEvent): void {
+    this.connections.forEach(connection => {
+      if (!connection.channels.has(event.channel)) return;
+
+      if (connection.backlog) {
+        connection.backlog.push(event);
+      } else {
+        this.send(connection, event);
       }
+    });
+  }
+
+  private async replay(connection: SSEConnection, lastEventId: number): Promise<void> {
+    await connectToDatabase();
+
+    const events = await RealtimeEvent.find({
+      channel: { $in: Array.from(connection.channels) },
+      sequence: { $gt: lastEventId },
+    })
+      .sort({ sequence: 1 })
+      .limit(REPLAY_LIMIT + 1)
+      .lean();
+
+    if (!this.connections.has(connection.id)) return;
+
+    if (events.length > REPLAY_LIMIT) {
+      // Too far behind to replay; the client reloads its state instead
+      this.write(connection, 'event: resync\ndata: {}\n\n');
+    } else {
+      events.forEach(event => this.send(connection, event));
     }
-  
-    broadcast(data: any) {
-      this.connections.forEach((connection) => {
-        const encoder = new TextEncoder();
-        const formattedData = `data: ${JSON.stringify(data)}\n\n`;
-        connection.body?.getWriter().write(encoder.encode(formattedData));
-      });
+
+    this.flushBacklog(connection);
+  }
+
+  private flushBacklog(connection: SSEConnection): void {
+    const backlog = connection.backlog || [];
+    connection.backlog = null;
+    backlog
+      .sort((a, b) => a.sequence - b.sequence)
+      .forEach(event => this.send(connection, event));
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => console.error('SSE event poll failed:', error));
+    }, POLL_INTERVAL);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.pollCursor = null;
+    this.gapSince = null;
+  }
+
+  // Deliver events other instances have logged since the last poll
+  private async poll(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      await connectToDatabase();
+
+      if (this.pollCursor === null) {
+        const latest = await RealtimeEvent.findOne().sort({ sequence: -1 }).select('sequence').lean();
+        this.pollCursor = latest?.sequence || 0;
+        return;
+      }
+
+      const events = await RealtimeEvent.find({ sequence: { $gt: this.pollCursor } })
+        .sort({ sequence: 1 })
+        .limit(REPLAY_LIMIT)
+        .lean();
+
+      for (const event of events) {
+        if (event.sequence !== this.pollCursor + 1) {
+          if (this.gapSince === null) this.gapSince = Date.now();
+          if (Date.now() - this.gapSince < GAP_WAIT_MS) break;
+        }
+
+        this.gapSince = null;
+        this.pollCursor = event.sequence;
+        if (event.origin !== INSTANCE_ID) {
+          this.deliver(event);
+        }
+      }
+    } finally {
+      this.isPolling = false;
     }
-  }
\ No newline at end of file
+  }
+}
+
+export const sseManager = new SSEManager();
@@ -0,0 +1,131 @@
+// lib/story-diff.ts - Word-level diffing for story revisions
+import { DiffSegment, RevisionDiff } from '@/types/story';
+
+// Split text into alternating word and whitespace tokens so that joining the
+// tokens back together reproduces the original text exactly
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function isWord(token: string): boolean {
+  return !/^\s+$/.test(token);
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  if (!text) return;
+
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+// The comparison table holds one cell per pair of changed tokens, so two
+// long rewrites could need hundreds of megabytes. Above this (16 MB) the
+// diff is done line by line instead.
+const MAX_TABLE_CELLS = 4_000_000;
+
+// Lines, each keeping its newline, so they also join back exactly
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+/g) || [];
+}
+
+// Longest-common-subsequence diff over tokens. Common prefix and suffix are
+// trimmed first, which keeps the table small for typical edits. Returns null
+// when what is left is still too large, unless `replaceIfLarge` asks for the
+// changed middle to be shown as removed and re-added instead.
+function diffTokens(a: string[], b: string[], replaceIfLarge = false): DiffSegment[] | null {
+  const segments: DiffSegment[] = [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+  const tooLarge = rows * cols > MAX_TABLE_CELLS;
+  if (tooLarge && !replaceIfLarge) {
+    return null;
+  }
+
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  let i = 0;
+  let j = 0;
+  if (!tooLarge) {
+    const table = new Uint32Array(rows * cols);
+
+    for (let x = midA.length - 1; x >= 0; x--) {
+      for (let y = midB.length - 1; y >= 0; y--) {
+        table[x * cols + y] = midA[x] === midB[y]
+          ? table[(x + 1) * cols + y + 1] + 1
+          : Math.max(table[(x + 1) * cols + y], table[x * cols + y + 1]);
+      }
+    }
+
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+        pushSegment(segments, 'removed', midA[i]);
+        i++;
+      } else {
+        pushSegment(segments, 'added', midB[j]);
+        j++;
+      }
+    }
+  }
+
+  pushSegment(segments, 'removed', midA.slice(i).join(''));
+  pushSegment(segments, 'added', midB.slice(j).join(''));
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+
+  return segments;
+}
+
+// Word-level where that stays affordable, otherwise line-level
+export function diffText(before: string, after: string): DiffSegment[] {
+  return diffTokens(tokenize(before), tokenize(after)) ||
+    diffTokens(splitLines(before), splitLines(after), true)!;
+}
+
+export function countWords(text: string): number {
+  return tokenize(text).filter(isWord).length;
+}
+
+export function diffRevisions(
+  from: { revisionNumber: number; title: string; content: string },
+  to: { revisionNumber: number; title: string; content: string }
+): RevisionDiff {
+  const segments = diffText(from.content, to.content);
+
+  let wordsAdded = 0;
+  let wordsRemoved = 0;
+  segments.forEach(segment => {
+    if (segment.type === 'added') wordsAdded += countWords(segment.text);
+    if (segment.type === 'removed') wordsRemoved += countWords(segment.text);
+  });
+
+  return {
+    fromRevision: from.revisionNumber,
+    toRevision: to.revisionNumber,
+    segments,
+    wordsAdded,
+    wordsRemoved,
+    titleChanged: from.title !== to.title,
+  };
+}
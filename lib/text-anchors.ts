@@ -0,0 +1,159 @@
+// lib/text-anchors.ts - Text-quote anchors for inline comments
+//
+// A comment keeps the text it is about plus a little of the story either
+// side. After an edit the quote is looked for again, where it still
+// appears and, if it was reworded, where its context still stands either
+// side; the place whose surroundings match best wins. Offsets are UTF-16 code units, as a textarea or Selection reports
+// them. No server imports, so the story view can use it too.
+import { TextQuoteAnchor } from '@/types/story';
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// A run of text and the highlights covering it
+export interface HighlightSegment {
+  text: string;
+  start: number;
+  ids: string[];
+}
+
+// Characters of context kept either side of a quote
+export const ANCHOR_CONTEXT_LENGTH = 32;
+
+// Context looked for around a reworded quote; less than this on both
+// sides together is too little to trust
+const CONTEXT_PROBE_LENGTH = 16;
+const MIN_CONTEXT_MATCH = 12;
+
+// Worth about a dozen characters of context: the quote standing unchanged
+// beats a reworded stretch in the same place only when their context agrees
+const EXACT_MATCH_BONUS = 12;
+
+export function createAnchor(content: string, range: TextRange): TextQuoteAnchor | null {
+  if (range.start < 0 || range.end > content.length || range.end <= range.start) {
+    return null;
+  }
+  return {
+    exact: content.slice(range.start, range.end),
+    prefix: content.slice(Math.max(0, range.start - ANCHOR_CONTEXT_LENGTH), range.start),
+    suffix: content.slice(range.end, range.end + ANCHOR_CONTEXT_LENGTH),
+  };
+}
+
+// Anchor a new comment on the quoted text: at the position given when the
+// text is still there, or else where it appears nearest to it
+export function anchorQuote(
+  content: string,
+  quote: string | undefined,
+  position?: TextRange
+): { anchor: TextQuoteAnchor; range: TextRange } | null {
+  if (!quote) {
+    const anchor = position ? createAnchor(content, position) : null;
+    return anchor && position ? { anchor, range: position } : null;
+  }
+
+  const range = position && content.slice(position.start, position.end) === quote
+    ? position
+    : resolveAnchor(content, { exact: quote, prefix: '', suffix: '' }, position);
+  const anchor = range ? createAnchor(content, range) : null;
+  return anchor && range ? { anchor, range } : null;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+}
+
+function occurrences(content: string, text: string): number[] {
+  const found: number[] = [];
+  for (let index = content.indexOf(text); index !== -1; index = content.indexOf(text, index + 1)) {
+    found.push(index);
+  }
+  return found;
+}
+
+// How much of the anchor's context surrounds a range
+function contextScore(content: string, anchor: TextQuoteAnchor, range: TextRange): number {
+  return commonSuffixLength(anchor.prefix, content.slice(Math.max(0, range.start - anchor.prefix.length), range.start))
+    + commonPrefixLength(anchor.suffix, content.slice(range.end, range.end + anchor.suffix.length));
+}
+
+// Where the anchored text is now, or null when it's gone (the comment is
+// then orphaned). Candidates are every place the quote still appears, and
+// any stretch of about its length that its context still surrounds, for
+// when the quote itself was reworded. The best surrounded wins, with a
+// little in hand for the exact text; then the nearest to where it was.
+export function resolveAnchor(content: string, anchor: TextQuoteAnchor, previous?: TextRange): TextRange | null {
+  if (!anchor.exact) {
+    return null;
+  }
+
+  const candidates: Array<TextRange & { score: number }> = occurrences(content, anchor.exact).map(start => {
+    const range = { start, end: start + anchor.exact.length };
+    return { ...range, score: contextScore(content, anchor, range) + EXACT_MATCH_BONUS };
+  });
+
+  const before = anchor.prefix.slice(-CONTEXT_PROBE_LENGTH);
+  const after = anchor.suffix.slice(0, CONTEXT_PROBE_LENGTH);
+  if (before.length + after.length >= MIN_CONTEXT_MATCH) {
+    const maxLength = Math.max(anchor.exact.length * 2, anchor.exact.length + 40);
+    const starts = before ? occurrences(content, before).map(index => index + before.length) : [0];
+    for (const start of starts) {
+      const end = after ? content.indexOf(after, start) : content.length;
+      if (end > start && end - start <= maxLength) {
+        candidates.push({ start, end, score: contextScore(content, anchor, { start, end }) });
+      }
+    }
+  }
+
+  let best: (TextRange & { score: number; distance: number }) | null = null;
+  for (const candidate of candidates) {
+    const distance = Math.abs(candidate.start - (previous?.start ?? 0));
+    if (!best || candidate.score > best.score || (candidate.score === best.score && distance < best.distance)) {
+      best = { ...candidate, distance };
+    }
+  }
+  return best ? { start: best.start, end: best.end } : null;
+}
+
+// Split text into runs, each covered by the same highlights. Ranges are
+// clipped to the text, so a paragraph can be split with ranges measured
+// from the start of the story, shifted by the paragraph's offset.
+export function highlightSegments(
+  text: string,
+  highlights: Array<TextRange & { id: string }>,
+  offset: number = 0
+): HighlightSegment[] {
+  const clipped = highlights
+    .map(highlight => ({
+      id: highlight.id,
+      start: Math.max(0, highlight.start - offset),
+      end: Math.min(text.length, highlight.end - offset),
+    }))
+    .filter(highlight => highlight.end > highlight.start);
+
+  const boundaries = Array.from(new Set([0, text.length, ...clipped.flatMap(({ start, end }) => [start, end])]))
+    .sort((a, b) => a - b);
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    if (end <= start) continue;
+    segments.push({
+      text: text.slice(start, end),
+      start: start + offset,
+      ids: clipped.filter(highlight => highlight.start <= start && highlight.end >= end).map(highlight => highlight.id),
+    });
+  }
+  return segments;
+}
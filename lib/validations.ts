@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { UserRole, StoryStatus, CommentType, SubscriptionTier } from '@/types';
+import { MAX_CONDITION_LENGTH, parseCondition } from '@/lib/achievement-conditions';
+import { isAllowedPushEndpoint } from '@/lib/push-endpoints';
 
 // User validation schemas
 export const registerSchema = z.object({
@@ -23,16 +25,24 @@ export const registerSchema = z.object({
     .number()
     .int('Age must be a whole number')
     .min(2, 'Age must be at least 2')
-    .max(18, 'Age must be 18 or younger'),
+    .max(18, 'Age must be 18 or younger')
+    .optional(),
   parentEmail: z
     .string()
     .email('Invalid parent email address')
     .toLowerCase()
     .optional(),
+  accountType: z
+    .enum(['child', 'parent'] as const)
+    .default('child'),
   agreedToTerms: z
     .boolean()
     .refine((val) => val === true, 'You must agree to the terms of service'),
-});
+}).refine(
+  // Parents and guardians sign up without an age; every writer needs one
+  (data) => data.accountType === 'parent' || data.age !== undefined,
+  { message: 'Age is required', path: ['age'] }
+);
 
 export const loginSchema = z.object({
   email: z
@@ -160,6 +170,10 @@ export const createStorySchema = z.object({
     .min(1, 'Story title is required')
     .max(100, 'Title must be less than 100 characters'),
   elements: storyElementsSchema,
+  assignmentId: z
+    .string()
+    .regex(/^[a-f\d]{24}$/i, 'Invalid assignment')
+    .optional(),
 });
 
 export const updateStorySchema = z.object({
@@ -185,6 +199,42 @@ export const storyContentSchema = z.object({
     .max(500, 'Content must be less than 500 characters per section'),
 });
 
+// Co-writing validation schemas
+const crdtIdSchema = z.string().regex(/^\d+@[A-Za-z0-9.-]{1,64}$/, 'Invalid character id');
+
+const collaborationCursorSchema = z.object({
+  start: crdtIdSchema.nullable(),
+  end: crdtIdSchema.nullable(),
+});
+
+const crdtOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('insert'),
+    id: crdtIdSchema,
+    after: crdtIdSchema.nullable(),
+    value: z.string().length(1),
+  }),
+  z.object({
+    type: z.literal('delete'),
+    id: crdtIdSchema,
+  }),
+]);
+
+export const collaborationUpdateSchema = z.object({
+  sessionKey: z.string().min(1, 'Session key is required'),
+  ops: z
+    .array(crdtOperationSchema)
+    .max(2000, 'Too many changes in one update')
+    .optional(),
+  cursor: collaborationCursorSchema.optional(),
+}).refine(data => data.ops !== undefined || data.cursor !== undefined, {
+  message: 'Send changes or a cursor position',
+});
+
+export const addCollaboratorSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
 // Comment validation schemas
 export const createCommentSchema = z.object({
   content: z
@@ -293,12 +343,296 @@ export const assignStudentSchema = z.object({
 });
 
 export const updateUserRoleSchema = z.object({
-  role: z.enum(['user', 'mentor', 'admin'] as const),
+  role: z.enum(['user', 'mentor', 'admin', 'parent'] as const),
   isActive: z
     .boolean()
     .optional(),
 });
 
+// Parent validation schemas
+export const linkChildSchema = z.object({
+  childEmail: z
+    .string()
+    .email('Invalid email address')
+    .toLowerCase(),
+});
+
+export const confirmChildLinkSchema = z.object({
+  token: z.string().min(1, 'Confirmation token is required').max(1000),
+});
+
+export const updateChildSettingsSchema = z.object({
+  privacySettings: z
+    .object({
+      showProfile: z.boolean().optional(),
+      showProgress: z.boolean().optional(),
+      allowMentorContact: z.boolean().optional(),
+    })
+    .optional(),
+  aiAssistanceLevel: z
+    .enum(['minimal', 'normal', 'maximum'] as const)
+    .optional(),
+}).refine(
+  (data) => data.privacySettings !== undefined || data.aiAssistanceLevel !== undefined,
+  'Nothing to update'
+);
+
+export const publishDecisionSchema = z.object({
+  approve: z.boolean(),
+  note: z
+    .string()
+    .max(500, 'Note must be less than 500 characters')
+    .optional(),
+});
+
+// Rubric validation schemas
+const rubricLevelSchema = z.object({
+  score: z.number().int().min(1).max(6),
+  label: z.string().trim().min(1, 'Name each level').max(40),
+  descriptor: z.string().trim().max(300).optional(),
+});
+
+export const rubricCriterionSchema = z.object({
+  name: z.string().trim().min(2, 'Name each criterion').max(80),
+  description: z.string().trim().max(300).optional(),
+  weight: z.number().int().min(1).max(10).default(1),
+  levels: z
+    .array(rubricLevelSchema)
+    .min(2, 'A scale needs at least 2 levels')
+    .max(6, 'A scale can have at most 6 levels')
+    .refine(
+      (levels) => levels.every((level, index) => level.score === index + 1),
+      'Number the levels 1, 2, 3... from lowest to highest'
+    )
+    .optional(),
+});
+
+export const createRubricSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, 'Name must be at least 3 characters')
+    .max(100, 'Name must be less than 100 characters'),
+  description: z.string().trim().max(500).optional(),
+  criteria: z
+    .array(rubricCriterionSchema)
+    .min(1, 'Add at least one criterion')
+    .max(10, 'A rubric can have at most 10 criteria')
+    .refine(
+      (criteria) => new Set(criteria.map(criterion => criterion.name.toLowerCase())).size === criteria.length,
+      'Each criterion needs a different name'
+    ),
+});
+
+export const updateRubricSchema = createRubricSchema.partial().extend({
+  isArchived: z.boolean().optional(),
+}).refine(
+  (data) => Object.values(data).some(value => value !== undefined),
+  'Nothing to update'
+);
+
+export const rubricScoresSchema = z.object({
+  rubricId: z
+    .string()
+    .regex(/^[a-f\d]{24}$/i, 'Invalid rubric')
+    .optional(),
+  scores: z
+    .array(z.object({
+      criterion: z.string().trim().min(1),
+      level: z.number().int().min(1).max(6),
+      comment: z.string().trim().max(500).optional(),
+    }))
+    .min(1, 'Score at least one criterion')
+    .max(10),
+  encouragement: z.string().trim().max(500).optional(),
+  nextSteps: z.string().trim().max(500).optional(),
+});
+
+// Classroom validation schemas
+export const createClassroomSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Class name must be at least 2 characters')
+    .max(80, 'Class name must be less than 80 characters'),
+  description: z
+    .string()
+    .trim()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+  gradeLevel: z
+    .string()
+    .trim()
+    .max(40, 'Grade level must be less than 40 characters')
+    .optional(),
+});
+
+export const updateClassroomSchema = createClassroomSchema.partial().extend({
+  joinCodeEnabled: z.boolean().optional(),
+  regenerateJoinCode: z.boolean().optional(),
+  isArchived: z.boolean().optional(),
+}).refine(
+  (data) => Object.values(data).some(value => value !== undefined),
+  'Nothing to update'
+);
+
+export const enrollStudentsSchema = z.object({
+  emails: z
+    .array(z.string().trim().email('Invalid email address').toLowerCase())
+    .min(1, 'Add at least one student email')
+    .max(100, 'Cannot enroll more than 100 students at once'),
+});
+
+export const rosterImportSchema = z.object({
+  csv: z
+    .string()
+    .min(1, 'The roster file is empty')
+    .max(100000, 'The roster file is too large'),
+});
+
+export const joinClassroomSchema = z.object({
+  joinCode: z
+    .string()
+    .trim()
+    .min(4, 'Enter the code your teacher gave you')
+    .max(12, 'That code is too long'),
+});
+
+export const createClassAssignmentSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(3, 'Title must be at least 3 characters')
+    .max(120, 'Title must be less than 120 characters'),
+  instructions: z
+    .string()
+    .trim()
+    .min(10, 'Instructions must be at least 10 characters')
+    .max(2000, 'Instructions must be less than 2000 characters'),
+  elementConstraints: z
+    .object({
+      genre: z.array(storyElementsSchema.shape.genre).optional(),
+      setting: z.array(storyElementsSchema.shape.setting).optional(),
+      character: z.array(storyElementsSchema.shape.character).optional(),
+      mood: z.array(storyElementsSchema.shape.mood).optional(),
+      conflict: z.array(storyElementsSchema.shape.conflict).optional(),
+      theme: z.array(storyElementsSchema.shape.theme).optional(),
+    })
+    .strict()
+    .optional(),
+  targetWordCount: z
+    .number()
+    .int()
+    .min(300, 'Target must be at least 300 words')
+    .max(2000, 'Target must be at most 2000 words')
+    .optional(),
+  stage: z
+    .number()
+    .int()
+    .min(1)
+    .max(5)
+    .optional(),
+  rubricId: z
+    .string()
+    .regex(/^[a-f\d]{24}$/i, 'Invalid rubric')
+    .optional(),
+  rubric: z
+    .array(rubricCriterionSchema)
+    .max(10, 'A rubric can have at most 10 criteria')
+    .optional(),
+  dueDate: z
+    .string()
+    .datetime()
+    .optional(),
+});
+
+export const updateClassAssignmentSchema = createClassAssignmentSchema.partial().extend({
+  status: z.enum(['active', 'closed']).optional(),
+}).refine(
+  (data) => Object.values(data).some(value => value !== undefined),
+  'Nothing to update'
+);
+
+// Achievement validation schemas
+const customConditionSchema = z
+  .string()
+  .trim()
+  .min(1, 'Enter a condition')
+  .max(MAX_CONDITION_LENGTH, `A condition can be at most ${MAX_CONDITION_LENGTH} characters`)
+  .superRefine((value, ctx) => {
+    const parsed = parseCondition(value);
+    if ('error' in parsed) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${parsed.error} (at character ${parsed.position + 1})`,
+      });
+    }
+  });
+
+const achievementCriteriaSchema = z.object({
+  storiesCompleted: z.number().int().min(0).optional(),
+  grammarScore: z.number().min(0).max(100).optional(),
+  creativityScore: z.number().min(0).max(100).optional(),
+  consecutiveDays: z.number().int().min(0).optional(),
+  improvementRate: z.number().min(0).optional(),
+  mentorPraise: z.number().int().min(0).optional(),
+  wordsWritten: z.number().int().min(0).optional(),
+  genresExplored: z.number().int().min(0).optional(),
+  commentsReceived: z.number().int().min(0).optional(),
+  sharesReceived: z.number().int().min(0).optional(),
+  customCondition: customConditionSchema.optional(),
+}).refine(
+  (criteria) => Object.values(criteria).some(value => value !== undefined),
+  'Set at least one criterion'
+);
+
+export const createAchievementSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, 'Name must be at least 3 characters')
+    .max(100, 'Name must be less than 100 characters'),
+  description: z
+    .string()
+    .trim()
+    .min(1, 'Description is required')
+    .max(500, 'Description must be less than 500 characters'),
+  icon: z.string().trim().min(1, 'Icon is required').max(50),
+  category: z.enum(['writing', 'creativity', 'consistency', 'improvement', 'social', 'milestone']),
+  rarity: z.enum(['common', 'rare', 'epic', 'legendary']).default('common'),
+  criteria: achievementCriteriaSchema,
+  rewards: z.object({
+    experiencePoints: z.number().int().min(0).max(10000),
+    title: z.string().trim().max(50).optional(),
+    badge: z.string().trim().min(1, 'Badge is required').max(50),
+  }),
+  isActive: z.boolean().optional(),
+  isVisible: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+export const updateAchievementSchema = createAchievementSchema.partial().refine(
+  (data) => Object.values(data).some(value => value !== undefined),
+  'Nothing to update'
+);
+
+export const conditionDryRunSchema = z.object({
+  condition: customConditionSchema,
+});
+
+// Data rights validation schemas
+export const dataExportRequestSchema = z.object({
+  childId: z.string().optional(),
+});
+
+export const dataErasureSchema = z.object({
+  childId: z.string().optional(),
+  password: z.string().min(1, 'Please enter your password to confirm'),
+  confirm: z.literal(true, {
+    errorMap: () => ({ message: 'Please confirm that this cannot be undone' }),
+  }),
+});
+
 // File validation schemas
 export const fileUploadSchema = z.object({
   filename: z
@@ -461,6 +795,61 @@ export const createNotificationSchema = z.object({
     .default('medium'),
 });
 
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use a 24-hour time such as 20:00');
+
+const digestFrequencySchema = z.enum(['instant', 'hourly', 'daily', 'weekly']);
+
+export const notificationSettingsSchema = z.object({
+  emailNotifications: z
+    .object({
+      storyCompleted: z.boolean(),
+      mentorComments: z.boolean(),
+      weeklyProgress: z.boolean(),
+      achievements: z.boolean(),
+      marketing: z.boolean(),
+    })
+    .partial()
+    .optional(),
+  quietHours: z
+    .object({
+      enabled: z.boolean(),
+      start: timeOfDaySchema,
+      end: timeOfDaySchema,
+      timezone: z.string().max(64).refine(zone => {
+        try {
+          new Intl.DateTimeFormat('en-GB', { timeZone: zone });
+          return true;
+        } catch {
+          return false;
+        }
+      }, 'Unknown timezone'),
+    })
+    .optional(),
+  digests: z
+    .object({
+      writing: digestFrequencySchema,
+      feedback: digestFrequencySchema,
+      classroom: digestFrequencySchema,
+      achievement: digestFrequencySchema,
+      progress: digestFrequencySchema,
+      social: digestFrequencySchema,
+    })
+    .partial()
+    .optional(),
+});
+
+export const pushSubscriptionSchema = z.object({
+  endpoint: z
+    .string()
+    .url('Invalid push endpoint')
+    .max(1000)
+    .refine(isAllowedPushEndpoint, 'Push endpoints must belong to a browser push service'),
+  keys: z.object({
+    p256dh: z.string().regex(/^[A-Za-z0-9_-]{80,100}$/, 'Invalid browser key'),
+    auth: z.string().regex(/^[A-Za-z0-9_-]{16,30}$/, 'Invalid auth secret'),
+  }),
+});
+
 // Batch operations validation
 export const batchUpdateSchema = z.object({
   ids: z
@@ -562,6 +951,8 @@ export type StoryElementsInput = z.infer<typeof storyElementsSchema>;
 export type CreateStoryInput = z.infer<typeof createStorySchema>;
 export type UpdateStoryInput = z.infer<typeof updateStorySchema>;
 export type StoryContentInput = z.infer<typeof storyContentSchema>;
+export type CollaborationUpdateInput = z.infer<typeof collaborationUpdateSchema>;
+export type AddCollaboratorInput = z.infer<typeof addCollaboratorSchema>;
 export type CreateCommentInput = z.infer<typeof createCommentSchema>;
 export type UpdateCommentInput = z.infer<typeof updateCommentSchema>;
 export type AIGenerateInput = z.infer<typeof aiGenerateSchema>;
@@ -571,9 +962,27 @@ export type UpdateSubscriptionInput = z.infer<typeof updateSubscriptionSchema>;
 export type CreateMentorInput = z.infer<typeof createMentorSchema>;
 export type AssignStudentInput = z.infer<typeof assignStudentSchema>;
 export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
+export type LinkChildInput = z.infer<typeof linkChildSchema>;
+export type ConfirmChildLinkInput = z.infer<typeof confirmChildLinkSchema>;
+export type UpdateChildSettingsInput = z.infer<typeof updateChildSettingsSchema>;
+export type PublishDecisionInput = z.infer<typeof publishDecisionSchema>;
+export type CreateClassroomInput = z.infer<typeof createClassroomSchema>;
+export type UpdateClassroomInput = z.infer<typeof updateClassroomSchema>;
+export type EnrollStudentsInput = z.infer<typeof enrollStudentsSchema>;
+export type RosterImportInput = z.infer<typeof rosterImportSchema>;
+export type JoinClassroomInput = z.infer<typeof joinClassroomSchema>;
+export type CreateClassAssignmentInput = z.infer<typeof createClassAssignmentSchema>;
+export type UpdateClassAssignmentInput = z.infer<typeof updateClassAssignmentSchema>;
+export type CreateRubricInput = z.infer<typeof createRubricSchema>;
+export type UpdateRubricInput = z.infer<typeof updateRubricSchema>;
+export type RubricScoresInput = z.infer<typeof rubricScoresSchema>;
+export type DataExportRequestInput = z.infer<typeof dataExportRequestSchema>;
+export type DataErasureInput = z.infer<typeof dataErasureSchema>;
 export type ContactFormInput = z.infer<typeof contactFormSchema>;
 export type SearchStoriesInput = z.infer<typeof searchStoriesSchema>;
 export type SearchUsersInput = z.infer<typeof searchUsersSchema>;
 export type AnalyticsDateRangeInput = z.infer<typeof analyticsDateRangeSchema>;
 export type CreateNotificationInput = z.infer<typeof createNotificationSchema>;
+export type NotificationSettingsInput = z.infer<typeof notificationSettingsSchema>;
+export type PushSubscriptionInput = z.infer<typeof pushSubscriptionSchema>;
 export type ExportRequestInput = z.infer<typeof exportRequestSchema>;
\ No newline at end of file
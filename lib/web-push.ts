@@ -0,0 +1,140 @@
+// lib/web-push.ts - Web Push messages: VAPID auth (RFC 8292) and aes128gcm payload encryption (RFC 8291)
+import crypto from 'crypto';
+import { isAllowedPushEndpoint } from '@/lib/push-endpoints';
+
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export type PushUrgency = 'very-low' | 'low' | 'normal' | 'high';
+
+// The whole payload goes in one record; push services accept about 4KB
+const RECORD_SIZE = 4096;
+export const MAX_PUSH_PAYLOAD_BYTES = 3000;
+
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+// VAPID_PUBLIC_KEY is the uncompressed P-256 point and VAPID_PRIVATE_KEY
+// the private scalar, both base64url, as generated by common web-push tools
+export function isWebPushConfigured(): boolean {
+  return Boolean(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+export function getVapidPublicKey(): string | null {
+  return process.env.VAPID_PUBLIC_KEY || null;
+}
+
+// The Authorization header: a short-lived ES256 token for the push
+// service's origin, signed with the application's key
+function vapidAuthorization(endpoint: string): string {
+  const publicKey = Buffer.from(process.env.VAPID_PUBLIC_KEY!, 'base64url');
+  const privateKey = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: process.env.VAPID_PRIVATE_KEY!,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+
+  const header = base64url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = base64url(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_SECONDS,
+    sub: process.env.VAPID_SUBJECT || 'mailto:support@mintoons.com',
+  }));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: privateKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${process.env.VAPID_PUBLIC_KEY}`;
+}
+
+// Encrypt a payload so only the subscribed browser can read it: a fresh
+// ECDH key per message, combined with the browser's key and auth secret
+export function encryptPushPayload(payload: string, subscription: WebPushSubscription): Buffer {
+  const clientPublicKey = Buffer.from(subscription.keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.keys.auth, 'base64url');
+
+  const server = crypto.createECDH('prime256v1');
+  const serverPublicKey = server.generateKeys();
+  const sharedSecret = server.computeSecret(clientPublicKey);
+  const salt = crypto.randomBytes(16);
+
+  const ikm = hkdf(
+    sharedSecret,
+    authSecret,
+    Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]),
+    32
+  );
+  const key = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // A single record, closed with the 0x02 last-record delimiter
+  const cipher = crypto.createCipheriv('aes-128-gcm', key, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+// Send one message and return the push service's status code: 201 when
+// accepted, 404 or 410 when the subscription is gone. Network failures, and
+// endpoints that aren't a browser push service, throw.
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: Record<string, unknown>,
+  options: { ttl?: number; urgency?: PushUrgency } = {}
+): Promise<number> {
+  if (!isWebPushConfigured()) {
+    throw new Error('Web Push is not configured');
+  }
+
+  if (!isAllowedPushEndpoint(subscription.endpoint)) {
+    throw new Error('Push endpoint is not a known push service');
+  }
+
+  const body = JSON.stringify(payload);
+  if (Buffer.byteLength(body) > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new Error('Push payload is too large');
+  }
+
+  // A redirect could lead anywhere, so it is reported rather than followed
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    redirect: 'manual',
+    headers: {
+      Authorization: vapidAuthorization(subscription.endpoint),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttl ?? 24 * 60 * 60),
+      Urgency: options.urgency || 'normal',
+    },
+    body: encryptPushPayload(body, subscription),
+  });
+
+  return response.status;
+}
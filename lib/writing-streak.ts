@@ -0,0 +1,73 @@
+// lib/writing-streak.ts - Consecutive writing days, kept on User.stats
+import { connectToDatabase } from '@/utils/db';
+import User from '@/models/User';
+import { publishDomainEvent } from '@/lib/domain-events';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days are counted in UTC
+function dayNumber(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+// The streak after writing at `at`, or null when the writer already wrote
+// that day. A gap of more than a day starts again from 1.
+export function nextWritingStreak(
+  stats: { lastWritingDate?: Date; currentWritingStreak?: number; longestWritingStreak?: number },
+  at: Date
+): { current: number; longest: number } | null {
+  const last = stats.lastWritingDate ? dayNumber(new Date(stats.lastWritingDate)) : null;
+  const today = dayNumber(at);
+
+  if (last !== null && last >= today) {
+    return null;
+  }
+
+  const current = last === today - 1 ? (stats.currentWritingStreak || 0) + 1 : 1;
+  return { current, longest: Math.max(current, stats.longestWritingStreak || 0) };
+}
+
+// Record that a writer wrote today and publish streak_extended on the first
+// write of each day. Returns the streak, or null if today was already counted.
+export async function recordWritingDay(userId: string, at: Date = new Date()): Promise<number | null> {
+  try {
+    await connectToDatabase();
+
+    const user = await User.findById(userId).select('stats').lean();
+    if (!user) {
+      return null;
+    }
+
+    const streak = nextWritingStreak(user.stats || {}, at);
+    if (!streak) {
+      return null;
+    }
+
+    // Conditional on the previous write so two saves racing count the day once
+    const updated = await User.updateOne(
+      { _id: userId, 'stats.lastWritingDate': user.stats?.lastWritingDate || null },
+      {
+        $set: {
+          'stats.lastWritingDate': at,
+          'stats.currentWritingStreak': streak.current,
+          'stats.longestWritingStreak': streak.longest,
+        },
+      }
+    );
+    if (updated.modifiedCount === 0) {
+      return null;
+    }
+
+    await publishDomainEvent({
+      type: 'streak_extended',
+      userId,
+      streak: streak.current,
+      day: at.toISOString().slice(0, 10),
+    });
+
+    return streak.current;
+  } catch (error) {
+    console.error('Error recording writing day:', error);
+    return null;
+  }
+}
@@ -5,14 +5,18 @@ import type { NextRequest } from 'next/server';
 // Define protected routes and their required roles
 const protectedRoutes = {
   // Dashboard routes - require authentication
-  '/dashboard': ['child', 'mentor', 'admin'],
+  '/dashboard': ['child', 'parent', 'mentor', 'admin'],
   '/my-stories': ['child', 'mentor', 'admin'],
   '/progress': ['child', 'mentor', 'admin'],
   '/create-stories': ['child'],
   '/profile': ['child', 'mentor', 'admin'],
   
+  // Parent routes - read-only view of linked children
+  '/parent-dashboard': ['parent'],
+  
   // Mentor routes - require mentor role
   '/mentor-dashboard': ['mentor', 'admin'],
+  '/classes': ['mentor', 'admin'],
   
   // Admin routes - require admin role
   '/admin': ['admin'],
@@ -20,8 +24,12 @@ const protectedRoutes = {
   // API routes protection
   '/api/stories': ['child', 'mentor', 'admin'],
   '/api/user/profile': ['child', 'mentor', 'admin'],
+  '/api/user/classes': ['child'],
+  '/api/user/data-export': ['child', 'parent', 'mentor', 'admin'],
+  '/api/user/data-erasure': ['child', 'parent', 'mentor'],
   '/api/admin': ['admin'],
   '/api/mentor': ['mentor', 'admin'],
+  '/api/parent': ['parent'],
   '/api/export': ['child', 'mentor', 'admin'],
   '/api/realtime': ['child', 'mentor', 'admin'],
 } as const;
@@ -38,11 +46,13 @@ const publicRoutes = [
   '/register',
   '/forgot-password',
   '/reset-password',
+  '/parental-consent',
   '/unauthorized',
   '/api/auth',
   '/api/user/register',
   '/api/user/forgot-password',
   '/api/user/reset-password',
+  '/api/user/parental-consent',
   '/api/health',
   '/_next',
   '/favicon.ico',
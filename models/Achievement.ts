@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { evaluateCondition, parseCondition, toConditionStats } from '@/lib/achievement-conditions';
 
 // Achievement interface extending mongoose Document
 export interface IAchievement extends Document {
@@ -125,6 +126,13 @@ const CriteriaSchema = new Schema({
   customCondition: {
     type: String,
     trim: true,
+    validate: {
+      validator: (value: string) => !value || !('error' in parseCondition(value)),
+      message: (props: { value: string }) => {
+        const parsed = parseCondition(props.value);
+        return 'error' in parsed ? `Invalid condition: ${parsed.error}` : 'Invalid condition';
+      },
+    },
   },
 }, { _id: false });
 
@@ -435,10 +443,19 @@ AchievementSchema.methods.mapCriteriaToUserStats = function(criteriaKey: string)
   return mapping[criteriaKey] || criteriaKey;
 };
 
+// Conditions about story history need userStats.stories (ConditionStory[]);
+// lib/achievements loads them alongside the stats
 AchievementSchema.methods.evaluateCustomCondition = function(condition: string, userStats: any): boolean {
-  // This would implement custom condition evaluation
-  // For now, return false as placeholder
-  return false;
+  const parsed = parseCondition(condition);
+  if ('error' in parsed) {
+    return false;
+  }
+
+  return evaluateCondition(parsed.condition, {
+    stats: toConditionStats(userStats),
+    stories: userStats.stories || [],
+    now: new Date(),
+  });
 };
 
 // Static methods for Achievement
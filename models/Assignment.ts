@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { AssignmentStatus, ElementConstraints, RubricCriterion } from '@/types/classroom';
+import { StoryStage } from '@/types/story';
+import { RubricCriterionSchema } from '@/models/Rubric';
+
+// Assignment interface extending mongoose Document
+export interface IAssignment extends Document {
+  _id: string;
+  classroomId: string;
+  mentorId: string;
+  title: string;
+  instructions: string;
+  elementConstraints: ElementConstraints;
+  targetWordCount?: number;
+  stage?: StoryStage;
+  rubricId?: string;
+  rubric: RubricCriterion[];
+  dueDate?: Date;
+  status: AssignmentStatus;
+  reminderSentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Assignment schema definition
+const AssignmentSchema = new Schema<IAssignment>({
+  classroomId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Classroom',
+    required: true,
+  },
+
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+
+  title: {
+    type: String,
+    required: [true, 'Assignment title is required'],
+    trim: true,
+    maxlength: [120, 'Title cannot exceed 120 characters'],
+  },
+
+  instructions: {
+    type: String,
+    required: [true, 'Instructions are required'],
+    trim: true,
+    maxlength: [2000, 'Instructions cannot exceed 2000 characters'],
+  },
+
+  // Allowed options per story element, keyed by element name
+  elementConstraints: {
+    genre: [String],
+    setting: [String],
+    character: [String],
+    mood: [String],
+    conflict: [String],
+    theme: [String],
+  },
+
+  targetWordCount: {
+    type: Number,
+    min: 300,
+    max: 2000,
+  },
+
+  stage: {
+    type: Number,
+    enum: [1, 2, 3, 4, 5],
+  },
+
+  // A saved rubric wins over the inline criteria
+  rubricId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Rubric',
+  },
+
+  rubric: [RubricCriterionSchema],
+
+  dueDate: Date,
+
+  status: {
+    type: String,
+    enum: ['active', 'closed'],
+    default: 'active',
+  },
+
+  // Set once the due-soon reminder has gone out
+  reminderSentAt: Date,
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+AssignmentSchema.index({ classroomId: 1, status: 1, dueDate: 1 });
+AssignmentSchema.index({ mentorId: 1, createdAt: -1 });
+AssignmentSchema.index({ status: 1, dueDate: 1, reminderSentAt: 1 });
+
+// Virtual properties
+AssignmentSchema.virtual('id').get(function() {
+  return this._id.toHexString();
+});
+
+// Create and export the model
+const Assignment: Model<IAssignment> =
+  mongoose.models.Assignment || mongoose.model<IAssignment>('Assignment', AssignmentSchema);
+
+export default Assignment;
@@ -0,0 +1,132 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { ClassroomStudent } from '@/types/classroom';
+
+// Classroom interface extending mongoose Document
+export interface IClassroom extends Document {
+  _id: string;
+  name: string;
+  description?: string;
+  gradeLevel?: string;
+
+  mentorId: string;
+  mentorName: string;
+
+  joinCode: string;
+  joinCodeEnabled: boolean;
+
+  students: ClassroomStudent[];
+  maxStudents: number;
+
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Roster entry subdocument schema
+const ClassroomStudentSchema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+  },
+  enrolledAt: {
+    type: Date,
+    default: Date.now,
+  },
+  enrolledBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  method: {
+    type: String,
+    enum: ['join_code', 'bulk', 'csv'],
+    required: true,
+  },
+}, { _id: false });
+
+// Classroom schema definition
+const ClassroomSchema = new Schema<IClassroom>({
+  name: {
+    type: String,
+    required: [true, 'Class name is required'],
+    trim: true,
+    maxlength: [80, 'Class name cannot exceed 80 characters'],
+  },
+
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters'],
+  },
+
+  gradeLevel: {
+    type: String,
+    trim: true,
+    maxlength: [40, 'Grade level cannot exceed 40 characters'],
+  },
+
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+
+  mentorName: {
+    type: String,
+    required: true,
+  },
+
+  joinCode: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+  },
+
+  joinCodeEnabled: {
+    type: Boolean,
+    default: true,
+  },
+
+  students: [ClassroomStudentSchema],
+
+  maxStudents: {
+    type: Number,
+    default: 40,
+    min: 1,
+    max: 200,
+  },
+
+  isArchived: {
+    type: Boolean,
+    default: false,
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+ClassroomSchema.index({ mentorId: 1, isArchived: 1, createdAt: -1 });
+ClassroomSchema.index({ 'students.userId': 1 });
+
+// Virtual properties
+ClassroomSchema.virtual('id').get(function() {
+  return this._id.toHexString();
+});
+
+ClassroomSchema.virtual('studentCount').get(function() {
+  return this.students.length;
+});
+
+// Create and export the model
+const Classroom: Model<IClassroom> =
+  mongoose.models.Classroom || mongoose.model<IClassroom>('Classroom', ClassroomSchema);
+
+export default Classroom;
@@ -0,0 +1,152 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { SessionParticipant } from '@/types/realtime';
+import { CrdtDocument, CrdtOperation } from '@/lib/crdt';
+
+// Collaboration session interface extending mongoose Document. There is one
+// per story; it is reopened from the story's content once everyone has left.
+export interface ICollaborationSession extends Document {
+  _id: string;
+  storyId: string;
+  sessionKey: string;
+
+  participants: SessionParticipant[];
+
+  // CRDT state of the text being written, and the latest batches applied to
+  // it so clients that missed a broadcast can catch up
+  document: CrdtDocument;
+  version: number;
+  recentOps: Array<{
+    version: number;
+    userId: string;
+    site: string;
+    ops: CrdtOperation[];
+    createdAt: Date;
+  }>;
+
+  // The version moderation screening last saw, and when
+  screenedVersion: number;
+  lastScreenedAt?: Date;
+
+  lastActivity: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Participant subdocument schema
+const ParticipantSchema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  userName: {
+    type: String,
+    required: true,
+  },
+  userRole: {
+    type: String,
+    required: true,
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastActivity: {
+    type: Date,
+    default: Date.now,
+  },
+  permissions: {
+    canEdit: { type: Boolean, default: false },
+    canComment: { type: Boolean, default: false },
+    canView: { type: Boolean, default: true },
+  },
+  cursor: {
+    start: { type: String, default: null },
+    end: { type: String, default: null },
+  },
+  site: String,
+  seenVersion: {
+    type: Number,
+    default: 0,
+  },
+  color: String,
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+}, { _id: false });
+
+// Collaboration session schema definition
+const CollaborationSessionSchema = new Schema<ICollaborationSession>({
+  storyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Story',
+    required: true,
+    unique: true,
+  },
+
+  sessionKey: {
+    type: String,
+    required: true,
+  },
+
+  participants: [ParticipantSchema],
+
+  document: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+
+  version: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+
+  recentOps: [{
+    _id: false,
+    version: { type: Number, required: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    site: { type: String, required: true },
+    ops: { type: Schema.Types.Mixed, required: true },
+    createdAt: { type: Date, default: Date.now },
+  }],
+
+  screenedVersion: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+
+  lastScreenedAt: Date,
+
+  lastActivity: {
+    type: Date,
+    default: Date.now,
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+  minimize: false,
+});
+
+// Indexes for performance
+CollaborationSessionSchema.index({ 'participants.userId': 1 });
+CollaborationSessionSchema.index({ lastActivity: -1 });
+
+// Virtual properties
+CollaborationSessionSchema.virtual('id').get(function() {
+  return this._id.toHexString();
+});
+
+CollaborationSessionSchema.virtual('activeParticipantCount').get(function() {
+  return this.participants.filter(participant => participant.isActive).length;
+});
+
+// Create and export the model
+const CollaborationSession: Model<ICollaborationSession> =
+  mongoose.models.CollaborationSession ||
+  mongoose.model<ICollaborationSession>('CollaborationSession', CollaborationSessionSchema);
+
+export default CollaborationSession;
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { CommentType, CommentCategory } from '@/types';
+import { AnchorStatus, TextQuoteAnchor } from '@/types/story';
 
 // Comment interface extending mongoose Document
 export interface IComment extends Document {
@@ -11,11 +12,14 @@ export interface IComment extends Document {
   
   // Comment content
   content: string;
-  highlightedText?: string;
+  highlightedText?: string; // as the mentor first quoted it
   textPosition?: {
     start: number;
     end: number;
-  };
+  }; // where the anchor resolves in the current text
+  anchor?: TextQuoteAnchor; // see lib/text-anchors
+  anchorStatus?: AnchorStatus;
+  orphanedAt?: Date;
   
   // Comment categorization
   commentType: CommentType;
@@ -138,6 +142,23 @@ const CommentSchema = new Schema<IComment>({
       min: 0,
     },
   },
+
+  anchor: {
+    type: new Schema({
+      exact: { type: String, required: true, maxlength: 500 },
+      prefix: { type: String, default: '' },
+      suffix: { type: String, default: '' },
+    }, { _id: false }),
+  },
+
+  anchorStatus: {
+    type: String,
+    enum: ['anchored', 'orphaned'],
+  },
+
+  orphanedAt: {
+    type: Date,
+  },
   
   commentType: {
     type: String,
@@ -229,6 +250,7 @@ CommentSchema.index({ storyId: 1, commentType: 1 });
 CommentSchema.index({ parentCommentId: 1 });
 CommentSchema.index({ createdAt: -1 });
 CommentSchema.index({ isHidden: 1, createdAt: -1 });
+CommentSchema.index({ storyId: 1, anchorStatus: 1 });
 
 // Compound indexes
 CommentSchema.index({ storyId: 1, parentCommentId: 1, createdAt: 1 });
@@ -270,11 +292,8 @@ CommentSchema.path('textPosition').validate(function(value) {
 
 // Pre-save middleware
 CommentSchema.pre('save', function(next) {
-  // Validate highlighted text matches position if both are provided
-  if (this.highlightedText && this.textPosition) {
-    // This validation would need the original story content
-    // Implementation depends on how you want to handle this
-  }
+  // Anchors are made and checked against the story text when the comment
+  // is posted and whenever the story changes; see lib/comment-anchors
   
   // Auto-categorize based on comment type if not set
   if (!this.category) {
@@ -0,0 +1,133 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { DataRequestType, DataRequestStatus } from '@/types/user';
+
+// Data request interface extending mongoose Document
+export interface IDataRequest extends Document {
+  _id: string;
+  type: DataRequestType;
+  status: DataRequestStatus;
+
+  // Whose data, and who asked (the account itself, a linked parent or an admin)
+  userId: string;
+  requestedBy: string;
+  requesterRole: string;
+
+  // Export results
+  fileId?: string;
+  fileSize?: number;
+  expiresAt?: Date;
+  manifest?: Record<string, number>;
+
+  // Erasure results. The subject is kept only as a hash once the account is gone.
+  subjectHash?: string;
+  receipt?: {
+    counts: Record<string, number>;
+    completedAt: Date;
+    receiptHash: string;
+  };
+
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Data request schema definition
+const DataRequestSchema = new Schema<IDataRequest>({
+  type: {
+    type: String,
+    enum: ['export', 'erasure'],
+    required: true,
+    index: true,
+  },
+
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed'],
+    default: 'pending',
+    index: true,
+  },
+
+  userId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    index: true,
+  },
+
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+
+  requesterRole: {
+    type: String,
+    enum: ['child', 'parent', 'mentor', 'admin'],
+    required: true,
+  },
+
+  fileId: {
+    type: String,
+  },
+
+  fileSize: {
+    type: Number,
+  },
+
+  expiresAt: {
+    type: Date,
+  },
+
+  manifest: {
+    type: Schema.Types.Mixed,
+  },
+
+  subjectHash: {
+    type: String,
+    index: true,
+  },
+
+  receipt: {
+    counts: {
+      type: Schema.Types.Mixed,
+    },
+    completedAt: {
+      type: Date,
+    },
+    receiptHash: {
+      type: String,
+    },
+  },
+
+  startedAt: {
+    type: Date,
+  },
+
+  completedAt: {
+    type: Date,
+  },
+
+  error: {
+    type: String,
+    maxlength: [1000, 'Error cannot be longer than 1000 characters'],
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+DataRequestSchema.index({ userId: 1, type: 1, createdAt: -1 });
+
+// Virtual properties
+DataRequestSchema.virtual('id').get(function() {
+  return this._id.toHexString();
+});
+
+// Create and export the model
+const DataRequest: Model<IDataRequest> =
+  mongoose.models.DataRequest || mongoose.model<IDataRequest>('DataRequest', DataRequestSchema);
+
+export default DataRequest;
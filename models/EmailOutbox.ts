@@ -0,0 +1,121 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'dead';
+
+// Email outbox entry. Mail is written here first and sent by whichever
+// server instance currently holds the outbox lease, so queued mail survives
+// restarts and is sent once across a PM2 cluster.
+export interface IEmailOutbox extends Document {
+  _id: string;
+
+  // Callers that may enqueue the same mail twice (retried requests, replayed
+  // events) pass a key; a second enqueue returns the first entry
+  idempotencyKey?: string;
+
+  to: string[];
+  type: string; // EmailType template name
+  data: any;
+  options: {
+    cc?: string | string[];
+    bcc?: string | string[];
+  };
+
+  status: OutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+
+  // Set while an instance is sending; an expired lock is picked up again
+  lockedBy?: string;
+  lockedUntil?: Date;
+
+  lastError?: string;
+  messageId?: string;
+  sentAt?: Date;
+  deadAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailOutboxSchema = new Schema<IEmailOutbox>({
+  idempotencyKey: {
+    type: String,
+    maxlength: 200,
+  },
+
+  to: [{
+    type: String,
+    required: true,
+  }],
+
+  type: {
+    type: String,
+    required: true,
+  },
+
+  data: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+
+  options: {
+    cc: Schema.Types.Mixed,
+    bcc: Schema.Types.Mixed,
+  },
+
+  status: {
+    type: String,
+    enum: ['pending', 'sending', 'sent', 'dead'],
+    default: 'pending',
+  },
+
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+
+  maxAttempts: {
+    type: Number,
+    default: 6,
+  },
+
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now,
+  },
+
+  lockedBy: String,
+  lockedUntil: Date,
+
+  lastError: {
+    type: String,
+    maxlength: 1000,
+  },
+
+  messageId: String,
+  sentAt: Date,
+  deadAt: Date,
+}, {
+  timestamps: true,
+  minimize: false,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+EmailOutboxSchema.index({ idempotencyKey: 1 }, { unique: true, sparse: true });
+EmailOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+EmailOutboxSchema.index({ status: 1, lockedUntil: 1 });
+EmailOutboxSchema.index({ sentAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 }); // Keep sent mail for 30 days
+
+// Virtual for entry ID
+EmailOutboxSchema.virtual('id').get(function() {
+  return this._id.toString();
+});
+
+// Create and export the model
+const EmailOutbox: Model<IEmailOutbox> =
+  mongoose.models.EmailOutbox || mongoose.model<IEmailOutbox>('EmailOutbox', EmailOutboxSchema);
+
+export default EmailOutbox;
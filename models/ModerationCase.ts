@@ -0,0 +1,309 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import {
+  ModerationTargetType,
+  ModerationCaseStatus,
+  ModerationCaseSource,
+  ModerationCaseSeverity,
+  ModerationDecision,
+  ModerationAppeal,
+} from '@/types/story';
+
+// Moderation case interface extending mongoose Document
+export interface IModerationCase extends Document {
+  _id: string;
+
+  // What was flagged
+  targetType: ModerationTargetType;
+  targetId: string;
+  storyId: string; // the story itself, or the story a comment belongs to
+  targetAuthorId: string;
+  excerpt: string;
+  source: ModerationCaseSource;
+
+  // ContentFilter verdict
+  flaggedCategories: string[];
+  severity: ModerationCaseSeverity;
+
+  // Workflow
+  status: ModerationCaseStatus;
+  assignee?: string;
+  assignedAt?: Date;
+  escalated: boolean;
+
+  // SLA timers
+  dueAt: Date;
+  firstResponseAt?: Date;
+  resolvedAt?: Date;
+
+  // Visibility to put back if the content is approved after being held
+  hold: {
+    active: boolean;
+    isPublic?: boolean;
+    status?: string;
+  };
+
+  decisions: ModerationDecision[];
+  appeal?: ModerationAppeal;
+
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Virtuals
+  isOverdue: boolean;
+}
+
+export interface IModerationCaseModel extends Model<IModerationCase> {
+  findActiveForTarget(targetType: ModerationTargetType, targetId: string): any;
+  findQueue(filters?: {
+    status?: ModerationCaseStatus;
+    targetType?: ModerationTargetType;
+    severity?: ModerationCaseSeverity;
+    assignee?: string;
+  }): any;
+  findOverdue(): any;
+  getQueueStats(): Promise<Record<string, number>>;
+}
+
+export const ACTIVE_CASE_STATUSES: ModerationCaseStatus[] = ['open', 'in_review', 'appealed'];
+
+// Decision subdocument schema
+const DecisionSchema = new Schema({
+  decision: {
+    type: String,
+    enum: ['approve', 'reject', 'escalate'],
+    required: true,
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Decision reason cannot be longer than 500 characters'],
+  },
+  decidedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  previousStatus: {
+    type: String,
+    required: true,
+  },
+  newStatus: {
+    type: String,
+    required: true,
+  },
+  onAppeal: {
+    type: Boolean,
+    default: false,
+  },
+  decidedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
+
+// Appeal subdocument schema
+const AppealSchema = new Schema({
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  requesterRole: {
+    type: String,
+    enum: ['child', 'parent'],
+    required: true,
+  },
+  reason: {
+    type: String,
+    required: [true, 'Appeal reason is required'],
+    trim: true,
+    maxlength: [1000, 'Appeal reason cannot be longer than 1000 characters'],
+  },
+  requestedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  outcome: {
+    type: String,
+    enum: ['upheld', 'overturned'],
+  },
+  resolvedAt: {
+    type: Date,
+  },
+}, { _id: false });
+
+// Moderation case schema definition
+const ModerationCaseSchema = new Schema<IModerationCase>({
+  targetType: {
+    type: String,
+    enum: ['story', 'comment'],
+    required: true,
+  },
+
+  targetId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+
+  storyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Story',
+    required: true,
+    index: true,
+  },
+
+  targetAuthorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+
+  excerpt: {
+    type: String,
+    default: '',
+    maxlength: [500, 'Excerpt cannot be longer than 500 characters'],
+  },
+
+  source: {
+    type: String,
+    enum: ['content_filter', 'user_report', 'manual'],
+    default: 'content_filter',
+  },
+
+  flaggedCategories: [{
+    type: String,
+    trim: true,
+  }],
+
+  severity: {
+    type: String,
+    enum: ['low', 'medium', 'high', 'critical'],
+    default: 'medium',
+    index: true,
+  },
+
+  status: {
+    type: String,
+    enum: ['open', 'in_review', 'resolved', 'appealed', 'closed'],
+    default: 'open',
+    index: true,
+  },
+
+  assignee: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    index: true,
+  },
+
+  assignedAt: {
+    type: Date,
+  },
+
+  escalated: {
+    type: Boolean,
+    default: false,
+  },
+
+  dueAt: {
+    type: Date,
+    required: true,
+  },
+
+  firstResponseAt: {
+    type: Date,
+  },
+
+  resolvedAt: {
+    type: Date,
+  },
+
+  hold: {
+    active: {
+      type: Boolean,
+      default: false,
+    },
+    isPublic: {
+      type: Boolean,
+    },
+    status: {
+      type: String,
+    },
+  },
+
+  decisions: [DecisionSchema],
+
+  appeal: AppealSchema,
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+ModerationCaseSchema.index({ targetType: 1, targetId: 1, status: 1 });
+ModerationCaseSchema.index({ status: 1, dueAt: 1 });
+ModerationCaseSchema.index({ assignee: 1, status: 1 });
+
+// Virtual properties
+ModerationCaseSchema.virtual('id').get(function() {
+  return this._id.toHexString();
+});
+
+ModerationCaseSchema.virtual('isOverdue').get(function() {
+  return ACTIVE_CASE_STATUSES.includes(this.status) && this.dueAt < new Date();
+});
+
+// Static methods
+ModerationCaseSchema.statics.findActiveForTarget = function(
+  targetType: ModerationTargetType,
+  targetId: string
+) {
+  return this.findOne({ targetType, targetId, status: { $in: ACTIVE_CASE_STATUSES } });
+};
+
+ModerationCaseSchema.statics.findQueue = function(filters: any = {}) {
+  const query: any = {};
+
+  if (filters.status) query.status = filters.status;
+  if (filters.targetType) query.targetType = filters.targetType;
+  if (filters.severity) query.severity = filters.severity;
+  if (filters.assignee) query.assignee = filters.assignee;
+
+  return this.find(query).sort({ dueAt: 1 });
+};
+
+ModerationCaseSchema.statics.findOverdue = function() {
+  return this.find({
+    status: { $in: ACTIVE_CASE_STATUSES },
+    dueAt: { $lt: new Date() },
+  }).sort({ dueAt: 1 });
+};
+
+ModerationCaseSchema.statics.getQueueStats = async function() {
+  const [byStatus, overdue] = await Promise.all([
+    this.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+    this.countDocuments({ status: { $in: ACTIVE_CASE_STATUSES }, dueAt: { $lt: new Date() } }),
+  ]);
+
+  const stats: Record<string, number> = {
+    open: 0,
+    in_review: 0,
+    resolved: 0,
+    appealed: 0,
+    closed: 0,
+    overdue,
+  };
+
+  byStatus.forEach((entry: { _id: string; count: number }) => {
+    stats[entry._id] = entry.count;
+  });
+
+  return stats;
+};
+
+const ModerationCase: IModerationCaseModel =
+  (mongoose.models.ModerationCase as IModerationCaseModel) ||
+  mongoose.model<IModerationCase, IModerationCaseModel>('ModerationCase', ModerationCaseSchema);
+
+export default ModerationCase;
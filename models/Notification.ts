@@ -1,6 +1,35 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { NotificationType } from '@/types';
 
+export type DeliveryChannel = 'realtime' | 'email' | 'push';
+
+// One channel's outcome. 'deferred' waits out the writer's quiet hours;
+// a 'failed' channel is retried until it has used its attempts.
+export interface ChannelDelivery {
+  channel: DeliveryChannel;
+  status: 'sent' | 'skipped' | 'deferred' | 'failed';
+  attempts: number;
+  lastAttemptAt: Date;
+  detail?: string; // why it was skipped, or what carried it
+  error?: string;
+}
+
+// Set on a notification held for a digest. 'waiting' until the digest
+// goes out, then 'sent' with the digest notification's id.
+export interface NotificationDigestState {
+  frequency: 'hourly' | 'daily' | 'weekly';
+  status: 'waiting' | 'sent';
+  digestId?: string;
+}
+
+// Priority as a number, since the names don't sort in order
+export const PRIORITY_RANK: Record<INotification['priority'], number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  urgent: 3,
+};
+
 // Notification interface extending mongoose Document
 export interface INotification extends Document {
   _id: string;
@@ -27,15 +56,19 @@ export interface INotification extends Document {
   deliveredAt?: Date;
   deliveryStatus: 'pending' | 'sent' | 'delivered' | 'failed';
   deliveryError?: string;
+  deliveries: ChannelDelivery[];
+  lockedUntil?: Date; // set while a worker is delivering
   
   // Priority and appearance
   priority: 'low' | 'normal' | 'high' | 'urgent';
+  priorityRank: number; // kept in step with priority, for sorting
   variant: 'info' | 'success' | 'warning' | 'error';
   icon?: string;
   
   // Grouping and categorization
   category?: string;
   groupId?: string;
+  digest?: NotificationDigestState;
   
   // Metadata
   createdAt: Date;
@@ -49,6 +82,10 @@ export interface INotification extends Document {
   canBeDelivered(): boolean;
 }
 
+export interface INotificationModel extends Model<INotification> {
+  findPendingDelivery(): mongoose.Query<INotification[], INotification>;
+}
+
 // Notification schema definition
 const NotificationSchema = new Schema<INotification>({
   userId: {
@@ -72,7 +109,17 @@ const NotificationSchema = new Schema<INotification>({
       'maintenance_alert',
       'welcome',
       'reminder',
-      'export_ready'
+      'export_ready',
+      'content_moderation',
+      'publish_approval',
+      'collaboration_invite',
+      'classroom_enrolled',
+      'assignment_posted',
+      'assignment_due',
+      'assignment_submitted',
+      'story_assessed',
+      'stage_promoted',
+      'digest'
     ],
     required: true,
     index: true,
@@ -153,6 +200,20 @@ const NotificationSchema = new Schema<INotification>({
     type: String,
     trim: true,
   },
+
+  deliveries: [{
+    _id: false,
+    channel: { type: String, enum: ['realtime', 'email', 'push'], required: true },
+    status: { type: String, enum: ['sent', 'skipped', 'deferred', 'failed'], required: true },
+    attempts: { type: Number, default: 0 },
+    lastAttemptAt: { type: Date },
+    detail: { type: String, maxlength: 200 },
+    error: { type: String, maxlength: 500 },
+  }],
+
+  lockedUntil: {
+    type: Date,
+  },
   
   priority: {
     type: String,
@@ -160,6 +221,11 @@ const NotificationSchema = new Schema<INotification>({
     default: 'normal',
     index: true,
   },
+
+  priorityRank: {
+    type: Number,
+    default: PRIORITY_RANK.normal,
+  },
   
   variant: {
     type: String,
@@ -184,6 +250,12 @@ const NotificationSchema = new Schema<INotification>({
     trim: true,
     index: true,
   },
+
+  digest: {
+    frequency: { type: String, enum: ['hourly', 'daily', 'weekly'] },
+    status: { type: String, enum: ['waiting', 'sent'] },
+    digestId: { type: Schema.Types.ObjectId, ref: 'Notification' },
+  },
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -195,6 +267,7 @@ NotificationSchema.index({ userId: 1, createdAt: -1 });
 NotificationSchema.index({ userId: 1, isRead: 1, createdAt: -1 });
 NotificationSchema.index({ type: 1, createdAt: -1 });
 NotificationSchema.index({ deliveryStatus: 1, scheduledFor: 1 });
+NotificationSchema.index({ deliveryStatus: 1, priorityRank: -1, createdAt: 1 }); // delivery worker
 NotificationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
 NotificationSchema.index({ priority: 1, createdAt: -1 });
 NotificationSchema.index({ groupId: 1, createdAt: -1 });
@@ -202,6 +275,7 @@ NotificationSchema.index({ groupId: 1, createdAt: -1 });
 // Compound indexes
 NotificationSchema.index({ userId: 1, type: 1, createdAt: -1 });
 NotificationSchema.index({ userId: 1, deliveryStatus: 1, scheduledFor: 1 });
+NotificationSchema.index({ 'digest.status': 1, 'digest.frequency': 1, createdAt: 1 });
 
 // Virtual properties
 NotificationSchema.virtual('id').get(function() {
@@ -229,6 +303,12 @@ NotificationSchema.virtual('timeUntilExpiry').get(function() {
   return Math.max(0, this.expiresAt.getTime() - now.getTime());
 });
 
+// Validation runs for insertMany as well as save, so every write sets the rank
+NotificationSchema.pre('validate', function(next) {
+  this.priorityRank = PRIORITY_RANK[this.priority] ?? PRIORITY_RANK.normal;
+  next();
+});
+
 // Pre-save middleware
 NotificationSchema.pre('save', function(next) {
   // Set default category based on type
@@ -240,6 +320,13 @@ NotificationSchema.pre('save', function(next) {
   if (!this.icon) {
     this.icon = this.getIconFromType();
   }
+
+  // Group updates about the same thing, so they collapse together in the
+  // list and in digests
+  if (!this.groupId) {
+    const subject = this.data?.assignmentId || this.data?.storyId || this.data?.classroomId;
+    this.groupId = subject ? `${this.type}:${subject}` : this.type;
+  }
   
   // Auto-set expiry for certain types
   if (!this.expiresAt) {
@@ -270,30 +357,16 @@ NotificationSchema.methods.markAsUnread = async function(): Promise<void> {
   });
 };
 
+// Sends through each channel the delivery method names; see
+// lib/notification-delivery. Loaded on use, as it depends on this model.
 NotificationSchema.methods.deliver = async function(): Promise<void> {
   // Check if notification can be delivered
   if (!this.canBeDelivered()) {
     throw new Error('Notification cannot be delivered');
   }
   
-  try {
-    // Here you would implement actual delivery logic
-    // For now, just mark as delivered
-    await this.updateOne({
-      $set: {
-        deliveryStatus: 'delivered',
-        deliveredAt: new Date(),
-      }
-    });
-  } catch (error) {
-    await this.updateOne({
-      $set: {
-        deliveryStatus: 'failed',
-        deliveryError: error instanceof Error ? error.message : 'Unknown error',
-      }
-    });
-    throw error;
-  }
+  const { deliverNotification } = await import('@/lib/notification-delivery');
+  await deliverNotification(this);
 };
 
 NotificationSchema.methods.isExpired = function(): boolean {
@@ -322,6 +395,16 @@ NotificationSchema.methods.getCategoryFromType = function(): string {
     welcome: 'onboarding',
     reminder: 'system',
     export_ready: 'system',
+    content_moderation: 'safety',
+    publish_approval: 'safety',
+    collaboration_invite: 'social',
+    classroom_enrolled: 'classroom',
+    assignment_posted: 'classroom',
+    assignment_due: 'classroom',
+    assignment_submitted: 'classroom',
+    story_assessed: 'feedback',
+    stage_promoted: 'achievement',
+    digest: 'digest',
   };
   
   return categoryMap[this.type] || 'general';
@@ -341,6 +424,9 @@ NotificationSchema.methods.getIconFromType = function(): string {
     welcome: '👋',
     reminder: '⏰',
     export_ready: '📄',
+    content_moderation: '🛡️',
+    publish_approval: '👪',
+    digest: '🗞️',
   };
   
   return iconMap[this.type] || '🔔';
@@ -360,6 +446,9 @@ NotificationSchema.methods.getDefaultExpiry = function(): Date {
     welcome: 7, // 7 days
     reminder: 1, // 1 day
     export_ready: 3, // 3 days
+    content_moderation: 30, // 30 days
+    publish_approval: 14, // 14 days
+    digest: 14, // 14 days
   };
   
   const days = expiryMap[this.type] || 7;
@@ -404,17 +493,15 @@ NotificationSchema.statics.markAllAsRead = function(userId: string) {
 };
 
 NotificationSchema.statics.findPendingDelivery = function() {
+  const now = new Date();
   return this.find({
     deliveryStatus: 'pending',
-    $or: [
-      { scheduledFor: { $exists: false } },
-      { scheduledFor: { $lte: new Date() } }
-    ],
-    $or: [
-      { expiresAt: { $exists: false } },
-      { expiresAt: { $gt: new Date() } }
+    $and: [
+      { $or: [{ scheduledFor: { $exists: false } }, { scheduledFor: { $lte: now } }] },
+      { $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: now } }] },
+      { $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }] },
     ]
-  }).sort({ priority: -1, createdAt: 1 });
+  }).sort({ priorityRank: -1, createdAt: 1 });
 };
 
 NotificationSchema.statics.createNotification = async function(
@@ -520,6 +607,8 @@ NotificationSchema.statics.deleteGroup = function(groupId: string) {
 };
 
 // Create and export the model
-const Notification: Model<INotification> = mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema);
+const Notification: INotificationModel =
+  (mongoose.models.Notification as INotificationModel) ||
+  mongoose.model<INotification, INotificationModel>('Notification', NotificationSchema);
 
 export default Notification;
\ No newline at end of file
@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// A browser's Web Push subscription. One user can have several (a laptop
+// and a tablet); the endpoint is unique to the browser.
+export interface IPushSubscription extends Document {
+  _id: string;
+  userId: string;
+  endpoint: string;
+  keys: {
+    p256dh: string; // the browser's public key, base64url
+    auth: string; // shared auth secret, base64url
+  };
+  userAgent?: string;
+  lastSuccessAt?: Date;
+  failureCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PushSubscriptionSchema = new Schema<IPushSubscription>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+
+  endpoint: {
+    type: String,
+    required: true,
+    maxlength: 1000,
+  },
+
+  keys: {
+    p256dh: { type: String, required: true, maxlength: 200 },
+    auth: { type: String, required: true, maxlength: 100 },
+  },
+
+  userAgent: {
+    type: String,
+    maxlength: 300,
+  },
+
+  lastSuccessAt: Date,
+
+  failureCount: {
+    type: Number,
+    default: 0,
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+PushSubscriptionSchema.index({ endpoint: 1 }, { unique: true });
+
+// Virtual for subscription ID
+PushSubscriptionSchema.virtual('id').get(function() {
+  return this._id.toString();
+});
+
+// Create and export the model
+const PushSubscription: Model<IPushSubscription> =
+  mongoose.models.PushSubscription || mongoose.model<IPushSubscription>('PushSubscription', PushSubscriptionSchema);
+
+export default PushSubscription;
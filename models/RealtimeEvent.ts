@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Real-time event interface extending mongoose Document. Every event sent over
+// Server-Sent Events is logged so a reconnecting client can replay what it
+// missed (Last-Event-ID) and so other server instances can deliver it.
+export interface IRealtimeEvent extends Document {
+  _id: string;
+  sequence: number;
+  channel: string;
+  event: string;
+  data: any;
+
+  // Server instance that published the event and delivered it locally
+  origin: string;
+
+  createdAt: Date;
+}
+
+// Real-time event schema definition
+const RealtimeEventSchema = new Schema<IRealtimeEvent>({
+  sequence: {
+    type: Number,
+    required: true,
+    unique: true,
+  },
+
+  channel: {
+    type: String,
+    required: true,
+  },
+
+  event: {
+    type: String,
+    required: true,
+  },
+
+  data: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+
+  origin: {
+    type: String,
+    required: true,
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, {
+  minimize: false,
+});
+
+// Indexes for performance
+RealtimeEventSchema.index({ channel: 1, sequence: 1 });
+RealtimeEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 86400 }); // Replay window: 24 hours
+
+// Create and export the model
+const RealtimeEvent: Model<IRealtimeEvent> =
+  mongoose.models.RealtimeEvent || mongoose.model<IRealtimeEvent>('RealtimeEvent', RealtimeEventSchema);
+
+export default RealtimeEvent;
@@ -0,0 +1,109 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { RubricCriterion } from '@/types/rubric';
+
+// Rubric interface extending mongoose Document
+export interface IRubric extends Document {
+  _id: string;
+  mentorId: string;
+  name: string;
+  description?: string;
+  criteria: RubricCriterion[];
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RubricLevelSchema = new Schema({
+  score: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 6,
+  },
+  label: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 40,
+  },
+  descriptor: {
+    type: String,
+    trim: true,
+    maxlength: 300,
+  },
+}, { _id: false });
+
+export const RubricCriterionSchema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 80,
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 300,
+  },
+  weight: {
+    type: Number,
+    default: 1,
+    min: 1,
+    max: 10,
+  },
+  levels: [RubricLevelSchema],
+}, { _id: false });
+
+// Rubric schema definition
+const RubricSchema = new Schema<IRubric>({
+  mentorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+
+  name: {
+    type: String,
+    required: [true, 'Rubric name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters'],
+  },
+
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters'],
+  },
+
+  criteria: {
+    type: [RubricCriterionSchema],
+    validate: {
+      validator: (criteria: RubricCriterion[]) => criteria.length >= 1 && criteria.length <= 10,
+      message: 'A rubric needs between 1 and 10 criteria',
+    },
+  },
+
+  // Archived rubrics stay readable for the scores recorded against them
+  isArchived: {
+    type: Boolean,
+    default: false,
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+RubricSchema.index({ mentorId: 1, isArchived: 1, updatedAt: -1 });
+
+// Virtual properties
+RubricSchema.virtual('id').get(function() {
+  return this._id.toHexString();
+});
+
+// Create and export the model
+const Rubric: Model<IRubric> =
+  mongoose.models.Rubric || mongoose.model<IRubric>('Rubric', RubricSchema);
+
+export default Rubric;
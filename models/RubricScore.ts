@@ -0,0 +1,116 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { AssessmentSource } from '@/types/rubric';
+
+// One criterion of one rubric assessment. Kept as separate records so trend
+// reports can aggregate a criterion across stories without unpacking them.
+export interface IRubricScore extends Document {
+  _id: string;
+  storyId: string;
+  authorId: string;
+  assignmentId?: string;
+  rubricId?: string;
+  rubricName: string;
+  criterion: string;
+  level: number;
+  maxLevel: number;
+  score: number; // level as a percentage of maxLevel
+  weight: number;
+  source: AssessmentSource;
+  assessorId?: string;
+  comment?: string;
+  assessedAt: Date;
+  createdAt: Date;
+}
+
+// RubricScore schema definition
+const RubricScoreSchema = new Schema<IRubricScore>({
+  storyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Story',
+    required: true,
+  },
+
+  authorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+
+  assignmentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Assignment',
+  },
+
+  rubricId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Rubric',
+  },
+
+  rubricName: {
+    type: String,
+    required: true,
+  },
+
+  criterion: {
+    type: String,
+    required: true,
+  },
+
+  level: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+
+  maxLevel: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+
+  score: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100,
+  },
+
+  weight: {
+    type: Number,
+    default: 1,
+  },
+
+  source: {
+    type: String,
+    enum: ['ai', 'mentor'],
+    required: true,
+  },
+
+  assessorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+
+  comment: {
+    type: String,
+    maxlength: 500,
+  },
+
+  assessedAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// Indexes for performance
+RubricScoreSchema.index({ storyId: 1, source: 1 });
+RubricScoreSchema.index({ authorId: 1, criterion: 1, assessedAt: -1 });
+RubricScoreSchema.index({ assignmentId: 1, criterion: 1 });
+
+// Create and export the model
+const RubricScore: Model<IRubricScore> =
+  mongoose.models.RubricScore || mongoose.model<IRubricScore>('RubricScore', RubricScoreSchema);
+
+export default RubricScore;
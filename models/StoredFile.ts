@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type StorageDriver = 'gridfs' | 'local';
+
+// Stored file interface extending mongoose Document. One record per upload;
+// uploads with the same content share a single blob (storageKey).
+export interface IStoredFile extends Document {
+  _id: string;
+  ownerId?: string;
+  filename: string;
+  contentType: string;
+  size: number;
+
+  // sha256 of the content, used to share blobs between identical uploads
+  hash: string;
+  driver: StorageDriver;
+  storageKey: string;
+
+  // Whether size was added to the owner's Subscription.usage.storageUsed
+  countsTowardsQuota: boolean;
+  metadata: Record<string, any>;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Stored file schema definition
+const StoredFileSchema = new Schema<IStoredFile>({
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    index: true,
+  },
+
+  filename: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [255, 'Filename cannot be longer than 255 characters'],
+  },
+
+  contentType: {
+    type: String,
+    required: true,
+    default: 'application/octet-stream',
+  },
+
+  size: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+
+  hash: {
+    type: String,
+    required: true,
+    index: true,
+  },
+
+  driver: {
+    type: String,
+    enum: ['gridfs', 'local'],
+    required: true,
+  },
+
+  storageKey: {
+    type: String,
+    required: true,
+  },
+
+  countsTowardsQuota: {
+    type: Boolean,
+    default: true,
+  },
+
+  metadata: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+StoredFileSchema.index({ ownerId: 1, hash: 1 });
+StoredFileSchema.index({ driver: 1, hash: 1 });
+
+// Virtual properties
+StoredFileSchema.virtual('id').get(function() {
+  return this._id.toHexString();
+});
+
+// Create and export the model
+const StoredFile: Model<IStoredFile> =
+  mongoose.models.StoredFile || mongoose.model<IStoredFile>('StoredFile', StoredFileSchema);
+
+export default StoredFile;
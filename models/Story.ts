@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import { StoryElements, StoryStatus, StoryStage, AIResponseType } from '@/types';
+import { CriterionScore, RubricAssessment } from '@/types/rubric';
 
 // Story interface extending mongoose Document
 export interface IStory extends Document {
@@ -55,6 +56,7 @@ export interface IStory extends Document {
     themeIntegration: number;
     characterDevelopment: number;
     plotProgression: number;
+    rubric?: CriterionScore[];
   };
   
   // Mentor assessment
@@ -74,6 +76,9 @@ export interface IStory extends Document {
     improvementSinceLastStory?: string;
     consistentStrengths?: string[];
   };
+
+  // Latest rubric scoring from each source
+  rubricAssessments: RubricAssessment[];
   
   // Metadata
   readingTime: number;
@@ -81,6 +86,15 @@ export interface IStory extends Document {
   isPublic: boolean;
   tags: string[];
   
+  // A linked parent decides whether a published story is shown publicly
+  publicApproval?: {
+    status: 'pending' | 'approved' | 'declined';
+    requestedAt: Date;
+    decidedAt?: Date;
+    decidedBy?: string;
+    note?: string;
+  };
+  
   // Export and sharing
   exportHistory: Array<{
     id: string;
@@ -100,6 +114,30 @@ export interface IStory extends Document {
   sessionsCount: number;
   revisionCount: number;
   
+  // Co-writing: invited classmates and what each person wrote
+  collaborators: Array<{
+    userId: string;
+    name: string;
+    addedBy: string;
+    addedAt: Date;
+  }>;
+  contributions: Array<{
+    userId: string;
+    name: string;
+    role: string;
+    charactersAdded: number;
+    charactersRemoved: number;
+    charactersInText: number;
+    editCount: number;
+    lastContributedAt: Date;
+  }>;
+  // Last collaboration session version written to content
+  collaborationVersion: number;
+
+  // Class assignment this story was written for
+  assignmentId?: string;
+  submittedAt?: Date;
+  
   // Methods
   calculateWordCount(): number;
   calculateReadingTime(): number;
@@ -188,6 +226,71 @@ const ExportHistorySchema = new Schema({
   _id: true,
 });
 
+// Co-writing subdocument schemas
+const CollaboratorSchema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  addedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
+
+const ContributionSchema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  role: {
+    type: String,
+    required: true,
+  },
+  charactersAdded: { type: Number, default: 0, min: 0 },
+  charactersRemoved: { type: Number, default: 0, min: 0 },
+  charactersInText: { type: Number, default: 0, min: 0 },
+  editCount: { type: Number, default: 0, min: 0 },
+  lastContributedAt: Date,
+}, { _id: false });
+
+const CriterionScoreSchema = new Schema({
+  criterion: { type: String, required: true },
+  level: { type: Number, required: true, min: 1 },
+  maxLevel: { type: Number, required: true, min: 1 },
+  label: String,
+  weight: { type: Number, default: 1 },
+  comment: { type: String, maxlength: 500 },
+}, { _id: false });
+
+const RubricAssessmentSchema = new Schema({
+  rubricId: { type: Schema.Types.ObjectId, ref: 'Rubric' },
+  rubricName: { type: String, required: true },
+  source: { type: String, enum: ['ai', 'mentor'], required: true },
+  assessorId: { type: Schema.Types.ObjectId, ref: 'User' },
+  assessorName: String,
+  criteria: [CriterionScoreSchema],
+  weightedScore: { type: Number, min: 0, max: 100 },
+  assessedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
 // Story schema definition
 const StorySchema = new Schema<IStory>({
   title: {
@@ -320,6 +423,7 @@ const StorySchema = new Schema<IStory>({
     themeIntegration: { type: Number, min: 0, max: 100 },
     characterDevelopment: { type: Number, min: 0, max: 100 },
     plotProgression: { type: Number, min: 0, max: 100 },
+    rubric: [CriterionScoreSchema],
   },
   
   // Mentor assessment
@@ -339,6 +443,8 @@ const StorySchema = new Schema<IStory>({
     improvementSinceLastStory: String,
     consistentStrengths: [String],
   },
+
+  rubricAssessments: [RubricAssessmentSchema],
   
   readingTime: {
     type: Number,
@@ -364,6 +470,24 @@ const StorySchema = new Schema<IStory>({
     maxlength: 50,
   }],
   
+  publicApproval: {
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'declined'],
+    },
+    requestedAt: Date,
+    decidedAt: Date,
+    decidedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+  },
+  
   exportHistory: [ExportHistorySchema],
   
   shareCount: {
@@ -395,6 +519,23 @@ const StorySchema = new Schema<IStory>({
     default: 0,
     min: 0,
   },
+  
+  collaborators: [CollaboratorSchema],
+  
+  contributions: [ContributionSchema],
+  
+  collaborationVersion: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+
+  assignmentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Assignment',
+  },
+
+  submittedAt: Date,
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -411,6 +552,8 @@ StorySchema.index({ isPublic: 1, publishedAt: -1 });
 StorySchema.index({ authorAge: 1, 'elements.genre': 1 });
 StorySchema.index({ createdAt: -1 });
 StorySchema.index({ wordCount: 1, stage: 1 });
+StorySchema.index({ 'collaborators.userId': 1 });
+StorySchema.index({ assignmentId: 1, authorId: 1 }, { sparse: true });
 
 // Virtual properties
 StorySchema.virtual('id').get(function() {
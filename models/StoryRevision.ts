@@ -0,0 +1,225 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { StoryStage, StoryStatus, RevisionSource } from '@/types/story';
+
+// Story revision interface extending mongoose Document
+export interface IStoryRevision extends Document {
+  _id: string;
+  storyId: string;
+  revisionNumber: number;
+
+  // Snapshot of the story at save time
+  title: string;
+  content: string;
+  wordCount: number;
+  wordDelta: number;
+  stage: StoryStage;
+  status: StoryStatus;
+
+  // Who saved it and how
+  savedBy: {
+    userId: string;
+    name: string;
+    role: string;
+  };
+  source: RevisionSource;
+  restoredFrom?: number;
+
+  createdAt: Date;
+}
+
+export interface IStoryRevisionModel extends Model<IStoryRevision> {
+  recordRevision(
+    story: {
+      _id: any;
+      title: string;
+      content: string;
+      wordCount: number;
+      stage: StoryStage;
+      status: StoryStatus;
+    },
+    savedBy: { id: string; name: string; role: string },
+    source?: RevisionSource,
+    restoredFrom?: number
+  ): Promise<IStoryRevision>;
+  findByStory(storyId: string): any;
+  findByNumber(storyId: string, revisionNumber: number): any;
+}
+
+// Story revision schema definition
+const StoryRevisionSchema = new Schema<IStoryRevision>({
+  storyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Story',
+    required: true,
+    index: true,
+  },
+
+  revisionNumber: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, 'Title cannot be longer than 200 characters'],
+  },
+
+  // A story can be saved with nothing written yet
+  content: {
+    type: String,
+    default: '',
+    maxlength: [10000, 'Story content cannot exceed 10,000 characters'],
+  },
+
+  wordCount: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+
+  wordDelta: {
+    type: Number,
+    default: 0,
+  },
+
+  stage: {
+    type: Number,
+    enum: [1, 2, 3, 4, 5],
+    required: true,
+  },
+
+  status: {
+    type: String,
+    enum: ['draft', 'in-progress', 'completed', 'published', 'archived'],
+    required: true,
+  },
+
+  savedBy: {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    role: {
+      type: String,
+      required: true,
+    },
+  },
+
+  source: {
+    type: String,
+    enum: ['create', 'update', 'restore', 'collaboration'],
+    default: 'update',
+  },
+
+  restoredFrom: {
+    type: Number,
+    min: 1,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Indexes for performance
+StoryRevisionSchema.index({ storyId: 1, revisionNumber: -1 }, { unique: true });
+StoryRevisionSchema.index({ storyId: 1, createdAt: -1 });
+
+// Virtual properties
+StoryRevisionSchema.virtual('id').get(function() {
+  return this._id.toHexString();
+});
+
+// Revisions are immutable once written
+StoryRevisionSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Story revisions cannot be modified'));
+  }
+  next();
+});
+
+const rejectMutation = function(next: (error?: Error) => void) {
+  next(new Error('Story revisions cannot be modified'));
+};
+
+StoryRevisionSchema.pre('updateOne', rejectMutation);
+StoryRevisionSchema.pre('updateMany', rejectMutation);
+StoryRevisionSchema.pre('findOneAndUpdate', rejectMutation);
+StoryRevisionSchema.pre('replaceOne', rejectMutation);
+
+// Concurrent saves of one story can pick the same next number; the unique
+// index rejects all but one and the others try again with a fresh number
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+// Static methods
+StoryRevisionSchema.statics.recordRevision = async function(
+  story,
+  savedBy,
+  source = 'update',
+  restoredFrom
+) {
+  const content = story.content || '';
+  const wordCount = content.trim().split(/\s+/).filter((word: string) => word.length > 0).length;
+
+  for (let attempt = 1; ; attempt++) {
+    const previous = await this.findOne({ storyId: story._id })
+      .sort({ revisionNumber: -1 })
+      .select('revisionNumber wordCount')
+      .lean();
+
+    try {
+      return await this.create({
+        storyId: story._id,
+        revisionNumber: previous ? previous.revisionNumber + 1 : 1,
+        title: story.title,
+        content,
+        wordCount,
+        wordDelta: previous ? wordCount - previous.wordCount : wordCount,
+        stage: story.stage,
+        status: story.status,
+        savedBy: {
+          userId: savedBy.id,
+          name: savedBy.name,
+          role: savedBy.role,
+        },
+        source,
+        restoredFrom,
+      });
+    } catch (error) {
+      if (!isDuplicateKeyError(error) || attempt >= MAX_NUMBERING_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
+
+StoryRevisionSchema.statics.findByStory = function(storyId: string) {
+  return this.find({ storyId })
+    .select('-content')
+    .sort({ revisionNumber: -1 });
+};
+
+StoryRevisionSchema.statics.findByNumber = function(storyId: string, revisionNumber: number) {
+  return this.findOne({ storyId, revisionNumber });
+};
+
+// Create and export the model
+const StoryRevision: IStoryRevisionModel =
+  (mongoose.models.StoryRevision as IStoryRevisionModel) ||
+  mongoose.model<IStoryRevision, IStoryRevisionModel>('StoryRevision', StoryRevisionSchema);
+
+export default StoryRevision;
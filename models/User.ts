@@ -1,6 +1,8 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import { UserRole, SubscriptionTier, AgeGroup } from '@/types';
+import { StageProgress } from '@/types/progression';
+import { DigestFrequency, DigestPreferences, QuietHours } from '@/types/auth';
 
 // User interface extending mongoose Document
 export interface IUser extends Document {
@@ -10,7 +12,7 @@ export interface IUser extends Document {
   password: string;
   role: UserRole;
 
-  // Basic info
+  // Basic info (parents sign up without an age)
   age: number;
   ageGroup: AgeGroup;
   school?: string;
@@ -38,6 +40,19 @@ export interface IUser extends Document {
   parentEmail?: string;
   parentConsent?: boolean;
   parentConsentDate?: Date;
+  parentConsentStatus: 'not_required' | 'pending' | 'granted' | 'denied';
+  parentConsentRequestId?: string;
+  parentConsentRequestedAt?: Date;
+  parentConsentEvents: Array<{
+    action: 'requested' | 'approved' | 'denied';
+    parentEmail: string;
+    ipAddress?: string;
+    userAgent?: string;
+    timestamp: Date;
+  }>;
+
+  // Parent accounts: the children this parent supervises
+  linkedChildren: string[];
 
   // User preferences
   preferences: {
@@ -61,6 +76,8 @@ export interface IUser extends Document {
       aiAssistanceLevel: 'minimal' | 'normal' | 'maximum';
       preferredGenres: string[];
     };
+    quietHours: QuietHours;
+    digests: DigestPreferences;
   };
 
   // Statistics
@@ -78,6 +95,9 @@ export interface IUser extends Document {
     lastWritingDate?: Date;
   };
 
+  // Writing stage (StoryStage 1-5) and the review that last decided it
+  progression: StageProgress;
+
   // Security
   passwordChangedAt?: Date;
   loginAttempts: number;
@@ -105,11 +125,14 @@ export interface IUser extends Document {
   updateLastActive(): Promise<void>;
   calculateAgeGroup(): AgeGroup;
   canCreateStory(): boolean;
+  hasParentalConsent(): boolean;
   canExportStory(): boolean;
   getRemainingStoryLimit(): number;
   updateStats(updates: Partial<IUser['stats']>): Promise<void>;
 }
 
+const DIGEST_FREQUENCIES: DigestFrequency[] = ['instant', 'hourly', 'daily', 'weekly'];
+
 // User schema definition
 const UserSchema = new Schema<IUser>(
   {
@@ -143,7 +166,7 @@ const UserSchema = new Schema<IUser>(
 
     role: {
       type: String,
-      enum: ['child', 'mentor', 'admin'],
+      enum: ['child', 'parent', 'mentor', 'admin'],
       default: 'child',
       required: true,
       index: true,
@@ -151,7 +174,12 @@ const UserSchema = new Schema<IUser>(
 
     age: {
       type: Number,
-      required: [true, 'Age is required'],
+      required: [
+        function (this: IUser) {
+          return this.role !== 'parent';
+        },
+        'Age is required',
+      ],
       min: [2, 'Age must be at least 2'],
       max: [18, 'Age must be at most 18'],
     },
@@ -159,7 +187,9 @@ const UserSchema = new Schema<IUser>(
     ageGroup: {
       type: String,
       enum: ['2-5', '6-8', '9-12', '13-15', '16-18'],
-      required: true,
+      required: function (this: IUser) {
+        return this.role !== 'parent';
+      },
     },
 
     school: {
@@ -261,6 +291,55 @@ const UserSchema = new Schema<IUser>(
       type: Date,
     },
 
+    parentConsentStatus: {
+      type: String,
+      enum: ['not_required', 'pending', 'granted', 'denied'],
+      default: 'not_required',
+      index: true,
+    },
+
+    // Only links carrying the current request ID are accepted
+    parentConsentRequestId: {
+      type: String,
+      select: false,
+    },
+
+    parentConsentRequestedAt: {
+      type: Date,
+    },
+
+    // Audit trail of every request and every approve/deny link followed
+    parentConsentEvents: [
+      {
+        action: {
+          type: String,
+          enum: ['requested', 'approved', 'denied'],
+          required: true,
+        },
+        parentEmail: {
+          type: String,
+          required: true,
+          lowercase: true,
+          trim: true,
+        },
+        ipAddress: String,
+        userAgent: String,
+        timestamp: {
+          type: Date,
+          default: Date.now,
+        },
+        _id: false,
+      },
+    ],
+
+    // Linked by matching the child's parentEmail, see /api/parent/children
+    linkedChildren: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    ],
+
     preferences: {
       theme: {
         type: String,
@@ -293,6 +372,22 @@ const UserSchema = new Schema<IUser>(
         },
         preferredGenres: [{ type: String }],
       },
+      // Push and email wait until these end; in-app notifications don't
+      quietHours: {
+        enabled: { type: Boolean, default: false },
+        start: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/, default: '20:00' },
+        end: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/, default: '07:00' },
+        timezone: { type: String, default: 'UTC' },
+      },
+      // Per notification category; see lib/notification-digests
+      digests: {
+        writing: { type: String, enum: DIGEST_FREQUENCIES, default: 'instant' },
+        feedback: { type: String, enum: DIGEST_FREQUENCIES, default: 'instant' },
+        classroom: { type: String, enum: DIGEST_FREQUENCIES, default: 'instant' },
+        achievement: { type: String, enum: DIGEST_FREQUENCIES, default: 'instant' },
+        progress: { type: String, enum: DIGEST_FREQUENCIES, default: 'instant' },
+        social: { type: String, enum: DIGEST_FREQUENCIES, default: 'instant' },
+      },
     },
 
     stats: {
@@ -309,6 +404,33 @@ const UserSchema = new Schema<IUser>(
       lastWritingDate: { type: Date },
     },
 
+    progression: {
+      currentStage: { type: Number, enum: [1, 2, 3, 4, 5], default: 1 },
+      stageReachedAt: { type: Date },
+      lastReview: {
+        decision: { type: String, enum: ['promoted', 'held', 'top_stage'] },
+        fromStage: { type: Number },
+        toStage: { type: Number },
+        evidence: {
+          storiesConsidered: { type: Number },
+          averageScore: { type: Number },
+          averageWords: { type: Number },
+          aiShare: { type: Number },
+        },
+        reasons: [{ type: String }],
+        reviewedAt: { type: Date },
+      },
+      promotions: [
+        {
+          _id: false,
+          fromStage: { type: Number, required: true },
+          toStage: { type: Number, required: true },
+          promotedAt: { type: Date, required: true },
+          storyId: { type: Schema.Types.ObjectId, ref: 'Story' },
+        },
+      ],
+    },
+
     passwordChangedAt: {
       type: Date,
     },
@@ -363,6 +485,7 @@ UserSchema.index({ email: 1 }, { unique: true });
 UserSchema.index({ role: 1, isActive: 1 });
 UserSchema.index({ subscriptionTier: 1, subscriptionStatus: 1 });
 UserSchema.index({ mentorId: 1 });
+UserSchema.index({ linkedChildren: 1 });
 UserSchema.index({ createdAt: -1 });
 UserSchema.index({ lastActiveAt: -1 });
 UserSchema.index({ ageGroup: 1, role: 1 });
@@ -401,7 +524,9 @@ UserSchema.pre('save', async function (next) {
 
 UserSchema.pre('save', function (next) {
   // Calculate age group based on age
-  this.ageGroup = this.calculateAgeGroup();
+  if (this.age !== undefined) {
+    this.ageGroup = this.calculateAgeGroup();
+  }
 
   // Update last active
   this.lastActiveAt = new Date();
@@ -538,6 +663,11 @@ UserSchema.methods.canCreateStory = function (): boolean {
   return this.stats.storiesCreated < limits.maxStories;
 };
 
+// Under-13 accounts need a parent's approval before publishing, comments or AI features
+UserSchema.methods.hasParentalConsent = function (): boolean {
+  return this.age >= 13 || this.parentConsent === true;
+};
+
 UserSchema.methods.canExportStory = function (): boolean {
   // Check if account is active
   if (!this.isActive || this.accountStatus !== 'active') {
@@ -623,6 +753,7 @@ UserSchema.statics.getUserStats = async function () {
         _id: null,
         totalUsers: { $sum: 1 },
         children: { $sum: { $cond: [{ $eq: ['$role', 'child'] }, 1, 0] } },
+        parents: { $sum: { $cond: [{ $eq: ['$role', 'parent'] }, 1, 0] } },
         mentors: { $sum: { $cond: [{ $eq: ['$role', 'mentor'] }, 1, 0] } },
         admins: { $sum: { $cond: [{ $eq: ['$role', 'admin'] }, 1, 0] } },
         verifiedUsers: { $sum: { $cond: ['$emailVerified', 1, 0] } },
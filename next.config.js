@@ -66,6 +66,7 @@ const nextConfig = {
   experimental: {
     appDir: true,
     serverComponentsExternalPackages: ['mongoose', 'mongodb'],
+    instrumentationHook: true,
   },
 
   // Image optimization
@@ -25,3 +25,36 @@ self.addEventListener('fetch', (event) => {
     })
   );
 });
+
+// Web Push notifications, sent by lib/notification-delivery
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch (error) {
+    payload = { title: 'Mintoons', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Mintoons', {
+      body: payload.body,
+      tag: payload.id,
+      icon: '/favicon.ico',
+      data: { url: payload.url || '/dashboard' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/dashboard';
+
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      const open = windowClients.find((client) => client.url.includes(url) && 'focus' in client);
+      return open ? open.focus() : clients.openWindow(url);
+    })
+  );
+});
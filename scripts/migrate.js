@@ -47,6 +47,26 @@ async function runMigrations() {
       }
     );
 
+    // Migration 4: Numeric notification priority, so urgent sorts first
+    console.log('🔔 Ranking notification priorities...');
+    await mongoose.connection.db.collection('notifications').updateMany(
+      { priorityRank: { $exists: false } },
+      [{
+        $set: {
+          priorityRank: {
+            $switch: {
+              branches: [
+                { case: { $eq: ['$priority', 'urgent'] }, then: 3 },
+                { case: { $eq: ['$priority', 'high'] }, then: 2 },
+                { case: { $eq: ['$priority', 'low'] }, then: 0 },
+              ],
+              default: 1,
+            }
+          }
+        }
+      }]
+    );
+
     console.log('✅ All migrations completed successfully');
   } catch (error) {
     console.error('❌ Migration failed:', error);
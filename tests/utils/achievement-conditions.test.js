@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  conditionUsesStories,
+  evaluateCondition,
+  parseCondition,
+  toConditionStats,
+} from '../../lib/achievement-conditions';
+
+const now = new Date('2026-06-15');
+
+function story(overrides = {}) {
+  return {
+    genre: 'mystery',
+    wordCount: 400,
+    grammarScore: 75,
+    creativityScore: 85,
+    overallScore: 80,
+    completedAt: new Date('2026-06-10'),
+    ...overrides,
+  };
+}
+
+function evaluate(source, context) {
+  const parsed = parseCondition(source);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return evaluateCondition(parsed.condition, { stats: {}, stories: [], now, ...context });
+}
+
+describe('Achievement condition language', () => {
+  it('counts stories by genre, score and time window', () => {
+    const condition = '3 mystery stories with creativityScore >= 80 within 14 days';
+    const stories = [story(), story(), story({ completedAt: new Date('2026-06-05') })];
+
+    expect(evaluate(condition, { stories })).toBe(true);
+    expect(evaluate(condition, { stories: [...stories.slice(0, 2), story({ creativityScore: 70 })] })).toBe(false);
+    expect(evaluate(condition, { stories: [...stories.slice(0, 2), story({ genre: 'Fantasy' })] })).toBe(false);
+    expect(evaluate(condition, { stories: [...stories.slice(0, 2), story({ completedAt: new Date('2026-05-01') })] })).toBe(false);
+  });
+
+  it('matches genre labels and slugs alike', () => {
+    expect(evaluate('1 "Animal Stories" story', { stories: [story({ genre: 'animal-stories' })] })).toBe(true);
+    expect(evaluate('1 sci-fi story', { stories: [story({ genre: 'Sci-Fi' })] })).toBe(true);
+  });
+
+  it('keeps story filters and clauses apart on "and"', () => {
+    const parsed = parseCondition('2 stories with wordCount >= 300 and grammarScore > 70 and stage >= 2');
+
+    expect(parsed.condition.kind).toBe('and');
+    expect(parsed.condition.clauses[0].filters).toHaveLength(2);
+    expect(parsed.condition.clauses[1]).toEqual({ kind: 'stat', stat: 'stage', op: '>=', value: 2 });
+  });
+
+  it('compares stats with and/or/not and parentheses', () => {
+    const stats = toConditionStats({ currentWritingStreak: 8, totalWordCount: 1200, achievementsUnlocked: ['a', 'b'], stage: 3 });
+
+    expect(evaluate('stage >= 3 and (currentWritingStreak >= 7 or totalWordCount >= 5000)', { stats })).toBe(true);
+    expect(evaluate('not achievementsUnlocked >= 2', { stats })).toBe(false);
+    expect(evaluate('stage >= 4 or totalWordCount = 1200', { stats })).toBe(true);
+  });
+
+  it('reports where an invalid condition goes wrong', () => {
+    expect(parseCondition('stage >=')).toEqual({ error: 'Expected a number after ">="', position: 8 });
+    expect(parseCondition('3 poetry stories').error).toContain('Unknown genre "poetry"');
+    expect(parseCondition('require("fs")').error).toContain('Unknown stat "require"');
+    expect(parseCondition('stage >= 2 stage').error).toContain('Expected "and", "or" or the end');
+    expect(parseCondition('3 stories within 900 days').error).toContain('at most 366 days');
+  });
+
+  it('knows when story history is needed', () => {
+    expect(conditionUsesStories(parseCondition('stage >= 2').condition)).toBe(false);
+    expect(conditionUsesStories(parseCondition('stage >= 2 or not 1 story').condition)).toBe(true);
+  });
+});
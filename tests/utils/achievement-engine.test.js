@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { achievementDependencies, achievementProgress } from '../../lib/achievement-engine';
+import { conditionDependencies, conditionProgress, parseCondition } from '../../lib/achievement-conditions';
+import { nextWritingStreak } from '../../lib/writing-streak';
+
+const now = new Date('2026-06-15T12:00:00Z');
+
+describe('Achievement engine', () => {
+  it('knows which stats an achievement reads', () => {
+    expect(achievementDependencies({ storiesCompleted: 5, consecutiveDays: 3 }))
+      .toEqual(['storiesCreated', 'currentWritingStreak']);
+    expect(achievementDependencies({ customCondition: 'stage >= 2 or 3 mystery stories' }))
+      .toEqual(['stage', 'stories']);
+    expect(conditionDependencies(parseCondition('not (stage >= 2 and stage < 4)').condition)).toEqual(['stage']);
+  });
+
+  it('gives partial progress towards counts and thresholds', () => {
+    const stats = { storiesCreated: 2, totalWordCount: 1500, stories: [] };
+
+    expect(achievementProgress({ storiesCompleted: 4 }, stats, now)).toBe(50);
+    expect(achievementProgress({ storiesCompleted: 4, wordsWritten: 1000 }, stats, now)).toBe(75);
+    expect(achievementProgress({ customCondition: 'totalWordCount >= 3000' }, stats, now)).toBe(50);
+  });
+
+  it('credits story counts and the best branch of an "or"', () => {
+    const context = {
+      stats: { stage: 1 },
+      stories: [{ genre: 'Mystery', wordCount: 300, completedAt: now }],
+      now,
+    };
+
+    expect(conditionProgress(parseCondition('4 mystery stories').condition, context)).toBe(0.25);
+    expect(conditionProgress(parseCondition('stage >= 4 or 2 stories').condition, context)).toBe(0.5);
+    expect(conditionProgress(parseCondition('not 1 story').condition, context)).toBe(0);
+  });
+});
+
+describe('Writing streak', () => {
+  it('extends on the next day and restarts after a gap', () => {
+    const stats = {
+      lastWritingDate: new Date('2026-06-14T20:00:00Z'),
+      currentWritingStreak: 4,
+      longestWritingStreak: 6,
+    };
+
+    expect(nextWritingStreak(stats, now)).toEqual({ current: 5, longest: 6 });
+    expect(nextWritingStreak(stats, new Date('2026-06-17T08:00:00Z'))).toEqual({ current: 1, longest: 6 });
+    expect(nextWritingStreak({}, now)).toEqual({ current: 1, longest: 1 });
+  });
+
+  it('counts a day once', () => {
+    expect(nextWritingStreak({ lastWritingDate: new Date('2026-06-15T01:00:00Z'), currentWritingStreak: 2 }, now))
+      .toBeNull();
+  });
+});
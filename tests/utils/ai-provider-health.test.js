@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { CircuitBreaker, ProviderHealthTracker } from '../../lib/ai-provider-health';
+
+const options = { failureThreshold: 3, cooldownMs: 60000 };
+
+describe('AI Provider Health', () => {
+  describe('CircuitBreaker', () => {
+    it('opens after repeated failures and rejects requests', () => {
+      const breaker = new CircuitBreaker(options);
+      const now = new Date('2024-01-01T10:00:00Z');
+
+      breaker.recordFailure(now);
+      breaker.recordFailure(now);
+      expect(breaker.canRequest(now)).toBe(true);
+
+      breaker.recordFailure(now);
+      expect(breaker.getState(now).state).toBe('open');
+      expect(breaker.canRequest(now)).toBe(false);
+    });
+
+    it('lets one trial request through after the cooldown', () => {
+      const breaker = new CircuitBreaker(options);
+      const openedAt = new Date('2024-01-01T10:00:00Z');
+      const later = new Date('2024-01-01T10:01:00Z');
+
+      [1, 2, 3].forEach(() => breaker.recordFailure(openedAt));
+
+      expect(breaker.canRequest(later)).toBe(true);
+      expect(breaker.canRequest(later)).toBe(false);
+
+      breaker.recordSuccess();
+      expect(breaker.getState(later).state).toBe('closed');
+    });
+
+    it('re-opens when the trial request fails', () => {
+      const breaker = new CircuitBreaker(options);
+      const openedAt = new Date('2024-01-01T10:00:00Z');
+      const later = new Date('2024-01-01T10:01:00Z');
+
+      [1, 2, 3].forEach(() => breaker.recordFailure(openedAt));
+      breaker.canRequest(later);
+      breaker.recordFailure(later);
+
+      expect(breaker.getState(later).state).toBe('open');
+      expect(breaker.getState(later).nextAttemptAt).toEqual(new Date('2024-01-01T10:02:00Z'));
+    });
+  });
+
+  describe('ProviderHealthTracker', () => {
+    it('reports metrics and recent failures per provider', () => {
+      const tracker = new ProviderHealthTracker(options);
+
+      tracker.recordSuccess('openai', 200);
+      tracker.recordUsage('openai', 1000, 0.04);
+      tracker.recordFailure('openai', 'generateStory', new Error('Too Many Requests'), 100);
+      tracker.recordSuccess('anthropic', 100);
+
+      const [openai, anthropic] = tracker.getSnapshot(['openai', 'anthropic']);
+
+      expect(openai.metrics.requestsCount).toBe(2);
+      expect(openai.metrics.errorRate).toBe(0.5);
+      expect(openai.metrics.averageResponseTime).toBe(150);
+      expect(openai.metrics.costPerRequest).toBeCloseTo(0.04);
+      expect(openai.metrics.commonErrors).toEqual(['Too Many Requests']);
+      expect(openai.recentFailures[0].operation).toBe('generateStory');
+      expect(anthropic.metrics.performanceRank).toBe(1);
+      expect(openai.metrics.qualityRank).toBe(2);
+    });
+  });
+});
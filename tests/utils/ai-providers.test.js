@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import { aiManager } from '../../lib/ai-providers';
+
+jest.mock('../../utils/db', () => ({ connectToDatabase: jest.fn() }));
+
+const AIKeys = mongoose.models.AIKeys;
+
+// Stored in the order an admin added them, not by priority
+const keys = [
+  { provider: 'openai', isActive: true, metadata: { priority: 1 }, usage: { totalCost: 0 } },
+  { provider: 'google', isActive: true, metadata: { priority: 3 }, usage: { totalCost: 0 } },
+  { provider: 'anthropic', isActive: true, metadata: { priority: 5 }, usage: { totalCost: 0 } },
+];
+
+describe('AI provider order', () => {
+  beforeEach(() => {
+    jest.spyOn(AIKeys, 'find').mockReturnValue({
+      sort: async () => [...keys].sort((a, b) => b.metadata.priority - a.metadata.priority),
+    });
+    jest.spyOn(AIKeys, 'findOne').mockImplementation(async ({ provider }) =>
+      keys.find(key => key.provider === provider) || null
+    );
+    jest.spyOn(AIKeys, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+  });
+
+  it('follows key priority when no admin has chosen a default', async () => {
+    expect(await aiManager.getProviderOrder()).toEqual(['anthropic', 'google', 'openai', 'local']);
+    expect(await aiManager.getDefaultProvider()).toBe('anthropic');
+  });
+
+  it('tries a requested provider first', async () => {
+    expect(await aiManager.getProviderOrder('openai')).toEqual(['openai', 'anthropic', 'google', 'local']);
+  });
+
+  it('puts an admin\'s chosen default ahead of priority', async () => {
+    await aiManager.switchProvider('google');
+
+    expect(await aiManager.getProviderOrder()).toEqual(['google', 'anthropic', 'openai', 'local']);
+  });
+});
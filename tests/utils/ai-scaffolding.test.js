@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  decideScaffolding,
+  scaffoldedTask,
+  scaffoldingTokenLimit,
+} from '../../lib/ai-scaffolding';
+
+describe('AI scaffolding', () => {
+  it('lets the parent setting through when the stage allows it', () => {
+    const policy = decideScaffolding({ assistanceLevel: 'maximum', age: 8, stage: 1 });
+
+    expect(policy.assistanceLevel).toBe('maximum');
+    expect(policy.mode).toBe('write');
+    expect(policy.maxSentences).toBe(3);
+    expect(policy.reasons).toHaveLength(0);
+  });
+
+  it('caps assistance at the stage limit', () => {
+    const policy = decideScaffolding({ assistanceLevel: 'maximum', age: 12, stage: 3 });
+
+    expect(policy.assistanceLevel).toBe('normal');
+    expect(policy.maxSentences).toBe(2);
+    expect(policy.reasons[0]).toContain('Stage 3');
+  });
+
+  it('asks questions instead of writing at minimal assistance', () => {
+    const policy = decideScaffolding({ assistanceLevel: 'normal', age: 14, stage: 5 });
+
+    expect(policy.assistanceLevel).toBe('minimal');
+    expect(policy.mode).toBe('guide');
+  });
+
+  it('switches to questions when the writer has written little of the story', () => {
+    expect(decideScaffolding({ age: 9, stage: 1, childShare: 0.4 }).mode).toBe('guide');
+    expect(decideScaffolding({ age: 9, stage: 1, childShare: 0.6 }).mode).toBe('write');
+    expect(decideScaffolding({ assistanceLevel: 'maximum', age: 9, stage: 1, childShare: 0.4 }).mode).toBe('write');
+  });
+
+  it('picks vocabulary by age and stretches it from stage 4', () => {
+    expect(decideScaffolding({ age: 6, stage: 1 }).vocabulary).toBe('simple');
+    expect(decideScaffolding({ age: 9, stage: 1 }).maxSentenceWords).toBe(15);
+    expect(decideScaffolding({ age: 12, stage: 4 }).vocabulary).toBe('advanced');
+  });
+
+  it('rewrites only the tasks that would write story text', () => {
+    const write = decideScaffolding({ age: 9, stage: 2 });
+    const guide = decideScaffolding({ assistanceLevel: 'minimal', age: 9, stage: 2 });
+
+    expect(scaffoldedTask('continuation', write)).toContain('next 2 sentences');
+    expect(scaffoldedTask('continuation', guide)).toContain('Do not write any of the story');
+    expect(scaffoldedTask('feedback', write)).toBeUndefined();
+  });
+
+  it('sizes the token limit to the sentence budget', () => {
+    const policy = decideScaffolding({ assistanceLevel: 'minimal', age: 6, stage: 1 });
+
+    expect(scaffoldingTokenLimit(policy, 'continuation', 'text')).toBe(15);
+    expect(scaffoldingTokenLimit(policy, 'feedback', 'json')).toBe(45 + 60);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import { checkElementConstraints, submissionStatus, countSubmissions } from '../../lib/assignments';
+
+describe('Assignments', () => {
+  describe('checkElementConstraints', () => {
+    it('accepts stories that keep to the allowed elements', () => {
+      const elements = { genre: 'animal-stories', setting: 'forest', mood: 'funny' };
+      const constraints = { genre: ['Animal Stories'], setting: ['Forest', 'Ocean'] };
+
+      expect(checkElementConstraints(elements, constraints)).toEqual([]);
+    });
+
+    it('explains fixed and allowed-list elements separately', () => {
+      const problems = checkElementConstraints(
+        { genre: 'mystery', setting: 'castle' },
+        { genre: ['Animal Stories'], setting: ['Forest', 'Ocean'] }
+      );
+
+      expect(problems).toEqual([
+        'This assignment uses the genre "Animal Stories"',
+        'Pick a setting from: Forest, Ocean',
+      ]);
+    });
+
+    it('ignores elements the assignment leaves open', () => {
+      expect(checkElementConstraints({ genre: 'mystery' }, { genre: [] })).toEqual([]);
+      expect(checkElementConstraints({ genre: 'mystery' })).toEqual([]);
+    });
+  });
+
+  describe('submissionStatus', () => {
+    const due = new Date('2026-03-10T23:59:59Z');
+    const before = new Date('2026-03-09T12:00:00Z');
+    const after = new Date('2026-03-11T12:00:00Z');
+
+    it('separates on-time from late hand-ins', () => {
+      expect(submissionStatus(due, { submittedAt: before }, after)).toBe('submitted');
+      expect(submissionStatus(due, { submittedAt: after }, after)).toBe('late');
+    });
+
+    it('marks unsubmitted work missing once the due date passes', () => {
+      expect(submissionStatus(due, {}, after)).toBe('missing');
+      expect(submissionStatus(due, null, after)).toBe('missing');
+    });
+
+    it('tells started from not-started work before the due date', () => {
+      expect(submissionStatus(due, {}, before)).toBe('in_progress');
+      expect(submissionStatus(due, null, before)).toBe('not_started');
+      expect(submissionStatus(undefined, null, after)).toBe('not_started');
+    });
+  });
+
+  it('counts every status, including ones nobody is in', () => {
+    const counts = countSubmissions([
+      { userId: 'a', name: 'Ada', status: 'submitted' },
+      { userId: 'b', name: 'Ben', status: 'missing' },
+      { userId: 'c', name: 'Cy', status: 'submitted' },
+    ]);
+
+    expect(counts).toEqual({ submitted: 2, late: 0, missing: 1, in_progress: 0, not_started: 0 });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { generateJoinCode, normalizeJoinCode, parseRosterCsv } from '../../lib/classroom';
+
+describe('Classrooms', () => {
+  describe('join codes', () => {
+    it('generates six characters without look-alike letters or digits', () => {
+      for (let i = 0; i < 50; i++) {
+        const code = generateJoinCode();
+        expect(code).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+      }
+    });
+
+    it('normalizes codes the way children type them', () => {
+      expect(normalizeJoinCode('k7m-x2p')).toBe('K7MX2P');
+      expect(normalizeJoinCode(' K7M X2P ')).toBe('K7MX2P');
+    });
+  });
+
+  describe('parseRosterCsv', () => {
+    it('uses the email and name columns from a header row', () => {
+      const result = parseRosterCsv('Name,Email\nAda Lovelace,ADA@example.com\n"Hopper, Grace",grace@example.com\n');
+
+      expect(result.errors).toEqual([]);
+      expect(result.rows).toEqual([
+        { line: 2, email: 'ada@example.com', name: 'Ada Lovelace' },
+        { line: 3, email: 'grace@example.com', name: 'Hopper, Grace' },
+      ]);
+    });
+
+    it('finds the email in each line when there is no header', () => {
+      const result = parseRosterCsv('\uFEFFAda;ada@example.com\r\ngrace@example.com\tGrace');
+
+      expect(result.rows.map(row => row.email)).toEqual(['ada@example.com', 'grace@example.com']);
+      expect(result.rows[0].line).toBe(1);
+    });
+
+    it('reports unreadable and repeated rows by line number', () => {
+      const result = parseRosterCsv('email\nada@example.com\nnot-an-email\n\nada@example.com');
+
+      expect(result.rows).toHaveLength(1);
+      expect(result.errors).toEqual([
+        { line: 3, message: 'No valid email address' },
+        { line: 5, message: 'ada@example.com is listed more than once' },
+      ]);
+    });
+  });
+});
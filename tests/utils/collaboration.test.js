@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { applySessionEdits } from '../../lib/collaboration';
+import { createDocument, diffToOperations } from '../../lib/crdt';
+import { screenContent } from '../../lib/moderation-queue';
+import CollaborationSession from '../../models/CollaborationSession';
+import Story from '../../models/Story';
+
+jest.mock('../../utils/db', () => ({ connectToDatabase: jest.fn() }));
+jest.mock('../../lib/pusher', () => ({ notifyCollaborationUpdate: jest.fn(), notifyCursorMoved: jest.fn() }));
+jest.mock('../../lib/moderation-queue', () => ({ screenContent: jest.fn() }));
+jest.mock('../../lib/comment-anchors', () => ({ reanchorComments: jest.fn() }));
+
+const userId = '507f1f77bcf86cd799439011';
+const user = { id: userId, name: 'Ana', role: 'child' };
+const site = `${userId}.ab12`;
+
+function editsTo(text) {
+  return diffToOperations(createDocument('Once upon a time'), site, text);
+}
+
+describe('Co-writing edits', () => {
+  let stored;
+  let sessionUpdate;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored = { screenedVersion: 0, lastScreenedAt: undefined };
+
+    jest.spyOn(CollaborationSession, 'findOne').mockImplementation(() => ({
+      lean: async () => ({
+        _id: 'session1',
+        storyId: 'story1',
+        sessionKey: 'key1',
+        version: 3,
+        document: createDocument('Once upon a time'),
+        participants: [{ userId, isActive: true, permissions: { canEdit: true }, site }],
+        recentOps: [],
+        ...stored,
+      }),
+    }));
+    sessionUpdate = jest.spyOn(CollaborationSession, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+    jest.spyOn(Story, 'updateOne').mockResolvedValue({ modifiedCount: 0, matchedCount: 1 });
+    jest.spyOn(Story, 'findById').mockReturnValue({
+      select: async () => ({ title: 'The Cave', content: 'Once upon a time there', authorId: userId, authorAge: 9 }),
+    });
+  });
+
+  it('refuses a batch the content filter blocks before anyone sees it', async () => {
+    const result = await applySessionEdits('story1', user, 'key1', editsTo('Once upon a time I hate mondays'));
+
+    expect(result).toMatchObject({ error: 'Content contains inappropriate material', status: 400 });
+    expect(result.violations).toContain('Inappropriate word: hate');
+    expect(sessionUpdate).not.toHaveBeenCalled();
+    expect(Story.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('screens saved text while the session runs, at most once an interval', async () => {
+    expect(await applySessionEdits('story1', user, 'key1', editsTo('Once upon a time there')))
+      .toEqual({ version: 4, applied: 6 });
+    expect(screenContent).toHaveBeenCalledTimes(1);
+    expect(screenContent.mock.calls[0][0]).toMatchObject({ targetType: 'story', storyId: 'story1' });
+
+    stored = { screenedVersion: 4, lastScreenedAt: new Date() };
+    await applySessionEdits('story1', user, 'key1', editsTo('Once upon a time there was'));
+    expect(screenContent).toHaveBeenCalledTimes(1);
+  });
+});
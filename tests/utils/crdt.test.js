@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyOperations,
+  compactTombstones,
+  countBySite,
+  createDocument,
+  cursorAt,
+  diffToOperations,
+  documentText,
+  resolveCursor,
+  stampDeletions,
+} from '../../lib/crdt';
+
+const clone = (doc) => JSON.parse(JSON.stringify(doc));
+
+describe('CRDT', () => {
+  it('turns a textarea change into operations that replay elsewhere', () => {
+    const local = createDocument('The cat sat.');
+    const remote = clone(local);
+
+    const ops = diffToOperations(local, 'a', 'The big cat sat!');
+    expect(documentText(local)).toBe('The big cat sat!');
+
+    applyOperations(remote, ops);
+    expect(documentText(remote)).toBe('The big cat sat!');
+  });
+
+  it('converges when concurrent edits arrive in either order', () => {
+    const base = createDocument('Hello');
+    const alice = clone(base);
+    const bob = clone(base);
+
+    const aliceOps = diffToOperations(alice, 'alice', 'Hello there');
+    const bobOps = diffToOperations(bob, 'bob', 'Hello world');
+
+    applyOperations(alice, bobOps);
+    applyOperations(bob, aliceOps);
+
+    expect(documentText(alice)).toBe(documentText(bob));
+    expect(documentText(alice)).toContain('there');
+    expect(documentText(alice)).toContain('world');
+  });
+
+  it('reports inserts whose reference character has not arrived yet', () => {
+    const base = createDocument('');
+    const writer = clone(base);
+    const ops = diffToOperations(writer, 'a', 'abc');
+
+    const { missing } = applyOperations(base, ops.slice(1));
+    expect(missing).toHaveLength(2);
+    expect(documentText(base)).toBe('');
+  });
+
+  it('does not split emoji across an edit', () => {
+    const doc = createDocument('I like 🐶');
+    diffToOperations(doc, 'a', 'I like 🐱');
+    expect(documentText(doc)).toBe('I like 🐱');
+  });
+
+  it('keeps a cursor on the same words while others type before it', () => {
+    const doc = createDocument('one two');
+    const cursor = cursorAt(doc, 4, 7);
+
+    const peer = clone(doc);
+    applyOperations(doc, diffToOperations(peer, 'b', 'zero one two'));
+
+    const range = resolveCursor(doc, cursor);
+    expect(documentText(doc).slice(range.start, range.end)).toBe('two');
+  });
+
+  it('credits visible characters to the site that wrote them', () => {
+    const doc = createDocument('ab');
+    diffToOperations(doc, 'kid.1', 'abcd');
+    diffToOperations(doc, 'kid.2', 'bcd');
+    diffToOperations(doc, 'kid.2', 'bcdef');
+
+    expect(countBySite(doc)).toEqual({ origin: 1, 'kid.1': 2, 'kid.2': 2 });
+  });
+
+  it('drops tombstones every replica has seen and stays in step', () => {
+    const server = createDocument('The big cat sat.');
+    const writer = clone(server);
+
+    const deletes = diffToOperations(writer, 'a', 'The cat sat.');
+    applyOperations(server, deletes);
+    stampDeletions(server, deletes, 1);
+    const later = diffToOperations(writer, 'b', 'The cat sat down.');
+    applyOperations(server, later);
+    stampDeletions(server, later, 2);
+
+    expect(compactTombstones(server, 0)).toBe(0);
+    expect(compactTombstones(server, 1)).toBe(4);
+    expect(documentText(server)).toBe('The cat sat down.');
+
+    // The writer kept its tombstones; its next edits still land the same way
+    applyOperations(server, diffToOperations(writer, 'a', 'The fat cat sat down.'));
+    expect(documentText(server)).toBe(documentText(writer));
+  });
+});
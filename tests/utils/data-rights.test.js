@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import { runErasure } from '../../lib/data-rights';
+import User from '../../models/User';
+import Story from '../../models/Story';
+import StoryRevision from '../../models/StoryRevision';
+import Comment from '../../models/Comment';
+import Notification from '../../models/Notification';
+import ModerationCase from '../../models/ModerationCase';
+import CollaborationSession from '../../models/CollaborationSession';
+import Classroom from '../../models/Classroom';
+import Assignment from '../../models/Assignment';
+import Rubric from '../../models/Rubric';
+import RubricScore from '../../models/RubricScore';
+import PasswordReset from '../../models/PasswordReset';
+import PushSubscription from '../../models/PushSubscription';
+import EmailOutbox from '../../models/EmailOutbox';
+import { UserAchievement } from '../../models/Achievement';
+import { AnalyticsEvent } from '../../models/Analytics';
+
+// The models, their casting and their hooks are real; only the driver
+// calls underneath them are answered here
+jest.mock('../../utils/db', () => ({ connectToDatabase: jest.fn() }));
+jest.mock('../../utils/gridfs', () => ({
+  uploadFile: jest.fn(),
+  readFileBuffer: jest.fn(),
+  deleteFile: jest.fn(),
+  deleteFilesForOwner: jest.fn(async () => 2),
+}));
+jest.mock('../../lib/email', () => ({
+  sendDataExportReadyEmail: jest.fn(),
+  sendDataErasureReceiptEmail: jest.fn(),
+}));
+jest.mock('../../lib/auth', () => ({ requireLinkedChildApi: jest.fn() }));
+
+const userId = new mongoose.Types.ObjectId();
+const storyId = new mongoose.Types.ObjectId();
+
+const models = [
+  User, Story, StoryRevision, Comment, Notification, ModerationCase, CollaborationSession, Classroom,
+  Assignment, Rubric, RubricScore, PasswordReset, PushSubscription, EmailOutbox, UserAchievement,
+  AnalyticsEvent,
+];
+
+function stubCollection(model, found = []) {
+  const result = { acknowledged: true, deletedCount: 1, modifiedCount: 1, matchedCount: 1 };
+  const collection = model.collection;
+  return {
+    find: jest.spyOn(collection, 'find').mockImplementation(() => ({ toArray: async () => found })),
+    findOne: jest.spyOn(collection, 'findOne').mockImplementation(async () => found[0] || null),
+    updateMany: jest.spyOn(collection, 'updateMany').mockImplementation(async () => result),
+    deleteMany: jest.spyOn(collection, 'deleteMany').mockImplementation(async () => result),
+    deleteOne: jest.spyOn(collection, 'deleteOne').mockImplementation(async () => result),
+  };
+}
+
+function erasureRequest() {
+  return {
+    _id: new mongoose.Types.ObjectId(),
+    type: 'erasure',
+    userId,
+    status: 'pending',
+    save: jest.fn(async () => undefined),
+  };
+}
+
+describe('Data rights', () => {
+  let stubs;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stubs = new Map(models.map(model => [model, stubCollection(model)]));
+    stubCollection(User, [{ _id: userId, name: 'Ana', email: 'ana@example.com', role: 'child' }]);
+    stubCollection(Story, [{ _id: storyId }]);
+  });
+
+  it('erases an account and anonymizes the revisions it saved elsewhere', async () => {
+    const request = await runErasure(erasureRequest());
+
+    expect(request.error).toBeUndefined();
+    expect(request.status).toBe('completed');
+    expect(request.receipt.counts).toMatchObject({ storyRevisionsAnonymized: 1, files: 2, user: 1 });
+
+    const [filter, update] = stubs.get(StoryRevision).updateMany.mock.calls[0];
+    expect(filter['savedBy.userId'].toString()).toBe(userId.toString());
+    expect(update.$set['savedBy.name']).toBe('Former member');
+  });
+
+  it('removes the user\'s push subscriptions and the mail queued for them', async () => {
+    const request = await runErasure(erasureRequest());
+
+    expect(request.receipt.counts).toMatchObject({ pushSubscriptions: 1, emails: 1 });
+
+    const [subscriptionFilter] = stubs.get(PushSubscription).deleteMany.mock.calls[0];
+    expect(subscriptionFilter.userId.toString()).toBe(userId.toString());
+    const [outboxFilter] = stubs.get(EmailOutbox).deleteMany.mock.calls[0];
+    expect(outboxFilter).toEqual({ to: 'ana@example.com' });
+  });
+
+  it('still keeps revisions immutable through the model', async () => {
+    await expect(StoryRevision.updateMany(
+      { 'savedBy.userId': userId },
+      { $set: { 'savedBy.name': 'Someone else' } }
+    )).rejects.toThrow('Story revisions cannot be modified');
+  });
+});
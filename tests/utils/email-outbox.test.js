@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  clearLocalMailbox,
+  getLocalMailbox,
+  isPermanentFailure,
+  retryDelay,
+  sendEmail,
+} from '../../lib/email';
+
+describe('Email outbox', () => {
+  it('backs off exponentially and caps the delay', () => {
+    expect(retryDelay(1)).toBe(60 * 1000);
+    expect(retryDelay(2)).toBe(2 * 60 * 1000);
+    expect(retryDelay(4)).toBe(8 * 60 * 1000);
+    expect(retryDelay(20)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it('dead-letters rejected messages but retries server problems', () => {
+    expect(isPermanentFailure({ responseCode: 550, message: 'Mailbox unavailable' })).toBe(true);
+    expect(isPermanentFailure(new Error('Invalid email address: nobody'))).toBe(true);
+    expect(isPermanentFailure({ responseCode: 421, message: 'Try again later' })).toBe(false);
+    expect(isPermanentFailure({ code: 'EAUTH', responseCode: 535 })).toBe(false);
+    expect(isPermanentFailure(new Error('connect ECONNREFUSED'))).toBe(false);
+  });
+});
+
+describe('Local mail transport', () => {
+  beforeEach(() => {
+    process.env.EMAIL_TRANSPORT = 'local';
+    clearLocalMailbox();
+  });
+
+  it('keeps sent mail in memory', async () => {
+    const sent = await sendEmail('parent@example.com', 'welcome', { name: 'Sam' });
+
+    expect(sent).toBe(true);
+    const mailbox = getLocalMailbox();
+    expect(mailbox).toHaveLength(1);
+    expect(mailbox[0].to).toEqual(['parent@example.com']);
+    expect(mailbox[0].html).toContain('Hi Sam!');
+  });
+
+  it('rejects invalid addresses before sending', async () => {
+    expect(await sendEmail('not-an-address', 'welcome', { name: 'Sam' })).toBe(false);
+    expect(getLocalMailbox()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseRange, hashContent } from '../../utils/gridfs';
+
+describe('File Storage', () => {
+  describe('parseRange', () => {
+    it('serves the whole file without a usable Range header', () => {
+      expect(parseRange(null, 1000)).toBeNull();
+      expect(parseRange('bytes=0-10,20-30', 1000)).toBeNull();
+      expect(parseRange('items=0-10', 1000)).toBeNull();
+    });
+
+    it('parses bounded, open-ended and suffix ranges', () => {
+      expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+      expect(parseRange('bytes=900-', 1000)).toEqual({ start: 900, end: 999 });
+      expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+      expect(parseRange('bytes=990-2000', 1000)).toEqual({ start: 990, end: 999 });
+    });
+
+    it('rejects ranges outside the file', () => {
+      expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+      expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable');
+    });
+  });
+
+  it('hashes identical content to the same key', () => {
+    const first = hashContent(Buffer.from('Once upon a time'));
+
+    expect(first).toBe(hashContent(Buffer.from('Once upon a time')));
+    expect(first).not.toBe(hashContent(Buffer.from('Once upon a time.')));
+    expect(first).toMatch(/^[a-f0-9]{64}$/);
+  });
+});
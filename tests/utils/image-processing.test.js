@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import sharp from 'sharp';
+import {
+  detectImageType,
+  planVariantWidths,
+  processImage,
+  selectVariant,
+  toWebPFilename,
+} from '../../lib/image-processing';
+
+describe('Image Processing', () => {
+  it('plans variant widths without enlarging small images', () => {
+    expect(planVariantWidths(4032, 'illustration')).toEqual([320, 640, 1280]);
+    expect(planVariantWidths(800, 'illustration')).toEqual([320, 640]);
+    expect(planVariantWidths(200, 'illustration')).toEqual([200]);
+    expect(planVariantWidths(512, 'avatar')).toEqual([64, 128, 256]);
+  });
+
+  it('selects the smallest variant that covers the requested width', () => {
+    const variants = [{ width: 1280 }, { width: 320 }, { width: 640 }];
+
+    expect(selectVariant(variants, 100)).toEqual({ width: 320 });
+    expect(selectVariant(variants, 321)).toEqual({ width: 640 });
+    expect(selectVariant(variants, 5000)).toEqual({ width: 1280 });
+    expect(selectVariant([], 320)).toBeNull();
+  });
+
+  it('renames stored images to .webp', () => {
+    expect(toWebPFilename('IMG_2041.HEIC.jpg')).toBe('IMG_2041.HEIC.webp');
+    expect(toWebPFilename('drawing')).toBe('drawing.webp');
+  });
+
+  it('finds a JPEG sent as text/plain and strips its EXIF when re-encoding', async () => {
+    const photo = await sharp({ create: { width: 48, height: 32, channels: 3, background: '#3366ff' } })
+      .withMetadata({ exif: { IFD0: { Copyright: 'Taken at 12 Oak Tree Lane' } } })
+      .jpeg()
+      .toBuffer();
+    expect((await sharp(photo).metadata()).exif).toBeDefined();
+
+    // The declared type never reaches detection: only the bytes do
+    expect(await detectImageType(photo)).toBe('image/jpeg');
+    expect(await detectImageType(Buffer.from('Once upon a time there was a dragon.'))).toBeNull();
+    expect(await detectImageType(Buffer.from('%PDF-1.7\n'))).toBeNull();
+
+    const [variant] = await processImage(photo);
+    const stored = await sharp(variant.data).metadata();
+    expect(stored.format).toBe('webp');
+    expect(stored.exif).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { LocalProvider } from '../../lib/local-ai-provider';
+
+const elements = {
+  genre: 'fantasy',
+  setting: 'magical-forest',
+  character: 'dragon',
+  mood: 'exciting',
+  conflict: 'lost-treasure',
+  theme: 'friendship',
+};
+
+describe('LocalProvider', () => {
+  const provider = new LocalProvider();
+
+  describe('generateStory', () => {
+    it('returns the same opening for the same elements and age', async () => {
+      const first = await provider.generateStory(elements, 9);
+      const second = await provider.generateStory(elements, 9);
+
+      expect(first).toEqual(second);
+      expect(first.opening).toContain('dragon');
+      expect(first.responseTemplates.continue).toHaveLength(3);
+    });
+
+    it('costs nothing to run', () => {
+      expect(provider.getCost(5000)).toBe(0);
+    });
+  });
+
+  describe('assessStory', () => {
+    const careful = [
+      'Once upon a time, a dragon lived in a magical forest. She was lonely and wanted a friend.',
+      '"Will you help me find the lost treasure?" she asked a bright little fox. The fox smiled and said yes.',
+      'Together they searched the dark caves and the sparkling river. Finally they found the treasure, and the dragon learned that friendship was the real treasure. The end.',
+    ].join('\n\n');
+
+    const careless = 'the dragon went to the the forest and i found gold and then it went home and then it ate dinner and then it went to sleep and then it woke up and then it went back';
+
+    it('scores careful writing above careless writing', async () => {
+      const good = await provider.assessStory(careful, elements, 9);
+      const weak = await provider.assessStory(careless, elements, 9);
+
+      expect(good.grammarScore).toBeGreaterThan(weak.grammarScore);
+      expect(good.overallScore).toBeGreaterThan(weak.overallScore);
+      expect(weak.improvements).toContain('Capital letters at the start of sentences');
+    });
+
+    it('detects story structure and theme', async () => {
+      const assessment = await provider.assessStory(careful, elements, 9);
+
+      expect(assessment.hasBeginning).toBe(true);
+      expect(assessment.hasMiddle).toBe(true);
+      expect(assessment.hasEnd).toBe(true);
+      expect(assessment.themeIntegration).toBeGreaterThanOrEqual(75);
+    });
+  });
+
+  describe('generateSuggestions', () => {
+    it('turns the rubric into praise and tips for feedback requests', async () => {
+      const suggestions = await provider.generateSuggestions(
+        { type: 'feedback', storyContent: 'the dragon flew away', genre: 'fantasy' },
+        9
+      );
+
+      expect(suggestions[0].type).toBe('praise');
+      expect(suggestions.slice(1).every(s => s.type === 'suggestion')).toBe(true);
+    });
+  });
+});
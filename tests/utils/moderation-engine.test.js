@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { ModerationEngine, normalizeText, stemWord } from '../../lib/moderation-engine';
+
+describe('Moderation Engine', () => {
+  const engine = new ModerationEngine();
+
+  describe('normalizeText', () => {
+    it('undoes leetspeak, split letters and stretched letters', () => {
+      expect(normalizeText('sh1t')).toBe('shit');
+      expect(normalizeText('$tuuuupid')).toBe('stupid');
+      expect(normalizeText('s.t.u.p.i.d')).toBe('stupid');
+    });
+
+    it('keeps real numbers and punctuation', () => {
+      expect(normalizeText('3 dragons! Wow!')).toBe('3 dragons! wow!');
+    });
+  });
+
+  describe('stemWord', () => {
+    it('reduces word forms to a shared stem', () => {
+      expect(stemWord('teasing')).toBe('teas');
+      expect(stemWord('teased')).toBe('teas');
+      expect(stemWord('teases')).toBe('teas');
+    });
+  });
+
+  describe('moderate', () => {
+    it('passes an ordinary story', () => {
+      const result = engine.moderate('The brave dragon helped her friends find the hidden treasure!', '6-8');
+
+      expect(result.isAppropriate).toBe(true);
+      expect(result.flaggedCategories).toEqual([]);
+    });
+
+    it('applies stricter word lists to younger writers', () => {
+      const text = 'The pirate said "damn" when the ship sank.';
+
+      expect(engine.moderate(text, '6-8').isAppropriate).toBe(false);
+      expect(engine.moderate(text, '16-18').isAppropriate).toBe(true);
+    });
+
+    it('detects personal information', () => {
+      const result = engine.moderate('Call me at 555-123-4567 or add my snapchat: coolkid_22', '13-15');
+
+      expect(result.isAppropriate).toBe(false);
+      expect(result.flaggedCategories).toContain('personal_information');
+    });
+
+    it('detects a street address', () => {
+      expect(engine.moderate('Come to my party at 42 Oak Tree Lane on Saturday', '9-12').flaggedCategories)
+        .toContain('personal_information');
+      expect(engine.moderate('I live near 7 Baker St. with my cat', '9-12').flaggedCategories)
+        .toContain('personal_information');
+    });
+
+    it('does not mistake numbers in a story for an address', () => {
+      for (const text of [
+        '3 friends went into the forest',
+        '2 dragons flew all the way home',
+        '5 coins under the old board',
+        'We counted 10 Giant Steps to the\nCastle Road',
+      ]) {
+        expect(engine.moderate(text, '9-12').flaggedCategories).not.toContain('personal_information');
+      }
+    });
+
+    it('treats self-harm phrases as high severity', () => {
+      const result = engine.moderate('Sometimes I want to d1e and nobody would notice.', '13-15');
+
+      expect(result.flaggedCategories).toContain('self_harm');
+      expect(result.severity).toBe('high');
+    });
+
+    it('detects bullying aimed at someone', () => {
+      const result = engine.moderate('nobody likes you, you are so ugly', '13-15');
+
+      expect(result.flaggedCategories).toContain('bullying');
+      expect(result.isAppropriate).toBe(false);
+    });
+  });
+});
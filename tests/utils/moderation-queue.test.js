@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateDueAt,
+  caseSeverityFor,
+  nextCaseStatus,
+  canAppeal,
+  authorNoticeFor,
+} from '../../lib/moderation-queue';
+
+describe('Moderation Queue', () => {
+  describe('calculateDueAt', () => {
+    it('gives more severe cases a shorter SLA', () => {
+      const from = new Date('2024-01-01T10:00:00Z');
+
+      expect(calculateDueAt('critical', from).toISOString()).toBe('2024-01-01T11:00:00.000Z');
+      expect(calculateDueAt('medium', from).toISOString()).toBe('2024-01-02T10:00:00.000Z');
+    });
+  });
+
+  describe('caseSeverityFor', () => {
+    it('treats self-harm as critical', () => {
+      expect(caseSeverityFor({
+        isAppropriate: false,
+        flaggedCategories: ['self_harm'],
+        severity: 'high',
+      })).toBe('critical');
+
+      expect(caseSeverityFor({
+        isAppropriate: false,
+        flaggedCategories: ['inappropriate_language'],
+        severity: 'medium',
+      })).toBe('medium');
+    });
+  });
+
+  describe('nextCaseStatus', () => {
+    it('resolves open cases and closes appealed ones', () => {
+      expect(nextCaseStatus('open', 'reject')).toBe('resolved');
+      expect(nextCaseStatus('in_review', 'approve')).toBe('resolved');
+      expect(nextCaseStatus('appealed', 'approve')).toBe('closed');
+    });
+
+    it('keeps escalated cases active', () => {
+      expect(nextCaseStatus('open', 'escalate')).toBe('in_review');
+      expect(nextCaseStatus('appealed', 'escalate')).toBe('appealed');
+    });
+
+    it('refuses decisions on finished cases', () => {
+      expect(nextCaseStatus('resolved', 'approve')).toBeNull();
+      expect(nextCaseStatus('closed', 'reject')).toBeNull();
+    });
+  });
+
+  describe('canAppeal', () => {
+    it('allows a single appeal against a rejection', () => {
+      const rejected = { status: 'resolved', decisions: [{ decision: 'reject' }] };
+
+      expect(canAppeal(rejected)).toBe(true);
+      expect(canAppeal({ ...rejected, appeal: { reason: 'Please look again' } })).toBe(false);
+      expect(canAppeal({ status: 'resolved', decisions: [{ decision: 'approve' }] })).toBe(false);
+      expect(canAppeal({ status: 'open', decisions: [] })).toBe(false);
+    });
+  });
+
+  describe('authorNoticeFor', () => {
+    it('tells the author when an approval releases held content', () => {
+      expect(authorNoticeFor('story', 'approve', false, true)).toEqual({
+        title: 'Your story is back',
+        message: 'We checked your story and it can be shared again.',
+      });
+      expect(authorNoticeFor('comment', 'approve', true, true).message)
+        .toBe('We looked at your appeal and your comment can be shared again.');
+    });
+
+    it('stays quiet about approving content that was never hidden', () => {
+      expect(authorNoticeFor('story', 'approve', false, false)).toBeNull();
+      expect(authorNoticeFor('story', 'reject', false, false).message)
+        .toContain('You or your parent can ask us to look again.');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  channelsFor,
+  emailAllowed,
+  processPendingNotifications,
+  quietHoursEnd,
+  summarizeDeliveries,
+} from '../../lib/notification-delivery';
+import { encryptPushPayload } from '../../lib/web-push';
+import Notification from '../../models/Notification';
+
+jest.mock('../../utils/db', () => ({ connectToDatabase: jest.fn() }));
+jest.mock('../../lib/notification-digests', () => ({
+  ...jest.requireActual('../../lib/notification-digests'),
+  sendDueDigests: jest.fn(async () => 0),
+}));
+
+const now = new Date('2026-06-15T21:30:00Z');
+
+function hkdf(ikm, salt, info, length) {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+describe('Notification delivery', () => {
+  it('routes each delivery method to its channels', () => {
+    expect(channelsFor('in_app')).toEqual(['realtime']);
+    expect(channelsFor('email')).toEqual(['email']);
+    expect(channelsFor('all')).toEqual(['realtime', 'email', 'push']);
+  });
+
+  it('respects email preferences, but always sends account mail', () => {
+    const preferences = { emailNotifications: { mentorComments: false, achievements: true } };
+
+    expect(emailAllowed('mentor_comment', preferences)).toBe(false);
+    expect(emailAllowed('achievement_unlocked', preferences)).toBe(true);
+    expect(emailAllowed('subscription_update', preferences)).toBe(true);
+    expect(emailAllowed('story_assessed', undefined)).toBe(true);
+  });
+
+  it('holds until quiet hours end, across midnight and timezones', () => {
+    const evenings = { enabled: true, start: '20:00', end: '07:00', timezone: 'UTC' };
+
+    expect(quietHoursEnd(evenings, now)).toEqual(new Date('2026-06-16T07:00:00Z'));
+    expect(quietHoursEnd(evenings, new Date('2026-06-15T12:00:00Z'))).toBeNull();
+    expect(quietHoursEnd({ ...evenings, enabled: false }, now)).toBeNull();
+    // 22:30 in London during summer time; quiet hours end at 06:00 UTC
+    expect(quietHoursEnd({ ...evenings, timezone: 'Europe/London' }, now)).toEqual(new Date('2026-06-16T06:00:00Z'));
+    expect(quietHoursEnd({ ...evenings, timezone: 'Not/AZone' }, now)).toBeNull();
+  });
+
+  it('keeps a notification pending while a channel waits or can retry', () => {
+    const sent = { channel: 'realtime', status: 'sent', attempts: 1, lastAttemptAt: now };
+    const deferred = { channel: 'email', status: 'deferred', attempts: 0, lastAttemptAt: now };
+    const failed = { channel: 'push', status: 'failed', attempts: 1, lastAttemptAt: now, error: 'push service answered 500' };
+    const quietUntil = new Date('2026-06-16T07:00:00Z');
+
+    expect(summarizeDeliveries([sent, deferred], now, quietUntil))
+      .toEqual({ deliveryStatus: 'pending', scheduledFor: quietUntil, deliveryError: undefined });
+    expect(summarizeDeliveries([sent, failed], now, null).scheduledFor).toEqual(new Date(now.getTime() + 60 * 1000));
+    expect(summarizeDeliveries([sent, { ...failed, attempts: 3 }], now, null).deliveryStatus).toBe('delivered');
+    expect(summarizeDeliveries([{ ...failed, attempts: 3 }], now, null))
+      .toEqual({ deliveryStatus: 'failed', deliveryError: 'push: push service answered 500' });
+  });
+});
+
+describe('Notification priority', () => {
+  it('ranks urgent first when the worker sorts by rank', async () => {
+    const notifications = ['low', 'urgent', 'normal', 'high'].map(priority => new Notification({
+      userId: '507f1f77bcf86cd799439011',
+      type: 'mentor_comment',
+      title: 'New comment',
+      message: 'Your mentor left a comment',
+      priority,
+    }));
+    await Promise.all(notifications.map(notification => notification.validate()));
+
+    const order = [...notifications].sort((a, b) => b.priorityRank - a.priorityRank).map(n => n.priority);
+    expect(order).toEqual(['urgent', 'high', 'normal', 'low']);
+  });
+});
+
+describe('Notification worker', () => {
+  it('closes out a notification that expired after it was found', async () => {
+    const expired = new Notification({
+      userId: '507f1f77bcf86cd799439011',
+      type: 'reminder',
+      title: 'Keep writing',
+      message: 'Your story is waiting',
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    jest.spyOn(Notification, 'findPendingDelivery').mockReturnValue({
+      select: () => ({ limit: () => ({ lean: async () => [{ _id: expired._id }] }) }),
+    });
+    jest.spyOn(Notification, 'findOneAndUpdate').mockResolvedValue(expired);
+    const update = jest.spyOn(Notification, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+
+    expect(await processPendingNotifications()).toBe(0);
+    expect(update).toHaveBeenCalledWith(
+      { _id: expired._id },
+      {
+        $set: { deliveryStatus: 'failed', deliveryError: 'Expired before it could be delivered' },
+        $unset: { lockedUntil: 1 },
+      }
+    );
+  });
+});
+
+describe('Web Push encryption', () => {
+  it('can only be read with the browser keys', () => {
+    const browser = crypto.createECDH('prime256v1');
+    const browserKey = browser.generateKeys();
+    const auth = crypto.randomBytes(16);
+
+    const body = encryptPushPayload('{"title":"Hi"}', {
+      endpoint: 'https://push.example.com/abc',
+      keys: { p256dh: browserKey.toString('base64url'), auth: auth.toString('base64url') },
+    });
+
+    const salt = body.subarray(0, 16);
+    const serverKey = body.subarray(21, 21 + body[20]);
+    const ciphertext = body.subarray(21 + body[20]);
+
+    const ikm = hkdf(
+      browser.computeSecret(serverKey),
+      auth,
+      Buffer.concat([Buffer.from('WebPush: info\0'), browserKey, serverKey]),
+      32
+    );
+    const decipher = crypto.createDecipheriv(
+      'aes-128-gcm',
+      hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16),
+      hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+    );
+    decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+    const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(plaintext.toString()).toBe('{"title":"Hi"}\u0002');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildDigest,
+  collapseByGroup,
+  digestFrequencyFor,
+  heldExpiry,
+} from '../../lib/notification-digests';
+
+const now = new Date('2026-06-15T09:00:00Z');
+
+function submitted(student, minutesAgo) {
+  return {
+    type: 'assignment_submitted',
+    category: 'classroom',
+    groupId: 'assignment_submitted:a1',
+    title: 'New submission for Dragons',
+    message: `${student} handed in their story`,
+    createdAt: new Date(now.getTime() - minutesAgo * 60 * 1000),
+  };
+}
+
+describe('Notification digests', () => {
+  it('holds routine notifications in categories the user digests', () => {
+    const preferences = { digests: { classroom: 'daily', feedback: 'instant' } };
+
+    expect(digestFrequencyFor({ priority: 'normal', category: 'classroom' }, preferences)).toBe('daily');
+    expect(digestFrequencyFor({ priority: 'high', category: 'classroom' }, preferences)).toBe('instant');
+    expect(digestFrequencyFor({ priority: 'normal', category: 'feedback' }, preferences)).toBe('instant');
+    expect(digestFrequencyFor({ priority: 'low', category: 'safety' }, preferences)).toBe('instant');
+    expect(digestFrequencyFor({ priority: 'low', category: 'writing' }, undefined)).toBe('instant');
+  });
+
+  it('groups related notifications, busiest first', () => {
+    const assessed = {
+      type: 'story_assessed',
+      category: 'feedback',
+      title: 'Your story was marked',
+      message: 'Mr Lee marked "The Cave"',
+      createdAt: now,
+    };
+    const digest = buildDigest(
+      [submitted('Ana', 30), assessed, submitted('Ben', 20), submitted('Cy', 10), submitted('Dee', 5)],
+      'daily'
+    );
+
+    expect(digest.title).toBe('Daily digest: 5 updates');
+    expect(digest.message).toBe('New submission for Dragons (4) · Your story was marked');
+    expect(digest.groups[0]).toMatchObject({ key: 'assignment_submitted:a1', count: 4 });
+    expect(digest.groups[0].messages).toEqual([
+      'Dee handed in their story',
+      'Cy handed in their story',
+      'Ben handed in their story',
+    ]);
+    expect(digest.groups[1].key).toBe('feedback:story_assessed');
+  });
+
+  it('collapses a group into its newest entry in the list', () => {
+    const list = [
+      { id: 1, groupId: 'g1' },
+      { id: 2, groupId: 'g2' },
+      { id: 3, groupId: 'g1' },
+      { id: 4 },
+    ];
+
+    expect(collapseByGroup(list).map(({ latest, grouped }) => [latest.id, grouped.length]))
+      .toEqual([[1, 2], [2, 1], [4, 1]]);
+  });
+
+  it('keeps held notifications until their digest has gone', () => {
+    const weekLater = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    expect(heldExpiry(weekLater, 'weekly', now)).toEqual(new Date(now.getTime() + 14 * 24 * 60 * 60 * 1000));
+    expect(heldExpiry(weekLater, 'hourly', now)).toEqual(weekLater);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { canLinkChild, confirmChildLink, requestChildLink } from '../../lib/parent-oversight';
+import { createChildLinkToken } from '../../lib/parental-consent';
+import { sendChildLinkEmail } from '../../lib/email';
+import User from '../../models/User';
+
+jest.mock('../../utils/db', () => ({ connectToDatabase: jest.fn() }));
+jest.mock('../../lib/email', () => ({ sendChildLinkEmail: jest.fn(async () => true) }));
+
+const SECRET = 'test-link-secret';
+const parentId = '507f1f77bcf86cd799439011';
+const child = {
+  _id: '507f1f77bcf86cd799439022',
+  name: 'Ana',
+  role: 'child',
+  parentEmail: 'parent@example.com',
+};
+
+function lean(value) {
+  return { select: () => ({ lean: async () => value }) };
+}
+
+function linkToken(overrides = {}) {
+  return createChildLinkToken({
+    parentId,
+    childId: child._id,
+    parentEmail: 'parent@example.com',
+    expiresAt: Date.now() + 60 * 60 * 1000,
+    ...overrides,
+  }, SECRET);
+}
+
+describe('Parent Oversight', () => {
+  describe('canLinkChild', () => {
+    it('links a child whose parent email matches, ignoring case', () => {
+      expect(canLinkChild('Parent@Example.com', {
+        role: 'child',
+        parentEmail: 'parent@example.com',
+      })).toBe(true);
+    });
+
+    it('refuses other families and non-child accounts', () => {
+      expect(canLinkChild('parent@example.com', {
+        role: 'child',
+        parentEmail: 'someone@example.com',
+      })).toBe(false);
+
+      expect(canLinkChild('parent@example.com', { role: 'child' })).toBe(false);
+
+      expect(canLinkChild('parent@example.com', {
+        role: 'mentor',
+        parentEmail: 'parent@example.com',
+      })).toBe(false);
+    });
+  });
+
+  describe('linking', () => {
+    let updateOne;
+
+    beforeEach(() => {
+      process.env.PARENTAL_CONSENT_SECRET = SECRET;
+      jest.clearAllMocks();
+      // Anyone can register a parent account with the child's parent email
+      jest.spyOn(User, 'findOne').mockReturnValue(lean({ _id: parentId, email: 'parent@example.com' }));
+      jest.spyOn(User, 'findById').mockReturnValue(lean(child));
+      updateOne = jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+    });
+
+    it('emails the link to the child\'s parent address, not the account asking', async () => {
+      await requestChildLink({ id: parentId, name: 'Sam' }, child);
+
+      const [to, data] = sendChildLinkEmail.mock.calls.at(-1);
+      expect(to).toBe('parent@example.com');
+      expect(data.confirmUrl).toContain('/parent-dashboard?linkToken=');
+    });
+
+    it('does not link a parent whose email matches but who has no emailed token', async () => {
+      const forged = linkToken().replace(/\.[^.]+$/, '.forged');
+
+      expect(await confirmChildLink(parentId, forged)).toEqual({
+        error: 'This link is invalid or has expired',
+        status: 400,
+      });
+      expect(await confirmChildLink(parentId, linkToken({ parentId: '507f1f77bcf86cd799439099' })))
+        .toMatchObject({ status: 400 });
+      expect(updateOne).not.toHaveBeenCalled();
+    });
+
+    it('refuses a link sent to an address the child no longer lists', async () => {
+      const result = await confirmChildLink(parentId, linkToken({ parentEmail: 'old@example.com' }));
+
+      expect(result).toMatchObject({ status: 409 });
+      expect(updateOne).not.toHaveBeenCalled();
+    });
+
+    it('links the child once the emailed token comes back', async () => {
+      expect(await confirmChildLink(parentId, linkToken())).toEqual({ childId: child._id, childName: 'Ana' });
+      expect(updateOne).toHaveBeenCalledWith(
+        { _id: parentId, role: 'parent' },
+        { $addToSet: { linkedChildren: child._id } }
+      );
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  createChildLinkToken,
+  createConsentToken,
+  verifyChildLinkToken,
+  verifyConsentToken,
+} from '../../lib/parental-consent';
+
+const SECRET = 'test-consent-secret';
+
+const payload = {
+  userId: '507f1f77bcf86cd799439011',
+  requestId: 'abc123',
+  action: 'approve',
+  expiresAt: Date.now() + 60 * 60 * 1000,
+};
+
+describe('Parental Consent Tokens', () => {
+  it('round-trips a signed token', () => {
+    const token = createConsentToken(payload, SECRET);
+
+    expect(verifyConsentToken(token, SECRET)).toEqual(payload);
+  });
+
+  it('rejects tokens signed with another secret or altered in transit', () => {
+    const token = createConsentToken(payload, SECRET);
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({
+      uid: payload.userId,
+      rid: payload.requestId,
+      act: 'deny',
+      exp: payload.expiresAt,
+    })).toString('base64url');
+
+    expect(verifyConsentToken(token, 'other-secret')).toBeNull();
+    expect(verifyConsentToken(`${forged}.${signature}`, SECRET)).toBeNull();
+    expect(verifyConsentToken('not-a-token', SECRET)).toBeNull();
+  });
+
+  it('rejects expired tokens', () => {
+    const token = createConsentToken(payload, SECRET);
+
+    expect(verifyConsentToken(token, SECRET, payload.expiresAt + 1)).toBeNull();
+  });
+
+  it('keeps consent and child-link tokens apart', () => {
+    const link = createChildLinkToken({
+      parentId: '507f1f77bcf86cd799439012',
+      childId: payload.userId,
+      parentEmail: 'Parent@Example.com',
+      expiresAt: payload.expiresAt,
+    }, SECRET);
+
+    expect(verifyChildLinkToken(link, SECRET)).toMatchObject({ parentEmail: 'parent@example.com' });
+    expect(verifyConsentToken(link, SECRET)).toBeNull();
+    expect(verifyChildLinkToken(createConsentToken(payload, SECRET), SECRET)).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  evaluateStage,
+  checkStageElements,
+  stageAssistanceLevel,
+  storyWordShare,
+  unlockedElementOptions,
+} from '../../lib/progression';
+
+function sample(overrides = {}) {
+  return {
+    storyId: 's',
+    stage: 1,
+    wordCount: 320,
+    score: 72,
+    aiWords: 40,
+    childWords: 280,
+    publishedAt: new Date('2026-05-01'),
+    ...overrides,
+  };
+}
+
+describe('Stage progression', () => {
+  const now = new Date('2026-06-01');
+
+  it('promotes a writer who meets every criterion', () => {
+    const review = evaluateStage(1, [sample(), sample(), sample()], now);
+
+    expect(review.decision).toBe('promoted');
+    expect(review.toStage).toBe(2);
+    expect(review.evidence).toEqual({ storiesConsidered: 3, averageScore: 72, averageWords: 320, aiShare: 0.13 });
+    expect(review.reasons[1]).toBe('Welcome to Stage 2: Sprout');
+  });
+
+  it('holds with a reason for every criterion that is short', () => {
+    const review = evaluateStage(1, [
+      sample({ score: 50, wordCount: 200, aiWords: 150, childWords: 100 }),
+      sample({ score: 54, wordCount: 220, aiWords: 150, childWords: 100 }),
+    ], now);
+
+    expect(review.decision).toBe('held');
+    expect(review.toStage).toBe(1);
+    expect(review.reasons).toEqual([
+      'Publish 1 more story at this stage',
+      'Your stories score 52 on average; 60 moves you up',
+      'Your stories average 210 words; aim for 250',
+      'About 60% of your words came from the AI; write at least 50% yourself',
+    ]);
+  });
+
+  it('ignores stories written before the current stage', () => {
+    const review = evaluateStage(2, [sample(), sample(), sample()], now);
+
+    expect(review.decision).toBe('held');
+    expect(review.evidence.storiesConsidered).toBe(0);
+  });
+
+  it('waits for marking when no story has a score', () => {
+    const review = evaluateStage(1, [sample({ score: undefined })], now);
+
+    expect(review.reasons).toContain('Your stories need marking before they count');
+  });
+
+  it('has nowhere to go from the top stage', () => {
+    expect(evaluateStage(5, [], now).decision).toBe('top_stage');
+  });
+
+  describe('element unlocks', () => {
+    it('adds each stage to the ones before it', () => {
+      expect(unlockedElementOptions(1).genre).not.toContain('Mystery');
+      expect(unlockedElementOptions(3).genre).toEqual(expect.arrayContaining(['Adventure', 'Fantasy', 'Mystery']));
+    });
+
+    it('says when a locked element opens up, for labels and stored slugs', () => {
+      expect(checkStageElements({ genre: 'Mystery', setting: 'forest' }, 1)).toEqual([
+        'The genre "Mystery" unlocks at Stage 3 (Storyteller)',
+      ]);
+      expect(checkStageElements({ genre: 'animal-stories' }, 1)).toEqual([]);
+    });
+  });
+
+  it('caps the AI assistance setting by stage', () => {
+    expect(stageAssistanceLevel('maximum', 1)).toBe('maximum');
+    expect(stageAssistanceLevel('maximum', 3)).toBe('normal');
+    expect(stageAssistanceLevel('normal', 5)).toBe('minimal');
+    expect(stageAssistanceLevel(undefined, 1)).toBe('normal');
+  });
+
+  it('counts at least the story length less AI text as the child\'s own words', () => {
+    expect(storyWordShare({
+      wordCount: 300,
+      aiSessions: [
+        { childWordCount: 20, aiResponse: 'The dragon smiled and flew away.' },
+        { childWordCount: 15, aiResponse: 'Then it rained.' },
+      ],
+    })).toEqual({ aiWords: 9, childWords: 291 });
+    expect(storyWordShare({ wordCount: 120 })).toEqual({ aiWords: 0, childWords: 120 });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_LEVELS,
+  toResolvedRubric,
+  buildRubricPrompt,
+  parseRubricScores,
+  levelFromPercent,
+  weightedScore,
+} from '../../lib/rubrics';
+
+describe('Rubrics', () => {
+  const rubric = toResolvedRubric({
+    name: 'Adventure writing',
+    criteria: [
+      { name: 'Uses dialogue', weight: 2 },
+      {
+        name: 'Vivid setting',
+        weight: 1,
+        levels: [
+          { score: 3, label: 'Strong', descriptor: 'The reader can picture it' },
+          { score: 1, label: 'Thin' },
+          { score: 2, label: 'Some detail' },
+        ],
+      },
+    ],
+  });
+
+  it('fills missing levels with the default scale and orders the rest', () => {
+    expect(rubric.criteria[0].levels).toEqual(DEFAULT_LEVELS);
+    expect(rubric.criteria[1].levels.map(level => level.score)).toEqual([1, 2, 3]);
+  });
+
+  it('puts every criterion and level descriptor in the prompt', () => {
+    const prompt = buildRubricPrompt(rubric);
+
+    expect(prompt).toContain('"Adventure writing"');
+    expect(prompt).toContain('1. Uses dialogue');
+    expect(prompt).toContain('3 = Strong: The reader can picture it');
+  });
+
+  describe('parseRubricScores', () => {
+    it('matches criteria loosely by name and clamps levels to each scale', () => {
+      const scores = parseRubricScores([
+        { criterion: '  uses   DIALOGUE ', level: 9, comment: ' Lots of talking! ' },
+        { criterion: 'Vivid setting', level: 0.4 },
+      ], rubric);
+
+      expect(scores).toEqual([
+        { criterion: 'Uses dialogue', level: 4, maxLevel: 4, label: 'Excellent', weight: 2, comment: 'Lots of talking!' },
+        { criterion: 'Vivid setting', level: 1, maxLevel: 3, label: 'Thin', weight: 1 },
+      ]);
+    });
+
+    it('drops unknown criteria and unusable levels', () => {
+      const scores = parseRubricScores([
+        { criterion: 'Spelling', level: 2 },
+        { criterion: 'Uses dialogue', level: 'lots' },
+      ], rubric);
+
+      expect(scores).toEqual([]);
+      expect(parseRubricScores('not a list', rubric)).toEqual([]);
+    });
+  });
+
+  it('maps a percentage onto a scale without dropping below level 1', () => {
+    expect(levelFromPercent(0, 4)).toBe(1);
+    expect(levelFromPercent(60, 4)).toBe(3);
+    expect(levelFromPercent(100, 4)).toBe(4);
+  });
+
+  it('weights criteria when combining levels', () => {
+    expect(weightedScore([
+      { criterion: 'Uses dialogue', level: 4, maxLevel: 4, weight: 2 },
+      { criterion: 'Vivid setting', level: 1, maxLevel: 4, weight: 1 },
+    ])).toBe(75);
+    expect(weightedScore([])).toBe(0);
+  });
+});
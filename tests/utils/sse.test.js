@@ -0,0 +1,56 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { channelName, parseChannel, parseLastEventId, formatSSEEvent } from '../../lib/sse';
+import { SSEChannel } from '../../lib/sse-client';
+
+const storyId = '64b7f0c2a1b2c3d4e5f60718';
+
+describe('Server-Sent Events', () => {
+  describe('channels', () => {
+    it('names channels the same way as Pusher', () => {
+      expect(channelName('story', storyId)).toBe(`story-${storyId}`);
+      expect(channelName('global')).toBe('global');
+      expect(parseChannel(`user-${storyId}`)).toEqual({ type: 'user', id: storyId });
+    });
+
+    it('rejects unknown channel types and malformed ids', () => {
+      expect(parseChannel(`presence-${storyId}`)).toBeNull();
+      expect(parseChannel('story-123')).toBeNull();
+      expect(parseChannel(`story-${storyId},user-x`)).toBeNull();
+    });
+  });
+
+  describe('event ids', () => {
+    it('accepts only numeric Last-Event-ID values', () => {
+      expect(parseLastEventId('42')).toBe(42);
+      expect(parseLastEventId('abc')).toBeNull();
+      expect(parseLastEventId(null)).toBeNull();
+    });
+
+    it('writes the sequence as the event id so it can be replayed from', () => {
+      const frame = formatSSEEvent({ sequence: 7, channel: 'global', event: 'notification', data: { text: 'a\nb' } });
+
+      expect(frame.startsWith('id: 7\ndata: ')).toBe(true);
+      expect(frame.endsWith('\n\n')).toBe(true);
+      expect(frame.split('\n')).toHaveLength(4);
+    });
+
+    it('leaves the id out of events that were not logged', () => {
+      expect(formatSSEEvent({ sequence: 0, channel: 'global', event: 'ping', data: {} })).not.toContain('id:');
+    });
+  });
+
+  describe('SSEChannel', () => {
+    it('dispatches events to bound handlers until unbound', () => {
+      const channel = new SSEChannel(`story-${storyId}`);
+      const handler = jest.fn();
+
+      channel.bind('comment-added', handler);
+      channel.emit('comment-added', { id: 1 });
+      channel.unbind('comment-added', handler);
+      channel.emit('comment-added', { id: 2 });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith({ id: 1 });
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffText, diffRevisions, countWords } from '../../lib/story-diff';
+
+describe('Story Diff Utilities', () => {
+  describe('diffText', () => {
+    it('returns a single equal segment for identical text', () => {
+      const text = 'The dragon flew over the castle.';
+
+      expect(diffText(text, text)).toEqual([{ type: 'equal', text }]);
+    });
+
+    it('marks inserted words as added', () => {
+      const segments = diffText('The dragon flew.', 'The big red dragon flew.');
+
+      expect(segments.filter(s => s.type === 'added').map(s => s.text).join('')).toBe('big red ');
+      expect(segments.some(s => s.type === 'removed')).toBe(false);
+    });
+
+    it('marks deleted paragraphs as removed', () => {
+      const before = 'First paragraph here.\n\nSecond paragraph the child deleted.\n\nThird paragraph.';
+      const after = 'First paragraph here.\n\nThird paragraph.';
+      const segments = diffText(before, after);
+
+      const removed = segments.filter(s => s.type === 'removed').map(s => s.text).join('');
+      expect(removed).toContain('Second paragraph the child deleted.');
+    });
+
+    it('can rebuild both versions from the segments', () => {
+      const before = 'Once upon a time a robot lived in a village.';
+      const after = 'Once upon a time a friendly robot lived near the mountains.';
+      const segments = diffText(before, after);
+
+      const rebuiltBefore = segments.filter(s => s.type !== 'added').map(s => s.text).join('');
+      const rebuiltAfter = segments.filter(s => s.type !== 'removed').map(s => s.text).join('');
+      expect(rebuiltBefore).toBe(before);
+      expect(rebuiltAfter).toBe(after);
+    });
+
+    it('diffs long rewrites line by line instead of word by word', () => {
+      const lines = Array.from({ length: 600 }, (_, n) => `Line ${n} of the very long story goes on and on.\n`);
+      const before = lines.join('');
+      const after = lines.map((line, n) => (n % 2 ? line : `Rewritten ${line}`)).join('');
+      const segments = diffText(before, after);
+
+      expect(segments.find(s => s.type === 'equal').text).toBe(lines[1]);
+      expect(segments.filter(s => s.type !== 'added').map(s => s.text).join('')).toBe(before);
+      expect(segments.filter(s => s.type !== 'removed').map(s => s.text).join('')).toBe(after);
+    });
+
+    it('shows a huge single-paragraph rewrite as removed and re-added', () => {
+      const before = `Start ${Array.from({ length: 3000 }, (_, n) => `old${n}`).join(' ')} end.`;
+      const after = `Start ${Array.from({ length: 3000 }, (_, n) => `new${n}`).join(' ')} end.`;
+
+      expect(diffText(before, after)).toEqual([
+        { type: 'removed', text: before },
+        { type: 'added', text: after },
+      ]);
+    });
+  });
+
+  describe('countWords', () => {
+    it('ignores extra whitespace', () => {
+      expect(countWords('  one   two\n\nthree ')).toBe(3);
+      expect(countWords('')).toBe(0);
+    });
+  });
+
+  describe('diffRevisions', () => {
+    it('summarises word changes between two revisions', () => {
+      const diff = diffRevisions(
+        { revisionNumber: 1, title: 'My Story', content: 'The cat sat on the mat.' },
+        { revisionNumber: 2, title: 'My Cat Story', content: 'The orange cat sat on the rug.' }
+      );
+
+      expect(diff.fromRevision).toBe(1);
+      expect(diff.toRevision).toBe(2);
+      expect(diff.wordsAdded).toBe(2);
+      expect(diff.wordsRemoved).toBe(1);
+      expect(diff.titleChanged).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import StoryRevision from '../../models/StoryRevision';
+
+const storyId = new mongoose.Types.ObjectId();
+const savedBy = { id: new mongoose.Types.ObjectId().toString(), name: 'Ana', role: 'child' };
+
+function story(content) {
+  return { _id: storyId, title: 'The Cave', content, wordCount: 0, stage: 1, status: 'draft' };
+}
+
+describe('Story revisions', () => {
+  let saved;
+
+  // Stands in for the collection and its unique { storyId, revisionNumber } index
+  beforeEach(() => {
+    saved = [{ revisionNumber: 1, wordCount: 3 }];
+
+    jest.spyOn(StoryRevision, 'findOne').mockImplementation(() => {
+      const latest = saved.reduce((a, b) => (b.revisionNumber > a.revisionNumber ? b : a), saved[0]);
+      return { sort: () => ({ select: () => ({ lean: async () => ({ ...latest }) }) }) };
+    });
+    jest.spyOn(StoryRevision, 'create').mockImplementation(async revision => {
+      // Let every concurrent save read the same latest revision first
+      await new Promise(resolve => setImmediate(resolve));
+      if (saved.some(existing => existing.revisionNumber === revision.revisionNumber)) {
+        throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+      }
+      saved.push(revision);
+      return revision;
+    });
+  });
+
+  it('gives concurrent saves of one story their own numbers', async () => {
+    const revisions = await Promise.all([
+      StoryRevision.recordRevision(story('The dragon slept.'), savedBy),
+      StoryRevision.recordRevision(story('The dragon slept soundly.'), savedBy),
+      StoryRevision.recordRevision(story('The dragon woke up.'), savedBy, 'collaboration'),
+    ]);
+
+    expect(revisions.map(revision => revision.revisionNumber).sort()).toEqual([2, 3, 4]);
+  });
+
+  it('records a story saved with no content yet', async () => {
+    const revision = await StoryRevision.recordRevision(story(''), savedBy, 'create');
+
+    expect(revision).toMatchObject({ content: '', wordCount: 0, wordDelta: -3 });
+    expect(new StoryRevision({ ...revision, savedBy: { userId: savedBy.id, name: 'Ana', role: 'child' } })
+      .validateSync()).toBeUndefined();
+  });
+
+  it('gives up on errors other than a taken number', async () => {
+    StoryRevision.create.mockRejectedValueOnce(new Error('Title cannot be longer than 200 characters'));
+
+    await expect(StoryRevision.recordRevision(story('Hi'), savedBy)).rejects.toThrow('200 characters');
+  });
+});
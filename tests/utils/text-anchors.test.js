@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  anchorQuote,
+  createAnchor,
+  highlightSegments,
+  resolveAnchor,
+} from '../../lib/text-anchors';
+
+const story = 'The dragon slept. The knight crept closer to the cave. The dragon woke up and roared loudly at him.';
+
+function quoted(content, range) {
+  return range && content.slice(range.start, range.end);
+}
+
+describe('Text anchors', () => {
+  // The second "The dragon", at 55
+  const { anchor, range } = anchorQuote(story, 'The dragon', { start: 55, end: 65 });
+
+  it('keeps the quote and its context', () => {
+    expect(range).toEqual({ start: 55, end: 65 });
+    expect(anchor.prefix).toBe('night crept closer to the cave. ');
+    expect(anchor.suffix.startsWith(' woke up')).toBe(true);
+    expect(createAnchor(story, { start: 10, end: 10 })).toBeNull();
+  });
+
+  it('finds the quote near where it was when the position is stale', () => {
+    expect(anchorQuote(story, 'The dragon', { start: 57, end: 67 }).range).toEqual(range);
+    expect(anchorQuote(story, 'a unicorn')).toBeNull();
+  });
+
+  it('follows the quote when text is added before it', () => {
+    const edited = `Once upon a time, far away. ${story}`;
+
+    expect(resolveAnchor(edited, anchor, range)).toEqual({ start: 83, end: 93 });
+  });
+
+  it('picks the occurrence whose context matches, not the first', () => {
+    const edited = story.replace('The knight crept', 'The knight, brave and quiet, crept');
+    const resolved = resolveAnchor(edited, anchor, range);
+
+    expect(quoted(edited, resolved)).toBe('The dragon');
+    expect(resolved.start).toBeGreaterThan(50);
+  });
+
+  it('follows a reworded quote by its context', () => {
+    const edited = story.replace('The dragon woke', 'A huge red dragon woke');
+
+    expect(quoted(edited, resolveAnchor(edited, anchor, range))).toBe('A huge red dragon');
+  });
+
+  it('orphans the comment when the text is gone', () => {
+    expect(resolveAnchor('The knight went home and had tea.', anchor, range)).toBeNull();
+  });
+
+  it('splits a paragraph into runs under each highlight', () => {
+    const segments = highlightSegments('abcdefghij', [
+      { id: 'a', start: 12, end: 16 },
+      { id: 'b', start: 14, end: 25 },
+    ], 10);
+
+    expect(segments).toEqual([
+      { text: 'ab', start: 10, ids: [] },
+      { text: 'cd', start: 12, ids: ['a'] },
+      { text: 'ef', start: 14, ids: ['a', 'b'] },
+      { text: 'ghij', start: 16, ids: ['b'] },
+    ]);
+  });
+});
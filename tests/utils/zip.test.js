@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { inflateRawSync } from 'zlib';
+import { crc32, createZip } from '../../lib/zip';
+
+describe('ZIP Writer', () => {
+  it('computes the standard CRC-32 check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('writes entries that can be read back from the central directory', () => {
+    const text = JSON.stringify({ title: 'The Dragon Who Loved Books' }).repeat(20);
+    const zip = createZip([
+      { name: 'stories.json', data: text },
+      { name: 'stories/tiny.pdf', data: Buffer.from([0x25, 0x50, 0x44, 0x46]) },
+    ]);
+
+    const endOffset = zip.length - 22;
+    expect(zip.readUInt32LE(endOffset)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(endOffset + 10)).toBe(2);
+
+    const centralOffset = zip.readUInt32LE(endOffset + 16);
+    expect(zip.readUInt32LE(centralOffset)).toBe(0x02014b50);
+
+    // First entry is compressible, so it is deflated
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    expect(zip.readUInt16LE(8)).toBe(8);
+    const compressedSize = zip.readUInt32LE(18);
+    const nameLength = zip.readUInt16LE(26);
+    const body = zip.subarray(30 + nameLength, 30 + nameLength + compressedSize);
+    expect(inflateRawSync(body).toString('utf8')).toBe(text);
+    expect(zip.readUInt32LE(14)).toBe(crc32(Buffer.from(text)));
+
+    // Second entry would grow when deflated, so it is stored
+    const secondOffset = 30 + nameLength + compressedSize;
+    expect(zip.readUInt32LE(secondOffset)).toBe(0x04034b50);
+    expect(zip.readUInt16LE(secondOffset + 8)).toBe(0);
+  });
+});
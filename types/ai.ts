@@ -1,5 +1,7 @@
 // AI Provider types
-export type AIProvider = 'openai' | 'anthropic' | 'google';
+import { AIAssistanceLevel } from './progression';
+
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'local';
 
 export interface AIProviderConfig {
   name: AIProvider;
@@ -190,6 +192,49 @@ export interface StoryContinuation {
   difficulty: number; // 1-10
 }
 
+// Writing collaboration types
+export type CollaborationType =
+  | 'continuation'
+  | 'improvement'
+  | 'character'
+  | 'plot'
+  | 'dialogue'
+  | 'feedback'
+  | 'story_starter'
+  | 'custom';
+
+export interface CollaborationRequest {
+  type: CollaborationType;
+  storyContent: string;
+  selectedText?: string;
+  prompt?: string;
+  genre?: string;
+  title?: string;
+  scaffolding?: ScaffoldingPolicy; // providers fall back to their fixed prompts without one
+}
+
+// How much the AI may do for a writer, decided by lib/ai-scaffolding.
+// In "guide" mode the AI asks questions instead of writing story text.
+export type ScaffoldingMode = 'write' | 'guide';
+export type VocabularyLevel = 'simple' | 'everyday' | 'rich' | 'advanced';
+
+export interface ScaffoldingPolicy {
+  assistanceLevel: AIAssistanceLevel; // after the stage cap
+  mode: ScaffoldingMode;
+  maxSentences: number; // per suggestion
+  maxSentenceWords: number;
+  vocabulary: VocabularyLevel;
+  reasons: string[];
+}
+
+export interface CollaborationSuggestion {
+  id: string;
+  type: CollaborationType | 'praise' | 'suggestion';
+  content: string;
+  context?: string;
+  confidence: number; // 0-1
+}
+
 // Story assessment types
 export interface StoryAssessmentRequest {
   storyText: string;
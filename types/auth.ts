@@ -2,7 +2,7 @@ import { DefaultSession, DefaultUser } from 'next-auth';
 import { JWT, DefaultJWT } from 'next-auth/jwt';
 
 // User roles in the system
-export type UserRole = 'child' | 'mentor' | 'admin';
+export type UserRole = 'child' | 'parent' | 'mentor' | 'admin';
 
 // Extend NextAuth types
 declare module 'next-auth' {
@@ -109,6 +109,24 @@ export interface UserPreferences {
     aiAssistanceLevel: 'minimal' | 'normal' | 'maximum';
     preferredGenres: string[];
   };
+  quietHours: QuietHours;
+  digests: DigestPreferences;
+}
+
+// How often each category of notification reaches the user: one by one as
+// it happens, or gathered into a digest
+export type DigestFrequency = 'instant' | 'hourly' | 'daily' | 'weekly';
+
+export type DigestCategory = 'writing' | 'feedback' | 'classroom' | 'achievement' | 'progress' | 'social';
+
+export type DigestPreferences = Record<DigestCategory, DigestFrequency>;
+
+// Local times as HH:MM in an IANA timezone; a window may cross midnight
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
 }
 
 // Permission and role management
@@ -0,0 +1,94 @@
+// Classroom types: a mentor's class, its roster and class-wide assignments
+import { StoryElements, StoryStage } from './story';
+import { RubricCriterion } from './rubric';
+
+export type { RubricCriterion } from './rubric';
+
+// How a student came to be on the roster
+export type EnrollmentMethod = 'join_code' | 'bulk' | 'csv';
+
+export interface ClassroomStudent {
+  userId: string;
+  name: string;
+  enrolledAt: Date;
+  enrolledBy: string; // user ID of the mentor, or the student for join codes
+  method: EnrollmentMethod;
+}
+
+export interface Classroom {
+  _id: string;
+  name: string;
+  description?: string;
+  gradeLevel?: string;
+
+  mentorId: string;
+  mentorName: string;
+
+  // Students join with the code while it is enabled
+  joinCode: string;
+  joinCodeEnabled: boolean;
+
+  students: ClassroomStudent[];
+  maxStudents: number;
+
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AssignmentStatus = 'active' | 'closed';
+
+// Options a student may pick for each story element. A single option fixes
+// the element; a missing or empty list leaves it open.
+export type ElementConstraints = Partial<Record<keyof StoryElements, string[]>>;
+
+// A writing task set for a whole class
+export interface ClassAssignment {
+  _id: string;
+  classroomId: string;
+  mentorId: string;
+  title: string;
+  instructions: string; // the writing prompt
+  elementConstraints: ElementConstraints;
+  targetWordCount?: number;
+  stage?: StoryStage;
+  rubricId?: string; // a saved rubric; takes precedence over the inline one
+  rubric: RubricCriterion[];
+  dueDate?: Date;
+  status: AssignmentStatus;
+  reminderSentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Where one student is with one assignment
+export type SubmissionStatus = 'submitted' | 'late' | 'missing' | 'in_progress' | 'not_started';
+
+export interface AssignmentSubmission {
+  userId: string;
+  name: string;
+  status: SubmissionStatus;
+  storyId?: string;
+  wordCount?: number;
+  submittedAt?: Date;
+}
+
+export type SubmissionCounts = Record<SubmissionStatus, number>;
+
+// One line of an uploaded roster
+export interface RosterRow {
+  line: number;
+  email: string;
+  name?: string;
+}
+
+export interface RosterParseResult {
+  rows: RosterRow[];
+  errors: Array<{ line: number; message: string }>;
+}
+
+export interface EnrollmentResult {
+  enrolled: Array<{ userId: string; name: string; email: string }>;
+  alreadyEnrolled: string[]; // emails
+  notFound: string[]; // emails with no active child account
+}
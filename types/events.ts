@@ -0,0 +1,17 @@
+// Domain event types: things that happened to a writer, published through
+// lib/domain-events for whatever reacts to them
+import { UserRole } from './auth';
+
+export type DomainEvent =
+  | { type: 'story_completed'; userId: string; storyId: string }
+  | { type: 'assessment_saved'; userId: string; storyId: string; source: 'ai' | 'mentor' }
+  | { type: 'comment_received'; userId: string; storyId: string; commentId: string; commenterRole: UserRole }
+  | { type: 'streak_extended'; userId: string; streak: number; day: string }; // day as YYYY-MM-DD, UTC
+
+export type DomainEventType = DomainEvent['type'];
+
+// Where an achievement came from, kept on the UserAchievement it completes
+export interface AchievementTrigger {
+  event: DomainEventType | 'stage_promoted';
+  storyId?: string;
+}
@@ -55,8 +55,13 @@ declare global {
       
       // File Storage
       GRIDFS_BUCKET_NAME?: string;
+      FILE_STORAGE_DRIVER?: 'gridfs' | 'local';
+      FILE_STORAGE_PATH?: string;
       UPLOAD_MAX_SIZE?: string;
       
+      // Real-time
+      NEXT_PUBLIC_REALTIME_TRANSPORT?: 'pusher' | 'sse';
+
       // Rate Limiting
       REDIS_URL?: string;
       
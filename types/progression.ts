@@ -0,0 +1,73 @@
+// Stage progression types: what each StoryStage asks of a writer and
+// the reviews that decide when they move up
+import { StoryElements, StoryStage } from './story';
+import { UserPreferences } from './auth';
+
+export type AIAssistanceLevel = UserPreferences['writingSettings']['aiAssistanceLevel'];
+
+export type ElementOptions = Partial<Record<keyof StoryElements, string[]>>;
+
+// What a writer must show at a stage before moving to the next
+export interface PromotionCriteria {
+  storiesNeeded: number; // published stories at this stage or above
+  minAverageScore: number; // 0-100
+  minAverageWords: number;
+  maxAIShare: number; // 0-1, share of the words that came from the AI
+}
+
+export interface StageDefinition {
+  stage: StoryStage;
+  name: string;
+  targetWordCount: number;
+  maxAIAssistance: AIAssistanceLevel; // the most help a parent's setting can give at this stage
+  unlocks: ElementOptions; // element options first available at this stage
+  promotion?: PromotionCriteria; // unset at the top stage
+}
+
+// One published story as the review sees it
+export interface StageStorySample {
+  storyId: string;
+  stage: StoryStage;
+  wordCount: number;
+  score?: number; // 0-100, mentor marking first, then AI
+  aiWords: number;
+  childWords: number;
+  publishedAt: Date;
+}
+
+export interface StageEvidence {
+  storiesConsidered: number;
+  averageScore: number;
+  averageWords: number;
+  aiShare: number; // 0-1
+}
+
+export type StageDecision = 'promoted' | 'held' | 'top_stage';
+
+export interface StageReview {
+  decision: StageDecision;
+  fromStage: StoryStage;
+  toStage: StoryStage;
+  evidence: StageEvidence;
+  reasons: string[]; // written for the child
+  reviewedAt: Date;
+}
+
+export interface StageProgress {
+  currentStage: StoryStage;
+  stageReachedAt?: Date;
+  lastReview?: StageReview;
+  promotions: Array<{ fromStage: StoryStage; toStage: StoryStage; promotedAt: Date; storyId?: string }>;
+}
+
+// A writer's stage as shown to them and their parents
+export interface StageOverview {
+  stage: StageDefinition;
+  nextStage: Pick<StageDefinition, 'stage' | 'name' | 'targetWordCount' | 'unlocks'> | null;
+  unlockedElements: ElementOptions;
+  aiAssistanceLevel: AIAssistanceLevel; // after the stage cap
+  stageReachedAt?: Date;
+  lastReview?: StageReview;
+  outlook: StageReview; // a fresh, unsaved review of the latest stories
+  promotions: StageProgress['promotions'];
+}
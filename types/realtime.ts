@@ -15,7 +15,9 @@ export type RealtimeEventType =
   | 'notification_received'
   | 'progress_updated'
   | 'ai_response_ready'
-  | 'export_completed';
+  | 'export_completed'
+  | 'collaboration_updated'
+  | 'cursor_moved';
 
 // Main real-time event interface
 export interface RealtimeEvent {
@@ -156,6 +158,7 @@ export interface UserPresence {
 // Real-time story collaboration session
 export interface CollaborationSession {
   storyId: string;
+  sessionKey: string; // changes each time the session is reopened from the story
   participants: SessionParticipant[];
   activeTyping: TypingIndicator[];
   lastActivity: Date;
@@ -179,9 +182,21 @@ export interface SessionParticipant {
     canView: boolean;
   };
   cursorPosition?: number;
+  cursor?: CollaborationCursor;
+  site?: string; // CRDT site id used for this participant's edits
+  seenVersion?: number; // latest session version the participant has caught up to
+  color?: string;
   isActive: boolean;
 }
 
+// Cursor or selection anchored to character ids, so it stays on the same
+// text while others edit. A null anchor is the start of the story; start and
+// end are equal for a plain cursor.
+export interface CollaborationCursor {
+  start: string | null;
+  end: string | null;
+}
+
 // Server-Sent Events (SSE) management
 export interface SSEConnection {
   id: string;
@@ -0,0 +1,70 @@
+// Rubric types: mentor-defined criteria with level descriptors, and the
+// per-criterion scores that AI and mentor assessments produce against them
+
+// One step on a criterion's scale, e.g. 3 "Secure"
+export interface RubricLevel {
+  score: number; // 1 is the lowest level
+  label: string;
+  descriptor?: string; // what work at this level looks like
+}
+
+export interface RubricCriterion {
+  name: string;
+  description?: string;
+  weight: number; // relative, e.g. 2 counts twice as much as 1
+  levels?: RubricLevel[]; // the default four-level scale when missing
+}
+
+// A mentor's reusable rubric
+export interface Rubric {
+  _id: string;
+  mentorId: string;
+  name: string;
+  description?: string;
+  criteria: RubricCriterion[];
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The rubric a story is actually scored against, with every level filled in
+export interface ResolvedRubric {
+  rubricId?: string; // unset for assignment-only and built-in rubrics
+  name: string;
+  criteria: Array<RubricCriterion & { levels: RubricLevel[] }>;
+}
+
+export type AssessmentSource = 'ai' | 'mentor';
+
+export interface CriterionScore {
+  criterion: string;
+  level: number;
+  maxLevel: number;
+  label?: string;
+  weight: number;
+  comment?: string;
+}
+
+// One scoring of one story against a rubric
+export interface RubricAssessment {
+  rubricId?: string;
+  rubricName: string;
+  source: AssessmentSource;
+  assessorId?: string;
+  assessorName?: string;
+  criteria: CriterionScore[];
+  weightedScore: number; // 0-100
+  assessedAt: Date;
+}
+
+// Average score for one criterion in one period, for trend charts
+export interface CriterionTrendPoint {
+  period: string; // YYYY-MM
+  averageScore: number; // 0-100
+  count: number;
+}
+
+export interface CriterionTrend {
+  criterion: string;
+  points: CriterionTrendPoint[];
+}
@@ -1,3 +1,5 @@
+import { CriterionScore, RubricAssessment } from './rubric';
+
 // Story element types for the 6-element selection system
 export interface StoryElements {
     genre: StoryGenre;
@@ -90,6 +92,10 @@ export interface StoryElements {
     updatedAt: Date;
     publishedAt?: Date;
     completedAt?: Date;
+
+    // Class assignment this story was written for
+    assignmentId?: string;
+    submittedAt?: Date;
     
     // AI collaboration data
     aiSessions: AIWritingSession[];
@@ -98,6 +104,9 @@ export interface StoryElements {
     // Mentor feedback
     mentorComments: Comment[];
     mentorAssessment?: MentorAssessment;
+
+    // Latest rubric scoring from each source
+    rubricAssessments?: RubricAssessment[];
     
     // Metadata
     readingTime: number; // in minutes
@@ -114,6 +123,30 @@ export interface StoryElements {
     timeSpentWriting: number; // in minutes
     sessionsCount: number;
     revisionCount: number;
+    
+    // Co-writing
+    collaborators?: StoryCollaborator[];
+    contributions?: StoryContribution[];
+  }
+  
+  // Classmate invited by the author to co-write a story
+  export interface StoryCollaborator {
+    userId: string;
+    name: string;
+    addedBy: string;
+    addedAt: Date;
+  }
+  
+  // What each person added in co-writing sessions
+  export interface StoryContribution {
+    userId: string;
+    name: string;
+    role: string;
+    charactersAdded: number;
+    charactersRemoved: number;
+    charactersInText: number; // of the current text, as of the last session update
+    editCount: number;
+    lastContributedAt: Date;
   }
   
   // AI writing session for collaborative writing
@@ -163,6 +196,9 @@ export interface StoryElements {
     themeIntegration: number; // 0-100
     characterDevelopment: number; // 0-100
     plotProgression: number; // 0-100
+
+    // Scores against the story's rubric, when one was given
+    rubric?: CriterionScore[];
   }
   
   // Mentor assessment and feedback
@@ -208,6 +244,9 @@ export interface StoryElements {
       start: number;
       end: number;
     };
+    anchor?: TextQuoteAnchor;
+    anchorStatus?: AnchorStatus;
+    orphanedAt?: Date;
     
     // Comment categorization
     commentType: CommentType;
@@ -231,6 +270,17 @@ export interface StoryElements {
   export type CommentType = 'grammar' | 'creativity' | 'suggestion' | 'praise' | 'improvement' | 'question';
   export type CommentCategory = 'structure' | 'vocabulary' | 'character' | 'plot' | 'dialogue' | 'description';
   
+  // Where an inline comment points: the quoted text and a little of the
+  // story either side, so it can be found again after edits
+  export interface TextQuoteAnchor {
+    exact: string;
+    prefix: string;
+    suffix: string;
+  }
+  
+  // 'orphaned' when the quoted text can no longer be found in the story
+  export type AnchorStatus = 'anchored' | 'orphaned';
+  
   // Story creation workflow
   export interface StoryCreationSession {
     id: string;
@@ -379,4 +429,70 @@ export interface StoryElements {
     createdAt: Date;
     usageCount: number;
     effectiveness: number; // 0-1 based on user engagement
-  }
\ No newline at end of file
+  }  
+  // Revision history
+  export interface StoryRevision {
+    id: string;
+    storyId: string;
+    revisionNumber: number;
+    title: string;
+    content: string;
+    wordCount: number;
+    wordDelta: number; // change in word count from the previous revision
+    stage: StoryStage;
+    status: StoryStatus;
+    savedBy: {
+      userId: string;
+      name: string;
+      role: string;
+    };
+    source: RevisionSource;
+    restoredFrom?: number; // revision number this one was restored from
+    createdAt: Date;
+  }
+  
+  export type RevisionSource = 'create' | 'update' | 'restore' | 'collaboration';
+  
+  export interface DiffSegment {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+  }
+  
+  export interface RevisionDiff {
+    fromRevision: number;
+    toRevision: number;
+    segments: DiffSegment[];
+    wordsAdded: number;
+    wordsRemoved: number;
+    titleChanged: boolean;
+  }
+
+  // Moderation queue
+  export type ModerationTargetType = 'story' | 'comment';
+  
+  export type ModerationCaseStatus = 'open' | 'in_review' | 'resolved' | 'appealed' | 'closed';
+  
+  export type ModerationDecisionType = 'approve' | 'reject' | 'escalate';
+  
+  export type ModerationCaseSeverity = 'low' | 'medium' | 'high' | 'critical';
+  
+  export type ModerationCaseSource = 'content_filter' | 'user_report' | 'manual';
+  
+  export interface ModerationDecision {
+    decision: ModerationDecisionType;
+    reason?: string;
+    decidedBy: string;
+    previousStatus: ModerationCaseStatus;
+    newStatus: ModerationCaseStatus;
+    onAppeal: boolean; // made while reviewing an appeal
+    decidedAt: Date;
+  }
+  
+  export interface ModerationAppeal {
+    requestedBy: string;
+    requesterRole: 'child' | 'parent';
+    reason: string;
+    requestedAt: Date;
+    outcome?: 'upheld' | 'overturned';
+    resolvedAt?: Date;
+  }
@@ -172,6 +172,14 @@ export interface AdminUser extends User {
   adminActionsCount: number;
 }
 
+// Parent/guardian user data
+export interface ParentUser extends User {
+  role: 'parent';
+
+  // Child accounts this parent can supervise
+  linkedChildren: string[]; // user IDs
+}
+
 // Learning goals for children
 export interface LearningGoal {
   id: string;
@@ -341,7 +349,19 @@ export type NotificationType =
   | 'new_feature'
   | 'maintenance'
   | 'welcome'
-  | 'progress_report';
+  | 'progress_report'
+  | 'content_moderation'
+  | 'publish_approval'
+  | 'collaboration_invite'
+  | 'classroom_enrolled'
+  | 'assignment_posted'
+  | 'assignment_due'
+  | 'assignment_submitted'
+  | 'story_assessed'
+  | 'stage_promoted'
+  | 'story_published'
+  | 'progress_milestone'
+  | 'digest';
 
 // User search and filtering
 export interface UserFilters {
@@ -416,4 +436,14 @@ export interface ProfilePrivacySettings {
   showStories: boolean;
   allowMentorContact: boolean;
   allowParentAccess: boolean;
-} 
\ No newline at end of file
+} 
+// Account data rights (export and erasure)
+export type DataRequestType = 'export' | 'erasure';
+
+export type DataRequestStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface ErasureReceipt {
+  counts: Record<string, number>;
+  completedAt: Date;
+  receiptHash: string;
+}
@@ -0,0 +1,341 @@
+// utils/gridfs.ts - File storage behind /api/files (GridFS or local disk)
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/utils/db';
+import StoredFile, { IStoredFile, StorageDriver } from '@/models/StoredFile';
+import Subscription from '@/models/Subscription';
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface FileInfo {
+  id: string;
+  ownerId?: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  hash: string;
+  uploadDate: Date;
+  metadata: Record<string, any>;
+}
+
+export interface UploadOptions {
+  ownerId?: string;
+  metadata?: Record<string, any>;
+  // Generated files such as data exports are not charged to the owner
+  countsTowardsQuota?: boolean;
+}
+
+interface StorageAdapter {
+  driver: StorageDriver;
+  write(hash: string, data: Buffer, contentType: string): Promise<string>;
+  read(storageKey: string, range?: ByteRange): Readable;
+  remove(storageKey: string): Promise<void>;
+}
+
+// Free-tier allowance for accounts without a subscription record
+const DEFAULT_STORAGE_QUOTA = 100 * 1024 * 1024;
+
+class GridFSAdapter implements StorageAdapter {
+  driver: StorageDriver = 'gridfs';
+
+  private get bucket() {
+    return new mongoose.mongo.GridFSBucket(mongoose.connection.db, {
+      bucketName: process.env.GRIDFS_BUCKET_NAME || 'uploads',
+    });
+  }
+
+  async write(hash: string, data: Buffer, contentType: string): Promise<string> {
+    return await new Promise<string>((resolve, reject) => {
+      const upload = this.bucket.openUploadStream(hash, { metadata: { hash, contentType } });
+      upload.once('error', reject);
+      upload.once('finish', () => resolve(upload.id.toString()));
+      upload.end(data);
+    });
+  }
+
+  read(storageKey: string, range?: ByteRange): Readable {
+    // GridFS treats end as exclusive
+    return this.bucket.openDownloadStream(
+      new mongoose.Types.ObjectId(storageKey),
+      range ? { start: range.start, end: range.end + 1 } : undefined
+    );
+  }
+
+  async remove(storageKey: string): Promise<void> {
+    await this.bucket.delete(new mongoose.Types.ObjectId(storageKey));
+  }
+}
+
+class LocalFSAdapter implements StorageAdapter {
+  driver: StorageDriver = 'local';
+
+  constructor(private root: string) {}
+
+  // Keys are content hashes; anything else could escape the storage root
+  private pathFor(storageKey: string): string {
+    if (!/^[a-f0-9]{64}$/.test(storageKey)) {
+      throw new Error('Invalid storage key');
+    }
+    return path.join(this.root, storageKey.slice(0, 2), storageKey);
+  }
+
+  async write(hash: string, data: Buffer): Promise<string> {
+    const target = this.pathFor(hash);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+    // Write then rename so a reader never sees a half-written blob
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(temp, data);
+    await fs.promises.rename(temp, target);
+
+    return hash;
+  }
+
+  read(storageKey: string, range?: ByteRange): Readable {
+    return fs.createReadStream(this.pathFor(storageKey), range);
+  }
+
+  async remove(storageKey: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(storageKey), { force: true });
+  }
+}
+
+const adapters: Partial<Record<StorageDriver, StorageAdapter>> = {};
+
+function getAdapter(driver?: StorageDriver): StorageAdapter {
+  const selected = driver || (process.env.FILE_STORAGE_DRIVER === 'local' ? 'local' : 'gridfs');
+
+  if (!adapters[selected]) {
+    adapters[selected] = selected === 'local'
+      ? new LocalFSAdapter(path.resolve(process.env.FILE_STORAGE_PATH || './storage/uploads'))
+      : new GridFSAdapter();
+  }
+
+  return adapters[selected]!;
+}
+
+function toFileInfo(file: IStoredFile): FileInfo {
+  return {
+    id: file._id.toString(),
+    ownerId: file.ownerId?.toString(),
+    filename: file.filename,
+    contentType: file.contentType,
+    size: file.size,
+    hash: file.hash,
+    uploadDate: file.createdAt,
+    metadata: file.metadata || {},
+  };
+}
+
+export function hashContent(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+// Parses a single-range "bytes=" header. Returns null when the whole file
+// should be sent (no header, or a form we don't serve such as multiple ranges)
+// and 'unsatisfiable' when the range lies outside the file.
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, startText, endText] = match;
+  if (!startText && !endText) return null;
+
+  let start: number;
+  let end: number;
+
+  if (!startText) {
+    // Suffix range: the last N bytes
+    const length = parseInt(endText, 10);
+    if (length === 0) return 'unsatisfiable';
+    start = Math.max(0, size - length);
+    end = size - 1;
+  } else {
+    start = parseInt(startText, 10);
+    end = endText ? Math.min(parseInt(endText, 10), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
+
+async function adjustStorageUsage(ownerId: string, delta: number): Promise<void> {
+  // Pipeline update so concurrent uploads and deletes never drive it negative
+  await Subscription.updateOne({ userId: ownerId }, [
+    {
+      $set: {
+        'usage.storageUsed': { $max: [0, { $add: [{ $ifNull: ['$usage.storageUsed', 0] }, delta] }] },
+        'usage.lastCalculated': new Date(),
+      },
+    },
+  ]);
+}
+
+export async function checkStorageQuota(
+  ownerId: string,
+  additionalBytes: number
+): Promise<{ allowed: boolean; used: number; limit: number }> {
+  await connectToDatabase();
+
+  const subscription = await Subscription.findOne({ userId: ownerId });
+
+  let used: number;
+  let limit: number;
+
+  if (subscription) {
+    used = subscription.usage?.storageUsed || 0;
+    limit = subscription.getSubscriptionLimits().maxStorageSpace;
+  } else {
+    const [totals] = await StoredFile.aggregate([
+      { $match: { ownerId: new mongoose.Types.ObjectId(ownerId), countsTowardsQuota: true } },
+      { $group: { _id: null, size: { $sum: '$size' } } },
+    ]);
+    used = totals?.size || 0;
+    limit = DEFAULT_STORAGE_QUOTA;
+  }
+
+  return {
+    allowed: limit < 0 || used + additionalBytes <= limit,
+    used,
+    limit,
+  };
+}
+
+// Stores a file and returns its id. Identical content is written once and
+// shared; an owner re-uploading content they already have gets the existing
+// file back without being charged again.
+export async function uploadFile(
+  data: Buffer,
+  filename: string,
+  contentType: string = 'application/octet-stream',
+  options: UploadOptions = {}
+): Promise<string> {
+  await connectToDatabase();
+
+  const adapter = getAdapter();
+  const hash = hashContent(data);
+  const countsTowardsQuota = !!options.ownerId && options.countsTowardsQuota !== false;
+
+  if (options.ownerId) {
+    const existing = await StoredFile.findOne({
+      ownerId: options.ownerId,
+      hash,
+      driver: adapter.driver,
+    }).select('_id');
+
+    if (existing) {
+      return existing._id.toString();
+    }
+  }
+
+  const blob = await StoredFile.findOne({ hash, driver: adapter.driver }).select('storageKey');
+  const storageKey = blob ? blob.storageKey : await adapter.write(hash, data, contentType);
+
+  const file = await StoredFile.create({
+    ownerId: options.ownerId,
+    filename,
+    contentType,
+    size: data.length,
+    hash,
+    driver: adapter.driver,
+    storageKey,
+    countsTowardsQuota,
+    metadata: options.metadata || {},
+  });
+
+  if (countsTowardsQuota) {
+    await adjustStorageUsage(options.ownerId!, data.length);
+  }
+
+  return file._id.toString();
+}
+
+export async function getFileInfo(id: string): Promise<FileInfo | null> {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  await connectToDatabase();
+  const file = await StoredFile.findById(id);
+
+  return file ? toFileInfo(file) : null;
+}
+
+export async function downloadFile(id: string, range?: ByteRange): Promise<Readable> {
+  await connectToDatabase();
+
+  const file = mongoose.Types.ObjectId.isValid(id) ? await StoredFile.findById(id) : null;
+  if (!file) {
+    throw new Error('File not found');
+  }
+
+  return getAdapter(file.driver).read(file.storageKey, range);
+}
+
+export async function readFileBuffer(id: string): Promise<Buffer> {
+  const stream = await downloadFile(id);
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks);
+}
+
+// Removes the file record, and the blob once nothing else points at it.
+// Resized image variants listed in the metadata go with it.
+export async function deleteFile(id: string): Promise<boolean> {
+  await connectToDatabase();
+
+  const file = mongoose.Types.ObjectId.isValid(id) ? await StoredFile.findByIdAndDelete(id) : null;
+  if (!file) {
+    return false;
+  }
+
+  const stillReferenced = await StoredFile.exists({ driver: file.driver, storageKey: file.storageKey });
+  if (!stillReferenced) {
+    await getAdapter(file.driver).remove(file.storageKey);
+  }
+
+  if (file.countsTowardsQuota && file.ownerId) {
+    await adjustStorageUsage(file.ownerId.toString(), -file.size);
+  }
+
+  const variants: Array<{ fileId?: string }> = file.metadata?.variants || [];
+  for (const variant of variants) {
+    if (variant.fileId && variant.fileId !== id) {
+      await deleteFile(variant.fileId);
+    }
+  }
+
+  return true;
+}
+
+export async function deleteFilesForOwner(ownerId: string): Promise<number> {
+  await connectToDatabase();
+
+  const files = await StoredFile.find({ ownerId }).select('_id');
+  let deleted = 0;
+
+  // Variants may already be gone with their main image
+  for (const file of files) {
+    if (await deleteFile(file._id.toString())) {
+      deleted++;
+    }
+  }
+
+  return deleted;
+}
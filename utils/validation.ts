@@ -132,13 +132,13 @@ export const commentSchema = z.object({
   
   storyId: z.string().min(1, 'Story ID is required'),
   
-  commentType: z.enum(['grammar', 'creativity', 'suggestion', 'praise', 'improvement']),
+  commentType: z.enum(['grammar', 'creativity', 'suggestion', 'praise', 'improvement', 'question']),
   
-  highlightedText: z.string().optional(),
+  highlightedText: z.string().max(500, 'Highlight less than 500 characters').optional(),
   
   position: z.object({
-    start: z.number(),
-    end: z.number()
+    start: z.number().int().min(0),
+    end: z.number().int().min(0)
   }).optional()
 });
 